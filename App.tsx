@@ -482,6 +482,7 @@ if (!(window as any).__GK_APP_BOOTED__) {
 }
 import ListenPage from './pages/ListenPage';
 import ReadPage from './pages/ReadPage';
+import SearchPage from './pages/SearchPage';
 import LibraryPage from './pages/LibraryPage';
 import BookDetailPage from './pages/BookDetailPage';
 import ProfileSelectionPage from './pages/ProfileSelectionPage';
@@ -495,6 +496,7 @@ import SettingsPage from './pages/SettingsPage';
 import BookReaderPage from './pages/BookReaderPage';
 import AudioPage from './pages/AudioPage';
 import PlaylistPlayerPage from './pages/PlaylistPlayerPage';
+import PlayQueuePage from './pages/PlayQueuePage';
 import PlaylistDetailPage from './pages/PlaylistDetailPage';
 import UserPlaylistPage from './pages/UserPlaylistPage';
 import CreatePlaylistPage from './pages/CreatePlaylistPage';
@@ -782,6 +784,8 @@ import { metaAttributionService } from './services/metaAttributionService';
 import DemoTimer from './components/features/DemoTimer';
 import ReadyToJumpInPage from './pages/ReadyToJumpInPage';
 import OnboardingTutorial from './components/features/OnboardingTutorial';
+import WindDownScreen from './components/features/WindDownScreen';
+import AchievementCelebration from './components/features/AchievementCelebration';
 import { TutorialProvider, useTutorial } from './context/TutorialContext';
 
 // --- ASSETS & HELPERS ---
@@ -1229,6 +1233,7 @@ const App: React.FC = () => {
                   <Route path="/home" element={<HomePageWithWelcomeCheck />} />
                   <Route path="/listen" element={<ListenPage />} />
                   <Route path="/read" element={<ReadPage />} />
+                  <Route path="/search" element={<SearchPage />} />
                   <Route path="/library" element={<LibraryPage />} />
                   <Route path="/audio" element={<AudioPage />} />
                   <Route path="/book/:id" element={<BookDetailPage />} />
@@ -1239,6 +1244,7 @@ const App: React.FC = () => {
                   <Route path="/read/:bookId" element={<ProtectedRoute><BookReaderPage /></ProtectedRoute>} />
                   <Route path="/player/:bookId/:chapterId" element={<ProtectedRoute><AudioPlayerPage /></ProtectedRoute>} />
                   <Route path="/audio/playlist/:playlistId/play/:itemIndex" element={<ProtectedRoute><PlaylistPlayerPage /></ProtectedRoute>} />
+                  <Route path="/audio/queue" element={<ProtectedRoute><PlayQueuePage /></ProtectedRoute>} />
                   <Route path="/my-playlist/:id" element={<ProtectedRoute><UserPlaylistPage /></ProtectedRoute>} />
                   <Route path="/create-playlist" element={<ProtectedRoute><CreatePlaylistPage /></ProtectedRoute>} />
                   <Route path="/lessons" element={<ProtectedRoute><LessonsPage /></ProtectedRoute>} />
@@ -1257,6 +1263,8 @@ const App: React.FC = () => {
                   <Route path="*" element={isUserAuthenticated() ? <Navigate to="/home" replace /> : <Navigate to="/" replace />} />
                 </Routes>
               </Layout>
+              <WindDownScreen />
+              <AchievementCelebration />
               </ReferralPromptWrapper>
             </HashRouter>
             </BooksProvider>
@@ -0,0 +1,81 @@
+/**
+ * Portal roles and capabilities
+ *
+ * Every portal action is a named capability, and every portal member has one role that maps
+ * to a set of capabilities. The portal hides pages and buttons the role can't use, and the API
+ * rejects portal requests that need a capability the role doesn't have.
+ */
+
+const CAPABILITIES = {
+    'books.edit': 'Edit books, pages and book series',
+    'books.publish': 'Publish, schedule and roll back books',
+    'lessons.edit': 'Edit lessons and the lesson calendar',
+    'lessons.publish': 'Publish lessons',
+    'playlists.edit': 'Edit playlists and music',
+    'games.edit': 'Edit games',
+    'catalog.manage': 'Manage categories, badges, voices and featured content',
+    'translations.edit': 'Edit translations',
+    'radio.manage': 'Manage the radio station',
+    'notifications.send': 'Send and schedule push notifications',
+    'campaigns.manage': 'Manage giving campaigns and their updates',
+    'donations.view': 'View donations',
+    'hub.review': 'Review Godly Hub submissions',
+    'creators.manage': 'Invite and pay Godly Hub creators',
+    'subscribers.view': 'View and export email subscribers',
+    'subscribers.manage': 'Delete email subscribers',
+    'analytics.view': 'View analytics',
+    'members.manage': 'Invite portal members and assign roles',
+    'audit.view': 'View the audit log',
+};
+
+const ROLES = {
+    admin: {
+        label: 'Admin',
+        description: 'Everything, including members and the audit log',
+        capabilities: Object.keys(CAPABILITIES),
+    },
+    editor: {
+        label: 'Content editor',
+        description: 'Books, lessons, playlists, games and the catalog',
+        capabilities: [
+            'books.edit', 'books.publish', 'lessons.edit', 'lessons.publish', 'playlists.edit',
+            'games.edit', 'catalog.manage', 'translations.edit', 'analytics.view',
+        ],
+    },
+    lessonVolunteer: {
+        label: 'Lesson volunteer',
+        description: 'Edits lessons - an editor publishes them',
+        capabilities: ['lessons.edit'],
+    },
+    translator: {
+        label: 'Translator',
+        description: 'Translations only',
+        capabilities: ['translations.edit'],
+    },
+    finance: {
+        label: 'Finance',
+        description: 'Giving campaigns and donations',
+        capabilities: ['campaigns.manage', 'donations.view'],
+    },
+    moderator: {
+        label: 'Hub moderator',
+        description: 'Reviews Godly Hub submissions and looks after creators',
+        capabilities: ['hub.review', 'creators.manage'],
+    },
+    marketing: {
+        label: 'Marketing',
+        description: 'Notifications, featured content, subscribers and analytics',
+        capabilities: ['notifications.send', 'catalog.manage', 'subscribers.view', 'analytics.view'],
+    },
+};
+
+const getCapabilities = (role) => (ROLES[role] ? ROLES[role].capabilities : []);
+
+const roleHasCapability = (role, capability) => getCapabilities(role).includes(capability);
+
+module.exports = {
+    CAPABILITIES,
+    ROLES,
+    getCapabilities,
+    roleHasCapability,
+};
@@ -11,6 +11,7 @@ const {
   uploadLimiter,
   analyticsLimiter 
 } = require('./middleware/rateLimiter');
+const { auditTrail, publishGuard } = require('./middleware/auditTrail');
 
 const app = express();
 const PORT = process.env.PORT || 5001;
@@ -83,24 +84,47 @@ app.use('/api/upload', uploadLimiter, require('./routes/upload'));
 app.use('/api/analytics', analyticsLimiter, require('./routes/analytics'));
 
 // Standard routes (use general limiter already applied)
-app.use('/api/books', require('./routes/books'));
-app.use('/api/book-series', require('./routes/bookSeries'));
-app.use('/api/pages', require('./routes/pages'));
-app.use('/api/playlists', require('./routes/playlists'));
-app.use('/api/categories', require('./routes/categories'));
-app.use('/api/voices', require('./routes/voices'));
+// Portal changes are checked against the member's role and written to the audit log (middleware/auditTrail).
+// publicRoutes are the app's own writes - everything else needs a signed-in portal member.
+app.use('/api/books', auditTrail({
+  resource: 'book',
+  model: require('./models/Book'),
+  capability: publishGuard('books.edit', 'books.publish', ['publish', 'schedule', 'rollback']),
+  publicRoutes: ['POST /:id/view', 'POST /:id/read', 'POST /:id/like', 'POST /:id/favorite'],
+}), require('./routes/books'));
+app.use('/api/book-series', auditTrail({ resource: 'bookSeries', model: require('./models/BookSeries'), capability: 'books.edit' }), require('./routes/bookSeries'));
+app.use('/api/badges', auditTrail({ resource: 'badge', model: require('./models/Badge'), capability: 'catalog.manage' }), require('./routes/badges'));
+app.use('/api/pages', auditTrail({ resource: 'page', model: require('./models/Page'), capability: 'books.edit' }), require('./routes/pages'));
+app.use('/api/playlists', auditTrail({
+  resource: 'playlist',
+  model: require('./models/Playlist'),
+  capability: 'playlists.edit',
+  publicRoutes: ['POST /:id/play', 'POST /:playlistId/items/:itemId/play', 'POST /:id/like', 'POST /:id/favorite'],
+}), require('./routes/playlists'));
+app.use('/api/categories', auditTrail({ resource: 'category', model: require('./models/Category'), capability: 'catalog.manage' }), require('./routes/categories'));
+app.use('/api/voices', auditTrail({ resource: 'voice', model: require('./models/Voice'), capability: 'catalog.manage', publicRoutes: ['POST /unlock'] }), require('./routes/voices'));
 app.use('/api/voice-cloning', require('./routes/voiceCloning'));
-app.use('/api/games', require('./routes/games'));
-app.use('/api/lessons', require('./routes/lessons'));
-app.use('/api/notifications', require('./routes/notifications'));
-app.use('/api/music', require('./routes/music'));
+app.use('/api/games', auditTrail({ resource: 'game', model: require('./models/Game'), capability: 'games.edit', publicRoutes: ['POST /play-event'] }), require('./routes/games'));
+app.use('/api/lessons', auditTrail({
+  resource: 'lesson',
+  model: require('./models/Lesson'),
+  capability: publishGuard('lessons.edit', 'lessons.publish'),
+  publicRoutes: ['POST /planner/progress', 'POST /:id/complete'],
+}), require('./routes/lessons'));
+app.use('/api/notifications', auditTrail({ resource: 'notification', capability: 'notifications.send' }), require('./routes/notifications'));
+app.use('/api/music', auditTrail({ resource: 'music', model: require('./models/Music'), capability: 'playlists.edit' }), require('./routes/music'));
 app.use('/api/migration', require('./routes/migration'));
 app.use('/api/jobs', require('./routes/jobs'));
 app.use('/api/drip', require('./routes/drip'));
 app.use('/api/webhooks', require('./routes/webhooks'));
-app.use('/api/translate', require('./routes/translate'));
+app.use('/api/translate', auditTrail({
+  resource: 'translation',
+  capability: 'translations.edit',
+  // The app translates pages and UI text on demand
+  publicRoutes: ['POST /bulk', 'POST /ui', 'POST /text', 'POST /texts'],
+}), require('./routes/translate'));
 app.use('/api/referrals', require('./routes/referrals'));
-app.use('/api/featured', require('./routes/featured'));
+app.use('/api/featured', auditTrail({ resource: 'featured', capability: 'catalog.manage' }), require('./routes/featured'));
 app.use('/api/stripe', require('./routes/stripe'));
 app.use('/api/user-playlists', require('./routes/userPlaylists'));
 app.use('/api/ai', require('./routes/aiGenerate'));
@@ -108,19 +132,26 @@ app.use('/api/book-comments', require('./routes/bookComments'));
 app.use('/api/playlist-comments', require('./routes/playlistComments'));
 app.use('/api/play-events', require('./routes/playEvents'));
 app.use('/api/google-tts', ttsLimiter, require('./routes/googleTts'));
-app.use('/api/radio', require('./routes/radio'));
+app.use('/api/radio', auditTrail({ resource: 'radio', capability: 'radio.manage' }), require('./routes/radio'));
 app.use('/api/parent-quiz', require('./routes/parentQuiz'));
-app.use('/api/email-subscribers', require('./routes/emailSubscribers'));
+app.use('/api/parent-digest', require('./routes/parentDigest'));
+app.use('/api/email-subscribers', auditTrail({ resource: 'emailSubscriber', model: require('./models/EmailSubscriber'), publicRoutes: ['POST /', 'POST /unsubscribe'] }), require('./routes/emailSubscribers'));
 app.use('/api/meta', require('./routes/metaConversions'));
-app.use('/api/campaigns', require('./routes/campaigns'));
+app.use('/api/campaigns', auditTrail({ resource: 'campaign', model: require('./models/DonationCampaign'), capability: 'campaigns.manage' }), require('./routes/campaigns'));
 app.use('/api/donations', require('./routes/donations'));
-app.use('/api/campaign-updates', require('./routes/campaignUpdates'));
+app.use('/api/campaign-updates', auditTrail({ resource: 'campaignUpdate', model: require('./models/CampaignUpdate'), capability: 'campaigns.manage', publicRoutes: ['POST /:id/like'] }), require('./routes/campaignUpdates'));
 app.use('/api/app-user', require('./routes/appUser'));
+app.use('/api/sync', require('./routes/sync'));
+app.use('/api/portal', require('./routes/portal'));
 
 // Godly Hub - Creator marketplace
 app.use('/api/creator', authLimiter, require('./routes/creatorAuth'));
 app.use('/api/tokens', require('./routes/tokens'));
-app.use('/api/hub', require('./routes/hub'));
+app.use('/api/hub', auditTrail({
+  resource: 'hub',
+  // Creators' own playlists - checked by authenticateCreator in the router
+  publicRoutes: ['POST /my-playlists', 'PUT /my-playlists/:id', 'POST /my-playlists/:id/submit', 'DELETE /my-playlists/:id'],
+}), require('./routes/hub'));
 
 // Surveys & Feedback
 app.use('/api/survey', require('./routes/survey'));
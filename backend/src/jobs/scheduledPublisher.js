@@ -0,0 +1,65 @@
+/**
+ * Scheduled Publisher Job
+ *
+ * Publishes book drafts whose scheduled publish time has passed (set from the portal's
+ * Revisions page). This is the only place scheduled publishes happen - app reads never publish.
+ *
+ * Usage:
+ * - Can be called manually via POST /api/jobs/publish-scheduled
+ * - Should be set up as a cron job to run every few minutes (e.g., via Render cron jobs or external scheduler)
+ */
+
+const Book = require('../models/Book');
+const { publishIfDue } = require('../services/bookRevisionService');
+
+/**
+ * Publish every book whose scheduled time has come
+ */
+async function runScheduledPublishes() {
+    const startTime = Date.now();
+    console.log('⏰ Starting scheduled publish job...');
+
+    const results = {
+        due: 0,
+        published: [],
+        errors: [],
+    };
+
+    try {
+        const dueBooks = await Book.find({ scheduledPublishAt: { $ne: null, $lte: new Date() } });
+        results.due = dueBooks.length;
+
+        for (const book of dueBooks) {
+            try {
+                const revision = await publishIfDue(book);
+                if (revision) {
+                    results.published.push({ bookId: book._id, title: book.title, revision: revision.number });
+                }
+            } catch (error) {
+                console.error(`❌ Failed to publish "${book.title}":`, error.message);
+                results.errors.push({ bookId: book._id, error: error.message });
+            }
+        }
+
+        const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+        console.log(`✅ Scheduled publish job complete in ${duration}s - ${results.published.length}/${results.due} published`);
+
+        return {
+            success: true,
+            duration: `${duration}s`,
+            ...results,
+        };
+
+    } catch (error) {
+        console.error('❌ Scheduled publish job failed:', error);
+        return {
+            success: false,
+            error: error.message,
+            ...results,
+        };
+    }
+}
+
+module.exports = {
+    runScheduledPublishes,
+};
@@ -0,0 +1,126 @@
+const AuditLog = require('../models/AuditLog');
+const { resolvePortalActor } = require('./auth');
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Keys left out of before/after snapshots
+const SNAPSHOT_OMIT = ['__v', 'password', 'inviteToken'];
+
+const snapshot = (doc) => {
+  if (!doc) return null;
+  const copy = { ...doc };
+  SNAPSHOT_OMIT.forEach((key) => delete copy[key]);
+  return copy;
+};
+
+const isObjectId = (value) => /^[0-9a-fA-F]{24}$/.test(value || '');
+
+const findSnapshot = async (model, id) => {
+  if (!model || !isObjectId(id)) return null;
+  return snapshot(await model.findById(id).lean());
+};
+
+// "/:id", "/:id/publish", "/:id/revisions/3/rollback", "/reorder"...
+// -> the document id (if the path starts with one) and the last word after it
+const parsePath = (req) => {
+  const segments = req.path.split('/').filter(Boolean);
+  const resourceId = isObjectId(segments[0]) ? segments[0] : null;
+  const words = segments.filter(segment => !isObjectId(segment) && isNaN(Number(segment)));
+  return { resourceId, verb: words[words.length - 1] || null };
+};
+
+// "POST /:id/view" -> matcher for the request method and path within the router
+const compileRoute = (route) => {
+  const [method, path] = route.split(' ');
+  const pattern = new RegExp(`^${path.replace(/:[^/]+/g, '[^/]+')}/?$`);
+  return (req) => req.method === method && pattern.test(req.path);
+};
+
+/**
+ * Capability for routers whose documents are drafted then published: making a document
+ * published (or calling one of `publishVerbs`, e.g. /:id/publish) needs `publishCapability`
+ */
+const publishGuard = (editCapability, publishCapability, publishVerbs = []) => (req, before) => {
+  const { verb } = parsePath(req);
+  const publishing = req.body && req.body.status === 'published' && (!before || before.status !== 'published');
+  return publishing || publishVerbs.includes(verb) ? publishCapability : editCapability;
+};
+
+/**
+ * Audit and guard a router's portal changes.
+ *
+ *   app.use('/api/books', auditTrail({ resource: 'book', model: Book, capability: 'books.edit' }), ...)
+ *
+ * POST/PUT/PATCH/DELETE requests need a portal member (see resolvePortalActor) whose role has
+ * `capability` - a string, or (req, before) => string for routes where some actions need more
+ * (e.g. publishing) - and are recorded as an AuditLog entry with the document before and after.
+ *
+ * `publicRoutes` lists the app's own writes (views, likes, progress...) as "METHOD /path" with
+ * :params - those pass through without a portal member. Every other change is refused without one.
+ */
+const auditTrail = ({ resource, model, capability, publicRoutes = [] }) => {
+  const isPublic = publicRoutes.map(compileRoute);
+
+  return async (req, res, next) => {
+    if (!MUTATING_METHODS.includes(req.method)) return next();
+    if (isPublic.some(matches => matches(req))) return next();
+
+    try {
+      const actor = await resolvePortalActor(req);
+      if (!actor) {
+        return req.portalActorError === 'suspended'
+          ? res.status(403).json({ error: 'This portal account is suspended' })
+          : res.status(401).json({ error: 'Portal sign-in required' });
+      }
+
+      const { resourceId, verb } = parsePath(req);
+      const before = await findSnapshot(model, resourceId);
+
+      const needed = typeof capability === 'function' ? capability(req, before) : capability;
+      if (needed && !actor.capabilities.includes(needed)) {
+        return res.status(403).json({ error: `Your role doesn't allow this (${needed})` });
+      }
+
+      let action = verb || 'update';
+      if (!verb && req.method === 'DELETE') action = 'delete';
+      else if (!verb && req.method === 'POST') action = 'create';
+
+      let responseBody = null;
+      const json = res.json.bind(res);
+      res.json = (body) => {
+        responseBody = body;
+        return json(body);
+      };
+
+      res.on('finish', async () => {
+        if (res.statusCode >= 400) return;
+        try {
+          const afterId = resourceId || (responseBody && responseBody._id ? String(responseBody._id) : null);
+          const after = action === 'delete' ? null : await findSnapshot(model, afterId);
+          const labelSource = after || before || {};
+
+          await AuditLog.create({
+            actor: { kind: actor.kind, id: actor.id, email: actor.email, name: actor.name, role: actor.role },
+            action,
+            resource,
+            resourceId: afterId,
+            label: labelSource.title || labelSource.name || labelSource.email || '',
+            method: req.method,
+            path: req.originalUrl.split('?')[0],
+            before,
+            after,
+          });
+        } catch (error) {
+          console.error(`❌ Failed to write audit log for ${resource}:`, error.message);
+        }
+      });
+
+      next();
+    } catch (error) {
+      console.error('Audit trail error:', error.message);
+      res.status(500).json({ error: 'Authorization check failed' });
+    }
+  };
+};
+
+module.exports = { auditTrail, publishGuard };
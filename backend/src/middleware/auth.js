@@ -1,5 +1,7 @@
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const PortalMember = require('../models/PortalMember');
+const { getCapabilities } = require('../config/portalRoles');
 
 /**
  * Get admin emails from environment variable
@@ -115,4 +117,100 @@ const authenticateUser = async (req, res, next) => {
   }
 };
 
-module.exports = { authenticateAdmin, authenticateUser };
+/**
+ * Work out which portal member (if any) is making this request.
+ * Returns { kind, id, email, name, role, capabilities } or null for app users, creators and
+ * anonymous requests - req.portalActorError then says why when a token was refused
+ * ('invalid' or 'suspended'). Accepts:
+ * 1. Admin API key in X-Admin-Key header - full access
+ * 2. Portal member JWT (from /api/portal/login)
+ * 3. App account JWT with an admin email - full access
+ */
+const resolvePortalActor = async (req) => {
+  if (req.portalActor !== undefined) return req.portalActor;
+  req.portalActor = null;
+
+  const adminKey = req.headers['x-admin-key'];
+  if (adminKey && process.env.ADMIN_API_KEY && adminKey === process.env.ADMIN_API_KEY) {
+    req.portalActor = { kind: 'apiKey', id: null, email: 'api-key', name: 'Admin API key', role: 'admin', capabilities: getCapabilities('admin') };
+    return req.portalActor;
+  }
+
+  const authHeader = req.headers['authorization'];
+  if (!authHeader) return null;
+  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : authHeader;
+  if (!token) return null;
+
+  let decoded;
+  try {
+    decoded = jwt.verify(token, process.env.JWT_SECRET || 'secret');
+  } catch (error) {
+    req.portalActorError = 'invalid';
+    return null;
+  }
+
+  if (decoded.memberId) {
+    const member = await PortalMember.findById(decoded.memberId);
+    if (!member || member.status !== 'active') {
+      req.portalActorError = member && member.status === 'suspended' ? 'suspended' : 'invalid';
+      return null;
+    }
+    req.portalActor = {
+      kind: 'member',
+      id: String(member._id),
+      email: member.email,
+      name: member.name,
+      role: member.role,
+      capabilities: getCapabilities(member.role),
+    };
+    return req.portalActor;
+  }
+
+  const userId = decoded.user?.id || decoded.id;
+  if (!userId || decoded.role === 'creator') return null;
+  const user = await User.findById(userId);
+  if (!user || !getAdminEmails().includes(user.email.toLowerCase())) return null;
+
+  req.user = user;
+  req.portalActor = {
+    kind: 'admin',
+    id: String(user._id),
+    email: user.email,
+    name: user.username,
+    role: 'admin',
+    capabilities: getCapabilities('admin'),
+  };
+  return req.portalActor;
+};
+
+/**
+ * Middleware to require a portal capability (see config/portalRoles)
+ * Sets req.portalActor, and req.user to { email } for members so routes can record who acted
+ */
+const requireCapability = (capability) => async (req, res, next) => {
+  try {
+    const actor = await resolvePortalActor(req);
+    if (!actor) {
+      return req.portalActorError === 'suspended'
+        ? res.status(403).json({ error: 'This portal account is suspended' })
+        : res.status(401).json({ error: 'Portal sign-in required' });
+    }
+    if (!actor.capabilities.includes(capability)) {
+      return res.status(403).json({ error: `Your role doesn't allow this (${capability})` });
+    }
+    if (!req.user) req.user = { email: actor.email, name: actor.name };
+    next();
+  } catch (error) {
+    console.error('Portal auth error:', error.message);
+    res.status(500).json({ error: 'Authentication failed' });
+  }
+};
+
+/**
+ * requireCapability for ?draft=true reads only - unpublished drafts are for the portal,
+ * everyone else gets the published version
+ */
+const requireCapabilityForDraft = (capability) => (req, res, next) =>
+  req.query.draft === 'true' ? requireCapability(capability)(req, res, next) : next();
+
+module.exports = { authenticateAdmin, authenticateUser, getAdminEmails, resolvePortalActor, requireCapability, requireCapabilityForDraft };
@@ -56,6 +56,13 @@ const analyticsLimiter = rateLimit({
   limit: 1000,
 });
 
+// Parent digest "send now" - each send is an outgoing email
+const digestSendLimiter = rateLimit({
+  ...common,
+  windowMs: 60 * 60 * 1000, // 1 hour
+  limit: 10,
+});
+
 module.exports = {
   generalLimiter,
   authLimiter,
@@ -63,6 +70,7 @@ module.exports = {
   quizLimiter,
   uploadLimiter,
   analyticsLimiter,
+  digestSendLimiter,
 };
 
 
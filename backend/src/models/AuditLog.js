@@ -0,0 +1,51 @@
+const mongoose = require('mongoose');
+
+// Audit log - one entry per change made from the portal (middleware/auditTrail)
+// with who made it and the document before and after.
+const auditLogSchema = new mongoose.Schema({
+    actor: {
+        kind: { type: String, enum: ['member', 'admin', 'apiKey'], required: true },
+        id: { type: String },
+        email: { type: String },
+        name: { type: String },
+        role: { type: String },
+    },
+    // 'create', 'update', 'delete' or the route's own verb ('publish', 'rollback', 'review'...)
+    action: {
+        type: String,
+        required: true,
+    },
+    // 'book', 'lesson', 'campaign'...
+    resource: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    resourceId: {
+        type: String,
+        index: true,
+    },
+    // Title/name of the document, for the list view
+    label: {
+        type: String,
+    },
+    method: { type: String },
+    path: { type: String },
+    before: {
+        type: mongoose.Schema.Types.Mixed,
+        default: null,
+    },
+    after: {
+        type: mongoose.Schema.Types.Mixed,
+        default: null,
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+        index: true,
+    },
+});
+
+auditLogSchema.index({ 'actor.email': 1, createdAt: -1 });
+
+module.exports = mongoose.model('AuditLog', auditLogSchema);
@@ -0,0 +1,75 @@
+const mongoose = require('mongoose');
+
+// What a kid has to do to earn a badge - counted on the device from their activity
+const badgeRuleSchema = new mongoose.Schema({
+    metric: {
+        type: String,
+        enum: [
+            'booksRead',        // different books opened
+            'pagesRead',
+            'songsListened',
+            'gamesPlayed',
+            'lessonsCompleted',
+            'sessionsCompleted', // Godly Kids Time sessions
+            'streakDays',        // best lesson/session streak
+            'seriesCompleted',   // every book in `series`
+        ],
+        required: true,
+    },
+    target: {
+        type: Number,
+        default: 1,
+        min: 1,
+    },
+    // Only count books in this category (booksRead)
+    category: {
+        type: String,
+        trim: true,
+    },
+    // The series to finish (seriesCompleted)
+    series: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'BookSeries',
+    },
+}, { _id: false });
+
+const badgeSchema = new mongoose.Schema({
+    title: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    description: {
+        type: String,
+        trim: true,
+    },
+    icon: {
+        type: String, // Emoji
+        default: '🏅',
+    },
+    color: {
+        type: String,
+        default: '#FFD700',
+    },
+    rule: {
+        type: badgeRuleSchema,
+        required: true,
+    },
+    // Publication status - drafts never reach the app
+    status: {
+        type: String,
+        enum: ['draft', 'published'],
+        default: 'draft',
+    },
+    // Display order on the badge shelf
+    displayOrder: {
+        type: Number,
+        default: 0,
+    },
+}, {
+    timestamps: true,
+});
+
+badgeSchema.index({ status: 1, displayOrder: 1 });
+
+module.exports = mongoose.model('Badge', badgeSchema);
@@ -313,7 +313,29 @@ const bookSchema = new mongoose.Schema({
         }],
         default: [],
     },
-    
+
+    // Content versioning (see BookRevision)
+    // Portal edits to a published book are held here until they're published, so families
+    // only ever see the published revision. Pages are drafted in the Page collection itself.
+    draft: {
+        type: mongoose.Schema.Types.Mixed,
+        default: null,
+    },
+    draftUpdatedAt: {
+        type: Date,
+        default: null,
+    },
+    // Revision number currently live in the app
+    publishedRevision: {
+        type: Number,
+        default: null,
+    },
+    // When set, the draft goes live at this time (jobs/scheduledPublisher)
+    scheduledPublishAt: {
+        type: Date,
+        default: null,
+    },
+
     createdAt: {
         type: Date,
         default: Date.now,
@@ -0,0 +1,52 @@
+const mongoose = require('mongoose');
+
+// Book revision - a published snapshot of a book and all of its pages
+// A new revision is written every time a book's draft is published (or rolled back),
+// and the app is served the pages of the book's publishedRevision.
+const bookRevisionSchema = new mongoose.Schema({
+    book: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Book',
+        required: true,
+        index: true,
+    },
+    // 1, 2, 3... per book
+    number: {
+        type: Number,
+        required: true,
+    },
+    // Book fields as they were published (counters and versioning fields left out)
+    bookData: {
+        type: mongoose.Schema.Types.Mixed,
+        default: {},
+    },
+    // Page documents as they were published (original _ids kept for diffs and rollback)
+    pages: {
+        type: [mongoose.Schema.Types.Mixed],
+        default: [],
+    },
+    note: {
+        type: String,
+        trim: true,
+        default: '',
+    },
+    // How it went live: 'manual', 'scheduled', 'rollback' or 'baseline'
+    source: {
+        type: String,
+        enum: ['manual', 'scheduled', 'rollback', 'baseline'],
+        default: 'manual',
+    },
+    // Set when this revision restored an earlier one
+    restoredFrom: {
+        type: Number,
+        default: null,
+    },
+    publishedAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+bookRevisionSchema.index({ book: 1, number: -1 }, { unique: true });
+
+module.exports = mongoose.model('BookRevision', bookRevisionSchema);
@@ -10,7 +10,7 @@ const EmailSubscriberSchema = new mongoose.Schema({
   },
   source: {
     type: String,
-    enum: ['onboarding_bonus', 'settings', 'landing', 'other'],
+    enum: ['onboarding_bonus', 'settings', 'landing', 'parent_digest', 'other'],
     default: 'onboarding_bonus',
   },
   bonusAwarded: {
@@ -36,6 +36,14 @@ const EmailSubscriberSchema = new mongoose.Schema({
   unsubscribedAt: {
     type: Date,
   },
+  // Weekly parent progress digest (sent from the app's on-device stats)
+  weeklyDigest: {
+    type: Boolean,
+    default: false,
+  },
+  lastDigestSentAt: {
+    type: Date,
+  },
   parentName: {
     type: String,
   },
@@ -2,7 +2,8 @@ const mongoose = require('mongoose');
 
 /**
  * Per-profile watch progress for a lesson video.
- * Used for "seen" filtering (>= 50%) in the planner.
+ * Used for "seen" filtering (>= 50%) in the planner, and holds the app's
+ * resume point so a half-finished lesson can continue on another device.
  */
 const lessonWatchProgressSchema = new mongoose.Schema({
     profileId: {
@@ -34,6 +35,24 @@ const lessonWatchProgressSchema = new mongoose.Schema({
         default: Date.now,
         index: true,
     },
+    // Where the kid left off mid-lesson. Removed once the lesson is completed.
+    resume: {
+        screen: {
+            type: String,
+            enum: ['video', 'devotional', 'activity'],
+        },
+        episodeIndex: { type: Number, default: 0 },
+        videoTime: { type: Number, default: 0 }, // seconds into the current episode
+        videoWatched: { type: Boolean, default: false },
+        devotionalRead: { type: Boolean, default: false },
+        questionIndex: { type: Number, default: 0 },
+        quizAnswers: [{
+            _id: false,
+            questionIndex: Number,
+            optionIndex: Number,
+        }],
+        updatedAt: Date,
+    },
 });
 
 lessonWatchProgressSchema.index({ profileId: 1, lessonId: 1 }, { unique: true });
@@ -1,5 +1,12 @@
 const mongoose = require('mongoose');
 
+// One displayed word of a text box and when it is spoken in the page's narrator recording
+const wordTimingSchema = new mongoose.Schema({
+    word: { type: String },
+    start: { type: Number }, // seconds
+    end: { type: Number }, // seconds
+}, { _id: false });
+
 // Page schema - organized as subfolder under each book
 const pageSchema = new mongoose.Schema({
     bookId: {
@@ -62,6 +69,10 @@ const pageSchema = new mongoose.Schema({
             showBackground: { type: Boolean, default: false }, // Show semi-transparent background behind text
             backgroundColor: { type: String, default: 'rgba(255,255,255,0.85)' }, // Background color when showBackground is true
             shadowColor: { type: String, default: 'white' }, // Text shadow color: 'white', 'black', or custom
+            // Where this box is read in the page's narrator recording (seconds) - see `narration`
+            startTime: { type: Number },
+            endTime: { type: Number },
+            words: [wordTimingSchema],
         }],
     },
 
@@ -168,8 +179,21 @@ const pageSchema = new mongoose.Schema({
         fontFamily: { type: String, default: 'Patrick Hand' }, // Google Font - works on iOS
         fontSize: { type: Number, default: 24 },
         color: { type: String, default: '#4a3b2a' },
+        startTime: { type: Number },
+        endTime: { type: Number },
+        words: [wordTimingSchema],
     }],
 
+    // Human narrator recording for the whole page, aligned in the portal's read-along timing editor.
+    // Each text box's startTime/endTime/words place its displayed words in this recording,
+    // and the reader plays it instead of generated TTS.
+    narration: {
+        audioUrl: { type: String },
+        duration: { type: Number }, // seconds
+        uploadedAt: { type: Date },
+        alignedAt: { type: Date },
+    },
+
     createdAt: {
         type: Date,
         default: Date.now,
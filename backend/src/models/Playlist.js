@@ -23,6 +23,10 @@ const audioItemSchema = new mongoose.Schema({
     duration: {
         type: Number, // Duration in seconds
     },
+    // Loudness normalization in dB, measured by the portal when the audio is uploaded
+    gain: {
+        type: Number,
+    },
     order: {
         type: Number,
         default: 0,
@@ -0,0 +1,106 @@
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+const bcrypt = require('bcryptjs');
+const { ROLES } = require('../config/portalRoles');
+
+// Portal member - staff and volunteers who sign in to the admin portal with a role
+// (config/portalRoles). Admins listed in ADMIN_EMAILS can still sign in with their app account.
+const portalMemberSchema = new mongoose.Schema({
+    email: {
+        type: String,
+        required: true,
+        unique: true,
+        lowercase: true,
+        trim: true,
+    },
+    password: {
+        type: String,
+        // Not required until they accept invite
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    role: {
+        type: String,
+        enum: Object.keys(ROLES),
+        required: true,
+    },
+
+    // Status
+    status: {
+        type: String,
+        enum: ['invited', 'active', 'suspended'],
+        default: 'invited',
+        index: true,
+    },
+
+    // Invite tracking
+    inviteToken: {
+        type: String,
+        unique: true,
+        sparse: true,
+    },
+    inviteExpiresAt: {
+        type: Date,
+    },
+    invitedAt: {
+        type: Date,
+        default: Date.now,
+    },
+    invitedBy: {
+        type: String, // Email of the admin who sent the invite
+    },
+    activatedAt: {
+        type: Date,
+    },
+    lastLoginAt: {
+        type: Date,
+    },
+}, {
+    timestamps: true,
+});
+
+// Hash password before saving
+portalMemberSchema.pre('save', async function() {
+    if (!this.isModified('password') || !this.password) {
+        return;
+    }
+
+    const salt = await bcrypt.genSalt(10);
+    this.password = await bcrypt.hash(this.password, salt);
+});
+
+// Compare password method
+portalMemberSchema.methods.comparePassword = async function(candidatePassword) {
+    if (!this.password) return false;
+    return bcrypt.compare(candidatePassword, this.password);
+};
+
+// Invite links stop working after this long - resend the invite for a new one
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Generate invite token
+portalMemberSchema.statics.generateInviteToken = function() {
+    return crypto.randomBytes(32).toString('hex');
+};
+
+// New invite link: sets inviteToken, inviteExpiresAt and invitedAt (caller saves)
+portalMemberSchema.methods.issueInvite = function() {
+    this.inviteToken = this.constructor.generateInviteToken();
+    this.invitedAt = new Date();
+    this.inviteExpiresAt = new Date(Date.now() + INVITE_TTL_MS);
+    return this.inviteToken;
+};
+
+// Query for a pending invite that hasn't expired
+portalMemberSchema.statics.findByInviteToken = function(inviteToken) {
+    return this.findOne({
+        inviteToken: String(inviteToken),
+        status: 'invited',
+        inviteExpiresAt: { $gt: new Date() },
+    });
+};
+
+module.exports = mongoose.model('PortalMember', portalMemberSchema);
@@ -0,0 +1,57 @@
+const mongoose = require('mongoose');
+
+/**
+ * One synced app record (reading progress, favorite, library entry, ...) for a family account.
+ * The app keeps a local change log and pushes/pulls these through /api/sync.
+ * Deleted records stay as tombstones so removals propagate to every device.
+ */
+const syncRecordSchema = new mongoose.Schema({
+    // Email of the signed-in account (taken from the auth token, never the request body)
+    userId: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    // 'family' for account-wide stores, 'profile:<kidId>' for per-kid stores
+    scope: {
+        type: String,
+        required: true,
+    },
+    // Store name on the client, e.g. 'readingProgress', 'favoriteBooks'
+    store: {
+        type: String,
+        required: true,
+    },
+    recordId: {
+        type: String,
+        required: true,
+    },
+    value: {
+        type: mongoose.Schema.Types.Mixed,
+        default: null,
+    },
+    deleted: {
+        type: Boolean,
+        default: false,
+    },
+    // Client timestamp of the change - used for last-writer-wins
+    updatedAt: {
+        type: Number,
+        required: true,
+    },
+    // Device that made the winning change (tie-breaker for equal timestamps)
+    deviceId: {
+        type: String,
+        default: '',
+    },
+    // Server time the record was last written - used for incremental pulls
+    syncedAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+syncRecordSchema.index({ userId: 1, scope: 1, store: 1, recordId: 1 }, { unique: true });
+syncRecordSchema.index({ userId: 1, scope: 1, syncedAt: 1 });
+
+module.exports = mongoose.model('SyncRecord', syncRecordSchema);
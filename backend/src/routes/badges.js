@@ -0,0 +1,162 @@
+const express = require('express');
+const router = express.Router();
+const Badge = require('../models/Badge');
+const Book = require('../models/Book');
+const BookSeries = require('../models/BookSeries');
+
+const BADGE_FIELDS = ['title', 'description', 'icon', 'color', 'rule', 'status', 'displayOrder'];
+
+/**
+ * The app counts progress on the device, where it only knows book ids - so category and
+ * series rules are sent with the ids of the books that count towards them.
+ */
+const withBookIds = async (badges) => {
+    const categories = [...new Set(badges.map(b => b.rule?.category).filter(Boolean))];
+    const seriesIds = [...new Set(badges.map(b => b.rule?.series && b.rule.series.toString()).filter(Boolean))];
+
+    const booksByCategory = {};
+    if (categories.length > 0) {
+        const books = await Book.find({
+            status: 'published',
+            $or: [{ category: { $in: categories } }, { categories: { $in: categories } }],
+        }).select('_id category categories').lean();
+        categories.forEach(category => {
+            booksByCategory[category] = books
+                .filter(book => book.category === category || (book.categories || []).includes(category))
+                .map(book => book._id.toString());
+        });
+    }
+
+    const booksBySeries = {};
+    if (seriesIds.length > 0) {
+        const series = await BookSeries.find({ _id: { $in: seriesIds } }).select('books').lean();
+        series.forEach(s => {
+            booksBySeries[s._id.toString()] = (s.books || []).map(b => b.book.toString());
+        });
+    }
+
+    return badges.map(badge => {
+        const rule = { ...badge.rule };
+        if (rule.metric === 'seriesCompleted' && rule.series) {
+            rule.bookIds = booksBySeries[rule.series.toString()] || [];
+        } else if (rule.metric === 'booksRead' && rule.category) {
+            rule.bookIds = booksByCategory[rule.category] || [];
+        }
+        return { ...badge, rule };
+    });
+};
+
+/**
+ * GET /api/badges
+ * Get all badges (published only unless ?status=all)
+ */
+router.get('/', async (req, res) => {
+    try {
+        const { status } = req.query;
+        const query = {};
+        if (status === 'all') {
+            // No filter - portal sees drafts too
+        } else if (status) {
+            query.status = status;
+        } else {
+            query.status = 'published';
+        }
+
+        const badges = await Badge.find(query).sort({ displayOrder: 1, createdAt: 1 }).lean();
+        res.json(await withBookIds(badges));
+    } catch (error) {
+        console.error('Error fetching badges:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/badges/:id
+ * Get a single badge
+ */
+router.get('/:id', async (req, res) => {
+    try {
+        const badge = await Badge.findById(req.params.id).lean();
+        if (!badge) {
+            return res.status(404).json({ error: 'Badge not found' });
+        }
+        const [resolved] = await withBookIds([badge]);
+        res.json(resolved);
+    } catch (error) {
+        console.error('Error fetching badge:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/badges
+ * Create a badge
+ */
+router.post('/', async (req, res) => {
+    try {
+        const { title, rule } = req.body;
+        if (!title || !rule?.metric) {
+            return res.status(400).json({ error: 'Title and rule are required' });
+        }
+        if (rule.metric === 'seriesCompleted' && !rule.series) {
+            return res.status(400).json({ error: 'Pick the series to finish' });
+        }
+
+        const badge = new Badge({});
+        BADGE_FIELDS.forEach(field => {
+            if (req.body[field] !== undefined) badge[field] = req.body[field];
+        });
+        await badge.save();
+
+        console.log('🏅 Badge created:', badge.title);
+        res.status(201).json(badge);
+    } catch (error) {
+        console.error('Error creating badge:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * PUT /api/badges/:id
+ * Update a badge
+ */
+router.put('/:id', async (req, res) => {
+    try {
+        const badge = await Badge.findById(req.params.id);
+        if (!badge) {
+            return res.status(404).json({ error: 'Badge not found' });
+        }
+
+        BADGE_FIELDS.forEach(field => {
+            if (req.body[field] !== undefined) badge[field] = req.body[field];
+        });
+        if (badge.rule.metric === 'seriesCompleted' && !badge.rule.series) {
+            return res.status(400).json({ error: 'Pick the series to finish' });
+        }
+        await badge.save();
+
+        res.json(badge);
+    } catch (error) {
+        console.error('Error updating badge:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * DELETE /api/badges/:id
+ * Delete a badge (kids who earned it keep it on their shelf)
+ */
+router.delete('/:id', async (req, res) => {
+    try {
+        const badge = await Badge.findByIdAndDelete(req.params.id);
+        if (!badge) {
+            return res.status(404).json({ error: 'Badge not found' });
+        }
+        res.json({ message: 'Badge deleted successfully' });
+    } catch (error) {
+        console.error('Error deleting badge:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+module.exports = router;
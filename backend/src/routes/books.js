@@ -3,6 +3,18 @@ const router = express.Router();
 const Book = require('../models/Book');
 const mongoose = require('mongoose');
 const { notifyNewBook } = require('../services/notificationService');
+const {
+    isLive,
+    pickVersioned,
+    applyBookChanges,
+    previewBook,
+    publishBook,
+    ensureBaseline,
+    rollbackBook,
+    diffBook,
+} = require('../services/bookRevisionService');
+const BookRevision = require('../models/BookRevision');
+const { requireCapability, requireCapabilityForDraft } = require('../middleware/auth');
 
 // GET all books (with pagination support)
 router.get('/', async (req, res) => {
@@ -56,7 +68,9 @@ router.get('/', async (req, res) => {
         const total = await Book.countDocuments(filter);
         
         // Fetch books with pagination
+        // Pending drafts stay in the portal
         const books = await Book.find(filter)
+            .select('-draft')
             .sort({ createdAt: -1 })
             .skip(skip)
             .limit(limit)
@@ -96,7 +110,7 @@ router.get('/featured', async (req, res) => {
         const books = await Book.find({ 
             isFeatured: true, 
             status: 'published' 
-        }).sort({ featuredOrder: 1, createdAt: -1 });
+        }).select('-draft').sort({ featuredOrder: 1, createdAt: -1 });
         
         // Map books to include coverImage for backward compatibility
         const booksWithCoverImage = books.map(book => {
@@ -124,7 +138,7 @@ router.get('/top-rated', async (req, res) => {
         const books = await Book.find({ 
             status: 'published',
             readCount: { $gte: minReads } // At least minReads to be considered
-        });
+        }).select('-draft');
         
         // Calculate rating ratio and filter
         const topRatedBooks = books
@@ -206,7 +220,7 @@ router.get('/trending', async (req, res) => {
             const books = await Book.find({ 
                 _id: { $in: bookIds },
                 status: 'published'
-            }).lean();
+            }).select('-draft').lean();
             
             // Create a map for quick lookup
             const bookMap = {};
@@ -244,6 +258,7 @@ router.get('/trending', async (req, res) => {
             status: 'published',
             readCount: { $gt: 0 }
         })
+        .select('-draft')
         .sort({ readCount: -1 })
         .limit(limit)
         .lean();
@@ -280,22 +295,30 @@ function parseTimeWindow(window) {
     }
 }
 
+// Book JSON for the portal/app: coverImage at the root and the versioning state of `book`
+const toBookResponse = (doc, book) => {
+    const bookObj = doc.toObject();
+    // Add coverImage at root level from files.coverImage for backward compatibility
+    if (bookObj.files && bookObj.files.coverImage) {
+        bookObj.coverImage = bookObj.files.coverImage;
+    } else if (!bookObj.files) {
+        // If files doesn't exist (old data), keep coverImage as is
+        bookObj.files = { coverImage: bookObj.coverImage || null, images: [], videos: [], audio: [] };
+    }
+    delete bookObj.draft;
+    bookObj.hasDraft = !!book.draft;
+    return bookObj;
+};
+
 // GET single book
-router.get('/:id', async (req, res) => {
+// ?draft=true returns the book with its unpublished draft applied (portal editor)
+router.get('/:id', requireCapabilityForDraft('books.edit'), async (req, res) => {
     try {
         const book = await Book.findById(req.params.id);
         if (!book) return res.status(404).json({ message: 'Book not found' });
         
-        const bookObj = book.toObject();
-        // Add coverImage at root level from files.coverImage for backward compatibility
-        if (bookObj.files && bookObj.files.coverImage) {
-            bookObj.coverImage = bookObj.files.coverImage;
-        } else if (!bookObj.files) {
-            // If files doesn't exist (old data), keep coverImage as is
-            bookObj.files = { coverImage: bookObj.coverImage || null, images: [], videos: [], audio: [] };
-        }
-        
-        res.json(bookObj);
+        const source = req.query.draft === 'true' ? previewBook(book) : book;
+        res.json(toBookResponse(source, book));
     } catch (error) {
         res.status(500).json({ message: error.message });
     }
@@ -388,6 +411,9 @@ router.post('/', async (req, res) => {
 });
 
 // PUT update book
+// With ?draft=true (the portal editor), changes to a published book are held as a draft
+// until they're published - see the revision routes below. Without it a published book only
+// takes operational fields (status, featuring...) - content would skip the revision history.
 router.put('/:id', async (req, res) => {
     try {
         console.log('PUT /api/books/:id - Updating book:', req.params.id);
@@ -396,76 +422,37 @@ router.put('/:id', async (req, res) => {
         const book = await Book.findById(req.params.id);
         if (!book) return res.status(404).json({ message: 'Book not found' });
 
-        // Initialize files object if it doesn't exist
-        if (!book.files) {
-            book.files = { coverImage: null, images: [], videos: [], audio: [] };
-        }
+        const wasLive = isLive(book);
+        if (req.query.draft === 'true' && wasLive) {
+            await ensureBaseline(book);
 
-        // Handle files object - ensure proper structure
-        if (req.body.files) {
-            // If files.coverImage is explicitly provided, use it
-            if (req.body.files.coverImage !== undefined) {
-                book.files.coverImage = req.body.files.coverImage || null;
-                console.log('Updated coverImage from files.coverImage:', book.files.coverImage);
-            }
-            // Otherwise, if root coverImage is provided, use it
-            else if (req.body.coverImage !== undefined) {
-                book.files.coverImage = req.body.coverImage || null;
-                console.log('Updated coverImage from root coverImage:', book.files.coverImage);
-            }
-            
-            if (req.body.files.images !== undefined) {
-                book.files.images = req.body.files.images;
-            }
-            if (req.body.files.videos !== undefined) {
-                book.files.videos = req.body.files.videos;
-            }
-            if (req.body.files.audio !== undefined) {
-                book.files.audio = req.body.files.audio;
-            }
-            delete req.body.files; // Remove from body to avoid duplicate assignment
-        }
-        // Handle coverImage at root level if files object was not provided
-        else if (req.body.coverImage !== undefined) {
-            book.files.coverImage = req.body.coverImage || null;
-            console.log('Updated coverImage from root (no files object):', book.files.coverImage);
-        }
-        
-        // Remove coverImage from body to avoid duplicate assignment
-        delete req.body.coverImage;
+            // Content waits in the draft, operational fields (status, featuring) apply now
+            const changes = pickVersioned(req.body);
+            Object.keys(changes).forEach((field) => delete req.body[field]);
+            book.draft = { ...(book.draft || {}), ...changes };
+            book.draftUpdatedAt = new Date();
+            book.markModified('draft');
+            Object.assign(book, req.body);
 
-        // Handle pages array
-        if (req.body.pages !== undefined) {
-            book.pages = req.body.pages || [];
-            delete req.body.pages; // Remove from body to avoid duplicate assignment
+            const updatedBook = await book.save();
+            console.log(`📝 Saved draft for "${updatedBook.title}"`);
+            return res.json(toBookResponse(previewBook(updatedBook), updatedBook));
         }
 
-        // Handle bookVideos separately
-        if (req.body.bookVideos !== undefined) {
-            book.bookVideos = req.body.bookVideos;
-            delete req.body.bookVideos;
-        }
-        
-        // Handle bookGames separately
-        if (req.body.bookGames !== undefined) {
-            book.bookGames = req.body.bookGames;
-            delete req.body.bookGames;
-        }
-        
-        // Handle multi-character voice settings
-        if (req.body.defaultNarratorVoiceId !== undefined) {
-            book.defaultNarratorVoiceId = req.body.defaultNarratorVoiceId || null;
-            console.log('🎭 Updated defaultNarratorVoiceId:', book.defaultNarratorVoiceId);
-            delete req.body.defaultNarratorVoiceId;
-        }
-        if (req.body.characterVoices !== undefined) {
-            book.characterVoices = req.body.characterVoices || [];
-            console.log('🎭 Updated characterVoices:', JSON.stringify(book.characterVoices));
-            delete req.body.characterVoices;
+        if (wasLive) {
+            const content = Object.keys(pickVersioned(req.body));
+            if (content.length > 0) {
+                return res.status(409).json({
+                    message: `This book is published - save ${content.join(', ')} as a draft (?draft=true) and publish it`,
+                });
+            }
+        } else if (book.draft) {
+            // Nobody can see the book - a leftover draft is folded in first
+            applyBookChanges(book, { ...book.draft });
+            book.draft = null;
+            book.draftUpdatedAt = null;
         }
-        
-        // Update all other fields
-        Object.assign(book, req.body);
+        applyBookChanges(book, req.body);
         
         // Check if status is changing to published
         const wasPublished = book.status === 'published';
@@ -478,13 +465,13 @@ router.put('/:id', async (req, res) => {
         if (!wasPublished && updatedBook.status === 'published') {
             notifyNewBook(updatedBook).catch(err => console.error('Notification error:', err));
         }
-        
-        // Map coverImage for backward compatibility in response
-        const bookObj = updatedBook.toObject();
-        if (bookObj.files && bookObj.files.coverImage) {
-            bookObj.coverImage = bookObj.files.coverImage;
+
+        // Going live publishes what the editor just saved as a new revision
+        if (!wasLive && isLive(updatedBook)) {
+            await publishBook(updatedBook, { note: 'Book published' });
         }
         
+        const bookObj = toBookResponse(updatedBook, updatedBook);
         console.log('Sending response - coverImage:', bookObj.coverImage);
         res.json(bookObj);
     } catch (error) {
@@ -499,12 +486,134 @@ router.delete('/:id', async (req, res) => {
         if (!book) return res.status(404).json({ message: 'Book not found' });
 
         await book.deleteOne();
+        await BookRevision.deleteMany({ book: book._id });
         res.json({ message: 'Book deleted' });
     } catch (error) {
         res.status(500).json({ message: error.message });
     }
 });
 
+// ============ REVISIONS ============
+// Published books are edited as a draft (PUT ?draft=true, page edits) and go live as numbered revisions.
+
+// GET revision history and the draft/schedule state
+router.get('/:id/revisions', requireCapability('books.edit'), async (req, res) => {
+    try {
+        const book = await Book.findById(req.params.id);
+        if (!book) return res.status(404).json({ message: 'Book not found' });
+
+        const revisions = await BookRevision.aggregate([
+            { $match: { book: book._id } },
+            { $sort: { number: -1 } },
+            {
+                $project: {
+                    number: 1,
+                    note: 1,
+                    source: 1,
+                    restoredFrom: 1,
+                    publishedAt: 1,
+                    pageCount: { $size: '$pages' },
+                },
+            },
+        ]);
+
+        res.json({
+            status: book.status,
+            publishedRevision: book.publishedRevision,
+            scheduledPublishAt: book.scheduledPublishAt,
+            draftUpdatedAt: book.draftUpdatedAt,
+            hasDraft: !!book.draft,
+            revisions,
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// GET page-by-page diff of the draft against the live revision (or ?against=<number>)
+router.get('/:id/revisions/diff', requireCapability('books.edit'), async (req, res) => {
+    try {
+        const book = await Book.findById(req.params.id);
+        if (!book) return res.status(404).json({ message: 'Book not found' });
+
+        const against = req.query.against ? Number(req.query.against) : null;
+        res.json(await diffBook(book, against));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// POST publish the draft now
+// Body: { note? }
+router.post('/:id/publish', async (req, res) => {
+    try {
+        const book = await Book.findById(req.params.id);
+        if (!book) return res.status(404).json({ message: 'Book not found' });
+
+        const revision = await publishBook(book, { note: req.body.note || '' });
+        res.json({ number: revision.number, publishedAt: revision.publishedAt });
+    } catch (error) {
+        console.error('Error publishing book:', error);
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// PUT schedule the draft to publish at a date/time
+// Body: { publishAt: ISO date }
+router.put('/:id/schedule', async (req, res) => {
+    try {
+        const publishAt = new Date(req.body.publishAt);
+        if (isNaN(publishAt.getTime())) {
+            return res.status(400).json({ message: 'publishAt must be a valid date' });
+        }
+        if (publishAt <= new Date()) {
+            return res.status(400).json({ message: 'publishAt must be in the future' });
+        }
+
+        const book = await Book.findById(req.params.id);
+        if (!book) return res.status(404).json({ message: 'Book not found' });
+
+        await ensureBaseline(book);
+        book.scheduledPublishAt = publishAt;
+        await book.save();
+        console.log(`⏰ "${book.title}" scheduled to publish at ${publishAt.toISOString()}`);
+        res.json({ scheduledPublishAt: book.scheduledPublishAt });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// DELETE cancel a scheduled publish (the draft is kept)
+router.delete('/:id/schedule', async (req, res) => {
+    try {
+        const book = await Book.findById(req.params.id);
+        if (!book) return res.status(404).json({ message: 'Book not found' });
+
+        book.scheduledPublishAt = null;
+        await book.save();
+        res.json({ scheduledPublishAt: null });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// POST roll back to an earlier revision - replaces the draft and publishes it as a new revision
+// Body: { note? }
+router.post('/:id/revisions/:number/rollback', async (req, res) => {
+    try {
+        const book = await Book.findById(req.params.id);
+        if (!book) return res.status(404).json({ message: 'Book not found' });
+
+        const revision = await rollbackBook(book, Number(req.params.number), req.body.note);
+        if (!revision) return res.status(404).json({ message: 'Revision not found' });
+
+        res.json({ number: revision.number, restoredFrom: revision.restoredFrom, publishedAt: revision.publishedAt });
+    } catch (error) {
+        console.error('Error rolling back book:', error);
+        res.status(500).json({ message: error.message });
+    }
+});
+
 // POST increment view count (called when a user OPENS a book)
 router.post('/:id/view', async (req, res) => {
     try {
@@ -2,16 +2,7 @@ const express = require('express');
 const router = express.Router();
 const EmailSubscriber = require('../models/EmailSubscriber');
 
-// Try to load auth middleware, but don't fail if missing
-let authenticateAdmin;
-try {
-  const auth = require('../middleware/auth');
-  authenticateAdmin = auth.authenticateAdmin;
-} catch (err) {
-  console.warn('⚠️ Auth middleware not found, using passthrough for admin routes');
-  // Fallback: allow all requests (temporary for debugging)
-  authenticateAdmin = (req, res, next) => next();
-}
+const { requireCapability } = require('../middleware/auth');
 
 // POST /api/email-subscribers - Subscribe an email (public endpoint for app)
 router.post('/', async (req, res) => {
@@ -88,7 +79,7 @@ router.post('/', async (req, res) => {
 });
 
 // GET /api/email-subscribers - List all subscribers (admin only)
-router.get('/', authenticateAdmin, async (req, res) => {
+router.get('/', requireCapability('subscribers.view'), async (req, res) => {
   try {
     const { page = 1, limit = 50, source, search, sortBy = 'createdAt', sortOrder = 'desc' } = req.query;
     
@@ -160,7 +151,7 @@ router.get('/', authenticateAdmin, async (req, res) => {
 });
 
 // GET /api/email-subscribers/export - Export all emails as CSV (admin only)
-router.get('/export', authenticateAdmin, async (req, res) => {
+router.get('/export', requireCapability('subscribers.view'), async (req, res) => {
   try {
     const subscribers = await EmailSubscriber.find({ optInUpdates: true, unsubscribedAt: null })
       .select('email parentName createdAt source platform')
@@ -184,7 +175,7 @@ router.get('/export', authenticateAdmin, async (req, res) => {
 });
 
 // DELETE /api/email-subscribers/:id - Remove a subscriber (admin only)
-router.delete('/:id', authenticateAdmin, async (req, res) => {
+router.delete('/:id', requireCapability('subscribers.manage'), async (req, res) => {
   try {
     const subscriber = await EmailSubscriber.findByIdAndDelete(req.params.id);
     if (!subscriber) {
@@ -4,7 +4,7 @@ const HubPlaylist = require('../models/HubPlaylist');
 const Creator = require('../models/Creator');
 const AppUser = require('../models/AppUser');
 const { authenticateCreator } = require('./creatorAuth');
-const { authenticateAdmin } = require('../middleware/auth');
+const { requireCapability } = require('../middleware/auth');
 
 // ==================== PUBLIC ROUTES (for app) ====================
 
@@ -408,7 +408,7 @@ router.get('/my-earnings', authenticateCreator, async (req, res) => {
 // ==================== ADMIN ROUTES ====================
 
 // GET /api/hub/admin/creators - List all creators
-router.get('/admin/creators', authenticateAdmin, async (req, res) => {
+router.get('/admin/creators', requireCapability('creators.manage'), async (req, res) => {
     try {
         const { status } = req.query;
         console.log('Fetching creators, status filter:', status || 'none');
@@ -430,7 +430,7 @@ router.get('/admin/creators', authenticateAdmin, async (req, res) => {
 });
 
 // POST /api/hub/admin/creators/invite - Invite a new creator
-router.post('/admin/creators/invite', authenticateAdmin, async (req, res) => {
+router.post('/admin/creators/invite', requireCapability('creators.manage'), async (req, res) => {
     try {
         const { email, name } = req.body;
         
@@ -486,7 +486,7 @@ router.post('/admin/creators/invite', authenticateAdmin, async (req, res) => {
 });
 
 // PUT /api/hub/admin/creators/:id/status - Update creator status
-router.put('/admin/creators/:id/status', authenticateAdmin, async (req, res) => {
+router.put('/admin/creators/:id/status', requireCapability('creators.manage'), async (req, res) => {
     try {
         const { status } = req.body;
         
@@ -515,7 +515,7 @@ router.put('/admin/creators/:id/status', authenticateAdmin, async (req, res) =>
 });
 
 // GET /api/hub/admin/pending - Get playlists pending review
-router.get('/admin/pending', authenticateAdmin, async (req, res) => {
+router.get('/admin/pending', requireCapability('hub.review'), async (req, res) => {
     try {
         const playlists = await HubPlaylist.find({ status: 'pending_review' })
             .populate('creatorId', 'name email profileImage')
@@ -530,7 +530,7 @@ router.get('/admin/pending', authenticateAdmin, async (req, res) => {
 });
 
 // PUT /api/hub/admin/playlists/:id/review - Approve or reject playlist
-router.put('/admin/playlists/:id/review', authenticateAdmin, async (req, res) => {
+router.put('/admin/playlists/:id/review', requireCapability('hub.review'), async (req, res) => {
     try {
         const { action, notes } = req.body;
         
@@ -574,7 +574,7 @@ router.put('/admin/playlists/:id/review', authenticateAdmin, async (req, res) =>
 });
 
 // GET /api/hub/admin/earnings - Get earnings report
-router.get('/admin/earnings', authenticateAdmin, async (req, res) => {
+router.get('/admin/earnings', requireCapability('creators.manage'), async (req, res) => {
     try {
         const { startDate, endDate } = req.query;
         
@@ -625,7 +625,7 @@ router.get('/admin/earnings', authenticateAdmin, async (req, res) => {
 });
 
 // POST /api/hub/admin/payouts/:creatorId - Record a payout
-router.post('/admin/payouts/:creatorId', authenticateAdmin, async (req, res) => {
+router.post('/admin/payouts/:creatorId', requireCapability('creators.manage'), async (req, res) => {
     try {
         const { amountCents, method, transactionReference, notes } = req.body;
         
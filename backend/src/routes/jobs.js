@@ -3,6 +3,7 @@ const router = express.Router();
 const nodemailer = require('nodemailer');
 const { runSubscriptionCheck } = require('../jobs/subscriptionChecker');
 const { runReverseTrialNotifications, expireEndedTrials, getReverseTrialAnalytics } = require('../jobs/reverseTrialNotifier');
+const { runScheduledPublishes } = require('../jobs/scheduledPublisher');
 const AppUser = require('../models/AppUser');
 
 // Admin API key for protected job endpoints
@@ -441,6 +442,26 @@ router.get('/reverse-trial-stats', verifyAdminKey, async (req, res) => {
     }
 });
 
+/**
+ * POST /api/jobs/publish-scheduled
+ * Publish book drafts whose scheduled publish time has passed
+ * Requires X-Admin-API-Key header
+ */
+router.post('/publish-scheduled', verifyAdminKey, async (req, res) => {
+    console.log('⏰ Scheduled publish job triggered');
+
+    try {
+        const result = await runScheduledPublishes();
+        res.json(result);
+    } catch (error) {
+        console.error('Error running scheduled publishes:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message,
+        });
+    }
+});
+
 /**
  * GET /api/jobs/status
  * Check if job routes are working
@@ -491,6 +512,13 @@ router.get('/status', (req, res) => {
                 path: '/api/jobs/reverse-trial-stats',
                 description: 'Get reverse trial analytics and conversion stats',
                 requiresAuth: true,
+            },
+            {
+                name: 'publish-scheduled',
+                method: 'POST',
+                path: '/api/jobs/publish-scheduled',
+                description: 'Publish book drafts whose scheduled publish time has passed',
+                requiresAuth: true,
             }
         ],
     });
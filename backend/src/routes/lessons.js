@@ -1,5 +1,6 @@
 const express = require('express');
 const router = express.Router();
+const mongoose = require('mongoose');
 const Lesson = require('../models/Lesson');
 const LessonCompletion = require('../models/LessonCompletion');
 const LessonDayPlan = require('../models/LessonDayPlan');
@@ -199,13 +200,68 @@ router.get('/planner/day', async (req, res) => {
     }
 });
 
+// Normalize a resume point sent by the app
+const toResume = (resume) => {
+    const screens = ['video', 'devotional', 'activity'];
+    const toCount = (value) => (Number.isFinite(value) && value > 0 ? Math.floor(value) : 0);
+    const answers = resume.quizAnswers && typeof resume.quizAnswers === 'object' ? resume.quizAnswers : {};
+    return {
+        screen: screens.includes(resume.screen) ? resume.screen : 'video',
+        episodeIndex: toCount(resume.episodeIndex),
+        videoTime: Number.isFinite(resume.videoTime) && resume.videoTime > 0 ? resume.videoTime : 0,
+        videoWatched: !!resume.videoWatched,
+        devotionalRead: !!resume.devotionalRead,
+        questionIndex: toCount(resume.questionIndex),
+        quizAnswers: Object.entries(answers)
+            .filter(([, optionIndex]) => Number.isFinite(optionIndex))
+            .map(([questionIndex, optionIndex]) => ({ questionIndex: toCount(Number(questionIndex)), optionIndex })),
+        updatedAt: resume.updatedAt ? new Date(resume.updatedAt) : new Date(),
+    };
+};
+
+// ==========================
+// GET /api/lessons/planner/progress?profileId=...&lessonId=...
+// Returns watch progress and the resume point (if any) for one lesson
+// ==========================
+router.get('/planner/progress', async (req, res) => {
+    try {
+        const { profileId, lessonId } = req.query;
+        if (!profileId || !lessonId) {
+            return res.status(400).json({ message: 'profileId and lessonId are required' });
+        }
+        if (!mongoose.Types.ObjectId.isValid(String(lessonId))) {
+            return res.status(400).json({ message: 'Invalid lessonId' });
+        }
+
+        const doc = await LessonWatchProgress.findOne({ profileId: String(profileId), lessonId }).lean();
+        if (!doc) {
+            return res.json({ maxPercentWatched: 0, resume: null });
+        }
+
+        const resume = doc.resume && doc.resume.screen ? {
+            ...doc.resume,
+            quizAnswers: (doc.resume.quizAnswers || []).reduce((acc, a) => {
+                acc[a.questionIndex] = a.optionIndex;
+                return acc;
+            }, {}),
+            updatedAt: doc.resume.updatedAt ? new Date(doc.resume.updatedAt).getTime() : 0,
+        } : null;
+
+        res.json({ maxPercentWatched: doc.maxPercentWatched || 0, resume });
+    } catch (error) {
+        console.error('Planner progress fetch error:', error);
+        res.status(500).json({ message: 'Failed to fetch progress', error: error.message });
+    }
+});
+
 // ==========================
 // POST /api/lessons/planner/progress
-// Body: { profileId, lessonId, percentWatched, dateKey }
+// Body: { profileId, lessonId, percentWatched, dateKey, resume? }
+// resume: where the kid left off mid-lesson; null clears it (lesson completed or restarted)
 // ==========================
 router.post('/planner/progress', async (req, res) => {
     try {
-        const { profileId, lessonId, percentWatched, dateKey } = req.body || {};
+        const { profileId, lessonId, percentWatched, dateKey, resume } = req.body || {};
         if (!profileId || !lessonId || typeof percentWatched !== 'number') {
             return res.status(400).json({ message: 'profileId, lessonId, and percentWatched are required' });
         }
@@ -215,6 +271,11 @@ router.post('/planner/progress', async (req, res) => {
             $max: { maxPercentWatched: pct },
             $setOnInsert: { firstSeenAt: new Date() },
         };
+        if (resume === null) {
+            update.$unset = { resume: 1 };
+        } else if (resume && typeof resume === 'object') {
+            update.$set.resume = toResume(resume);
+        }
 
         const doc = await LessonWatchProgress.findOneAndUpdate(
             { profileId: String(profileId), lessonId },
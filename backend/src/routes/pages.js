@@ -2,9 +2,13 @@ const express = require('express');
 const router = express.Router();
 const mongoose = require('mongoose');
 const Page = require('../models/Page');
+const Book = require('../models/Book');
+const { ensureBaseline, getPublishedPages } = require('../services/bookRevisionService');
+const { requireCapabilityForDraft } = require('../middleware/auth');
 
 // GET all pages for a book
-router.get('/book/:bookId', async (req, res) => {
+// The app gets the book's published revision; the portal passes ?draft=true for the pages being edited.
+router.get('/book/:bookId', requireCapabilityForDraft('books.edit'), async (req, res) => {
     try {
         const { bookId } = req.params;
         
@@ -13,7 +17,17 @@ router.get('/book/:bookId', async (req, res) => {
             console.log(`⚠️ Invalid bookId format: ${bookId} (expected MongoDB ObjectId)`);
             return res.json([]); // Return empty array for invalid IDs instead of error
         }
+
+        if (req.query.draft !== 'true') {
+            const book = await Book.findById(bookId);
+            if (book) {
+                // Scheduled publishes are left to the job (jobs/scheduledPublisher) - reads never write
+                const publishedPages = await getPublishedPages(book);
+                if (publishedPages) return res.json(publishedPages);
+            }
+        }
         
+        // Books that have never been published as a revision are served their pages as-is
         // Populate webView.gameId to include game URL for web view pages
         const pages = await Page.find({ bookId })
             .populate('webView.gameId', 'url name coverImage gameType')
@@ -62,6 +76,7 @@ router.post('/', async (req, res) => {
     });
 
     try {
+        await ensureBaseline(req.body.bookId);
         const newPage = await page.save();
         res.status(201).json(newPage);
     } catch (error) {
@@ -76,6 +91,9 @@ router.put('/:id', async (req, res) => {
         const page = await Page.findById(req.params.id);
         if (!page) return res.status(404).json({ message: 'Page not found' });
 
+        // Edits go to the draft - keep what families see now as a revision first
+        await ensureBaseline(page.bookId);
+
         // If textBoxes is being updated at root level, also update content.textBoxes
         // and clear the old content.textBoxes to avoid stale data conflicts
         if (req.body.textBoxes) {
@@ -102,6 +120,12 @@ router.put('/:id', async (req, res) => {
             page.scrollHeight = req.body.scrollHeight;
         }
 
+        // narration: null removes the narrator recording
+        if (req.body.narration === null) {
+            page.narration = undefined;
+            delete req.body.narration;
+        }
+
         Object.assign(page, req.body);
         const updatedPage = await page.save();
         res.json(updatedPage);
@@ -116,6 +140,7 @@ router.delete('/:id', async (req, res) => {
         const page = await Page.findById(req.params.id);
         if (!page) return res.status(404).json({ message: 'Page not found' });
 
+        await ensureBaseline(page.bookId);
         await page.deleteOne();
         res.json({ message: 'Page deleted' });
     } catch (error) {
@@ -146,6 +171,7 @@ router.post('/reorder', async (req, res) => {
         }
         
         console.log(`📄 Reordering ${pageOrder.length} pages for book ${bookIdStr}`);
+        await ensureBaseline(bookIdStr);
         
         // Validate and prepare page orders
         const validPageOrders = [];
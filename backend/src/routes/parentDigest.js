@@ -0,0 +1,99 @@
+const express = require('express');
+const router = express.Router();
+const EmailSubscriber = require('../models/EmailSubscriber');
+const { sendWeeklyDigestEmail } = require('../services/emailService');
+const { authenticateUser } = require('../middleware/auth');
+const { digestSendLimiter } = require('../middleware/rateLimiter');
+
+// Guards against repeated "send now" taps - one digest email per hour per address
+const MIN_SEND_INTERVAL_MS = 60 * 60 * 1000;
+
+// The digest always goes to the signed-in account's email - never one from the body
+const accountEmail = (req) => (req.user.email ? String(req.user.email).toLowerCase().trim() : null);
+
+/**
+ * POST /api/parent-digest/opt-in
+ * Turn the weekly parent digest email on or off for the signed-in account
+ */
+router.post('/opt-in', authenticateUser, async (req, res) => {
+    try {
+        const { enabled, parentName } = req.body;
+        const email = accountEmail(req);
+
+        if (!email) {
+            return res.status(400).json({ success: false, error: 'This account has no email' });
+        }
+
+        const subscriber = await EmailSubscriber.findOneAndUpdate(
+            { email },
+            {
+                $set: { weeklyDigest: enabled === true, ...(parentName ? { parentName } : {}) },
+                $setOnInsert: { source: 'parent_digest' },
+            },
+            { upsert: true, new: true }
+        );
+
+        console.log(`📬 Weekly digest ${subscriber.weeklyDigest ? 'enabled' : 'disabled'} for ${email.substring(0, 3)}***`);
+        res.json({ success: true, email, weeklyDigest: subscriber.weeklyDigest });
+
+    } catch (error) {
+        console.error('❌ Parent digest opt-in error:', error);
+        res.status(500).json({ success: false, error: 'Failed to update digest preference' });
+    }
+});
+
+/**
+ * POST /api/parent-digest/send
+ * Email a digest built on the parent's device to the signed-in account, if it opted in
+ */
+router.post('/send', authenticateUser, digestSendLimiter, async (req, res) => {
+    try {
+        const { digest } = req.body;
+        const email = accountEmail(req);
+
+        if (!email) {
+            return res.status(400).json({ success: false, error: 'This account has no email' });
+        }
+        if (!digest || !Array.isArray(digest.kids) || !digest.weekStart || !digest.weekEnd) {
+            return res.status(400).json({ success: false, error: 'Digest is required' });
+        }
+
+        const subscriber = await EmailSubscriber.findOne({ email });
+        if (!subscriber || !subscriber.weeklyDigest || subscriber.unsubscribedAt) {
+            return res.status(403).json({ success: false, error: 'Weekly digest is not enabled for this email' });
+        }
+
+        // Claim the send slot atomically so parallel requests can't each send one
+        const previousSentAt = subscriber.lastDigestSentAt || null;
+        const claimed = await EmailSubscriber.findOneAndUpdate(
+            {
+                _id: subscriber._id,
+                $or: [
+                    { lastDigestSentAt: null },
+                    { lastDigestSentAt: { $lt: new Date(Date.now() - MIN_SEND_INTERVAL_MS) } },
+                ],
+            },
+            { $set: { lastDigestSentAt: new Date() } },
+            { new: true }
+        );
+        if (!claimed) {
+            return res.status(429).json({ success: false, error: 'A digest was sent recently' });
+        }
+
+        const emailResult = await sendWeeklyDigestEmail(subscriber.email, digest);
+        if (!emailResult.success) {
+            console.warn('⚠️ Weekly digest email failed:', emailResult.error);
+            // Nothing was sent - give the slot back so the parent can retry
+            await EmailSubscriber.updateOne({ _id: subscriber._id }, { $set: { lastDigestSentAt: previousSentAt } });
+            return res.status(502).json({ success: false, error: 'Failed to send digest email' });
+        }
+
+        res.json({ success: true });
+
+    } catch (error) {
+        console.error('❌ Parent digest send error:', error);
+        res.status(500).json({ success: false, error: 'Failed to send digest' });
+    }
+});
+
+module.exports = router;
@@ -378,6 +378,7 @@ router.post('/', async (req, res) => {
             audioUrl: item.audioUrl || '',
             order: item.order !== undefined ? item.order : index,
             duration: item.duration,
+            gain: item.gain,
             coverImage: (item.coverImage && item.coverImage.trim() !== '') ? item.coverImage : null, // Convert empty strings to null
         }));
         
@@ -470,6 +471,7 @@ router.put('/:id', async (req, res) => {
                     audioUrl: item.audioUrl || '',
                     order: item.order !== undefined ? item.order : index,
                     duration: item.duration,
+                    gain: item.gain,
                     coverImage: (item.coverImage && item.coverImage.trim() !== '') ? item.coverImage : null, // Convert empty strings to null
                     description: item.description || '',
                     isMembersOnly: item.isMembersOnly === true, // Preserve members-only flag per item
@@ -0,0 +1,355 @@
+const express = require('express');
+const router = express.Router();
+const jwt = require('jsonwebtoken');
+const PortalMember = require('../models/PortalMember');
+const AuditLog = require('../models/AuditLog');
+const User = require('../models/User');
+const { CAPABILITIES, ROLES, getCapabilities } = require('../config/portalRoles');
+const { getAdminEmails, resolvePortalActor, requireCapability } = require('../middleware/auth');
+const { auditTrail } = require('../middleware/auditTrail');
+const { authLimiter } = require('../middleware/rateLimiter');
+
+const PORTAL_URL = process.env.PORTAL_URL || 'https://portal.godlykids.com';
+
+const signMemberToken = (member) => jwt.sign(
+    { memberId: member._id, email: member.email },
+    process.env.JWT_SECRET || 'secret',
+    { expiresIn: '30d' }
+);
+
+const memberSession = (member, token) => ({
+    token,
+    user: { id: member._id, email: member.email, name: member.name },
+    role: member.role,
+    capabilities: getCapabilities(member.role),
+});
+
+// Member as shown on the Members page
+const toMemberJson = (member) => ({
+    _id: member._id,
+    email: member.email,
+    name: member.name,
+    role: member.role,
+    status: member.status,
+    invitedAt: member.invitedAt,
+    invitedBy: member.invitedBy,
+    activatedAt: member.activatedAt,
+    lastLoginAt: member.lastLoginAt,
+});
+
+// ============ SIGN IN ============
+
+// POST /api/portal/login - Portal member login (admins in ADMIN_EMAILS can use their app account)
+router.post('/login', authLimiter, async (req, res) => {
+    try {
+        const { email, password } = req.body;
+
+        if (!email || !password) {
+            return res.status(400).json({ error: 'Email and password are required' });
+        }
+
+        const normalizedEmail = email.toLowerCase().trim();
+        const member = await PortalMember.findOne({ email: normalizedEmail });
+
+        if (member) {
+            if (member.status === 'invited') {
+                return res.status(403).json({ error: 'Please accept your invite first', needsActivation: true });
+            }
+            if (member.status === 'suspended') {
+                return res.status(403).json({ error: 'Your portal access has been suspended' });
+            }
+            if (!(await member.comparePassword(password))) {
+                return res.status(401).json({ error: 'Invalid email or password' });
+            }
+
+            member.lastLoginAt = new Date();
+            await member.save();
+            return res.json(memberSession(member, signMemberToken(member)));
+        }
+
+        // Legacy admins sign in with their app account
+        const user = await User.findOne({ email: normalizedEmail });
+        if (!user || !(await user.matchPassword(password))) {
+            return res.status(401).json({ error: 'Invalid email or password' });
+        }
+        if (!getAdminEmails().includes(user.email.toLowerCase())) {
+            return res.status(403).json({ error: 'This account is not a portal member. Ask an admin for an invite.' });
+        }
+
+        const token = jwt.sign(
+            { user: { id: user.id } },
+            process.env.JWT_SECRET || 'secret',
+            { expiresIn: 360000 }
+        );
+        res.json({
+            token,
+            user: { id: user.id, email: user.email, name: user.username },
+            role: 'admin',
+            capabilities: getCapabilities('admin'),
+        });
+    } catch (error) {
+        console.error('Portal login error:', error);
+        res.status(500).json({ error: 'Login failed' });
+    }
+});
+
+// GET /api/portal/me - The signed-in member's role and capabilities
+router.get('/me', async (req, res) => {
+    try {
+        const actor = await resolvePortalActor(req);
+        if (!actor) {
+            return res.status(401).json({ error: 'Portal sign-in required' });
+        }
+        res.json({
+            user: { id: actor.id, email: actor.email, name: actor.name },
+            role: actor.role,
+            capabilities: actor.capabilities,
+        });
+    } catch (error) {
+        console.error('Portal me error:', error);
+        res.status(500).json({ error: 'Failed to load your access' });
+    }
+});
+
+// GET /api/portal/invite/:token - Get invite details
+router.get('/invite/:token', authLimiter, async (req, res) => {
+    try {
+        const member = await PortalMember.findByInviteToken(req.params.token);
+
+        if (!member) {
+            return res.status(404).json({ error: 'Invalid or expired invite link' });
+        }
+
+        res.json({
+            email: member.email,
+            name: member.name,
+            role: member.role,
+            roleLabel: ROLES[member.role] ? ROLES[member.role].label : member.role,
+        });
+    } catch (error) {
+        console.error('Get portal invite error:', error);
+        res.status(500).json({ error: 'Failed to get invite details' });
+    }
+});
+
+// POST /api/portal/accept-invite - Accept invite and set password
+router.post('/accept-invite', authLimiter, async (req, res) => {
+    try {
+        const { inviteToken, password, name } = req.body;
+
+        if (!inviteToken || !password) {
+            return res.status(400).json({ error: 'Invite token and password are required' });
+        }
+        if (password.length < 8) {
+            return res.status(400).json({ error: 'Password must be at least 8 characters' });
+        }
+
+        const member = await PortalMember.findByInviteToken(inviteToken);
+        if (!member) {
+            return res.status(404).json({ error: 'Invalid or expired invite link' });
+        }
+
+        member.password = password;
+        member.status = 'active';
+        member.activatedAt = new Date();
+        member.lastLoginAt = new Date();
+        member.inviteToken = undefined;
+        member.inviteExpiresAt = undefined;
+        if (name) member.name = name;
+        await member.save();
+
+        console.log(`✅ Portal member activated: ${member.email} (${member.role})`);
+        res.json(memberSession(member, signMemberToken(member)));
+    } catch (error) {
+        console.error('Accept portal invite error:', error);
+        res.status(500).json({ error: 'Failed to activate account' });
+    }
+});
+
+// ============ MEMBERS ============
+
+router.use('/members', auditTrail({ resource: 'member', model: PortalMember, capability: 'members.manage' }));
+
+// GET /api/portal/roles - Role definitions for the Members page
+router.get('/roles', requireCapability('members.manage'), (req, res) => {
+    res.json({
+        roles: Object.entries(ROLES).map(([key, role]) => ({ key, ...role })),
+        capabilities: CAPABILITIES,
+    });
+});
+
+// GET /api/portal/members - All members, plus the admins configured by email
+router.get('/members', requireCapability('members.manage'), async (req, res) => {
+    try {
+        const members = await PortalMember.find().sort({ status: 1, name: 1 });
+        res.json({
+            members: members.map(toMemberJson),
+            adminEmails: getAdminEmails(),
+        });
+    } catch (error) {
+        console.error('List portal members error:', error);
+        res.status(500).json({ error: 'Failed to load members' });
+    }
+});
+
+// POST /api/portal/members/invite - Invite someone with a role
+router.post('/members/invite', requireCapability('members.manage'), async (req, res) => {
+    try {
+        const { email, name, role } = req.body;
+
+        if (!email || !name) {
+            return res.status(400).json({ error: 'Email and name are required' });
+        }
+        if (!ROLES[role]) {
+            return res.status(400).json({ error: 'Unknown role' });
+        }
+
+        const existing = await PortalMember.findOne({ email: email.toLowerCase().trim() });
+        if (existing) {
+            return res.status(400).json({ error: 'This email is already a portal member' });
+        }
+
+        const member = new PortalMember({
+            email,
+            name,
+            role,
+            status: 'invited',
+            invitedBy: req.portalActor.email,
+        });
+        const inviteToken = member.issueInvite();
+        await member.save();
+
+        const inviteUrl = `${PORTAL_URL}/accept-invite?token=${inviteToken}`;
+        console.log(`📧 Portal invite for ${member.email} (${role})`);
+
+        res.status(201).json({ ...toMemberJson(member), inviteUrl });
+    } catch (error) {
+        console.error('Invite portal member error:', error);
+        res.status(500).json({ error: 'Failed to invite member' });
+    }
+});
+
+// POST /api/portal/members/:id/resend-invite - New invite link for someone who hasn't accepted yet
+router.post('/members/:id/resend-invite', requireCapability('members.manage'), async (req, res) => {
+    try {
+        const member = await PortalMember.findById(req.params.id);
+        if (!member) return res.status(404).json({ error: 'Member not found' });
+        if (member.status !== 'invited') {
+            return res.status(400).json({ error: 'This member has already accepted their invite' });
+        }
+
+        member.issueInvite();
+        await member.save();
+
+        res.json({ ...toMemberJson(member), inviteUrl: `${PORTAL_URL}/accept-invite?token=${member.inviteToken}` });
+    } catch (error) {
+        console.error('Resend portal invite error:', error);
+        res.status(500).json({ error: 'Failed to create a new invite' });
+    }
+});
+
+// PUT /api/portal/members/:id - Change role, name or status (active/suspended)
+router.put('/members/:id', requireCapability('members.manage'), async (req, res) => {
+    try {
+        const member = await PortalMember.findById(req.params.id);
+        if (!member) return res.status(404).json({ error: 'Member not found' });
+
+        const { role, name, status } = req.body;
+        const isSelf = req.portalActor.kind === 'member' && req.portalActor.id === String(member._id);
+
+        if (role !== undefined) {
+            if (!ROLES[role]) return res.status(400).json({ error: 'Unknown role' });
+            if (isSelf && role !== member.role) {
+                return res.status(400).json({ error: "You can't change your own role" });
+            }
+            member.role = role;
+        }
+        if (status !== undefined) {
+            if (!['active', 'suspended'].includes(status) || member.status === 'invited') {
+                return res.status(400).json({ error: 'Only accepted members can be suspended or reactivated' });
+            }
+            if (isSelf) return res.status(400).json({ error: "You can't suspend yourself" });
+            member.status = status;
+        }
+        if (name) member.name = name;
+
+        await member.save();
+        res.json(toMemberJson(member));
+    } catch (error) {
+        console.error('Update portal member error:', error);
+        res.status(500).json({ error: 'Failed to update member' });
+    }
+});
+
+// DELETE /api/portal/members/:id - Remove portal access
+router.delete('/members/:id', requireCapability('members.manage'), async (req, res) => {
+    try {
+        if (req.portalActor.kind === 'member' && req.portalActor.id === req.params.id) {
+            return res.status(400).json({ error: "You can't remove yourself" });
+        }
+
+        const member = await PortalMember.findByIdAndDelete(req.params.id);
+        if (!member) return res.status(404).json({ error: 'Member not found' });
+
+        res.json({ message: 'Member removed' });
+    } catch (error) {
+        console.error('Remove portal member error:', error);
+        res.status(500).json({ error: 'Failed to remove member' });
+    }
+});
+
+// ============ AUDIT LOG ============
+
+// GET /api/portal/audit - Changes made from the portal, newest first
+// Query: resource, resourceId, actor (email), page, limit
+router.get('/audit', requireCapability('audit.view'), async (req, res) => {
+    try {
+        const page = parseInt(req.query.page) || 1;
+        const limit = Math.min(parseInt(req.query.limit) || 50, 100);
+
+        const filter = {};
+        if (req.query.resource) filter.resource = req.query.resource;
+        if (req.query.resourceId) filter.resourceId = req.query.resourceId;
+        if (req.query.actor) filter['actor.email'] = req.query.actor.toLowerCase();
+
+        const [entries, total, resources] = await Promise.all([
+            AuditLog.find(filter)
+                .select('-before -after')
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            AuditLog.countDocuments(filter),
+            AuditLog.distinct('resource'),
+        ]);
+
+        res.json({
+            data: entries,
+            resources: resources.sort(),
+            pagination: {
+                page,
+                limit,
+                total,
+                pages: Math.ceil(total / limit),
+                hasMore: page * limit < total,
+            },
+        });
+    } catch (error) {
+        console.error('Audit log error:', error);
+        res.status(500).json({ error: 'Failed to load the audit log' });
+    }
+});
+
+// GET /api/portal/audit/:id - One change with its before/after snapshots
+router.get('/audit/:id', requireCapability('audit.view'), async (req, res) => {
+    try {
+        const entry = await AuditLog.findById(req.params.id).lean();
+        if (!entry) return res.status(404).json({ error: 'Audit entry not found' });
+        res.json(entry);
+    } catch (error) {
+        console.error('Audit entry error:', error);
+        res.status(500).json({ error: 'Failed to load the audit entry' });
+    }
+});
+
+module.exports = router;
@@ -3,7 +3,11 @@ const router = express.Router();
 const axios = require('axios');
 const BookQuiz = require('../models/BookQuiz');
 const Book = require('../models/Book');
-const Page = require('../models/Page');
+const { getReadablePages } = require('../services/bookRevisionService');
+
+// Coins per correct answer by the age group of the questions served - older groups are harder.
+// The app's adaptive difficulty moves a kid between age groups, so it is rewarded through this.
+const COINS_PER_CORRECT = { '3-5': 10, '6-8': 12, '9-12': 15 };
 
 // Helper function to get age-appropriate prompt
 const getAgeAppropriatePrompt = (age, ageGroup) => {
@@ -316,8 +320,8 @@ router.post('/generate', async (req, res) => {
             return res.status(404).json({ message: 'Book not found' });
         }
 
-        // Get all pages for the book to extract the story content
-        const pages = await Page.find({ bookId }).sort({ pageNumber: 1 });
+        // Get the published pages to extract the story content (drafts stay in the portal)
+        const pages = await getReadablePages(book);
         
         // Extract text content from all pages
         let storyContent = '';
@@ -529,7 +533,7 @@ router.post('/generate-first', async (req, res) => {
             return res.status(404).json({ message: 'Book not found' });
         }
 
-        const pages = await Page.find({ bookId }).sort({ pageNumber: 1 });
+        const pages = await getReadablePages(book);
         let storyContent = '';
         pages.forEach(page => {
             if (page.content && page.content.textBoxes) {
@@ -699,7 +703,7 @@ router.post('/generate-remaining', async (req, res) => {
             return res.status(404).json({ message: 'Book not found' });
         }
 
-        const pages = await Page.find({ bookId }).sort({ pageNumber: 1 });
+        const pages = await getReadablePages(book);
         let storyContent = '';
         pages.forEach(page => {
             if (page.content && page.content.textBoxes) {
@@ -994,19 +998,22 @@ router.post('/:bookId/submit', async (req, res) => {
             };
         });
 
-        // Calculate coins (10 per correct answer)
-        const coinsEarned = correctCount * 10;
+        // Calculate coins from the questions that were scored, never a rate sent by the client
+        const ageGroup = BookQuiz.getAgeGroup(userAge);
+        const coinsPerCorrect = COINS_PER_CORRECT[ageGroup];
+        const coinsEarned = correctCount * coinsPerCorrect;
 
         // Record the attempt
         const newAttemptNumber = quiz.addAttempt(userId, correctCount, coinsEarned);
         await quiz.save();
 
-        console.log(`📊 Quiz submitted (age ${userAge}): ${correctCount}/6 correct, ${coinsEarned} coins earned`);
+        console.log(`📊 Quiz submitted (age ${userAge}, group ${ageGroup}): ${correctCount}/6 correct, ${coinsEarned} coins earned`);
 
         res.json({
             score: correctCount,
             totalQuestions: 6,
             coinsEarned,
+            coinsPerCorrect,
             attemptNumber: newAttemptNumber,
             attemptsRemaining: 2 - newAttemptNumber,
             results
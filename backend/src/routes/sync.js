@@ -0,0 +1,131 @@
+const express = require('express');
+const router = express.Router();
+const SyncRecord = require('../models/SyncRecord');
+const { authenticateUser } = require('../middleware/auth');
+
+// Max changes accepted per scope in one request
+const MAX_CHANGES_PER_SCOPE = 1000;
+// Pull cursor is moved back a little so writes racing with this request are not missed
+const CURSOR_SAFETY_MS = 5000;
+
+// Older app versions pushed the parent PIN hash - it is neither stored nor returned
+const PIN_RECORD = { store: 'parentalControls', recordId: '__pin' };
+const isPinRecord = (change) => change.store === PIN_RECORD.store && change.id === PIN_RECORD.recordId;
+
+const isValidScope = (scope) =>
+    typeof scope === 'string' && (scope === 'family' || /^profile:.{1,100}$/.test(scope));
+
+// Last-writer-wins: newer timestamp wins, device id breaks exact ties
+const isNewer = (incoming, existing) => {
+    if (incoming.updatedAt !== existing.updatedAt) return incoming.updatedAt > existing.updatedAt;
+    return (incoming.deviceId || '') > (existing.deviceId || '');
+};
+
+/**
+ * POST /api/sync
+ * Push local changes and pull changes made on other devices, for the signed-in account
+ * (app JWT - the account is never taken from the body).
+ * Body: { deviceId, scopes: [{ scope, since, changes: [{ store, id, value, deleted, updatedAt, deviceId }] }] }
+ * Response: { success, serverTime, scopes: { [scope]: { records, accepted, rejected } } }
+ */
+router.post('/', authenticateUser, async (req, res) => {
+    try {
+        const { deviceId, scopes } = req.body;
+
+        if (!Array.isArray(scopes)) {
+            return res.status(400).json({
+                success: false,
+                message: 'scopes are required',
+            });
+        }
+
+        if (!req.user.email) {
+            return res.status(400).json({ success: false, message: 'This account has no email to sync with' });
+        }
+        const normalizedUserId = String(req.user.email).toLowerCase().trim();
+        const requestStartedAt = Date.now();
+        const result = {};
+
+        for (const scopeRequest of scopes) {
+            const { scope, since } = scopeRequest || {};
+            if (!isValidScope(scope)) continue;
+
+            const changes = Array.isArray(scopeRequest.changes)
+                ? scopeRequest.changes.slice(0, MAX_CHANGES_PER_SCOPE)
+                : [];
+            let accepted = 0;
+            let rejected = 0;
+
+            // 1. Apply pushed changes (LWW per record)
+            for (const change of changes) {
+                if (!change || !change.store || !change.id || typeof change.updatedAt !== 'number' || isPinRecord(change)) {
+                    rejected++;
+                    continue;
+                }
+
+                const incoming = {
+                    updatedAt: change.updatedAt,
+                    deviceId: change.deviceId || deviceId || '',
+                };
+                const filter = {
+                    userId: normalizedUserId,
+                    scope,
+                    store: String(change.store),
+                    recordId: String(change.id),
+                };
+
+                const existing = await SyncRecord.findOne(filter).lean();
+                if (existing && !isNewer(incoming, existing)) {
+                    rejected++;
+                    continue;
+                }
+
+                await SyncRecord.updateOne(filter, {
+                    $set: {
+                        value: change.deleted ? null : change.value,
+                        deleted: !!change.deleted,
+                        updatedAt: incoming.updatedAt,
+                        deviceId: incoming.deviceId,
+                        syncedAt: new Date(),
+                    },
+                }, { upsert: true });
+                accepted++;
+            }
+
+            // 2. Return everything written since the device's cursor
+            const sinceDate = new Date(typeof since === 'number' ? since : 0);
+            const records = await SyncRecord.find({
+                userId: normalizedUserId,
+                scope,
+                syncedAt: { $gt: sinceDate },
+                $nor: [PIN_RECORD],
+            }).lean();
+
+            result[scope] = {
+                accepted,
+                rejected,
+                records: records.map(r => ({
+                    store: r.store,
+                    id: r.recordId,
+                    value: r.value,
+                    deleted: r.deleted,
+                    updatedAt: r.updatedAt,
+                    deviceId: r.deviceId,
+                })),
+            };
+        }
+
+        console.log(`🔄 Sync for ${normalizedUserId}: ${Object.keys(result).length} scope(s)`);
+
+        res.json({
+            success: true,
+            serverTime: requestStartedAt - CURSOR_SAFETY_MS,
+            scopes: result,
+        });
+    } catch (error) {
+        console.error('Sync error:', error);
+        res.status(500).json({ success: false, message: 'Sync failed' });
+    }
+});
+
+module.exports = router;
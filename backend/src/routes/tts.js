@@ -5,9 +5,11 @@ const axios = require('axios');
 const crypto = require('crypto');
 const path = require('path');
 const fs = require('fs');
-// FormData not needed for TTS generation - using JSON with ElevenLabs API
+// FormData is only needed to send recordings to ElevenLabs forced alignment (/align)
+const FormData = require('form-data');
 const { bucket } = require('../config/storage');
 const TTSCache = require('../models/TTSCache');
+const { requireCapability } = require('../middleware/auth');
 
 // Ensure uploads directory exists
 const uploadsDir = path.join(__dirname, '../../uploads');
@@ -356,6 +358,122 @@ router.post('/generate', async (req, res) => {
     }
 });
 
+// POST /lookup - Find already generated narration without generating anything
+// Body: { items: [{ text, voiceId, languageCode? }] } - used by the portal's EPUB read-along export
+router.post('/lookup', async (req, res) => {
+    try {
+        const { items } = req.body;
+        if (!Array.isArray(items)) {
+            return res.status(400).json({ message: 'items must be an array' });
+        }
+        if (items.length > 2000) {
+            return res.status(400).json({ message: 'At most 2000 items can be looked up at once' });
+        }
+
+        // Same cache key as /generate
+        const hashes = items.map(({ text, voiceId, languageCode }) => {
+            if (!text || !voiceId) return null;
+            const cacheKey = languageCode && languageCode !== 'en'
+                ? `${text}${voiceId}${languageCode}`
+                : `${text}${voiceId}`;
+            return crypto.createHash('md5').update(cacheKey).digest('hex');
+        });
+
+        const entries = await TTSCache.find({ textHash: { $in: hashes.filter(Boolean) } }).lean();
+        const byKey = new Map(entries.map(entry => [`${entry.textHash}:${entry.voiceId}`, entry]));
+
+        const results = items.map((item, index) => {
+            const entry = hashes[index] && byKey.get(`${hashes[index]}:${item.voiceId}`);
+            return entry ? { audioUrl: entry.audioUrl, alignment: entry.alignmentData } : null;
+        });
+
+        console.log(`🔎 TTS lookup: ${results.filter(Boolean).length}/${items.length} cached`);
+        res.json({ results });
+    } catch (error) {
+        console.error('TTS Lookup Error:', error.message);
+        res.status(500).json({ message: 'Failed to look up narration', error: error.message });
+    }
+});
+
+// Storage path of a narrator recording from POST /api/upload/narration, or null for any other URL.
+// Only these are ever read for alignment - the URL itself is never fetched.
+const NARRATION_PATH = /^books\/[0-9a-fA-F]{24}\/narration\/[^/]+$/;
+const narrationStoragePath = (audioUrl) => {
+    let url;
+    try {
+        url = new URL(audioUrl, 'http://localhost');
+    } catch (error) {
+        return null;
+    }
+    const pathname = decodeURIComponent(url.pathname);
+    let storagePath = null;
+    if (bucket && url.hostname === 'storage.googleapis.com' && pathname.startsWith(`/${bucket.name}/`)) {
+        storagePath = pathname.slice(bucket.name.length + 2);
+    } else if (pathname.startsWith('/uploads/')) {
+        storagePath = pathname.slice('/uploads/'.length);
+    }
+    return storagePath && NARRATION_PATH.test(storagePath) ? storagePath : null;
+};
+
+// Bytes of a narrator recording from our bucket (or local uploads when GCS isn't configured)
+const readNarration = async (storagePath) => {
+    if (bucket && process.env.GCS_BUCKET_NAME) {
+        const [data] = await bucket.file(storagePath).download();
+        return data;
+    }
+    return fs.promises.readFile(path.join(uploadsDir, storagePath));
+};
+
+// POST /align - Word timings for a human narrator recording (ElevenLabs forced alignment)
+// Portal only (books.edit). Body: { audioUrl, text } - audioUrl must be a recording uploaded through
+// /api/upload/narration; text is the page's displayed words in reading order
+// Returns: { words: [{ word, start, end }] } in seconds, in the order ElevenLabs heard them
+router.post('/align', requireCapability('books.edit'), async (req, res) => {
+    try {
+        const { audioUrl, text } = req.body;
+        if (typeof audioUrl !== 'string' || typeof text !== 'string' || !text.trim()) {
+            return res.status(400).json({ message: 'audioUrl and text are required' });
+        }
+
+        const storagePath = narrationStoragePath(audioUrl);
+        if (!storagePath) {
+            return res.status(400).json({ message: 'Only narrator recordings uploaded to this book can be aligned' });
+        }
+
+        const apiKey = process.env.ELEVENLABS_API_KEY;
+        if (!apiKey) {
+            return res.status(500).json({ message: 'Alignment failed', error: 'apiKey is not defined' });
+        }
+
+        const audio = await readNarration(storagePath);
+        const extension = path.extname(storagePath).slice(1).toLowerCase();
+        const form = new FormData();
+        form.append('file', audio, {
+            filename: path.basename(storagePath),
+            contentType: extension === 'mp3' ? 'audio/mpeg' : `audio/${extension || 'mpeg'}`,
+        });
+        form.append('text', text);
+
+        console.log(`🎙️ Aligning narration (${text.split(/\s+/).length} words): ${storagePath}`);
+        const response = await axios.post('https://api.elevenlabs.io/v1/forced-alignment', form, {
+            headers: { ...form.getHeaders(), 'xi-api-key': apiKey },
+            maxBodyLength: Infinity,
+            timeout: 120000,
+        });
+
+        const words = (response.data.words || [])
+            .map(w => ({ word: (w.text || '').trim(), start: w.start, end: w.end }))
+            .filter(w => w.word.length > 0);
+
+        console.log(`✅ Aligned ${words.length} words`);
+        res.json({ words });
+    } catch (error) {
+        const detail = error.response?.data?.detail || error.message;
+        console.error('Alignment Error:', detail);
+        res.status(500).json({ message: 'Alignment failed', error: typeof detail === 'string' ? detail : JSON.stringify(detail) });
+    }
+});
+
 // POST /enhance - Add ElevenLabs emotion prompts to text
 router.post('/enhance', async (req, res) => {
     try {
@@ -1112,6 +1112,80 @@ router.post('/background-audio', upload.single('file'), async (req, res) => {
     }
 });
 
+// Upload a narrator recording for a page - aligned to the page text in the portal's timing editor
+// Query params: bookId (required), pageNumber (optional)
+router.post('/narration', upload.single('file'), async (req, res) => {
+    try {
+        if (!req.file) {
+            return res.status(400).json({ message: 'No file uploaded' });
+        }
+
+        const { bookId, pageNumber } = req.query;
+
+        if (!bookId) {
+            return res.status(400).json({ message: 'bookId is required for narration uploads' });
+        }
+
+        // Validate file type (audio only)
+        const allowedTypes = ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/x-wav', 'audio/ogg', 'audio/m4a', 'audio/x-m4a', 'audio/mp4', 'audio/aac'];
+        if (!allowedTypes.includes(req.file.mimetype) && !req.file.originalname.match(/\.(mp3|wav|ogg|m4a|aac)$/i)) {
+            return res.status(400).json({
+                message: 'Invalid file type. Only MP3, WAV, OGG, M4A, and AAC audio files are allowed.'
+            });
+        }
+
+        // Validate file size (max 30MB - a page is rarely more than a minute or two of speech)
+        const maxSize = 30 * 1024 * 1024; // 30MB
+        if (req.file.size > maxSize) {
+            return res.status(400).json({
+                message: 'Narration file is too large. Maximum size is 30MB.'
+            });
+        }
+
+        const fileExtension = path.extname(req.file.originalname).toLowerCase() || '.mp3';
+
+        // Generate organized file path: books/{bookId}/narration/filename
+        const filename = pageNumber
+            ? `page-${pageNumber}-${Date.now()}${fileExtension}`
+            : `${Date.now()}-${req.file.originalname}`;
+        const filePath = `books/${bookId}/narration/${filename}`;
+
+        console.log('Uploading narration to:', filePath);
+
+        // Check if GCS is configured
+        if (bucket && process.env.GCS_BUCKET_NAME) {
+            const blob = bucket.file(filePath);
+            const blobStream = blob.createWriteStream({
+                metadata: {
+                    contentType: req.file.mimetype,
+                },
+                resumable: false,
+            });
+
+            blobStream.on('error', (error) => {
+                console.error('GCS narration upload error:', error);
+                res.status(500).json({ message: 'Failed to upload narration to storage' });
+            });
+
+            blobStream.on('finish', () => {
+                const publicUrl = `https://storage.googleapis.com/${bucket.name}/${filePath}`;
+                console.log('🎙️ Narration uploaded successfully:', publicUrl);
+                res.status(200).json({ url: publicUrl, path: filePath, filename });
+            });
+
+            blobStream.end(req.file.buffer);
+        } else {
+            // Use local storage
+            console.log('GCS not configured, using local storage for narration');
+            const url = await saveFileLocally(req.file, filePath, req);
+            res.status(200).json({ url, path: filePath, filename });
+        }
+    } catch (error) {
+        console.error('Narration upload error:', error);
+        res.status(500).json({ message: error.message });
+    }
+});
+
 // Simple MP3 upload - just upload and return URL (for hardcoding in app)
 router.post('/mp3', upload.single('audio'), async (req, res) => {
     try {
@@ -0,0 +1,346 @@
+const mongoose = require('mongoose');
+const Book = require('../models/Book');
+const Page = require('../models/Page');
+const Game = require('../models/Game');
+const BookRevision = require('../models/BookRevision');
+
+// Book fields that are drafted and versioned. Everything else (status, featuring, counters)
+// is operational and changes live straight away.
+const VERSIONED_FIELDS = [
+    'title', 'author', 'description', 'minAge', 'category', 'categories', 'orientation',
+    'isMembersOnly', 'availableForDailySession', 'goalTags', 'files', 'pages', 'text',
+    'games', 'bookGames', 'bookVideos', 'introVideoUrl', 'defaultVoiceId', 'rewardVoiceId',
+    'defaultNarratorVoiceId', 'characterVoices',
+];
+
+// Bookkeeping that shouldn't count as a change when comparing revisions
+const IGNORED_KEYS = ['_id', '__v', 'bookId', 'createdAt', 'updatedAt', 'uploadedAt'];
+
+/**
+ * Whether families can currently see this book - only then are edits held as a draft
+ */
+const isLive = (book) => book.status === 'published';
+
+/**
+ * The versioned fields of a book (or of a PUT body, which may also carry a root coverImage)
+ */
+const pickVersioned = (data) => {
+    const picked = {};
+    [...VERSIONED_FIELDS, 'coverImage'].forEach((field) => {
+        if (data[field] !== undefined) picked[field] = data[field];
+    });
+    return picked;
+};
+
+/**
+ * Apply a book update body onto a Book document (not saved).
+ * Takes the same shape as PUT /api/books/:id and consumes the fields it handles.
+ */
+const applyBookChanges = (book, changes) => {
+    // Initialize files object if it doesn't exist
+    if (!book.files) {
+        book.files = { coverImage: null, images: [], videos: [], audio: [] };
+    }
+
+    // Handle files object - ensure proper structure
+    if (changes.files) {
+        // If files.coverImage is explicitly provided, use it
+        if (changes.files.coverImage !== undefined) {
+            book.files.coverImage = changes.files.coverImage || null;
+        }
+        // Otherwise, if root coverImage is provided, use it
+        else if (changes.coverImage !== undefined) {
+            book.files.coverImage = changes.coverImage || null;
+        }
+
+        if (changes.files.images !== undefined) {
+            book.files.images = changes.files.images;
+        }
+        if (changes.files.videos !== undefined) {
+            book.files.videos = changes.files.videos;
+        }
+        if (changes.files.audio !== undefined) {
+            book.files.audio = changes.files.audio;
+        }
+        delete changes.files; // Remove from body to avoid duplicate assignment
+    }
+    // Handle coverImage at root level if files object was not provided
+    else if (changes.coverImage !== undefined) {
+        book.files.coverImage = changes.coverImage || null;
+    }
+
+    // Remove coverImage from body to avoid duplicate assignment
+    delete changes.coverImage;
+
+    // Handle pages array
+    if (changes.pages !== undefined) {
+        book.pages = changes.pages || [];
+        delete changes.pages;
+    }
+
+    // Handle bookVideos separately
+    if (changes.bookVideos !== undefined) {
+        book.bookVideos = changes.bookVideos;
+        delete changes.bookVideos;
+    }
+
+    // Handle bookGames separately
+    if (changes.bookGames !== undefined) {
+        book.bookGames = changes.bookGames;
+        delete changes.bookGames;
+    }
+
+    // Handle multi-character voice settings
+    if (changes.defaultNarratorVoiceId !== undefined) {
+        book.defaultNarratorVoiceId = changes.defaultNarratorVoiceId || null;
+        delete changes.defaultNarratorVoiceId;
+    }
+    if (changes.characterVoices !== undefined) {
+        book.characterVoices = changes.characterVoices || [];
+        delete changes.characterVoices;
+    }
+
+    // Update all other fields
+    Object.assign(book, changes);
+    return book;
+};
+
+/**
+ * A copy of the book with its pending draft applied (what the portal edits and previews)
+ */
+const previewBook = (book) => {
+    const preview = Book.hydrate(book.toObject());
+    if (book.draft) applyBookChanges(preview, { ...book.draft });
+    return preview;
+};
+
+/**
+ * Publish a book's draft and its current pages as a new revision
+ */
+const publishBook = async (book, { note = '', source = 'manual', restoredFrom = null } = {}) => {
+    if (book.draft) applyBookChanges(book, { ...book.draft });
+    book.draft = null;
+    book.draftUpdatedAt = null;
+    book.scheduledPublishAt = null;
+
+    const latest = await BookRevision.findOne({ book: book._id }).sort({ number: -1 }).select('number').lean();
+    const number = (latest ? latest.number : 0) + 1;
+    const pages = await Page.find({ bookId: book._id }).sort({ pageNumber: 1 }).lean();
+
+    const revision = await BookRevision.create({
+        book: book._id,
+        number,
+        bookData: pickVersioned(book.toObject()),
+        pages,
+        note,
+        source,
+        restoredFrom,
+    });
+
+    book.publishedRevision = number;
+    await book.save();
+    console.log(`📚 Published "${book.title}" revision ${number} (${source}, ${pages.length} pages)`);
+    return revision;
+};
+
+/**
+ * Before the first draft edit of a book that's already live, record what families see now
+ * as its first revision so the edit doesn't leak into the app.
+ */
+const ensureBaseline = async (bookOrId) => {
+    const book = bookOrId instanceof Book ? bookOrId : await Book.findById(bookOrId);
+    if (!book || !isLive(book) || book.publishedRevision) return;
+    try {
+        await publishBook(book, { source: 'baseline', note: 'Live version before drafts' });
+    } catch (error) {
+        // Another request recorded the baseline first
+        if (error.code !== 11000) throw error;
+        const current = await Book.findById(book._id).select('publishedRevision').lean();
+        book.publishedRevision = current ? current.publishedRevision : null;
+    }
+};
+
+/**
+ * Publish a scheduled draft once its time has come. Returns the revision when it published.
+ */
+const publishIfDue = async (book) => {
+    if (!book.scheduledPublishAt || book.scheduledPublishAt > new Date()) return null;
+    try {
+        return await publishBook(book, { source: 'scheduled', note: 'Scheduled publish' });
+    } catch (error) {
+        // Already published by a concurrent request
+        if (error.code === 11000) return null;
+        throw error;
+    }
+};
+
+/**
+ * Replace the draft (book fields and pages) with an earlier revision and publish it
+ */
+const rollbackBook = async (book, number, note = '') => {
+    const revision = await BookRevision.findOne({ book: book._id, number }).lean();
+    if (!revision) return null;
+
+    await Page.deleteMany({ bookId: book._id });
+    if (revision.pages.length > 0) {
+        await Page.insertMany(revision.pages);
+    }
+
+    book.draft = pickVersioned(revision.bookData);
+    return publishBook(book, {
+        source: 'rollback',
+        restoredFrom: number,
+        note: note || `Rolled back to revision ${number}`,
+    });
+};
+
+/**
+ * The pages of the book's published revision, shaped like GET /api/pages/book/:bookId
+ * (webView games populated). Null when the book has never been published as a revision.
+ */
+const getPublishedPages = async (book) => {
+    if (!book.publishedRevision) return null;
+    const revision = await BookRevision.findOne({ book: book._id, number: book.publishedRevision }).lean();
+    if (!revision) return null;
+
+    const pages = [...revision.pages].sort((a, b) => a.pageNumber - b.pageNumber);
+    const gameIds = pages.map(p => p.webView && p.webView.gameId).filter(Boolean);
+    if (gameIds.length > 0) {
+        const games = await Game.find({ _id: { $in: gameIds } }).select('url name coverImage gameType').lean();
+        const gamesById = new Map(games.map(g => [String(g._id), g]));
+        pages.forEach((page) => {
+            if (page.webView && page.webView.gameId) {
+                page.webView = { ...page.webView, gameId: gamesById.get(String(page.webView.gameId)) || null };
+            }
+        });
+    }
+    return pages;
+};
+
+/**
+ * The pages families read - the published revision, or the pages as they are for a book that has
+ * never been published as a revision. For server-side readers such as quiz generation.
+ */
+const getReadablePages = async (book) => {
+    const published = await getPublishedPages(book);
+    if (published) return published;
+    return Page.find({ bookId: book._id }).sort({ pageNumber: 1 }).lean();
+};
+
+// ============ DIFF ============
+
+// Comparable form of a stored value: ids and dates as strings, bookkeeping keys dropped, keys sorted
+const normalize = (value) => {
+    if (value === null || value === undefined) return undefined;
+    if (value instanceof mongoose.Types.ObjectId) return String(value);
+    if (value instanceof Date) return value.toISOString();
+    if (Array.isArray(value)) return value.map(normalize);
+    if (typeof value === 'object') {
+        const result = {};
+        Object.keys(value).sort().forEach((key) => {
+            if (IGNORED_KEYS.includes(key)) return;
+            const normalized = normalize(value[key]);
+            if (normalized !== undefined) result[key] = normalized;
+        });
+        return result;
+    }
+    return value;
+};
+
+const isSame = (a, b) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+const changedFields = (before, after) => {
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    return [...keys].filter(key => !IGNORED_KEYS.includes(key) && !isSame(before?.[key], after?.[key])).sort();
+};
+
+// What the portal shows for each side of a page diff
+const summarizePage = (page) => {
+    if (!page) return null;
+    const textBoxes = (page.content && page.content.textBoxes && page.content.textBoxes.length > 0)
+        ? page.content.textBoxes
+        : (page.textBoxes || []);
+    const text = textBoxes.map(box => box.text).filter(Boolean).join(' ') || (page.content && page.content.text) || '';
+    const background = (page.files && page.files.background) || {};
+    return {
+        pageNumber: page.pageNumber,
+        text,
+        backgroundUrl: background.url || page.backgroundUrl || page.imageUrl || null,
+        backgroundType: background.type || page.backgroundType || 'image',
+    };
+};
+
+/**
+ * Compare the working draft (book fields + live Page documents) against a revision, page by page.
+ * Defaults to the published revision.
+ */
+const diffBook = async (book, againstNumber) => {
+    const number = againstNumber || book.publishedRevision;
+    const revision = number
+        ? await BookRevision.findOne({ book: book._id, number }).lean()
+        : null;
+
+    const draftData = pickVersioned(previewBook(book).toObject());
+    const publishedData = revision ? revision.bookData : {};
+    const bookChanges = VERSIONED_FIELDS
+        .filter(field => !isSame(publishedData[field], draftData[field]))
+        .map(field => ({ field, before: publishedData[field] ?? null, after: draftData[field] ?? null }));
+
+    const workingPages = await Page.find({ bookId: book._id }).sort({ pageNumber: 1 }).lean();
+    const publishedPages = revision ? revision.pages : [];
+    const publishedById = new Map(publishedPages.map(p => [String(p._id), p]));
+    const workingIds = new Set(workingPages.map(p => String(p._id)));
+
+    const pages = workingPages.map((page) => {
+        const previous = publishedById.get(String(page._id));
+        const fields = previous ? changedFields(previous, page) : [];
+        return {
+            pageId: String(page._id),
+            status: !previous ? 'added' : (fields.length > 0 ? 'changed' : 'unchanged'),
+            fields,
+            before: summarizePage(previous),
+            after: summarizePage(page),
+        };
+    });
+    publishedPages
+        .filter(page => !workingIds.has(String(page._id)))
+        .forEach((page) => {
+            pages.push({
+                pageId: String(page._id),
+                status: 'removed',
+                fields: [],
+                before: summarizePage(page),
+                after: null,
+            });
+        });
+
+    const count = status => pages.filter(p => p.status === status).length;
+    return {
+        against: revision ? revision.number : null,
+        book: bookChanges,
+        pages,
+        summary: {
+            bookFields: bookChanges.length,
+            added: count('added'),
+            removed: count('removed'),
+            changed: count('changed'),
+            unchanged: count('unchanged'),
+        },
+        hasChanges: bookChanges.length > 0 || pages.some(p => p.status !== 'unchanged'),
+    };
+};
+
+module.exports = {
+    VERSIONED_FIELDS,
+    isLive,
+    pickVersioned,
+    applyBookChanges,
+    previewBook,
+    publishBook,
+    ensureBaseline,
+    publishIfDue,
+    rollbackBook,
+    getPublishedPages,
+    getReadablePages,
+    diffBook,
+};
@@ -481,6 +481,137 @@ Download the App:
     }
 };
 
+/**
+ * Escape user-provided text (kid names, content titles) for HTML emails
+ */
+const escapeHtml = (value) => String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const DIGEST_STATS = [
+    ['timeSpentMinutes', 'Minutes'],
+    ['booksRead', 'Books'],
+    ['pagesRead', 'Pages'],
+    ['songsListened', 'Songs'],
+    ['gamesPlayed', 'Games'],
+    ['lessonsCompleted', 'Lessons'],
+    ['coinsEarned', 'Coins'],
+];
+
+/**
+ * Week-over-week change for one stat, e.g. "▲ 25%"
+ */
+const formatDigestTrend = (current, previous) => {
+    if (!previous) return current ? '<span style="color: #2e7d32;">new</span>' : '';
+    const change = Math.round(((current - previous) / previous) * 100);
+    if (change === 0) return '<span style="color: #9e9e9e;">same</span>';
+    return change > 0
+        ? `<span style="color: #2e7d32;">▲ ${change}%</span>`
+        : `<span style="color: #c62828;">▼ ${Math.abs(change)}%</span>`;
+};
+
+/**
+ * Send the weekly parent progress digest.
+ * The digest is computed on the parent's device (see parentDigestService in the app).
+ */
+const sendWeeklyDigestEmail = async (email, digest) => {
+    const transport = getTransporter();
+    
+    if (!transport) {
+        console.log('📧 Weekly digest email skipped (Gmail not configured)');
+        return { success: false, error: 'Email service not configured' };
+    }
+    
+    try {
+        const fromEmail = process.env.EMAIL_USER || 'hello@kbpublish.org';
+        const dateOptions = { month: 'short', day: 'numeric' };
+        const weekLabel = `${new Date(digest.weekStart).toLocaleDateString('en-US', dateOptions)} - ${new Date(digest.weekEnd - 1).toLocaleDateString('en-US', dateOptions)}`;
+        
+        const kidSections = (digest.kids || []).map(kid => {
+            const stats = kid.stats || {};
+            const previousStats = kid.previousStats || {};
+            const statCells = DIGEST_STATS.map(([key, label]) => `
+                                    <td style="padding: 6px; text-align: center;">
+                                        <div style="font-size: 20px; font-weight: bold; color: #5c3d2e;">${Number(stats[key]) || 0}</div>
+                                        <div style="font-size: 11px; color: #8B4513; text-transform: uppercase;">${label}</div>
+                                        <div style="font-size: 11px;">${formatDigestTrend(Number(stats[key]) || 0, Number(previousStats[key]) || 0)}</div>
+                                    </td>`).join('');
+            const favorites = (kid.favorites || []).map(f =>
+                `<li style="margin: 2px 0;">${escapeHtml(f.title)} <span style="color: #9e9e9e;">×${Number(f.count) || 0}</span></li>`
+            ).join('');
+            const quizLine = kid.quiz && kid.quiz.accuracy !== null && kid.quiz.accuracy !== undefined
+                ? `Quiz accuracy: <strong>${Number(kid.quiz.accuracy)}%</strong> (${Number(kid.quiz.quizzesTaken) || 0} quizzes)`
+                : 'No quizzes taken this week';
+            
+            return `
+                    <tr>
+                        <td style="padding: 0 30px 20px;">
+                            <div style="background: rgba(255,255,255,0.95); border-radius: 15px; padding: 20px;">
+                                <h2 style="margin: 0 0 10px; color: #5c3d2e; font-size: 20px;">${escapeHtml(kid.name)}</h2>
+                                <table width="100%" cellpadding="0" cellspacing="0"><tr>${statCells}</tr></table>
+                                <p style="margin: 12px 0 4px; color: #5c3d2e; font-size: 14px;">${quizLine}</p>
+                                ${favorites ? `<p style="margin: 8px 0 0; color: #8B4513; font-size: 12px; text-transform: uppercase;">Favorites</p><ul style="margin: 4px 0 0; padding-left: 18px; color: #5c3d2e; font-size: 14px;">${favorites}</ul>` : ''}
+                            </div>
+                        </td>
+                    </tr>`;
+        }).join('');
+        
+        const mailOptions = {
+            from: `GodlyKids <${fromEmail}>`,
+            to: email,
+            subject: `📬 Your GodlyKids Weekly Digest (${weekLabel})`,
+            html: `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; background-color: #f5f0e8; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
+    <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f0e8; padding: 40px 20px;">
+        <tr>
+            <td align="center">
+                <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 560px; background: linear-gradient(135deg, #5c3d2e 0%, #3e2a1e 100%); border-radius: 20px; overflow: hidden; box-shadow: 0 10px 40px rgba(0,0,0,0.2);">
+                    
+                    <tr>
+                        <td style="padding: 30px; text-align: center;">
+                            <h1 style="margin: 0; color: #FFD700; font-size: 26px;">Weekly Digest 📬</h1>
+                            <p style="margin: 10px 0 0; color: #eecaa0; font-size: 15px;">${weekLabel}</p>
+                        </td>
+                    </tr>
+                    ${kidSections}
+                    <tr>
+                        <td style="padding: 0 30px 30px; text-align: center;">
+                            <p style="margin: 0; color: #eecaa0; font-size: 12px;">
+                                You're getting this because you turned on weekly digests in the GodlyKids app.
+                                You can turn them off from the Report Card at any time.
+                            </p>
+                        </td>
+                    </tr>
+                    
+                </table>
+            </td>
+        </tr>
+    </table>
+</body>
+</html>
+            `
+        };
+        
+        const info = await transport.sendMail(mailOptions);
+        
+        console.log('✅ Weekly digest email sent to:', email);
+        return { success: true, messageId: info.messageId };
+        
+    } catch (error) {
+        console.error('❌ Weekly digest email send error:', error);
+        return { success: false, error: error.message };
+    }
+};
+
 /**
  * Format child age for display
  */
@@ -583,5 +714,6 @@ module.exports = {
     sendPasswordResetEmail,
     sendWelcomeEmail,
     sendQuizResultsEmail,
+    sendWeeklyDigestEmail,
     testEmailConfig
 };
@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { Play, Pause, X, Music, SkipBack, SkipForward, Crown, Lock } from 'lucide-react';
+import { Play, Pause, X, Music, SkipBack, SkipForward, Crown, Lock, Moon } from 'lucide-react';
 import { useAudio } from '../../context/AudioContext';
 import { useUser } from '../../context/UserContext';
+import { formatSleepRemaining } from './SleepTimerSheet';
 
 const MiniPlayer: React.FC = () => {
     const {
@@ -20,7 +21,10 @@ const MiniPlayer: React.FC = () => {
         isPreviewMode,
         previewLimitReached,
         previewTimeRemaining,
-        dismissPreviewLimit
+        dismissPreviewLimit,
+        sleepTimer,
+        hasNext,
+        hasPrev
     } = useAudio();
 
     const navigate = useNavigate();
@@ -30,11 +34,12 @@ const MiniPlayer: React.FC = () => {
 
     // Don't show mini player if:
     // 1. No playlist is active
-    // 2. We are already on the full player page (path includes /play/)
+    // 2. We are already on the full player page (path includes /play/) or its queue editor
     // 3. We are in a book reader (distraction free)
     // Note: We DO want to show on playlist detail page (/audio/playlist/:id) but NOT on player page (/audio/playlist/:id/play/:index)
     if (!currentPlaylist ||
         location.pathname.includes('/play/') ||
+        location.pathname === '/audio/queue' ||
         location.pathname.includes('/read/') ||
         location.pathname.includes('/book-reader')) {
         return null;
@@ -169,8 +174,13 @@ const MiniPlayer: React.FC = () => {
                         <p className="text-[#e2cba5] text-xs truncate">
                             {currentTrack.author || currentPlaylist.author}
                         </p>
-                        <p className="text-[#d4a373] text-[10px] mt-0.5">
+                        <p className="text-[#d4a373] text-[10px] mt-0.5 flex items-center gap-1">
                             {formatTime(currentTime)} / {formatTime(duration)}
+                            {sleepTimer && (
+                                <span className="flex items-center gap-0.5 text-[#FFD700]">
+                                    · <Moon size={10} fill="currentColor" /> {formatSleepRemaining(sleepTimer)}
+                                </span>
+                            )}
                         </p>
                     </div>
                     
@@ -190,7 +200,7 @@ const MiniPlayer: React.FC = () => {
                         {/* Previous Button */}
                         <button
                             onClick={(e) => { e.stopPropagation(); prevTrack(); }}
-                            disabled={currentTrackIndex === 0}
+                            disabled={!hasPrev}
                             className="text-[#f3e5ab] hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors active:scale-90"
                         >
                             <SkipBack size={20} fill="currentColor" />
@@ -211,7 +221,7 @@ const MiniPlayer: React.FC = () => {
                         {/* Next Button */}
                         <button
                             onClick={(e) => { e.stopPropagation(); nextTrack(); }}
-                            disabled={!currentPlaylist || currentTrackIndex === currentPlaylist.items.length - 1}
+                            disabled={!hasNext}
                             className="text-[#f3e5ab] hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors active:scale-90"
                         >
                             <SkipForward size={20} fill="currentColor" />
@@ -0,0 +1,89 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { Moon, X, Check } from 'lucide-react';
+import { SleepTimer, SleepTimerOption, SLEEP_TIMER_MINUTES } from '../../context/AudioContext';
+
+interface SleepTimerSheetProps {
+    isOpen: boolean;
+    onClose: () => void;
+    sleepTimer: SleepTimer | null;
+    onSelect: (option: SleepTimerOption | null) => void;
+}
+
+export const formatSleepRemaining = (timer: SleepTimer): string => {
+    if (timer.option === 'episode') return 'End of episode';
+    const seconds = Math.ceil(timer.remaining || 0);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Sleep Timer
+ * Bottom sheet for picking when bedtime listening should stop. The audio fades out
+ * over the last few seconds instead of cutting off.
+ */
+const SleepTimerSheet: React.FC<SleepTimerSheetProps> = ({ isOpen, onClose, sleepTimer, onSelect }) => {
+    if (!isOpen) return null;
+
+    const options: Array<{ option: SleepTimerOption; label: string }> = [
+        { option: 'episode', label: 'End of episode' },
+        ...SLEEP_TIMER_MINUTES.map(minutes => ({ option: minutes, label: `${minutes} minutes` })),
+    ];
+
+    const handleSelect = (option: SleepTimerOption | null) => {
+        onSelect(option);
+        onClose();
+    };
+
+    return createPortal(
+        <div className="fixed inset-0 z-[110] flex items-end justify-center">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+
+            <div className="relative w-full max-w-md bg-[#fdf6e3] rounded-t-3xl border-t-4 border-x-4 border-[#8B4513] shadow-2xl p-5 pb-8 animate-in slide-in-from-bottom duration-300">
+                <button
+                    onClick={onClose}
+                    className="absolute top-3 right-3 text-[#8B4513]/50 hover:text-[#8B4513] transition-colors"
+                >
+                    <X size={24} />
+                </button>
+
+                <div className="flex items-center justify-center gap-2 mb-1">
+                    <Moon size={20} className="text-[#8B4513]" />
+                    <h2 className="font-display font-extrabold text-xl text-[#5c2e0b]">Sleep Timer</h2>
+                </div>
+                <p className="text-center text-xs font-bold text-[#8B4513]/70 mb-4">
+                    {sleepTimer ? `Stopping in ${formatSleepRemaining(sleepTimer)}` : 'Stop playing after...'}
+                </p>
+
+                <div className="space-y-2">
+                    {options.map(({ option, label }) => {
+                        const isActive = sleepTimer?.option === option;
+                        return (
+                            <button
+                                key={String(option)}
+                                onClick={() => handleSelect(option)}
+                                className={`w-full flex items-center justify-between px-4 py-3 rounded-xl border-2 font-bold transition-colors ${
+                                    isActive ? 'bg-[#8B4513] border-[#5c2e0b] text-[#f3e5ab]' : 'bg-white/70 border-[#eecaa0] text-[#5c2e0b]'
+                                }`}
+                            >
+                                <span>{label}</span>
+                                {isActive && <Check size={18} />}
+                            </button>
+                        );
+                    })}
+                </div>
+
+                {sleepTimer && (
+                    <button
+                        onClick={() => handleSelect(null)}
+                        className="w-full mt-3 py-3 rounded-xl text-red-600 font-bold hover:bg-red-50 transition-colors"
+                    >
+                        Turn off timer
+                    </button>
+                )}
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default SleepTimerSheet;
@@ -0,0 +1,176 @@
+import React from 'react';
+import { MessageCircle } from 'lucide-react';
+import { ApiService } from '../../services/apiService';
+import { isCompleted, toLocalDateKey } from '../../services/lessonService';
+import { SessionStep } from '../../services/dailySessionService';
+import { SESSION_STEP_CATALOG, SessionStepType } from '../../services/sessionRoutineService';
+
+// Modals the Daily Session page owns and a step can open
+export type SessionStepModal = 'scripture' | 'discussion' | 'memoryVerse' | 'game' | 'coloring' | 'quiz';
+
+// What a step can do when it starts - the page supplies these
+export interface SessionStepActions {
+  profileId: string | null;
+  openModal: (modal: SessionStepModal) => void;
+  startBook: () => void | Promise<void>;
+  startPrayer: () => void;
+  navigate: (path: string, state?: unknown) => void;
+  setStepContent: (contentId: string, contentTitle: string) => void;
+}
+
+export interface SessionStepPreviewProps {
+  step: SessionStep;
+  reward: number;
+  recommendedBook: any;
+  onStart: () => void;
+}
+
+export interface SessionStepRenderer {
+  Preview: React.FC<SessionStepPreviewProps>;
+  start: (actions: SessionStepActions) => void | Promise<void>;
+  // 'auto': the step reports back when it's done (a modal's onComplete, or returning from the reader/lesson)
+  // 'confirm': open-ended - once started, the step card offers a "We did it!" button
+  completion: 'auto' | 'confirm';
+  leavesPage?: boolean; // takes the kid to another screen, so it's never auto-started after the previous step
+}
+
+const StepMeta: React.FC<{ step: SessionStep; reward: number }> = ({ step, reward }) => (
+  <p className="text-[#FFD700] text-sm mt-1 font-display font-bold">
+    {step.minutes ? <span className="text-[#f3e5ab]/60 font-normal mr-2">⏱ {step.minutes} min</span> : null}
+    🪙 +{reward} coins
+  </p>
+);
+
+// Icon, label and description from the catalog - used by every step without its own preview
+const CatalogPreview: React.FC<SessionStepPreviewProps> = ({ step, reward }) => {
+  const definition = SESSION_STEP_CATALOG[step.type];
+  return (
+    <div className="bg-[#8B4513]/50 rounded-xl p-4 border-2 border-[#A0522D]">
+      <div className="flex items-center gap-4">
+        <div className="w-20 h-20 rounded-xl bg-[#5D4037]/60 flex items-center justify-center border-2 border-[#5D4037] text-4xl">
+          {step.icon}
+        </div>
+        <div className="flex-1">
+          <h3 className="text-[#f3e5ab] font-bold font-display">{step.label}</h3>
+          <p className="text-[#f3e5ab]/60 text-sm font-display">{step.contentTitle || definition?.description}</p>
+          <StepMeta step={step} reward={reward} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ScripturePreview: React.FC<SessionStepPreviewProps> = ({ step, reward }) => (
+  <div className="text-center">
+    <div className="relative inline-block mb-4">
+      <div className="absolute inset-0 blur-xl bg-[#7CB342] opacity-60 rounded-full scale-150"></div>
+      <span className="relative text-6xl">🧩</span>
+    </div>
+    <h3 className="text-[#FFD700] font-bold font-display text-xl mb-2">Scripture Puzzle</h3>
+    <p className="text-[#f3e5ab]/70 text-sm font-display mb-4">
+      Tap the words in the correct order to build today's Bible verse!
+    </p>
+    <p className="text-[#FFD700] font-bold font-display text-lg">
+      🪙 +{reward} coins
+    </p>
+    {step.minutes ? <p className="text-[#f3e5ab]/50 text-xs font-display mt-1">About {step.minutes} min</p> : null}
+  </div>
+);
+
+const BookPreview: React.FC<SessionStepPreviewProps> = (props) => {
+  const { recommendedBook, onStart, step, reward } = props;
+  if (!recommendedBook) return <CatalogPreview {...props} />;
+  return (
+    <button
+      onClick={onStart}
+      className="w-full bg-[#8B4513]/50 rounded-xl p-4 border-2 border-[#A0522D] hover:bg-[#8B4513]/70 transition-all active:scale-[0.98] cursor-pointer"
+    >
+      <div className="flex items-center gap-4">
+        <div className="w-20 h-28 rounded-xl overflow-hidden bg-[#5D4037]/50 border-2 border-[#8B4513] shadow-lg">
+          <img
+            src={recommendedBook.coverUrl || recommendedBook.files?.coverImage}
+            alt={recommendedBook.title}
+            className="w-full h-full object-cover"
+          />
+        </div>
+        <div className="flex-1 text-left">
+          <h3 className="text-[#f3e5ab] font-bold font-display">{recommendedBook.title}</h3>
+          <p className="text-[#f3e5ab]/60 text-sm font-display">{recommendedBook.author}</p>
+          <p className="text-[#f3e5ab]/40 text-xs mt-1 font-display">
+            {recommendedBook.category || recommendedBook.categories?.[0]}
+          </p>
+          <StepMeta step={step} reward={reward} />
+        </div>
+      </div>
+    </button>
+  );
+};
+
+const DiscussionPreview: React.FC<SessionStepPreviewProps> = ({ step, reward, recommendedBook }) => (
+  <div className="bg-[#8B4513]/50 rounded-xl p-4 border-2 border-[#A0522D]">
+    <div className="flex items-center gap-4">
+      <div className="w-20 h-20 rounded-xl bg-gradient-to-br from-green-500 to-teal-600 flex items-center justify-center border-2 border-[#5D4037]">
+        <MessageCircle className="w-8 h-8 text-white" />
+      </div>
+      <div className="flex-1">
+        <h3 className="text-[#f3e5ab] font-bold font-display">Discussion Time</h3>
+        <p className="text-[#f3e5ab]/60 text-sm font-display">
+          {recommendedBook ? `About "${recommendedBook.title}"` : 'About the story'}
+        </p>
+        <p className="text-[#f3e5ab]/40 text-xs mt-1 font-display">
+          Answer 2 questions together
+        </p>
+        <StepMeta step={step} reward={reward} />
+      </div>
+    </div>
+  </div>
+);
+
+const PrayerPreview: React.FC<SessionStepPreviewProps> = ({ reward }) => (
+  <div className="bg-[#8B4513]/50 rounded-xl p-4 text-center border-2 border-[#A0522D]">
+    <p className="text-[#f3e5ab]/80 text-sm font-display">
+      Select 3 prayer topics and pray together.
+    </p>
+    <p className="text-[#FFD700] font-bold mt-2 font-display text-lg">
+      🪙 +{reward} coins
+    </p>
+  </div>
+);
+
+// Today's planned lesson the kid hasn't finished, or any lesson if there's no plan
+const startLesson = async ({ profileId, navigate, setStepContent }: SessionStepActions) => {
+  let lesson: any = null;
+  if (profileId) {
+    const plan = await ApiService.getLessonPlannerDay(profileId, toLocalDateKey(new Date()));
+    const planned = (plan?.slots || []).map((slot: any) => slot.lesson).filter(Boolean);
+    lesson = planned.find((l: any) => !isCompleted(l._id)) || planned[0] || null;
+  }
+  if (!lesson) {
+    const lessons = await ApiService.getLessons();
+    lesson = lessons.find(l => !isCompleted(l._id)) || lessons[0] || null;
+  }
+  if (!lesson) {
+    alert('Unable to load a lesson. Please check your connection and try again.');
+    return;
+  }
+  setStepContent(lesson._id, lesson.title);
+  navigate(`/lesson/${lesson._id}`, { fromDailySession: true });
+};
+
+/**
+ * Step Renderers
+ * How the Daily Session page shows and starts each kind of routine step. Adding a step type
+ * to the routine catalog means adding its renderer here - the page itself has no per-type branches.
+ */
+export const SESSION_STEP_RENDERERS: Record<SessionStepType, SessionStepRenderer> = {
+  scripture: { Preview: ScripturePreview, start: ({ openModal }) => openModal('scripture'), completion: 'auto' },
+  lesson: { Preview: CatalogPreview, start: startLesson, completion: 'auto', leavesPage: true },
+  memoryVerse: { Preview: CatalogPreview, start: ({ openModal }) => openModal('memoryVerse'), completion: 'confirm' },
+  book: { Preview: BookPreview, start: ({ startBook }) => startBook(), completion: 'auto' },
+  quiz: { Preview: CatalogPreview, start: ({ openModal }) => openModal('quiz'), completion: 'auto' },
+  discussion: { Preview: DiscussionPreview, start: ({ openModal }) => openModal('discussion'), completion: 'auto' },
+  song: { Preview: CatalogPreview, start: ({ navigate }) => navigate('/listen'), completion: 'confirm', leavesPage: true },
+  game: { Preview: CatalogPreview, start: ({ openModal }) => openModal('game'), completion: 'confirm' },
+  coloring: { Preview: CatalogPreview, start: ({ openModal }) => openModal('coloring'), completion: 'confirm' },
+  prayer: { Preview: PrayerPreview, start: ({ startPrayer }) => startPrayer(), completion: 'auto' },
+};
@@ -0,0 +1,53 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useLocation } from 'react-router-dom';
+import AchievementUnlockedModal from '../modals/AchievementUnlockedModal';
+import { useUser } from '../../context/UserContext';
+import { achievementsService, EarnedBadge, ACHIEVEMENTS_EVENT } from '../../services/achievementsService';
+import { ACTIVITY_TRACKED_EVENT } from '../../services/activityTrackingService';
+
+// Don't interrupt a story, lesson, game or Godly Kids Time - celebrate when the kid is done
+const BUSY_ROUTES = ['/read/', '/lesson/', '/player/', '/game', '/daily-session'];
+
+/**
+ * Achievement Celebration
+ * Watches the active kid's activity and shows the unlock celebration for every badge
+ * they've earned but haven't seen yet, one at a time.
+ */
+const AchievementCelebration: React.FC = () => {
+  const location = useLocation();
+  const { kids, currentProfileId } = useUser();
+  const [pending, setPending] = useState<EarnedBadge[]>([]);
+
+  useEffect(() => {
+    achievementsService.loadBadges();
+  }, []);
+
+  const isBusy = BUSY_ROUTES.some(route => location.pathname.startsWith(route));
+
+  const check = useCallback(() => {
+    setPending(currentProfileId && !isBusy ? achievementsService.getUncelebrated(currentProfileId) : []);
+  }, [currentProfileId, isBusy]);
+
+  useEffect(() => {
+    check();
+    window.addEventListener(ACTIVITY_TRACKED_EVENT, check);
+    window.addEventListener(ACHIEVEMENTS_EVENT, check);
+    return () => {
+      window.removeEventListener(ACTIVITY_TRACKED_EVENT, check);
+      window.removeEventListener(ACHIEVEMENTS_EVENT, check);
+    };
+  }, [check]);
+
+  const badge = pending[0] || null;
+  const kidName = kids.find(k => k.id === currentProfileId)?.name;
+
+  return (
+    <AchievementUnlockedModal
+      badge={badge}
+      kidName={kidName}
+      onClose={() => badge && achievementsService.markCelebrated(badge.badgeId, currentProfileId)}
+    />
+  );
+};
+
+export default AchievementCelebration;
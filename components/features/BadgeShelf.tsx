@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import {
+  achievementsService,
+  BadgeProgress,
+  EarnedBadge,
+  BADGE_METRIC_LABELS,
+  ACHIEVEMENTS_EVENT,
+} from '../../services/achievementsService';
+
+interface BadgeShelfProps {
+  profileId: string | null;
+  title?: string;
+  // 'wood' on the profile page, 'dark' inside the report card
+  tone?: 'wood' | 'dark';
+}
+
+const TONES = {
+  wood: {
+    title: 'text-[#eecaa0]',
+    empty: 'text-[#eecaa0]/60 bg-black/20',
+    tile: 'bg-black/20 border-[#eecaa0]/40',
+    name: 'text-white',
+    hint: 'text-[#eecaa0]/70',
+    track: 'bg-black/30',
+  },
+  dark: {
+    title: 'text-white/60',
+    empty: 'text-white/50 bg-white/5',
+    tile: 'bg-white/5 border-white/10',
+    name: 'text-white',
+    hint: 'text-white/50',
+    track: 'bg-white/10',
+  },
+};
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+/**
+ * Badge Shelf
+ * A kid's earned badges, then the ones they're still working towards with their progress.
+ * Badges that have since been retired stay on the shelf once earned.
+ */
+const BadgeShelf: React.FC<BadgeShelfProps> = ({ profileId, title = 'MY BADGES', tone = 'wood' }) => {
+  const [progress, setProgress] = useState<BadgeProgress[]>([]);
+  const [earned, setEarned] = useState<EarnedBadge[]>([]);
+  const styles = TONES[tone];
+
+  useEffect(() => {
+    const refresh = () => {
+      const current = achievementsService.getProgress(profileId);
+      setProgress(current.filter(p => !p.earned));
+      setEarned(Object.values(achievementsService.getEarned(profileId)).sort((a, b) => b.unlockedAt - a.unlockedAt));
+    };
+    refresh();
+    window.addEventListener(ACHIEVEMENTS_EVENT, refresh);
+    return () => window.removeEventListener(ACHIEVEMENTS_EVENT, refresh);
+  }, [profileId]);
+
+  if (earned.length === 0 && progress.length === 0) return null;
+
+  return (
+    <div className="w-full">
+      <label className={`${styles.title} font-display font-bold ml-2 text-sm tracking-wide block mb-3`}>
+        {title} · {earned.length}
+      </label>
+
+      {earned.length === 0 ? (
+        <p className={`${styles.empty} text-xs text-center py-4 rounded-xl mb-3`}>
+          Keep reading, listening and learning to earn your first badge!
+        </p>
+      ) : (
+        <div className="grid grid-cols-3 gap-2 mb-3">
+          {earned.map(badge => (
+            <div key={badge.badgeId} className={`${styles.tile} border rounded-xl p-2 flex flex-col items-center text-center`} title={badge.description}>
+              <div
+                className="w-12 h-12 rounded-full flex items-center justify-center text-2xl border-2 border-white/80 shadow-md mb-1"
+                style={{ backgroundColor: badge.color }}
+              >
+                {badge.icon}
+              </div>
+              <span className={`${styles.name} text-[11px] font-bold leading-tight line-clamp-2`}>{badge.title}</span>
+              <span className={`${styles.hint} text-[9px]`}>{formatDate(badge.unlockedAt)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {progress.length > 0 && (
+        <div className="space-y-2">
+          {progress.map(({ badge, current, target }) => (
+            <div key={badge._id} className={`${styles.tile} border rounded-xl px-3 py-2 flex items-center gap-3`}>
+              <div className="w-9 h-9 rounded-full flex items-center justify-center text-lg bg-black/20 grayscale opacity-60 shrink-0">
+                {badge.icon || '🏅'}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`${styles.name} text-xs font-bold truncate`}>{badge.title}</span>
+                  <span className={`${styles.hint} text-[10px] whitespace-nowrap`}>
+                    {current}/{target} {BADGE_METRIC_LABELS[badge.rule.metric]}
+                  </span>
+                </div>
+                <div className={`${styles.track} h-1.5 rounded-full mt-1 overflow-hidden`}>
+                  <div
+                    className="h-full rounded-full"
+                    style={{ width: `${target > 0 ? (current / target) * 100 : 0}%`, backgroundColor: badge.color || '#FFD700' }}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BadgeShelf;
@@ -1,6 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { X, Check, ChevronLeft, ChevronRight, Trophy, Coins, Loader2 } from 'lucide-react';
 import { ApiService } from '../../services/apiService';
+import { activityTrackingService } from '../../services/activityTrackingService';
+import { quizBankService, getQuizAge, QuizDifficulty, NewQuizAnswer } from '../../services/quizBankService';
 import { useUser } from '../../context/UserContext';
 
 interface QuizOption {
@@ -24,6 +26,12 @@ interface BookQuizModalProps {
     onQuizComplete: (score: number, coinsEarned: number) => void;
 }
 
+const DIFFICULTY_LABELS: Record<QuizDifficulty, string> = {
+    easy: '🌱 Easy',
+    medium: '🌿 Medium',
+    hard: '🌳 Hard',
+};
+
 // Helper to get age group label for display
 const getAgeGroupLabel = (age: number): string => {
     if (age <= 5) return '3-5 years';
@@ -53,6 +61,17 @@ const BookQuizModal: React.FC<BookQuizModalProps> = ({
     const [error, setError] = useState<string | null>(null);
     const [ageGroup, setAgeGroup] = useState<string>('');
     const [loadingRemainingQuestions, setLoadingRemainingQuestions] = useState(false);
+    // Adaptive difficulty and missed questions re-asked from this kid's question bank
+    const [difficulty, setDifficulty] = useState<QuizDifficulty>('medium');
+    const [reviewQuestions, setReviewQuestions] = useState<QuizQuestion[]>([]);
+    const [reviewCorrect, setReviewCorrect] = useState(0);
+
+    // Time spent on each question (ms), keyed by question index
+    const questionTimesRef = useRef<Map<number, number>>(new Map());
+    const questionStartRef = useRef(Date.now());
+
+    // Review questions come after the book's own questions
+    const allQuestions = [...questions, ...reviewQuestions];
 
     // Get user ID (using localStorage for now)
     const getUserId = () => {
@@ -77,41 +96,48 @@ const BookQuizModal: React.FC<BookQuizModalProps> = ({
         
         // Calculate the current attempt number (attemptCount is 0-based, so add 1 for next attempt)
         const currentAttemptNumber = attemptCount + 1;
+
+        // Questions are pitched an age group up or down to match how the kid has been doing
+        const quizDifficulty = quizBankService.getDifficulty();
+        const quizAge = getQuizAge(kidAge, quizDifficulty);
+        setDifficulty(quizDifficulty);
+        setReviewQuestions(attemptCount > 0 ? quizBankService.getReviewQuestions(bookId) : []);
+        questionTimesRef.current = new Map();
         
         try {
-            console.log(`📝 Loading quiz for book ${bookId}, age ${kidAge}, attempt ${currentAttemptNumber}...`);
+            console.log(`📝 Loading quiz for book ${bookId}, age ${kidAge} (${quizDifficulty} → ${quizAge}), attempt ${currentAttemptNumber}...`);
             
             // First try to get existing quiz for this age group and attempt
-            let quizData = await ApiService.getBookQuiz(bookId, getUserId(), kidAge, currentAttemptNumber);
+            let quizData = await ApiService.getBookQuiz(bookId, getUserId(), quizAge, currentAttemptNumber);
             console.log('📝 getBookQuiz response:', quizData);
             
             // If full quiz exists, use it
             if (quizData && quizData.quiz && quizData.quiz.questions && quizData.quiz.questions.length >= 6) {
                 setQuestions(quizData.quiz.questions);
-                setAgeGroup(quizData.quiz.ageGroup || getAgeGroupLabel(kidAge));
+                setAgeGroup(quizData.quiz.ageGroup || getAgeGroupLabel(quizAge));
                 console.log(`✅ Quiz loaded with ${quizData.quiz.questions.length} questions (attempt ${currentAttemptNumber})`);
                 setLoading(false);
                 return;
             }
             
             // No full quiz exists - use progressive loading
-            console.log(`⚡ Using progressive loading for age ${kidAge}, attempt ${currentAttemptNumber}...`);
+            console.log(`⚡ Using progressive loading for age ${quizAge}, attempt ${currentAttemptNumber}...`);
             setLoadingMessage(currentAttemptNumber === 2 ? 'Creating new questions for your second try...' : 'Creating your first question...');
             
             // Generate first question quickly
-            const firstResult = await ApiService.generateFirstQuestion(bookId, kidAge, currentAttemptNumber);
+            const firstResult = await ApiService.generateFirstQuestion(bookId, quizAge, currentAttemptNumber);
             console.log('⚡ First question result:', firstResult);
             
             if (firstResult && firstResult.firstQuestion) {
                 // Show first question immediately
                 setQuestions([firstResult.firstQuestion]);
-                setAgeGroup(firstResult.ageGroup || getAgeGroupLabel(kidAge));
+                setAgeGroup(firstResult.ageGroup || getAgeGroupLabel(quizAge));
                 setLoading(false);
                 
                 // If this was from cache, we already have all questions
                 if (firstResult.cached && firstResult.totalQuestions >= 6) {
                     // Fetch the full quiz
-                    const fullQuiz = await ApiService.getBookQuiz(bookId, getUserId(), kidAge, currentAttemptNumber);
+                    const fullQuiz = await ApiService.getBookQuiz(bookId, getUserId(), quizAge, currentAttemptNumber);
                     if (fullQuiz?.quiz?.questions) {
                         setQuestions(fullQuiz.quiz.questions);
                     }
@@ -125,7 +151,7 @@ const BookQuizModal: React.FC<BookQuizModalProps> = ({
                     
                     const remainingResult = await ApiService.generateRemainingQuestions(
                         bookId, 
-                        kidAge, 
+                        quizAge, 
                         firstResult.firstQuestion,
                         currentAttemptNumber
                     );
@@ -140,10 +166,10 @@ const BookQuizModal: React.FC<BookQuizModalProps> = ({
                 // Fallback to full generation
                 console.log('⚠️ First question failed, falling back to full generation...');
                 setLoadingMessage('Generating all questions...');
-                const generated = await ApiService.generateBookQuiz(bookId, kidAge, currentAttemptNumber);
+                const generated = await ApiService.generateBookQuiz(bookId, quizAge, currentAttemptNumber);
                 if (generated && generated.quiz && generated.quiz.questions) {
                     setQuestions(generated.quiz.questions);
-                    setAgeGroup(generated.quiz.ageGroup || getAgeGroupLabel(kidAge));
+                    setAgeGroup(generated.quiz.ageGroup || getAgeGroupLabel(quizAge));
                 } else {
                     throw new Error('Quiz generation returned empty result');
                 }
@@ -157,6 +183,19 @@ const BookQuizModal: React.FC<BookQuizModalProps> = ({
         }
     };
 
+    // Restart the per-question clock once the quiz is on screen
+    useEffect(() => {
+        if (!loading) questionStartRef.current = Date.now();
+    }, [loading]);
+
+    // Add the time since the current question was shown to its total
+    const recordQuestionTime = () => {
+        const now = Date.now();
+        const times = questionTimesRef.current;
+        times.set(currentQuestionIndex, (times.get(currentQuestionIndex) || 0) + now - questionStartRef.current);
+        questionStartRef.current = now;
+    };
+
     const handleSelectAnswer = (optionIndex: number) => {
         if (quizSubmitted) return;
         const newAnswers = new Map(selectedAnswers);
@@ -169,41 +208,73 @@ const BookQuizModal: React.FC<BookQuizModalProps> = ({
         if (loadingRemainingQuestions && currentQuestionIndex >= questions.length - 1) {
             return; // Button will be disabled, but this is a safety check
         }
-        if (currentQuestionIndex < questions.length - 1) {
+        if (currentQuestionIndex < allQuestions.length - 1) {
+            recordQuestionTime();
             setCurrentQuestionIndex(prev => prev + 1);
         }
     };
 
     const handlePrev = () => {
         if (currentQuestionIndex > 0) {
+            recordQuestionTime();
             setCurrentQuestionIndex(prev => prev - 1);
         }
     };
 
     const handleSubmit = async () => {
-        if (selectedAnswers.size !== questions.length) {
+        if (selectedAnswers.size !== allQuestions.length) {
             return; // All questions must be answered
         }
 
+        recordQuestionTime();
         setSubmitting(true);
         
         // Calculate the current attempt number
         const currentAttemptNumber = attemptCount + 1;
         
         try {
+            // Only the book's own questions are scored by the backend - review questions are scored here
             const answersArray = Array.from({ length: questions.length }, (_, i) => 
                 selectedAnswers.get(i) ?? -1
             );
 
-            const result = await ApiService.submitBookQuiz(bookId, getUserId(), answersArray, kidAge, currentAttemptNumber);
+            const result = await ApiService.submitBookQuiz(
+                bookId,
+                getUserId(),
+                answersArray,
+                getQuizAge(kidAge, difficulty),
+                currentAttemptNumber
+            );
             
             if (result) {
                 setResults(result);
                 setQuizSubmitted(true);
+                activityTrackingService.trackQuizResult(bookId, bookTitle, result.score ?? 0, questions.length);
+
+                // Remember every answer in this kid's question bank
+                const bankAnswers: NewQuizAnswer[] = allQuestions.map((question, i) => {
+                    const chosenIndex = selectedAnswers.get(i) ?? -1;
+                    const correctIndex = question.options.findIndex(opt => opt.isCorrect);
+                    return {
+                        bookId,
+                        bookTitle,
+                        question: question.question,
+                        options: question.options.map(opt => opt.text),
+                        correctIndex,
+                        chosenIndex,
+                        isCorrect: chosenIndex === correctIndex,
+                        timeMs: questionTimesRef.current.get(i) || 0,
+                        difficulty,
+                        attemptNumber: currentAttemptNumber,
+                        isReview: i >= questions.length,
+                    };
+                });
+                setReviewCorrect(bankAnswers.filter(a => a.isReview && a.isCorrect).length);
+                quizBankService.recordAnswers(bankAnswers);
                 
                 // Add coins to user
                 if (result.coinsEarned > 0) {
-                    addCoins(result.coinsEarned, `Book Quiz - ${result.correctAnswers} correct`, 'quiz');
+                    addCoins(result.coinsEarned, `Book Quiz - ${result.score} correct`, 'quiz');
                 }
 
                 // Notify parent
@@ -224,15 +295,18 @@ const BookQuizModal: React.FC<BookQuizModalProps> = ({
         setQuizSubmitted(false);
         setResults(null);
         setError(null);
+        setReviewQuestions([]);
+        setReviewCorrect(0);
         onClose();
     };
 
     if (!isOpen) return null;
 
-    const currentQuestion = questions[currentQuestionIndex];
-    const totalExpectedQuestions = Math.max(6, questions.length);
+    const currentQuestion = allQuestions[currentQuestionIndex];
+    const isReviewQuestion = currentQuestionIndex >= questions.length;
+    const totalExpectedQuestions = Math.max(6, questions.length) + reviewQuestions.length;
     const allAnswered = selectedAnswers.size >= totalExpectedQuestions && !loadingRemainingQuestions;
-    const isLastQuestion = currentQuestionIndex === questions.length - 1 && questions.length >= 6 && !loadingRemainingQuestions;
+    const isLastQuestion = currentQuestionIndex === allQuestions.length - 1 && questions.length >= 6 && !loadingRemainingQuestions;
 
     return (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm animate-[fadeIn_0.3s_ease-out]">
@@ -254,6 +328,11 @@ const BookQuizModal: React.FC<BookQuizModalProps> = ({
                                     Ages {ageGroup}
                                 </span>
                             )}
+                            {!loading && (
+                                <span className="bg-white/15 text-white text-xs px-2 py-0.5 rounded-full font-bold">
+                                    {DIFFICULTY_LABELS[difficulty]}
+                                </span>
+                            )}
                         </div>
                         <button
                             onClick={handleClose}
@@ -310,12 +389,18 @@ const BookQuizModal: React.FC<BookQuizModalProps> = ({
                                             +{results.coinsEarned} Gold Coins!
                                         </p>
                                         <p className="text-[#8B4513] text-xs">
-                                            10 coins per correct answer
+                                            {results.coinsPerCorrect} coins per correct answer · {DIFFICULTY_LABELS[difficulty]}
                                         </p>
                                     </div>
                                 </div>
                             )}
 
+                            {reviewQuestions.length > 0 && (
+                                <p className="text-[#5D4037] text-sm mb-4">
+                                    🔁 You remembered <span className="font-bold text-[#8B4513]">{reviewCorrect}</span> of <span className="font-bold text-[#8B4513]">{reviewQuestions.length}</span> questions you missed last time!
+                                </p>
+                            )}
+
                             <p className="text-[#8B4513] text-sm mb-6">
                                 {results.attemptsRemaining > 0 
                                     ? `You have ${results.attemptsRemaining} attempt${results.attemptsRemaining > 1 ? 's' : ''} remaining!`
@@ -335,7 +420,7 @@ const BookQuizModal: React.FC<BookQuizModalProps> = ({
                             {/* Progress */}
                             <div className="mb-6">
                                 <div className="flex justify-between text-[#8B4513] text-sm font-bold mb-2">
-                                    <span>Question {currentQuestionIndex + 1} of {questions.length < 6 ? '6' : questions.length}</span>
+                                    <span>Question {currentQuestionIndex + 1} of {totalExpectedQuestions}</span>
                                     <div className="flex items-center gap-2">
                                         {loadingRemainingQuestions && (
                                             <span className="flex items-center gap-1 text-xs text-[#A0522D]">
@@ -343,19 +428,24 @@ const BookQuizModal: React.FC<BookQuizModalProps> = ({
                                                 Loading more...
                                             </span>
                                         )}
-                                        <span>{selectedAnswers.size}/{questions.length < 6 ? 6 : questions.length} answered</span>
+                                        <span>{selectedAnswers.size}/{totalExpectedQuestions} answered</span>
                                     </div>
                                 </div>
                                 <div className="w-full h-3 bg-[#d4c59a] rounded-full overflow-hidden">
                                     <div
                                         className="h-full bg-[#8B4513] transition-all duration-300"
-                                        style={{ width: `${((currentQuestionIndex + 1) / (questions.length < 6 ? 6 : questions.length)) * 100}%` }}
+                                        style={{ width: `${((currentQuestionIndex + 1) / totalExpectedQuestions) * 100}%` }}
                                     />
                                 </div>
                             </div>
 
                             {/* Question */}
                             <div className="mb-6">
+                                {isReviewQuestion && (
+                                    <span className="inline-block bg-[#FFD700]/30 text-[#8B4513] text-xs px-2 py-0.5 rounded-full font-bold mb-2">
+                                        🔁 Let's try this one again!
+                                    </span>
+                                )}
                                 <h3 className="text-[#3E2723] text-xl font-bold mb-6 leading-relaxed">
                                     {currentQuestion.question}
                                 </h3>
@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Heart, Trash2, Download, BookOpen, Loader2 } from 'lucide-react';
+import { coloringGalleryService, Artwork } from '../../services/coloringGalleryService';
+import { DespiaService } from '../../services/despiaService';
+import { buildArtBookPdf, ArtBookPage } from '../../utils/artBookPdf';
+
+interface ColoringGalleryProps {
+  profileId: string | null;
+  name: string;
+}
+
+type GalleryFilter = 'all' | 'favorites';
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const ArtworkViewer: React.FC<{ artwork: Artwork; onClose: () => void }> = ({ artwork, onClose }) => {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    coloringGalleryService.getImageUrl(artwork.id).then(url => {
+      if (!cancelled) setImageUrl(url);
+    });
+    return () => { cancelled = true; };
+  }, [artwork.id]);
+
+  const showToast = (message: string) => {
+    setToast(message);
+    window.setTimeout(() => setToast(null), 1800);
+  };
+
+  const handleSave = async () => {
+    if (DespiaService.isNative()) {
+      const dataUrl = await coloringGalleryService.getImageDataUrl(artwork.id);
+      if (!dataUrl) return;
+      DespiaService.saveImageToCameraRoll(dataUrl);
+      showToast('Saved to your photos! 📸');
+      return;
+    }
+    const blob = await coloringGalleryService.getImageBlob(artwork.id);
+    if (blob) downloadBlob(blob, `${artwork.sourceTitle || 'my-artwork'}.jpg`);
+  };
+
+  const handleDelete = async () => {
+    await coloringGalleryService.deleteArtwork(artwork.id);
+    onClose();
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose}></div>
+
+      <div className="relative w-full max-w-md max-h-[90vh] bg-[#fdf6e3] rounded-3xl border-4 border-[#8B4513] shadow-2xl overflow-hidden flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 z-10 text-[#8B4513]/50 hover:text-[#8B4513] transition-colors"
+        >
+          <X size={24} />
+        </button>
+
+        <div className="p-5 pb-3 text-center">
+          <h2 className="font-display font-extrabold text-xl text-[#5c2e0b] truncate px-6">{artwork.sourceTitle}</h2>
+          <p className="text-xs font-bold text-[#8B4513]/70">
+            {artwork.source === 'lesson' ? 'Lesson' : 'Book'} · {formatDate(artwork.updatedAt)}
+          </p>
+        </div>
+
+        <div className="flex-1 min-h-0 px-5 flex items-center justify-center">
+          {imageUrl ? (
+            <img src={imageUrl} alt={artwork.sourceTitle} className="max-w-full max-h-[55vh] rounded-xl border-2 border-[#eecaa0] bg-white" />
+          ) : (
+            <img src={artwork.thumbnail} alt={artwork.sourceTitle} className="max-w-full max-h-[55vh] rounded-xl border-2 border-[#eecaa0] bg-white opacity-70" />
+          )}
+        </div>
+
+        {toast && (
+          <p className="text-center text-sm font-bold text-green-700 pt-3">{toast}</p>
+        )}
+
+        {confirmDelete ? (
+          <div className="p-5 space-y-2">
+            <p className="text-center text-sm font-bold text-[#5c2e0b]">Delete this picture? It can't be brought back.</p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setConfirmDelete(false)}
+                className="flex-1 py-2 rounded-xl border-2 border-[#eecaa0] bg-white/70 text-[#5c2e0b] font-bold"
+              >
+                Keep it
+              </button>
+              <button
+                onClick={handleDelete}
+                className="flex-1 py-2 rounded-xl bg-red-500 hover:bg-red-600 text-white font-bold transition-colors"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-5 grid grid-cols-3 gap-2">
+            <button
+              onClick={() => coloringGalleryService.setFavorite(artwork.id, !artwork.favorite)}
+              className={`flex flex-col items-center gap-1 py-2 rounded-xl border-2 font-bold text-xs transition-colors ${
+                artwork.favorite ? 'bg-pink-100 border-pink-300 text-pink-600' : 'bg-white/70 border-[#eecaa0] text-[#5c2e0b]'
+              }`}
+            >
+              <Heart size={20} className={artwork.favorite ? 'fill-pink-500' : ''} />
+              {artwork.favorite ? 'Favorite' : 'Add favorite'}
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex flex-col items-center gap-1 py-2 rounded-xl border-2 bg-white/70 border-[#eecaa0] text-[#5c2e0b] font-bold text-xs"
+            >
+              <Download size={20} />
+              {DespiaService.isNative() ? 'Save to photos' : 'Download'}
+            </button>
+            <button
+              onClick={() => setConfirmDelete(true)}
+              className="flex flex-col items-center gap-1 py-2 rounded-xl border-2 bg-white/70 border-[#eecaa0] text-red-600 font-bold text-xs"
+            >
+              <Trash2 size={20} />
+              Delete
+            </button>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+/**
+ * Coloring Gallery
+ * Every coloring page a profile has finished, from books and lessons, newest first.
+ * Pictures can be favorited, deleted, saved to the camera roll or bundled into a PDF art book.
+ */
+const ColoringGallery: React.FC<ColoringGalleryProps> = ({ profileId, name }) => {
+  const [artwork, setArtwork] = useState<Artwork[]>([]);
+  const [filter, setFilter] = useState<GalleryFilter>('all');
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const refresh = useCallback(() => {
+    coloringGalleryService.getArtwork(profileId).then(setArtwork);
+  }, [profileId]);
+
+  useEffect(() => {
+    refresh();
+    return coloringGalleryService.subscribe(refresh);
+  }, [refresh]);
+
+  const shown = filter === 'favorites' ? artwork.filter(a => a.favorite) : artwork;
+  const viewing = artwork.find(a => a.id === viewingId) || null;
+
+  const handleExport = async () => {
+    if (shown.length === 0 || isExporting) return;
+    setIsExporting(true);
+    try {
+      const pages: ArtBookPage[] = [];
+      // Oldest first, like a scrapbook
+      for (const item of [...shown].reverse()) {
+        const imageDataUrl = await coloringGalleryService.getImageDataUrl(item.id);
+        if (imageDataUrl) pages.push({ imageDataUrl, caption: item.sourceTitle, date: formatDate(item.updatedAt) });
+      }
+      const owner = name.trim() || 'My';
+      const title = owner === 'My' ? 'My Art Book' : `${owner}'s Art Book`;
+      const pdf = await buildArtBookPdf(title, `${pages.length} picture${pages.length === 1 ? '' : 's'} · ${formatDate(Date.now())}`, pages);
+      downloadBlob(pdf, `${title.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.pdf`);
+      console.log(`📕 Art book exported (${pages.length} pages)`);
+    } catch (error) {
+      console.error('Error exporting art book:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!coloringGalleryService.isSupported()) return null;
+
+  return (
+    <div className="w-full mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-[#eecaa0] font-display font-bold ml-2 text-sm tracking-wide block">MY ART GALLERY</label>
+        <div className="flex gap-1">
+          {(['all', 'favorites'] as GalleryFilter[]).map(f => (
+            <button
+              key={f}
+              onClick={() => setFilter(f)}
+              className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${
+                filter === f ? 'bg-[#eecaa0] text-[#5c2e0b] border-[#eecaa0]' : 'bg-black/20 text-[#eecaa0] border-[#eecaa0]/40'
+              }`}
+            >
+              {f === 'all' ? 'All' : '♥ Favorites'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-[#eecaa0]/60 text-xs text-center py-4 bg-black/20 rounded-xl">
+          {filter === 'favorites' ? 'No favorites yet - tap a picture and add a heart!' : 'Finished coloring pages will show up here.'}
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            {shown.map(item => (
+              <button
+                key={item.id}
+                onClick={() => setViewingId(item.id)}
+                className="relative aspect-[3/4] rounded-xl overflow-hidden border-2 border-[#eecaa0]/60 bg-white active:scale-95 transition-transform"
+              >
+                <img src={item.thumbnail} alt={item.sourceTitle} className="w-full h-full object-cover" />
+                {item.favorite && (
+                  <Heart size={16} className="absolute top-1 right-1 text-pink-500 fill-pink-500 drop-shadow" />
+                )}
+                <div className="absolute bottom-0 inset-x-0 bg-black/60 px-1.5 py-1 text-left">
+                  <p className="text-white text-[10px] font-bold truncate">{item.sourceTitle}</p>
+                  <p className="text-white/70 text-[9px]">{formatDate(item.updatedAt)}</p>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="mt-3 w-full py-3 bg-black/30 hover:bg-black/40 border-2 border-[#eecaa0]/50 rounded-xl text-[#eecaa0] font-display font-bold flex items-center justify-center gap-2 transition-colors disabled:opacity-60"
+          >
+            {isExporting ? <Loader2 size={18} className="animate-spin" /> : <BookOpen size={18} />}
+            {isExporting ? 'Making your art book...' : 'Make an Art Book (PDF)'}
+          </button>
+        </>
+      )}
+
+      {viewing && <ArtworkViewer artwork={viewing} onClose={() => setViewingId(null)} />}
+    </div>
+  );
+};
+
+export default ColoringGallery;
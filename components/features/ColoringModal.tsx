@@ -4,6 +4,7 @@ import { useNavigate } from 'react-router-dom';
 import { X, Sparkles, Home, ShoppingBag, Star, Pin, PinOff, BookOpen, RefreshCw } from 'lucide-react';
 import DrawingCanvas, { DrawingCanvasRef } from './DrawingCanvas';
 import { pinnedColoringService, parseColoringPageId } from '../../services/pinnedColoringService';
+import { coloringGalleryService } from '../../services/coloringGalleryService';
 
 interface ColoringModalProps {
     isOpen: boolean;
@@ -11,6 +12,8 @@ interface ColoringModalProps {
     backgroundImageUrl?: string;
     // Unique identifier for saving progress (e.g., "book-123-page-5")
     pageId?: string;
+    // Shown with the finished picture in the kid's gallery
+    bookTitle?: string;
 }
 
 // Storage key prefix (must match DrawingCanvas)
@@ -182,7 +185,7 @@ const resolveMediaUrl = (url?: string): string => {
     return `https://storage.googleapis.com/productiongk/${url}`;
 };
 
-const ColoringModal: React.FC<ColoringModalProps> = ({ isOpen, onClose, backgroundImageUrl, pageId }) => {
+const ColoringModal: React.FC<ColoringModalProps> = ({ isOpen, onClose, backgroundImageUrl, pageId, bookTitle }) => {
     const navigate = useNavigate();
     const [showReward, setShowReward] = useState(false);
     const [resolvedImageUrl, setResolvedImageUrl] = useState<string>('');
@@ -192,6 +195,8 @@ const ColoringModal: React.FC<ColoringModalProps> = ({ isOpen, onClose, backgrou
     
     // Ref to DrawingCanvas for screenshot capture
     const drawingCanvasRef = useRef<DrawingCanvasRef>(null);
+    // Gallery copy of the finished picture (the fridge falls back to it)
+    const artworkIdRef = useRef<string | null>(null);
 
     // Reset showReward when modal opens so user can color again
     useEffect(() => {
@@ -222,7 +227,7 @@ const ColoringModal: React.FC<ColoringModalProps> = ({ isOpen, onClose, backgrou
     }, [backgroundImageUrl]);
 
     // ALL HOOKS MUST BE ABOVE THIS LINE - useCallback moved here
-    // Pin/Update the coloring to the fridge (always captures fresh screenshot)
+    // Pin/Update the coloring to the fridge (always captures a fresh picture)
     const handlePinOrUpdate = useCallback(async () => {
         if (!pageId || !parsedPage?.bookId || isPinning) return;
         
@@ -230,10 +235,12 @@ const ColoringModal: React.FC<ColoringModalProps> = ({ isOpen, onClose, backgrou
         setPinToast(isPinnedThisPage ? '📸 Updating picture...' : '📸 Taking a picture...');
         
         try {
-            // Use screenshot method to capture the entire canvas with overlay
-            let finalImageUrl: string | null = null;
+            // Render the saved drawing document with its line art (sharp at any size)
+            drawingCanvasRef.current?.flushProgress();
+            let finalImageUrl: string | null = await pinnedColoringService.renderComposite(pageId, resolvedImageUrl || undefined);
             
-            if (drawingCanvasRef.current) {
+            // Otherwise (bitmap-only progress) capture the entire canvas with overlay
+            if (!finalImageUrl && drawingCanvasRef.current) {
                 console.log('📸 Taking screenshot of coloring page...');
                 finalImageUrl = await drawingCanvasRef.current.captureScreenshot();
                 console.log('📸 Screenshot captured:', finalImageUrl ? 'success' : 'failed');
@@ -257,7 +264,7 @@ const ColoringModal: React.FC<ColoringModalProps> = ({ isOpen, onClose, backgrou
             }
             
             // Store the screenshot/composite image (always overwrites)
-            const pinned = pinnedColoringService.pinWithComposite(pageId, finalImageUrl);
+            const pinned = pinnedColoringService.pinWithComposite(pageId, finalImageUrl, resolvedImageUrl || undefined, artworkIdRef.current || undefined);
             console.log('📌 Pin result:', pinned);
             setPinVersion(v => v + 1); // Trigger re-check of pinned state
             setPinToast(pinned ? (isPinnedThisPage ? 'Updated! 🎨' : 'Pinned to book! 🎨') : 'Could not pin (storage full?)');
@@ -285,9 +292,23 @@ const ColoringModal: React.FC<ColoringModalProps> = ({ isOpen, onClose, backgrou
     // Early return AFTER all hooks
     if (!isOpen) return null;
 
-    const handleComplete = () => {
+    const handleComplete = async () => {
         // No coins awarded for coloring - just show completion
         setShowReward(true);
+
+        // Keep the finished picture in the kid's gallery
+        if (!pageId || !drawingCanvasRef.current) return;
+        const imageDataUrl = await drawingCanvasRef.current.exportImage()
+            || await drawingCanvasRef.current.captureScreenshot();
+        if (!imageDataUrl) return;
+        const artwork = await coloringGalleryService.saveArtwork({
+            pageId,
+            source: 'book',
+            sourceId: parsedPage?.bookId || pageId,
+            sourceTitle: bookTitle || 'Coloring Page',
+            imageDataUrl,
+        });
+        artworkIdRef.current = artwork?.id || null;
     };
 
     const handleHome = () => {
@@ -3,6 +3,7 @@ import { MessageCircle, Loader2, Send, Sparkles } from 'lucide-react';
 import { commentService, CommentOption, BookComment, PlaylistComment } from '../../services/commentService';
 import { authService } from '../../services/authService';
 import { useAudio } from '../../context/AudioContext';
+import { useParentalControls } from '../../hooks/useParentalControls';
 
 type ContentType = 'book' | 'playlist' | 'book-series';
 
@@ -122,6 +123,7 @@ const CommentSection: React.FC<CommentSectionProps> = (props) => {
     const textSecondaryClass = isUnderwater ? 'text-white/80' : 'text-[#5c2e0b]';
     const textMutedClass = isUnderwater ? 'text-white/60' : 'text-[#8B4513]/70';
 
+    const { controls: parentalControls } = useParentalControls();
     const [commentOptions, setCommentOptions] = useState<CommentOption[]>([]);
     const [postedComments, setPostedComments] = useState<Comment[]>([]);
     const [loading, setLoading] = useState(true);
@@ -292,6 +294,9 @@ const CommentSection: React.FC<CommentSectionProps> = (props) => {
         return date.toLocaleDateString();
     };
 
+    // Comments can be turned off per kid in Parental Controls
+    if (parentalControls?.disableComments) return null;
+
     if (loading) {
         return (
             <div className={loadingContainerClass}>
@@ -1,8 +1,11 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { ChevronRight, Check, Clock, Flame } from 'lucide-react';
-import { isSessionCompletedToday, getSessionStreak, getSessionHistory, hasSessionToday, getCurrentSession } from '../../services/dailySessionService';
+import { isSessionCompletedToday, hasSessionToday, getCurrentSession } from '../../services/dailySessionService';
+import { streakService, StreakSummary, StreakCalendarDay, STREAK_EVENT } from '../../services/streakService';
 import { useTutorial } from '../../context/TutorialContext';
+import { useUser } from '../../context/UserContext';
+import StreakModal from '../modals/StreakModal';
 
 interface DailyLessonWidgetProps {
   onStartLesson?: (duration: number) => void;
@@ -24,23 +27,26 @@ const getWeekDays = () => {
   return weekDays;
 };
 
-// Check if a specific date has a completed session
-const isDateCompleted = (date: Date, history: any[]): boolean => {
-  const dateKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-  return history.some(session => session.date === dateKey && session.completed);
+// Icons for streak days that weren't done but didn't break the streak
+const COVERED_DAY_ICONS: Partial<Record<StreakCalendarDay['status'], string>> = {
+  rest: '⛪',
+  frozen: '🧊',
+  recovered: '🔥',
 };
 
 const DailyLessonWidget: React.FC<DailyLessonWidgetProps> = ({ onStartLesson }) => {
   const navigate = useNavigate();
   const location = useLocation();
   const { isStepActive, nextStep, onDailySessionStart } = useTutorial();
+  const { currentProfileId } = useUser();
   const [selectedDuration, setSelectedDuration] = useState(10); // Default 10 minutes
   const [isCompleted, setIsCompleted] = useState(false);
   const [hasInProgress, setHasInProgress] = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
   const [totalSteps, setTotalSteps] = useState(4);
-  const [streak, setStreak] = useState(0);
-  const [sessionHistory, setSessionHistory] = useState<any[]>([]);
+  const [streak, setStreak] = useState<StreakSummary | null>(null);
+  const [streakWeek, setStreakWeek] = useState<StreakCalendarDay[]>([]);
+  const [showStreakModal, setShowStreakModal] = useState(false);
   
   const isLessonButtonHighlighted = isStepActive('lesson_button_highlight');
 
@@ -48,8 +54,9 @@ const DailyLessonWidget: React.FC<DailyLessonWidgetProps> = ({ onStartLesson })
   const refreshSessionData = useCallback(() => {
     const completed = isSessionCompletedToday();
     setIsCompleted(completed);
-    setStreak(getSessionStreak());
-    setSessionHistory(getSessionHistory());
+    // One streak across lessons and sessions (family sessions count for every kid who took part)
+    setStreak(streakService.getSummary(currentProfileId));
+    setStreakWeek(streakService.getCalendar(1, currentProfileId));
     
     // Check if there's an in-progress session
     if (!completed && hasSessionToday()) {
@@ -62,13 +69,18 @@ const DailyLessonWidget: React.FC<DailyLessonWidgetProps> = ({ onStartLesson })
     } else {
       setHasInProgress(false);
     }
-  }, []);
+  }, [currentProfileId]);
 
   // Run on mount and whenever location changes (user navigates back)
   useEffect(() => {
     refreshSessionData();
   }, [location.pathname, refreshSessionData]);
 
+  useEffect(() => {
+    window.addEventListener(STREAK_EVENT, refreshSessionData);
+    return () => window.removeEventListener(STREAK_EVENT, refreshSessionData);
+  }, [refreshSessionData]);
+
   const handleStartLesson = () => {
     // Advance tutorial if on lesson button highlight step
     if (isLessonButtonHighlighted) {
@@ -105,18 +117,34 @@ const DailyLessonWidget: React.FC<DailyLessonWidgetProps> = ({ onStartLesson })
   // Weekly Streak Component
   const WeeklyStreak = () => (
     <div className="mt-6 pt-4 border-t border-[#8B4513]/20">
-      <div className="flex items-center justify-center gap-1 mb-3">
+      <button
+        onClick={() => setShowStreakModal(true)}
+        className="flex items-center justify-center gap-1 mb-3 mx-auto"
+      >
         <Flame className="w-4 h-4 text-orange-500" />
         <span className="text-[#8B4513]/70 text-sm font-medium">
-          {streak > 0 ? `${streak} Day Streak` : 'Start Your Streak!'}
+          {streak && streak.current > 0 ? `${streak.current} Day Streak` : 'Start Your Streak!'}
         </span>
-      </div>
+        {streak && streak.freezes > 0 && (
+          <span className="text-xs text-[#0288D1] font-bold ml-1">🧊{streak.freezes}</span>
+        )}
+      </button>
+      {streak?.recovery && (
+        <button
+          onClick={() => setShowStreakModal(true)}
+          className="block mx-auto mb-3 text-xs font-bold text-[#E65100] bg-[#FFF3E0] border border-[#FFB74D] rounded-full px-3 py-1"
+        >
+          Win back your {streak.recovery.lostStreak}-day streak - tap to see how
+        </button>
+      )}
       <div className="flex justify-center gap-2">
         {weekDays.map((date, index) => {
           const isToday = date.getTime() === today.getTime();
           const isPast = date < today;
           const isFuture = date > today;
-          const completed = isToday ? isCompleted : isDateCompleted(date, sessionHistory);
+          const status = streakWeek[index]?.status;
+          const completed = status === 'active' || (isToday && isCompleted);
+          const coveredIcon = !completed && status ? COVERED_DAY_ICONS[status] : undefined;
           
           return (
             <div key={index} className="flex flex-col items-center gap-1">
@@ -136,6 +164,8 @@ const DailyLessonWidget: React.FC<DailyLessonWidgetProps> = ({ onStartLesson })
               >
                 {completed ? (
                   <Check className="w-4 h-4" />
+                ) : coveredIcon ? (
+                  <span className="text-sm">{coveredIcon}</span>
                 ) : (
                   <span className="text-xs font-bold">{date.getDate()}</span>
                 )}
@@ -202,6 +232,7 @@ const DailyLessonWidget: React.FC<DailyLessonWidgetProps> = ({ onStartLesson })
           {/* Weekly Streak */}
           <div className="relative z-10">
             <WeeklyStreak />
+            <StreakModal isOpen={showStreakModal} onClose={() => setShowStreakModal(false)} />
           </div>
         </div>
       </div>
@@ -254,6 +285,7 @@ const DailyLessonWidget: React.FC<DailyLessonWidgetProps> = ({ onStartLesson })
         {/* Weekly Streak */}
         <div className="relative z-10">
           <WeeklyStreak />
+          <StreakModal isOpen={showStreakModal} onClose={() => setShowStreakModal(false)} />
         </div>
       </div>
     </div>
@@ -1,9 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import WoodButton from '../ui/WoodButton';
-import { X, Star, Key } from 'lucide-react';
+import { X, Star, Key, Brain } from 'lucide-react';
 import { useUser } from '../../context/UserContext';
 import { useAudio } from '../../context/AudioContext';
+import { memoryVerseService } from '../../services/memoryVerseService';
+import MemoryVerseTrainerModal from './MemoryVerseTrainerModal';
 
 interface DailyRewardModalProps {
   isOpen: boolean;
@@ -42,6 +44,7 @@ const DailyRewardModal: React.FC<DailyRewardModalProps> = ({ isOpen, onClose })
   const [gameState, setGameState] = useState<GameState>('intro');
   const [shakeItem, setShakeItem] = useState<number | null>(null);
   const [isClaiming, setIsClaiming] = useState(false);
+  const [showTrainer, setShowTrainer] = useState(false);
   
   // Game Logic State
   const [verseIndex, setVerseIndex] = useState(0);
@@ -63,6 +66,7 @@ const DailyRewardModal: React.FC<DailyRewardModalProps> = ({ isOpen, onClose })
       initializeGame();
     } else {
       setGameState('intro'); // Reset on close
+      setShowTrainer(false);
       if (timerRef.current) window.clearInterval(timerRef.current);
     }
     
@@ -126,6 +130,7 @@ const DailyRewardModal: React.FC<DailyRewardModalProps> = ({ isOpen, onClose })
   };
 
   const currentVerse = DAILY_VERSES[verseIndex];
+  const dueVerseCount = memoryVerseService.getDueVerses().length;
 
   // --- GAME FLOW HANDLERS ---
 
@@ -304,6 +309,19 @@ const DailyRewardModal: React.FC<DailyRewardModalProps> = ({ isOpen, onClose })
                       <WoodButton onClick={startCountdown} className="px-10 py-4 text-xl shadow-[0_0_20px_rgba(255,215,0,0.3)]">
                           START (30s)
                       </WoodButton>
+
+                      {/* Spaced-repetition practice of verses already learned */}
+                      <button
+                        onClick={() => { playClick(); setShowTrainer(true); }}
+                        className="mt-4 flex items-center gap-2 text-[#eecaa0] text-sm font-bold hover:text-[#FFD700] transition-colors"
+                      >
+                          <Brain size={16} /> Memory Verses
+                          {dueVerseCount > 0 && (
+                              <span className="bg-[#FFD700] text-[#3E1F07] text-xs px-2 py-0.5 rounded-full">
+                                  {dueVerseCount} due
+                              </span>
+                          )}
+                      </button>
                   </div>
               )}
 
@@ -444,6 +462,8 @@ const DailyRewardModal: React.FC<DailyRewardModalProps> = ({ isOpen, onClose })
           100% { transform: translate(calc(-50% + 200px), -600px) scale(0.5); opacity: 0; }
         }
       `}</style>
+
+      <MemoryVerseTrainerModal isOpen={showTrainer} onClose={() => setShowTrainer(false)} />
     </div>,
     document.body
   );
@@ -1,5 +1,23 @@
 import React, { useRef, useEffect, useState, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { Eraser, RotateCcw, Download, Save, ZoomIn, ZoomOut, Move, X, HelpCircle } from 'lucide-react';
+import { Eraser, RotateCcw, Download, Save, ZoomIn, ZoomOut, Move, X, HelpCircle, Undo2, Redo2, PaintBucket, Sticker, Stamp } from 'lucide-react';
+import { DRAWING_DOCUMENT_PREFIX } from '../../services/pinnedColoringService';
+import {
+    DrawingDocument,
+    DrawingOp,
+    StampShape,
+    STAMP_SHAPES,
+    STICKERS,
+    createDrawingDocument,
+    encodeDrawingDocument,
+    decodeDrawingDocument,
+    renderDrawingDocument,
+    applyDrawingOp,
+    drawStrokeStart,
+    drawStrokeSegment,
+    buildLineArtBarrier,
+    loadImage,
+    renderDrawingComposite,
+} from '../../utils/drawingDocument';
 
 interface DrawingCanvasProps {
     prompt: string;
@@ -16,8 +34,30 @@ interface DrawingCanvasProps {
 // Exposed methods via ref
 export interface DrawingCanvasRef {
     captureScreenshot: () => Promise<string | null>;
+    // Write the drawing document now instead of waiting for the auto-save
+    flushProgress: () => void;
+    // The drawing with its line art as a JPEG data URL, rendered from the document at `width` px
+    exportImage: (width?: number) => Promise<string | null>;
 }
 
+type DrawingTool = 'crayon' | 'eraser' | 'bucket' | 'sticker' | 'stamp';
+
+// How far (per color channel, 0-255) the paint bucket spreads from the tapped color
+const FILL_TOLERANCE = 40;
+
+// Width of pictures exported for the gallery
+const EXPORT_WIDTH = 1200;
+
+// Stickers and stamps are this many times the brush size
+const PLACE_SIZE_FACTOR = 2.5;
+
+const STAMP_ICONS: Record<StampShape, string> = {
+    star: '⭐',
+    heart: '❤️',
+    cross: '✝️',
+    circle: '⚪',
+};
+
 // Crayon colors - arranged like a real crayon box
 const CRAYON_COLORS = [
     { name: 'Red', color: '#E74C3C' },
@@ -112,12 +152,23 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
                 console.error('📸 Screenshot capture failed:', err);
                 return null;
             }
-        }
+        },
+        flushProgress: () => {
+            if (saveTimeoutRef.current) {
+                clearTimeout(saveTimeoutRef.current);
+                saveTimeoutRef.current = null;
+                saveProgressRef.current();
+            }
+        },
+        exportImage: (width?: number) => exportImageRef.current(width)
     }), []);
     const [isDrawing, setIsDrawing] = useState(false);
     const [selectedColor, setSelectedColor] = useState(CRAYON_COLORS[0].color);
     const [brushSize, setBrushSize] = useState(18); // Crayon default size
-    const [isEraser, setIsEraser] = useState(false);
+    const [tool, setTool] = useState<DrawingTool>('crayon');
+    const [selectedSticker, setSelectedSticker] = useState(STICKERS[0]);
+    const [selectedStamp, setSelectedStamp] = useState<StampShape>('star');
+    const isEraser = tool === 'eraser';
     const [isCompleted, setIsCompleted] = useState(false);
     
     // Zoom/Pan state
@@ -163,15 +214,29 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
     // Store last position for smooth drawing
     const lastPosRef = useRef<{ x: number; y: number } | null>(null);
 
+    // The page as a list of strokes/fills/stickers (replayed on undo, resize and load)
+    const docRef = useRef<DrawingDocument>(createDrawingDocument(1, 1, layeredMode ? 'overlay' : 'underlay'));
+    const redoStackRef = useRef<DrawingOp[]>([]);
+    const currentStrokeRef = useRef<number[]>([]);
+    const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+
+    // Images the document is replayed against
+    const underlayImageRef = useRef<HTMLImageElement | null>(null);
+    const lineArtImageRef = useRef<HTMLImageElement | null>(null);
+    const baseImageRef = useRef<HTMLImageElement | null>(null);
+    // Line art pixels that stop the paint bucket, cached per canvas size
+    const barrierRef = useRef<{ key: string; mask: Uint8Array | null } | null>(null);
+
     // Crayon brush settings
     const CRAYON_MIN_SIZE = 10;
     const CRAYON_MAX_SIZE = 35;
     // Higher opacity in layered mode since lines stay on top
     const CRAYON_OPACITY = layeredMode ? 0.7 : 0.3;
     
-    // Storage key for this coloring page
+    // Storage keys for this coloring page (bitmap progress from older versions, and the drawing document)
     const STORAGE_PREFIX = 'godlykids_coloring_';
     const storageKey = saveKey ? `${STORAGE_PREFIX}${saveKey}` : null;
+    const documentKey = saveKey ? `${DRAWING_DOCUMENT_PREFIX}${saveKey}` : null;
 
     // Process image to extract line art (remove white background, keep dark lines)
     // Falls back to original image if CORS blocks pixel access
@@ -254,51 +319,106 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
         });
     }, []);
 
-    // Save canvas progress to localStorage
+    // Canvas size in CSS pixels (the units strokes are drawn in)
+    const getCanvasSize = useCallback(() => {
+        const canvas = canvasRef.current;
+        const dpr = window.devicePixelRatio || 1;
+        return canvas ? { width: canvas.width / dpr, height: canvas.height / dpr } : { width: 0, height: 0 };
+    }, []);
+
+    // Line art as a fill barrier at the canvas's real pixel size (layered mode only -
+    // otherwise the picture is in the canvas itself and stops fills by color)
+    const getBarrier = useCallback((): Uint8Array | null => {
+        const canvas = canvasRef.current;
+        const lineArt = lineArtImageRef.current;
+        if (!canvas || !lineArt || !layeredMode) return null;
+        const key = `${canvas.width}x${canvas.height}`;
+        if (barrierRef.current?.key !== key) {
+            barrierRef.current = { key, mask: buildLineArtBarrier(lineArt, canvas.width, canvas.height) };
+        }
+        return barrierRef.current.mask;
+    }, [layeredMode]);
+
+    const updateHistoryState = useCallback(() => {
+        setHistoryState({
+            canUndo: docRef.current.ops.length > 0,
+            canRedo: redoStackRef.current.length > 0,
+        });
+    }, []);
+
+    // Replay the whole document onto the canvas
+    const redraw = useCallback(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+        const { width, height } = getCanvasSize();
+        const doc = docRef.current;
+        renderDrawingDocument(ctx, doc, width, height, {
+            underlay: underlayImageRef.current,
+            base: baseImageRef.current,
+            barrier: doc.ops.some(op => op.type === 'fill') ? getBarrier() : null,
+        });
+    }, [getCanvasSize, getBarrier]);
+
+    // Latest redraw for the resize listener (registered once)
+    const redrawRef = useRef(redraw);
+    redrawRef.current = redraw;
+
+    // Save the drawing document to localStorage
     const saveProgress = useCallback(() => {
-        if (!storageKey || !canvasRef.current) return;
+        if (!documentKey || !canvasRef.current) return;
         
         try {
-            const canvas = canvasRef.current;
-            const dataUrl = canvas.toDataURL('image/png');
-            localStorage.setItem(storageKey, dataUrl);
+            const { width, height } = getCanvasSize();
+            const doc = docRef.current;
+            doc.width = Math.round(width) || doc.width;
+            doc.height = Math.round(height) || doc.height;
+            localStorage.setItem(documentKey, encodeDrawingDocument(doc));
             setLastSaved(new Date());
             setHasSavedProgress(true);
-            console.log('🎨 Coloring progress saved:', storageKey);
+            console.log('🎨 Coloring progress saved:', documentKey, `(${doc.ops.length} steps)`);
         } catch (e) {
             console.error('🎨 Error saving coloring progress:', e);
         }
-    }, [storageKey]);
+    }, [documentKey, getCanvasSize]);
 
-    // Load saved canvas progress from localStorage
-    const loadProgress = useCallback(() => {
-        if (!storageKey || !canvasRef.current) return false;
-        
-        const savedData = localStorage.getItem(storageKey);
-        if (!savedData) return false;
+    // Load saved progress - a drawing document, or bitmap progress saved by older versions
+    const loadProgress = useCallback(async () => {
+        if (!documentKey || !storageKey || !canvasRef.current) return false;
         
-        const canvas = canvasRef.current;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return false;
-        
-        const img = new Image();
-        img.onload = () => {
-            const dpr = window.devicePixelRatio || 1;
-            const canvasWidth = canvas.width / dpr;
-            const canvasHeight = canvas.height / dpr;
-            
-            // Draw saved progress
-            ctx.drawImage(img, 0, 0, canvasWidth, canvasHeight);
-            setHasSavedProgress(true);
-            console.log('🎨 Coloring progress loaded:', storageKey);
-        };
-        img.src = savedData;
+        const savedDoc = localStorage.getItem(documentKey);
+        const doc = savedDoc ? decodeDrawingDocument(savedDoc) : null;
+        const legacyBitmap = doc ? null : localStorage.getItem(storageKey);
+        if (!doc && !legacyBitmap) return false;
+
+        const { width, height } = getCanvasSize();
+        const loaded = doc || { ...createDrawingDocument(width, height, layeredMode ? 'overlay' : 'underlay'), base: legacyBitmap || undefined };
+        baseImageRef.current = loaded.base ? await loadImage(loaded.base, false) : null;
+        docRef.current = loaded;
+        redoStackRef.current = [];
+        updateHistoryState();
+        redraw();
+        setHasSavedProgress(true);
+        console.log('🎨 Coloring progress loaded:', doc ? documentKey : `${storageKey} (bitmap)`);
         return true;
-    }, [storageKey]);
+    }, [documentKey, storageKey, getCanvasSize, layeredMode, updateHistoryState, redraw]);
+
+    const saveProgressRef = useRef(saveProgress);
+    saveProgressRef.current = saveProgress;
+
+    const exportImage = useCallback(async (width?: number): Promise<string | null> => {
+        const size = getCanvasSize();
+        if (!size.width || !size.height) return null;
+        const doc = { ...docRef.current, width: Math.round(size.width), height: Math.round(size.height) };
+        return renderDrawingComposite(doc, backgroundImageUrl, width || EXPORT_WIDTH);
+    }, [getCanvasSize, backgroundImageUrl]);
+
+    const exportImageRef = useRef(exportImage);
+    exportImageRef.current = exportImage;
 
     // Auto-save after drawing stops (debounced)
     const scheduleAutoSave = useCallback(() => {
-        if (!storageKey) return;
+        if (!documentKey) return;
         
         // Clear any pending save
         if (saveTimeoutRef.current) {
@@ -309,7 +429,7 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
         saveTimeoutRef.current = setTimeout(() => {
             saveProgress();
         }, 1000);
-    }, [storageKey, saveProgress]);
+    }, [documentKey, saveProgress]);
 
     // Cleanup auto-save timeout on unmount
     useEffect(() => {
@@ -346,6 +466,9 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
             // Fill with white background
             ctx.fillStyle = '#FFFFFF';
             ctx.fillRect(0, 0, rect.width, rect.height);
+
+            // Resizing wipes the canvas - replay the drawing at the new size
+            redrawRef.current();
         };
 
         resizeCanvas();
@@ -363,12 +486,6 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
             return;
         }
 
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
         console.log('🎨 DrawingCanvas: Loading background image:', backgroundImageUrl, 'Layered mode:', layeredMode);
 
         if (layeredMode) {
@@ -395,25 +512,10 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
             
             img.onload = () => {
                 console.log('🎨 DrawingCanvas: Image loaded successfully!', { width: img.width, height: img.height });
-                const dpr = window.devicePixelRatio || 1;
-                const canvasWidth = canvas.width / dpr;
-                const canvasHeight = canvas.height / dpr;
-
-                // Clear canvas and redraw white background
-                ctx.fillStyle = '#FFFFFF';
-                ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-
-                // Calculate scale to fit entire image within canvas (contain mode)
-                const scale = Math.min(canvasWidth / img.width, canvasHeight / img.height);
-                const scaledWidth = img.width * scale;
-                const scaledHeight = img.height * scale;
-                
-                // Center both horizontally and vertically
-                const x = (canvasWidth - scaledWidth) / 2;
-                const y = (canvasHeight - scaledHeight) / 2;
-
+                // The picture is painted into the page (contain mode) whenever the document is replayed
+                underlayImageRef.current = img;
                 try {
-                    ctx.drawImage(img, x, y, scaledWidth, scaledHeight);
+                    redraw();
                     setImageLoaded(true);
                 } catch (e) {
                     console.error('🎨 DrawingCanvas: Error drawing image to canvas (likely CORS):', e);
@@ -426,7 +528,19 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
 
             img.src = backgroundImageUrl;
         }
-    }, [canvasReady, backgroundImageUrl, layeredMode, processImageForLayeredMode]);
+    }, [canvasReady, backgroundImageUrl, layeredMode, processImageForLayeredMode, redraw]);
+
+    // Keep the processed line art as an image so the paint bucket can stop at its lines
+    useEffect(() => {
+        lineArtImageRef.current = null;
+        barrierRef.current = null;
+        if (!processedLineArt) return;
+        let cancelled = false;
+        loadImage(processedLineArt, !processedLineArt.startsWith('data:')).then((img) => {
+            if (!cancelled) lineArtImageRef.current = img;
+        });
+        return () => { cancelled = true; };
+    }, [processedLineArt]);
 
     // Load saved progress after canvas and image are ready
     useEffect(() => {
@@ -445,54 +559,6 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
         return () => clearTimeout(loadTimeout);
     }, [canvasReady, storageKey, layeredMode, processedLineArt, imageLoaded, backgroundImageUrl, loadProgress]);
 
-    // Apply crayon stroke style
-    const applyCrayonStyle = useCallback((ctx: CanvasRenderingContext2D) => {
-        ctx.globalAlpha = CRAYON_OPACITY;
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-    }, [CRAYON_OPACITY]);
-
-    // Draw with crayon texture effect - 30% transparent so lines clearly show through
-    const drawWithCrayonTexture = useCallback((
-        ctx: CanvasRenderingContext2D,
-        fromX: number,
-        fromY: number,
-        toX: number,
-        toY: number,
-        size: number,
-        color: string
-    ) => {
-        // Convert color to rgba with 50% opacity
-        const getRGBA = (hexOrName: string) => {
-            // Create temp element to resolve color
-            const temp = document.createElement('div');
-            temp.style.color = hexOrName;
-            document.body.appendChild(temp);
-            const computed = getComputedStyle(temp).color;
-            document.body.removeChild(temp);
-            // Extract rgb values
-            const match = computed.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
-            if (match) {
-                return `rgba(${match[1]}, ${match[2]}, ${match[3]}, ${CRAYON_OPACITY})`;
-            }
-            return `rgba(0, 0, 0, ${CRAYON_OPACITY})`;
-        };
-        
-        const transparentColor = getRGBA(color);
-        
-        // Simpler crayon effect - single stroke with transparency
-        ctx.globalAlpha = 1; // We bake alpha into the color instead
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-        ctx.lineWidth = size;
-        ctx.strokeStyle = transparentColor;
-        
-        ctx.beginPath();
-        ctx.moveTo(fromX, fromY);
-        ctx.lineTo(toX, toY);
-        ctx.stroke();
-    }, [CRAYON_OPACITY]);
-
     const getCoordinates = useCallback((e: any) => {
         const canvas = canvasRef.current;
         const container = containerRef.current;
@@ -534,6 +600,39 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
         };
     }, [scale, panOffset]);
 
+    // Add a finished step to the document (a new step clears the redo stack)
+    const commitOp = useCallback((op: DrawingOp) => {
+        docRef.current.ops.push(op);
+        redoStackRef.current = [];
+        updateHistoryState();
+        scheduleAutoSave();
+    }, [updateHistoryState, scheduleAutoSave]);
+
+    // Bucket, sticker and stamp act on a single tap
+    const placeAt = useCallback((x: number, y: number) => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        const { width, height } = getCanvasSize();
+        if (!width || !height) return;
+        const nx = x / width;
+        const ny = y / height;
+        const size = (brushSize * PLACE_SIZE_FACTOR) / width;
+
+        let op: DrawingOp;
+        if (tool === 'bucket') {
+            op = { type: 'fill', color: selectedColor, alpha: CRAYON_OPACITY, x: nx, y: ny, tolerance: FILL_TOLERANCE };
+        } else if (tool === 'sticker') {
+            op = { type: 'sticker', emoji: selectedSticker, x: nx, y: ny, size };
+        } else {
+            op = { type: 'stamp', shape: selectedStamp, color: selectedColor, x: nx, y: ny, size };
+        }
+
+        applyDrawingOp(ctx, op, width, height, op.type === 'fill' ? getBarrier() : null);
+        commitOp(op);
+    }, [getCanvasSize, brushSize, tool, selectedColor, CRAYON_OPACITY, selectedSticker, selectedStamp, getBarrier, commitOp]);
+
     const startDrawing = useCallback((e: any) => {
         if (e.cancelable) e.preventDefault();
         e.stopPropagation();
@@ -544,30 +643,21 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
         if (!ctx) return;
 
         const { x, y } = getCoordinates(e);
+
+        if (tool === 'bucket' || tool === 'sticker' || tool === 'stamp') {
+            placeAt(x, y);
+            return;
+        }
+
+        const { width, height } = getCanvasSize();
         lastPosRef.current = { x, y };
+        currentStrokeRef.current = [x / width, y / height];
 
         setIsDrawing(true);
 
-        if (isEraser) {
-            ctx.globalCompositeOperation = 'destination-out';
-            ctx.globalAlpha = 1;
-            ctx.lineCap = 'round';
-            ctx.lineJoin = 'round';
-        } else {
-            ctx.globalCompositeOperation = 'source-over';
-            applyCrayonStyle(ctx);
-            ctx.strokeStyle = selectedColor;
-        }
-        ctx.lineWidth = brushSize;
-
         // Draw a dot at start position for crayon texture
-        if (!isEraser) {
-            ctx.beginPath();
-            ctx.arc(x, y, brushSize / 2, 0, Math.PI * 2);
-            ctx.fillStyle = selectedColor;
-            ctx.fill();
-        }
-    }, [getCoordinates, isEraser, selectedColor, brushSize, applyCrayonStyle]);
+        drawStrokeStart(ctx, x, y, brushSize, selectedColor, CRAYON_OPACITY, isEraser);
+    }, [getCoordinates, tool, placeAt, getCanvasSize, isEraser, selectedColor, brushSize, CRAYON_OPACITY]);
 
     const draw = useCallback((e: any) => {
         if (e.cancelable) e.preventDefault();
@@ -585,35 +675,60 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
 
         const lastPos = lastPosRef.current || { x, y };
 
-        if (isEraser) {
-            ctx.beginPath();
-            ctx.moveTo(lastPos.x, lastPos.y);
-            ctx.lineTo(x, y);
-            ctx.stroke();
-        } else {
-            drawWithCrayonTexture(ctx, lastPos.x, lastPos.y, x, y, brushSize, selectedColor);
-        }
+        drawStrokeSegment(ctx, lastPos.x, lastPos.y, x, y, brushSize, selectedColor, CRAYON_OPACITY, isEraser);
 
+        const { width, height } = getCanvasSize();
+        currentStrokeRef.current.push(x / width, y / height);
         lastPosRef.current = { x, y };
-    }, [getCoordinates, isDrawing, isEraser, brushSize, selectedColor, drawWithCrayonTexture]);
+    }, [getCoordinates, isDrawing, isEraser, brushSize, selectedColor, CRAYON_OPACITY, getCanvasSize]);
 
     const stopDrawing = useCallback(() => {
         if (isDrawing) {
-            const canvas = canvasRef.current;
-            if (canvas) {
-                const ctx = canvas.getContext('2d');
-                if (ctx) {
-                    ctx.globalCompositeOperation = 'source-over';
-                    ctx.globalAlpha = 1;
-                }
-            }
             setIsDrawing(false);
             lastPosRef.current = null;
-            
-            // Schedule auto-save after drawing stops
-            scheduleAutoSave();
+
+            // Keep the finished stroke (this also schedules the auto-save)
+            const points = currentStrokeRef.current;
+            currentStrokeRef.current = [];
+            const { width } = getCanvasSize();
+            if (points.length >= 2 && width) {
+                commitOp({
+                    type: 'stroke',
+                    color: selectedColor,
+                    width: brushSize / width,
+                    alpha: CRAYON_OPACITY,
+                    erase: isEraser,
+                    points,
+                });
+            }
+        }
+    }, [isDrawing, getCanvasSize, commitOp, selectedColor, brushSize, CRAYON_OPACITY, isEraser]);
+
+    // Step back / forward through the drawing history
+    const undo = useCallback(() => {
+        const op = docRef.current.ops.pop();
+        if (!op) return;
+        redoStackRef.current.push(op);
+        redraw();
+        updateHistoryState();
+        scheduleAutoSave();
+    }, [redraw, updateHistoryState, scheduleAutoSave]);
+
+    const redo = useCallback(() => {
+        const op = redoStackRef.current.pop();
+        if (!op) return;
+        docRef.current.ops.push(op);
+        if (op.type === 'clear') {
+            redraw();
+        } else {
+            const canvas = canvasRef.current;
+            const ctx = canvas?.getContext('2d');
+            const { width, height } = getCanvasSize();
+            if (ctx) applyDrawingOp(ctx, op, width, height, op.type === 'fill' ? getBarrier() : null);
         }
-    }, [isDrawing, scheduleAutoSave]);
+        updateHistoryState();
+        scheduleAutoSave();
+    }, [redraw, getCanvasSize, getBarrier, updateHistoryState, scheduleAutoSave]);
 
     const handleMouseLeave = useCallback(() => {
         stopDrawing();
@@ -743,21 +858,11 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
     }, [zoomMode]);
 
 
+    // Start over - recorded as a step so it can be undone
     const clearCanvas = () => {
-        const canvas = canvasRef.current;
-        if (!canvas) return;
+        if (docRef.current.ops.length === 0 && !docRef.current.base) return;
 
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
-        const dpr = window.devicePixelRatio || 1;
-        const canvasWidth = canvas.width / dpr;
-        const canvasHeight = canvas.height / dpr;
-
-        ctx.fillStyle = '#FFFFFF';
-        ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-        
-        // Clear saved progress
+        // Bitmap progress from older versions is replaced by the (now empty) document
         if (storageKey) {
             localStorage.removeItem(storageKey);
             setHasSavedProgress(false);
@@ -765,22 +870,10 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
             console.log('🎨 Coloring progress cleared:', storageKey);
         }
 
-        // In layered mode, don't redraw background (lines are in overlay)
-        // In non-layered mode, redraw background image if provided
-        if (!layeredMode && backgroundImageUrl) {
-            const img = new Image();
-            img.src = backgroundImageUrl;
-            img.onload = () => {
-                // Use contain mode scaling (fit entire image)
-                const scale = Math.min(canvasWidth / img.width, canvasHeight / img.height);
-                const scaledWidth = img.width * scale;
-                const scaledHeight = img.height * scale;
-                const x = (canvasWidth - scaledWidth) / 2;
-                const y = (canvasHeight - scaledHeight) / 2;
-
-                ctx.drawImage(img, x, y, scaledWidth, scaledHeight);
-            };
-        }
+        // In layered mode the page goes back to white (lines are in overlay);
+        // in non-layered mode redraw replays the background image
+        commitOp({ type: 'clear' });
+        redraw();
     };
 
     const downloadDrawing = () => {
@@ -817,6 +910,26 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
                     </div>
                 )}
 
+                {/* Undo / Redo */}
+                <div className="absolute top-2 right-2 z-30 flex items-center gap-1">
+                    <button
+                        onClick={undo}
+                        disabled={!historyState.canUndo}
+                        className="bg-black/60 text-white rounded-full p-2 hover:bg-black/75 disabled:opacity-30 transition-all active:scale-95"
+                        title="Undo"
+                    >
+                        <Undo2 size={16} />
+                    </button>
+                    <button
+                        onClick={redo}
+                        disabled={!historyState.canRedo}
+                        className="bg-black/60 text-white rounded-full p-2 hover:bg-black/75 disabled:opacity-30 transition-all active:scale-95"
+                        title="Redo"
+                    >
+                        <Redo2 size={16} />
+                    </button>
+                </div>
+
                 {/* Zoomable/Pannable Container */}
                 <div
                     ref={zoomContainerRef}
@@ -830,7 +943,7 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
                     {/* Bottom Layer: Drawing Canvas (user colors here) */}
                     <canvas
                         ref={canvasRef}
-                        className={`absolute inset-0 w-full h-full touch-none ${zoomMode ? 'cursor-move' : 'cursor-crosshair'}`}
+                        className={`absolute inset-0 w-full h-full touch-none ${zoomMode ? 'cursor-move' : tool === 'crayon' || tool === 'eraser' ? 'cursor-crosshair' : 'cursor-pointer'}`}
                         onMouseDown={zoomMode ? undefined : startDrawing}
                         onMouseMove={zoomMode ? undefined : draw}
                         onMouseUp={zoomMode ? undefined : stopDrawing}
@@ -902,16 +1015,49 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
                         <CrayonIcon
                             key={crayon.color}
                             color={crayon.color}
-                            isSelected={selectedColor === crayon.color && !isEraser}
+                            isSelected={selectedColor === crayon.color && tool !== 'eraser' && tool !== 'sticker'}
                             onClick={() => {
                                 setSelectedColor(crayon.color);
-                                setIsEraser(false);
+                                // The bucket and stamps use the crayon color too
+                                setTool(current => (current === 'bucket' || current === 'stamp' ? current : 'crayon'));
                             }}
                         />
                     ))}
                 </div>
             </div>
 
+            {/* Sticker / Stamp picker */}
+            {(tool === 'sticker' || tool === 'stamp') && (
+                <div className="mb-2 flex items-center justify-center gap-1.5 flex-wrap bg-black/20 rounded-xl p-2">
+                    {tool === 'sticker'
+                        ? STICKERS.map((emoji) => (
+                            <button
+                                key={emoji}
+                                onClick={() => setSelectedSticker(emoji)}
+                                className={`w-10 h-10 rounded-lg text-2xl flex items-center justify-center transition-all ${selectedSticker === emoji
+                                    ? 'bg-[#FFD700] shadow-lg scale-110'
+                                    : 'bg-white/15 hover:bg-white/25'
+                                    }`}
+                            >
+                                {emoji}
+                            </button>
+                        ))
+                        : STAMP_SHAPES.map((shape) => (
+                            <button
+                                key={shape}
+                                onClick={() => setSelectedStamp(shape)}
+                                className={`w-10 h-10 rounded-lg text-xl flex items-center justify-center transition-all ${selectedStamp === shape
+                                    ? 'bg-[#FFD700] shadow-lg scale-110'
+                                    : 'bg-white/15 hover:bg-white/25'
+                                    }`}
+                                title={shape}
+                            >
+                                {STAMP_ICONS[shape]}
+                            </button>
+                        ))}
+                </div>
+            )}
+
             {/* Tools Row */}
             <div className="flex items-center justify-between gap-2 flex-wrap">
                 {/* Brush Size */}
@@ -961,7 +1107,7 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
 
                     {/* Eraser */}
                     <button
-                        onClick={() => setIsEraser(!isEraser)}
+                        onClick={() => setTool(isEraser ? 'crayon' : 'eraser')}
                         className={`p-2 rounded-lg transition-all ${isEraser
                             ? 'bg-[#FFD700] text-black shadow-lg'
                             : 'bg-white/15 text-white hover:bg-white/25'
@@ -971,6 +1117,42 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
                         <Eraser className="w-5 h-5" />
                     </button>
 
+                    {/* Paint Bucket */}
+                    <button
+                        onClick={() => setTool(tool === 'bucket' ? 'crayon' : 'bucket')}
+                        className={`p-2 rounded-lg transition-all ${tool === 'bucket'
+                            ? 'bg-[#FFD700] text-black shadow-lg'
+                            : 'bg-white/15 text-white hover:bg-white/25'
+                            }`}
+                        title="Paint Bucket"
+                    >
+                        <PaintBucket className="w-5 h-5" />
+                    </button>
+
+                    {/* Stickers */}
+                    <button
+                        onClick={() => setTool(tool === 'sticker' ? 'crayon' : 'sticker')}
+                        className={`p-2 rounded-lg transition-all ${tool === 'sticker'
+                            ? 'bg-[#FFD700] text-black shadow-lg'
+                            : 'bg-white/15 text-white hover:bg-white/25'
+                            }`}
+                        title="Stickers"
+                    >
+                        <Sticker className="w-5 h-5" />
+                    </button>
+
+                    {/* Stamps */}
+                    <button
+                        onClick={() => setTool(tool === 'stamp' ? 'crayon' : 'stamp')}
+                        className={`p-2 rounded-lg transition-all ${tool === 'stamp'
+                            ? 'bg-[#FFD700] text-black shadow-lg'
+                            : 'bg-white/15 text-white hover:bg-white/25'
+                            }`}
+                        title="Stamps"
+                    >
+                        <Stamp className="w-5 h-5" />
+                    </button>
+
                     {/* Clear */}
                     <button
                         onClick={clearCanvas}
@@ -1075,6 +1257,37 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
                                 </div>
                             </div>
                             
+                            {/* Paint Bucket */}
+                            <div className="bg-white/10 rounded-xl p-3 flex items-start gap-3">
+                                <div className="bg-white/20 p-2 rounded-lg">
+                                    <PaintBucket className="w-6 h-6 text-white" />
+                                </div>
+                                <div>
+                                    <h3 className="text-[#FFD700] font-bold text-sm">Paint Bucket</h3>
+                                    <p className="text-white/80 text-xs">Tap inside a shape to fill it with your crayon color. It stops at the lines!</p>
+                                </div>
+                            </div>
+                            
+                            {/* Stickers & Stamps */}
+                            <div className="bg-white/10 rounded-xl p-3 flex items-start gap-3">
+                                <div className="text-3xl">🐑</div>
+                                <div>
+                                    <h3 className="text-[#FFD700] font-bold text-sm">Stickers & Stamps</h3>
+                                    <p className="text-white/80 text-xs">Pick a sticker or stamp, then tap the page to place it. Stamps use your crayon color.</p>
+                                </div>
+                            </div>
+                            
+                            {/* Undo / Redo */}
+                            <div className="bg-white/10 rounded-xl p-3 flex items-start gap-3">
+                                <div className="bg-white/20 p-2 rounded-lg">
+                                    <Undo2 className="w-6 h-6 text-white" />
+                                </div>
+                                <div>
+                                    <h3 className="text-[#FFD700] font-bold text-sm">Undo & Redo</h3>
+                                    <p className="text-white/80 text-xs">Oops? Tap the arrows at the top of the page to take back a step, or bring it back.</p>
+                                </div>
+                            </div>
+                            
                             {/* Start Over */}
                             <div className="bg-white/10 rounded-xl p-3 flex items-start gap-3">
                                 <div className="bg-white/20 p-2 rounded-lg">
@@ -1082,7 +1295,7 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ prompt
                                 </div>
                                 <div>
                                     <h3 className="text-[#FFD700] font-bold text-sm">Start Over</h3>
-                                    <p className="text-white/80 text-xs">Clear everything and begin fresh with a blank page.</p>
+                                    <p className="text-white/80 text-xs">Clear everything and begin fresh with a blank page. Changed your mind? Undo brings it back.</p>
                                 </div>
                             </div>
                             
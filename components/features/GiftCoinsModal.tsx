@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { X, Gift, Coins, User, Minus, Plus, Send } from 'lucide-react';
 import { useUser } from '../../context/UserContext';
+import ParentGateModal from './ParentGateModal';
+import { useParentGate } from '../../hooks/useParentGate';
 
 interface GiftCoinsModalProps {
   isOpen: boolean;
@@ -14,6 +16,7 @@ const GiftCoinsModal: React.FC<GiftCoinsModalProps> = ({ isOpen, onClose, presel
   const [amount, setAmount] = useState<number>(50);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [isGifting, setIsGifting] = useState(false);
+  const { requireParentGate, gateProps } = useParentGate();
 
   if (!isOpen) return null;
 
@@ -26,18 +29,20 @@ const GiftCoinsModal: React.FC<GiftCoinsModalProps> = ({ isOpen, onClose, presel
       return;
     }
     
-    setIsGifting(true);
-    const result = giftCoinsToKid(selectedKidId, amount);
-    setMessage({ type: result.success ? 'success' : 'error', text: result.message });
-    
-    if (result.success) {
-      setTimeout(() => {
-        onClose();
-        setMessage(null);
-        setAmount(50);
-      }, 1500);
-    }
-    setIsGifting(false);
+    requireParentGate('giftCoins', () => {
+      setIsGifting(true);
+      const result = giftCoinsToKid(selectedKidId, amount);
+      setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+      
+      if (result.success) {
+        setTimeout(() => {
+          onClose();
+          setMessage(null);
+          setAmount(50);
+        }, 1500);
+      }
+      setIsGifting(false);
+    });
   };
 
   const adjustAmount = (delta: number) => {
@@ -178,6 +183,9 @@ const GiftCoinsModal: React.FC<GiftCoinsModalProps> = ({ isOpen, onClose, presel
             </>
           )}
         </div>
+
+        {/* Inside the card so clicks in the gate don't reach the backdrop */}
+        <ParentGateModal {...gateProps} />
       </div>
     </div>
   );
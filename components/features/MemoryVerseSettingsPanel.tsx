@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { Brain, Plus, Trash2 } from 'lucide-react';
+import { useUser } from '../../context/UserContext';
+import {
+  memoryVerseService,
+  getMasteryLevel,
+  MASTERY_LABELS,
+  MemoryVerse,
+  MEMORY_VERSES_EVENT,
+} from '../../services/memoryVerseService';
+
+const SOURCE_LABELS: Record<MemoryVerse['source'], string> = {
+  daily: 'Daily verse',
+  lesson: 'Lesson',
+  parent: 'Added by you',
+};
+
+/**
+ * Memory Verse Settings
+ * Parents add their own verses to a kid's memory verse deck and see how well
+ * each one is remembered. Verses from lessons and the daily verse are added automatically.
+ */
+const MemoryVerseSettingsPanel: React.FC = () => {
+  const { kids } = useUser();
+  const [selectedKidId, setSelectedKidId] = useState<string | null>(kids[0]?.id || null);
+  const [verses, setVerses] = useState<MemoryVerse[]>([]);
+  const [ref, setRef] = useState('');
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!selectedKidId && kids.length > 0) setSelectedKidId(kids[0].id);
+  }, [kids, selectedKidId]);
+
+  useEffect(() => {
+    const refresh = () => setVerses(selectedKidId ? memoryVerseService.getVerses(selectedKidId) : []);
+    refresh();
+    window.addEventListener(MEMORY_VERSES_EVENT, refresh);
+    return () => window.removeEventListener(MEMORY_VERSES_EVENT, refresh);
+  }, [selectedKidId]);
+
+  const handleAdd = () => {
+    if (!selectedKidId) return;
+    if (!ref.trim() || !text.trim()) {
+      setError('Enter both the reference and the verse');
+      return;
+    }
+    if (memoryVerseService.hasVerse(ref, selectedKidId)) {
+      setError('That verse is already in the deck');
+      return;
+    }
+    memoryVerseService.addVerse({ ref, text, source: 'parent' }, selectedKidId);
+    setRef('');
+    setText('');
+    setError(null);
+  };
+
+  if (kids.length === 0) {
+    return (
+      <p className="text-[#5c2e0b] text-sm opacity-70">
+        Add a kid profile to set up memory verses.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 text-[#5c2e0b]">
+        <div className="w-8 h-8 rounded-full bg-[#ffe0b2] flex items-center justify-center text-[#f57c00] shrink-0">
+          <Brain size={18} />
+        </div>
+        <div>
+          <span className="font-bold block">Memory verses</span>
+          <span className="text-xs text-[#8B4513]/70 block">Reviewed on a schedule until they stick</span>
+        </div>
+      </div>
+
+      {/* Kid selector */}
+      <div className="flex gap-2 overflow-x-auto no-scrollbar">
+        {kids.map(kid => (
+          <button
+            key={kid.id}
+            onClick={() => setSelectedKidId(kid.id)}
+            className={`px-4 py-2 rounded-full font-bold text-sm whitespace-nowrap border-2 transition-colors ${
+              selectedKidId === kid.id
+                ? 'bg-[#8B4513] text-[#f3e5ab] border-[#5c2e0b]'
+                : 'bg-white/60 text-[#5c2e0b] border-[#eecaa0] hover:bg-white/80'
+            }`}
+          >
+            {kid.name}
+          </button>
+        ))}
+      </div>
+
+      {/* Add a verse */}
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={ref}
+          onChange={(e) => setRef(e.target.value)}
+          placeholder="Reference, e.g. Psalm 119:105"
+          className="w-full bg-white/80 border border-[#eecaa0] rounded-lg px-3 py-2 text-[#5c2e0b] text-sm font-bold placeholder:font-normal placeholder:text-[#8B4513]/50"
+        />
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Your word is a lamp to my feet and a light to my path"
+          rows={2}
+          className="w-full bg-white/80 border border-[#eecaa0] rounded-lg px-3 py-2 text-[#5c2e0b] text-sm placeholder:text-[#8B4513]/50"
+        />
+        {error && <p className="text-xs font-bold text-red-700">{error}</p>}
+        <button
+          onClick={handleAdd}
+          className="w-full flex items-center justify-center gap-2 bg-[#8B4513] hover:bg-[#A0522D] text-[#f3e5ab] font-bold py-2 px-4 rounded-xl border-2 border-[#5c2e0b] shadow-md transition-all active:scale-95"
+        >
+          <Plus size={16} />
+          <span>Add verse</span>
+        </button>
+      </div>
+
+      {/* Deck */}
+      {verses.length === 0 ? (
+        <p className="text-[#5c2e0b] text-sm opacity-70">No memory verses yet.</p>
+      ) : (
+        <div className="space-y-1">
+          {verses.map(verse => (
+            <div key={verse.id} className="flex items-center gap-2 text-xs text-[#5c2e0b] bg-white/40 rounded-lg px-3 py-2">
+              <div className="flex-1 min-w-0">
+                <span className="font-bold block truncate">{verse.ref}</span>
+                <span className="opacity-60 block truncate">{SOURCE_LABELS[verse.source]} · {MASTERY_LABELS[getMasteryLevel(verse)]}</span>
+              </div>
+              <button
+                onClick={() => selectedKidId && memoryVerseService.removeVerse(verse.id, selectedKidId)}
+                className="p-1.5 rounded-full text-[#8B4513]/70 hover:bg-red-100 hover:text-red-600 transition-colors"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MemoryVerseSettingsPanel;
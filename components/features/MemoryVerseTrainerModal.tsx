@@ -0,0 +1,584 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import WoodButton from '../ui/WoodButton';
+import { X, ArrowLeft, Puzzle, Pencil, Type, Mic, MicOff, Brain } from 'lucide-react';
+import { useUser } from '../../context/UserContext';
+import { useAudio } from '../../context/AudioContext';
+import { useMicrophoneLevel, SPEAKING_THRESHOLD } from '../../hooks/useMicrophoneLevel';
+import { DAILY_VERSES } from '../modals/DailyVerseModal';
+import {
+  memoryVerseService,
+  gradeDrill,
+  getMasteryLevel,
+  getSuggestedMode,
+  DRILL_MODES,
+  DrillMode,
+  MASTERY_LABELS,
+  MASTERY_LEVELS,
+  MasteryLevel,
+  MemoryVerse,
+  MEMORY_VERSES_EVENT,
+} from '../../services/memoryVerseService';
+
+interface MemoryVerseTrainerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type TrainerView = 'deck' | 'drill' | 'result';
+
+interface DrillProps {
+  verse: MemoryVerse;
+  onFinish: (mistakes: number, gaveUp: boolean) => void;
+}
+
+const DRILL_LABELS: Record<DrillMode, { label: string; icon: React.ReactNode }> = {
+  order: { label: 'Order', icon: <Puzzle size={16} /> },
+  fillBlank: { label: 'Blanks', icon: <Pencil size={16} /> },
+  firstLetters: { label: 'Letters', icon: <Type size={16} /> },
+  recite: { label: 'Say it', icon: <Mic size={16} /> },
+};
+
+const MASTERY_COLORS: Record<MasteryLevel, string> = {
+  new: 'bg-white/20 text-white',
+  learning: 'bg-orange-400 text-[#3E1F07]',
+  familiar: 'bg-sky-400 text-[#3E1F07]',
+  mastered: 'bg-[#FFD700] text-[#3E1F07]',
+};
+
+// Verses new decks start with, so there's something to practice on day one
+const STARTER_VERSE_COUNT = 3;
+
+// Coins for each review the kid passes
+const REVIEW_REWARD = 5;
+
+// Roughly how long (ms of detected speech) each word takes to say aloud
+const SPEECH_MS_PER_WORD = 250;
+
+const splitWords = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+// Compare words without punctuation or case
+const normalizeWord = (word: string): string => word.toLowerCase().replace(/[^a-z0-9']/g, '');
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  // Fisher-Yates Shuffle
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const formatNextReview = (dueAt: number): string => {
+  const days = Math.round((dueAt - Date.now()) / (24 * 60 * 60 * 1000));
+  if (days <= 0) return 'Due now';
+  if (days === 1) return 'Tomorrow';
+  return `In ${days} days`;
+};
+
+// --- DRILL: PUT THE WORDS IN ORDER ---
+const OrderDrill: React.FC<DrillProps> = ({ verse, onFinish }) => {
+  const { playTab, playBack } = useAudio();
+  const [words] = useState(() => splitWords(verse.text));
+  const [shuffledIndices] = useState(() => shuffle(words.map((_, i) => i)));
+  const [placedIndices, setPlacedIndices] = useState<Set<number>>(new Set());
+  const [mistakes, setMistakes] = useState(0);
+  const [shakeItem, setShakeItem] = useState<number | null>(null);
+
+  const nextIndex = placedIndices.size;
+
+  const handleWordClick = (index: number) => {
+    // Repeated words are interchangeable, so compare the text rather than the position
+    if (normalizeWord(words[index]) === normalizeWord(words[nextIndex])) {
+      playTab();
+      setPlacedIndices(prev => new Set(prev).add(index));
+      if (nextIndex + 1 >= words.length) onFinish(mistakes, false);
+    } else {
+      playBack();
+      setMistakes(prev => prev + 1);
+      setShakeItem(index);
+      setTimeout(() => setShakeItem(null), 500);
+    }
+  };
+
+  return (
+    <div className="flex flex-col w-full flex-1">
+      <div className="flex flex-wrap gap-2 justify-center mb-6 min-h-[60px]">
+        {words.map((word, i) => (
+          <div
+            key={`slot-${i}`}
+            className={`h-9 px-3 rounded-lg border-2 flex items-center justify-center font-bold text-sm font-sans transition-all duration-300 ${
+              i < nextIndex
+                ? 'bg-[#FFD700] border-[#B8860B] text-[#3E1F07] shadow-md'
+                : 'bg-black/20 border-white/10 border-dashed text-transparent scale-95'
+            }`}
+          >
+            {word}
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-3 justify-center mt-auto content-start min-h-[100px]">
+        {shuffledIndices.map(index => placedIndices.has(index) ? null : (
+          <button
+            key={`word-${index}`}
+            onClick={() => handleWordClick(index)}
+            className={`bg-[#f3e5ab] border-b-4 border-[#d4a373] text-[#5c2e0b] font-bold font-sans px-4 py-2 rounded-xl shadow-lg active:border-b-0 active:translate-y-1 transition-all ${
+              shakeItem === index ? 'animate-[shake_0.4s_ease-in-out] bg-red-100 border-red-300' : ''
+            }`}
+          >
+            {words[index]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// --- DRILL: FILL THE BLANKS ---
+const FillBlankDrill: React.FC<DrillProps> = ({ verse, onFinish }) => {
+  const { playTab, playBack } = useAudio();
+  const [words] = useState(() => splitWords(verse.text));
+
+  // About a third of the longer words are blanked, spread through the verse
+  const [blanks] = useState(() => {
+    const candidates = words.map((w, i) => i).filter(i => normalizeWord(words[i]).length >= 4);
+    const pool = candidates.length > 0 ? candidates : words.map((_, i) => i);
+    const count = Math.max(1, Math.round(words.length / 3));
+    const step = pool.length / Math.min(count, pool.length);
+    return Array.from({ length: Math.min(count, pool.length) }, (_, n) => pool[Math.floor(n * step)]);
+  });
+  const [blankIndex, setBlankIndex] = useState(0);
+  const [mistakes, setMistakes] = useState(0);
+  const [shakeOption, setShakeOption] = useState<string | null>(null);
+
+  const currentWordIndex = blanks[blankIndex];
+  const options = useMemo(() => {
+    if (currentWordIndex === undefined) return [];
+    const answer = words[currentWordIndex];
+    const distractors = shuffle(
+      Array.from(new Set(words.filter(w => normalizeWord(w) !== normalizeWord(answer) && normalizeWord(w).length >= 3)))
+    ).slice(0, 2);
+    return shuffle([answer, ...distractors]);
+  }, [currentWordIndex, words]);
+
+  const handleOption = (option: string) => {
+    if (normalizeWord(option) === normalizeWord(words[currentWordIndex])) {
+      playTab();
+      const next = blankIndex + 1;
+      setBlankIndex(next);
+      if (next >= blanks.length) onFinish(mistakes, false);
+    } else {
+      playBack();
+      setMistakes(prev => prev + 1);
+      setShakeOption(option);
+      setTimeout(() => setShakeOption(null), 500);
+    }
+  };
+
+  return (
+    <div className="flex flex-col w-full flex-1">
+      <p className="text-white font-sans text-lg leading-loose mb-6">
+        {words.map((word, i) => {
+          const blankNumber = blanks.indexOf(i);
+          if (blankNumber === -1 || blankNumber < blankIndex) {
+            return <span key={i} className={blankNumber === -1 ? '' : 'text-[#FFD700] font-bold'}>{word} </span>;
+          }
+          return (
+            <span
+              key={i}
+              className={`inline-block min-w-[3.5rem] mx-0.5 border-b-4 align-baseline ${blankNumber === blankIndex ? 'border-[#FFD700] animate-pulse' : 'border-white/30'}`}
+            >
+              &nbsp;
+            </span>
+          );
+        })}
+      </p>
+      <div className="flex flex-wrap gap-3 justify-center mt-auto">
+        {options.map(option => (
+          <button
+            key={option}
+            onClick={() => handleOption(option)}
+            className={`bg-[#f3e5ab] border-b-4 border-[#d4a373] text-[#5c2e0b] font-bold font-sans px-4 py-2 rounded-xl shadow-lg active:border-b-0 active:translate-y-1 transition-all ${
+              shakeOption === option ? 'animate-[shake_0.4s_ease-in-out] bg-red-100 border-red-300' : ''
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      <button onClick={() => onFinish(mistakes, true)} className="mt-4 text-[#eecaa0]/70 text-sm font-bold hover:underline">
+        Show me the verse
+      </button>
+    </div>
+  );
+};
+
+// --- DRILL: FIRST-LETTER HINTS ---
+const FirstLetterDrill: React.FC<DrillProps> = ({ verse, onFinish }) => {
+  const { playTab } = useAudio();
+  const [words] = useState(() => splitWords(verse.text));
+  const [peeked, setPeeked] = useState<Set<number>>(new Set());
+
+  const peek = (index: number) => {
+    if (peeked.has(index)) return;
+    playTab();
+    setPeeked(prev => new Set(prev).add(index));
+  };
+
+  return (
+    <div className="flex flex-col w-full flex-1">
+      <p className="text-white/70 text-sm mb-4">Say the verse out loud using the first letters. Tap a letter if you need a peek.</p>
+      <div className="flex flex-wrap gap-2 justify-center mb-6">
+        {words.map((word, i) => (
+          <button
+            key={i}
+            onClick={() => peek(i)}
+            className={`h-10 min-w-[2.5rem] px-3 rounded-lg border-2 font-bold font-sans transition-all ${
+              peeked.has(i) ? 'bg-[#f3e5ab] border-[#d4a373] text-[#5c2e0b]' : 'bg-black/20 border-[#FFD700]/50 text-[#FFD700]'
+            }`}
+          >
+            {peeked.has(i) ? word : word.charAt(0)}
+          </button>
+        ))}
+      </div>
+      <div className="mt-auto space-y-2">
+        <WoodButton variant="gold" fullWidth onClick={() => onFinish(peeked.size, false)} className="py-3">
+          I SAID IT!
+        </WoodButton>
+        <button onClick={() => onFinish(peeked.size, true)} className="w-full text-[#eecaa0]/70 text-sm font-bold hover:underline">
+          I don't remember it yet
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// --- DRILL: RECITE ALOUD ---
+const ReciteDrill: React.FC<DrillProps> = ({ verse, onFinish }) => {
+  const { playSuccess } = useAudio();
+  const { micPermission, start, stop, readLevel } = useMicrophoneLevel();
+  const [words] = useState(() => splitWords(verse.text));
+  const [progress, setProgress] = useState(0);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [revealed, setRevealed] = useState(false);
+
+  const spokenMsRef = useRef(0);
+  const lastFrameRef = useRef<number | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
+  const targetMs = words.length * SPEECH_MS_PER_WORD;
+
+  useEffect(() => () => {
+    if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+  }, []);
+
+  // Fill the bar while the kid is speaking
+  const listen = (time: number) => {
+    const elapsed = lastFrameRef.current === null ? 0 : time - lastFrameRef.current;
+    lastFrameRef.current = time;
+
+    const level = readLevel();
+    const speaking = level !== null && level > SPEAKING_THRESHOLD;
+    setIsSpeaking(speaking);
+    if (speaking) spokenMsRef.current += elapsed;
+
+    const percent = Math.min(100, (spokenMsRef.current / targetMs) * 100);
+    setProgress(percent);
+    if (percent >= 100) {
+      playSuccess();
+      finishReciting();
+      return;
+    }
+    animationFrameRef.current = requestAnimationFrame(listen);
+  };
+
+  const startReciting = async () => {
+    if (await start()) {
+      lastFrameRef.current = null;
+      animationFrameRef.current = requestAnimationFrame(listen);
+    }
+  };
+
+  const finishReciting = () => {
+    if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+    stop();
+    setIsSpeaking(false);
+    setRevealed(true);
+  };
+
+  if (revealed) {
+    return (
+      <div className="flex flex-col w-full flex-1">
+        <p className="text-white font-sans text-lg leading-relaxed mb-6">"{verse.text}"</p>
+        <p className="text-[#eecaa0] font-bold mb-3">How did you do?</p>
+        <div className="mt-auto space-y-2">
+          <WoodButton variant="gold" fullWidth onClick={() => onFinish(0, false)} className="py-3">
+            SAID IT ALL! 🌟
+          </WoodButton>
+          <WoodButton fullWidth onClick={() => onFinish(2, false)} className="py-3">
+            A FEW SLIPS
+          </WoodButton>
+          <button onClick={() => onFinish(0, true)} className="w-full text-[#eecaa0]/70 text-sm font-bold hover:underline">
+            I need more practice
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center w-full flex-1">
+      <p className="text-white/70 text-sm mb-6">Say the whole verse out loud from memory!</p>
+      <div className={`w-24 h-24 rounded-full flex items-center justify-center mb-6 border-4 transition-all ${
+        isSpeaking ? 'bg-[#FFD700] border-[#B8860B] scale-110' : 'bg-black/30 border-[#eecaa0]/40'
+      }`}>
+        {micPermission === false ? <MicOff size={40} className="text-[#eecaa0]" /> : <Mic size={40} className={isSpeaking ? 'text-[#3E1F07]' : 'text-[#eecaa0]'} />}
+      </div>
+      <div className="w-full h-4 bg-black/30 rounded-full overflow-hidden mb-6 border border-white/10">
+        <div className="h-full bg-gradient-to-r from-[#FFD700] to-[#FFA000] transition-all" style={{ width: `${progress}%` }} />
+      </div>
+      {micPermission === false && (
+        <p className="text-[#eecaa0] text-xs mb-4">No microphone - say it anyway, then tap done.</p>
+      )}
+      <div className="mt-auto w-full space-y-2">
+        {micPermission !== true && micPermission !== false ? (
+          <WoodButton variant="gold" fullWidth onClick={startReciting} className="py-3">
+            START SPEAKING
+          </WoodButton>
+        ) : (
+          <WoodButton fullWidth onClick={finishReciting} className="py-3">
+            I'M DONE
+          </WoodButton>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Memory Verse Trainer
+ * Reviews the verses that are due today with one of four drills - harder drills
+ * are suggested as a verse sticks. Each review reschedules the verse (SM-2).
+ */
+const MemoryVerseTrainerModal: React.FC<MemoryVerseTrainerModalProps> = ({ isOpen, onClose }) => {
+  const { addCoins, currentProfileId } = useUser();
+  const { playClick, playSuccess, playBack } = useAudio();
+
+  const [view, setView] = useState<TrainerView>('deck');
+  const [deck, setDeck] = useState<MemoryVerse[]>([]);
+  const [queue, setQueue] = useState<MemoryVerse[]>([]);
+  const [queueIndex, setQueueIndex] = useState(0);
+  const [mode, setMode] = useState<DrillMode>('order');
+  const [lastReview, setLastReview] = useState<{ verse: MemoryVerse; passed: boolean } | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    // Seed an empty deck with a few of the daily verses
+    if (memoryVerseService.getVerses().length === 0) {
+      DAILY_VERSES.slice(0, STARTER_VERSE_COUNT).forEach(v => {
+        memoryVerseService.addVerse({ text: v.text, ref: v.ref, source: 'daily' });
+      });
+    }
+
+    const refresh = () => setDeck(memoryVerseService.getVerses());
+    refresh();
+    setView('deck');
+    window.addEventListener(MEMORY_VERSES_EVENT, refresh);
+    return () => window.removeEventListener(MEMORY_VERSES_EVENT, refresh);
+  }, [isOpen, currentProfileId]);
+
+  const startSession = (verses: MemoryVerse[]) => {
+    if (verses.length === 0) return;
+    playClick();
+    setQueue(verses);
+    setQueueIndex(0);
+    setMode(getSuggestedMode(verses[0]));
+    setView('drill');
+  };
+
+  const handleFinish = (mistakes: number, gaveUp: boolean) => {
+    const verse = queue[queueIndex];
+    const quality = gradeDrill(mode, mistakes, gaveUp);
+    const updated = memoryVerseService.review(verse.id, quality);
+    const passed = quality >= 3;
+
+    if (passed) {
+      playSuccess();
+      addCoins(REVIEW_REWARD, `Memory Verse - ${verse.ref}`, 'daily');
+    } else {
+      playBack();
+    }
+    setLastReview({ verse: updated || verse, passed });
+    setView('result');
+  };
+
+  const handleNext = () => {
+    playClick();
+    const next = queueIndex + 1;
+    if (next >= queue.length) {
+      setView('deck');
+      return;
+    }
+    setQueueIndex(next);
+    setMode(getSuggestedMode(queue[next]));
+    setView('drill');
+  };
+
+  if (!isOpen) return null;
+
+  const dueVerses = deck.filter(v => v.dueAt <= Date.now());
+  const currentVerse = queue[queueIndex];
+
+  return createPortal(
+    <div className="fixed inset-0 z-[110] flex items-center justify-center px-4 pointer-events-auto">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm animate-in fade-in duration-300" onClick={onClose}></div>
+
+      {/* Main Card */}
+      <div className="relative w-full max-w-sm bg-[#3E1F07] rounded-3xl p-1 border-4 border-[#8B4513] shadow-2xl overflow-hidden animate-in zoom-in-95 slide-in-from-bottom-10">
+        {/* Wood Texture Background */}
+        <div className="absolute inset-0 rounded-[20px] bg-[#8B4513] overflow-hidden">
+          <div className="absolute inset-0 opacity-20"
+               style={{ backgroundImage: 'repeating-linear-gradient(45deg, #3E1F07 0px, #3E1F07 20px, #5c2e0b 20px, #5c2e0b 40px)' }}>
+          </div>
+        </div>
+
+        {/* Header Buttons */}
+        {view !== 'deck' && (
+          <button
+            onClick={() => { playClick(); setView('deck'); }}
+            className="absolute top-4 left-4 z-20 bg-black/20 hover:bg-black/40 text-[#eecaa0] rounded-full p-1 transition-colors"
+          >
+            <ArrowLeft size={24} />
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 z-20 bg-black/20 hover:bg-black/40 text-[#eecaa0] rounded-full p-1 transition-colors"
+        >
+          <X size={24} />
+        </button>
+
+        <div className="relative z-10 flex flex-col items-center pt-8 pb-6 px-6 text-center min-h-[460px] max-h-[85vh]">
+          <h2 className="font-display font-extrabold text-2xl text-[#FFD700] drop-shadow-md tracking-wide mb-4 uppercase">
+            Memory Verses
+          </h2>
+
+          {/* --- DECK --- */}
+          {view === 'deck' && (
+            <div className="flex flex-col w-full flex-1 min-h-0 animate-in fade-in">
+              <div className="grid grid-cols-4 gap-1 mb-4">
+                {MASTERY_LEVELS.map(level => (
+                  <div key={level} className="bg-black/20 rounded-xl py-2 border border-[#eecaa0]/20">
+                    <p className="text-white font-bold text-lg leading-none">{deck.filter(v => getMasteryLevel(v) === level).length}</p>
+                    <p className="text-[#eecaa0] text-[10px] font-bold uppercase mt-1">{MASTERY_LABELS[level]}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex-1 overflow-y-auto space-y-2 mb-4 text-left">
+                {deck.map(verse => {
+                  const level = getMasteryLevel(verse);
+                  return (
+                    <button
+                      key={verse.id}
+                      onClick={() => startSession([verse])}
+                      className="w-full bg-black/20 hover:bg-black/30 rounded-xl px-3 py-2 border border-[#eecaa0]/20 transition-colors"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-white font-bold text-sm truncate">{verse.ref}</span>
+                        <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full shrink-0 ${MASTERY_COLORS[level]}`}>
+                          {MASTERY_LABELS[level]}
+                        </span>
+                      </div>
+                      <p className="text-white/60 text-xs truncate">{verse.text}</p>
+                      <p className="text-[#eecaa0]/70 text-[10px] font-bold mt-0.5">{formatNextReview(verse.dueAt)}</p>
+                    </button>
+                  );
+                })}
+              </div>
+
+              {dueVerses.length > 0 ? (
+                <WoodButton variant="gold" fullWidth onClick={() => startSession(dueVerses)} className="py-4 text-lg shadow-[0_0_20px_rgba(255,215,0,0.3)]">
+                  PRACTICE {dueVerses.length} VERSE{dueVerses.length === 1 ? '' : 'S'}
+                </WoodButton>
+              ) : (
+                <div className="bg-black/20 rounded-xl p-3 border border-[#eecaa0]/20">
+                  <p className="text-[#eecaa0] font-bold flex items-center justify-center gap-2"><Brain size={18} /> All caught up!</p>
+                  <p className="text-white/60 text-xs mt-1">Come back tomorrow, or tap a verse to practice it now.</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* --- DRILL --- */}
+          {view === 'drill' && currentVerse && (
+            <div className="flex flex-col w-full flex-1 animate-in fade-in">
+              <div className="flex justify-between items-center w-full mb-4">
+                <div className="bg-black/30 px-3 py-1 rounded-full border border-white/10 text-white text-sm font-bold font-sans">
+                  {currentVerse.ref}
+                </div>
+                <div className="text-[#eecaa0] text-xs font-bold">{queueIndex + 1} / {queue.length}</div>
+              </div>
+
+              {/* Drill modes */}
+              <div className="grid grid-cols-4 gap-1 mb-5">
+                {DRILL_MODES.map(drillMode => (
+                  <button
+                    key={drillMode}
+                    onClick={() => { playClick(); setMode(drillMode); }}
+                    className={`flex flex-col items-center gap-0.5 py-1.5 rounded-lg text-[10px] font-bold uppercase border transition-colors ${
+                      mode === drillMode
+                        ? 'bg-[#FFD700] text-[#3E1F07] border-[#B8860B]'
+                        : 'bg-black/20 text-[#eecaa0] border-transparent hover:bg-black/30'
+                    }`}
+                  >
+                    {DRILL_LABELS[drillMode].icon}
+                    {DRILL_LABELS[drillMode].label}
+                  </button>
+                ))}
+              </div>
+
+              {mode === 'order' && <OrderDrill key={`${currentVerse.id}-order`} verse={currentVerse} onFinish={handleFinish} />}
+              {mode === 'fillBlank' && <FillBlankDrill key={`${currentVerse.id}-fillBlank`} verse={currentVerse} onFinish={handleFinish} />}
+              {mode === 'firstLetters' && <FirstLetterDrill key={`${currentVerse.id}-firstLetters`} verse={currentVerse} onFinish={handleFinish} />}
+              {mode === 'recite' && <ReciteDrill key={`${currentVerse.id}-recite`} verse={currentVerse} onFinish={handleFinish} />}
+            </div>
+          )}
+
+          {/* --- RESULT --- */}
+          {view === 'result' && lastReview && (
+            <div className="flex flex-col items-center justify-center flex-1 w-full animate-in zoom-in">
+              <div className="text-6xl mb-4">{lastReview.passed ? '🧠' : '💪'}</div>
+              <h3 className="font-display font-bold text-2xl text-white mb-2">
+                {lastReview.passed ? 'Well remembered!' : 'Keep practicing!'}
+              </h3>
+              <p className="text-white/80 font-sans text-sm italic mb-4">"{lastReview.verse.text}"</p>
+              <p className="text-[#eecaa0] text-sm font-bold mb-1">
+                {MASTERY_LABELS[getMasteryLevel(lastReview.verse)]} · Next review: {formatNextReview(lastReview.verse.dueAt).toLowerCase()}
+              </p>
+              {lastReview.passed && <p className="text-[#FFD700] text-sm font-bold mb-4">+{REVIEW_REWARD} coins</p>}
+              <div className="w-full mt-4">
+                <WoodButton variant="gold" fullWidth onClick={handleNext} className="py-3 text-lg">
+                  {queueIndex + 1 < queue.length ? 'NEXT VERSE' : 'DONE'}
+                </WoodButton>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <style>{`
+        @keyframes shake {
+          0%, 100% { transform: translateX(0); }
+          25% { transform: translateX(-5px); }
+          75% { transform: translateX(5px); }
+        }
+      `}</style>
+    </div>,
+    document.body
+  );
+};
+
+export default MemoryVerseTrainerModal;
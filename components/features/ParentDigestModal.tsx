@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Mail, Share2, Loader2, TrendingUp, TrendingDown, Minus, BookOpen, Music, Gamepad2, Calendar, Star } from 'lucide-react';
+import { useUser } from '../../context/UserContext';
+import { authService } from '../../services/authService';
+import {
+  parentDigestService,
+  getTrend,
+  DigestFavorite,
+  DigestProfile,
+  KidDigest,
+  WeeklyDigest,
+  WeeklyStats,
+} from '../../services/parentDigestService';
+
+interface ParentDigestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const STAT_ROWS: Array<{ key: keyof WeeklyStats; label: string }> = [
+  { key: 'timeSpentMinutes', label: 'Minutes' },
+  { key: 'booksRead', label: 'Books' },
+  { key: 'pagesRead', label: 'Pages' },
+  { key: 'songsListened', label: 'Songs' },
+  { key: 'gamesPlayed', label: 'Games' },
+  { key: 'lessonsCompleted', label: 'Lessons' },
+  { key: 'coinsEarned', label: 'Coins' },
+];
+
+const FAVORITE_ICONS: Record<DigestFavorite['type'], React.ReactNode> = {
+  book: <BookOpen size={14} />,
+  song: <Music size={14} />,
+  game: <Gamepad2 size={14} />,
+  lesson: <Calendar size={14} />,
+};
+
+const formatWeek = (digest: WeeklyDigest): string => {
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' };
+  const lastDay = new Date(digest.weekEnd - 1);
+  return `${new Date(digest.weekStart).toLocaleDateString([], options)} - ${lastDay.toLocaleDateString([], options)}`;
+};
+
+const TrendBadge: React.FC<{ current: number; previous: number }> = ({ current, previous }) => {
+  const trend = getTrend(current, previous);
+  if (trend === null) return <span className="text-[10px] font-bold text-green-700">new</span>;
+  if (trend === 0) return <Minus size={12} className="text-gray-400" />;
+  return (
+    <span className={`flex items-center gap-0.5 text-[10px] font-bold ${trend > 0 ? 'text-green-700' : 'text-red-600'}`}>
+      {trend > 0 ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+      {Math.abs(trend)}%
+    </span>
+  );
+};
+
+const KidDigestCard: React.FC<{ kid: KidDigest }> = ({ kid }) => (
+  <div className="bg-white/70 rounded-2xl p-4 border-2 border-[#eecaa0]">
+    <h3 className="font-display font-extrabold text-lg text-[#5c2e0b] mb-3">{kid.name}</h3>
+
+    {/* Stats with week-over-week trends */}
+    <div className="grid grid-cols-4 gap-2 mb-3">
+      {STAT_ROWS.map(({ key, label }) => (
+        <div key={key} className="bg-[#fdf6e3] rounded-xl p-2 text-center border border-[#eecaa0]">
+          <p className="font-display font-extrabold text-[#5c2e0b] text-lg leading-tight">{kid.stats[key]}</p>
+          <p className="text-[10px] font-bold text-[#8B4513]/70 uppercase">{label}</p>
+          <div className="flex justify-center mt-0.5">
+            <TrendBadge current={kid.stats[key]} previous={kid.previousStats[key]} />
+          </div>
+        </div>
+      ))}
+      {/* Quiz accuracy */}
+      <div className="bg-[#fdf6e3] rounded-xl p-2 text-center border border-[#eecaa0]">
+        <p className="font-display font-extrabold text-[#5c2e0b] text-lg leading-tight">
+          {kid.quiz.accuracy === null ? '-' : `${kid.quiz.accuracy}%`}
+        </p>
+        <p className="text-[10px] font-bold text-[#8B4513]/70 uppercase">Quiz</p>
+        <p className="text-[10px] text-[#8B4513]/60">
+          {kid.quiz.quizzesTaken} taken
+        </p>
+      </div>
+    </div>
+
+    {/* Favorites */}
+    {kid.favorites.length > 0 ? (
+      <div>
+        <p className="text-xs font-bold text-[#8B4513] uppercase mb-1 flex items-center gap-1">
+          <Star size={12} fill="currentColor" /> Favorites this week
+        </p>
+        <div className="space-y-1">
+          {kid.favorites.map(favorite => (
+            <div key={`${favorite.type}-${favorite.title}`} className="flex items-center gap-2 text-sm text-[#5c2e0b]">
+              <span className="text-[#8B4513]">{FAVORITE_ICONS[favorite.type]}</span>
+              <span className="font-semibold truncate flex-1">{favorite.title}</span>
+              <span className="text-xs opacity-60">×{favorite.count}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    ) : (
+      <p className="text-xs text-[#8B4513]/60 font-semibold">No activity recorded this week.</p>
+    )}
+  </div>
+);
+
+/**
+ * Parent Digest
+ * Weekly per-kid summary (this week so far, or a saved past week) that can be
+ * shared as an image, plus the opt-in for getting it by email every week.
+ */
+const ParentDigestModal: React.FC<ParentDigestModalProps> = ({ isOpen, onClose }) => {
+  const { kids, currentProfileId, coinTransactions, parentName } = useUser();
+  const [digests, setDigests] = useState<WeeklyDigest[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [settings, setSettings] = useState(parentDigestService.getSettings());
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const profiles: DigestProfile[] = kids.map(kid => ({
+      id: kid.id,
+      name: kid.name,
+      // The active profile's coin history is live in context; others are saved on the kid
+      coinTransactions: kid.id === currentProfileId ? coinTransactions : kid.coinTransactions,
+    }));
+    setDigests([parentDigestService.buildCurrentWeek(profiles), ...parentDigestService.getDigests()]);
+    setSelectedIndex(0);
+    setSettings(parentDigestService.getSettings());
+    setStatus(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const digest = digests[selectedIndex];
+
+  const handleShareImage = async () => {
+    if (!cardRef.current || !digest) return;
+    setIsBusy(true);
+    try {
+      const html2canvas = (await import('html2canvas')).default;
+      const canvas = await html2canvas(cardRef.current, { backgroundColor: '#fdf6e3', scale: 2, logging: false });
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error('Could not create image');
+
+      const fileName = `godlykids-digest-${new Date(digest.weekStart).toISOString().slice(0, 10)}.png`;
+      const file = new File([blob], fileName, { type: 'image/png' });
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: 'Godly Kids Weekly Digest' });
+      } else {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+      }
+    } catch (error) {
+      // Share sheet dismissed or capture failed
+      console.error('📸 Digest image share failed:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleEmailToggle = async () => {
+    const enable = !settings.emailOptIn;
+    if (!authService.isAuthenticated()) {
+      setStatus({ type: 'error', text: 'Sign in to get the digest by email' });
+      return;
+    }
+    setIsBusy(true);
+    const saved = await parentDigestService.setEmailOptIn(enable, parentName);
+    setIsBusy(false);
+    if (saved) {
+      setSettings(parentDigestService.getSettings());
+      setStatus({ type: 'success', text: enable ? 'You\'ll get a digest each week!' : 'Weekly emails turned off' });
+    } else {
+      setStatus({ type: 'error', text: 'Couldn\'t save - check your connection' });
+    }
+  };
+
+  const handleSendNow = async () => {
+    if (!digest) return;
+    setIsBusy(true);
+    const sent = await parentDigestService.emailDigest(digest);
+    setIsBusy(false);
+    setStatus(sent ? { type: 'success', text: `Sent to ${settings.email}` } : { type: 'error', text: 'Couldn\'t send - try again later' });
+  };
+
+  const modalContent = (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose}></div>
+
+      <div className="relative w-full max-w-md max-h-[90vh] bg-[#fdf6e3] rounded-3xl border-4 border-[#8B4513] shadow-2xl overflow-hidden flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 z-10 text-[#8B4513]/50 hover:text-[#8B4513] transition-colors"
+        >
+          <X size={24} />
+        </button>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-4">
+          {/* Week selector */}
+          {digests.length > 1 && (
+            <div className="flex gap-2 overflow-x-auto no-scrollbar pr-8">
+              {digests.map((d, index) => (
+                <button
+                  key={d.weekStart}
+                  onClick={() => setSelectedIndex(index)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-bold whitespace-nowrap border-2 transition-colors ${
+                    selectedIndex === index
+                      ? 'bg-[#8B4513] text-[#f3e5ab] border-[#5c2e0b]'
+                      : 'bg-white/60 text-[#5c2e0b] border-[#eecaa0]'
+                  }`}
+                >
+                  {index === 0 ? 'This week' : formatWeek(d)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Shareable digest */}
+          {digest && (
+            <div ref={cardRef} className="bg-[#fdf6e3] space-y-3 p-1">
+              <div className="text-center">
+                <h2 className="font-display font-extrabold text-2xl text-[#5c2e0b]">Weekly Digest</h2>
+                <p className="text-sm font-bold text-[#8B4513]/70">
+                  {formatWeek(digest)}{selectedIndex === 0 ? ' (so far)' : ''}
+                </p>
+              </div>
+              {digest.kids.length === 0 ? (
+                <p className="text-center text-sm text-[#5c2e0b] opacity-70 py-6">Add a kid profile to see their weekly progress.</p>
+              ) : (
+                digest.kids.map(kid => <KidDigestCard key={kid.profileId} kid={kid} />)
+              )}
+              <p className="text-center text-[10px] text-[#8B4513]/50 font-bold">Godly Kids</p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <button
+            onClick={handleShareImage}
+            disabled={isBusy || !digest}
+            className="w-full flex items-center justify-center gap-2 bg-[#8B4513] hover:bg-[#A0522D] text-[#f3e5ab] font-bold py-3 rounded-xl border-2 border-[#5c2e0b] shadow-md transition-all active:scale-95 disabled:opacity-50"
+          >
+            {isBusy ? <Loader2 size={18} className="animate-spin" /> : <Share2 size={18} />}
+            <span>SHARE AS IMAGE</span>
+          </button>
+
+          {/* Email opt-in */}
+          <div className="bg-[#fff8e1] rounded-2xl p-4 border-2 border-[#eecaa0] space-y-3">
+            <div className="flex items-center gap-2 text-[#5c2e0b] font-bold">
+              <Mail size={18} />
+              <span>Email me every week</span>
+            </div>
+            <p className="text-[#8B4513] text-sm font-semibold break-all">
+              {settings.email || 'Sign in to get the digest by email'}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={handleEmailToggle}
+                disabled={isBusy}
+                className={`flex-1 font-bold text-sm py-2 rounded-lg border-2 transition-colors disabled:opacity-50 ${
+                  settings.emailOptIn
+                    ? 'bg-white text-[#5c2e0b] border-[#eecaa0]'
+                    : 'bg-[#8bc34a] text-white border-[#689f38]'
+                }`}
+              >
+                {settings.emailOptIn ? 'Turn off' : 'Turn on'}
+              </button>
+              {settings.emailOptIn && digest && (
+                <button
+                  onClick={handleSendNow}
+                  disabled={isBusy}
+                  className="flex-1 bg-[#8B4513] text-[#f3e5ab] font-bold text-sm py-2 rounded-lg border-2 border-[#5c2e0b] disabled:opacity-50"
+                >
+                  Send this one now
+                </button>
+              )}
+            </div>
+            {status && (
+              <p className={`text-xs font-bold ${status.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>{status.text}</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(modalContent, document.body);
+};
+
+export default ParentDigestModal;
@@ -1,107 +1,220 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { X, Lock } from 'lucide-react';
+import { X, Lock, Hourglass, Hand } from 'lucide-react';
 import WoodButton from '../ui/WoodButton';
+import { parentGateService, formatLockoutCountdown, GateChallenge, GatePurpose } from '../../services/parentGateService';
 
 interface ParentGateModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  purpose?: GatePurpose; // What the gate protects - recorded in the parent's gate log
 }
 
-const ParentGateModal: React.FC<ParentGateModalProps> = ({ isOpen, onClose, onSuccess }) => {
+const ParentGateModal: React.FC<ParentGateModalProps> = ({ isOpen, onClose, onSuccess, purpose }) => {
+  const gatePurpose: GatePurpose = purpose || 'general';
   const [answer, setAnswer] = useState('');
-  const [problem, setProblem] = useState({ q: '', a: 0 });
+  const [challenge, setChallenge] = useState<GateChallenge | null>(null);
   const [error, setError] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [lockedMs, setLockedMs] = useState(0);
+  const [holdProgress, setHoldProgress] = useState(0);
+  const holdStartRef = useRef<number | null>(null);
+  const holdTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const stopHold = () => {
+    if (holdTimerRef.current) clearInterval(holdTimerRef.current);
+    holdTimerRef.current = null;
+    holdStartRef.current = null;
+    setHoldProgress(0);
+  };
 
   useEffect(() => {
     if (isOpen) {
-      // Generate numbers (e.g., 11 + 6, 15 + 4) - simple enough for adults, requires reading for kids
-      const n1 = Math.floor(Math.random() * 10) + 10; 
-      const n2 = Math.floor(Math.random() * 9) + 1;
-      setProblem({ q: `${n1} + ${n2} = ?`, a: n1 + n2 });
+      setChallenge(parentGateService.createChallenge());
+      setLockedMs(parentGateService.getLockoutRemainingMs());
       setAnswer('');
       setError(false);
     }
+    return stopHold;
   }, [isOpen]);
 
-  const handleSubmit = (e?: React.FormEvent) => {
-    e?.preventDefault();
-    const val = parseInt(answer);
-    if (!isNaN(val) && val === problem.a) {
+  // Lockout countdown - a fresh challenge once it ends
+  useEffect(() => {
+    if (!isOpen || lockedMs <= 0) return;
+    const interval = setInterval(() => {
+      const remaining = parentGateService.getLockoutRemainingMs();
+      setLockedMs(remaining);
+      if (remaining <= 0) {
+        setChallenge(parentGateService.createChallenge());
+        setError(false);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isOpen, lockedMs > 0]);
+
+  const submit = async (input: string) => {
+    if (!challenge || checking) return;
+    setChecking(true);
+    const result = await parentGateService.submit(challenge, input, gatePurpose);
+    setChecking(false);
+    setAnswer('');
+
+    if (result === 'passed') {
       onSuccess();
       onClose();
-    } else {
-      setError(true);
-      setAnswer('');
-      // Simple vibration feedback if supported
-      if (navigator.vibrate) navigator.vibrate(200);
+      return;
+    }
+
+    setError(true);
+    // Simple vibration feedback if supported
+    if (navigator.vibrate) navigator.vibrate(200);
+    if (result === 'lockedOut') {
+      setLockedMs(parentGateService.getLockoutRemainingMs());
+    } else if (challenge.type !== 'pin') {
+      // New question so answers can't be guessed one by one
+      setChallenge(parentGateService.createChallenge());
     }
   };
 
-  if (!isOpen) return null;
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    submit(answer);
+  };
+
+  const handleClose = () => {
+    stopHold();
+    if (challenge && lockedMs <= 0) parentGateService.cancel(challenge, gatePurpose);
+    onClose();
+  };
+
+  const startHold = () => {
+    if (!challenge?.holdMs || checking) return;
+    const holdMs = challenge.holdMs;
+    holdStartRef.current = Date.now();
+    holdTimerRef.current = setInterval(() => {
+      const elapsed = Date.now() - (holdStartRef.current || Date.now());
+      setHoldProgress(Math.min(1, elapsed / holdMs));
+      if (elapsed >= holdMs) {
+        stopHold();
+        submit(String(elapsed));
+      }
+    }, 50);
+  };
+
+  if (!isOpen || !challenge) return null;
+
+  const isLocked = lockedMs > 0;
+
+  const subtitle = isLocked
+    ? 'Too many wrong answers.'
+    : challenge.type === 'writtenNumber'
+      ? 'Type this number using digits.'
+      : challenge.type === 'holdToConfirm'
+        ? 'Hold the button until the bar fills up.'
+        : challenge.type === 'pin'
+          ? 'Enter your 4-digit Parent PIN.'
+          : 'Please solve to continue.';
 
   const modalContent = (
-    <div className="fixed inset-0 z-[200] flex items-center justify-center px-4 pointer-events-auto">
+    // Above every other modal - the gate can be opened from inside any of them
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center px-4 pointer-events-auto">
       {/* Backdrop */}
-      <div 
-        className="absolute inset-0 bg-black/80 backdrop-blur-sm animate-in fade-in duration-300" 
-        onClick={onClose}
+      <div
+        className="absolute inset-0 bg-black/80 backdrop-blur-sm animate-in fade-in duration-300"
+        onClick={handleClose}
       ></div>
 
       {/* Modal Card */}
       <div className="relative w-full max-w-xs bg-[#fdf6e3] rounded-2xl p-6 shadow-2xl border-4 border-[#8B4513] animate-in zoom-in-95 flex flex-col items-center text-center">
-         
+
          {/* Close Button */}
-         <button 
-            onClick={onClose} 
+         <button
+            onClick={handleClose}
             className="absolute top-3 right-3 text-[#8B4513]/50 hover:text-[#8B4513] transition-colors"
          >
             <X size={24} />
          </button>
-         
+
          {/* Icon */}
          <div className="w-14 h-14 bg-[#8B4513] rounded-full flex items-center justify-center mb-4 text-[#FFD700] shadow-md border-2 border-[#eecaa0]">
-            <Lock size={24} />
+            {isLocked ? <Hourglass size={24} /> : <Lock size={24} />}
          </div>
 
          <h2 className="font-display font-bold text-xl text-[#5c2e0b] mb-1">Ask a Parent</h2>
          <p className="text-[#8B4513] text-sm mb-6 font-semibold opacity-80">
-             Please solve to continue.
+             {subtitle}
          </p>
 
-         {/* Math Problem */}
-         <div className="text-3xl font-display font-extrabold text-[#5c2e0b] mb-6 bg-white/50 px-6 py-3 rounded-xl border-2 border-[#8B4513]/20 shadow-inner">
-            {problem.q}
-         </div>
+         {isLocked ? (
+            /* Lockout */
+            <div className="w-full">
+               <div className="text-3xl font-display font-extrabold text-[#5c2e0b] mb-3 bg-white/50 px-6 py-3 rounded-xl border-2 border-[#8B4513]/20 shadow-inner">
+                  {formatLockoutCountdown(lockedMs)}
+               </div>
+               <p className="text-[#8B4513] text-xs font-bold opacity-70">Try again when the timer runs out.</p>
+            </div>
+         ) : challenge.type === 'holdToConfirm' ? (
+            /* Hold to confirm */
+            <div className="w-full">
+               <button
+                  onPointerDown={startHold}
+                  onPointerUp={stopHold}
+                  onPointerLeave={stopHold}
+                  onPointerCancel={stopHold}
+                  onContextMenu={(e) => e.preventDefault()}
+                  className="relative w-full overflow-hidden bg-[#8B4513] text-[#f3e5ab] font-display font-bold text-lg py-4 rounded-xl border-2 border-[#5c2e0b] shadow-md select-none touch-none"
+               >
+                  <div
+                     className="absolute inset-y-0 left-0 bg-[#FFD700]/40"
+                     style={{ width: `${holdProgress * 100}%` }}
+                  ></div>
+                  <span className="relative flex items-center justify-center gap-2">
+                     <Hand size={20} />
+                     {holdProgress > 0 ? 'Keep holding...' : 'Press & Hold'}
+                  </span>
+               </button>
+            </div>
+         ) : (
+            <>
+               {/* Question */}
+               {challenge.type !== 'pin' && (
+                  <div className={`font-display font-extrabold text-[#5c2e0b] mb-6 bg-white/50 px-6 py-3 rounded-xl border-2 border-[#8B4513]/20 shadow-inner ${challenge.type === 'writtenNumber' ? 'text-2xl' : 'text-3xl'}`}>
+                     {challenge.prompt}
+                  </div>
+               )}
+
+               <form onSubmit={handleSubmit} className="w-full">
+                  <input
+                      type={challenge.type === 'pin' ? 'password' : 'tel'}
+                      inputMode="numeric"
+                      autoComplete="off"
+                      value={answer}
+                      onChange={(e) => {
+                          setAnswer(e.target.value.replace(/\D/g, ''));
+                          if(error) setError(false);
+                      }}
+                      className={`w-full border-2 rounded-xl px-4 py-3 text-center text-xl font-bold mb-4 outline-none transition-colors font-display text-[#5c2e0b] placeholder:text-[#5c2e0b]/30 shadow-inner ${
+                          error
+                          ? 'border-red-500 bg-red-50 animate-[shake_0.5s_ease-in-out]'
+                          : 'border-[#8B4513]/30 bg-white focus:border-[#8B4513]'
+                      }`}
+                      placeholder={challenge.type === 'pin' ? '••••' : '?'}
+                      autoFocus
+                  />
+
+                  {error && (
+                      <p className="text-red-500 text-xs font-bold mb-3 -mt-2 animate-pulse">
+                          Incorrect, try again!
+                      </p>
+                  )}
 
-         <form onSubmit={handleSubmit} className="w-full">
-            <input 
-                type="tel" 
-                value={answer}
-                onChange={(e) => {
-                    setAnswer(e.target.value);
-                    if(error) setError(false);
-                }}
-                className={`w-full border-2 rounded-xl px-4 py-3 text-center text-xl font-bold mb-4 outline-none transition-colors font-display text-[#5c2e0b] placeholder:text-[#5c2e0b]/30 shadow-inner ${
-                    error 
-                    ? 'border-red-500 bg-red-50 animate-[shake_0.5s_ease-in-out]' 
-                    : 'border-[#8B4513]/30 bg-white focus:border-[#8B4513]'
-                }`}
-                placeholder="?"
-                autoFocus
-            />
-            
-            {error && (
-                <p className="text-red-500 text-xs font-bold mb-3 -mt-2 animate-pulse">
-                    Incorrect, try again!
-                </p>
-            )}
-            
-            <WoodButton fullWidth type="submit" variant="primary" className="py-3 text-lg">
-                Verify & Continue
-            </WoodButton>
-         </form>
+                  <WoodButton fullWidth type="submit" variant="primary" className="py-3 text-lg disabled:opacity-50" disabled={!answer || checking}>
+                      Verify & Continue
+                  </WoodButton>
+               </form>
+            </>
+         )}
       </div>
       <style>{`
         @keyframes shake {
@@ -116,4 +229,4 @@ const ParentGateModal: React.FC<ParentGateModalProps> = ({ isOpen, onClose, onSu
   return createPortal(modalContent, document.body);
 };
 
-export default ParentGateModal;
\ No newline at end of file
+export default ParentGateModal;
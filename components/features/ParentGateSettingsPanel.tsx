@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, ShoppingBag, CheckCircle2, XCircle, Hourglass, MinusCircle } from 'lucide-react';
+import { useUser } from '../../context/UserContext';
+import { parentalControlsService } from '../../services/parentalControlsService';
+import {
+  parentGateService,
+  GATE_CHALLENGE_TYPES,
+  GateAttempt,
+  GateChallengeType,
+  GatePurpose,
+  GateResult,
+  PARENT_GATE_EVENT,
+} from '../../services/parentGateService';
+
+const CHALLENGE_LABELS: Record<GateChallengeType, string> = {
+  multiplication: 'Multiplication',
+  writtenNumber: 'Written number',
+  holdToConfirm: 'Hold to confirm',
+  pin: 'Parent PIN',
+};
+
+const PURPOSE_LABELS: Record<GatePurpose, string> = {
+  general: 'Parent area',
+  settings: 'Settings',
+  subscription: 'Subscription',
+  shopPurchase: 'Shop purchase',
+  giftCoins: 'Gift coins',
+  externalLink: 'External link',
+  screenTime: 'Screen time',
+};
+
+const RESULT_ICONS: Record<GateResult, React.ReactNode> = {
+  passed: <CheckCircle2 size={16} className="text-green-600" />,
+  failed: <XCircle size={16} className="text-red-500" />,
+  lockedOut: <Hourglass size={16} className="text-red-700" />,
+  cancelled: <MinusCircle size={16} className="text-gray-400" />,
+};
+
+const RECENT_ATTEMPTS_SHOWN = 10;
+
+/**
+ * Parent Gate Settings
+ * Which challenges the parent gate uses, whether purchases always ask,
+ * and the log of recent gate attempts (so parents can spot bypass attempts).
+ */
+const ParentGateSettingsPanel: React.FC = () => {
+  const { kids } = useUser();
+  const [settings, setSettings] = useState(parentGateService.getSettings());
+  const [attempts, setAttempts] = useState<GateAttempt[]>(parentGateService.getAttempts(RECENT_ATTEMPTS_SHOWN));
+
+  useEffect(() => {
+    const refresh = () => {
+      setSettings(parentGateService.getSettings());
+      setAttempts(parentGateService.getAttempts(RECENT_ATTEMPTS_SHOWN));
+    };
+    window.addEventListener(PARENT_GATE_EVENT, refresh);
+    return () => window.removeEventListener(PARENT_GATE_EVENT, refresh);
+  }, []);
+
+  const hasPin = parentalControlsService.hasPin();
+  const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+  const recentFailures = parentGateService.getAttempts()
+    .filter(a => a.timestamp >= weekAgo && (a.result === 'failed' || a.result === 'lockedOut')).length;
+
+  const toggleChallenge = (type: GateChallengeType) => {
+    const enabled = settings.challengeTypes.includes(type);
+    // Keep at least one challenge type
+    if (enabled && settings.challengeTypes.length === 1) return;
+    setSettings(parentGateService.updateSettings({
+      challengeTypes: enabled ? settings.challengeTypes.filter(t => t !== type) : [...settings.challengeTypes, type],
+    }));
+  };
+
+  const profileName = (profileId: string | null) =>
+    profileId ? kids.find(k => k.id === profileId)?.name || 'Kid' : 'Parent';
+
+  return (
+    <div className="space-y-5">
+      {/* Challenge types */}
+      <div>
+        <div className="flex items-center gap-3 text-[#5c2e0b] mb-2">
+          <div className="w-8 h-8 rounded-full bg-[#ffe0b2] flex items-center justify-center text-[#f57c00] shrink-0">
+            <ShieldCheck size={18} />
+          </div>
+          <div>
+            <span className="font-bold block">Parent gate challenges</span>
+            <span className="text-xs text-[#8B4513]/70 block">One is picked at random each time</span>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2 pl-11">
+          {GATE_CHALLENGE_TYPES.map(type => {
+            const isEnabled = settings.challengeTypes.includes(type);
+            const isUnavailable = type === 'pin' && !hasPin;
+            return (
+              <button
+                key={type}
+                onClick={() => toggleChallenge(type)}
+                disabled={isUnavailable}
+                className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors disabled:opacity-40 ${
+                  isEnabled
+                    ? 'bg-[#8B4513] text-[#f3e5ab] border-[#5c2e0b]'
+                    : 'bg-white/60 text-[#5c2e0b] border-[#eecaa0] hover:bg-white'
+                }`}
+              >
+                {CHALLENGE_LABELS[type]}{isUnavailable ? ' (set a PIN first)' : ''}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Always ask on purchases */}
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 text-[#5c2e0b] min-w-0">
+          <div className="w-8 h-8 rounded-full bg-[#ffe0b2] flex items-center justify-center text-[#f57c00] shrink-0">
+            <ShoppingBag size={18} />
+          </div>
+          <div className="min-w-0">
+            <span className="font-bold block">Ask on every purchase</span>
+            <span className="text-xs text-[#8B4513]/70 block">Coin spends, gifts and external links</span>
+          </div>
+        </div>
+        <button
+          onClick={() => setSettings(parentGateService.updateSettings({ requireForPurchases: !settings.requireForPurchases }))}
+          className={`w-12 h-7 rounded-full relative transition-colors duration-200 border-2 shrink-0 ${settings.requireForPurchases ? 'bg-[#8bc34a] border-[#689f38]' : 'bg-gray-300 border-gray-400'}`}
+        >
+          <div className={`absolute top-0.5 w-5 h-5 bg-white rounded-full shadow-sm transition-all duration-200 ${settings.requireForPurchases ? 'left-5' : 'left-0.5'}`}></div>
+        </button>
+      </div>
+
+      {/* Attempt log */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-[#5c2e0b] font-bold text-sm">Recent gate activity</p>
+          {attempts.length > 0 && (
+            <button onClick={() => parentGateService.clearAttempts()} className="text-xs font-bold text-[#8B4513]/70 hover:underline">
+              Clear
+            </button>
+          )}
+        </div>
+        {recentFailures > 0 && (
+          <p className="text-xs font-bold text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2 mb-2">
+            {recentFailures} wrong answer{recentFailures === 1 ? '' : 's'} in the last 7 days
+          </p>
+        )}
+        {attempts.length === 0 ? (
+          <p className="text-[#5c2e0b] text-sm opacity-70">No gate activity yet.</p>
+        ) : (
+          <div className="space-y-1">
+            {attempts.map(attempt => (
+              <div key={attempt.id} className="flex items-center gap-2 text-xs text-[#5c2e0b] bg-white/40 rounded-lg px-3 py-2">
+                {RESULT_ICONS[attempt.result]}
+                <span className="font-bold truncate flex-1">
+                  {PURPOSE_LABELS[attempt.purpose] || attempt.purpose} · {profileName(attempt.profileId)}
+                </span>
+                <span className="opacity-60 whitespace-nowrap">
+                  {new Date(attempt.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ParentGateSettingsPanel;
@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X, KeyRound, Hourglass } from 'lucide-react';
+import WoodButton from '../ui/WoodButton';
+import { parentalControlsService } from '../../services/parentalControlsService';
+import { parentGateService, formatLockoutCountdown, GatePurpose } from '../../services/parentGateService';
+
+interface ParentPinModalProps {
+  isOpen: boolean;
+  // 'setup' asks for a new PIN twice, 'verify' checks it against the saved PIN
+  mode: 'setup' | 'verify';
+  onClose: () => void;
+  onSuccess: () => void;
+  title?: string;
+  purpose?: GatePurpose; // What the PIN protects - recorded in the parent's gate log
+}
+
+const PIN_LENGTH = 4;
+
+const ParentPinModal: React.FC<ParentPinModalProps> = ({ isOpen, mode, onClose, onSuccess, title, purpose }) => {
+  const gatePurpose: GatePurpose = purpose || 'settings';
+  const [pin, setPin] = useState('');
+  const [firstPin, setFirstPin] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [lockedMs, setLockedMs] = useState(0);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPin('');
+      setFirstPin(null);
+      setError(null);
+      // Wrong PINs share the parent gate's lockout, so switching screens doesn't reset it
+      setLockedMs(mode === 'verify' ? parentGateService.getLockoutRemainingMs() : 0);
+    }
+  }, [isOpen]);
+
+  // Lockout countdown
+  useEffect(() => {
+    if (!isOpen || lockedMs <= 0) return;
+    const interval = setInterval(() => {
+      const remaining = parentGateService.getLockoutRemainingMs();
+      setLockedMs(remaining);
+      if (remaining <= 0) setError(null);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isOpen, lockedMs > 0]);
+
+  const fail = (message: string) => {
+    setError(message);
+    setPin('');
+    if (navigator.vibrate) navigator.vibrate(200);
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (pin.length !== PIN_LENGTH || checking) return;
+
+    if (mode === 'verify') {
+      setChecking(true);
+      const result = await parentGateService.submit(parentGateService.createPinChallenge(), pin, gatePurpose);
+      setChecking(false);
+      if (result === 'passed') {
+        onSuccess();
+        onClose();
+      } else if (result === 'lockedOut') {
+        setPin('');
+        setError(null);
+        setLockedMs(parentGateService.getLockoutRemainingMs());
+        if (navigator.vibrate) navigator.vibrate(200);
+      } else {
+        fail('Wrong PIN, try again!');
+      }
+      return;
+    }
+
+    // Setup: enter twice
+    if (firstPin === null) {
+      setFirstPin(pin);
+      setPin('');
+      setError(null);
+      return;
+    }
+    if (pin !== firstPin) {
+      setFirstPin(null);
+      fail("PINs didn't match - start again");
+      return;
+    }
+    setChecking(true);
+    await parentalControlsService.setPin(pin);
+    setChecking(false);
+    onSuccess();
+    onClose();
+  };
+
+  const handleClose = () => {
+    if (mode === 'verify' && lockedMs <= 0) {
+      parentGateService.cancel(parentGateService.createPinChallenge(), gatePurpose);
+    }
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const isLocked = lockedMs > 0;
+  const heading = title || (mode === 'setup' ? 'Create a Parent PIN' : 'Enter Parent PIN');
+  const hint = isLocked
+    ? 'Too many wrong PINs.'
+    : mode === 'verify'
+      ? 'Enter your 4-digit PIN to continue.'
+      : firstPin === null
+        ? 'Choose a 4-digit PIN kids won\'t guess.'
+        : 'Enter the same PIN again to confirm.';
+
+  const modalContent = (
+    <div className="fixed inset-0 z-[210] flex items-center justify-center px-4 pointer-events-auto">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/80 backdrop-blur-sm animate-in fade-in duration-300"
+        onClick={handleClose}
+      ></div>
+
+      {/* Modal Card */}
+      <div className="relative w-full max-w-xs bg-[#fdf6e3] rounded-2xl p-6 shadow-2xl border-4 border-[#8B4513] animate-in zoom-in-95 flex flex-col items-center text-center">
+        <button
+          onClick={handleClose}
+          className="absolute top-3 right-3 text-[#8B4513]/50 hover:text-[#8B4513] transition-colors"
+        >
+          <X size={24} />
+        </button>
+
+        <div className="w-14 h-14 bg-[#8B4513] rounded-full flex items-center justify-center mb-4 text-[#FFD700] shadow-md border-2 border-[#eecaa0]">
+          {isLocked ? <Hourglass size={24} /> : <KeyRound size={24} />}
+        </div>
+
+        <h2 className="font-display font-bold text-xl text-[#5c2e0b] mb-1">{heading}</h2>
+        <p className="text-[#8B4513] text-sm mb-6 font-semibold opacity-80">{hint}</p>
+
+        {isLocked ? (
+          <div className="w-full">
+            <div className="text-3xl font-display font-extrabold text-[#5c2e0b] mb-3 bg-white/50 px-6 py-3 rounded-xl border-2 border-[#8B4513]/20 shadow-inner">
+              {formatLockoutCountdown(lockedMs)}
+            </div>
+            <p className="text-[#8B4513] text-xs font-bold opacity-70">Try again when the timer runs out.</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="w-full">
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={PIN_LENGTH}
+              value={pin}
+              onChange={(e) => {
+                setPin(e.target.value.replace(/\D/g, '').slice(0, PIN_LENGTH));
+                if (error) setError(null);
+              }}
+              className={`w-full border-2 rounded-xl px-4 py-3 text-center text-2xl tracking-[0.6em] font-bold mb-4 outline-none transition-colors font-display text-[#5c2e0b] placeholder:text-[#5c2e0b]/30 shadow-inner ${
+                error ? 'border-red-500 bg-red-50' : 'border-[#8B4513]/30 bg-white focus:border-[#8B4513]'
+              }`}
+              placeholder="••••"
+              autoFocus
+            />
+
+            {error && (
+              <p className="text-red-500 text-xs font-bold mb-3 -mt-2 animate-pulse">{error}</p>
+            )}
+
+            <WoodButton
+              fullWidth
+              type="submit"
+              variant="primary"
+              className="py-3 text-lg disabled:opacity-50"
+              disabled={pin.length !== PIN_LENGTH || checking}
+            >
+              {mode === 'setup' && firstPin === null ? 'Next' : 'Continue'}
+            </WoodButton>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+
+  return createPortal(modalContent, document.body);
+};
+
+export default ParentPinModal;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, Moon, Filter, ShoppingBag, Gamepad2, MessageCircle, KeyRound } from 'lucide-react';
+import { useUser } from '../../context/UserContext';
+import { ApiService } from '../../services/apiService';
+import { activityTrackingService } from '../../services/activityTrackingService';
+import { parentalControlsService, ProfileControls } from '../../services/parentalControlsService';
+import ParentPinModal from './ParentPinModal';
+
+const TIME_LIMIT_OPTIONS: Array<number | null> = [null, 15, 30, 45, 60, 90, 120, 180];
+const AGE_LEVEL_OPTIONS: Array<number | null> = [null, 3, 4, 5, 6, 7, 8, 9, 10, 12];
+
+const Toggle: React.FC<{ enabled: boolean; onToggle: () => void }> = ({ enabled, onToggle }) => (
+  <button
+    onClick={onToggle}
+    className={`w-12 h-7 rounded-full relative transition-colors duration-200 border-2 shrink-0 ${enabled ? 'bg-[#8bc34a] border-[#689f38]' : 'bg-gray-300 border-gray-400'}`}
+  >
+    <div className={`absolute top-0.5 w-5 h-5 bg-white rounded-full shadow-sm transition-all duration-200 ${enabled ? 'left-5' : 'left-0.5'}`}></div>
+  </button>
+);
+
+const Row: React.FC<{ icon: React.ReactNode; label: string; hint?: string; children: React.ReactNode }> = ({ icon, label, hint, children }) => (
+  <div className="flex items-center justify-between gap-3">
+    <div className="flex items-center gap-3 text-[#5c2e0b] min-w-0">
+      <div className="w-8 h-8 rounded-full bg-[#ffe0b2] flex items-center justify-center text-[#f57c00] shrink-0">
+        {icon}
+      </div>
+      <div className="min-w-0">
+        <span className="font-bold block">{label}</span>
+        {hint && <span className="text-xs text-[#8B4513]/70 block">{hint}</span>}
+      </div>
+    </div>
+    {children}
+  </div>
+);
+
+/**
+ * Parental Controls Panel
+ * Per-kid screen time, allowed hours, content filters and feature toggles.
+ * Rendered in SettingsPage once the parent has entered their PIN.
+ */
+const ParentalControlsPanel: React.FC = () => {
+  const { kids } = useUser();
+  const [selectedKidId, setSelectedKidId] = useState<string | null>(kids[0]?.id || null);
+  const [controls, setControls] = useState<ProfileControls | null>(null);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [showChangePin, setShowChangePin] = useState(false);
+
+  useEffect(() => {
+    if (!selectedKidId && kids.length > 0) setSelectedKidId(kids[0].id);
+  }, [kids, selectedKidId]);
+
+  useEffect(() => {
+    setControls(selectedKidId ? parentalControlsService.getControls(selectedKidId) : null);
+  }, [selectedKidId]);
+
+  // Categories of both books and audio
+  useEffect(() => {
+    Promise.all([ApiService.getCategories('book'), ApiService.getCategories('audio')])
+      .then(([bookCategories, audioCategories]) => {
+        const names = [...bookCategories, ...audioCategories].map(c => c.name).filter(Boolean);
+        setCategories(Array.from(new Set(names)).sort());
+      })
+      .catch(error => console.error('Error loading categories for parental controls:', error));
+  }, []);
+
+  const update = (updates: Partial<Omit<ProfileControls, 'updatedAt'>>) => {
+    if (!selectedKidId) return;
+    setControls(parentalControlsService.updateControls(selectedKidId, updates));
+  };
+
+  if (kids.length === 0) {
+    return (
+      <p className="text-[#5c2e0b] text-sm opacity-70">
+        Add a kid profile to set up screen time and content controls.
+      </p>
+    );
+  }
+
+  const usedToday = selectedKidId ? activityTrackingService.getTodayTimeSpentMinutes(selectedKidId) : 0;
+
+  return (
+    <div className="space-y-5">
+      {/* Kid selector */}
+      <div className="flex gap-2 overflow-x-auto no-scrollbar">
+        {kids.map(kid => (
+          <button
+            key={kid.id}
+            onClick={() => setSelectedKidId(kid.id)}
+            className={`px-4 py-2 rounded-full font-bold text-sm whitespace-nowrap border-2 transition-colors ${
+              selectedKidId === kid.id
+                ? 'bg-[#8B4513] text-[#f3e5ab] border-[#5c2e0b]'
+                : 'bg-white/60 text-[#5c2e0b] border-[#eecaa0] hover:bg-white/80'
+            }`}
+          >
+            {kid.name}
+          </button>
+        ))}
+      </div>
+
+      {controls && (
+        <>
+          {/* Daily time budget */}
+          <Row icon={<Clock size={18} />} label="Daily time limit" hint={`Used today: ${usedToday} min`}>
+            <select
+              value={controls.dailyLimitMinutes ?? ''}
+              onChange={(e) => update({ dailyLimitMinutes: e.target.value ? parseInt(e.target.value) : null })}
+              className="bg-white/80 border border-[#eecaa0] rounded-lg px-2 py-1.5 text-[#5c2e0b] font-bold text-sm"
+            >
+              {TIME_LIMIT_OPTIONS.map(minutes => (
+                <option key={minutes ?? 'none'} value={minutes ?? ''}>
+                  {minutes === null ? 'No limit' : minutes < 60 ? `${minutes} min` : `${minutes / 60} hr${minutes > 60 ? 's' : ''}`}
+                </option>
+              ))}
+            </select>
+          </Row>
+
+          {/* Allowed hours / bedtime */}
+          <div className="space-y-2">
+            <Row icon={<Moon size={18} />} label="Bedtime mode" hint="Only allow the app between these times">
+              <Toggle
+                enabled={controls.allowedHours.enabled}
+                onToggle={() => update({ allowedHours: { ...controls.allowedHours, enabled: !controls.allowedHours.enabled } })}
+              />
+            </Row>
+            {controls.allowedHours.enabled && (
+              <div className="flex items-center gap-2 pl-11 text-[#5c2e0b] text-sm font-bold">
+                <input
+                  type="time"
+                  value={controls.allowedHours.start}
+                  onChange={(e) => update({ allowedHours: { ...controls.allowedHours, start: e.target.value } })}
+                  className="bg-white/80 border border-[#eecaa0] rounded-lg px-2 py-1"
+                />
+                <span>to</span>
+                <input
+                  type="time"
+                  value={controls.allowedHours.end}
+                  onChange={(e) => update({ allowedHours: { ...controls.allowedHours, end: e.target.value } })}
+                  className="bg-white/80 border border-[#eecaa0] rounded-lg px-2 py-1"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Age level filter */}
+          <Row icon={<Filter size={18} />} label="Content age level" hint="Hide content for older kids">
+            <select
+              value={controls.maxAgeLevel ?? ''}
+              onChange={(e) => update({ maxAgeLevel: e.target.value ? parseInt(e.target.value) : null })}
+              className="bg-white/80 border border-[#eecaa0] rounded-lg px-2 py-1.5 text-[#5c2e0b] font-bold text-sm"
+            >
+              {AGE_LEVEL_OPTIONS.map(age => (
+                <option key={age ?? 'any'} value={age ?? ''}>
+                  {age === null ? 'All ages' : `Up to ${age}+`}
+                </option>
+              ))}
+            </select>
+          </Row>
+
+          {/* Category filter */}
+          {categories.length > 0 && (
+            <div>
+              <p className="text-[#5c2e0b] font-bold text-sm mb-2">Hidden categories</p>
+              <div className="flex flex-wrap gap-2">
+                {categories.map(category => {
+                  const isBlocked = controls.blockedCategories.includes(category);
+                  return (
+                    <button
+                      key={category}
+                      onClick={() => update({
+                        blockedCategories: isBlocked
+                          ? controls.blockedCategories.filter(c => c !== category)
+                          : [...controls.blockedCategories, category],
+                      })}
+                      className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${
+                        isBlocked
+                          ? 'bg-red-100 text-red-700 border-red-300 line-through'
+                          : 'bg-white/60 text-[#5c2e0b] border-[#eecaa0] hover:bg-white'
+                      }`}
+                    >
+                      {category}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Feature toggles */}
+          <div className="space-y-4 pt-1">
+            <Row icon={<ShoppingBag size={18} />} label="Shop">
+              <Toggle enabled={!controls.disableShop} onToggle={() => update({ disableShop: !controls.disableShop })} />
+            </Row>
+            <Row icon={<Gamepad2 size={18} />} label="Games">
+              <Toggle enabled={!controls.disableGames} onToggle={() => update({ disableGames: !controls.disableGames })} />
+            </Row>
+            <Row icon={<MessageCircle size={18} />} label="Comments">
+              <Toggle enabled={!controls.disableComments} onToggle={() => update({ disableComments: !controls.disableComments })} />
+            </Row>
+          </div>
+        </>
+      )}
+
+      <button
+        onClick={() => setShowChangePin(true)}
+        className="w-full text-left px-3 py-3 text-[#5c2e0b] font-bold text-sm bg-white/40 hover:bg-white/80 rounded-lg border border-transparent hover:border-[#eecaa0] transition-all flex items-center gap-3"
+      >
+        <KeyRound size={16} />
+        <span>Change Parent PIN</span>
+      </button>
+
+      <ParentPinModal
+        isOpen={showChangePin}
+        mode="setup"
+        title="New Parent PIN"
+        onClose={() => setShowChangePin(false)}
+        onSuccess={() => {}}
+      />
+    </div>
+  );
+};
+
+export default ParentalControlsPanel;
@@ -9,10 +9,13 @@ import {
 import { useUser } from '../../context/UserContext';
 import { useAudio } from '../../context/AudioContext';
 import { useLanguage } from '../../context/LanguageContext';
+import { useMicrophoneLevel, SPEAKING_THRESHOLD } from '../../hooks/useMicrophoneLevel';
 
 interface PrayerGameModalProps {
   isOpen: boolean;
   onClose: () => void;
+  coinReward?: number; // coins for finishing (a Daily Session routine can set its own)
+  turnNames?: string[]; // Family session: kids take turns leading each prayer, in this order
 }
 
 type GameState = 'intro' | 'selection' | 'focus' | 'success';
@@ -113,7 +116,7 @@ const PRAYER_TEXTS: Record<string, string[]> = {
   ]
 };
 
-const PrayerGameModal: React.FC<PrayerGameModalProps> = ({ isOpen, onClose }) => {
+const PrayerGameModal: React.FC<PrayerGameModalProps> = ({ isOpen, onClose, coinReward = 30, turnNames }) => {
   const { addCoins } = useUser();
   const { playClick, playSuccess, playTab, setGameMode, currentPlaylist } = useAudio();
   const { t } = useLanguage();
@@ -136,13 +139,10 @@ const PrayerGameModal: React.FC<PrayerGameModalProps> = ({ isOpen, onClose }) =>
   const loopRunningRef = useRef(false);
   const isPrayerFilledRef = useRef(false);
   
-  const [micPermission, setMicPermission] = useState<boolean | null>(null);
+  const { micPermission, start: startListening, stop: stopListening, readLevel } = useMicrophoneLevel();
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [volume, setVolume] = useState(0);
   
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const microphoneStreamRef = useRef<MediaStream | null>(null);
   const animationFrameRef = useRef<number | null>(null);
 
   // --- SETUP ---
@@ -161,16 +161,7 @@ const PrayerGameModal: React.FC<PrayerGameModalProps> = ({ isOpen, onClose }) =>
   const cleanup = () => {
       if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
       loopRunningRef.current = false;
-      
-      if (microphoneStreamRef.current) {
-          microphoneStreamRef.current.getTracks().forEach(track => track.stop());
-      }
-      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-          audioContextRef.current.close();
-      }
-      audioContextRef.current = null;
-      analyserRef.current = null;
-      microphoneStreamRef.current = null;
+      stopListening();
   };
 
   const initializeGame = () => {
@@ -205,18 +196,11 @@ const PrayerGameModal: React.FC<PrayerGameModalProps> = ({ isOpen, onClose }) =>
       let inputBoost = 0;
 
       // 1. Microphone Input
-      if (analyserRef.current) {
-          const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
-          analyserRef.current.getByteFrequencyData(dataArray);
-
-          let sum = 0;
-          for (let i = 0; i < dataArray.length; i++) {
-              sum += dataArray[i];
-          }
-          const average = sum / dataArray.length;
+      const average = readLevel();
+      if (average !== null) {
           setVolume(average); // For visual feedback
 
-          if (average > 25) {
+          if (average > SPEAKING_THRESHOLD) {
               setIsSpeaking(true);
               inputBoost += 0.15; 
           } else {
@@ -238,32 +222,6 @@ const PrayerGameModal: React.FC<PrayerGameModalProps> = ({ isOpen, onClose }) =>
       animationFrameRef.current = requestAnimationFrame(runGameLoop);
   };
 
-  const startListening = async () => {
-      try {
-          const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-          microphoneStreamRef.current = stream;
-          setMicPermission(true);
-
-          const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-          audioContextRef.current = audioCtx;
-          
-          const analyser = audioCtx.createAnalyser();
-          analyser.fftSize = 256;
-          analyserRef.current = analyser;
-
-          const source = audioCtx.createMediaStreamSource(stream);
-          source.connect(analyser);
-
-          if (audioCtx.state === 'suspended') {
-              await audioCtx.resume();
-          }
-
-      } catch (err) {
-          console.error("Microphone access denied or error:", err);
-          setMicPermission(false);
-      }
-  };
-
   // --- USER INTERACTIONS ---
 
   const setHolding = (holding: boolean) => {
@@ -338,7 +296,7 @@ const PrayerGameModal: React.FC<PrayerGameModalProps> = ({ isOpen, onClose }) =>
 
   const handleClaim = () => {
     setIsClaiming(true);
-    addCoins(30, 'Prayer Time Complete', 'game'); 
+    if (coinReward > 0) addCoins(coinReward, 'Prayer Time Complete', 'game');
     setTimeout(() => {
         onClose();
     }, 1500);
@@ -470,6 +428,11 @@ const PrayerGameModal: React.FC<PrayerGameModalProps> = ({ isOpen, onClose }) =>
                       <div className="text-[#e1bee7]/50 text-xs font-bold uppercase tracking-widest mb-4">
                           Prayer {currentTopicIndex + 1} of {selectedTopics.length}
                       </div>
+                      {turnNames && turnNames.length > 0 && (
+                          <div className="bg-white/15 text-white font-bold text-sm rounded-full px-4 py-1 mb-4">
+                              🙏 {turnNames[currentTopicIndex % turnNames.length]} leads this prayer
+                          </div>
+                      )}
                       
                       {/* Topic Icon with Pulse Animation */}
                       <div className={`relative w-24 h-24 rounded-full flex items-center justify-center shadow-xl mb-4 ${activeTopic.color} ${isSpeaking ? 'animate-pulse scale-110' : ''} transition-transform`}>
@@ -589,7 +552,7 @@ const PrayerGameModal: React.FC<PrayerGameModalProps> = ({ isOpen, onClose }) =>
 
                       <div className="w-full px-8">
                           <WoodButton variant="gold" fullWidth onClick={handleClaim} className="py-4 text-xl shadow-[0_0_20px_#FFD700]">
-                              CLAIM 30 COINS
+                              {coinReward > 0 ? `CLAIM ${coinReward} COINS` : 'AMEN!'}
                           </WoodButton>
                       </div>
                   </div>
@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X, CheckCircle2, XCircle, Clock } from 'lucide-react';
+import { quizBankService, QuizAnswer, QuizDifficulty } from '../../services/quizBankService';
+
+interface QuizReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profiles: Array<{ id: string | null; name: string }>;
+}
+
+const DIFFICULTY_LABELS: Record<QuizDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+const formatSeconds = (ms: number): string => `${Math.max(1, Math.round(ms / 1000))}s`;
+
+const MissedAnswerCard: React.FC<{ answer: QuizAnswer }> = ({ answer }) => (
+  <div className="bg-white/70 rounded-2xl p-4 border-2 border-[#eecaa0]">
+    <p className="text-[10px] font-bold uppercase text-[#8B4513]/60 mb-1 truncate">{answer.bookTitle}</p>
+    <p className="font-bold text-[#5c2e0b] mb-3">{answer.question}</p>
+    <div className="space-y-1.5 mb-2">
+      {answer.options.map((option, index) => {
+        const isCorrect = index === answer.correctIndex;
+        const isChosen = index === answer.chosenIndex;
+        if (!isCorrect && !isChosen) return null;
+        return (
+          <div
+            key={index}
+            className={`flex items-center gap-2 text-sm rounded-lg px-3 py-1.5 border ${
+              isCorrect ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'
+            }`}
+          >
+            {isCorrect ? <CheckCircle2 size={16} className="shrink-0" /> : <XCircle size={16} className="shrink-0" />}
+            <span className="flex-1">{option}</span>
+            <span className="text-[10px] font-bold uppercase opacity-70">{isCorrect ? 'Answer' : 'Picked'}</span>
+          </div>
+        );
+      })}
+    </div>
+    <div className="flex items-center gap-3 text-[10px] font-bold text-[#8B4513]/60">
+      <span className="flex items-center gap-1"><Clock size={12} /> {formatSeconds(answer.timeMs)}</span>
+      <span>{DIFFICULTY_LABELS[answer.difficulty]}</span>
+      <span>{new Date(answer.answeredAt).toLocaleDateString([], { month: 'short', day: 'numeric' })}</span>
+    </div>
+  </div>
+);
+
+/**
+ * Quiz Review
+ * The book quiz questions a kid got wrong (and hasn't got right since),
+ * with the answer they picked, so parents can go over them together.
+ */
+const QuizReviewModal: React.FC<QuizReviewModalProps> = ({ isOpen, onClose, profiles }) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+
+  const profile = profiles[selectedIndex] || profiles[0];
+
+  useEffect(() => {
+    if (!isOpen || !profile) return;
+    setAnswers(quizBankService.getIncorrectAnswers(profile.id));
+  }, [isOpen, profile?.id]);
+
+  if (!isOpen || !profile) return null;
+
+  const accuracy = quizBankService.getRollingAccuracy(profile.id);
+  const difficulty = quizBankService.getDifficulty(profile.id);
+
+  const modalContent = (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose}></div>
+
+      <div className="relative w-full max-w-md max-h-[90vh] bg-[#fdf6e3] rounded-3xl border-4 border-[#8B4513] shadow-2xl overflow-hidden flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 z-10 text-[#8B4513]/50 hover:text-[#8B4513] transition-colors"
+        >
+          <X size={24} />
+        </button>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-4">
+          <div className="text-center">
+            <h2 className="font-display font-extrabold text-2xl text-[#5c2e0b]">Quiz Review</h2>
+            <p className="text-sm font-bold text-[#8B4513]/70">Questions to go over together</p>
+          </div>
+
+          {/* Kid selector */}
+          {profiles.length > 1 && (
+            <div className="flex gap-2 overflow-x-auto no-scrollbar">
+              {profiles.map((p, index) => (
+                <button
+                  key={p.id || 'parent'}
+                  onClick={() => setSelectedIndex(index)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-bold whitespace-nowrap border-2 transition-colors ${
+                    selectedIndex === index
+                      ? 'bg-[#8B4513] text-[#f3e5ab] border-[#5c2e0b]'
+                      : 'bg-white/60 text-[#5c2e0b] border-[#eecaa0]'
+                  }`}
+                >
+                  {p.name}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Rolling accuracy and the difficulty it has led to */}
+          <div className="grid grid-cols-2 gap-2">
+            <div className="bg-white/70 rounded-xl p-3 text-center border-2 border-[#eecaa0]">
+              <p className="font-display font-extrabold text-[#5c2e0b] text-xl">{accuracy === null ? '-' : `${Math.round(accuracy * 100)}%`}</p>
+              <p className="text-[10px] font-bold text-[#8B4513]/70 uppercase">Recent accuracy</p>
+            </div>
+            <div className="bg-white/70 rounded-xl p-3 text-center border-2 border-[#eecaa0]">
+              <p className="font-display font-extrabold text-[#5c2e0b] text-xl">{DIFFICULTY_LABELS[difficulty]}</p>
+              <p className="text-[10px] font-bold text-[#8B4513]/70 uppercase">Quiz level</p>
+            </div>
+          </div>
+
+          {answers.length === 0 ? (
+            <p className="text-center text-sm text-[#5c2e0b] opacity-70 py-6">No missed questions - nice work, {profile.name}!</p>
+          ) : (
+            answers.map(answer => <MissedAnswerCard key={answer.id} answer={answer} />)
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(modalContent, document.body);
+};
+
+export default QuizReviewModal;
@@ -1,10 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { X, BookOpen, Music, Gamepad2, Clock, Coins, TrendingUp, Calendar, Award, Star, Headphones, Check, FileText } from 'lucide-react';
+import { X, BookOpen, Music, Gamepad2, Clock, Coins, TrendingUp, Calendar, Award, Star, Headphones, Check, FileText, Brain } from 'lucide-react';
 import { useUser, CoinTransaction } from '../../context/UserContext';
 import { profileService } from '../../services/profileService';
 import { playHistoryService } from '../../services/playHistoryService';
 import { activityTrackingService } from '../../services/activityTrackingService';
+import { WeeklyStats } from '../../services/parentDigestService';
+import { memoryVerseService, MASTERY_LABELS, MASTERY_LEVELS } from '../../services/memoryVerseService';
+import { quizBankService } from '../../services/quizBankService';
 import { useLanguage } from '../../context/LanguageContext';
+import ParentDigestModal from './ParentDigestModal';
+import QuizReviewModal from './QuizReviewModal';
+import BadgeShelf from './BadgeShelf';
 
 interface ReportCardModalProps {
   isOpen: boolean;
@@ -12,16 +18,6 @@ interface ReportCardModalProps {
   hideCloseButton?: boolean; // Hide X button during tutorial
 }
 
-interface WeeklyStats {
-  booksRead: number;
-  pagesRead: number;
-  songsListened: number;
-  gamesPlayed: number;
-  lessonsCompleted: number;
-  coinsEarned: number;
-  timeSpentMinutes: number;
-}
-
 interface ActivityEntry {
   type: 'book' | 'song' | 'game' | 'lesson' | 'coins';
   title: string;
@@ -102,6 +98,8 @@ const ReportCardModal: React.FC<ReportCardModalProps> = ({ isOpen, onClose, hide
     timeSpentMinutes: 0,
   });
   const [recentActivity, setRecentActivity] = useState<ActivityEntry[]>([]);
+  const [showDigest, setShowDigest] = useState(false);
+  const [showQuizReview, setShowQuizReview] = useState(false);
   
   // Get current profile info - currentProfileId is null for parent, or kid's ID
   const activeKid = kids.find(k => k.id === currentProfileId);
@@ -185,6 +183,14 @@ const ReportCardModal: React.FC<ReportCardModalProps> = ({ isOpen, onClose, hide
   // Calculate grade based on activity
   const totalActivities = weeklyStats.booksRead + weeklyStats.songsListened + weeklyStats.gamesPlayed + weeklyStats.lessonsCompleted;
   const grade = totalActivities >= 20 ? 'A+' : totalActivities >= 15 ? 'A' : totalActivities >= 10 ? 'B' : totalActivities >= 5 ? 'C' : 'D';
+  // Every kid when viewed from the parent profile, otherwise just the active one
+  const reportProfiles = currentProfileId === null && kids.length > 0
+    ? kids.map(kid => ({ id: kid.id, name: kid.name }))
+    : [{ id: currentProfileId, name: profileName }];
+  const verseMastery = reportProfiles
+    .map(profile => ({ ...profile, summary: memoryVerseService.getMasterySummary(profile.id) }))
+    .filter(({ summary }) => summary.total > 0);
+  const missedQuizQuestions = reportProfiles.reduce((sum, profile) => sum + quizBankService.getIncorrectAnswers(profile.id).length, 0);
   const gradeColor = grade.startsWith('A') ? 'text-green-400' : grade === 'B' ? 'text-blue-400' : grade === 'C' ? 'text-yellow-400' : 'text-red-400';
 
   return (
@@ -362,6 +368,46 @@ const ReportCardModal: React.FC<ReportCardModalProps> = ({ isOpen, onClose, hide
                 </div>
               </div>
 
+              {/* Memory Verses */}
+              {verseMastery.length > 0 && (
+                <div className="bg-amber-500/10 rounded-2xl p-4 border border-amber-500/30">
+                  <div className="flex items-center gap-2 mb-3">
+                    <Brain className="w-5 h-5 text-amber-400" />
+                    <span className="text-white/60 text-xs font-medium">Memory Verses</span>
+                  </div>
+                  <div className="space-y-3">
+                    {verseMastery.map(({ id, name, summary }) => (
+                      <div key={id || 'parent'}>
+                        {verseMastery.length > 1 && (
+                          <p className="text-white text-sm font-bold mb-1">{name}</p>
+                        )}
+                        <div className="grid grid-cols-4 gap-2">
+                          {MASTERY_LEVELS.map(level => (
+                            <div key={level} className="bg-black/20 rounded-lg py-1.5 text-center">
+                              <p className={`font-bold text-lg leading-none ${level === 'mastered' ? 'text-[#FFD700]' : 'text-white'}`}>{summary.byLevel[level]}</p>
+                              <p className="text-white/50 text-[10px] mt-1">{MASTERY_LABELS[level]}</p>
+                            </div>
+                          ))}
+                        </div>
+                        {summary.due > 0 && (
+                          <p className="text-amber-400 text-xs mt-1">🧠 {summary.due} verse{summary.due === 1 ? '' : 's'} ready to review</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Badges */}
+              {reportProfiles.map(profile => (
+                <BadgeShelf
+                  key={profile.id || 'parent'}
+                  profileId={profile.id}
+                  title={reportProfiles.length > 1 ? `${profile.name.toUpperCase()}'S BADGES` : 'BADGES'}
+                  tone="dark"
+                />
+              ))}
+
               {/* Coins Earned */}
               <div className="bg-gradient-to-br from-[#FFD700]/10 to-[#B8860B]/10 rounded-2xl p-4 border border-[#FFD700]/30">
                 <div className="flex items-center justify-between">
@@ -457,11 +503,32 @@ const ReportCardModal: React.FC<ReportCardModalProps> = ({ isOpen, onClose, hide
         
         {/* Footer */}
         <div className="px-4 py-4 border-t border-[#2E7D32]/30 bg-black/20 text-center">
+          {/* Weekly digest of every kid - parent profile only */}
+          {currentProfileId === null && kids.length > 0 && (
+            <button
+              onClick={() => setShowDigest(true)}
+              className="w-full mb-3 py-2.5 rounded-xl bg-[#4CAF50] hover:bg-[#43A047] text-white text-sm font-bold transition-colors"
+            >
+              📬 Weekly Parent Digest
+            </button>
+          )}
+          {/* Wrong quiz answers to go over together */}
+          {missedQuizQuestions > 0 && (
+            <button
+              onClick={() => setShowQuizReview(true)}
+              className="w-full mb-3 py-2.5 rounded-xl bg-white/10 hover:bg-white/20 border border-white/20 text-white text-sm font-bold transition-colors"
+            >
+              📝 Review {missedQuizQuestions} Missed Quiz Question{missedQuizQuestions === 1 ? '' : 's'}
+            </button>
+          )}
           <p className="text-white/40 text-xs">
             📊 Report cards update in real-time as {profileName} learns!
           </p>
         </div>
       </div>
+
+      <ParentDigestModal isOpen={showDigest} onClose={() => setShowDigest(false)} />
+      <QuizReviewModal isOpen={showQuizReview} onClose={() => setShowQuizReview(false)} profiles={reportProfiles} />
     </div>
   );
 };
@@ -0,0 +1,276 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarClock, Plus, Trash2, ChevronUp, ChevronDown, X } from 'lucide-react';
+import { useUser } from '../../context/UserContext';
+import {
+  sessionRoutineService,
+  SessionRoutine,
+  RoutineStep,
+  SessionStepType,
+  SESSION_STEP_CATALOG,
+  SESSION_STEP_TYPES,
+  SESSION_ROUTINES_EVENT,
+  DEFAULT_ROUTINE_ID,
+  MAX_ROUTINE_STEPS,
+  STEP_MINUTE_OPTIONS,
+  MAX_STEP_COINS,
+} from '../../services/sessionRoutineService';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Session Routine Settings
+ * Parents build their own Godly Kids Time routines from the step catalog - which steps,
+ * in what order, how long each takes and what it pays - and pick which routine each kid
+ * does on each day of the week.
+ */
+const SessionRoutineSettingsPanel: React.FC = () => {
+  const { kids } = useUser();
+  const [routines, setRoutines] = useState<SessionRoutine[]>([]);
+  const [selectedRoutineId, setSelectedRoutineId] = useState<string>(DEFAULT_ROUTINE_ID);
+  const [name, setName] = useState('');
+  const [newStepType, setNewStepType] = useState<SessionStepType>('lesson');
+  // null = the assignment applies to every kid
+  const [assignKidId, setAssignKidId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => setRoutines(sessionRoutineService.getRoutines());
+    refresh();
+    window.addEventListener(SESSION_ROUTINES_EVENT, refresh);
+    return () => window.removeEventListener(SESSION_ROUTINES_EVENT, refresh);
+  }, []);
+
+  const routine = routines.find(r => r.id === selectedRoutineId) || routines[0];
+
+  useEffect(() => {
+    setName(routine?.name || '');
+  }, [routine?.id, routine?.name]);
+
+  if (!routine) return null;
+
+  const saveSteps = (steps: RoutineStep[]) => {
+    sessionRoutineService.saveRoutine({ id: routine.id, name: routine.name, steps });
+  };
+
+  const updateStep = (index: number, changes: Partial<RoutineStep>) => {
+    saveSteps(routine.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= routine.steps.length) return;
+    const steps = [...routine.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    saveSteps(steps);
+  };
+
+  const removeStep = (index: number) => {
+    if (routine.steps.length <= 1) return;
+    saveSteps(routine.steps.filter((_, i) => i !== index));
+  };
+
+  const addStep = () => {
+    if (routine.steps.length >= MAX_ROUTINE_STEPS) return;
+    const definition = SESSION_STEP_CATALOG[newStepType];
+    saveSteps([...routine.steps, { type: newStepType, minutes: definition.defaultMinutes, coins: definition.defaultCoins }]);
+  };
+
+  const handleRename = () => {
+    if (name.trim() && name.trim() !== routine.name) {
+      sessionRoutineService.saveRoutine({ id: routine.id, name, steps: routine.steps });
+    } else {
+      setName(routine.name);
+    }
+  };
+
+  const handleCreate = () => {
+    const created = sessionRoutineService.createRoutine(`Routine ${routines.length + 1}`);
+    setSelectedRoutineId(created.id);
+  };
+
+  const handleDelete = () => {
+    sessionRoutineService.deleteRoutine(routine.id);
+    if (routine.id !== DEFAULT_ROUTINE_ID) setSelectedRoutineId(DEFAULT_ROUTINE_ID);
+  };
+
+  const totalMinutes = routine.steps.reduce((sum, step) => sum + step.minutes, 0);
+  const totalCoins = routine.steps.reduce((sum, step) => sum + step.coins, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 text-[#5c2e0b]">
+        <div className="w-8 h-8 rounded-full bg-[#ffe0b2] flex items-center justify-center text-[#f57c00] shrink-0">
+          <CalendarClock size={18} />
+        </div>
+        <div>
+          <span className="font-bold block">Godly Kids Time routines</span>
+          <span className="text-xs text-[#8B4513]/70 block">Choose the steps, their length and their coins</span>
+        </div>
+      </div>
+
+      {/* Routine selector */}
+      <div className="flex gap-2 overflow-x-auto no-scrollbar">
+        {routines.map(r => (
+          <button
+            key={r.id}
+            onClick={() => setSelectedRoutineId(r.id)}
+            className={`px-4 py-2 rounded-full font-bold text-sm whitespace-nowrap border-2 transition-colors ${
+              routine.id === r.id
+                ? 'bg-[#8B4513] text-[#f3e5ab] border-[#5c2e0b]'
+                : 'bg-white/60 text-[#5c2e0b] border-[#eecaa0] hover:bg-white/80'
+            }`}
+          >
+            {r.name}
+          </button>
+        ))}
+        <button
+          onClick={handleCreate}
+          className="px-3 py-2 rounded-full font-bold text-sm whitespace-nowrap border-2 border-dashed border-[#eecaa0] text-[#8B4513] hover:bg-white/60 transition-colors flex items-center gap-1"
+        >
+          <Plus size={14} />
+          New
+        </button>
+      </div>
+
+      {/* Routine name */}
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={handleRename}
+          onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+          maxLength={40}
+          className="flex-1 bg-white/80 border border-[#eecaa0] rounded-lg px-3 py-2 text-[#5c2e0b] text-sm font-bold"
+        />
+        <button
+          onClick={handleDelete}
+          className="px-3 py-2 rounded-lg text-xs font-bold text-[#8B4513]/80 bg-white/40 hover:bg-red-100 hover:text-red-600 transition-colors"
+        >
+          {routine.id === DEFAULT_ROUTINE_ID ? 'Reset' : 'Delete'}
+        </button>
+      </div>
+
+      {/* Steps */}
+      <div className="space-y-1">
+        {routine.steps.map((step, index) => (
+          <div key={`${step.type}-${index}`} className="flex items-center gap-2 text-xs text-[#5c2e0b] bg-white/40 rounded-lg px-2 py-2">
+            <div className="flex flex-col">
+              <button
+                onClick={() => moveStep(index, -1)}
+                disabled={index === 0}
+                className="text-[#8B4513]/70 hover:text-[#5c2e0b] disabled:opacity-30"
+              >
+                <ChevronUp size={14} />
+              </button>
+              <button
+                onClick={() => moveStep(index, 1)}
+                disabled={index === routine.steps.length - 1}
+                className="text-[#8B4513]/70 hover:text-[#5c2e0b] disabled:opacity-30"
+              >
+                <ChevronDown size={14} />
+              </button>
+            </div>
+            <span className="text-lg">{SESSION_STEP_CATALOG[step.type].icon}</span>
+            <span className="flex-1 min-w-0 font-bold truncate">{SESSION_STEP_CATALOG[step.type].label}</span>
+            <select
+              value={step.minutes}
+              onChange={(e) => updateStep(index, { minutes: parseInt(e.target.value, 10) })}
+              className="bg-white/80 border border-[#eecaa0] rounded-md px-1 py-1 font-bold"
+            >
+              {STEP_MINUTE_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes} min</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 font-bold">
+              🪙
+              <input
+                type="number"
+                min={0}
+                max={MAX_STEP_COINS}
+                value={step.coins}
+                onChange={(e) => updateStep(index, { coins: parseInt(e.target.value, 10) || 0 })}
+                className="w-12 bg-white/80 border border-[#eecaa0] rounded-md px-1 py-1"
+              />
+            </label>
+            <button
+              onClick={() => removeStep(index)}
+              disabled={routine.steps.length <= 1}
+              className="p-1 rounded-full text-[#8B4513]/70 hover:bg-red-100 hover:text-red-600 transition-colors disabled:opacity-30"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+        <p className="text-xs text-[#8B4513]/70 px-1">
+          About {totalMinutes} min · up to {totalCoins} coins
+        </p>
+      </div>
+
+      {/* Add a step */}
+      {routine.steps.length < MAX_ROUTINE_STEPS && (
+        <div className="flex gap-2">
+          <select
+            value={newStepType}
+            onChange={(e) => setNewStepType(e.target.value as SessionStepType)}
+            className="flex-1 bg-white/80 border border-[#eecaa0] rounded-lg px-3 py-2 text-[#5c2e0b] text-sm font-bold"
+          >
+            {SESSION_STEP_TYPES.map(type => (
+              <option key={type} value={type}>
+                {SESSION_STEP_CATALOG[type].icon} {SESSION_STEP_CATALOG[type].label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={addStep}
+            className="flex items-center justify-center gap-2 bg-[#8B4513] hover:bg-[#A0522D] text-[#f3e5ab] font-bold py-2 px-4 rounded-xl border-2 border-[#5c2e0b] shadow-md transition-all active:scale-95"
+          >
+            <Plus size={16} />
+            <span>Add step</span>
+          </button>
+        </div>
+      )}
+
+      {/* Who does which routine */}
+      <div className="space-y-2 pt-2">
+        <span className="font-bold text-sm text-[#5c2e0b] block">Schedule</span>
+        <div className="flex gap-2 overflow-x-auto no-scrollbar">
+          {[{ id: null as string | null, name: 'All kids' }, ...kids].map(kid => (
+            <button
+              key={kid.id ?? 'all'}
+              onClick={() => setAssignKidId(kid.id)}
+              className={`px-4 py-2 rounded-full font-bold text-sm whitespace-nowrap border-2 transition-colors ${
+                assignKidId === kid.id
+                  ? 'bg-[#8B4513] text-[#f3e5ab] border-[#5c2e0b]'
+                  : 'bg-white/60 text-[#5c2e0b] border-[#eecaa0] hover:bg-white/80'
+              }`}
+            >
+              {kid.name}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-1">
+          {[null, ...WEEKDAYS.map((_, day) => day)].map(weekday => (
+            <div key={weekday ?? 'every'} className="flex items-center gap-2 text-xs text-[#5c2e0b] bg-white/40 rounded-lg px-3 py-1.5">
+              <span className="flex-1 font-bold">{weekday === null ? 'Every day' : WEEKDAYS[weekday]}</span>
+              <select
+                value={sessionRoutineService.getAssignment(assignKidId, weekday) || ''}
+                onChange={(e) => sessionRoutineService.setAssignment(assignKidId, weekday, e.target.value || null)}
+                className="bg-white/80 border border-[#eecaa0] rounded-md px-2 py-1 font-bold max-w-[60%]"
+              >
+                <option value="">{weekday === null && assignKidId === null ? 'Default' : 'Not set'}</option>
+                {routines.map(r => (
+                  <option key={r.id} value={r.id}>{r.name}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-[#8B4513]/70 px-1">
+          A kid's own day wins over their every-day routine, then the all-kids schedule.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default SessionRoutineSettingsPanel;
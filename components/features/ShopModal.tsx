@@ -10,6 +10,9 @@ import { AVATAR_ASSETS } from '../avatar/AvatarAssets';
 import { ApiService } from '../../services/apiService';
 import { filterVisibleVoices } from '../../services/voiceManagementService';
 import CoinHistoryModal from './CoinHistoryModal';
+import ParentGateModal from './ParentGateModal';
+import StreakFreezeShop from './StreakFreezeShop';
+import { useParentGate } from '../../hooks/useParentGate';
 import { useLanguage } from '../../context/LanguageContext';
 
 interface ShopModalProps {
@@ -132,7 +135,7 @@ const SHOP_BACKGROUNDS: ShopItem[] = [
     { id: 'bg11', name: 'Volcano Island', price: 500, type: 'background', value: '/assets/images/bg-volcano.jpg', isPremium: true },
 ];
 
-type ShopTab = 'head' | 'hat' | 'body' | 'arms' | 'legs' | 'moves' | 'voices' | 'backgrounds' | 'saves';
+type ShopTab = 'head' | 'hat' | 'body' | 'arms' | 'legs' | 'moves' | 'voices' | 'backgrounds' | 'streak' | 'saves';
 
 const ShopModal: React.FC<ShopModalProps> = ({ isOpen, onClose, initialTab, hideCloseButton = false }) => {
     const navigate = useNavigate();
@@ -309,10 +312,11 @@ const ShopModal: React.FC<ShopModalProps> = ({ isOpen, onClose, initialTab, hide
         deleteSavedCharacter,
         equipSavedCharacter
     } = useUser();
+    const { requireParentGate, gateProps } = useParentGate();
 
     if (!isOpen) return null;
 
-    const handleBuy = (item: ShopItem) => {
+    const buyItem = (item: ShopItem) => {
         // For voices, use the unlock system
         if (item.type === 'voice') {
             if (coins >= item.price) {
@@ -326,6 +330,15 @@ const ShopModal: React.FC<ShopModalProps> = ({ isOpen, onClose, initialTab, hide
         }
     };
 
+    // Coin spends go through the parent gate when the parent asked for it
+    const handleBuy = (item: ShopItem) => {
+        if (item.price > 0) {
+            requireParentGate('shopPurchase', () => buyItem(item));
+        } else {
+            buyItem(item);
+        }
+    };
+
     const handleEquip = (item: ShopItem) => {
         equipItem(item.type, item.value);
         if (item.type === 'animation') {
@@ -407,6 +420,7 @@ const ShopModal: React.FC<ShopModalProps> = ({ isOpen, onClose, initialTab, hide
             case 'moves': return SHOP_ANIMATIONS;
             case 'voices': return availableVoices;
             case 'backgrounds': return SHOP_BACKGROUNDS;
+            case 'streak': return []; // Handled separately
             case 'saves': return []; // Handled separately
             default: return [];
         }
@@ -893,6 +907,7 @@ const ShopModal: React.FC<ShopModalProps> = ({ isOpen, onClose, initialTab, hide
                             {renderTab('moves', 'MOVES')}
                             {renderTab('voices', 'VOICES')}
                             {renderTab('backgrounds', '🌅 SCENES')}
+                            {renderTab('streak', '🧊 STREAK')}
                             {renderTab('saves', 'MY SAVES')}
                         </div>
 
@@ -939,7 +954,9 @@ const ShopModal: React.FC<ShopModalProps> = ({ isOpen, onClose, initialTab, hide
                         style={{ WebkitOverflowScrolling: 'touch' }}
                         onTouchStart={(e) => e.stopPropagation()} // Prevent menu swipe when scrolling items
                     >
-                        {activeTab === 'saves' ? (
+                        {activeTab === 'streak' ? (
+                            <StreakFreezeShop onPurchase={(buy) => requireParentGate('shopPurchase', buy)} />
+                        ) : activeTab === 'saves' ? (
                             <div className="flex flex-col gap-4 pb-20">
                                 {/* Save Current Button */}
                                 <WoodButton
@@ -1091,6 +1108,7 @@ const ShopModal: React.FC<ShopModalProps> = ({ isOpen, onClose, initialTab, hide
                     // Already in shop, no need to do anything
                 }}
             />
+            <ParentGateModal {...gateProps} />
         </>
     );
 };
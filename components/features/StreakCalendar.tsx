@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import { streakService, StreakCalendarDay, StreakDayStatus, STREAK_EVENT } from '../../services/streakService';
+
+interface StreakCalendarProps {
+  profileId?: string | null; // defaults to the active profile
+  weeks?: number;
+}
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const STATUS_STYLES: Record<StreakDayStatus, string> = {
+  active: 'bg-orange-400',
+  rest: 'bg-[#CE93D8]/60',
+  frozen: 'bg-[#4FC3F7]',
+  recovered: 'bg-[#FFB74D]',
+  missed: 'bg-[#d7ccc8]',
+  open: 'bg-white border-2 border-[#6B8E6B]',
+  none: 'bg-[#eee6da]',
+  future: 'bg-transparent border border-dashed border-[#d7ccc8]',
+};
+
+const LEGEND: { status: StreakDayStatus; label: string }[] = [
+  { status: 'active', label: 'Did it' },
+  { status: 'rest', label: 'Rest day' },
+  { status: 'frozen', label: 'Freeze' },
+  { status: 'recovered', label: 'Won back' },
+  { status: 'missed', label: 'Missed' },
+];
+
+/**
+ * Streak Calendar
+ * GitHub-style heatmap of a kid's activity - one column per week, darker when they did
+ * both a lesson and Godly Kids Time that day.
+ */
+const StreakCalendar: React.FC<StreakCalendarProps> = ({ profileId, weeks = 12 }) => {
+  const [days, setDays] = useState<StreakCalendarDay[]>([]);
+
+  useEffect(() => {
+    const refresh = () => setDays(streakService.getCalendar(weeks, profileId));
+    refresh();
+    window.addEventListener(STREAK_EVENT, refresh);
+    return () => window.removeEventListener(STREAK_EVENT, refresh);
+  }, [profileId, weeks]);
+
+  const columns: StreakCalendarDay[][] = [];
+  for (let i = 0; i < days.length; i += 7) columns.push(days.slice(i, i + 7));
+
+  return (
+    <div>
+      <div className="flex gap-1 justify-center">
+        <div className="flex flex-col gap-1 mr-1">
+          {DAY_LABELS.map((label, i) => (
+            <span key={i} className="w-3 h-3 text-[8px] leading-3 text-[#8B4513]/50 font-bold">{label}</span>
+          ))}
+        </div>
+        {columns.map((week, w) => (
+          <div key={w} className="flex flex-col gap-1">
+            {week.map(day => (
+              <div
+                key={day.date}
+                title={`${day.date}${day.activities.length ? ` - ${day.activities.join(' + ')}` : ''}`}
+                className={`w-3 h-3 rounded-sm ${STATUS_STYLES[day.status]} ${
+                  day.status === 'active' && day.activities.length > 1 ? '!bg-red-500' : ''
+                }`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-x-3 gap-y-1 mt-3">
+        {LEGEND.map(({ status, label }) => (
+          <span key={status} className="flex items-center gap-1 text-[10px] text-[#8B4513]/70">
+            <span className={`w-2.5 h-2.5 rounded-sm ${STATUS_STYLES[status]}`} />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StreakCalendar;
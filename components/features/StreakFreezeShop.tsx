@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { useUser } from '../../context/UserContext';
+import {
+  streakService,
+  STREAK_EVENT,
+  MAX_STREAK_FREEZES,
+  STREAK_FREEZE_PRICE,
+  StreakSettings,
+} from '../../services/streakService';
+
+// Rest days from this kid's streak settings, e.g. "Sundays never break your streak."
+const restDayText = ({ sundayRest, weekendsOff }: StreakSettings): string => {
+  if (sundayRest && weekendsOff) return 'Weekends never break your streak. ';
+  if (sundayRest) return 'Sundays never break your streak. ';
+  if (weekendsOff) return 'Saturdays never break your streak. ';
+  return '';
+};
+
+interface StreakFreezeShopProps {
+  // Runs the purchase, through the parent gate when the parent asked for one
+  onPurchase: (buy: () => void) => void;
+}
+
+/**
+ * Streak Freeze Shop
+ * The shop tab where kids spend coins on streak freezes. A freeze is used up automatically
+ * on a missed school day so the streak survives.
+ */
+const StreakFreezeShop: React.FC<StreakFreezeShopProps> = ({ onPurchase }) => {
+  const { coins, spendCoins } = useUser();
+  const [freezes, setFreezes] = useState(0);
+  const [settings, setSettings] = useState<StreakSettings>(() => streakService.getSettings());
+
+  useEffect(() => {
+    const refresh = () => {
+      setFreezes(streakService.getFreezes());
+      setSettings(streakService.getSettings());
+    };
+    refresh();
+    window.addEventListener(STREAK_EVENT, refresh);
+    return () => window.removeEventListener(STREAK_EVENT, refresh);
+  }, []);
+
+  const isFull = freezes >= MAX_STREAK_FREEZES;
+  const canAfford = coins >= STREAK_FREEZE_PRICE;
+
+  const handleBuy = () => {
+    onPurchase(() => {
+      if (streakService.getFreezes() >= MAX_STREAK_FREEZES) return;
+      if (spendCoins(STREAK_FREEZE_PRICE, 'Streak Freeze')) streakService.addFreeze();
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4 pb-20">
+      <div className="bg-white/60 rounded-2xl p-5 border-2 border-[#8B4513]/30 text-center">
+        <div className="text-5xl mb-2">🧊</div>
+        <h3 className="font-display font-bold text-[#5c2e0b] text-xl">Streak Freeze</h3>
+        <p className="text-[#8B4513]/80 text-sm mt-1">
+          Missed a day? A freeze keeps your streak going. It's used up automatically.
+        </p>
+
+        <div className="flex justify-center gap-2 my-4">
+          {Array.from({ length: MAX_STREAK_FREEZES }).map((_, i) => (
+            <div
+              key={i}
+              className={`w-12 h-12 rounded-xl flex items-center justify-center text-2xl border-2 ${
+                i < freezes ? 'bg-[#B3E5FC] border-[#4FC3F7]' : 'bg-[#e8e0d0] border-[#d7ccc8] opacity-50'
+              }`}
+            >
+              🧊
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={handleBuy}
+          disabled={isFull || !canAfford}
+          className="w-full bg-[#8B4513] hover:bg-[#A0522D] text-[#FFD700] font-display font-bold py-3 rounded-xl border-2 border-[#5c2e0b] shadow-md transition-all active:scale-95 disabled:opacity-50 disabled:active:scale-100"
+        >
+          {isFull
+            ? `You have ${MAX_STREAK_FREEZES} - that's the most!`
+            : `BUY FOR 🪙 ${STREAK_FREEZE_PRICE}`}
+        </button>
+        {!isFull && !canAfford && (
+          <p className="text-xs text-[#8B4513]/70 mt-2">Earn more coins with lessons and Godly Kids Time!</p>
+        )}
+      </div>
+
+      <p className="text-xs text-[#8B4513]/70 text-center px-4">
+        {restDayText(settings)}Lost one anyway? Do a lesson or Godly Kids Time within 48 hours to win it back.
+      </p>
+    </div>
+  );
+};
+
+export default StreakFreezeShop;
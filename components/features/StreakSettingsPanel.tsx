@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { Flame } from 'lucide-react';
+import { useUser } from '../../context/UserContext';
+import StreakCalendar from './StreakCalendar';
+import {
+  streakService,
+  StreakSettings,
+  StreakSummary,
+  STREAK_EVENT,
+} from '../../services/streakService';
+
+const SETTING_OPTIONS: { key: keyof StreakSettings; label: string; hint: string }[] = [
+  { key: 'sundayRest', label: 'Sundays are church days', hint: 'Skipping a Sunday never breaks the streak' },
+  { key: 'weekendsOff', label: 'Weekends off', hint: 'Saturdays are rest days too' },
+];
+
+/**
+ * Streak Settings
+ * Parents choose which days are rest days for each kid and see their streak history
+ * across lessons and Godly Kids Time.
+ */
+const StreakSettingsPanel: React.FC = () => {
+  const { kids } = useUser();
+  const [selectedKidId, setSelectedKidId] = useState<string | null>(kids[0]?.id || null);
+  const [settings, setSettings] = useState<StreakSettings | null>(null);
+  const [summary, setSummary] = useState<StreakSummary | null>(null);
+
+  useEffect(() => {
+    if (!selectedKidId && kids.length > 0) setSelectedKidId(kids[0].id);
+  }, [kids, selectedKidId]);
+
+  useEffect(() => {
+    const refresh = () => {
+      setSettings(selectedKidId ? streakService.getSettings(selectedKidId) : null);
+      setSummary(selectedKidId ? streakService.getSummary(selectedKidId) : null);
+    };
+    refresh();
+    window.addEventListener(STREAK_EVENT, refresh);
+    return () => window.removeEventListener(STREAK_EVENT, refresh);
+  }, [selectedKidId]);
+
+  if (kids.length === 0) {
+    return (
+      <p className="text-[#5c2e0b] text-sm opacity-70">
+        Add a kid profile to see their streaks.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 text-[#5c2e0b]">
+        <div className="w-8 h-8 rounded-full bg-[#ffe0b2] flex items-center justify-center text-[#f57c00] shrink-0">
+          <Flame size={18} />
+        </div>
+        <div>
+          <span className="font-bold block">Streaks</span>
+          <span className="text-xs text-[#8B4513]/70 block">Lessons and Godly Kids Time both count</span>
+        </div>
+      </div>
+
+      {/* Kid selector */}
+      <div className="flex gap-2 overflow-x-auto no-scrollbar">
+        {kids.map(kid => (
+          <button
+            key={kid.id}
+            onClick={() => setSelectedKidId(kid.id)}
+            className={`px-4 py-2 rounded-full font-bold text-sm whitespace-nowrap border-2 transition-colors ${
+              selectedKidId === kid.id
+                ? 'bg-[#8B4513] text-[#f3e5ab] border-[#5c2e0b]'
+                : 'bg-white/60 text-[#5c2e0b] border-[#eecaa0] hover:bg-white/80'
+            }`}
+          >
+            {kid.name}
+          </button>
+        ))}
+      </div>
+
+      {selectedKidId && settings && summary && (
+        <>
+          {/* Rest days */}
+          <div className="space-y-2">
+            {SETTING_OPTIONS.map(option => (
+              <div key={option.key} className="flex items-center justify-between gap-3 bg-white/40 rounded-lg px-3 py-2">
+                <div className="text-[#5c2e0b]">
+                  <span className="font-bold text-sm block">{option.label}</span>
+                  <span className="text-xs text-[#8B4513]/70 block">{option.hint}</span>
+                </div>
+                <button
+                  onClick={() => streakService.updateSettings({ [option.key]: !settings[option.key] }, selectedKidId)}
+                  className={`w-12 h-7 rounded-full relative transition-colors duration-200 border-2 shrink-0 ${
+                    settings[option.key] ? 'bg-[#8bc34a] border-[#689f38]' : 'bg-gray-300 border-gray-400'
+                  }`}
+                >
+                  <div className={`absolute top-0.5 w-5 h-5 bg-white rounded-full shadow-sm transition-all duration-200 ${settings[option.key] ? 'left-5' : 'left-0.5'}`}></div>
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* History */}
+          <div className="bg-white/40 rounded-xl p-3 space-y-3">
+            <div className="flex justify-around text-center text-[#5c2e0b]">
+              <div>
+                <span className="block font-display font-bold text-lg">{summary.current}</span>
+                <span className="text-xs text-[#8B4513]/70">Current</span>
+              </div>
+              <div>
+                <span className="block font-display font-bold text-lg">{summary.longest}</span>
+                <span className="text-xs text-[#8B4513]/70">Best</span>
+              </div>
+              <div>
+                <span className="block font-display font-bold text-lg">🧊 {summary.freezes}</span>
+                <span className="text-xs text-[#8B4513]/70">Freezes</span>
+              </div>
+            </div>
+            <StreakCalendar profileId={selectedKidId} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StreakSettingsPanel;
@@ -1,6 +1,8 @@
 import React from 'react';
 import { createPortal } from 'react-dom';
 import { X, ExternalLink, Loader2 } from 'lucide-react';
+import ParentGateModal from './ParentGateModal';
+import { useParentGate } from '../../hooks/useParentGate';
 
 interface WebViewModalProps {
   isOpen: boolean;
@@ -12,6 +14,7 @@ interface WebViewModalProps {
 
 const WebViewModal: React.FC<WebViewModalProps> = ({ isOpen, onClose, url, title, hideExternalLink = false }) => {
   const [isLoading, setIsLoading] = React.useState(true);
+  const { requireParentGate, gateProps } = useParentGate();
 
   if (!isOpen) return null;
 
@@ -38,15 +41,13 @@ const WebViewModal: React.FC<WebViewModalProps> = ({ isOpen, onClose, url, title
           {hideExternalLink ? (
             <div className="w-10 h-10" /> // Spacer for layout balance
           ) : (
-            <a 
-              href={url}
-              target="_blank"
-              rel="noopener noreferrer"
+            <button
+              onClick={() => requireParentGate('externalLink', () => window.open(url, '_blank', 'noopener,noreferrer'))}
               className="w-10 h-10 bg-[#8B4513] hover:bg-[#A0522D] rounded-full flex items-center justify-center text-[#f3e5ab] border-2 border-[#eecaa0] active:scale-95 transition-transform shadow-md"
               aria-label="Open in browser"
             >
               <ExternalLink size={18} />
-            </a>
+            </button>
           )}
         </div>
       </div>
@@ -71,6 +72,8 @@ const WebViewModal: React.FC<WebViewModalProps> = ({ isOpen, onClose, url, title
           sandbox="allow-same-origin allow-scripts allow-popups allow-forms"
         />
       </div>
+
+      <ParentGateModal {...gateProps} />
     </div>,
     document.body
   );
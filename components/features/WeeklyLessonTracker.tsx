@@ -1,10 +1,11 @@
 import React from 'react';
-import { Check, Circle, Moon } from 'lucide-react';
+import { Check, Circle, CircleDashed, Moon } from 'lucide-react';
 
 interface WeeklyLessonTrackerProps {
   selectedDay: number; // 0-4 for Mon-Fri
   onDaySelect: (dayIndex: number) => void;
   dayCompletions: boolean[]; // Array of 5 booleans for Mon-Fri completion status
+  dayInProgress?: boolean[]; // Mon-Fri: a lesson that day was started but not finished
   todayIndex: number; // 0-4 indicating which day is today (or -1 if weekend)
 }
 
@@ -15,6 +16,7 @@ const WeeklyLessonTracker: React.FC<WeeklyLessonTrackerProps> = ({
   selectedDay,
   onDaySelect,
   dayCompletions,
+  dayInProgress = [],
   todayIndex,
 }) => {
   // Get current day of week (0 = Sunday, 6 = Saturday)
@@ -61,6 +63,7 @@ const WeeklyLessonTracker: React.FC<WeeklyLessonTrackerProps> = ({
           const isWeekend = index >= 5; // Sat (5) or Sun (6)
           const weekdayIndex = isWeekend ? -1 : index; // Only 0-4 are valid weekday indices
           const isCompleted = !isWeekend && dayCompletions[weekdayIndex];
+          const isInProgress = !isWeekend && !isCompleted && !!dayInProgress[weekdayIndex];
           const isToday = isWeekend 
             ? (index === 5 && isTodaySaturday) || (index === 6 && isTodaySunday)
             : index === todayIndex;
@@ -141,6 +144,8 @@ const WeeklyLessonTracker: React.FC<WeeklyLessonTrackerProps> = ({
               `}>
                 {isCompleted ? (
                   <Check className="w-3.5 h-3.5 text-white" strokeWidth={3} />
+                ) : isInProgress ? (
+                  <CircleDashed className="w-3.5 h-3.5 text-[#FF9800]" strokeWidth={3} />
                 ) : (
                   <Circle className={`w-2.5 h-2.5 ${
                     isSelected ? 'text-[#FFD700]' : 
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Moon, Clock, Lock, UserRound } from 'lucide-react';
+import WoodButton from '../ui/WoodButton';
+import ParentGateModal from './ParentGateModal';
+import ParentPinModal from './ParentPinModal';
+import { useUser } from '../../context/UserContext';
+import { useParentalControls } from '../../hooks/useParentalControls';
+import { parentalControlsService } from '../../services/parentalControlsService';
+
+const EXTRA_TIME_OPTIONS = [15, 30, 60];
+const WARNING_MINUTES = 5;
+
+/**
+ * Wind-down Screen
+ * Covers the app when a kid profile reaches its daily time budget or is outside
+ * its allowed hours. A parent can add time (or switch to their profile) through the gate.
+ * Also shows a gentle heads-up shortly before the time runs out.
+ */
+const WindDownScreen: React.FC = () => {
+  const { kids, currentProfileId, switchProfile } = useUser();
+  const { status } = useParentalControls(true);
+  const [showGate, setShowGate] = useState(false);
+  const [isParentApproved, setIsParentApproved] = useState(false);
+
+  if (!currentProfileId) return null;
+
+  const kidName = kids.find(k => k.id === currentProfileId)?.name || 'friend';
+
+  if (status.state === 'ok') {
+    if (status.remainingMinutes === null || status.remainingMinutes > WARNING_MINUTES) return null;
+    return (
+      <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[150] pointer-events-none">
+        <div className="flex items-center gap-2 bg-[#5c2e0b]/90 text-[#FFD700] px-4 py-2 rounded-full border-2 border-[#FFD700]/60 shadow-lg font-display font-bold text-sm">
+          <Clock size={16} />
+          {status.remainingMinutes <= 1 ? 'Last minute - time to finish up!' : `${status.remainingMinutes} minutes left today`}
+        </div>
+      </div>
+    );
+  }
+
+  const isBedtime = status.state === 'bedtime';
+
+  const grantTime = (minutes: number) => {
+    parentalControlsService.grantExtraTime(currentProfileId, minutes);
+    setIsParentApproved(false);
+  };
+
+  const screen = (
+    <div className="fixed inset-0 z-[190] flex items-center justify-center px-6 bg-gradient-to-b from-[#1a237e] via-[#283593] to-[#3e1f07]">
+      {/* Stars */}
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        {Array.from({ length: 24 }).map((_, i) => (
+          <div
+            key={i}
+            className="absolute w-1 h-1 bg-white rounded-full animate-pulse"
+            style={{ top: `${(i * 37) % 60}%`, left: `${(i * 53) % 100}%`, animationDelay: `${(i % 6) * 0.4}s` }}
+          />
+        ))}
+      </div>
+
+      <div className="relative w-full max-w-sm bg-[#fdf6e3] rounded-3xl p-6 shadow-2xl border-4 border-[#8B4513] flex flex-col items-center text-center">
+        <div className="w-20 h-20 -mt-16 mb-3 bg-[#283593] rounded-full flex items-center justify-center border-4 border-[#FFD700] shadow-lg">
+          <Moon size={40} className="text-[#FFD700]" fill="#FFD700" />
+        </div>
+
+        <h2 className="font-display font-extrabold text-2xl text-[#5c2e0b] mb-2">
+          {isBedtime ? `Sleep tight, ${kidName}!` : `Great job today, ${kidName}!`}
+        </h2>
+        <p className="text-[#8B4513] font-semibold mb-6">
+          {isBedtime
+            ? 'It\'s time to rest. The stories will be waiting for you tomorrow.'
+            : 'You\'ve used all your time for today. Time to stretch, play outside or read a paper book!'}
+        </p>
+
+        {!isParentApproved ? (
+          <WoodButton fullWidth variant="primary" className="py-3 flex items-center justify-center gap-2" onClick={() => setShowGate(true)}>
+            <Lock size={18} />
+            <span>Ask a Parent</span>
+          </WoodButton>
+        ) : (
+          <div className="w-full space-y-3">
+            <p className="text-[#5c2e0b] text-sm font-bold">
+              {isBedtime ? 'Allow the app for:' : 'Add extra time for today:'}
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              {EXTRA_TIME_OPTIONS.map(minutes => (
+                <button
+                  key={minutes}
+                  onClick={() => grantTime(minutes)}
+                  className="bg-[#8bc34a] hover:bg-[#7cb342] text-white font-display font-bold py-3 rounded-xl border-b-4 border-[#689f38] active:border-b-0 active:translate-y-1 transition-all"
+                >
+                  +{minutes}m
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => {
+                setIsParentApproved(false);
+                switchProfile(null);
+              }}
+              className="w-full flex items-center justify-center gap-2 text-[#8B4513] text-sm font-bold py-2 hover:underline"
+            >
+              <UserRound size={16} />
+              Switch to parent profile
+            </button>
+          </div>
+        )}
+      </div>
+
+      {parentalControlsService.hasPin() ? (
+        <ParentPinModal
+          isOpen={showGate}
+          mode="verify"
+          purpose="screenTime"
+          onClose={() => setShowGate(false)}
+          onSuccess={() => setIsParentApproved(true)}
+        />
+      ) : (
+        <ParentGateModal
+          isOpen={showGate}
+          onClose={() => setShowGate(false)}
+          onSuccess={() => setIsParentApproved(true)}
+          purpose="screenTime"
+        />
+      )}
+    </div>
+  );
+
+  return createPortal(screen, document.body);
+};
+
+export default WindDownScreen;
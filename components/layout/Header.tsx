@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, lazy, Suspense } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { Crown, FileText, Clock } from 'lucide-react';
+import { Crown, FileText, Clock, Search } from 'lucide-react';
 const ShopModal = lazy(() => import('../features/ShopModal'));
 import AvatarDetailModal from '../features/AvatarDetailModal';
 import CoinHistoryModal from '../features/CoinHistoryModal';
@@ -11,6 +11,7 @@ import { useTutorial } from '../../context/TutorialContext';
 import { useSubscription } from '../../context/SubscriptionContext';
 import ErrorBoundary from '../common/ErrorBoundary';
 import { AVATAR_ASSETS } from '../avatar/AvatarAssets';
+import { useParentalControls } from '../../hooks/useParentalControls';
 
 // Lifetime deal timer constants - shared with PaywallPage
 const LIFETIME_DEAL_KEY = 'godlykids_lifetime_deal_start';
@@ -27,6 +28,8 @@ const Header: React.FC<HeaderProps> = ({ isVisible, title = "GODLY KIDS" }) => {
   const { coins, equippedAvatar, equippedFrame, equippedHat, equippedBody, equippedLeftArm, equippedRightArm, equippedLegs, isSubscribed, headOffset } = useUser();
   const { isStepActive, nextStep, isTutorialActive, currentStep } = useTutorial();
   const { reverseTrial, isPremium } = useSubscription();
+  const { controls: parentalControls } = useParentalControls();
+  const isShopDisabled = !!parentalControls?.disableShop;
   const [isShopOpen, setIsShopOpen] = useState(false);
   const [isDetailOpen, setIsDetailOpen] = useState(false);
   const [isCoinHistoryOpen, setIsCoinHistoryOpen] = useState(false);
@@ -120,6 +123,7 @@ const Header: React.FC<HeaderProps> = ({ isVisible, title = "GODLY KIDS" }) => {
   };
 
   const handleShopClick = () => {
+    if (isShopDisabled) return;
     setIsShopOpen(true);
     if (isStepActive('shop_highlight')) {
       nextStep(); // Advance to shop_open
@@ -138,7 +142,7 @@ const Header: React.FC<HeaderProps> = ({ isVisible, title = "GODLY KIDS" }) => {
   // Check for openShop in navigation state
   useEffect(() => {
     if (location.state && (location.state as any).openShop) {
-      setIsShopOpen(true);
+      if (!isShopDisabled) setIsShopOpen(true);
       // Clear the state to prevent reopening on refresh/back
       window.history.replaceState({}, document.title);
     }
@@ -290,6 +294,17 @@ const Header: React.FC<HeaderProps> = ({ isVisible, title = "GODLY KIDS" }) => {
                 </span>
               </button>
 
+              {/* Search Button */}
+              <button
+                id="search-button"
+                onClick={() => navigate('/search')}
+                className="bg-[#8B4513] hover:bg-[#A0522D] px-2 py-1.5 rounded-lg border-2 border-[#5c2e0b] shadow-[0_4px_0_#3e1f07] active:translate-y-[2px] active:shadow-none transition-all relative group flex items-center justify-center"
+                title="Search"
+                aria-label="Search"
+              >
+                <Search className="w-5 h-5 text-[#FFD700] group-hover:text-white transition-colors" />
+              </button>
+
               {/* Report Card Button */}
               <button
                 id="report-card-button"
@@ -301,26 +316,28 @@ const Header: React.FC<HeaderProps> = ({ isVisible, title = "GODLY KIDS" }) => {
                 <FileText className="w-5 h-5 text-white/90 group-hover:text-white transition-colors" />
               </button>
 
-              {/* Shop Sign Button */}
-              <button
-                id="shop-button"
-                data-tutorial="shop-button"
-                onClick={handleShopClick}
-                className="bg-[#8B4513] hover:bg-[#A0522D] px-3 py-1.5 rounded-lg border-2 border-[#5c2e0b] shadow-[0_4px_0_#3e1f07] active:translate-y-[2px] active:shadow-none transition-all relative group flex items-center justify-center"
-              >
-                {/* Wood Texture Overlay */}
-                <div className="absolute inset-0 opacity-20 bg-[url('https://www.transparenttextures.com/patterns/wood-pattern.png')] pointer-events-none rounded-md"></div>
+              {/* Shop Sign Button - hidden when parental controls disable the shop */}
+              {!isShopDisabled && (
+                <button
+                  id="shop-button"
+                  data-tutorial="shop-button"
+                  onClick={handleShopClick}
+                  className="bg-[#8B4513] hover:bg-[#A0522D] px-3 py-1.5 rounded-lg border-2 border-[#5c2e0b] shadow-[0_4px_0_#3e1f07] active:translate-y-[2px] active:shadow-none transition-all relative group flex items-center justify-center"
+                >
+                  {/* Wood Texture Overlay */}
+                  <div className="absolute inset-0 opacity-20 bg-[url('https://www.transparenttextures.com/patterns/wood-pattern.png')] pointer-events-none rounded-md"></div>
 
-                {/* Nails */}
-                <div className="absolute top-1 left-1 w-1 h-1 bg-[#2d1809] rounded-full opacity-60"></div>
-                <div className="absolute top-1 right-1 w-1 h-1 bg-[#2d1809] rounded-full opacity-60"></div>
-                <div className="absolute bottom-1 left-1 w-1 h-1 bg-[#2d1809] rounded-full opacity-60"></div>
-                <div className="absolute bottom-1 right-1 w-1 h-1 bg-[#2d1809] rounded-full opacity-60"></div>
+                  {/* Nails */}
+                  <div className="absolute top-1 left-1 w-1 h-1 bg-[#2d1809] rounded-full opacity-60"></div>
+                  <div className="absolute top-1 right-1 w-1 h-1 bg-[#2d1809] rounded-full opacity-60"></div>
+                  <div className="absolute bottom-1 left-1 w-1 h-1 bg-[#2d1809] rounded-full opacity-60"></div>
+                  <div className="absolute bottom-1 right-1 w-1 h-1 bg-[#2d1809] rounded-full opacity-60"></div>
 
-                <span className="text-[#FFD700] font-display font-black text-sm tracking-wide drop-shadow-md uppercase group-hover:text-white transition-colors relative z-10">
-                  Shop
-                </span>
-              </button>
+                  <span className="text-[#FFD700] font-display font-black text-sm tracking-wide drop-shadow-md uppercase group-hover:text-white transition-colors relative z-10">
+                    Shop
+                  </span>
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { Sparkles, Star } from 'lucide-react';
+import WoodButton from '../ui/WoodButton';
+import { EarnedBadge } from '../../services/achievementsService';
+
+interface AchievementUnlockedModalProps {
+  badge: EarnedBadge | null;
+  kidName?: string;
+  onClose: () => void;
+}
+
+const CONFETTI_COLORS = ['#FFD700', '#FF6B6B', '#4ECDC4', '#45B7D1', '#96E6A1', '#DDA0DD'];
+
+const AchievementUnlockedModal: React.FC<AchievementUnlockedModalProps> = ({ badge, kidName, onClose }) => {
+  // Fixed per badge so the confetti doesn't jump around on re-render
+  const confetti = useMemo(() => Array.from({ length: 40 }).map((_, i) => ({
+    left: Math.random() * 100,
+    rotation: Math.random() * 360,
+    duration: 2 + Math.random() * 2,
+    delay: Math.random() * 0.5,
+    color: CONFETTI_COLORS[i % CONFETTI_COLORS.length],
+  })), [badge?.badgeId]);
+
+  if (!badge) return null;
+
+  const modalContent = (
+    <div
+      className="fixed inset-0 z-[99999] flex items-center justify-center"
+      style={{ backgroundColor: 'rgba(0, 0, 0, 0.85)' }}
+    >
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        {confetti.map((piece, i) => (
+          <div
+            key={i}
+            className="absolute w-3 h-3 rounded-sm"
+            style={{
+              left: `${piece.left}%`,
+              top: '-10px',
+              backgroundColor: piece.color,
+              transform: `rotate(${piece.rotation}deg)`,
+              animation: `badge-confetti-fall ${piece.duration}s ease-out ${piece.delay}s forwards`,
+            }}
+          />
+        ))}
+      </div>
+
+      <div className="relative bg-gradient-to-b from-[#2a1f4e] to-[#1a1a2e] rounded-3xl p-8 mx-6 max-w-sm w-full shadow-2xl border border-[#FFD700]/20 text-center">
+        <div className="absolute inset-0 rounded-3xl bg-[#FFD700]/5 blur-xl" />
+
+        {/* Badge */}
+        <div className="relative flex justify-center mb-6">
+          <div
+            className="w-28 h-28 rounded-full flex items-center justify-center shadow-lg border-4 border-white/80 animate-bounce"
+            style={{ backgroundColor: badge.color, boxShadow: `0 0 30px ${badge.color}80` }}
+          >
+            <span className="text-6xl">{badge.icon}</span>
+          </div>
+          <Sparkles className="absolute top-0 left-1/4 w-6 h-6 text-[#FFD700] animate-pulse" />
+          <Sparkles className="absolute top-4 right-1/4 w-5 h-5 text-[#FFD700] animate-pulse" style={{ animationDelay: '0.3s' }} />
+          <Star className="absolute bottom-0 left-1/3 w-4 h-4 text-[#FFD700] animate-pulse" style={{ animationDelay: '0.6s' }} />
+        </div>
+
+        <div className="relative mb-6">
+          <p className="text-white/60 text-sm font-bold uppercase tracking-wide mb-1">
+            {kidName ? `${kidName} earned a badge!` : 'New badge!'}
+          </p>
+          <h2 className="text-[#FFD700] font-display font-bold text-2xl mb-2">{badge.title}</h2>
+          {badge.description && <p className="text-white/70">{badge.description}</p>}
+        </div>
+
+        <div className="relative">
+          <WoodButton onClick={onClose} fullWidth variant="gold" className="py-4">
+            Awesome!
+          </WoodButton>
+        </div>
+      </div>
+
+      <style>{`
+        @keyframes badge-confetti-fall {
+          0% {
+            transform: translateY(0) rotate(0deg);
+            opacity: 1;
+          }
+          100% {
+            transform: translateY(100vh) rotate(720deg);
+            opacity: 0;
+          }
+        }
+      `}</style>
+    </div>
+  );
+
+  return createPortal(modalContent, document.body);
+};
+
+export default AchievementUnlockedModal;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { X, BookOpen, Sparkles, Star, RotateCcw, Check, HelpCircle, Lightbulb } from 'lucide-react';
 import { useAudio } from '../../context/AudioContext';
+import { memoryVerseService } from '../../services/memoryVerseService';
 
 interface DailyVerseModalProps {
   isOpen: boolean;
@@ -9,7 +10,8 @@ interface DailyVerseModalProps {
 }
 
 // Collection of kid-friendly Bible verses with discussion questions
-const DAILY_VERSES = [
+// (also the starter deck for memory verse practice)
+export const DAILY_VERSES = [
   { 
     text: "I am with you always even to the end of the age", 
     ref: "Matthew 28:20", 
@@ -300,6 +302,9 @@ const DailyVerseModal: React.FC<DailyVerseModalProps> = ({
     
     setEarnedStars(stars);
     setShowSparkles(true);
+
+    // Keep practicing it so it's still remembered next week
+    memoryVerseService.addVerse({ text: verse.text, ref: verse.ref, source: 'daily' });
     
     setTimeout(() => {
       playSuccess?.();
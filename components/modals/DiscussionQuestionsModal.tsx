@@ -18,6 +18,7 @@ interface DiscussionQuestionsModalProps {
   bookContent?: string;
   preGeneratedQuestions?: DiscussionQuestion[]; // Pre-generated questions from parent
   childAge?: number | string; // Age passed from parent (optional)
+  turnNames?: string[]; // Family session: kids take turns answering, in this order
 }
 
 const DiscussionQuestionsModal: React.FC<DiscussionQuestionsModalProps> = ({
@@ -29,6 +30,7 @@ const DiscussionQuestionsModal: React.FC<DiscussionQuestionsModalProps> = ({
   bookContent,
   preGeneratedQuestions,
   childAge: propChildAge,
+  turnNames,
 }) => {
   // Get current kid's age from context as fallback
   const { kids, currentProfileId } = useUser();
@@ -213,6 +215,15 @@ const DiscussionQuestionsModal: React.FC<DiscussionQuestionsModalProps> = ({
                 Based on: <span className="font-medium">{bookTitle}</span>
               </p>
 
+              {/* Whose turn it is to answer */}
+              {turnNames && turnNames.length > 0 && (
+                <p className="text-center mb-2">
+                  <span className="inline-block bg-[#FFD700]/30 text-[#5D4037] font-bold text-sm rounded-full px-4 py-1">
+                    🎤 {turnNames[currentQuestionIndex % turnNames.length]}'s turn
+                  </span>
+                </p>
+              )}
+
               {/* Question card - expanded height for longer questions */}
               {currentQuestion && (
                 <div className="bg-white rounded-xl p-5 shadow-md border-2 border-[#8B4513]/20 mb-4 overflow-visible">
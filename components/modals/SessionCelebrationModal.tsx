@@ -81,6 +81,7 @@ const SessionCelebrationModal: React.FC<SessionCelebrationModalProps> = ({
 
   const completedSteps = session.steps.filter(s => s.status === 'completed').length;
   const totalSteps = session.steps.length;
+  const participants = session.participants && session.participants.length > 1 ? session.participants : null;
 
   const modalContent = (
     <div 
@@ -123,7 +124,9 @@ const SessionCelebrationModal: React.FC<SessionCelebrationModalProps> = ({
             Amazing Job!
           </h2>
           <p className="text-white/70">
-            You completed today's Godly Kids Time!
+            {participants
+              ? `${participants.map(p => p.name).join(' & ')} completed today's Godly Kids Time!`
+              : "You completed today's Godly Kids Time!"}
           </p>
         </div>
         
@@ -155,8 +158,20 @@ const SessionCelebrationModal: React.FC<SessionCelebrationModalProps> = ({
             </span>
           </div>
           
+          {/* Family session - what each kid earned */}
+          {participants && (
+            <div className="bg-white/10 rounded-2xl p-4 space-y-2">
+              {participants.map(p => (
+                <div key={p.profileId} className="flex items-center justify-between">
+                  <span className="text-white font-medium">{p.name}</span>
+                  <span className="text-[#FFD700] font-bold">+{p.coinsEarned}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          
           {/* Step breakdown */}
-          <div className="flex justify-center gap-4 pt-2">
+          <div className="flex flex-wrap justify-center gap-4 pt-2">
             {session.steps.map((step, index) => (
               <div key={index} className="flex flex-col items-center">
                 <div className={`
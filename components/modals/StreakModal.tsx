@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { useNavigate } from 'react-router-dom';
+import { X, Flame } from 'lucide-react';
+import StreakCalendar from '../features/StreakCalendar';
+import { streakService, StreakSummary, STREAK_EVENT, MAX_STREAK_FREEZES } from '../../services/streakService';
+
+interface StreakModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// "Thursday 9:00 PM" - when a lost streak can no longer be won back
+const formatDeadline = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { weekday: 'long', hour: 'numeric', minute: '2-digit' });
+
+const StreakModal: React.FC<StreakModalProps> = ({ isOpen, onClose }) => {
+  const navigate = useNavigate();
+  const [summary, setSummary] = useState<StreakSummary | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const refresh = () => setSummary(streakService.getSummary());
+    refresh();
+    window.addEventListener(STREAK_EVENT, refresh);
+    return () => window.removeEventListener(STREAK_EVENT, refresh);
+  }, [isOpen]);
+
+  if (!isOpen || !summary) return null;
+
+  const modalContent = (
+    <div
+      className="fixed inset-0 z-[99999] flex items-center justify-center p-4"
+      style={{ backgroundColor: 'rgba(0, 0, 0, 0.7)' }}
+      onClick={onClose}
+    >
+      <div
+        className="relative bg-[#fdf6e3] rounded-3xl p-6 max-w-sm w-full shadow-2xl border-4 border-[#8B4513]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 w-8 h-8 rounded-full bg-[#8B4513]/10 flex items-center justify-center text-[#8B4513]"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        {/* Current streak */}
+        <div className="text-center mb-4">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gradient-to-br from-orange-400 to-red-500 shadow-lg mb-2">
+            <Flame className="w-9 h-9 text-white" />
+          </div>
+          <h2 className="font-display font-bold text-2xl text-[#5c2e0b]">
+            {summary.current} Day Streak
+          </h2>
+          <p className="text-[#8B4513]/70 text-sm">
+            {summary.activeToday ? "Today's done - great job!" : 'Do a lesson or Godly Kids Time today'}
+          </p>
+        </div>
+
+        {/* Lost streak that can still be won back */}
+        {summary.recovery && (
+          <div className="bg-[#FFF3E0] border-2 border-[#FFB74D] rounded-2xl p-3 mb-4 text-center">
+            <p className="font-display font-bold text-[#E65100]">
+              Win back your {summary.recovery.lostStreak}-day streak!
+            </p>
+            <p className="text-xs text-[#8B4513]/80 mt-1">
+              Finish a make-up lesson or Godly Kids Time before {formatDeadline(summary.recovery.deadline)}.
+            </p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div className="bg-white/70 rounded-xl p-3 text-center border border-[#eecaa0]">
+            <span className="block font-display font-bold text-xl text-[#5c2e0b]">{summary.longest}</span>
+            <span className="text-xs text-[#8B4513]/70">Best streak</span>
+          </div>
+          <div className="bg-white/70 rounded-xl p-3 text-center border border-[#eecaa0]">
+            <span className="block font-display font-bold text-xl text-[#0288D1]">
+              🧊 {summary.freezes}/{MAX_STREAK_FREEZES}
+            </span>
+            <span className="text-xs text-[#8B4513]/70">Streak freezes</span>
+          </div>
+        </div>
+
+        <StreakCalendar />
+
+        {summary.freezes < MAX_STREAK_FREEZES && (
+          <button
+            onClick={() => {
+              onClose();
+              navigate('/profile', { state: { openShop: true, shopTab: 'streak' } });
+            }}
+            className="w-full mt-5 bg-[#8B4513] hover:bg-[#A0522D] text-[#FFD700] font-display font-bold py-3 rounded-xl border-2 border-[#5c2e0b] shadow-md transition-all active:scale-95"
+          >
+            Get a streak freeze
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return createPortal(modalContent, document.body);
+};
+
+export default StreakModal;
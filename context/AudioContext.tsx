@@ -5,6 +5,15 @@ import { playHistoryService } from '../services/playHistoryService';
 import { analyticsService } from '../services/analyticsService';
 import { activityTrackingService } from '../services/activityTrackingService';
 import { incrementActivityCounter } from '../components/features/ReviewPromptModal';
+import { listeningPositionService } from '../services/listeningPositionService';
+import { profileService } from '../services/profileService';
+import { playQueueService } from '../services/playQueueService';
+import { PlaylistAudioEngine } from '../services/playlistAudioEngine';
+import {
+    PlayQueue, createEmptyQueue, getCurrentEntry, resolveEntry, startPlaylist, insertNext, appendToQueue,
+    removeEntry, clearUpcoming, reorderUpcoming, jumpToEntry, setShuffle, setRepeat, nextRepeatMode,
+    advanceQueue, rewindQueue, peekNextEntry, canAdvance, canRewind
+} from '../utils/playQueue';
 
 // --- Interfaces ---
 export interface AudioItem {
@@ -14,6 +23,7 @@ export interface AudioItem {
     coverImage?: string;
     audioUrl: string;
     duration?: number;
+    gain?: number; // loudness normalization in dB, measured when the portal uploaded it
     order: number;
 }
 
@@ -30,9 +40,37 @@ export interface Playlist {
     isMembersOnly?: boolean;
 }
 
+// Sleep timer: stop at the end of the current episode, or after a number of minutes of listening
+export type SleepTimerOption = 'episode' | number;
+export const SLEEP_TIMER_MINUTES = [5, 15, 30, 60];
+
+export interface SleepTimer {
+    option: SleepTimerOption;
+    remaining: number | null; // seconds of listening left (null for end of episode)
+}
+
 // Premium preview constants
 const AUDIO_PREVIEW_SECONDS = 120; // 2 minute preview for premium audio
 
+// Sleep timer fades the volume out over its last seconds
+const SLEEP_FADE_SECONDS = 15;
+const SLEEP_TICK_MS = 500;
+// How often (seconds of playback) the audiobook position is saved
+const POSITION_SAVE_INTERVAL = 5;
+// The next track is buffered on the engine's other deck this close to the end of the current one
+const PRELOAD_AHEAD_SECONDS = 30;
+
+const isAudiobook = (playlist: Playlist | null): boolean => playlist?.type === 'Audiobook';
+
+// Items without an _id are remembered by their place in the playlist
+const getItemKey = (playlist: Playlist, index: number): string => playlist.items[index]?._id || String(index);
+
+const getSleepTimerLabel = (timer: SleepTimer | null): string | null => {
+    if (!timer) return null;
+    if (timer.option === 'episode') return 'Sleep at end of episode';
+    return `Sleep in ${Math.max(1, Math.ceil((timer.remaining || 0) / 60))} min`;
+};
+
 interface AudioContextType {
     // Background Music & SFX (simplified - disabled by default)
     musicEnabled: boolean;
@@ -61,6 +99,31 @@ interface AudioContextType {
     prevTrack: () => void;
     seek: (time: number) => void;
     closePlayer: () => void;
+
+    // Play queue (can mix items from several playlists)
+    queue: PlayQueue;
+    hasNext: boolean;
+    hasPrev: boolean;
+    playNext: (playlist: Playlist, itemIndex: number) => void;
+    addToQueue: (playlist: Playlist, itemIndex?: number) => void; // whole playlist when no index
+    removeFromQueue: (queueId: string) => void;
+    reorderQueue: (upcomingIds: string[]) => void;
+    jumpToQueueItem: (queueId: string) => void;
+    clearQueue: () => void; // drops everything after the current track
+    toggleShuffle: () => void;
+    cycleRepeatMode: () => void;
+
+    // Bedtime listening
+    playbackRate: number; // applies to audiobooks; songs always play at 1x
+    setPlaybackRate: (rate: number) => void;
+    sleepTimer: SleepTimer | null;
+    setSleepTimer: (option: SleepTimerOption | null) => void;
+    resumedFrom: number | null; // where the current episode was picked back up, if it was
+    restartTrack: () => void;
+
+    // Songs overlap by this many seconds (audiobook chapters always run on gaplessly)
+    crossfadeSeconds: number;
+    setCrossfadeSeconds: (seconds: number) => void;
     
     // Premium preview
     isPreviewMode: boolean;
@@ -95,6 +158,28 @@ const AudioContext = createContext<AudioContextType>({
     prevTrack: () => { },
     seek: () => { },
     closePlayer: () => { },
+
+    queue: createEmptyQueue(),
+    hasNext: false,
+    hasPrev: false,
+    playNext: () => { },
+    addToQueue: () => { },
+    removeFromQueue: () => { },
+    reorderQueue: () => { },
+    jumpToQueueItem: () => { },
+    clearQueue: () => { },
+    toggleShuffle: () => { },
+    cycleRepeatMode: () => { },
+
+    playbackRate: 1,
+    setPlaybackRate: () => { },
+    sleepTimer: null,
+    setSleepTimer: () => { },
+    resumedFrom: null,
+    restartTrack: () => { },
+
+    crossfadeSeconds: 0,
+    setCrossfadeSeconds: () => { },
     
     isPreviewMode: false,
     previewLimitReached: false,
@@ -111,22 +196,48 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     const [sfxEnabled, setSfxEnabled] = useState(true);
 
     // --- Playlist Player State ---
-    const [currentPlaylist, setCurrentPlaylist] = useState<Playlist | null>(null);
-    const [currentTrackIndex, setCurrentTrackIndex] = useState(0);
+    // The queue is restored from the last session so the MiniPlayer survives the WebView being killed
+    const [savedQueue] = useState(() => playQueueService.load());
+    const [queue, setQueue] = useState<PlayQueue>(() => savedQueue?.queue || createEmptyQueue());
+    const queueRef = useRef(queue); // For use in event listeners
+    const currentEntry = getCurrentEntry(queue);
+    const restoreTimeRef = useRef<number | null>(
+        savedQueue?.progress && savedQueue.progress.queueId === currentEntry?.queueId ? savedQueue.progress.currentTime : null
+    );
+    const currentQueueId = currentEntry?.queueId || null;
+    const currentPlaylist = currentEntry ? queue.playlists[currentEntry.playlistId] || null : null;
+    const currentTrackIndex = currentEntry?.itemIndex || 0;
     const [isPlaying, setIsPlaying] = useState(false);
     const [progress, setProgress] = useState(0);
     const [currentTime, setCurrentTime] = useState(0);
     const [duration, setDuration] = useState(0);
+
+    // --- Bedtime Listening State ---
+    const [playbackRate, setPlaybackRateState] = useState(() => listeningPositionService.getPlaybackRate());
+    const [sleepTimer, setSleepTimerState] = useState<SleepTimer | null>(null);
+    const [resumedFrom, setResumedFrom] = useState<number | null>(null);
+    const sleepTimerRef = useRef<SleepTimer | null>(null);
+    const playbackRateRef = useRef(playbackRate);
+    playbackRateRef.current = playbackRate;
+    // The episode currently loaded on the engine's active deck (positions are saved against this)
+    const loadedTrackRef = useRef<{ queueId: string; playlistId: string; itemKey: string; audiobook: boolean } | null>(null);
+    const pendingResumeRef = useRef<number | null>(null);
+    const lastPositionSaveRef = useRef(0);
+    const [crossfadeSeconds, setCrossfadeSecondsState] = useState(() => playQueueService.getCrossfadeSeconds());
+    const crossfadeSecondsRef = useRef(crossfadeSeconds);
+    crossfadeSecondsRef.current = crossfadeSeconds;
     
     // --- Premium Preview State ---
     const [previewLimitReached, setPreviewLimitReached] = useState(false);
-    const [previewTimeRemaining, setPreviewTimeRemaining] = useState(AUDIO_PREVIEW_SECONDS);
-    const [isPreviewMode, setIsPreviewMode] = useState(false); // True if playing premium content without subscription
-    const previewTimeAccumulator = useRef(0);
+    const [previewTimeRemaining, setPreviewTimeRemaining] = useState(
+        Math.max(0, Math.floor(AUDIO_PREVIEW_SECONDS - (savedQueue?.progress?.previewSeconds || 0)))
+    );
+    const [isPreviewMode, setIsPreviewMode] = useState(!!savedQueue?.progress?.isPreviewMode); // True if playing premium content without subscription
+    const previewTimeAccumulator = useRef(savedQueue?.progress?.previewSeconds || 0);
     const isPreviewModeRef = useRef(false); // Ref for use in event listeners
 
     // --- Refs ---
-    const audioRef = useRef<HTMLAudioElement | null>(null);
+    const engineRef = useRef<PlaylistAudioEngine | null>(null);
     const sfxContextRef = useRef<AudioContext | null>(null);
 
     // Get or create SFX AudioContext (reuse for all sound effects)
@@ -188,14 +299,176 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         isPreviewModeRef.current = isPreviewMode;
     }, [isPreviewMode]);
 
-    // Create audio element once on mount
+    // Remember how far into the loaded audiobook episode we are (songs always start over)
+    const saveCurrentPosition = useCallback(() => {
+        const engine = engineRef.current;
+        const track = loadedTrackRef.current;
+        if (!engine || !track?.audiobook || pendingResumeRef.current !== null) return;
+        // Right after a handoff the active deck already holds the next episode
+        if (engine.activeKey !== track.queueId) return;
+        listeningPositionService.savePosition(track.playlistId, track.itemKey, engine.audio.currentTime, engine.audio.duration);
+    }, []);
+
+    // Remember how far into the current track we are, for restoring the queue after a restart
+    const saveQueueProgress = useCallback(() => {
+        const engine = engineRef.current;
+        const entry = getCurrentEntry(queueRef.current);
+        if (!engine || !entry || !loadedTrackRef.current || pendingResumeRef.current !== null) return;
+        if (engine.activeKey !== entry.queueId) return;
+        playQueueService.saveProgress({
+            queueId: entry.queueId,
+            currentTime: engine.audio.currentTime,
+            isPreviewMode: isPreviewModeRef.current,
+            previewSeconds: previewTimeAccumulator.current,
+        });
+    }, []);
+
+    // Keep the queue ref in sync and persist every change
+    useEffect(() => {
+        queueRef.current = queue;
+        playQueueService.saveQueue(queue);
+    }, [queue]);
+
+    // Lets the lock screen scrubber show the right position at the current speed
+    const updatePositionState = useCallback(() => {
+        const audio = engineRef.current?.audio;
+        try {
+            if (!audio || !('mediaSession' in navigator) || !navigator.mediaSession.setPositionState) return;
+            if (!isFinite(audio.duration) || audio.duration <= 0) return;
+            navigator.mediaSession.setPositionState({
+                duration: audio.duration,
+                playbackRate: audio.playbackRate,
+                position: Math.min(audio.currentTime, audio.duration),
+            });
+        } catch (e) {
+            console.log('Media Session position error:', e);
+        }
+    }, []);
+
+    const updateSleepTimer = useCallback((timer: SleepTimer | null) => {
+        sleepTimerRef.current = timer;
+        setSleepTimerState(timer);
+        // Undo any fade-out in progress
+        if (!timer) {
+            engineRef.current?.setVolume(1);
+        }
+    }, []);
+
+    // Duration is known - pick the episode back up where it was left off
+    const applyLoadedMetadata = useCallback(() => {
+        const audio = engineRef.current?.audio;
+        if (!audio) return;
+        setDuration(audio.duration);
+
+        const resumeAt = pendingResumeRef.current;
+        pendingResumeRef.current = null;
+        if (resumeAt !== null && resumeAt < audio.duration) {
+            console.log('🎧 Resuming episode at', Math.floor(resumeAt), 's');
+            audio.currentTime = resumeAt;
+            lastPositionSaveRef.current = resumeAt;
+            setResumedFrom(resumeAt);
+        }
+        updatePositionState();
+    }, [updatePositionState]);
+
+    // Create the playback engine once on mount
     useEffect(() => {
-        const audio = document.createElement('audio');
-        audio.preload = 'auto';
-        audioRef.current = audio;
+        const engine = new PlaylistAudioEngine();
+        engineRef.current = engine;
+
+        // Buffer whatever plays next on the engine's other deck
+        const preloadNext = () => {
+            const queue = queueRef.current;
+            const nextEntry = peekNextEntry(queue);
+            const next = nextEntry ? resolveEntry(queue, nextEntry) : null;
+            if (next && engine.isPreloaded(next.entry.queueId)) return;
+
+            // Episodes that pick up part way through load normally so they can seek first
+            const audiobook = isAudiobook(next?.playlist || null);
+            if (!next?.item.audioUrl || (audiobook
+                && listeningPositionService.getResumePosition(next.playlist._id, getItemKey(next.playlist, next.entry.itemIndex)) !== null)) {
+                engine.preload(null);
+                return;
+            }
+            engine.preload({
+                key: next.entry.queueId,
+                url: next.item.audioUrl,
+                gainDb: next.item.gain,
+                playbackRate: audiobook ? playbackRateRef.current : 1,
+            });
+        };
+
+        // How long to crossfade into the next entry - songs into songs only
+        const getCrossfade = (): number => {
+            const queue = queueRef.current;
+            const entry = getCurrentEntry(queue);
+            const nextEntry = peekNextEntry(queue);
+            if (!entry || !nextEntry || sleepTimerRef.current?.option === 'episode') return 0;
+            if (isAudiobook(queue.playlists[entry.playlistId] || null) || isAudiobook(queue.playlists[nextEntry.playlistId] || null)) return 0;
+            return engine.isPreloaded(nextEntry.queueId) ? crossfadeSecondsRef.current : 0;
+        };
+
+        // Send final engagement update for completed track (100%)
+        const sendFinalEngagement = () => {
+            const audio = engine.audio;
+            const entry = getCurrentEntry(queueRef.current);
+            if (!entry || !(audio.duration > 0)) return;
+            import('../services/playEventService').then(({ playEventService }) => {
+                playEventService.updateEpisodeEngagement(
+                    entry.playlistId,
+                    entry.itemIndex,
+                    audio.duration, // Full duration since track completed
+                    audio.duration
+                );
+            }).catch(() => {});
+        };
+
+        // Move the queue on from a finished (or crossfading) track. A preloaded next track starts
+        // straight away on the other deck, faded in over fadeSeconds.
+        const goToNextEntry = (fadeSeconds: number) => {
+            const audio = engine.audio;
+            const queue = queueRef.current;
+            const entry = getCurrentEntry(queue);
+            if (!entry) return;
+
+            const next = queue.repeat === 'one' ? queue : advanceQueue(queue);
+            const nextEntry = next ? getCurrentEntry(next) : null;
+            if (!next || !nextEntry) {
+                // Nothing left in the queue - stop playing (stay on the last track)
+                console.log('🎵 Queue ended');
+                setIsPlaying(false);
+                return;
+            }
 
-        // Basic event listeners
-        audio.addEventListener('timeupdate', () => {
+            // Reset engagement tracking for new track
+            lastEngagementUpdateRef.current = 0;
+
+            // Record play event for the next track (real-time trending)
+            const track = next.playlists[nextEntry.playlistId]?.items[nextEntry.itemIndex];
+            import('../services/playEventService').then(({ playEventService }) => {
+                playEventService.recordEpisodePlay(nextEntry.playlistId, nextEntry.itemIndex, track?._id, undefined, track?.duration || 0);
+            }).catch(() => {});
+
+            if (nextEntry.queueId === entry.queueId) {
+                // Same entry again (repeat one, or a single track on repeat all) - start it over
+                console.log('🔁 Repeating track');
+                audio.currentTime = 0;
+                engine.play().catch(e => console.log('Replay failed:', e.name));
+                setIsPlaying(true);
+                setQueue(next);
+                return;
+            }
+
+            if (engine.playPreloaded(nextEntry.queueId, fadeSeconds)) {
+                console.log(fadeSeconds > 0 ? `🎚️ Crossfading into next track over ${fadeSeconds.toFixed(1)}s` : '🎵 Gapless handoff to next track');
+            }
+            console.log('🎵 Auto-playing next in queue:', next.position + 1, '/', next.entries.length);
+            setIsPlaying(true); // Keep playing state true for next track
+            setQueue(next);
+        };
+
+        engine.on('timeupdate', () => {
+            const audio = engine.audio;
             setCurrentTime(audio.currentTime);
             if (!isNaN(audio.duration) && audio.duration > 0) {
                 setProgress((audio.currentTime / audio.duration) * 100);
@@ -223,7 +496,7 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
                         // Check if preview limit reached
                         if (previewTimeAccumulator.current >= AUDIO_PREVIEW_SECONDS) {
                             console.log('🎵 Preview limit reached - pausing playback');
-                            audio.pause();
+                            engine.pause();
                             setIsPlaying(false);
                             setPreviewLimitReached(true);
                         }
@@ -231,6 +504,31 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
                 }
             }
             lastListeningTimeRef.current = now;
+
+            // The queue catches up with a handoff a render later - until then this is the next track
+            const entry = getCurrentEntry(queueRef.current);
+            if (!entry || entry.queueId !== engine.activeKey) return;
+
+            // Save the audiobook position every few seconds of playback (and after seeking back)
+            if (Math.abs(audio.currentTime - lastPositionSaveRef.current) >= POSITION_SAVE_INTERVAL) {
+                lastPositionSaveRef.current = audio.currentTime;
+                saveCurrentPosition();
+                saveQueueProgress();
+            }
+
+            // Line up the next track near the end, and start crossfading songs into it
+            if (isFinite(audio.duration) && audio.duration > 0) {
+                const remaining = (audio.duration - audio.currentTime) / (audio.playbackRate || 1);
+                if (remaining <= PRELOAD_AHEAD_SECONDS) {
+                    preloadNext();
+                    const fade = Math.min(getCrossfade(), audio.duration / 2);
+                    if (fade > 0 && !audio.paused && remaining <= fade) {
+                        sendFinalEngagement();
+                        goToNextEntry(remaining);
+                        return;
+                    }
+                }
+            }
             
             // Update engagement for trending algorithm (every 30 seconds)
             if (!isNaN(audio.currentTime) && !isNaN(audio.duration) && audio.duration > 0) {
@@ -238,83 +536,44 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
                 if (shouldUpdate) {
                     lastEngagementUpdateRef.current = audio.currentTime;
                     // Send engagement update to backend
-                    setCurrentPlaylist(playlist => {
-                        if (playlist) {
-                            setCurrentTrackIndex(idx => {
-                                import('../services/playEventService').then(({ playEventService }) => {
-                                    playEventService.updateEpisodeEngagement(
-                                        playlist._id,
-                                        idx,
-                                        audio.currentTime,
-                                        audio.duration
-                                    );
-                                }).catch(() => {});
-                                return idx;
-                            });
-                        }
-                        return playlist;
-                    });
+                    import('../services/playEventService').then(({ playEventService }) => {
+                        playEventService.updateEpisodeEngagement(
+                            entry.playlistId,
+                            entry.itemIndex,
+                            audio.currentTime,
+                            audio.duration
+                        );
+                    }).catch(() => {});
                 }
             }
         });
 
-        audio.addEventListener('loadedmetadata', () => {
-            setDuration(audio.duration);
-        });
+        engine.on('loadedmetadata', applyLoadedMetadata);
+        engine.on('ratechange', updatePositionState);
+        engine.on('seeked', updatePositionState);
 
-        audio.addEventListener('ended', () => {
-            // Send final engagement update for completed track (100%)
-            setCurrentPlaylist(playlist => {
-                if (playlist) {
-                    setCurrentTrackIndex(prev => {
-                        // Send final engagement for the track that just ended
-                        if (audio.duration > 0) {
-                            import('../services/playEventService').then(({ playEventService }) => {
-                                playEventService.updateEpisodeEngagement(
-                                    playlist._id,
-                                    prev,
-                                    audio.duration, // Full duration since track completed
-                                    audio.duration
-                                );
-                            }).catch(() => {});
-                        }
-                        
-                        const nextIndex = prev + 1;
-                        if (nextIndex < playlist.items.length) {
-                            // There's a next track - keep playing
-                            console.log('🎵 Track ended, auto-playing next track:', nextIndex + 1, '/', playlist.items.length);
-                            setIsPlaying(true); // Keep playing state true for next track
-                            
-                            // Reset engagement tracking for new track
-                            lastEngagementUpdateRef.current = 0;
-                            
-                            // Record play event for the next track (real-time trending)
-                            const track = playlist.items[nextIndex];
-                            const trackId = (track as any)?._id;
-                            const trackDuration = track?.duration || 0;
-                            import('../services/playEventService').then(({ playEventService }) => {
-                                playEventService.recordEpisodePlay(playlist._id, nextIndex, trackId, undefined, trackDuration);
-                            }).catch(() => {});
-                            
-                            return nextIndex;
-                        } else {
-                            // No more tracks - stop playing
-                            console.log('🎵 Playlist ended');
-                            setIsPlaying(false);
-                            return prev; // Stay at last track
-                        }
-                    });
-                }
-                return playlist;
-            });
+        engine.on('ended', () => {
+            // Finished episodes start from the beginning next time
+            saveCurrentPosition();
+            if (!getCurrentEntry(queueRef.current)) return;
+            sendFinalEngagement();
+
+            if (sleepTimerRef.current?.option === 'episode') {
+                console.log('🌙 Sleep timer: stopped at end of episode');
+                setIsPlaying(false);
+                updateSleepTimer(null);
+                return;
+            }
+
+            goToNextEntry(0);
         });
 
-        audio.addEventListener('play', () => {
+        engine.on('play', () => {
             setIsPlaying(true);
             updateMediaSession();
         });
 
-        audio.addEventListener('pause', () => {
+        engine.on('pause', () => {
             setIsPlaying(false);
             // Save any accumulated listening time when paused
             if (listeningTimeAccumulatorRef.current > 0) {
@@ -322,6 +581,8 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
                 listeningTimeAccumulatorRef.current = 0;
             }
             lastListeningTimeRef.current = 0;
+            saveCurrentPosition();
+            saveQueueProgress();
         });
 
         return () => {
@@ -329,41 +590,68 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
             if (listeningTimeAccumulatorRef.current > 0) {
                 activityTrackingService.trackAudioListeningTime(Math.floor(listeningTimeAccumulatorRef.current));
             }
-            audio.pause();
-            audio.src = '';
+            saveCurrentPosition();
+            engine.destroy();
+            engineRef.current = null;
         };
     }, []);
 
-    // Load track when playlist or index changes
+    // Load track when the current queue entry changes
     useEffect(() => {
-        const audio = audioRef.current;
-        if (!audio || !currentPlaylist) return;
+        const engine = engineRef.current;
+        if (!engine || !currentPlaylist || !currentQueueId) return;
 
         const track = currentPlaylist.items[currentTrackIndex];
         if (!track?.audioUrl) return;
 
-        // Set source and load
-        audio.src = track.audioUrl;
-        audio.load();
+        // Save where the previous episode stopped, then look up where this one did
+        saveCurrentPosition();
+        const audiobook = isAudiobook(currentPlaylist);
+        const itemKey = getItemKey(currentPlaylist, currentTrackIndex);
+        loadedTrackRef.current = { queueId: currentQueueId, playlistId: currentPlaylist._id, itemKey, audiobook };
+        // A queue restored after a restart picks up mid-track (songs too)
+        const restoreAt = restoreTimeRef.current;
+        restoreTimeRef.current = null;
+        pendingResumeRef.current = restoreAt
+            || (audiobook ? listeningPositionService.getResumePosition(currentPlaylist._id, itemKey) : null);
+        lastPositionSaveRef.current = 0;
+        setResumedFrom(null);
+
+        // Already handed off to (crossfade / gapless), or preloaded on the engine's other deck -
+        // otherwise set the source and load
+        const rate = audiobook ? playbackRate : 1;
+        const preloaded = engine.activeKey === currentQueueId
+            || engine.load({ key: currentQueueId, url: track.audioUrl, gainDb: track.gain, playbackRate: rate });
+        const audio = engine.audio;
+        audio.defaultPlaybackRate = rate;
+        audio.playbackRate = rate;
+        if (!sleepTimerRef.current) {
+            engine.setVolume(1);
+        }
+        // Its metadata came in while it was the idle deck
+        if (preloaded && audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+            setCurrentTime(audio.currentTime);
+            applyLoadedMetadata();
+        }
 
         // Auto-play if isPlaying is true
         if (isPlaying) {
-            audio.play().catch(e => console.log('Autoplay blocked:', e.name));
+            engine.play().catch(e => console.log('Autoplay blocked:', e.name));
         }
 
         // Update media session
         updateMediaSession();
-    }, [currentPlaylist, currentTrackIndex]);
+    }, [currentQueueId]);
 
     // Simple play/pause sync
     useEffect(() => {
-        const audio = audioRef.current;
-        if (!audio || !audio.src) return;
+        const engine = engineRef.current;
+        if (!engine || !engine.audio.src) return;
 
         if (isPlaying) {
-            audio.play().catch(e => console.log('Play failed:', e.name));
+            engine.play().catch(e => console.log('Play failed:', e.name));
         } else {
-            audio.pause();
+            engine.pause();
         }
         
         // Update media session playback state
@@ -372,6 +660,59 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         }
     }, [isPlaying]);
 
+    // Playback speed only applies to audiobooks
+    useEffect(() => {
+        const audio = engineRef.current?.audio;
+        if (!audio) return;
+        const rate = isAudiobook(currentPlaylist) ? playbackRate : 1;
+        audio.defaultPlaybackRate = rate;
+        audio.playbackRate = rate;
+    }, [playbackRate, currentPlaylist]);
+
+    // Each profile keeps its own preferred speed
+    useEffect(() => {
+        return profileService.onProfileChange(() => {
+            setPlaybackRateState(listeningPositionService.getPlaybackRate());
+        });
+    }, []);
+
+    // Sleep timer countdown (only while playing) with a fade-out over the last seconds
+    const sleepTimerActive = sleepTimer !== null;
+    useEffect(() => {
+        if (!sleepTimerActive || !isPlaying) return;
+
+        const intervalId = setInterval(() => {
+            const engine = engineRef.current;
+            const timer = sleepTimerRef.current;
+            if (!engine || !timer) return;
+            const audio = engine.audio;
+
+            let secondsLeft: number;
+            if (timer.option === 'episode') {
+                secondsLeft = isFinite(audio.duration) ? (audio.duration - audio.currentTime) / (audio.playbackRate || 1) : Infinity;
+            } else {
+                secondsLeft = Math.max(0, (timer.remaining || 0) - SLEEP_TICK_MS / 1000);
+                if (secondsLeft <= 0) {
+                    console.log('🌙 Sleep timer finished - pausing playback');
+                    engine.pause();
+                    setIsPlaying(false);
+                    updateSleepTimer(null);
+                    return;
+                }
+                sleepTimerRef.current = { ...timer, remaining: secondsLeft };
+                setSleepTimerState(sleepTimerRef.current);
+            }
+
+            // Faded on the engine's master gain. Audio that can't go through Web Audio falls back
+            // to element volume, which iOS ignores - there it just stops
+            engine.setVolume(secondsLeft / SLEEP_FADE_SECONDS);
+        }, SLEEP_TICK_MS);
+
+        return () => clearInterval(intervalId);
+    }, [sleepTimerActive, isPlaying, updateSleepTimer]);
+
+    const sleepTimerLabel = getSleepTimerLabel(sleepTimer);
+
     // Media Session setup with cover image
     const updateMediaSession = useCallback(() => {
         if (!('mediaSession' in navigator) || !currentPlaylist) return;
@@ -396,18 +737,25 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
                 );
             }
 
+            // Speed and sleep timer ride along in the album line so they show on the lock screen
+            const details = [
+                isAudiobook(currentPlaylist) && playbackRate !== 1 ? `${playbackRate}x` : null,
+                sleepTimerLabel,
+            ].filter(Boolean);
+
             navigator.mediaSession.metadata = new MediaMetadata({
                 title: track.title,
                 artist: track.author || currentPlaylist.author || 'GodlyKids',
-                album: currentPlaylist.title,
+                album: [currentPlaylist.title, ...details].join(' · '),
                 artwork
             });
             
             navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused';
+            updatePositionState();
         } catch (e) {
             console.log('Media Session error:', e);
         }
-    }, [currentPlaylist, currentTrackIndex, isPlaying]);
+    }, [currentPlaylist, currentTrackIndex, isPlaying, playbackRate, sleepTimerLabel, updatePositionState]);
 
     // Update media session when track changes
     useEffect(() => {
@@ -438,42 +786,41 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         
         const timeoutId = setTimeout(() => {
             safeMediaSessionAction('play', () => {
-                audioRef.current?.play();
+                engineRef.current?.play().catch(e => console.log('Play failed:', e.name));
             });
 
             safeMediaSessionAction('pause', () => {
-                audioRef.current?.pause();
+                engineRef.current?.pause();
             });
 
             safeMediaSessionAction('nexttrack', () => {
-                if (currentPlaylist && currentTrackIndex < currentPlaylist.items.length - 1) {
-                    setCurrentTrackIndex(prev => prev + 1);
-                }
+                nextTrackRef.current();
             });
 
             safeMediaSessionAction('previoustrack', () => {
-                if (currentTrackIndex > 0) {
-                    setCurrentTrackIndex(prev => prev - 1);
-                }
+                prevTrackRef.current();
             });
 
             safeMediaSessionAction('seekto', (details: any) => {
-                if (audioRef.current && details?.seekTime !== undefined) {
-                    audioRef.current.currentTime = details.seekTime;
+                const audio = engineRef.current?.audio;
+                if (audio && details?.seekTime !== undefined) {
+                    audio.currentTime = details.seekTime;
                 }
             });
 
             safeMediaSessionAction('seekbackward', (details: any) => {
-                if (audioRef.current) {
-                    audioRef.current.currentTime = Math.max(0, audioRef.current.currentTime - (details?.seekOffset || 10));
+                const audio = engineRef.current?.audio;
+                if (audio) {
+                    audio.currentTime = Math.max(0, audio.currentTime - (details?.seekOffset || 10));
                 }
             });
 
             safeMediaSessionAction('seekforward', (details: any) => {
-                if (audioRef.current) {
-                    audioRef.current.currentTime = Math.min(
-                        audioRef.current.duration || 0,
-                        audioRef.current.currentTime + (details?.seekOffset || 10)
+                const audio = engineRef.current?.audio;
+                if (audio) {
+                    audio.currentTime = Math.min(
+                        audio.duration || 0,
+                        audio.currentTime + (details?.seekOffset || 10)
                     );
                 }
             });
@@ -490,7 +837,7 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
             safeMediaSessionAction('seekbackward', null);
             safeMediaSessionAction('seekforward', null);
         };
-    }, [currentPlaylist, currentTrackIndex, safeMediaSessionAction]);
+    }, [safeMediaSessionAction]);
 
     // --- Simple SFX using Web Audio API ---
     const playTone = useCallback((freq: number, dur: number, vol: number = 0.15) => {
@@ -530,8 +877,9 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
             willBePreviewMode: !isSubscribed
         });
         
-        setCurrentPlaylist(playlist);
-        setCurrentTrackIndex(startIndex);
+        // Called from a tap - the moment iOS allows Web Audio to start
+        engineRef.current?.unlock();
+        setQueue(prev => startPlaylist(prev, playlist, startIndex));
         setIsPlaying(true);
         
         // Enable preview mode for ALL non-subscribed users (2 min limit on all audio)
@@ -578,42 +926,122 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     }, []);
 
     const togglePlayPause = useCallback(() => {
+        engineRef.current?.unlock();
         setIsPlaying(prev => !prev);
     }, []);
 
-    const nextTrack = useCallback(() => {
-        if (currentPlaylist && currentTrackIndex < currentPlaylist.items.length - 1) {
-            setCurrentTrackIndex(prev => prev + 1);
-            setIsPlaying(true);
+    // Switch to another point in the queue and play it
+    const moveQueue = useCallback((next: PlayQueue | null) => {
+        if (!next) return;
+        engineRef.current?.unlock();
+        // Landing on the same entry (a single track on repeat all) won't reload it, so rewind it
+        if (getCurrentEntry(next)?.queueId === getCurrentEntry(queueRef.current)?.queueId && engineRef.current) {
+            engineRef.current.audio.currentTime = 0;
         }
-    }, [currentPlaylist, currentTrackIndex]);
+        setQueue(next);
+        setIsPlaying(true);
+    }, []);
+
+    const nextTrack = useCallback(() => {
+        moveQueue(advanceQueue(queueRef.current));
+    }, [moveQueue]);
 
     const prevTrack = useCallback(() => {
-        if (currentTrackIndex > 0) {
-            setCurrentTrackIndex(prev => prev - 1);
-            setIsPlaying(true);
-        }
-    }, [currentTrackIndex]);
+        moveQueue(rewindQueue(queueRef.current));
+    }, [moveQueue]);
+
+    // Media Session handlers are set up once, so they go through refs
+    const nextTrackRef = useRef(nextTrack);
+    const prevTrackRef = useRef(prevTrack);
+    nextTrackRef.current = nextTrack;
+    prevTrackRef.current = prevTrack;
+
+    const playNext = useCallback((playlist: Playlist, itemIndex: number) => {
+        const wasEmpty = !getCurrentEntry(queueRef.current);
+        setQueue(prev => insertNext(prev, playlist, itemIndex));
+        if (wasEmpty) setIsPlaying(true);
+        console.log('🎵 Playing next:', playlist.items[itemIndex]?.title);
+    }, []);
+
+    const addToQueue = useCallback((playlist: Playlist, itemIndex?: number) => {
+        const wasEmpty = !getCurrentEntry(queueRef.current);
+        const itemIndexes = itemIndex === undefined ? playlist.items.map((_, index) => index) : [itemIndex];
+        setQueue(prev => appendToQueue(prev, playlist, itemIndexes));
+        if (wasEmpty) setIsPlaying(true);
+        console.log('🎵 Added to queue:', itemIndex === undefined ? playlist.title : playlist.items[itemIndex]?.title);
+    }, []);
+
+    const reorderQueue = useCallback((upcomingIds: string[]) => {
+        setQueue(prev => reorderUpcoming(prev, upcomingIds));
+    }, []);
+
+    const jumpToQueueItem = useCallback((queueId: string) => {
+        moveQueue(jumpToEntry(queueRef.current, queueId));
+    }, [moveQueue]);
+
+    const clearQueue = useCallback(() => {
+        setQueue(prev => clearUpcoming(prev));
+    }, []);
+
+    const toggleShuffle = useCallback(() => {
+        setQueue(prev => setShuffle(prev, !prev.shuffle));
+    }, []);
+
+    const cycleRepeatMode = useCallback(() => {
+        setQueue(prev => setRepeat(prev, nextRepeatMode(prev.repeat)));
+    }, []);
 
     const seek = useCallback((time: number) => {
-        if (audioRef.current) {
-            audioRef.current.currentTime = time;
+        if (engineRef.current) {
+            engineRef.current.audio.currentTime = time;
             setCurrentTime(time);
         }
     }, []);
 
+    const setPlaybackRate = useCallback((rate: number) => {
+        listeningPositionService.setPlaybackRate(rate);
+        setPlaybackRateState(listeningPositionService.getPlaybackRate());
+    }, []);
+
+    const setCrossfadeSeconds = useCallback((seconds: number) => {
+        playQueueService.setCrossfadeSeconds(seconds);
+        setCrossfadeSecondsState(playQueueService.getCrossfadeSeconds());
+    }, []);
+
+    const setSleepTimer = useCallback((option: SleepTimerOption | null) => {
+        if (option === null) {
+            console.log('🌙 Sleep timer cancelled');
+            updateSleepTimer(null);
+            return;
+        }
+        console.log('🌙 Sleep timer set:', option === 'episode' ? 'end of episode' : `${option} min`);
+        engineRef.current?.setVolume(1);
+        updateSleepTimer({ option, remaining: option === 'episode' ? null : option * 60 });
+    }, [updateSleepTimer]);
+
+    const restartTrack = useCallback(() => {
+        if (engineRef.current) {
+            engineRef.current.audio.currentTime = 0;
+            setCurrentTime(0);
+        }
+        setResumedFrom(null);
+    }, []);
+
     const closePlayer = useCallback(() => {
+        saveCurrentPosition();
+        loadedTrackRef.current = null;
+        pendingResumeRef.current = null;
+        updateSleepTimer(null);
+        setResumedFrom(null);
         setIsPlaying(false);
-        setCurrentPlaylist(null);
-        setCurrentTrackIndex(0);
+        // Shuffle and repeat stay as they were for next time
+        setQueue(prev => createEmptyQueue(prev.shuffle, prev.repeat));
+        playQueueService.clearProgress();
         setProgress(0);
         setCurrentTime(0);
         setDuration(0);
 
-        if (audioRef.current) {
-            audioRef.current.pause();
-            audioRef.current.src = '';
-        }
+        engineRef.current?.stop();
 
         // Clear media session
         if ('mediaSession' in navigator) {
@@ -627,8 +1055,18 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         setIsPreviewMode(false);
         previewTimeAccumulator.current = 0;
         setPreviewTimeRemaining(AUDIO_PREVIEW_SECONDS);
-    }, []);
+    }, [saveCurrentPosition, updateSleepTimer]);
     
+    // Removing the last entry closes the player
+    const removeFromQueue = useCallback((queueId: string) => {
+        const next = removeEntry(queueRef.current, queueId);
+        if (!getCurrentEntry(next)) {
+            closePlayer();
+            return;
+        }
+        setQueue(next);
+    }, [closePlayer]);
+
     const dismissPreviewLimit = useCallback(() => {
         setPreviewLimitReached(false);
     }, []);
@@ -646,6 +1084,10 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
             playClick, playBack, playSuccess, playTab, setGameMode, setMusicPaused,
             currentPlaylist, currentTrackIndex, isPlaying, progress, currentTime, duration,
             playPlaylist, togglePlayPause, nextTrack, prevTrack, seek, closePlayer,
+            queue, hasNext: canAdvance(queue), hasPrev: canRewind(queue),
+            playNext, addToQueue, removeFromQueue, reorderQueue, jumpToQueueItem, clearQueue, toggleShuffle, cycleRepeatMode,
+            playbackRate, setPlaybackRate, sleepTimer, setSleepTimer, resumedFrom, restartTrack,
+            crossfadeSeconds, setCrossfadeSeconds,
             isPreviewMode, previewLimitReached, previewTimeRemaining, dismissPreviewLimit
         }}>
             {children}
@@ -300,6 +300,9 @@ const UI_TRANSLATIONS: Record<string, Record<string, string>> = {
         // Book/Playlist details
         saveToLibrary: 'Save to Library',
         savedToLibrary: 'Saved to Library',
+        downloadForOffline: 'Download for Offline',
+        downloadedForOffline: 'Downloaded for Offline',
+        downloaded: 'Downloaded',
         myReads: 'My Reads',
         myListens: 'My Listens',
         completeBookToUnlock: 'Complete book to unlock',
@@ -600,6 +603,9 @@ const UI_TRANSLATIONS: Record<string, Record<string, string>> = {
         // Book/Playlist details
         saveToLibrary: 'Guardar en Biblioteca',
         savedToLibrary: 'Guardado en Biblioteca',
+        downloadForOffline: 'Descargar sin Conexión',
+        downloadedForOffline: 'Descargado sin Conexión',
+        downloaded: 'Descargados',
         myReads: 'Mis Lecturas',
         myListens: 'Mis Escuchas',
         completeBookToUnlock: 'Completa el libro para desbloquear',
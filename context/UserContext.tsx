@@ -2,6 +2,17 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { authService } from '../services/authService';
 import { profileService, CloudProfile } from '../services/profileService';
+import { syncService } from '../services/syncService';
+import { parentalControlsService } from '../services/parentalControlsService';
+import { parentDigestService } from '../services/parentDigestService';
+import { memoryVerseService } from '../services/memoryVerseService';
+import { quizBankService } from '../services/quizBankService';
+import { coloringGalleryService } from '../services/coloringGalleryService';
+import { listeningPositionService } from '../services/listeningPositionService';
+import { clearProfileLessonProgress } from '../services/lessonService';
+import { sessionRoutineService } from '../services/sessionRoutineService';
+import { streakService } from '../services/streakService';
+import { achievementsService } from '../services/achievementsService';
 // Removed import of KidProfile due to missing export in ../types
 
 export interface ShopItem {
@@ -78,6 +89,7 @@ interface UserContextType {
   updateKid: (id: string, updates: Partial<any>) => void;
   removeKid: (id: string) => void;
   giftCoinsToKid: (kidId: string, amount: number) => { success: boolean; message: string };
+  addCoinsToKid: (kidId: string, amount: number, reason?: string, source?: CoinTransaction['source']) => void; // e.g. family session rewards
   
   // Active Profile
   currentProfileId: string | null; // null = parent, otherwise kid id
@@ -170,6 +182,7 @@ const UserContext = createContext<UserContextType>({
   updateKid: () => {},
   removeKid: () => {},
   giftCoinsToKid: () => ({ success: false, message: '' }),
+  addCoinsToKid: () => {},
   equippedAvatar: '',
   equippedFrame: '',
   equippedHat: null,
@@ -523,12 +536,41 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
   useEffect(() => {
     const user = authService.getUser();
     if (user?.email) {
-      loadProfileFromCloud(false);
+      // Pull progress/favorites/library from other devices once the profile (and kids) are in
+      loadProfileFromCloud(false).then(() => syncService.syncNow('launch'));
     } else {
       setHasLoadedFromCloud(true);
     }
+    // Background progress sync (resume, profile switch, interval) - no-op until signed in
+    syncService.start();
   }, []); // Run once on mount
-  
+
+  // Settle the active kid's streak (freezes, recoveries, longest) on launch, profile switch,
+  // resume and just after midnight - streak screens only read it
+  useEffect(() => {
+    const settle = () => streakService.settle(currentProfileId);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') settle();
+    };
+    let midnightTimer: ReturnType<typeof setTimeout>;
+    const scheduleMidnight = () => {
+      const nextDay = new Date();
+      nextDay.setHours(24, 0, 1, 0);
+      midnightTimer = setTimeout(() => {
+        settle();
+        scheduleMidnight();
+      }, nextDay.getTime() - Date.now());
+    };
+
+    settle();
+    scheduleMidnight();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearTimeout(midnightTimer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [currentProfileId]);
+
   // CRITICAL: Listen for sign-in events and reload profile from cloud
   // This ensures user's cloud data is loaded even if they sign in AFTER the app loads
   useEffect(() => {
@@ -537,7 +579,7 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (user?.email) {
         console.log('🔐 Auth token updated - user signed in, loading cloud profile...');
         // Force load from cloud to get user's saved data
-        loadProfileFromCloud(true);
+        loadProfileFromCloud(true).then(() => syncService.syncNow('login'));
       }
     };
     
@@ -715,6 +757,19 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
     equippedBackground
   ]);
 
+  // Weekly parent digest - snapshot last week (and email it if opted in) once the week rolls over
+  useEffect(() => {
+    if (kids.length === 0) return;
+    const timer = setTimeout(() => {
+      parentDigestService.generateIfDue(kids.map(kid => ({
+        id: kid.id,
+        name: kid.name,
+        coinTransactions: kid.id === currentProfileId ? coinTransactions : kid.coinTransactions,
+      })));
+    }, 10000);
+    return () => clearTimeout(timer);
+  }, [kids.length]);
+
   // Sync subscription status from godlykids_premium (RevenueCat source of truth)
   useEffect(() => {
     const syncSubscription = () => {
@@ -842,6 +897,15 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const removeKid = (id: string) => {
     setKids(prev => prev.filter(k => k.id !== id));
+    parentalControlsService.removeControls(id);
+    memoryVerseService.removeDeck(id);
+    quizBankService.clearBank(id);
+    coloringGalleryService.deleteGallery(id);
+    listeningPositionService.clearProfile(id);
+    clearProfileLessonProgress(id);
+    sessionRoutineService.removeProfileAssignments(id);
+    streakService.clearProfile(id);
+    achievementsService.clearProfile(id);
     // If we're removing the currently active profile, switch back to parent
     if (currentProfileId === id) {
       setCurrentProfileId(null);
@@ -892,6 +956,27 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return { success: true, message: `🎁 Gave ${amount} coins to ${kid.name}!` };
   };
 
+  // Award coins to a kid whether or not they're the active profile (the active one's wallet lives in state)
+  const addCoinsToKid = (kidId: string, amount: number, reason: string = 'Coins earned', source: CoinTransaction['source'] = 'other') => {
+    if (kidId === currentProfileId) {
+      addCoins(amount, reason, source);
+      return;
+    }
+    
+    const transaction: CoinTransaction = {
+      id: `${Date.now()}-${kidId}`,
+      amount,
+      reason,
+      source,
+      timestamp: Date.now(),
+    };
+    setKids(prev => prev.map(k => 
+      k.id === kidId 
+        ? { ...k, coins: (k.coins ?? 500) + amount, coinTransactions: [transaction, ...(k.coinTransactions || [])].slice(0, 100) } 
+        : k
+    ));
+  };
+
   // Helper to get current avatar state
   const getCurrentAvatarState = () => ({
     avatar: equippedAvatar,
@@ -1438,6 +1523,7 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
       updateKid,
       removeKid,
       giftCoinsToKid,
+      addCoinsToKid,
       equippedAvatar,
       equippedFrame,
       equippedHat,
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Average frequency level above which the kid counts as speaking
+export const SPEAKING_THRESHOLD = 25;
+
+/**
+ * Microphone capture for voice-driven activities (prayer time, reciting memory verses).
+ * Call start() from a user gesture, then poll readLevel() from an animation loop.
+ * The stream and audio context are released by stop() and on unmount.
+ */
+export function useMicrophoneLevel(): {
+    micPermission: boolean | null;
+    start: () => Promise<boolean>;
+    stop: () => void;
+    readLevel: () => number | null;
+} {
+    const [micPermission, setMicPermission] = useState<boolean | null>(null);
+
+    const audioContextRef = useRef<AudioContext | null>(null);
+    const analyserRef = useRef<AnalyserNode | null>(null);
+    const microphoneStreamRef = useRef<MediaStream | null>(null);
+
+    const stop = useCallback(() => {
+        if (microphoneStreamRef.current) {
+            microphoneStreamRef.current.getTracks().forEach(track => track.stop());
+        }
+        if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
+            audioContextRef.current.close();
+        }
+        audioContextRef.current = null;
+        analyserRef.current = null;
+        microphoneStreamRef.current = null;
+    }, []);
+
+    const start = useCallback(async (): Promise<boolean> => {
+        if (analyserRef.current) return true;
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            microphoneStreamRef.current = stream;
+            setMicPermission(true);
+
+            const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+            audioContextRef.current = audioCtx;
+
+            const analyser = audioCtx.createAnalyser();
+            analyser.fftSize = 256;
+            analyserRef.current = analyser;
+
+            const source = audioCtx.createMediaStreamSource(stream);
+            source.connect(analyser);
+
+            if (audioCtx.state === 'suspended') {
+                await audioCtx.resume();
+            }
+            return true;
+        } catch (err) {
+            console.error("Microphone access denied or error:", err);
+            setMicPermission(false);
+            return false;
+        }
+    }, []);
+
+    // Average level across frequency bins (0-255), null while the mic isn't running
+    const readLevel = useCallback((): number | null => {
+        const analyser = analyserRef.current;
+        if (!analyser) return null;
+
+        const dataArray = new Uint8Array(analyser.frequencyBinCount);
+        analyser.getByteFrequencyData(dataArray);
+
+        let sum = 0;
+        for (let i = 0; i < dataArray.length; i++) {
+            sum += dataArray[i];
+        }
+        return sum / dataArray.length;
+    }, []);
+
+    useEffect(() => stop, [stop]);
+
+    return { micPermission, start, stop, readLevel };
+}
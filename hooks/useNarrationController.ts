@@ -0,0 +1,44 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+    NarrationController,
+    NarrationHooks,
+    NarrationSnapshot,
+    NarrationSynthesizer,
+} from '../services/narrationController';
+
+export interface UseNarrationControllerOptions extends NarrationHooks {
+    synthesize: NarrationSynthesizer;
+}
+
+/**
+ * Hook that owns a NarrationController for the lifetime of the component
+ * and re-renders on every state change.
+ * Options are read through a ref, so callers can pass closures over fresh
+ * component state on every render.
+ */
+export function useNarrationController(options: UseNarrationControllerOptions): {
+    controller: NarrationController;
+    snapshot: NarrationSnapshot;
+} {
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+
+    const [controller] = useState(() => new NarrationController({
+        getPageCount: () => optionsRef.current.getPageCount(),
+        getTextBoxes: (pageIndex) => optionsRef.current.getTextBoxes(pageIndex),
+        isPageReady: (pageIndex) => optionsRef.current.isPageReady?.(pageIndex) ?? true,
+        getRecording: (pageIndex, textBoxIndex) => optionsRef.current.getRecording?.(pageIndex, textBoxIndex) ?? null,
+        turnPage: (toPageIndex) => optionsRef.current.turnPage(toPageIndex),
+        onBookFinished: () => optionsRef.current.onBookFinished?.(),
+        onPlaybackError: (error) => optionsRef.current.onPlaybackError?.(error),
+        synthesize: (request) => optionsRef.current.synthesize(request),
+    }));
+    const [snapshot, setSnapshot] = useState<NarrationSnapshot>(() => controller.getSnapshot());
+
+    useEffect(() => controller.subscribe(setSnapshot), [controller]);
+
+    // Stop narration when the component unmounts
+    useEffect(() => () => controller.stop(), [controller]);
+
+    return { controller, snapshot };
+}
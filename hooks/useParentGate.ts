@@ -0,0 +1,40 @@
+import { useCallback, useRef, useState } from 'react';
+import { parentGateService, GatePurpose } from '../services/parentGateService';
+
+/**
+ * Puts the parent gate in front of a purchase-like action when the parent has
+ * turned on "ask on every purchase". Render the gate with the returned props:
+ * <ParentGateModal {...gateProps} />
+ */
+export function useParentGate(): {
+    requireParentGate: (purpose: GatePurpose, action: () => void) => void;
+    gateProps: { isOpen: boolean; purpose: GatePurpose; onClose: () => void; onSuccess: () => void };
+} {
+    const [purpose, setPurpose] = useState<GatePurpose | null>(null);
+    const pendingActionRef = useRef<(() => void) | null>(null);
+
+    const requireParentGate = useCallback((gatePurpose: GatePurpose, action: () => void) => {
+        if (!parentGateService.isRequiredForPurchases()) {
+            action();
+            return;
+        }
+        pendingActionRef.current = action;
+        setPurpose(gatePurpose);
+    }, []);
+
+    const onClose = useCallback(() => {
+        pendingActionRef.current = null;
+        setPurpose(null);
+    }, []);
+
+    const onSuccess = useCallback(() => {
+        const action = pendingActionRef.current;
+        pendingActionRef.current = null;
+        action?.();
+    }, []);
+
+    return {
+        requireParentGate,
+        gateProps: { isOpen: purpose !== null, purpose: purpose || 'general', onClose, onSuccess },
+    };
+}
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useUser } from '../context/UserContext';
+import {
+    parentalControlsService,
+    FilterableContent,
+    PARENTAL_CONTROLS_EVENT,
+    ProfileControls,
+    ScreenTimeStatus,
+} from '../services/parentalControlsService';
+
+// Screen time is re-checked this often (time spent is saved once a minute)
+const STATUS_POLL_MS = 30 * 1000;
+
+/**
+ * Parental controls of the active profile (null for the parent profile) and
+ * its screen time status. Re-renders when the controls change or the profile
+ * switches - and, with watchScreenTime, periodically so the status stays current.
+ */
+export function useParentalControls(watchScreenTime: boolean = false): {
+    controls: ProfileControls | null;
+    status: ScreenTimeStatus;
+    isContentAllowed: (item: FilterableContent | null | undefined) => boolean;
+    filterContent: <T extends FilterableContent>(items: T[]) => T[];
+} {
+    const { currentProfileId } = useUser();
+    const [controlsVersion, setControlsVersion] = useState(0);
+    const [, setTick] = useState(0);
+
+    useEffect(() => {
+        const refresh = () => setControlsVersion(v => v + 1);
+        window.addEventListener(PARENTAL_CONTROLS_EVENT, refresh);
+        const interval = watchScreenTime ? setInterval(() => setTick(t => t + 1), STATUS_POLL_MS) : null;
+        return () => {
+            window.removeEventListener(PARENTAL_CONTROLS_EVENT, refresh);
+            if (interval) clearInterval(interval);
+        };
+    }, [watchScreenTime]);
+
+    const controls = currentProfileId ? parentalControlsService.getControls(currentProfileId) : null;
+    const status = parentalControlsService.getStatus(currentProfileId);
+
+    // Identities change with the controls so memoized lists get re-filtered
+    const isContentAllowed = useCallback(
+        (item: FilterableContent | null | undefined) => parentalControlsService.isContentAllowed(item),
+        [currentProfileId, controlsVersion]
+    );
+    const filterContent = useCallback(
+        <T extends FilterableContent>(items: T[]) => parentalControlsService.filterContent(items),
+        [currentProfileId, controlsVersion]
+    );
+
+    return { controls, status, isContentAllowed, filterContent };
+}
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { SYNC_DATA_EVENT } from '../services/syncService';
+
+/**
+ * Counter that goes up whenever a sync pulls changes from another device.
+ * Screens that read favorites, library, history or lesson progress straight from
+ * their services re-render with it, or list it as an effect dependency to re-read.
+ */
+export function useSyncedDataVersion(): number {
+    const [version, setVersion] = useState(0);
+
+    useEffect(() => {
+        const refresh = () => setVersion(v => v + 1);
+        window.addEventListener(SYNC_DATA_EVENT, refresh);
+        return () => window.removeEventListener(SYNC_DATA_EVENT, refresh);
+    }, []);
+
+    return version;
+}
@@ -1,7 +1,7 @@
 
 import React, { useEffect, useState, useMemo } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
-import { Heart, BookOpen, Crown, PlayCircle, Headphones, Disc, Lock, Globe, Bookmark, Plus, ArrowLeft, Share2 } from 'lucide-react';
+import { Heart, BookOpen, Crown, PlayCircle, Headphones, Disc, Lock, Globe, Bookmark, Plus, ArrowLeft, Share2, Download, CheckCircle, Trash2 } from 'lucide-react';
 import { useBooks } from '../context/BooksContext';
 import { useUser } from '../context/UserContext';
 import { Book } from '../types';
@@ -15,6 +15,10 @@ import { favoritesService } from '../services/favoritesService';
 import { libraryService } from '../services/libraryService';
 import { analyticsService } from '../services/analyticsService';
 import { pinnedColoringService } from '../services/pinnedColoringService';
+import { coloringGalleryService } from '../services/coloringGalleryService';
+import { offlineBookService, OfflineDownloadProgress } from '../services/offlineBookService';
+import { searchService } from '../services/searchService';
+import { useSyncedDataVersion } from '../hooks/useSyncedDataVersion';
 import GameWebView from '../components/features/GameWebView';
 import ChallengeGameModal from '../components/features/ChallengeGameModal';
 import StrengthGameModal from '../components/features/StrengthGameModal';
@@ -85,10 +89,13 @@ const BookDetailPage: React.FC = () => {
   const [favoriteCount, setFavoriteCount] = useState<number>(0);
   const [isFavorited, setIsFavorited] = useState<boolean>(false);
   const [isInLibrary, setIsInLibrary] = useState<boolean>(false);
+  const syncedDataVersion = useSyncedDataVersion();
   const [isMembersOnly, setIsMembersOnly] = useState<boolean>(false);
   const [bookDetailsLoaded, setBookDetailsLoaded] = useState<boolean>(false); // Prevent race condition on premium check
   const [pinnedDrawing, setPinnedDrawing] = useState<{ pageRef: string; pageId: string; dataUrl: string; backgroundUrl?: string } | null>(null);
   const [showDrawingModal, setShowDrawingModal] = useState(false);
+  const [isDownloaded, setIsDownloaded] = useState(false);
+  const [downloadProgress, setDownloadProgress] = useState<OfflineDownloadProgress | null>(null);
   
   // Voice reward info
   const [rewardVoice, setRewardVoice] = useState<{ voiceId: string; name: string; characterImage?: string } | null>(null);
@@ -205,6 +212,32 @@ const BookDetailPage: React.FC = () => {
       }
     }
     
+    // Composite didn't fit in localStorage: show the gallery copy (IndexedDB)
+    if (pinned.artworkId) {
+      let cancelled = false;
+      coloringGalleryService.getImageUrl(pinned.artworkId).then((imageUrl) => {
+        if (cancelled) return;
+        console.log('🖼️ Using gallery copy of fridge image:', !!imageUrl);
+        setPinnedDrawing(imageUrl
+          ? { pageRef: pinned.pageRef, pageId: pinned.pageId, dataUrl: imageUrl }
+          : null);
+      });
+      return () => { cancelled = true; };
+    }
+    
+    // Pinned without a picture: render one from the saved drawing document
+    if (pinnedColoringService.getDrawingDocument(pinned.pageId)) {
+      let cancelled = false;
+      pinnedColoringService.regenerateComposite(id).then((compositeUrl) => {
+        if (cancelled) return;
+        console.log('🖼️ Regenerated fridge image from drawing document:', !!compositeUrl);
+        setPinnedDrawing(compositeUrl
+          ? { pageRef: pinned.pageRef, pageId: pinned.pageId, dataUrl: compositeUrl }
+          : null);
+      });
+      return () => { cancelled = true; };
+    }
+    
     // Fallback: old format with separate drawing + overlay
     const dataUrl = pinnedColoringService.getDrawingDataUrl(pinned.pageId);
     if (!dataUrl) {
@@ -323,6 +356,7 @@ const BookDetailPage: React.FC = () => {
         // Fetch pages to determine total count
         const pages = await ApiService.getBookPages(id);
         setTotalPages(pages.length);
+        searchService.indexBookPages(id, pages);
       } catch (error) {
         console.error('Error fetching book details:', error);
       }
@@ -331,7 +365,7 @@ const BookDetailPage: React.FC = () => {
     fetchBookDetails();
   }, [id]);
 
-  // Load read count and favorite count
+  // Load read count and favorite status (again after a sync pull)
   useEffect(() => {
     if (id) {
       const count = readCountService.getReadCount(id);
@@ -358,6 +392,16 @@ const BookDetailPage: React.FC = () => {
         localStorage.setItem(`book_fav_count_${id}`, baseCount.toString());
       }
     }
+  }, [id, syncedDataVersion]);
+
+  // Offline download status (kept in sync with downloads started from other screens)
+  useEffect(() => {
+    if (!id) return;
+    const refresh = () => {
+      offlineBookService.isDownloaded(id).then(setIsDownloaded);
+    };
+    refresh();
+    return offlineBookService.subscribe(refresh);
   }, [id]);
 
   // Refresh read count when returning from book reader
@@ -429,6 +473,44 @@ const BookDetailPage: React.FC = () => {
     }
   };
 
+  // Download the whole book (pages, media, narration) for reading without connectivity
+  const handleDownloadOffline = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    if (!id || downloadProgress) return;
+
+    if (isDownloaded) {
+      if (!confirm('Remove this book from your device? You can download it again anytime.')) return;
+      await offlineBookService.deleteBook(id);
+      setIsDownloaded(false);
+      return;
+    }
+
+    // Same voice the reader falls back to when the book has no narrator voice
+    const userVoiceId = localStorage.getItem('godlykids_default_voice') || '21m00Tcm4TlvDq8ikWAM';
+    setDownloadProgress({ phase: 'pages', completed: 0, total: 1 });
+    const manifest = await offlineBookService.downloadBook(id, userVoiceId, setDownloadProgress);
+    setDownloadProgress(null);
+    if (manifest) {
+      setIsDownloaded(true);
+    } else {
+      alert('Download failed. Please check your connection and try again.');
+    }
+  };
+
+  const getDownloadLabel = (): string => {
+    if (!downloadProgress) {
+      return isDownloaded
+        ? t('downloadedForOffline') || 'Downloaded for Offline'
+        : t('downloadForOffline') || 'Download for Offline';
+    }
+    const { phase, completed, total } = downloadProgress;
+    const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+    if (phase === 'media') return `Downloading pictures... ${percent}%`;
+    if (phase === 'narration') return `Downloading narration... ${percent}%`;
+    return 'Preparing download...';
+  };
+
   // Handle share book with cover image
   const handleShare = async () => {
     if (!book) return;
@@ -1013,6 +1095,29 @@ const BookDetailPage: React.FC = () => {
                   </>
                 )}
               </button>
+
+              {/* Download for Offline Button - only for books the user can fully read */}
+              {bookDetailsLoaded && !isLocked && offlineBookService.isSupported() && (
+                <button
+                  onClick={handleDownloadOffline}
+                  type="button"
+                  disabled={!!downloadProgress}
+                  className={`w-full max-w-sm ${isDownloaded 
+                    ? 'bg-[#2d1809]/80 text-[#9be58a] border-[#6da34d]' 
+                    : 'bg-[#2d1809]/80 text-[#e2cba5] border-[#ffffff20]'
+                  } font-display font-bold text-base py-2 rounded-full border-2 backdrop-blur-sm active:scale-95 transition-all text-center flex items-center justify-center gap-2 relative z-20 pointer-events-auto disabled:opacity-80`}
+                >
+                  {downloadProgress ? (
+                    <Download size={18} className="animate-bounce" />
+                  ) : isDownloaded ? (
+                    <CheckCircle size={18} />
+                  ) : (
+                    <Download size={18} />
+                  )}
+                  <span>{getDownloadLabel()}</span>
+                  {isDownloaded && !downloadProgress && <Trash2 size={16} className="opacity-70" />}
+                </button>
+              )}
             </>
           )}
         </div>
@@ -9,6 +9,7 @@ import BookQuizModal from '../components/features/BookQuizModal';
 import { useAudio } from '../context/AudioContext';
 import { useUser } from '../context/UserContext';
 import { readingProgressService } from '../services/readingProgressService';
+import { searchService } from '../services/searchService';
 import { favoritesService } from '../services/favoritesService';
 import { readCountService } from '../services/readCountService';
 import { analyticsService } from '../services/analyticsService';
@@ -16,10 +17,12 @@ import { bookCompletionService } from '../services/bookCompletionService';
 import { incrementActivityCounter } from '../components/features/ReviewPromptModal';
 import { BookPageRenderer, ScrollState } from '../components/features/BookPageRenderer';
 import WebViewPageRenderer from '../components/features/WebViewPageRenderer';
-import { processTextWithEmotionalCues, removeEmotionalCues } from '../utils/textProcessing';
 import { activityTrackingService } from '../services/activityTrackingService';
 import { authService } from '../services/authService';
 import { useTutorial } from '../context/TutorialContext';
+import { useNarrationController } from '../hooks/useNarrationController';
+import { getTextBoxRecording } from '../services/narrationController';
+import type { WordTiming } from '../services/narrationController';
 
 const API_BASE_URL = (import.meta as any).env?.VITE_API_BASE_URL || 'https://backendgk2-0.onrender.com';
 
@@ -32,6 +35,10 @@ interface TextBox {
     fontFamily?: string;
     fontSize?: number;
     color?: string;
+    // Read-along timing for the page narration (seconds into the recording)
+    startTime?: number;
+    endTime?: number;
+    words?: WordTiming[];
 }
 
 interface VideoSequenceItem {
@@ -97,26 +104,11 @@ interface Page {
         };
     };
     soundEffectUrl?: string;
-}
-
-/**
- * Represents a segment of text to be spoken with a specific voice.
- * Used for multi-segment TTS where narrator and characters alternate.
- * 
- * Example: "Moses said @Moses "Let my people go" then Pharaoh replied @Pharaoh "Never!""
- * Becomes 4 segments:
- *   1. { text: "Moses said", isNarrator: true }
- *   2. { text: "Let my people go", characterName: "Moses" }
- *   3. { text: "then Pharaoh replied", isNarrator: true }
- *   4. { text: "Never!", characterName: "Pharaoh" }
- */
-interface TextSegment {
-    text: string;           // The actual text to speak
-    voiceId: string;        // Voice ID to use for this segment
-    characterName?: string; // Character name (if character voice)
-    isNarrator: boolean;    // True if narrator voice
-    startIndex: number;     // Start position in original cleaned text (for highlighting)
-    endIndex: number;       // End position in original cleaned text (for highlighting)
+    // Narrator recording from the portal read-along editor - preferred over TTS
+    narration?: {
+        audioUrl?: string;
+        duration?: number;
+    };
 }
 
 
@@ -233,12 +225,7 @@ const BookReaderPage: React.FC = () => {
         return () => window.removeEventListener('popstate', handlePopState);
     }, [isTutorialActive]);
 
-    // TTS State
-    const [playing, setPlaying] = useState(false);
-    const playingRef = useRef(false); // Ref to track playing state for closures
-    const [currentAudio, setCurrentAudio] = useState<HTMLAudioElement | null>(null);
-    const [activeTextBoxIndex, setActiveTextBoxIndex] = useState<number | null>(null);
-    const [loadingAudio, setLoadingAudio] = useState(false);
+    // TTS State (playback itself is driven by the NarrationController below)
     const [showLoadingPopup, setShowLoadingPopup] = useState(false); // Dismissible loading popup
     const [voices, setVoices] = useState<any[]>([]);
     const [clonedVoices, setClonedVoices] = useState<ClonedVoice[]>([]);
@@ -277,271 +264,6 @@ const BookReaderPage: React.FC = () => {
     // Otherwise use user's selected voice
     const effectiveVoiceId = effectiveNarratorVoiceId;
     
-    // Sequential text box playback - track which text boxes to play on current page
-    const pendingTextBoxesRef = useRef<Array<{ text: string; index: number }>>([]);
-    const isSequentialPlaybackRef = useRef(false); // True when playing all text boxes in sequence
-    
-    /**
-     * Get the voice ID to use for a given text, handling @Character tags
-     * 
-     * SUPPORTED FORMATS:
-     * 1. "@Moses Let my people go!"  ← Tag INSIDE quotes (preferred) - Moses reads only the quoted text
-     * 2. @Moses "Let my people go!"  ← Tag OUTSIDE quotes - Moses reads only the quoted text
-     * 
-     * The @Character tag MUST be paired with quotes to define exactly what the character says.
-     * Text without quotes = narrator reads it.
-     * 
-     * Voice Priority:
-     * 1. @Character tag with quotes -> Use character's assigned voice (FIXED)
-     * 2. No tag -> Use narrator voice (defaultNarratorVoiceId or user's selected voice)
-     */
-    const getVoiceForText = (text: string): { voiceId: string; cleanText: string; characterName?: string } => {
-        // Pattern 1: Tag INSIDE quotes - "@Moses Let my people go!"
-        // This is the PREFERRED format - cleaner and more intuitive
-        const insideQuotesMatch = text.match(/"@(\w+)\s+([^"]+)"/);
-        
-        if (insideQuotesMatch) {
-            const [fullMatch, charName, dialogueText] = insideQuotesMatch;
-            const character = characterVoices.find(c => 
-                c.characterName.toLowerCase() === charName.toLowerCase()
-            );
-            
-            // Clean text: keep only the dialogue (remove tag, keep rest of text for display)
-            const cleanText = text
-                .replace(/"@\w+\s+([^"]+)"/g, '"$1"') // Replace "@Name text" with just "text"
-                .replace(/\s+/g, ' ')
-                .trim();
-            
-            if (character && character.voiceId) {
-                console.log(`🎭 Character voice (inside quotes): "@${charName} ${dialogueText}" -> voice: ${character.voiceId}`);
-                return { 
-                    voiceId: character.voiceId, 
-                    cleanText,
-                    characterName: character.characterName
-                };
-            }
-            console.warn(`⚠️ Character @${charName} not found, using narrator voice`);
-            return { voiceId: effectiveNarratorVoiceId, cleanText };
-        }
-        
-        // Pattern 2: Tag OUTSIDE quotes - @Moses "Let my people go!"
-        const outsideQuotesMatch = text.match(/@(\w+)\s+"([^"]+)"/);
-        
-        if (outsideQuotesMatch) {
-            const [fullMatch, charName, quotedText] = outsideQuotesMatch;
-            const character = characterVoices.find(c => 
-                c.characterName.toLowerCase() === charName.toLowerCase()
-            );
-            
-            // Clean text: remove @tag but keep the quoted text
-            const cleanText = text
-                .replace(/@\w+\s+"([^"]+)"/g, '"$1"') // Replace @Name "text" with just "text"
-                .replace(/\s+/g, ' ')
-                .trim();
-            
-            if (character && character.voiceId) {
-                console.log(`🎭 Character voice (outside quotes): @${charName} "${quotedText}" -> voice: ${character.voiceId}`);
-                return { 
-                    voiceId: character.voiceId, 
-                    cleanText,
-                    characterName: character.characterName
-                };
-            }
-            console.warn(`⚠️ Character @${charName} not found, using narrator voice`);
-            return { voiceId: effectiveNarratorVoiceId, cleanText };
-        }
-        
-        // No @Character tag with quotes - narrator reads everything
-        // NOTE: @Character without quotes is IGNORED (use quotes to define dialogue!)
-        const cleanText = text
-            .replace(/@\w+\s*/g, '') // Remove any stray @tags (they're malformed without quotes)
-            .replace(/\s+/g, ' ')
-            .trim();
-        
-        return { 
-            voiceId: effectiveNarratorVoiceId, 
-            cleanText 
-        };
-    };
-    
-    /**
-     * Parse text into multiple segments for multi-voice TTS playback.
-     * Handles text with multiple @Character tags that need different voices.
-     * 
-     * Example input:
-     *   "Moses said @Moses "Let my people go" then Pharaoh replied @Pharaoh "Never!""
-     * 
-     * Returns array of segments:
-     *   [
-     *     { text: "Moses said", voiceId: narratorVoice, isNarrator: true },
-     *     { text: "Let my people go", voiceId: mosesVoice, characterName: "Moses" },
-     *     { text: "then Pharaoh replied", voiceId: narratorVoice, isNarrator: true },
-     *     { text: "Never!", voiceId: pharaohVoice, characterName: "Pharaoh" }
-     *   ]
-     * 
-     * Supports both formats:
-     * - @Moses "dialogue" (tag outside quotes)
-     * - "@Moses dialogue" (tag inside quotes)
-     */
-    const parseTextIntoSegments = (text: string): TextSegment[] => {
-        const segments: TextSegment[] = [];
-        
-        // Normalize quotes first - convert ALL types of quotes to straight quotes
-        // Include fullwidth, CJK, and other Unicode quote variants
-        const normalizedText = text
-            .replace(/[""„«»「」『』〝〞＂❝❞⹂〟‟″‶]/g, '"')  // ALL double quote variants
-            .replace(/[''‚‹›「」＇❛❜‛′‵]/g, "'"); // ALL single quote variants
-        
-        console.log('🔄 Normalized text:', normalizedText.substring(0, 100) + '...');
-        
-        // Debug: Check if regex can find patterns
-        // Pattern 1: @Name "text"
-        const testMatch1 = normalizedText.match(/@(\w+)\s*"([^"]+)"/);
-        console.log('🧪 Pattern 1 (@Name "text"):', testMatch1 ? `Found: @${testMatch1[1]} "${testMatch1[2].substring(0, 20)}..."` : 'NO MATCH');
-        
-        // Pattern 2: "@Name text"
-        const testMatch2 = normalizedText.match(/"@(\w+)\s+([^"]+)"/);
-        console.log('🧪 Pattern 2 ("@Name text"):', testMatch2 ? `Found: @${testMatch2[1]} "${testMatch2[2].substring(0, 20)}..."` : 'NO MATCH');
-        
-        // Debug: Show character codes around first "@
-        const quoteAtIndex = normalizedText.indexOf('"@');
-        if (quoteAtIndex >= 0) {
-            const snippet = normalizedText.substring(quoteAtIndex, quoteAtIndex + 40);
-            const charCodes = [...snippet].map(c => c.charCodeAt(0)).join(',');
-            console.log('🔬 Char codes at "@:', snippet, '→', charCodes);
-        }
-        
-        // Also show first @ context with CHAR CODES to identify mystery quote
-        const atIndex = normalizedText.indexOf('@');
-        if (atIndex >= 0) {
-            const beforeAt = normalizedText.substring(Math.max(0, atIndex - 5), atIndex);
-            const afterAt = normalizedText.substring(atIndex, atIndex + 30);
-            const beforeCharCodes = [...beforeAt].map(c => `${c}=${c.charCodeAt(0)}`).join(', ');
-            console.log('🔬 BEFORE @ char codes:', beforeCharCodes);
-            console.log('🔬 Context around @:', `"${beforeAt}" + "${afterAt}"`)
-        }
-        
-        // Combined regex to match both formats:
-        // 1. @Character "dialogue" - tag outside quotes
-        // 2. "@Character dialogue" - tag inside quotes
-        const characterPattern = /(?:@(\w+)\s*"([^"]+)"|"@(\w+)\s+([^"]+)")/g;
-        
-        let lastIndex = 0;
-        let match: RegExpExecArray | null;
-        let cleanTextIndex = 0; // Track position in cleaned text for highlighting
-        
-        // First pass: build cleaned text to calculate indices
-        const cleanedText = normalizedText
-            .replace(/@(\w+)\s*"([^"]+)"/g, '"$2"')  // @Name "text" -> "text"
-            .replace(/"@(\w+)\s+([^"]+)"/g, '"$2"') // "@Name text" -> "text"
-            .replace(/\s+/g, ' ')
-            .trim();
-        
-        // Reset regex
-        characterPattern.lastIndex = 0;
-        
-        while ((match = characterPattern.exec(normalizedText)) !== null) {
-            // Get narrator text before this character dialogue
-            const narratorText = normalizedText.slice(lastIndex, match.index).trim();
-            
-            if (narratorText) {
-                // Calculate position in cleaned text
-                const cleanNarratorText = narratorText.replace(/\s+/g, ' ').trim();
-                const startIdx = cleanTextIndex;
-                const endIdx = cleanTextIndex + cleanNarratorText.length;
-                cleanTextIndex = endIdx + 1; // +1 for space
-                
-                segments.push({
-                    text: cleanNarratorText,
-                    voiceId: effectiveNarratorVoiceId,
-                    isNarrator: true,
-                    startIndex: startIdx,
-                    endIndex: endIdx
-                });
-            }
-            
-            // Determine which pattern matched
-            // match[1] and match[2] are for @Name "text" pattern
-            // match[3] and match[4] are for "@Name text" pattern
-            const charName = match[1] || match[3];
-            const dialogueText = match[2] || match[4];
-            
-            if (charName && dialogueText) {
-                // Find the character voice
-                const character = characterVoices.find(c => 
-                    c.characterName.toLowerCase() === charName.toLowerCase()
-                );
-                
-                // Calculate position in cleaned text (dialogue is in quotes)
-                const startIdx = cleanTextIndex + 1; // +1 for opening quote
-                const endIdx = startIdx + dialogueText.length;
-                cleanTextIndex = endIdx + 2; // +2 for closing quote and space
-                
-                segments.push({
-                    text: dialogueText,
-                    voiceId: character?.voiceId || effectiveNarratorVoiceId,
-                    characterName: character?.characterName || charName,
-                    isNarrator: false,
-                    startIndex: startIdx,
-                    endIndex: endIdx
-                });
-                
-                if (!character) {
-                    console.warn(`⚠️ Character @${charName} not found in characterVoices, using narrator voice`);
-                }
-            }
-            
-            lastIndex = match.index + match[0].length;
-        }
-        
-        // Get any remaining narrator text after the last character dialogue
-        const remainingText = normalizedText.slice(lastIndex).trim();
-        if (remainingText) {
-            const cleanRemainingText = remainingText
-                .replace(/@\w+\s*/g, '') // Remove stray @tags
-                .replace(/\s+/g, ' ')
-                .trim();
-            
-            if (cleanRemainingText) {
-                const startIdx = cleanTextIndex;
-                const endIdx = cleanTextIndex + cleanRemainingText.length;
-                
-                segments.push({
-                    text: cleanRemainingText,
-                    voiceId: effectiveNarratorVoiceId,
-                    isNarrator: true,
-                    startIndex: startIdx,
-                    endIndex: endIdx
-                });
-            }
-        }
-        
-        // If no segments were created (no character tags), create single narrator segment
-        if (segments.length === 0) {
-            const cleanText = text
-                .replace(/@\w+\s*/g, '') // Remove any stray @tags
-                .replace(/\s+/g, ' ')
-                .trim();
-            
-            segments.push({
-                text: cleanText,
-                voiceId: effectiveNarratorVoiceId,
-                isNarrator: true,
-                startIndex: 0,
-                endIndex: cleanText.length
-            });
-        }
-        
-        // Filter out any empty segments
-        const validSegments = segments.filter(s => s.text && s.text.trim().length > 0);
-        
-        console.log(`📝 Parsed ${validSegments.length} valid segment(s) (${segments.length - validSegments.length} empty filtered):`, validSegments.map(s => 
-            `"${s.text.substring(0, 30)}${s.text.length > 30 ? '...' : ''}" [${s.isNarrator ? 'Narrator' : s.characterName}] voice:${s.voiceId || 'NONE'}`
-        ));
-        
-        return validSegments;
-    };
-    
     /**
      * Get cleaned display text with all @Character tags removed.
      * Used for displaying text in the UI without the voice markup.
@@ -555,8 +277,6 @@ const BookReaderPage: React.FC = () => {
             .trim();
     };
     
-    const [wordAlignment, setWordAlignment] = useState<{ words: Array<{ word: string; start: number; end: number }> } | null>(null);
-    const [currentWordIndex, setCurrentWordIndex] = useState<number>(-1);
     const [showVoiceDropdown, setShowVoiceDropdown] = useState(false);
     
     // Translation state
@@ -571,7 +291,6 @@ const BookReaderPage: React.FC = () => {
     useEffect(() => {
         selectedLanguageRef.current = selectedLanguage;
     }, [selectedLanguage]);
-    const wordAlignmentRef = useRef<{ words: Array<{ word: string; start: number; end: number }> } | null>(null);
     const bookBackgroundMusicRef = useRef<HTMLAudioElement | null>(null);
     // iOS/WKWebView often ignores HTMLAudioElement.volume. Use WebAudio GainNode for reliable volume control.
     const bookMusicCtxRef = useRef<AudioContext | null>(null);
@@ -579,29 +298,13 @@ const BookReaderPage: React.FC = () => {
     const bookMusicSourceRef = useRef<MediaElementAudioSourceNode | null>(null);
     const bookMusicWebAudioReadyRef = useRef<boolean>(false); // only true after a user gesture resumes AudioContext
     const voiceDropdownRef = useRef<HTMLDivElement>(null);
-    const [autoPlayMode, setAutoPlayMode] = useState(false);
-    const autoPlayModeRef = useRef(false);
     const currentPageIndexRef = useRef(0); // Track page index to avoid closure issues
-    const isAutoPlayingRef = useRef(false); // Prevent multiple simultaneous auto-play calls
-    const userStoppedPlaybackRef = useRef(false); // Track when user explicitly stopped playback (prevents auto-resume)
-    const alignmentWarningShownRef = useRef(false); // Prevent alignment warning spam
     const hasAutoPlayedOnStartRef = useRef(false); // Track if we've auto-played on book start
     
     // TTS Playback Mode: 'auto' = auto page turn, 'page' = current page only
     const [ttsMode, setTtsMode] = useState<'auto' | 'page'>('auto');
-    const ttsModeRef = useRef<'auto' | 'page'>('auto');
     const [showTtsModeMenu, setShowTtsModeMenu] = useState(false);
     
-    // Multi-segment TTS playback state
-    // Allows alternating between narrator and character voices in a single text box
-    const [currentSegments, setCurrentSegments] = useState<TextSegment[]>([]);
-    const [currentSegmentIndex, setCurrentSegmentIndex] = useState(0);
-    const currentSegmentIndexRef = useRef(0); // Ref for closure access
-    const segmentsQueueRef = useRef<Array<{ segment: TextSegment; audioUrl: string; alignment: any }>>([]);
-    const isPlayingMultiSegmentRef = useRef(false); // Track if we're in multi-segment playback mode
-    const multiSegmentAudioRef = useRef<HTMLAudioElement | null>(null); // Current playing audio in multi-segment mode
-    const multiSegmentPlaybackIdRef = useRef(0); // Unique ID to prevent overlapping playback sessions
-    
     const [isPageTurning, setIsPageTurning] = useState(false);
     const [flipState, setFlipState] = useState<{ direction: 'next' | 'prev', isFlipping: boolean } | null>(null);
     const touchStartX = useRef<number>(0);
@@ -618,9 +321,6 @@ const BookReaderPage: React.FC = () => {
     const isPulling = useRef<boolean>(false);
     const PULL_THRESHOLD = 80; // pixels to pull before refresh triggers
     
-    // Audio preloading cache refs
-    const audioPreloadCacheRef = useRef<Map<string, { audioUrl: string; alignment: any }>>(new Map());
-    const preloadingInProgressRef = useRef<Set<string>>(new Set());
     const desiredScrollStateRef = useRef<ScrollState | null>(null); // Track desired scroll state for next page turn
     
     // Background preloading cache refs - prevents black flash between pages
@@ -1047,11 +747,9 @@ const BookReaderPage: React.FC = () => {
                     }
                     
                     // Mark voice settings as loaded (even if book has no custom voices)
-                    // Also clear any preloaded audio that may have used wrong voice
-                    audioPreloadCacheRef.current.clear();
-                    preloadingInProgressRef.current.clear();
+                    // Narration audio is keyed by voice, so nothing generated earlier gets reused
                     setVoiceSettingsLoaded(true);
-                    console.log('✅ Voice settings loaded for book (cleared audio preload cache)');
+                    console.log('✅ Voice settings loaded for book');
                     
                     // Increment view count in database (when book is OPENED)
                     try {
@@ -1153,51 +851,106 @@ const BookReaderPage: React.FC = () => {
         };
     }, [bookId, setGameMode, setMusicPaused, ensureBookMusicGraph, resumeBookMusicContext]); // Removed bookMusicEnabled from dependencies
 
-    // Ref to track current audio for cleanup (avoids stale closure issues)
-    const currentAudioRef = useRef<HTMLAudioElement | null>(null);
+    // Read-aloud narration: queue, character voices, word highlighting and
+    // auto page turn all live in the NarrationController; this page only
+    // renders its snapshot and animates the page turns it asks for.
+    const { controller: narration, snapshot: narrationState } = useNarrationController({
+        getPageCount: () => pages.length,
+        getTextBoxes: (pageIndex) => {
+            const page = pages[pageIndex];
+            return page ? getTranslatedTextBoxes(page).map(tb => tb.text) : [];
+        },
+        isPageReady: (pageIndex) => {
+            const page = pages[pageIndex];
+            if (!page || selectedLanguage === 'en') return true;
+            return translatedContent.has(`${page._id}_${selectedLanguage}`);
+        },
+        getRecording: (pageIndex, textBoxIndex) => {
+            const page = pages[pageIndex];
+            const box = page ? getTranslatedTextBoxes(page)[textBoxIndex] : undefined;
+            return getTextBoxRecording(page?.narration?.audioUrl, box, selectedLanguageRef.current);
+        },
+        turnPage: (nextPageIndex) => new Promise<void>(resolve => {
+            // Same page turn animation as a manual swipe
+            setIsPageTurning(true);
+            setFlipState({ direction: 'next', isFlipping: true });
+            playPageTurnSound();
+
+            // Change page content at the halfway point (when page is perpendicular - 90deg)
+            setTimeout(() => {
+                setCurrentPageIndex(nextPageIndex);
+                currentPageIndexRef.current = nextPageIndex;
+                // Preserve scroll state during page turns (both manual and auto-play)
+                setScrollState(scrollStateRef.current);
+            }, 400);
+
+            // End animation after full duration
+            setTimeout(() => {
+                setIsPageTurning(false);
+                setFlipState(null);
+                if (bookId) {
+                    readingProgressService.saveProgress(bookId, nextPageIndex);
+                }
+                resolve();
+            }, 800);
+        }),
+        onBookFinished: () => {
+            // Mark book as completed (unlocks games permanently)
+            if (bookId) {
+                bookCompletionService.markBookCompleted(bookId);
+                readCountService.incrementReadCount(bookId);
+                analyticsService.bookReadComplete(bookId, bookTitle);
+                // Unlock reward voice if book has one
+                handleUnlockRewardVoice();
+            }
+        },
+        onPlaybackError: () => {
+            alert('Failed to play audio. The TTS service might be unavailable.');
+        },
+        synthesize: ({ text, voiceId, languageCode, pageIndex, textBoxIndex }) => ApiService.generateTTS(
+            text,
+            voiceId,
+            bookId || undefined,
+            languageCode,
+            pageIndex + 1, // Page number (1-based for readability in storage)
+            textBoxIndex
+        ),
+    });
+    const playing = narrationState.status === 'playing';
+    const loadingAudio = narrationState.status === 'loading';
+    const activeTextBoxIndex = narrationState.textBoxIndex;
+    const currentWordIndex = narrationState.wordIndex;
+    const wordAlignment = narrationState.alignment;
+
+    // Only show the "Preparing your story" popup when generation actually takes a while
+    useEffect(() => {
+        if (!loadingAudio) {
+            setShowLoadingPopup(false);
+            return;
+        }
+        const timer = setTimeout(() => setShowLoadingPopup(true), 400);
+        return () => clearTimeout(timer);
+    }, [loadingAudio]);
+
+    // Keep the controller's voices and language in step with the reader settings
+    useEffect(() => {
+        narration.setVoices(effectiveNarratorVoiceId, characterVoices);
+    }, [narration, effectiveNarratorVoiceId, characterVoices]);
+
     useEffect(() => {
-        currentAudioRef.current = currentAudio;
-    }, [currentAudio]);
+        narration.setLanguage(selectedLanguage);
+    }, [narration, selectedLanguage]);
 
     // Helper function to stop all book audio
     const stopAllBookAudio = useCallback(() => {
         console.log('📖 Stopping ALL book audio');
         // Stop TTS narration
-        if (currentAudioRef.current) {
-            currentAudioRef.current.pause();
-            currentAudioRef.current.src = '';
-        }
-        // Stop multi-segment TTS audio
-        if (multiSegmentAudioRef.current) {
-            try {
-                multiSegmentAudioRef.current.pause();
-                multiSegmentAudioRef.current.onended = null;
-                multiSegmentAudioRef.current.ontimeupdate = null;
-                multiSegmentAudioRef.current.onplay = null;
-                multiSegmentAudioRef.current.onpause = null;
-                multiSegmentAudioRef.current.onerror = null;
-                multiSegmentAudioRef.current.src = '';
-                multiSegmentAudioRef.current = null;
-            } catch (e) {
-                console.warn('Error stopping multi-segment audio:', e);
-            }
-        }
-        // Cancel any in-progress multi-segment playback
-        isPlayingMultiSegmentRef.current = false;
-        multiSegmentPlaybackIdRef.current += 1; // Invalidate any in-flight segments
+        narration.stop();
         // Stop book background music
         if (bookBackgroundMusicRef.current) {
             bookBackgroundMusicRef.current.pause();
             bookBackgroundMusicRef.current.src = '';
         }
-        // Reset state
-        setPlaying(false);
-        playingRef.current = false;
-        setActiveTextBoxIndex(null);
-        setCurrentWordIndex(-1);
-        setCurrentSegments([]);
-        setCurrentSegmentIndex(0);
-        currentSegmentIndexRef.current = 0;
         // Clear MediaSession
         if ('mediaSession' in navigator) {
             try {
@@ -1205,13 +958,7 @@ const BookReaderPage: React.FC = () => {
                 navigator.mediaSession.playbackState = 'none';
             } catch (e) { }
         }
-    }, []);
-
-    // Keep playingRef in sync with playing state for use in closures
-    useEffect(() => {
-        playingRef.current = playing;
-    }, [playing]);
-    
+    }, [narration]);
 
     // Effect: Stop TTS audio when component unmounts OR when navigating away
     useEffect(() => {
@@ -1244,27 +991,8 @@ const BookReaderPage: React.FC = () => {
     useEffect(() => {
         const stopBookAudio = () => {
             console.log('📖 Stopping book audio (app backgrounded)');
-            // Stop single-segment TTS narration
-            if (currentAudioRef.current) {
-                currentAudioRef.current.pause();
-            }
-            
-            // Stop multi-segment TTS narration (character voices)
-            if (multiSegmentAudioRef.current) {
-                try {
-                    multiSegmentAudioRef.current.pause();
-                    multiSegmentAudioRef.current.onended = null;
-                    multiSegmentAudioRef.current.ontimeupdate = null;
-                } catch (e) {
-                    console.warn('Error stopping multi-segment audio on background:', e);
-                }
-            }
-            // Invalidate any in-flight multi-segment playback
-            isPlayingMultiSegmentRef.current = false;
-            multiSegmentPlaybackIdRef.current += 1;
-            
-            setPlaying(false);
-            playingRef.current = false;
+            // Pause narration - the play button resumes it when the user is back
+            narration.pause();
             
             // Stop book background music - should NOT continue in background
             if (bookBackgroundMusicRef.current) {
@@ -1310,7 +1038,7 @@ const BookReaderPage: React.FC = () => {
             window.removeEventListener('pagehide', handlePageHide);
             window.removeEventListener('blur', handleBlur);
         };
-    }, []); // Empty array - event handler uses refs, not stale state
+    }, [narration]); // Controller is stable - handler uses refs, not stale state
 
     // Effect 2: Handle Music Toggle (Play/Pause)
     useEffect(() => {
@@ -1336,6 +1064,7 @@ const BookReaderPage: React.FC = () => {
             if (!bookId) return;
             try {
                 const data = await ApiService.getBookPages(bookId);
+                searchService.indexBookPages(bookId, data);
 
                 // Add "The End" page as the last page
                 // Simple wood plank background only - modal will appear on top
@@ -1655,56 +1384,8 @@ const BookReaderPage: React.FC = () => {
         
         // Save language preference
         translationService.setPreferredLanguage(selectedLanguage);
-        
-        // Clear audio cache when translations are being fetched for non-English
-        // This ensures we don't use cached English audio
-        if (selectedLanguage !== 'en') {
-            audioPreloadCacheRef.current.clear();
-            preloadingInProgressRef.current.clear();
-        }
     }, [selectedLanguage, currentPageIndex, pages]);
 
-    // Track if this is the first render for voice change effect
-    const isFirstVoiceRenderRef = useRef(true);
-    const prevVoiceIdRef = useRef(effectiveNarratorVoiceId);
-    
-    // Clear audio cache when voice changes (but NOT on initial mount)
-    useEffect(() => {
-        // Skip the first render - we don't want to clear cache on initial mount
-        if (isFirstVoiceRenderRef.current) {
-            isFirstVoiceRenderRef.current = false;
-            prevVoiceIdRef.current = effectiveNarratorVoiceId;
-            return;
-        }
-        
-        // Only clear if voice actually changed
-        if (prevVoiceIdRef.current === effectiveNarratorVoiceId) {
-            return;
-        }
-        prevVoiceIdRef.current = effectiveNarratorVoiceId;
-        
-        // Stop any currently playing audio when voice changes
-        if (currentAudio) {
-            currentAudio.pause();
-            currentAudio.src = '';
-            setCurrentAudio(null);
-        }
-        // Clear cached audio so it regenerates with new voice
-        audioPreloadCacheRef.current.clear();
-        preloadingInProgressRef.current.clear();
-        console.log(`🎤 Voice changed to ${effectiveNarratorVoiceId}, cleared audio cache`);
-    }, [effectiveNarratorVoiceId]);
-
-    // Cleanup audio on unmount
-    useEffect(() => {
-        return () => {
-            if (currentAudio) {
-                currentAudio.pause();
-                currentAudio.src = '';
-            }
-        };
-    }, [currentAudio]);
-
     // Track reading progress on unmount
     useEffect(() => {
         return () => {
@@ -1832,7 +1513,7 @@ const BookReaderPage: React.FC = () => {
         
         // Auto-play if TTS has been started at least once this session
         const shouldAutoPlayOnSwipe = hasStartedTTSRef.current;
-        stopAudio();
+        narration.stop();
         
         // Check preview limit for premium books (3 pages allowed)
         const nextIndex = currentPageIndex + 1;
@@ -1901,21 +1582,8 @@ const BookReaderPage: React.FC = () => {
                 // Auto-play narration after swipe (if user has used TTS this session)
                 if (shouldAutoPlayOnSwipe) {
                     setTimeout(() => {
-                        const newPage = pages[nextIndex];
-                        const contentTextBoxes = newPage?.content?.textBoxes;
-                        const pageTextBoxes = contentTextBoxes || newPage?.textBoxes || (newPage as any)?.content?.textBoxes || [];
-                        
-                        if (pageTextBoxes.length > 0) {
-                            const translatedTextBoxes = translatedContent.get(nextIndex);
-                            const firstBoxText = translatedTextBoxes?.[0]?.text || pageTextBoxes[0].text;
-                            
-                            if (firstBoxText) {
-                                console.log('▶️ Auto-playing TTS after swipe to page', nextIndex + 1);
-                                const shouldAutoPlay = ttsModeRef.current === 'auto';
-                                autoPlayModeRef.current = shouldAutoPlay;
-                                handlePlayText(firstBoxText, 0, { stopPropagation: () => {} } as React.MouseEvent, shouldAutoPlay);
-                            }
-                        }
+                        console.log('▶️ Auto-playing TTS after swipe to page', nextIndex + 1);
+                        narration.playPage(nextIndex);
                     }, 300);
                 }
             }, 850); // Slightly after 0.8s animation completes
@@ -1927,8 +1595,8 @@ const BookReaderPage: React.FC = () => {
         if (isPageTurning) return;
         
         // Check if TTS was playing before we stop it (for auto-play on prev page)
-        const wasPlayingTTS = playing || playingRef.current || isPlayingMultiSegmentRef.current;
-        stopAudio();
+        const wasPlayingTTS = narration.isActive();
+        narration.stop();
         if (currentPageIndex > 0) {
             // Preserve scroll state when turning pages manually - use ref to get latest value
             const currentScrollState = scrollStateRef.current;
@@ -1960,21 +1628,8 @@ const BookReaderPage: React.FC = () => {
                 // Auto-play narration after manual swipe back (only if TTS was playing before)
                 if (wasPlayingTTS) {
                     setTimeout(() => {
-                        const newPage = pages[prevIndex];
-                        const contentTextBoxes = newPage?.content?.textBoxes;
-                        const pageTextBoxes = contentTextBoxes || newPage?.textBoxes || (newPage as any)?.content?.textBoxes || [];
-                        
-                        if (pageTextBoxes.length > 0) {
-                            const translatedTextBoxes = translatedContent.get(prevIndex);
-                            const firstBoxText = translatedTextBoxes?.[0]?.text || pageTextBoxes[0].text;
-                            
-                            if (firstBoxText) {
-                                console.log('▶️ Auto-playing TTS after swipe back to page', prevIndex + 1);
-                                const shouldAutoPlay = ttsModeRef.current === 'auto';
-                                autoPlayModeRef.current = shouldAutoPlay;
-                                handlePlayText(firstBoxText, 0, { stopPropagation: () => {} } as React.MouseEvent, shouldAutoPlay);
-                            }
-                        }
+                        console.log('▶️ Auto-playing TTS after swipe back to page', prevIndex + 1);
+                        narration.playPage(prevIndex);
                     }, 300); // Delay to let page settle
                 }
             }, 850); // Slightly after 0.8s animation completes
@@ -1992,9 +1647,8 @@ const BookReaderPage: React.FC = () => {
             // Clear cache for this book
             ApiService.clearBookCache(bookId);
             
-            // Also clear audio preload cache
-            audioPreloadCacheRef.current.clear();
-            preloadingInProgressRef.current.clear();
+            // Also drop generated narration so it regenerates from the fresh text
+            narration.clearCache();
             
             // Re-fetch pages
             const freshPages = await ApiService.getBookPages(bookId);
@@ -2075,13 +1729,13 @@ const BookReaderPage: React.FC = () => {
             if (diffX > 0) {
                 // Swipe left - next page
                 if (currentPageIndex < pages.length - 1) {
-                    stopAudio();
+                    narration.stop();
                     handleNext({ stopPropagation: () => { } } as React.MouseEvent);
                 }
             } else {
                 // Swipe right - previous page
                 if (currentPageIndex > 0) {
-                    stopAudio();
+                    narration.stop();
                     handlePrev({ stopPropagation: () => { } } as React.MouseEvent);
                 }
             }
@@ -2186,10 +1840,10 @@ const BookReaderPage: React.FC = () => {
         e.stopPropagation();
 
         // If auto-play is active, turn page and lower scroll
-        if (autoPlayMode || autoPlayModeRef.current) {
+        if (narrationState.autoPlay) {
             // Turn to next page if available
             if (currentPageIndex < pages.length - 1) {
-                stopAudio();
+                narration.stop();
                 handleNext({ stopPropagation: () => { } } as React.MouseEvent);
                 // Lower scroll (user preference from last page)
                 if (scrollState !== 'hidden') {
@@ -2203,149 +1857,25 @@ const BookReaderPage: React.FC = () => {
         }
     };
 
-    const stopAudio = () => {
-        console.log('🛑 stopAudio called');
-        
-        // Mark that user explicitly stopped playback - prevents auto-resume from pending listeners
-        userStoppedPlaybackRef.current = true;
-        
-        // Stop single-track audio using ref (more reliable than state)
-        if (currentAudioRef.current) {
-            try {
-                const audio = currentAudioRef.current;
-                // Clear all event handlers to prevent callbacks
-                audio.onended = null;
-                audio.ontimeupdate = null;
-                audio.onplay = null;
-                audio.onpause = null;
-                audio.onerror = null;
-                audio.pause();
-                audio.currentTime = 0;
-                audio.src = ''; // Clear source to prevent continued loading
-                currentAudioRef.current = null;
-            } catch (e) {
-                console.warn('Error stopping single-track audio:', e);
-            }
-        }
-        // Also stop state-based currentAudio (backup)
-        if (currentAudio) {
-            try {
-                currentAudio.pause();
-                currentAudio.currentTime = 0;
-            } catch (e) {
-                console.warn('Error stopping currentAudio state:', e);
-            }
-        }
-        
-        // Stop multi-segment TTS audio
-        if (multiSegmentAudioRef.current) {
-            try {
-                const audio = multiSegmentAudioRef.current;
-                audio.onended = null;
-                audio.ontimeupdate = null;
-                audio.onplay = null;
-                audio.onpause = null;
-                audio.onerror = null;
-                audio.pause();
-                audio.src = '';
-                multiSegmentAudioRef.current = null;
-            } catch (e) {
-                console.warn('Error stopping multi-segment audio in stopAudio:', e);
-            }
-        }
-        
-        // Cancel any in-progress multi-segment playback
-        isPlayingMultiSegmentRef.current = false;
-        multiSegmentPlaybackIdRef.current += 1; // Invalidate any in-flight segments
-        
-        // Clear sequential text box playback queue
-        pendingTextBoxesRef.current = [];
-        isSequentialPlaybackRef.current = false;
-        
-        setPlaying(false);
-        playingRef.current = false;
-        setActiveTextBoxIndex(null);
-        setCurrentWordIndex(-1); // Clear any word highlighting
-        setWordAlignment(null); // Clear word alignment data
-        wordAlignmentRef.current = null;
-        setAutoPlayMode(false);
-        autoPlayModeRef.current = false;
-        isAutoPlayingRef.current = false; // Reset auto-play flag
-    };
-
-    const handlePlayPage = async (e: React.MouseEvent) => {
+    const handlePlayPage = (e: React.MouseEvent) => {
         e.stopPropagation();
+        hasStartedTTSRef.current = true;
 
-        // If already playing, pause/stop and disable auto-play
-        if (playing) {
-            stopAudio();
-            setAutoPlayMode(false);
-            // Clear sequential playback queue
-            pendingTextBoxesRef.current = [];
-            isSequentialPlaybackRef.current = false;
+        // Paused (e.g. app was backgrounded) - pick up where we left off
+        if (narrationState.status === 'paused') {
+            narration.resume();
             return;
         }
 
-        // Enable auto-play mode only if TTS mode is 'auto'
-        const shouldAutoPlay = ttsMode === 'auto';
-        console.log('▶️ handlePlayPage: ttsMode=', ttsMode, 'shouldAutoPlay=', shouldAutoPlay);
-        setAutoPlayMode(shouldAutoPlay);
-        autoPlayModeRef.current = shouldAutoPlay;
-
-        // Play ALL text boxes on the page sequentially
-        // Note: textBoxes is nested under content in the database schema
-        const contentBoxes = currentPage.content?.textBoxes;
-        const pageTextBoxes = (contentBoxes && contentBoxes.length > 0) ? contentBoxes : currentPage.textBoxes;
-        if (pageTextBoxes && pageTextBoxes.length > 0) {
-            const translatedTextBoxes = getTranslatedTextBoxes(currentPage);
-            
-            // Set up sequential playback queue for all text boxes AFTER the first one
-            if (translatedTextBoxes.length > 1) {
-                console.log(`📚 Setting up sequential playback for ${translatedTextBoxes.length} text boxes`);
-                isSequentialPlaybackRef.current = true;
-                // Queue text boxes 1, 2, 3... (starting from index 1, skip 0 since we play it immediately)
-                pendingTextBoxesRef.current = translatedTextBoxes.slice(1).map((tb, i) => ({
-                    text: tb.text,
-                    index: i + 1 // Actual index in the textBoxes array
-                }));
-            } else {
-                pendingTextBoxesRef.current = [];
-                isSequentialPlaybackRef.current = false;
-            }
-            
-            // Play the first text box
-            const firstBoxText = translatedTextBoxes[0]?.text || pageTextBoxes[0].text;
-            handlePlayText(firstBoxText, 0, e, shouldAutoPlay);
-        } else {
-            console.warn('⚠️ No text boxes found on current page');
-        }
-    };
-    
-    // Play the next pending text box in the sequential queue
-    // Returns true if there was a next text box to play, false if queue is empty
-    const playNextPendingTextBox = (): boolean => {
-        if (!isSequentialPlaybackRef.current || pendingTextBoxesRef.current.length === 0) {
-            console.log('📭 No more pending text boxes');
-            isSequentialPlaybackRef.current = false;
-            return false;
-        }
-        
-        // Get the next text box from the queue
-        const nextTextBox = pendingTextBoxesRef.current.shift();
-        if (!nextTextBox) {
-            isSequentialPlaybackRef.current = false;
-            return false;
+        // If already playing, stop (also ends auto-play)
+        if (narration.isActive()) {
+            narration.stop();
+            return;
         }
-        
-        console.log(`📖 Playing next text box ${nextTextBox.index + 1}, ${pendingTextBoxesRef.current.length} remaining in queue`);
-        
-        // Small delay before playing next text box for natural pacing
-        setTimeout(() => {
-            const syntheticEvent = { stopPropagation: () => {} } as React.MouseEvent;
-            handlePlayText(nextTextBox.text, nextTextBox.index, syntheticEvent, autoPlayModeRef.current);
-        }, 500); // 0.5 second pause between text boxes
-        
-        return true;
+
+        // Play ALL text boxes on the page sequentially; 'auto' mode continues to the next pages
+        console.log('▶️ handlePlayPage: ttsMode=', ttsMode);
+        narration.playPage(currentPageIndexRef.current);
     };
     
     // Toggle TTS mode
@@ -2353,130 +1883,16 @@ const BookReaderPage: React.FC = () => {
         e.stopPropagation();
         const newMode = ttsMode === 'auto' ? 'page' : 'auto';
         setTtsMode(newMode);
-        ttsModeRef.current = newMode;
         setShowTtsModeMenu(false);
         
-        // If currently playing and switching modes, update autoPlayMode accordingly
-        if (playing) {
-            if (newMode === 'page') {
-                setAutoPlayMode(false);
-                autoPlayModeRef.current = false;
-            } else {
-                setAutoPlayMode(true);
-                autoPlayModeRef.current = true;
-            }
-        }
-    };
-
-    // Preload audio for upcoming pages (runs in background)
-    const preloadUpcomingAudio = async (startPageIndex: number) => {
-        const pagesToPreload = 3; // Preload next 3 pages
-        // Use ref to get current language value (stable across async operations)
-        const currentLang = selectedLanguageRef.current;
-        
-        for (let i = 0; i < pagesToPreload; i++) {
-            const pageIndex = startPageIndex + i;
-            if (pageIndex >= pages.length - 1) break; // Don't preload "The End" page
-            
-            const page = pages[pageIndex];
-            const pgContentBoxes = page?.content?.textBoxes;
-            const pageTextBoxes = (pgContentBoxes && pgContentBoxes.length > 0) ? pgContentBoxes : page?.textBoxes;
-            if (!page || !pageTextBoxes) continue;
-            
-            // For non-English, check if translation is available before preloading
-            // If not available, skip preloading - it will be generated on-demand
-            if (currentLang !== 'en') {
-                const cacheKey = `${page._id}_${currentLang}`;
-                const hasTranslation = translatedContent.has(cacheKey);
-                if (!hasTranslation) {
-                    console.log(`⏳ Skipping audio preload for page ${pageIndex + 1} - translation not ready yet`);
-                    continue; // Skip this page, will preload when translation is ready
-                }
-            }
-            
-            // Preload each text box on the page
-            for (let textBoxIndex = 0; textBoxIndex < pageTextBoxes.length; textBoxIndex++) {
-                const textBox = pageTextBoxes[textBoxIndex];
-                if (!textBox.text) continue;
-                
-                // Get translated text if available
-                const rawTextToSpeak = getTranslatedText(page._id, textBoxIndex, textBox.text);
-                
-                // Parse for @Character tags and get the appropriate voice
-                const { voiceId: voiceForText, cleanText: textToPreload, characterName } = getVoiceForText(rawTextToSpeak);
-                
-                // Include language AND voice in cache key for multilingual + character voice support
-                const audioCacheKey = `${pageIndex}-${textBoxIndex}-${voiceForText}${currentLang !== 'en' ? `-${currentLang}` : ''}`;
-                
-                // Skip if already cached or currently preloading
-                if (audioPreloadCacheRef.current.has(audioCacheKey) || preloadingInProgressRef.current.has(audioCacheKey)) {
-                    continue;
-                }
-                
-                // Mark as preloading
-                preloadingInProgressRef.current.add(audioCacheKey);
-                
-                // Preload in background (don't await to avoid blocking)
-                (async () => {
-                    try {
-                        // IMPORTANT: For non-English, verify we have the actual translation, not fallback
-                        // If textToPreload equals original text but language isn't English, skip preload
-                        if (currentLang !== 'en' && textToPreload === textBox.text) {
-                            console.log(`⚠️ Skipping audio preload - translation not available for page ${pageIndex + 1}`);
-                            preloadingInProgressRef.current.delete(audioCacheKey);
-                            return;
-                        }
-                        
-                        const processed = processTextWithEmotionalCues(textToPreload);
-                        // For non-English, strip emotional cues (multilingual model doesn't support them)
-                        const ttsText = currentLang !== 'en' 
-                            ? removeEmotionalCues(textToPreload) 
-                            : processed.processedText;
-                        
-                        console.log(`🎤 Preloading TTS for page ${pageIndex + 1} in ${currentLang}${characterName ? ` [🎭 ${characterName}]` : ''}: "${ttsText.substring(0, 50)}..."`);
-                        
-                        const result = await ApiService.generateTTS(
-                            ttsText,
-                            voiceForText, // Use character or narrator voice
-                            bookId || undefined,
-                            currentLang !== 'en' ? currentLang : undefined,
-                            pageIndex + 1, // Page number (1-based for readability in storage)
-                            textBoxIndex // Text box index
-                        );
-                        
-                        if (result && result.audioUrl) {
-                            audioPreloadCacheRef.current.set(audioCacheKey, {
-                                audioUrl: result.audioUrl,
-                                alignment: result.alignment
-                            });
-                            console.log(`🎵 Preloaded audio for page ${pageIndex + 1}, text box ${textBoxIndex + 1} (${currentLang})${characterName ? ` [${characterName}]` : ''}`);
-                        }
-                    } catch (err) {
-                        console.warn(`Failed to preload audio for page ${pageIndex + 1}:`, err);
-                    } finally {
-                        preloadingInProgressRef.current.delete(audioCacheKey);
-                    }
-                })();
-            }
-        }
+        // A running narration picks up the new mode immediately
+        narration.setMode(newMode);
     };
 
-    // Track previous language to detect changes
-    const prevLanguageRef = useRef<string>(selectedLanguage);
-    
     // Trigger audio preloading when page changes, voice changes, language changes, or translations load
     useEffect(() => {
         const currentLang = selectedLanguageRef.current;
         
-        // Check if language actually changed
-        if (prevLanguageRef.current !== currentLang) {
-            // Clear the audio cache when language changes (BEFORE preloading)
-            audioPreloadCacheRef.current.clear();
-            preloadingInProgressRef.current.clear();
-            console.log(`🌐 Language changed from ${prevLanguageRef.current} to ${currentLang}, cleared audio cache`);
-            prevLanguageRef.current = currentLang;
-        }
-        
         // IMPORTANT: Don't preload until voice settings are loaded
         // This prevents preloading with wrong voice before book's custom voice is applied
         if (!voiceSettingsLoaded) {
@@ -2492,9 +1908,9 @@ const BookReaderPage: React.FC = () => {
             }
             // Start preloading from current page
             console.log(`🎵 Starting audio preload for ${currentLang}, page ${currentPageIndex + 1}`);
-            preloadUpcomingAudio(currentPageIndex);
+            narration.preload(currentPageIndex);
         }
-    }, [currentPageIndex, effectiveVoiceId, pages.length, selectedLanguage, translatedContent.size, voiceSettingsLoaded]);
+    }, [currentPageIndex, effectiveVoiceId, characterVoices, pages.length, selectedLanguage, translatedContent.size, voiceSettingsLoaded]);
 
     // Auto-play TTS when book first loads (after intro video if any)
     useEffect(() => {
@@ -2545,35 +1961,12 @@ const BookReaderPage: React.FC = () => {
         hasAutoPlayedOnStartRef.current = true;
         
         console.log('▶️ Auto-playing TTS on book start (intro video finished)');
-        
-        // Enable auto-play mode based on ttsMode setting
-        const shouldAutoPlay = ttsModeRef.current === 'auto';
-        setAutoPlayMode(shouldAutoPlay);
-        autoPlayModeRef.current = shouldAutoPlay;
+        hasStartedTTSRef.current = true;
         
         // Longer delay to ensure intro video transition is complete
         // and the first page is fully rendered
         setTimeout(() => {
-            // Get translated text if available
-            const translatedTextBoxes = getTranslatedTextBoxes(currentPage);
-            const firstBoxText = translatedTextBoxes[0]?.text || pageTextBoxes[0].text;
-            
-            // Set up sequential playback queue for all text boxes AFTER the first one
-            if (translatedTextBoxes.length > 1) {
-                console.log(`📚 Auto-play: Setting up sequential playback for ${translatedTextBoxes.length} text boxes`);
-                isSequentialPlaybackRef.current = true;
-                pendingTextBoxesRef.current = translatedTextBoxes.slice(1).map((tb, i) => ({
-                    text: tb.text,
-                    index: i + 1
-                }));
-            } else {
-                pendingTextBoxesRef.current = [];
-                isSequentialPlaybackRef.current = false;
-            }
-            
-            // Create synthetic event and trigger playback
-            const syntheticEvent = { stopPropagation: () => {} } as React.MouseEvent;
-            handlePlayText(firstBoxText, 0, syntheticEvent, shouldAutoPlay);
+            narration.playPage(0);
         }, 1500); // 1.5s delay to let intro video fade out and page fully settle
         
     }, [loading, introVideoChecked, showIntroVideo, currentPageIndex, effectiveVoiceId, pages, translatedContent.size, voiceSettingsLoaded]);
@@ -2640,1178 +2033,13 @@ const BookReaderPage: React.FC = () => {
         }
     }, [pages]);
 
-    /**
-     * Stop any currently playing multi-segment audio cleanly.
-     * Prevents overlapping audio issues.
-     */
-    const stopMultiSegmentAudio = useCallback(() => {
-        console.log('🛑 stopMultiSegmentAudio called');
-        if (multiSegmentAudioRef.current) {
-            try {
-                const audio = multiSegmentAudioRef.current;
-                // Remove all event listeners to prevent callbacks
-                audio.onended = null;
-                audio.ontimeupdate = null;
-                audio.onplay = null;
-                audio.onpause = null;
-                audio.onerror = null;
-                audio.pause();
-                audio.src = ''; // Clear source to stop loading
-                multiSegmentAudioRef.current = null;
-            } catch (e) {
-                console.warn('Error stopping multi-segment audio:', e);
-            }
-        }
-        // Increment playback ID to invalidate any in-flight segment plays
-        multiSegmentPlaybackIdRef.current += 1;
-    }, []);
-    
-    /**
-     * Calculate word offset for a segment by counting words in previous segments.
-     * This maps segment word indices to display word indices for highlighting.
-     */
-    const calculateWordOffset = (allSegments: TextSegment[], segmentIdx: number): number => {
-        let offset = 0;
-        for (let i = 0; i < segmentIdx; i++) {
-            const segmentText = allSegments[i].text;
-            const words = segmentText.split(/\s+/).filter(w => w.length > 0);
-            offset += words.length;
-        }
-        return offset;
-    };
-    
-    /**
-     * Play a single segment of multi-segment TTS.
-     * Uses playbackId to prevent race conditions and overlapping audio.
-     */
-    const playSegment = async (
-        segment: TextSegment,
-        segmentIdx: number,
-        allSegments: TextSegment[],
-        textBoxIndex: number,
-        isAutoPlay: boolean,
-        currentLang: string,
-        playbackId: number // Unique ID for this playback session
-    ) => {
-        // CRITICAL: Check if this playback session is still valid
-        if (playbackId !== multiSegmentPlaybackIdRef.current) {
-            console.log(`🛑 Playback ${playbackId} cancelled (current: ${multiSegmentPlaybackIdRef.current})`);
-            return;
-        }
-        
-        if (!isPlayingMultiSegmentRef.current) {
-            console.log('🛑 Multi-segment playback was cancelled');
-            return;
-        }
-        
-        // Calculate word offset BEFORE this segment for highlighting
-        const wordOffset = calculateWordOffset(allSegments, segmentIdx);
-        
-        try {
-            // Validate segment has text and voice
-            if (!segment.text || !segment.text.trim()) {
-                console.warn(`⏭️ Skipping empty segment ${segmentIdx + 1}`);
-                const nextSegmentIdx = segmentIdx + 1;
-                if (nextSegmentIdx < allSegments.length) {
-                    playSegment(allSegments[nextSegmentIdx], nextSegmentIdx, allSegments, textBoxIndex, isAutoPlay, currentLang, playbackId);
-                } else {
-                    // All segments done, trigger completion
-                    console.log(`✅ All segments complete (last was empty)`);
-                    isPlayingMultiSegmentRef.current = false;
-                    setPlaying(false);
-                    playingRef.current = false;
-                }
-                return;
-            }
-            
-            if (!segment.voiceId) {
-                console.warn(`⚠️ Segment ${segmentIdx + 1} has no voiceId, using narrator voice`);
-                segment.voiceId = effectiveNarratorVoiceId;
-            }
-            
-            // Stop any previous audio BEFORE generating new one
-            if (multiSegmentAudioRef.current) {
-                const oldAudio = multiSegmentAudioRef.current;
-                oldAudio.onended = null;
-                oldAudio.ontimeupdate = null;
-                oldAudio.pause();
-                multiSegmentAudioRef.current = null;
-            }
-            
-            // Generate TTS for this segment
-            const processed = processTextWithEmotionalCues(segment.text);
-            const ttsText = currentLang !== 'en' 
-                ? removeEmotionalCues(segment.text) 
-                : processed.processedText;
-            
-            // Skip if processed text is empty
-            if (!ttsText || !ttsText.trim()) {
-                console.warn(`⏭️ Skipping segment ${segmentIdx + 1} - empty after processing`);
-                const nextSegmentIdx = segmentIdx + 1;
-                if (nextSegmentIdx < allSegments.length) {
-                    playSegment(allSegments[nextSegmentIdx], nextSegmentIdx, allSegments, textBoxIndex, isAutoPlay, currentLang, playbackId);
-                }
-                return;
-            }
-            
-            console.log(`🎭 [${playbackId}] Segment ${segmentIdx + 1}/${allSegments.length}: "${ttsText.substring(0, 30)}..." [${segment.isNarrator ? 'Narrator' : segment.characterName}] voice: ${segment.voiceId} wordOffset: ${wordOffset}`);
-            
-            const result = await ApiService.generateTTS(
-                ttsText,
-                segment.voiceId,
-                bookId || undefined,
-                currentLang !== 'en' ? currentLang : undefined,
-                currentPageIndexRef.current + 1, // Page number (1-based)
-                textBoxIndex
-            );
-            
-            // Check AGAIN if this playback is still valid (TTS generation takes time)
-            if (playbackId !== multiSegmentPlaybackIdRef.current || !isPlayingMultiSegmentRef.current) {
-                console.log(`🛑 Playback ${playbackId} cancelled after TTS generation`);
-                return;
-            }
-            
-            if (!result?.audioUrl) {
-                console.error(`Failed to generate audio for segment ${segmentIdx + 1}`);
-                // Skip to next segment
-                const nextSegmentIdx = segmentIdx + 1;
-                if (nextSegmentIdx < allSegments.length) {
-                    playSegment(allSegments[nextSegmentIdx], nextSegmentIdx, allSegments, textBoxIndex, isAutoPlay, currentLang, playbackId);
-                } else {
-                    // This was the last segment - trigger completion flow
-                    console.log(`✅ All segments complete (last failed, triggering auto-play check)`);
-                    isPlayingMultiSegmentRef.current = false;
-                    multiSegmentAudioRef.current = null;
-                    setCurrentSegments([]);
-                    setCurrentSegmentIndex(0);
-                    currentSegmentIndexRef.current = 0;
-                    
-                    setTimeout(() => {
-                        setPlaying(false);
-                        playingRef.current = false;
-                        setActiveTextBoxIndex(null);
-                        
-                        // Auto-play to next page
-                        const currentPageIdx = currentPageIndexRef.current;
-                        if (autoPlayModeRef.current && !isAutoPlayingRef.current && currentPageIdx < pages.length - 1) {
-                            isAutoPlayingRef.current = true;
-                            const nextPageIndex = currentPageIdx + 1;
-                            console.log('🔄 Auto-play after failed segment: Moving to page', nextPageIndex + 1);
-                            
-                            setIsPageTurning(true);
-                            setFlipState({ direction: 'next', isFlipping: true });
-                            playPageTurnSound();
-                            
-                            setTimeout(() => {
-                                setCurrentPageIndex(nextPageIndex);
-                                currentPageIndexRef.current = nextPageIndex;
-                            }, 400);
-                            
-                            setTimeout(() => {
-                                setIsPageTurning(false);
-                                setFlipState(null);
-                                if (bookId) readingProgressService.saveProgress(bookId, nextPageIndex);
-                                
-                                setTimeout(() => {
-                                    if (autoPlayModeRef.current && currentPageIndexRef.current === nextPageIndex) {
-                                        const nextPage = pages[nextPageIndex];
-                                        // Check ALL possible locations for textBoxes
-                                        const contentTextBoxes = nextPage?.content?.textBoxes;
-                                        const rootTextBoxes = nextPage?.textBoxes;
-                                        const nextPageTextBoxes = (contentTextBoxes && contentTextBoxes.length > 0) 
-                                            ? contentTextBoxes 
-                                            : rootTextBoxes;
-                                        if (nextPage && nextPageTextBoxes?.length > 0) {
-                                            const translatedTextBoxes = getTranslatedTextBoxes(nextPage);
-                                            const firstBoxText = translatedTextBoxes[0]?.text || nextPageTextBoxes[0].text;
-                                            isAutoPlayingRef.current = false;
-                                            handlePlayText(firstBoxText, 0, { stopPropagation: () => {} } as React.MouseEvent, true);
-                                        } else {
-                                            setAutoPlayMode(false);
-                                            autoPlayModeRef.current = false;
-                                            isAutoPlayingRef.current = false;
-                                        }
-                                    } else {
-                                        isAutoPlayingRef.current = false;
-                                    }
-                                }, 300);
-                            }, 800);
-                        }
-                    }, 200);
-                }
-                return;
-            }
-            
-            const audio = new Audio(result.audioUrl);
-            multiSegmentAudioRef.current = audio;
-            
-            // Get segment words for alignment
-            const segmentWords = segment.text.split(/\s+/).filter(w => w.length > 0);
-            
-            // Set up word alignment with OFFSET for proper highlighting
-            audio.addEventListener('loadedmetadata', () => {
-                if (playbackId !== multiSegmentPlaybackIdRef.current) return;
-                
-                const audioDuration = audio.duration;
-                if (segmentWords.length > 0 && audioDuration > 0) {
-                    const wordDuration = audioDuration / segmentWords.length;
-                    const alignment = {
-                        words: segmentWords.map((word, idx) => ({
-                            word,
-                            start: idx * wordDuration,
-                            end: (idx + 1) * wordDuration
-                        }))
-                    };
-                    setWordAlignment(alignment);
-                    wordAlignmentRef.current = alignment;
-                    console.log(`📝 Segment ${segmentIdx + 1} alignment: ${segmentWords.length} words, offset ${wordOffset}`);
-                }
-            });
-            
-            // Track time for word highlighting with OFFSET
-            let lastHighlightedIdx = -1;
-            audio.ontimeupdate = () => {
-                if (playbackId !== multiSegmentPlaybackIdRef.current) return;
-                
-                const alignment = wordAlignmentRef.current;
-                if (alignment?.words) {
-                    for (let i = 0; i < alignment.words.length; i++) {
-                        const w = alignment.words[i];
-                        if (audio.currentTime >= w.start && audio.currentTime < w.end) {
-                            // Apply offset to get GLOBAL word index for display
-                            const globalIdx = wordOffset + i;
-                            if (globalIdx !== lastHighlightedIdx) {
-                                lastHighlightedIdx = globalIdx;
-                                setCurrentWordIndex(globalIdx);
-                            }
-                            break;
-                        }
-                    }
-                }
-            };
-            
-            // When this segment ends, play the next one
-            audio.onended = () => {
-                // Check if still valid or if user explicitly stopped playback
-                if (playbackId !== multiSegmentPlaybackIdRef.current || !isPlayingMultiSegmentRef.current || userStoppedPlaybackRef.current) {
-                    console.log(`🛑 Playback ${playbackId} ended but cancelled (userStopped: ${userStoppedPlaybackRef.current})`);
-                    return;
-                }
-                
-                const nextSegmentIdx = segmentIdx + 1;
-                
-                if (nextSegmentIdx < allSegments.length) {
-                    console.log(`▶️ [${playbackId}] Next segment ${nextSegmentIdx + 1}/${allSegments.length}`);
-                    currentSegmentIndexRef.current = nextSegmentIdx;
-                    setCurrentSegmentIndex(nextSegmentIdx);
-                    playSegment(allSegments[nextSegmentIdx], nextSegmentIdx, allSegments, textBoxIndex, isAutoPlay, currentLang, playbackId);
-                } else {
-                    // All segments complete
-                    console.log(`✅ [${playbackId}] All ${allSegments.length} segments complete`);
-                    isPlayingMultiSegmentRef.current = false;
-                    multiSegmentAudioRef.current = null;
-                    setCurrentSegments([]);
-                    setCurrentSegmentIndex(0);
-                    currentSegmentIndexRef.current = 0;
-                    
-                    setTimeout(() => {
-                        setPlaying(false);
-                        playingRef.current = false;
-                        setActiveTextBoxIndex(null);
-                        
-                        // FIRST: Check if there are more text boxes on this page to play
-                        if (playNextPendingTextBox()) {
-                            console.log('📖 Multi-segment: Playing next text box on same page');
-                            return; // Don't go to next page yet
-                        }
-                        
-                        // Auto-play to next page (2 second delay for user to process content)
-                        const currentPageIdx = currentPageIndexRef.current;
-                        console.log('🔍 Auto-play check:', {
-                            autoPlayModeRef: autoPlayModeRef.current,
-                            isAutoPlayingRef: isAutoPlayingRef.current,
-                            currentPageIdx,
-                            totalPages: pages.length,
-                            canGoNext: currentPageIdx < pages.length - 1
-                        });
-                        
-                        if (autoPlayModeRef.current && !isAutoPlayingRef.current && currentPageIdx < pages.length - 1) {
-                            isAutoPlayingRef.current = true;
-                            const nextPageIndex = currentPageIdx + 1;
-                            console.log('🔄 Multi-segment auto-play: Moving to page', nextPageIndex + 1);
-                            
-                            setIsPageTurning(true);
-                            setFlipState({ direction: 'next', isFlipping: true });
-                            playPageTurnSound();
-                            
-                            setTimeout(() => {
-                                setCurrentPageIndex(nextPageIndex);
-                                currentPageIndexRef.current = nextPageIndex;
-                                setScrollState(scrollStateRef.current);
-                            }, 400);
-                            
-                            setTimeout(() => {
-                                setIsPageTurning(false);
-                                setFlipState(null);
-                                if (bookId) readingProgressService.saveProgress(bookId, nextPageIndex);
-                                
-                                setTimeout(() => {
-                                    console.log('🎯 Multi-segment: Checking next page', {
-                                        autoPlayMode: autoPlayModeRef.current,
-                                        currentPage: currentPageIndexRef.current,
-                                        targetPage: nextPageIndex
-                                    });
-                                    
-                                    if (autoPlayModeRef.current && currentPageIndexRef.current === nextPageIndex) {
-                                        const nextPage = pages[nextPageIndex];
-                                        // Check ALL possible locations for textBoxes
-                                        const contentTextBoxes = nextPage?.content?.textBoxes;
-                                        const rootTextBoxes = nextPage?.textBoxes;
-                                        const nextPageTextBoxes = (contentTextBoxes && contentTextBoxes.length > 0) 
-                                            ? contentTextBoxes 
-                                            : rootTextBoxes;
-                                        
-                                        console.log('📄 Next page textBoxes search:', {
-                                            exists: !!nextPage,
-                                            pageId: nextPage?._id,
-                                            'content.textBoxes': contentTextBoxes?.length || 0,
-                                            'root.textBoxes': rootTextBoxes?.length || 0,
-                                            using: nextPageTextBoxes?.length || 0
-                                        });
-                                        
-                                        if (nextPage && nextPageTextBoxes?.length > 0) {
-                                            // Use translated text if available - set up sequential queue
-                                            const translatedTextBoxes = getTranslatedTextBoxes(nextPage);
-                                            
-                                            // Set up sequential playback for all text boxes after the first
-                                            if (translatedTextBoxes.length > 1) {
-                                                isSequentialPlaybackRef.current = true;
-                                                pendingTextBoxesRef.current = translatedTextBoxes.slice(1).map((tb, i) => ({
-                                                    text: tb.text,
-                                                    index: i + 1
-                                                }));
-                                            } else {
-                                                pendingTextBoxesRef.current = [];
-                                                isSequentialPlaybackRef.current = false;
-                                            }
-                                            
-                                            const firstBoxText = translatedTextBoxes[0]?.text || nextPageTextBoxes[0].text;
-                                            
-                                            console.log('▶️ Multi-segment: Playing next page TTS', { textLength: firstBoxText?.length });
-                                            isAutoPlayingRef.current = false;
-                                            // Re-ensure autoPlayMode is true before calling handlePlayText
-                                            autoPlayModeRef.current = true;
-                                            handlePlayText(firstBoxText, 0, { stopPropagation: () => {} } as React.MouseEvent, true);
-                                        } else {
-                                            console.log('⚠️ Multi-segment: No text boxes found in any location, stopping auto-play');
-                                            setAutoPlayMode(false);
-                                            autoPlayModeRef.current = false;
-                                            isAutoPlayingRef.current = false;
-                                        }
-                                    } else {
-                                        console.log('⚠️ Multi-segment: Conditions not met, stopping', {
-                                            autoPlayMode: autoPlayModeRef.current,
-                                            pageMatch: currentPageIndexRef.current === nextPageIndex
-                                        });
-                                        isAutoPlayingRef.current = false;
-                                    }
-                                }, 300);
-                            }, 800);
-                        } else if (autoPlayModeRef.current && currentPageIdx >= pages.length - 1) {
-                            setAutoPlayMode(false);
-                            autoPlayModeRef.current = false;
-                            if (bookId) {
-                                bookCompletionService.markBookCompleted(bookId);
-                                readCountService.incrementReadCount(bookId);
-                                analyticsService.bookReadComplete(bookId, bookTitle);
-                                handleUnlockRewardVoice();
-                            }
-                        }
-                    }, 2000); // 2 second delay before auto page turn
-                }
-            };
-            
-            audio.onplay = () => {
-                setPlaying(true);
-                playingRef.current = true;
-                setShowLoadingPopup(false);
-            };
-            
-            audio.onerror = (e) => {
-                console.error(`Audio error for segment ${segmentIdx + 1}:`, e);
-                // Try next segment
-                const nextSegmentIdx = segmentIdx + 1;
-                if (nextSegmentIdx < allSegments.length && playbackId === multiSegmentPlaybackIdRef.current) {
-                    playSegment(allSegments[nextSegmentIdx], nextSegmentIdx, allSegments, textBoxIndex, isAutoPlay, currentLang, playbackId);
-                }
-            };
-            
-            // Wait for audio to be ready then play
-            const playAudio = () => {
-                // Check if playback was cancelled or user explicitly stopped
-                if (playbackId !== multiSegmentPlaybackIdRef.current || userStoppedPlaybackRef.current) {
-                    console.log('🛑 Segment playback cancelled (userStopped:', userStoppedPlaybackRef.current, ')');
-                    return;
-                }
-                audio.play().catch(err => {
-                    console.warn('Segment play failed:', err);
-                });
-            };
-            
-            if (audio.readyState >= 3) {
-                playAudio();
-            } else {
-                audio.addEventListener('canplaythrough', playAudio, { once: true });
-                audio.load();
-            }
-        } catch (error) {
-            console.error(`Error playing segment ${segmentIdx + 1}:`, error);
-            if (playbackId === multiSegmentPlaybackIdRef.current) {
-                isPlayingMultiSegmentRef.current = false;
-                setPlaying(false);
-                playingRef.current = false;
-            }
-        }
-    };
-    
-    const handlePlayText = async (text: string, index: number, e: React.MouseEvent, isAutoPlay: boolean = false) => {
-        e.stopPropagation();
+    // Tap on a text box - plays it (or stops it if it's the one already playing)
+    const handlePlayText = (_text: string, index: number, e: React.MouseEvent) => {
+        e.stopPropagation();
         
         // Mark that TTS has been started at least once (for auto-play on swipe feature)
         hasStartedTTSRef.current = true;
-        
-        console.log('🎤 handlePlayText called:', { 
-            isAutoPlay, 
-            autoPlayModeRef: autoPlayModeRef.current,
-            playingRef: playingRef.current,
-            isPlayingMultiSegment: isPlayingMultiSegmentRef.current,
-            textLength: text?.length 
-        });
-
-        // If already playing this text, STOP it completely (tap to stop)
-        if (playing && activeTextBoxIndex === index) {
-            console.log('⏹️ Stopping playback (same text tapped)');
-            // Mark that user explicitly stopped - prevents auto-resume
-            userStoppedPlaybackRef.current = true;
-            // Stop multi-segment playback
-            if (isPlayingMultiSegmentRef.current) {
-                stopMultiSegmentAudio();
-                isPlayingMultiSegmentRef.current = false;
-                setCurrentSegments([]);
-                setCurrentSegmentIndex(0);
-                currentSegmentIndexRef.current = 0;
-            }
-            // Stop single-segment audio
-            if (currentAudio) {
-                currentAudio.pause();
-                currentAudio.src = '';
-                setCurrentAudio(null);
-            }
-            setPlaying(false);
-            playingRef.current = false;
-            setAutoPlayMode(false);
-            autoPlayModeRef.current = false;
-            setActiveTextBoxIndex(null);
-            setCurrentWordIndex(-1);
-            return;
-        }
-
-        // If playing another text, stop it completely first
-        // Use ref for playing check to avoid stale closure issues in auto-play callbacks
-        if (playingRef.current || isPlayingMultiSegmentRef.current) {
-            console.log('⏹️ Stopping previous playback before starting new');
-            // Stop audio without resetting autoPlayMode (we're transitioning, not user-pausing)
-            if (currentAudio) {
-                currentAudio.pause();
-                currentAudio.currentTime = 0;
-            }
-            if (multiSegmentAudioRef.current) {
-                try {
-                    multiSegmentAudioRef.current.pause();
-                    multiSegmentAudioRef.current.onended = null;
-                    multiSegmentAudioRef.current.ontimeupdate = null;
-                    multiSegmentAudioRef.current.src = '';
-                    multiSegmentAudioRef.current = null;
-                } catch (e) { }
-            }
-            isPlayingMultiSegmentRef.current = false;
-            multiSegmentPlaybackIdRef.current += 1;
-            setPlaying(false);
-            playingRef.current = false;
-            setCurrentSegments([]);
-            setCurrentSegmentIndex(0);
-            currentSegmentIndexRef.current = 0;
-        }
-
-        // Otherwise, generate/fetch new audio
-        // Reset user-stopped flag since we're starting fresh playback
-        userStoppedPlaybackRef.current = false;
-        
-        setActiveTextBoxIndex(index);
-        setLoadingAudio(true);
-        setShowLoadingPopup(true); // Show dismissible loading popup
-        setCurrentWordIndex(-1);
-        setWordAlignment(null);
-        wordAlignmentRef.current = null;
-        alignmentWarningShownRef.current = false; // Reset warning flag for new audio
-
-        try {
-            // Check preload cache first - use ref for accurate page index (state might be stale)
-            const actualPageIndex = currentPageIndexRef.current;
-            // Use ref for language to get latest value in async context
-            const currentLang = selectedLanguageRef.current;
-            
-            // Get translated text if available
-            const currentPage = pages[actualPageIndex];
-            const rawTextToSpeak = currentPage?._id 
-                ? getTranslatedText(currentPage._id, index, text) 
-                : text;
-            
-            // ============ MULTI-SEGMENT TTS ============
-            // Parse text into segments for alternating narrator/character voices
-            console.log('🔍 RAW TEXT for parsing:', rawTextToSpeak);
-            console.log('🎭 Character voices available:', characterVoices?.map(c => c.characterName) || 'NONE');
-            const segments = parseTextIntoSegments(rawTextToSpeak);
-            console.log('📝 Parsed segments:', segments.map(s => `"${s.text.substring(0, 30)}..." [${s.isNarrator ? 'Narrator' : s.characterName}] voice:${s.voiceId}`));
-            
-            // If multiple segments, use multi-segment playback
-            if (segments.length > 1) {
-                console.log(`🎭 Multi-segment TTS: ${segments.length} segments detected`);
-                
-                // Stop any existing playback first
-                stopMultiSegmentAudio();
-                
-                // Start new playback session with unique ID
-                const playbackId = multiSegmentPlaybackIdRef.current;
-                isPlayingMultiSegmentRef.current = true;
-                setCurrentSegments(segments);
-                setCurrentSegmentIndex(0);
-                currentSegmentIndexRef.current = 0;
-                
-                if (isAutoPlay) {
-                    setAutoPlayMode(true);
-                    autoPlayModeRef.current = true;
-                    console.log('🔄 Multi-segment: autoPlayModeRef set to TRUE');
-                } else {
-                    console.log('⚠️ Multi-segment: isAutoPlay is FALSE, autoPlayModeRef=', autoPlayModeRef.current);
-                }
-                
-                setLoadingAudio(false);
-                // Start playing first segment with playbackId
-                playSegment(segments[0], 0, segments, index, isAutoPlay, currentLang, playbackId);
-                return;
-            }
-            // ============ END MULTI-SEGMENT ============
-            
-            // Single segment - use existing logic
-            const segment = segments[0];
-            const voiceForText = segment.voiceId;
-            const textToSpeak = segment.text;
-            const characterName = segment.characterName;
-            
-            // Include language AND voice in cache key for multilingual + character voice support
-            const cacheKey = `${actualPageIndex}-${index}-${voiceForText}${currentLang !== 'en' ? `-${currentLang}` : ''}`;
-            let result = audioPreloadCacheRef.current.get(cacheKey);
-            
-            // If preloading is in progress for this key, wait for it instead of making duplicate request
-            if (!result && preloadingInProgressRef.current.has(cacheKey)) {
-                console.log(`⏳ Waiting for preload to complete for page ${actualPageIndex + 1}, text box ${index + 1}...`);
-                // Wait up to 10 seconds for preloading to complete
-                for (let i = 0; i < 100; i++) {
-                    await new Promise(resolve => setTimeout(resolve, 100));
-                    result = audioPreloadCacheRef.current.get(cacheKey);
-                    if (result) {
-                        console.log(`✅ Preload completed, using cached audio`);
-                        break;
-                    }
-                    if (!preloadingInProgressRef.current.has(cacheKey)) {
-                        // Preloading finished but no result (error case)
-                        console.log(`⚠️ Preload finished but no audio in cache`);
-                        break;
-                    }
-                }
-            }
-            
-            if (result) {
-                console.log(`🎵 Using preloaded audio for page ${actualPageIndex + 1}, text box ${index + 1} (lang: ${currentLang})${characterName ? ` [${characterName}]` : ''}`);
-                setShowLoadingPopup(false); // Hide popup immediately if cached
-            } else {
-                // Not in cache, generate now with translated text
-                // IMPORTANT: Check if we actually have a translation for non-English
-                const isUsingTranslation = currentLang !== 'en' && textToSpeak !== text;
-                
-                if (currentLang !== 'en' && !isUsingTranslation) {
-                    console.warn(`⚠️ No translation available for ${currentLang}, using original text with multilingual TTS`);
-                }
-                
-                const processed = processTextWithEmotionalCues(textToSpeak);
-                // For non-English, strip emotional cues (multilingual model doesn't support them)
-                const ttsText = currentLang !== 'en' 
-                    ? removeEmotionalCues(textToSpeak) 
-                    : processed.processedText;
-                    
-                console.log(`🎤 Generating TTS for page ${actualPageIndex + 1}, text box ${index + 1} (lang: ${currentLang})${characterName ? ` [🎭 ${characterName}]` : ''}${isUsingTranslation ? ' [TRANSLATED]' : ''}`);
-                console.log(`📝 Text to speak: "${ttsText.substring(0, 80)}..."`);
-                console.log(`🔊 Using voice: ${voiceForText}${characterName ? ` (character: ${characterName})` : ' (narrator)'}`);
-                
-                result = await ApiService.generateTTS(
-                    ttsText,
-                    voiceForText, // Use character or narrator voice
-                    bookId || undefined,
-                    currentLang !== 'en' ? currentLang : undefined,
-                    actualPageIndex + 1, // Page number (1-based)
-                    index // Text box index
-                ) || undefined;
-            }
-
-            // Use audio URL (from cache or freshly generated)
-            if (result && result.audioUrl) {
-                const audio = new Audio(result.audioUrl);
-
-                // Wait for audio metadata to load, then process alignment
-                audio.addEventListener('loadedmetadata', () => {
-                    const audioDuration = audio.duration;
-                    const alignment = result.alignment;
-                    
-                    // DEBUG: Log alignment data
-                    console.log('🔍 ALIGNMENT DEBUG:', {
-                        hasAlignment: !!alignment,
-                        hasWords: alignment?.words?.length || 0,
-                        isEstimated: alignment?.isEstimated,
-                        firstWord: alignment?.words?.[0],
-                        audioUrl: result.audioUrl?.substring(0, 50)
-                    });
-                    
-                    // Get the clean text (same as what's displayed)
-                    const cleanText = text.replace(/\[([^\]]+)\]/g, '').replace(/\s+/g, ' ').trim();
-                    const displayWords = cleanText.split(/\s+/).filter(w => w.length > 0);
-                    
-                    // Use EXACT ElevenLabs timestamps if available
-                    if (alignment && alignment.words && alignment.words.length > 0 && !alignment.isEstimated) {
-                        // Filter out bracketed words but keep EXACT timestamps
-                        // Also normalize words to match displayed text (remove punctuation that gets stripped)
-                        const filteredWords: Array<{ word: string; start: number; end: number }> = [];
-                        let insideBracket = false;
-                        let skipNextPunctuation = false; // Skip punctuation that follows a bracket
-                        
-                        for (const wordData of alignment.words) {
-                            const word = wordData.word || '';
-                            
-                            // Skip standalone punctuation that follows bracketed content
-                            // ElevenLabs might return "," or "." as separate words after [emotion]
-                            if (skipNextPunctuation && /^[.,!?;:'"-]+$/.test(word)) {
-                                skipNextPunctuation = false;
-                                continue;
-                            }
-                            skipNextPunctuation = false;
-                            
-                            // Track bracket sequences (multi-word sound effects like "[gentle wind breeze]")
-                            if (word.includes('[')) {
-                                insideBracket = true;
-                            }
-                            
-                            // Check if this word contains bracketed content
-                            const isBracketedWord = /\[.*\]/.test(word);
-                            
-                            // Skip if we're inside a bracket sequence OR this word contains brackets
-                            if (insideBracket || isBracketedWord) {
-                                if (word.includes(']')) {
-                                    insideBracket = false;
-                                    // Flag to skip following punctuation (e.g., comma after [dramatically],)
-                                    skipNextPunctuation = true;
-                                }
-                                continue;
-                            }
-                            
-                            // Clean the word:
-                            // 1. Remove any bracket expressions
-                            // 2. Remove orphan brackets
-                            // 3. Strip trailing punctuation to match displayed text
-                            let cleanedWord = word
-                                .replace(/\[[^\]]*\]/g, '')  // Remove [bracketed content]
-                                .replace(/[\[\]]/g, '')       // Remove orphan brackets
-                                .replace(/[.,!?;:'"-]+$/g, '') // Strip TRAILING punctuation
-                                .trim();
-                            
-                            // Skip words that are empty or only punctuation after cleaning
-                            if (cleanedWord.length > 0 && !/^[.,!?;:'"-]+$/.test(cleanedWord)) {
-                                filteredWords.push({
-                                    word: cleanedWord,
-                                    start: wordData.start,
-                                    end: wordData.end
-                                });
-                            }
-                        }
-                        
-                        if (filteredWords.length > 0) {
-                            const exactAlignment = { words: filteredWords };
-                            
-                            console.log('📝 Word alignment (EXACT ElevenLabs timestamps):', {
-                                audioDuration: audioDuration.toFixed(2),
-                                originalWords: alignment.words.length,
-                                filteredWords: filteredWords.length,
-                                displayWords: displayWords.length,
-                                firstWord: filteredWords[0],
-                                lastWord: filteredWords[filteredWords.length - 1]
-                            });
-                            
-                            setWordAlignment(exactAlignment);
-                            wordAlignmentRef.current = exactAlignment;
-                        } else {
-                            // Fallback to even distribution only if no words found
-                            const wordDuration = audioDuration / displayWords.length;
-                            const evenAlignment = {
-                                words: displayWords.map((word, idx) => ({
-                                    word,
-                                    start: idx * wordDuration,
-                                    end: (idx + 1) * wordDuration
-                                }))
-                            };
-                            setWordAlignment(evenAlignment);
-                            wordAlignmentRef.current = evenAlignment;
-                        }
-                    } else {
-                        // Fallback: spread words evenly across audio duration
-                        if (displayWords.length > 0) {
-                            const wordDuration = audioDuration / displayWords.length;
-                            const evenAlignment = {
-                                words: displayWords.map((word, idx) => ({
-                                    word,
-                                    start: idx * wordDuration,
-                                    end: (idx + 1) * wordDuration
-                                }))
-                            };
-                            
-                            console.log('📝 Word alignment (even fallback - no ElevenLabs data):', {
-                                audioDuration: audioDuration.toFixed(2),
-                                wordCount: displayWords.length
-                            });
-                            
-                            setWordAlignment(evenAlignment);
-                            wordAlignmentRef.current = evenAlignment;
-                        } else {
-                            console.warn('⚠️ No words found in text');
-                        }
-                    }
-                });
-
-                // Track audio time for word highlighting
-                // Helper to find word index, handling gaps between words (sound effects, etc.)
-                const findWordIndex = (currentTime: number, words: Array<{ start: number; end: number; word?: string }>) => {
-                    if (!words || words.length === 0) return -1;
-                    
-                    // First pass: look for exact match (current time is within word boundaries)
-                    for (let i = 0; i < words.length; i++) {
-                        const w = words[i];
-                        if (currentTime >= w.start && currentTime < w.end) {
-                            return i; // Exact match
-                        }
-                    }
-                    
-                    // Second pass: we're in a gap or edge case
-                    // Either before first word, in a gap between words, or after last word
-                    
-                    // Before first word - show first word
-                    if (words.length > 0 && currentTime < words[0].start) {
-                        return 0;
-                    }
-                    
-                    // After last word - stay on last word
-                    if (words.length > 0 && currentTime >= words[words.length - 1].end) {
-                        return words.length - 1;
-                    }
-                    
-                    // In a gap between words - find the NEXT word to move forward
-                    // This handles cases where bracketed content creates timing gaps
-                    for (let i = 0; i < words.length - 1; i++) {
-                        const currentWord = words[i];
-                        const nextWord = words[i + 1];
-                        
-                        // If we're between this word's end and next word's start
-                        if (currentTime >= currentWord.end && currentTime < nextWord.start) {
-                            // Gap handling: if we're closer to the next word's start, show next word
-                            // This prevents getting stuck on a word when there's a long gap (e.g., sound effect)
-                            const gapMidpoint = (currentWord.end + nextWord.start) / 2;
-                            if (currentTime >= gapMidpoint) {
-                                return i + 1; // Move to next word
-                            }
-                            return i; // Stay on current word
-                        }
-                    }
-                    
-                    // Fallback: return last word
-                    return words.length - 1;
-                };
-                
-                // Auto-scroll to keep highlighted word in view
-                const scrollToHighlightedWord = (wordIdx: number) => {
-                    if (wordIdx < 0) return;
-                    
-                    // Only scroll if the scroll UI is visible - respect user's preference
-                    if (scrollStateRef.current === 'hidden') return;
-                    
-                    // Find the highlighted word element
-                    const wordElements = document.querySelectorAll('[data-word-index]');
-                    const targetWord = wordElements[wordIdx] as HTMLElement;
-                    
-                    if (targetWord) {
-                        // Find the scrollable container (the text scroll area)
-                        const scrollContainer = targetWord.closest('[data-scroll-container]') || targetWord.closest('.overflow-y-auto');
-                        
-                        if (scrollContainer) {
-                            // Scroll within the container only, not the whole page
-                            const containerRect = scrollContainer.getBoundingClientRect();
-                            const wordRect = targetWord.getBoundingClientRect();
-                            const scrollTop = scrollContainer.scrollTop;
-                            
-                            // Calculate position to center the word in the container
-                            const targetScrollTop = scrollTop + (wordRect.top - containerRect.top) - (containerRect.height / 2) + (wordRect.height / 2);
-                            
-                            scrollContainer.scrollTo({
-                                top: Math.max(0, targetScrollTop),
-                                behavior: 'smooth'
-                            });
-                        }
-                    }
-                };
-                
-                let lastHighlightedIndex = -1;
-                
-                // Use ontimeupdate as primary method
-                audio.ontimeupdate = () => {
-                    const currentAlignment = wordAlignmentRef.current;
-                    if (currentAlignment && currentAlignment.words && currentAlignment.words.length > 0) {
-                        const wordIndex = findWordIndex(audio.currentTime, currentAlignment.words);
-
-                        if (wordIndex !== -1 && wordIndex !== lastHighlightedIndex) {
-                            lastHighlightedIndex = wordIndex;
-                            setCurrentWordIndex(wordIndex);
-                            
-                            // Auto-scroll every few words to avoid too much scrolling
-                            if (wordIndex % 3 === 0 || wordIndex === 0) {
-                                scrollToHighlightedWord(wordIndex);
-                            }
-                        }
-                    }
-                };
-                
-                // Also use interval for more frequent updates (smoother highlighting)
-                const highlightInterval = setInterval(() => {
-                    if (audio.paused || audio.ended) return;
-                    
-                    const currentAlignment = wordAlignmentRef.current;
-                    if (currentAlignment && currentAlignment.words && currentAlignment.words.length > 0) {
-                        const wordIndex = findWordIndex(audio.currentTime, currentAlignment.words);
-
-                        if (wordIndex !== -1 && wordIndex !== lastHighlightedIndex) {
-                            lastHighlightedIndex = wordIndex;
-                            setCurrentWordIndex(wordIndex);
-                            
-                            // Auto-scroll
-                            if (wordIndex % 3 === 0) {
-                                scrollToHighlightedWord(wordIndex);
-                            }
-                        }
-                    }
-                }, 50); // 20 times per second
-                
-                // Clean up interval on pause/end
-                audio.onpause = () => {
-                    clearInterval(highlightInterval);
-                };
-
-                audio.onended = () => {
-                    // Clean up interval
-                    clearInterval(highlightInterval);
-                    
-                    // Highlight the last word when audio ends
-                    const currentAlignment = wordAlignmentRef.current;
-                    if (currentAlignment && currentAlignment.words && currentAlignment.words.length > 0) {
-                        setCurrentWordIndex(currentAlignment.words.length - 1);
-                        // Clear after a brief moment to show completion
-                        setTimeout(() => {
-                            setCurrentWordIndex(-1);
-                            setPlaying(false);
-                            playingRef.current = false;
-                            setActiveTextBoxIndex(null);
-                            setWordAlignment(null);
-                            wordAlignmentRef.current = null;
-
-                            // FIRST: Check if there are more text boxes on this page to play
-                            if (playNextPendingTextBox()) {
-                                console.log('📖 Playing next text box on same page');
-                                return; // Don't go to next page yet
-                            }
-
-                            // Auto-play: Move to next page if enabled
-                            // Use refs to get latest values (closure-safe)
-                            const currentPageIdx = currentPageIndexRef.current;
-                            if (autoPlayModeRef.current && !isAutoPlayingRef.current && currentPageIdx < pages.length - 1) {
-                                isAutoPlayingRef.current = true; // Prevent multiple calls
-                                const nextPageIndex = currentPageIdx + 1;
-                                console.log('🔄 Auto-play: Moving to page', nextPageIndex + 1, `(from page ${currentPageIdx + 1})`);
-                                
-                                // Trigger page turn animation (same as manual swipe)
-                                setIsPageTurning(true);
-                                setFlipState({ direction: 'next', isFlipping: true });
-                                playPageTurnSound(); // Play page turn sound effect
-                                
-                                // Change page content at the halfway point (when page is perpendicular - 90deg)
-                                setTimeout(() => {
-                                    setCurrentPageIndex(nextPageIndex);
-                                    currentPageIndexRef.current = nextPageIndex; // Update ref
-                                    // Preserve scroll state during page turns (both manual and auto-play)
-                                    setScrollState(scrollStateRef.current);
-                                }, 400); // Halfway through 0.8s animation
-                                
-                                // End animation after full duration
-                                setTimeout(() => {
-                                    setIsPageTurning(false);
-                                    setFlipState(null);
-                                    // Save progress
-                                    if (bookId) {
-                                        readingProgressService.saveProgress(bookId, nextPageIndex);
-                                    }
-
-                                    // Wait for page to render, then auto-play next page
-                                    setTimeout(() => {
-                                        // Check again if auto-play is still enabled and we're on the correct page
-                                        if (autoPlayModeRef.current && currentPageIndexRef.current === nextPageIndex) {
-                                            const nextPage = pages[nextPageIndex];
-                                            const nextContentBoxes = nextPage?.content?.textBoxes;
-                                            const nextPageTextBoxes = (nextContentBoxes && nextContentBoxes.length > 0) ? nextContentBoxes : nextPage?.textBoxes;
-                                            if (nextPage && nextPageTextBoxes && nextPageTextBoxes.length > 0) {
-                                                // Use translated text if available - set up sequential queue
-                                                const translatedTextBoxes = getTranslatedTextBoxes(nextPage);
-                                                
-                                                // Set up sequential playback for all text boxes after the first
-                                                if (translatedTextBoxes.length > 1) {
-                                                    isSequentialPlaybackRef.current = true;
-                                                    pendingTextBoxesRef.current = translatedTextBoxes.slice(1).map((tb, i) => ({
-                                                        text: tb.text,
-                                                        index: i + 1
-                                                    }));
-                                                } else {
-                                                    pendingTextBoxesRef.current = [];
-                                                    isSequentialPlaybackRef.current = false;
-                                                }
-                                                
-                                                const firstBoxText = translatedTextBoxes[0]?.text || nextPageTextBoxes[0].text;
-                                                console.log('▶️ Auto-play: Starting next page audio');
-                                                isAutoPlayingRef.current = false; // Reset flag before calling
-                                                const syntheticEvent = { stopPropagation: () => { } } as React.MouseEvent;
-                                                handlePlayText(firstBoxText, 0, syntheticEvent, true);
-                                            } else {
-                                                console.log('⏹️ Auto-play: No text boxes on next page, stopping');
-                                                setAutoPlayMode(false);
-                                                autoPlayModeRef.current = false;
-                                                isAutoPlayingRef.current = false;
-                                            }
-                                        } else {
-                                            console.log('⏹️ Auto-play: Cancelled or page changed');
-                                            isAutoPlayingRef.current = false;
-                                        }
-                                    }, 300);
-                                }, 800); // Full animation duration
-                            } else if (autoPlayModeRef.current && currentPageIndexRef.current >= pages.length - 1) {
-                                // Reached end of book, stop auto-play
-                                console.log('🏁 Auto-play: Reached end of book, stopping');
-                                setAutoPlayMode(false);
-                                autoPlayModeRef.current = false;
-                                isAutoPlayingRef.current = false;
-                                // Mark book as completed (unlocks games permanently)
-                                if (bookId) {
-                                    bookCompletionService.markBookCompleted(bookId);
-                                    readCountService.incrementReadCount(bookId);
-                                    // Track book completion analytics
-                                    analyticsService.bookReadComplete(bookId, bookTitle);
-                                    // Unlock reward voice if book has one
-                                    handleUnlockRewardVoice();
-                                }
-                            } else if (isAutoPlayingRef.current) {
-                                console.log('⏸️ Auto-play: Already processing, skipping');
-                            }
-                        }, 2000); // 2 second delay before auto page turn
-                    } else {
-                        // No word alignment - still add 2 second delay before auto page turn
-                        setTimeout(() => {
-                            setPlaying(false);
-                            playingRef.current = false;
-                            setActiveTextBoxIndex(null);
-                            setCurrentWordIndex(-1);
-                            setWordAlignment(null);
-                            wordAlignmentRef.current = null;
-
-                            // FIRST: Check if there are more text boxes on this page to play
-                            if (playNextPendingTextBox()) {
-                                console.log('📖 Playing next text box on same page (no alignment)');
-                                return; // Don't go to next page yet
-                            }
-
-                            // Auto-play: Move to next page if enabled
-                            // Use refs to get latest values (closure-safe)
-                            const currentPageIdx = currentPageIndexRef.current;
-                            if (autoPlayModeRef.current && !isAutoPlayingRef.current && currentPageIdx < pages.length - 1) {
-                                isAutoPlayingRef.current = true; // Prevent multiple calls
-                                const nextPageIndex = currentPageIdx + 1;
-                                console.log('🔄 Auto-play: Moving to page', nextPageIndex + 1, `(from page ${currentPageIdx + 1})`);
-                                
-                                // Trigger page turn animation (same as manual swipe)
-                                setIsPageTurning(true);
-                                setFlipState({ direction: 'next', isFlipping: true });
-                                playPageTurnSound(); // Play page turn sound effect
-                                
-                                // Change page content at the halfway point (when page is perpendicular - 90deg)
-                                setTimeout(() => {
-                                    setCurrentPageIndex(nextPageIndex);
-                                    currentPageIndexRef.current = nextPageIndex; // Update ref
-                                    // Preserve scroll state during page turns (both manual and auto-play)
-                                    setScrollState(scrollStateRef.current);
-                                }, 400); // Halfway through 0.8s animation
-                                
-                                // End animation after full duration
-                                setTimeout(() => {
-                                    setIsPageTurning(false);
-                                    setFlipState(null);
-                                    // Save progress
-                                    if (bookId) {
-                                        readingProgressService.saveProgress(bookId, nextPageIndex);
-                                    }
-
-                                    setTimeout(() => {
-                                        // Check again if auto-play is still enabled and we're on the correct page
-                                        if (autoPlayModeRef.current && currentPageIndexRef.current === nextPageIndex) {
-                                            const nextPage = pages[nextPageIndex];
-                                            // Check ALL possible locations for textBoxes
-                                            const contentTextBoxes = nextPage?.content?.textBoxes;
-                                            const rootTextBoxes = nextPage?.textBoxes;
-                                            const nextPageTextBoxes = (contentTextBoxes && contentTextBoxes.length > 0) 
-                                                ? contentTextBoxes 
-                                                : rootTextBoxes;
-                                            if (nextPage && nextPageTextBoxes && nextPageTextBoxes.length > 0) {
-                                                // Use translated text if available - set up sequential queue
-                                                const translatedTextBoxes = getTranslatedTextBoxes(nextPage);
-                                                
-                                                // Set up sequential playback for all text boxes after the first
-                                                if (translatedTextBoxes.length > 1) {
-                                                    isSequentialPlaybackRef.current = true;
-                                                    pendingTextBoxesRef.current = translatedTextBoxes.slice(1).map((tb, i) => ({
-                                                        text: tb.text,
-                                                        index: i + 1
-                                                    }));
-                                                } else {
-                                                    pendingTextBoxesRef.current = [];
-                                                    isSequentialPlaybackRef.current = false;
-                                                }
-                                                
-                                                const firstBoxText = translatedTextBoxes[0]?.text || nextPageTextBoxes[0].text;
-                                                console.log('▶️ Auto-play: Starting next page audio');
-                                                isAutoPlayingRef.current = false; // Reset flag before calling
-                                                const syntheticEvent = { stopPropagation: () => { } } as React.MouseEvent;
-                                                handlePlayText(firstBoxText, 0, syntheticEvent, true);
-                                            } else {
-                                                console.log('⏹️ Auto-play: No text boxes on next page, stopping');
-                                                setAutoPlayMode(false);
-                                                autoPlayModeRef.current = false;
-                                                isAutoPlayingRef.current = false;
-                                            }
-                                        } else {
-                                            console.log('⏹️ Auto-play: Cancelled or page changed');
-                                            isAutoPlayingRef.current = false;
-                                        }
-                                    }, 300);
-                                }, 800); // Full animation duration
-                            } else if (autoPlayModeRef.current && currentPageIndexRef.current >= pages.length - 1) {
-                                // Reached end of book, stop auto-play
-                                console.log('🏁 Auto-play: Reached end of book, stopping');
-                                setAutoPlayMode(false);
-                                autoPlayModeRef.current = false;
-                                isAutoPlayingRef.current = false;
-                                // Mark book as completed (unlocks games permanently)
-                                if (bookId) {
-                                    bookCompletionService.markBookCompleted(bookId);
-                                    readCountService.incrementReadCount(bookId);
-                                    // Track book completion analytics
-                                    analyticsService.bookReadComplete(bookId, bookTitle);
-                                }
-                            } else if (isAutoPlayingRef.current) {
-                                console.log('⏸️ Auto-play: Already processing, skipping');
-                            }
-                        }, 2000); // 2 second delay before auto page turn
-                    }
-                };
-
-                audio.onplay = () => {
-                    setPlaying(true);
-                    setShowLoadingPopup(false); // Hide loading popup when audio starts
-                };
-                audio.onpause = () => setPlaying(false);
-
-                setCurrentAudio(audio);
-                
-                // IMPORTANT: Set auto-play mode BEFORE playing if isAutoPlay is true
-                // This ensures the onended handler will continue auto-playing
-                if (isAutoPlay) {
-                    setAutoPlayMode(true);
-                    autoPlayModeRef.current = true;
-                    console.log('▶️ Auto-play mode enabled for new audio');
-                }
-                
-                // Wait for audio to be ready before playing
-                // This prevents the first playback from sounding garbled/cut off
-                let playbackCancelled = false;
-                const playWhenReady = () => {
-                    // Check if this playback was cancelled (user paused or stopped)
-                    if (playbackCancelled || userStoppedPlaybackRef.current || currentAudioRef.current !== audio) {
-                        console.log('🛑 Playback cancelled, not starting audio (userStopped:', userStoppedPlaybackRef.current, ')');
-                        return;
-                    }
-                    audio.play().catch(err => {
-                        console.warn('Audio play failed:', err);
-                    });
-                };
-                
-                // Store reference to audio for cancellation check
-                currentAudioRef.current = audio;
-                
-                // Cancel playback when pause is called
-                audio.onpause = () => {
-                    playbackCancelled = true;
-                    setPlaying(false);
-                };
-                
-                // If audio is already ready (cached), play immediately
-                if (audio.readyState >= 3) { // HAVE_FUTURE_DATA or HAVE_ENOUGH_DATA
-                    console.log('🎵 Audio already ready, playing immediately');
-                    playWhenReady();
-                } else {
-                    // Wait for enough data to play smoothly
-                    console.log('🎵 Waiting for audio to load...');
-                    audio.addEventListener('canplaythrough', playWhenReady, { once: true });
-                    // Fallback: if canplaythrough doesn't fire within 3s, try playing anyway
-                    setTimeout(() => {
-                        if (playbackCancelled || userStoppedPlaybackRef.current) return; // Don't play if cancelled or user stopped
-                        if (audio.readyState < 3 && !audio.paused) return; // Already playing
-                        if (audio.paused && audio.currentTime === 0) {
-                            console.log('🎵 Fallback: playing after timeout');
-                            playWhenReady();
-                        }
-                    }, 3000);
-                    audio.load(); // Ensure loading starts
-                }
-            } else {
-                console.error('No audio URL returned');
-                alert('Failed to generate audio. Please check the API key.');
-                setActiveTextBoxIndex(null);
-            }
-        } catch (error) {
-            console.error('Failed to play audio:', error);
-            alert('Failed to play audio. The TTS service might be unavailable.');
-            setActiveTextBoxIndex(null);
-            setShowLoadingPopup(false);
-        } finally {
-            setLoadingAudio(false);
-        }
+        narration.playTextBox(currentPageIndexRef.current, index);
     };
 
     if (loading) {
@@ -4916,13 +3144,8 @@ const BookReaderPage: React.FC = () => {
                                                 setCurrentPageIndex(index);
                                                 currentPageIndexRef.current = index;
                                                 setShowPageSelector(false);
-                                                stopAudio();
-                                                // Reset audio state to ensure fresh play on new page
-                                                setPlaying(false);
-                                                setActiveTextBoxIndex(null);
-                                                setCurrentWordIndex(-1);
-                                                setWordAlignment(null);
-                                                wordAlignmentRef.current = null;
+                                                // Stop narration so play starts fresh on the new page
+                                                narration.stop();
                                             }}
                                             className={`relative aspect-square rounded-xl transition-all active:scale-95 flex items-center justify-center ${
                                                 isCurrentPage 
@@ -5269,6 +3492,7 @@ const BookReaderPage: React.FC = () => {
                 onClose={() => setShowColoringModal(false)}
                 backgroundImageUrl={selectedColoringPage?.backgroundUrl || selectedColoringPage?.files?.background?.url}
                 pageId={selectedColoringPage ? `book-${bookId}-coloring-${selectedColoringPage.pageNumber || selectedColoringPage._id}` : undefined}
+                bookTitle={bookTitle}
             />
 
             {/* Quiz Modal */}
@@ -1,10 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { X, Check, ChevronRight, Play, BookOpen, MessageCircle } from 'lucide-react';
+import { X, Check } from 'lucide-react';
 import PrayerGameModal from '../components/features/PrayerGameModal';
 import SessionCelebrationModal from '../components/modals/SessionCelebrationModal';
 import DiscussionQuestionsModal from '../components/modals/DiscussionQuestionsModal';
 import DailyVerseModal from '../components/modals/DailyVerseModal';
+import MemoryVerseTrainerModal from '../components/features/MemoryVerseTrainerModal';
+import ChallengeGameModal from '../components/features/ChallengeGameModal';
+import ColoringModal from '../components/features/ColoringModal';
+import BookQuizModal from '../components/features/BookQuizModal';
+import { SESSION_STEP_RENDERERS, SessionStepModal, SessionStepActions } from '../components/dailySession/sessionStepRenderers';
 import { useUser } from '../context/UserContext';
 import { useBooks } from '../context/BooksContext';
 import { activityTrackingService } from '../services/activityTrackingService';
@@ -13,13 +18,23 @@ import {
   SessionStep,
   createDailySession,
   getCurrentSession,
+  getCurrentStepReward,
+  getStepReward,
+  findSessionStep,
   startCurrentStep,
   completeCurrentStep,
   skipCurrentStep,
   exitSession,
   setStepContent,
   getRecommendedBookFilter,
+  isFamilySession,
+  getParticipantShare,
+  getTurnOrder,
+  FamilyCoinMode,
+  FamilySessionSetup,
 } from '../services/dailySessionService';
+import { SESSION_STEP_CATALOG } from '../services/sessionRoutineService';
+import { streakService } from '../services/streakService';
 import { getSavedPreferences } from './InterestSelectionPage';
 import AvatarCompositor from '../components/avatar/AvatarCompositor';
 
@@ -65,6 +80,7 @@ const DailySessionPage: React.FC = () => {
   const location = useLocation();
   const { 
     addCoins, 
+    addCoinsToKid,
     equippedAvatar, 
     equippedBody, 
     equippedHat, 
@@ -97,9 +113,14 @@ const DailySessionPage: React.FC = () => {
   const { books, loading: booksLoading, refreshBooks } = useBooks();
   
   const [session, setSession] = useState<DailySession | null>(null);
-  const [showScriptureModal, setShowScriptureModal] = useState(false);
+  const [activeModal, setActiveModal] = useState<SessionStepModal | null>(null);
   const [showPrayerModal, setShowPrayerModal] = useState(false);
-  const [showDiscussionModal, setShowDiscussionModal] = useState(false);
+  const [quizFinished, setQuizFinished] = useState(false);
+  const quizCoinsRef = useRef(0);
+  const quizBookIdRef = useRef('');
+  // Family Session setup - the kids joining in and how their coins are paid
+  const [familyKidIds, setFamilyKidIds] = useState<string[]>([]);
+  const [familyCoinMode, setFamilyCoinMode] = useState<FamilyCoinMode>('each');
   const [showCelebration, setShowCelebration] = useState(false);
   const [recommendedBook, setRecommendedBook] = useState<any>(null);
   const [bookContent, setBookContent] = useState<string>(''); // Story text for discussion questions
@@ -212,8 +233,7 @@ const DailySessionPage: React.FC = () => {
       
       // Find recommended book based on subjects (shows its own loading state)
       // Only if book step doesn't already have content assigned (avoid re-selecting on back navigation)
-      // Book step is now at index 1 (index 0 is scripture)
-      const bookStep = currentSession.steps[1];
+      const bookStep = findSessionStep(currentSession, 'book');
       if (bookStep?.status !== 'completed' && !bookStep?.contentId) {
         findRecommendedBook();
       } else if (bookStep?.contentId) {
@@ -230,21 +250,30 @@ const DailySessionPage: React.FC = () => {
     loadSession();
   }, [books]);
 
-  // Handle returning from completed book reading
+  // Handle returning from a step done on another screen (book reader, lesson player)
   useEffect(() => {
     const state = location.state as any;
     const stepCompleted = state?.stepCompleted;
     
+    if (stepCompleted && stepCompleted !== 'book' && session) {
+      const currentStep = session.steps[session.currentStepIndex];
+      if (currentStep && currentStep.type === stepCompleted && currentStep.status === 'in-progress') {
+        navigate(location.pathname, { replace: true, state: {} });
+        finishCurrentStep();
+      }
+      return;
+    }
+    
     if (stepCompleted === 'book' && session) {
       const currentStep = session.steps[session.currentStepIndex];
       
       // Check if the completed step matches the current in-progress step
       if (currentStep && currentStep.type === 'book' && currentStep.status === 'in-progress') {
-        const coinsEarned = 30;
+        const coinsEarned = getCurrentStepReward();
         
         // Capture the book content for discussion questions
         const content = state.bookContent || '';
-        const title = state.bookTitle || session.steps[1]?.contentTitle || recommendedBook?.title || 'the story';
+        const title = state.bookTitle || currentStep.contentTitle || recommendedBook?.title || 'the story';
         
         if (content) {
           setBookContent(content);
@@ -258,7 +287,7 @@ const DailySessionPage: React.FC = () => {
         activityTrackingService.trackOnboardingEvent('godly_kids_time_book_completed', { coinsEarned });
         
         // Add coins for completing the step
-        addCoins(coinsEarned);
+        awardStepCoins(coinsEarned);
         
         // Complete the book step
         const updatedSession = completeCurrentStep(coinsEarned);
@@ -267,6 +296,13 @@ const DailySessionPage: React.FC = () => {
         // Clear the navigation state to prevent re-processing
         navigate(location.pathname, { replace: true, state: {} });
         
+        // Only a discussion step straight after the story needs questions about it
+        const nextStep = updatedSession?.steps[updatedSession.currentStepIndex];
+        if (updatedSession?.completed || nextStep?.type !== 'discussion') {
+          continueSession(updatedSession, 500);
+          return;
+        }
+        
         // Pre-generate discussion questions using AI before showing modal
         const generateQuestions = async () => {
           try {
@@ -302,7 +338,8 @@ const DailySessionPage: React.FC = () => {
           }
           
           // Show discussion modal after attempting to generate questions
-          setShowDiscussionModal(true);
+          startCurrentStep();
+          setActiveModal('discussion');
         };
         
         // Small delay then generate questions
@@ -313,6 +350,22 @@ const DailySessionPage: React.FC = () => {
     }
   }, [location.state, session, addCoins, navigate, location.pathname, recommendedBook, selectedGoal]);
 
+  // The kids in a Family Session (only when at least two are picked)
+  const getFamilySetup = (): FamilySessionSetup | undefined => {
+    const participants = kids
+      .filter(k => familyKidIds.includes(k.id))
+      .map(k => ({ profileId: k.id, name: k.name }));
+    return participants.length > 1 ? { participants, coinMode: familyCoinMode } : undefined;
+  };
+
+  const toggleFamilyKid = (kidId: string) => {
+    setFamilyKidIds(prev => prev.includes(kidId) ? prev.filter(id => id !== kidId) : [...prev, kidId]);
+  };
+
+  // Quiz tries so far for a book (shared with the book reader's quiz)
+  const getQuizAttemptCount = (bookId: string): number =>
+    parseInt(localStorage.getItem(`quiz_attempts_${bookId}`) || '0', 10) || 0;
+
   // Get max pages based on session duration
   const getMaxPages = (duration: number): number => {
     if (duration <= 5) return 15;
@@ -334,7 +387,8 @@ const DailySessionPage: React.FC = () => {
     setIsLoadingBook(true);
     
     // Filter to only books (not music/playlists) with valid IDs
-    const maxPages = getMaxPages(sessionDuration);
+    // A routine's story step sets its own reading time
+    const maxPages = getMaxPages(findSessionStep(getCurrentSession(), 'book')?.minutes || sessionDuration);
     const validBooks = books.filter((book: any) => {
       // Check for id OR _id (context transforms _id to id)
       const bookId = book?.id || book?._id;
@@ -479,7 +533,7 @@ const DailySessionPage: React.FC = () => {
     
     // Create a new session with the selected subjects
     const subjects = getSavedPreferences();
-    const newSession = createDailySession(subjects);
+    const newSession = createDailySession(subjects, undefined, getFamilySetup());
     setSession(newSession);
     
     // Track session start
@@ -487,6 +541,7 @@ const DailySessionPage: React.FC = () => {
       subjects: newSession.subjects,
       goal: selectedGoal,
       duration: sessionDuration,
+      participants: newSession.participants?.length || 1,
     });
     
     // Start finding the book in the background (don't await yet)
@@ -502,6 +557,80 @@ const DailySessionPage: React.FC = () => {
     setIsLoadingBook(false);
   };
 
+  // Pick the story for the book step and show the "ready to read" screen
+  const startBookStep = async (stepIndex: number) => {
+    // Helper function to show book ready screen
+    const showBookReady = (bookId: string, bookTitle: string, coverUrl?: string, pageCount?: number) => {
+      setStepContent(stepIndex, bookId, bookTitle);
+      setPendingBookNavigation({ id: bookId, title: bookTitle, coverUrl, pageCount });
+      setShowBookReadyScreen(true);
+    };
+    
+    // Try to use recommended book first
+    const recBookId = recommendedBook?.id || recommendedBook?._id;
+    if (recommendedBook && recBookId) {
+      console.log('📚 Using recommended book:', recommendedBook.title, 'ID:', recBookId);
+      showBookReady(recBookId, recommendedBook.title, recommendedBook.coverUrl, recommendedBook.pages?.length || recommendedBook.pageCount);
+      return;
+    }
+    
+    // Try to find a book from context first
+    if (books && books.length > 0) {
+      console.log('📚 Using book from context');
+      const validBooks = books.filter((b: any) => b && (b.id || b._id));
+      if (validBooks.length > 0) {
+        const fallbackBook = validBooks[Math.floor(Math.random() * validBooks.length)];
+        const fbId = fallbackBook.id || fallbackBook._id;
+        console.log('📚 Selected fallback book:', fallbackBook.title, 'ID:', fbId);
+        setRecommendedBook(fallbackBook);
+        showBookReady(fbId, fallbackBook.title, fallbackBook.coverUrl, fallbackBook.pages?.length || fallbackBook.pageCount);
+        return;
+      }
+    }
+    
+    // If no books available, fetch directly from API
+    setIsLoadingBook(true);
+    console.log('📚 No books in context, fetching from API...');
+    try {
+      const apiBaseUrl = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1'
+        ? 'http://localhost:3001/api/'
+        : 'https://backendgk2-0.onrender.com/api/';
+      
+      console.log('📚 Fetching from:', `${apiBaseUrl}books`);
+      const response = await fetch(`${apiBaseUrl}books`);
+      console.log('📚 Response status:', response.status);
+      
+      if (response.ok) {
+        const responseData = await response.json();
+        // API returns { data: [...], pagination: {...} }
+        const fetchedBooks = responseData.data || responseData;
+        console.log('📚 Fetched', fetchedBooks.length, 'books from API');
+        
+        const validBooks = fetchedBooks.filter((b: any) => b && b._id);
+        console.log('📚 Valid books:', validBooks.length);
+        
+        if (validBooks.length > 0) {
+          const randomBook = validBooks[Math.floor(Math.random() * validBooks.length)];
+          const rbId = randomBook.id || randomBook._id;
+          console.log('📚 Selected random book:', randomBook.title, 'ID:', rbId);
+          setRecommendedBook(randomBook);
+          setIsLoadingBook(false);
+          showBookReady(rbId, randomBook.title, randomBook.coverUrl, randomBook.pages?.length || randomBook.pageCount);
+          return;
+        }
+      } else {
+        console.error('📚 API response not ok:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('📚 Failed to fetch books:', error);
+    }
+    
+    setIsLoadingBook(false);
+    // No books available - show error
+    console.error('📚 No books available. Books loaded:', books?.length, 'booksLoading:', booksLoading);
+    alert('Unable to load books. Please check your connection and try again.');
+  };
+
   // Handle starting current step
   const handleStartStep = async () => {
     // Always get fresh session from localStorage to avoid stale state issues
@@ -513,204 +642,110 @@ const DailySessionPage: React.FC = () => {
       return;
     }
     
-    // Update React state if it's out of sync
-    if (!session || session.currentStepIndex !== currentSession.currentStepIndex) {
-      setSession(currentSession);
-    }
-    
     const step = currentSession.steps[currentSession.currentStepIndex];
     console.log('📚 Current step:', step?.type, 'index:', currentSession.currentStepIndex, 'recommendedBook:', !!recommendedBook, 'books count:', books?.length);
     startCurrentStep();
+    setSession(getCurrentSession());
     
-    switch (step.type) {
-      case 'scripture':
-        // Show Scripture of the Day modal
-        setShowScriptureModal(true);
-        return;
-        
-      case 'book':
-        // Helper function to show book ready screen
-        const showBookReady = (bookId: string, bookTitle: string, coverUrl?: string, pageCount?: number) => {
-          setStepContent(currentSession.currentStepIndex, bookId, bookTitle);
-          setPendingBookNavigation({ id: bookId, title: bookTitle, coverUrl, pageCount });
-          setShowBookReadyScreen(true);
-        };
-        
-        // Try to use recommended book first
-        const recBookId = recommendedBook?.id || recommendedBook?._id;
-        if (recommendedBook && recBookId) {
-          console.log('📚 Using recommended book:', recommendedBook.title, 'ID:', recBookId);
-          showBookReady(recBookId, recommendedBook.title, recommendedBook.coverUrl, recommendedBook.pages?.length || recommendedBook.pageCount);
-          return;
-        }
-        
-        // Try to find a book from context first
-        if (books && books.length > 0) {
-          console.log('📚 Using book from context');
-          const validBooks = books.filter((b: any) => b && (b.id || b._id));
-          if (validBooks.length > 0) {
-            const fallbackBook = validBooks[Math.floor(Math.random() * validBooks.length)];
-            const fbId = fallbackBook.id || fallbackBook._id;
-            console.log('📚 Selected fallback book:', fallbackBook.title, 'ID:', fbId);
-            setRecommendedBook(fallbackBook);
-            showBookReady(fbId, fallbackBook.title, fallbackBook.coverUrl, fallbackBook.pages?.length || fallbackBook.pageCount);
-            return;
-          }
-        }
-        
-        // If no books available, fetch directly from API
-        setIsLoadingBook(true);
-        console.log('📚 No books in context, fetching from API...');
-        try {
-          const apiBaseUrl = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1'
-            ? 'http://localhost:3001/api/'
-            : 'https://backendgk2-0.onrender.com/api/';
-          
-          console.log('📚 Fetching from:', `${apiBaseUrl}books`);
-          const response = await fetch(`${apiBaseUrl}books`);
-          console.log('📚 Response status:', response.status);
-          
-          if (response.ok) {
-            const responseData = await response.json();
-            // API returns { data: [...], pagination: {...} }
-            const fetchedBooks = responseData.data || responseData;
-            console.log('📚 Fetched', fetchedBooks.length, 'books from API');
-            
-            const validBooks = fetchedBooks.filter((b: any) => b && b._id);
-            console.log('📚 Valid books:', validBooks.length);
-            
-            if (validBooks.length > 0) {
-              const randomBook = validBooks[Math.floor(Math.random() * validBooks.length)];
-              const rbId = randomBook.id || randomBook._id;
-              console.log('📚 Selected random book:', randomBook.title, 'ID:', rbId);
-              setRecommendedBook(randomBook);
-              setIsLoadingBook(false);
-              showBookReady(rbId, randomBook.title, randomBook.coverUrl, randomBook.pages?.length || randomBook.pageCount);
-              return;
-            }
-          } else {
-            console.error('📚 API response not ok:', response.status, response.statusText);
-          }
-        } catch (error) {
-          console.error('📚 Failed to fetch books:', error);
-        }
-        
-        setIsLoadingBook(false);
-        // No books available - show error
-        console.error('📚 No books available. Books loaded:', books?.length, 'booksLoading:', booksLoading);
-        alert('Unable to load books. Please check your connection and try again.');
-        break;
-      case 'discussion':
-        setShowDiscussionModal(true);
-        break;
-      case 'prayer':
-        setShowPrayerReadyScreen(true);
-        break;
-    }
+    const stepIndex = currentSession.currentStepIndex;
+    const actions: SessionStepActions = {
+      profileId: currentProfileId || null,
+      openModal: setActiveModal,
+      startBook: () => startBookStep(stepIndex),
+      startPrayer: () => setShowPrayerReadyScreen(true),
+      navigate: (path, state) => navigate(path, { state }),
+      setStepContent: (contentId, contentTitle) => setStepContent(stepIndex, contentId, contentTitle),
+    };
+    await SESSION_STEP_RENDERERS[step.type]?.start(actions);
   };
 
-  // Handle discussion modal completion
-  const handleDiscussionComplete = () => {
-    setShowDiscussionModal(false);
-    
-    const coinsEarned = 20;
-    
-    // Track step completion
-    activityTrackingService.trackOnboardingEvent('godly_kids_time_discussion_completed', {
-      coinsEarned,
-      bookTitle: recommendedBook?.title,
-    });
-    
-    // Add coins for completing the step
-    addCoins(coinsEarned);
-    
-    // Complete the discussion step
-    const updatedSession = completeCurrentStep(coinsEarned);
-    setSession(updatedSession);
-    
-    // Check if session is now complete
-    if (updatedSession?.completed) {
+  // Celebrate a finished session, otherwise start the next step (unless it takes the kid to another screen)
+  const continueSession = (updatedSession: DailySession | null, delay: number) => {
+    if (!updatedSession) return;
+    if (updatedSession.completed) {
+      // The finished session counts toward the streak of every kid who took part
+      (updatedSession.participants?.map(p => p.profileId) || [currentProfileId]).forEach(id => streakService.settle(id));
       setShowCelebration(true);
-    } else {
-      // Auto-start next step (prayer) after a brief delay
-      setTimeout(() => {
-        handleStartStep();
-      }, 500);
+      return;
     }
+    const nextStep = updatedSession.steps[updatedSession.currentStepIndex];
+    if (nextStep && SESSION_STEP_RENDERERS[nextStep.type]?.leavesPage) return;
+    setTimeout(() => {
+      handleStartStep();
+    }, delay);
   };
 
-  // Handle discussion modal close (without completing)
-  const handleDiscussionClose = () => {
-    setShowDiscussionModal(false);
+  // Pay out a step's coins - in a family session, to every kid taking part
+  const awardStepCoins = (amount: number) => {
+    const currentSession = getCurrentSession();
+    if (amount <= 0 || !currentSession) return;
+    if (isFamilySession(currentSession)) {
+      const share = getParticipantShare(currentSession, amount);
+      currentSession.participants!.forEach(p => addCoinsToKid(p.profileId, share, 'Godly Kids Time', 'daily'));
+    } else {
+      addCoins(amount);
+    }
   };
 
-  // Handle scripture modal completion
-  const handleScriptureComplete = () => {
-    setShowScriptureModal(false);
-    
-    const coinsEarned = 10;
+  // Complete the current step: track it, award the routine's coins for it, then move on
+  const finishCurrentStep = ({ coinsAlreadyAwarded = false, coinsEarned = getCurrentStepReward() } = {}) => {
+    const currentSession = getCurrentSession();
+    const step = currentSession?.steps[currentSession.currentStepIndex];
+    if (!step) return;
     
     // Track step completion
-    activityTrackingService.trackOnboardingEvent('godly_kids_time_scripture_completed', {
+    activityTrackingService.trackOnboardingEvent(`godly_kids_time_${step.type}_completed`, {
       coinsEarned,
+      contentTitle: step.contentTitle || (step.type === 'discussion' ? recommendedBook?.title : undefined),
     });
     
-    // Add coins
-    addCoins(coinsEarned);
+    // Prayer and quiz modals pay out their coins themselves
+    if (!coinsAlreadyAwarded) awardStepCoins(coinsEarned);
     
-    // Complete step and update session
     const updatedSession = completeCurrentStep(coinsEarned);
     setSession(updatedSession);
-    
-    // Auto-start next step after a brief delay
-    if (updatedSession && !updatedSession.completed) {
-      setTimeout(() => {
-        handleStartStep();
-      }, 500);
-    }
+    continueSession(updatedSession, 500);
+  };
+
+  // Handle a step's modal closing (without completing the step)
+  const handleModalClose = () => {
+    setActiveModal(null);
+  };
+
+  // Handle a step's modal reporting the step done
+  const handleModalComplete = () => {
+    setActiveModal(null);
+    finishCurrentStep();
+  };
+
+  // The quiz step completes once the kid closes the results
+  const handleQuizComplete = (_score: number, coinsEarned: number) => {
+    const bookId = quizBookIdRef.current;
+    if (bookId) localStorage.setItem(`quiz_attempts_${bookId}`, String(getQuizAttemptCount(bookId) + 1));
+    quizCoinsRef.current = coinsEarned;
+    setQuizFinished(true);
   };
 
-  // Handle scripture modal close (without completing)
-  const handleScriptureClose = () => {
-    setShowScriptureModal(false);
+  const handleQuizClose = () => {
+    setActiveModal(null);
+    if (!quizFinished) return;
+    setQuizFinished(false);
+    finishCurrentStep({ coinsAlreadyAwarded: true, coinsEarned: quizCoinsRef.current });
   };
 
   // Handle prayer modal close (prayer completed or cancelled)
   const handlePrayerClose = () => {
     setShowPrayerModal(false);
-    
-    // PrayerGameModal handles coins internally (adds 30 coins)
-    // We just need to mark the step as complete
-    const coinsEarned = 30;
-    
-    // Track step completion
-    activityTrackingService.trackOnboardingEvent('godly_kids_time_prayer_completed', {
-      coinsEarned,
-    });
-    
-    // Complete step and update session (don't add coins again, modal already did)
-    const updatedSession = completeCurrentStep(coinsEarned);
-    setSession(updatedSession);
-    
-    // Check if session is now complete
-    if (updatedSession?.completed) {
-      setShowCelebration(true);
-    }
+    // PrayerGameModal handles coins internally - we just need to mark the step as complete
+    // (a family session pays every kid here instead)
+    finishCurrentStep({ coinsAlreadyAwarded: !isFamilySession(getCurrentSession()) });
   };
 
   // Handle skipping current step
   const handleSkipStep = () => {
     const updatedSession = skipCurrentStep();
     setSession(updatedSession);
-    
-    if (updatedSession?.completed) {
-      setShowCelebration(true);
-    } else {
-      // Auto-start next step after a brief delay
-      setTimeout(() => {
-        handleStartStep();
-      }, 300);
-    }
+    continueSession(updatedSession, 300);
   };
 
   // Handle celebration close
@@ -806,6 +841,53 @@ const DailySessionPage: React.FC = () => {
           </p>
         </div>
 
+        {/* Family Session - pick two or more kids to do it together */}
+        {kids.length > 1 && (
+          <div className="px-6 mb-4">
+            <div className="max-w-md mx-auto bg-[#3D2914]/80 rounded-2xl p-4 border-2 border-[#5D4037]">
+              <p className="text-[#FFD700] font-display font-bold text-sm mb-2 text-center">
+                Who's joining today?
+              </p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {kids.map(kid => {
+                  const isJoining = familyKidIds.includes(kid.id);
+                  return (
+                    <button
+                      key={kid.id}
+                      onClick={() => toggleFamilyKid(kid.id)}
+                      className={`px-4 py-2 rounded-full font-display font-bold text-sm border-2 transition-all active:scale-95 ${
+                        isJoining
+                          ? 'bg-[#FFD700] text-[#3E1F07] border-[#FFB300]'
+                          : 'bg-[#5D4037]/60 text-[#f3e5ab]/80 border-[#8D6E63]'
+                      }`}
+                    >
+                      {isJoining && <Check className="w-4 h-4 inline -mt-0.5 mr-1" />}
+                      {kid.name}
+                    </button>
+                  );
+                })}
+              </div>
+              {familyKidIds.length > 1 && (
+                <div className="flex justify-center gap-2 mt-3">
+                  {([['each', 'Coins for everyone'], ['split', 'Split the coins']] as [FamilyCoinMode, string][]).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => setFamilyCoinMode(mode)}
+                      className={`px-3 py-1 rounded-full font-display text-xs border transition-colors ${
+                        familyCoinMode === mode
+                          ? 'bg-[#8BC34A] text-white border-[#558B2F]'
+                          : 'text-[#f3e5ab]/70 border-[#8D6E63]'
+                      }`}
+                    >
+                      🪙 {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Goals Grid - Clicking a block auto-advances */}
         <div className="flex-1 px-4 pb-4 flex items-center justify-center">
           <div className="w-full max-w-md md:max-w-2xl px-2">
@@ -828,12 +910,13 @@ const DailySessionPage: React.FC = () => {
                         setShowGoalsSelection(false);
                         setIsLoadingBook(true);
                         const subjects = getSavedPreferences();
-                        const newSession = createDailySession(subjects);
+                        const newSession = createDailySession(subjects, undefined, getFamilySetup());
                         setSession(newSession);
                         activityTrackingService.trackOnboardingEvent('godly_kids_time_started', {
                           subjects: newSession.subjects,
                           goal: goal.id,
                           duration: sessionDuration,
+                          participants: newSession.participants?.length || 1,
                         });
                         findRecommendedBook();
                         setTimeout(() => setIsLoadingBook(false), 3000);
@@ -873,6 +956,16 @@ const DailySessionPage: React.FC = () => {
   }
 
   const currentStep = session.steps[session.currentStepIndex];
+  const StepPreview = SESSION_STEP_RENDERERS[currentStep.type]?.Preview;
+  // Open-ended steps (a song, a game) are confirmed by the family once they've started
+  const awaitingConfirm = currentStep.status === 'in-progress' && SESSION_STEP_RENDERERS[currentStep.type]?.completion === 'confirm';
+  // The story the quiz, discussion and coloring steps are about
+  const storyStep = findSessionStep(session, 'book');
+  const storyBookId = storyStep?.contentId || recommendedBook?.id || recommendedBook?._id || '';
+  const storyTitle = storyStep?.contentTitle || recommendedBook?.title || 'the story';
+  quizBookIdRef.current = storyBookId;
+  // Family session: whose turn it is, starting with whoever leads this step
+  const turnNames = getTurnOrder(session);
 
   // ============== READY COUNTDOWN SCREEN ==============
   // Show this before the first step starts (when all steps are still pending)
@@ -1331,19 +1424,14 @@ const DailySessionPage: React.FC = () => {
             boxShadow: 'inset 2px 2px 4px rgba(0,0,0,0.5), inset -2px -2px 4px rgba(255,255,255,0.05)',
           }}
         >
-          <div className="flex items-center justify-around max-w-sm mx-auto">
+          <div className="flex items-center justify-around flex-wrap gap-y-3 max-w-sm mx-auto">
             {session.steps.map((step, index) => {
               const isActive = session.currentStepIndex === index;
               const isCompleted = step.status === 'completed';
-              
-              // Get short label (first word only)
-              const shortLabel = step.type === 'scripture' ? 'Scripture' 
-                : step.type === 'book' ? 'Story'
-                : step.type === 'discussion' ? 'Discuss'
-                : 'Prayer';
+              const shortLabel = SESSION_STEP_CATALOG[step.type]?.shortLabel || step.label;
               
               return (
-                <div key={step.type} className="flex flex-col items-center">
+                <div key={index} className="flex flex-col items-center">
                   {/* Step icon - circular with gradient */}
                   <div 
                     className={`
@@ -1403,93 +1491,48 @@ const DailySessionPage: React.FC = () => {
             boxShadow: 'inset 2px 2px 4px rgba(0,0,0,0.5), inset -2px -2px 4px rgba(255,255,255,0.05)',
           }}
         >
+          {/* Family session - who leads this step */}
+          {turnNames.length > 0 && (
+            <p className="text-center mb-3">
+              <span className="inline-block bg-[#FFD700]/20 text-[#FFD700] font-display font-bold text-sm rounded-full px-4 py-1 border border-[#FFD700]/40">
+                ⭐ {turnNames[0]}'s turn to lead
+              </span>
+            </p>
+          )}
+
           {/* Step-specific content preview */}
           <div className="flex-1 flex flex-col justify-center">
-            {currentStep.type === 'scripture' && (
-              <div className="text-center">
-                <div className="relative inline-block mb-4">
-                  <div className="absolute inset-0 blur-xl bg-[#7CB342] opacity-60 rounded-full scale-150"></div>
-                  <span className="relative text-6xl">🧩</span>
-                </div>
-                <h3 className="text-[#FFD700] font-bold font-display text-xl mb-2">Scripture Puzzle</h3>
-                <p className="text-[#f3e5ab]/70 text-sm font-display mb-4">
-                  Tap the words in the correct order to build today's Bible verse!
-                </p>
-                <p className="text-[#FFD700] font-bold font-display text-lg">
-                  🪙 +10 coins
-                </p>
-              </div>
+            {StepPreview && (
+              <StepPreview
+                step={currentStep}
+                reward={getStepReward(currentStep)}
+                recommendedBook={recommendedBook}
+                onStart={handleStartStep}
+              />
             )}
+          </div>
 
-            {currentStep.type === 'book' && recommendedBook && (
-              <button 
+          {/* Action Buttons - Inside the card */}
+          <div className="mt-6">
+            {awaitingConfirm ? (
+              <button
+                onClick={() => finishCurrentStep()}
+                className="w-full py-4 rounded-2xl bg-gradient-to-b from-[#8BC34A] to-[#558B2F] border-4 border-[#33691E] text-white font-display font-bold text-xl shadow-lg transition-all active:scale-95"
+              >
+                We did it! 🪙 +{getStepReward(currentStep)}
+              </button>
+            ) : (
+              <button
                 onClick={handleStartStep}
-                className="w-full bg-[#8B4513]/50 rounded-xl p-4 border-2 border-[#A0522D] hover:bg-[#8B4513]/70 transition-all active:scale-[0.98] cursor-pointer"
+                className="w-full relative transition-all transform active:scale-95 hover:scale-102"
               >
-                <div className="flex items-center gap-4">
-                  <div className="w-20 h-28 rounded-xl overflow-hidden bg-[#5D4037]/50 border-2 border-[#8B4513] shadow-lg">
-                    <img 
-                      src={recommendedBook.coverUrl || recommendedBook.files?.coverImage} 
-                      alt={recommendedBook.title}
-                      className="w-full h-full object-cover"
-                    />
-                  </div>
-                  <div className="flex-1 text-left">
-                    <h3 className="text-[#f3e5ab] font-bold font-display">{recommendedBook.title}</h3>
-                    <p className="text-[#f3e5ab]/60 text-sm font-display">{recommendedBook.author}</p>
-                    <p className="text-[#f3e5ab]/40 text-xs mt-1 font-display">
-                      {recommendedBook.category || recommendedBook.categories?.[0]}
-                    </p>
-                    <p className="text-[#FFD700] text-sm mt-1 font-display font-bold">🪙 +30 coins</p>
-                  </div>
-                </div>
+                <img 
+                  src="/daily-session/Startsession.png" 
+                  alt="Start"
+                  className="w-full h-auto"
+                />
               </button>
             )}
-
-            {currentStep.type === 'discussion' && (
-              <div className="bg-[#8B4513]/50 rounded-xl p-4 border-2 border-[#A0522D]">
-                <div className="flex items-center gap-4">
-                  <div className="w-20 h-20 rounded-xl bg-gradient-to-br from-green-500 to-teal-600 flex items-center justify-center border-2 border-[#5D4037]">
-                    <MessageCircle className="w-8 h-8 text-white" />
-                  </div>
-                  <div className="flex-1">
-                    <h3 className="text-[#f3e5ab] font-bold font-display">Discussion Time</h3>
-                    <p className="text-[#f3e5ab]/60 text-sm font-display">
-                      {recommendedBook ? `About "${recommendedBook.title}"` : 'About the story'}
-                    </p>
-                    <p className="text-[#f3e5ab]/40 text-xs mt-1 font-display">
-                      Answer 2 questions together
-                    </p>
-                    <p className="text-[#FFD700] text-sm mt-1 font-display font-bold">🪙 +20 coins</p>
-                  </div>
-                </div>
-              </div>
-            )}
-
-            {currentStep.type === 'prayer' && (
-              <div className="bg-[#8B4513]/50 rounded-xl p-4 text-center border-2 border-[#A0522D]">
-                <p className="text-[#f3e5ab]/80 text-sm font-display">
-                  Select 3 prayer topics and pray together.
-                </p>
-                <p className="text-[#FFD700] font-bold mt-2 font-display text-lg">
-                  🪙 +30 coins
-                </p>
-              </div>
-            )}
-          </div>
-
-          {/* Action Buttons - Inside the card */}
-          <div className="mt-6">
-            <button
-              onClick={handleStartStep}
-              className="w-full relative transition-all transform active:scale-95 hover:scale-102"
-            >
-              <img 
-                src="/daily-session/Startsession.png" 
-                alt="Start"
-                className="w-full h-auto"
-              />
-            </button>
             
             <button
               onClick={handleSkipStep}
@@ -1556,27 +1599,59 @@ const DailySessionPage: React.FC = () => {
 
       {/* Scripture of the Day Modal */}
       <DailyVerseModal
-        isOpen={showScriptureModal}
-        onClose={handleScriptureClose}
-        onComplete={handleScriptureComplete}
+        isOpen={activeModal === 'scripture'}
+        onClose={handleModalClose}
+        onComplete={handleModalComplete}
       />
 
       {/* Discussion Questions Modal */}
       <DiscussionQuestionsModal
-        isOpen={showDiscussionModal}
-        onClose={handleDiscussionClose}
-        onComplete={handleDiscussionComplete}
-        bookTitle={session?.steps[1]?.contentTitle || recommendedBook?.title || 'the story'}
+        isOpen={activeModal === 'discussion'}
+        onClose={handleModalClose}
+        onComplete={handleModalComplete}
+        bookTitle={storyTitle}
+        turnNames={turnNames}
         bookDescription={recommendedBook?.description}
         bookContent={bookContent}
         preGeneratedQuestions={discussionQuestions}
         childAge={childAge}
       />
 
+      {/* Memory verse, game and coloring steps - the family taps "We did it!" when they're done */}
+      <MemoryVerseTrainerModal
+        isOpen={activeModal === 'memoryVerse'}
+        onClose={handleModalClose}
+      />
+      <ChallengeGameModal
+        isOpen={activeModal === 'game'}
+        onClose={handleModalClose}
+      />
+      <ColoringModal
+        isOpen={activeModal === 'coloring'}
+        onClose={handleModalClose}
+        bookTitle={storyTitle}
+      />
+
+      {/* Story Quiz Modal */}
+      {storyBookId && (
+        <BookQuizModal
+          isOpen={activeModal === 'quiz'}
+          onClose={handleQuizClose}
+          bookId={storyBookId}
+          bookTitle={storyTitle}
+          attemptCount={getQuizAttemptCount(storyBookId)}
+          maxAttempts={3}
+          kidAge={childAge}
+          onQuizComplete={handleQuizComplete}
+        />
+      )}
+
       {/* Prayer Modal */}
       <PrayerGameModal
         isOpen={showPrayerModal}
         onClose={handlePrayerClose}
+        coinReward={isFamilySession(session) ? 0 : getCurrentStepReward()}
+        turnNames={turnNames}
       />
 
       {/* Celebration Modal */}
@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ChevronLeft, Trash2 } from 'lucide-react';
 import WoodButton from '../components/ui/WoodButton';
+import ColoringGallery from '../components/features/ColoringGallery';
+import BadgeShelf from '../components/features/BadgeShelf';
 import { AVATAR_ASSETS } from '../components/avatar/AvatarAssets';
 import { useUser } from '../context/UserContext';
 import { useLanguage } from '../context/LanguageContext';
@@ -191,6 +193,14 @@ const EditProfilePage: React.FC = () => {
              </div>
           </div>
 
+          {/* Earned badges */}
+          <div className="w-full mb-8">
+            <BadgeShelf profileId={currentProfileId} />
+          </div>
+
+          {/* Finished coloring pages */}
+          <ColoringGallery profileId={currentProfileId} name={isParentProfile ? (parentName || '') : (currentKid?.name || '')} />
+
           {/* Action Buttons */}
           <div className="w-full space-y-3">
             <WoodButton 
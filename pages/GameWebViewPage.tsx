@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { ArrowLeft, Loader2, Maximize2, Minimize2, ExternalLink } from 'lucide-react';
+import { ArrowLeft, Loader2, Maximize2, Minimize2, ExternalLink, Gamepad2 } from 'lucide-react';
+import { useParentalControls } from '../hooks/useParentalControls';
 
 const GameWebViewPage: React.FC = () => {
   const navigate = useNavigate();
@@ -21,6 +22,7 @@ const GameWebViewPage: React.FC = () => {
   console.log('🎮 Name param:', gameName);
   console.log('🎮 Is Despia:', isDespia);
   
+  const { controls: parentalControls } = useParentalControls();
   const [loading, setLoading] = useState(true);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [iframeError, setIframeError] = useState(false);
@@ -65,6 +67,25 @@ const GameWebViewPage: React.FC = () => {
     return () => clearTimeout(timeout);
   }, [gameUrl, loading]);
 
+  // Games turned off for this kid in Parental Controls
+  if (parentalControls?.disableGames) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-[#1a1a2e] to-[#16213e] flex items-center justify-center px-6">
+        <div className="text-center text-white">
+          <Gamepad2 size={48} className="mx-auto mb-4 opacity-60" />
+          <p className="text-lg font-bold mb-1">Games are turned off</p>
+          <p className="text-white/70 text-sm mb-6">Ask a parent if you'd like to play.</p>
+          <button
+            onClick={handleBack}
+            className="px-5 py-2 bg-white/20 hover:bg-white/30 rounded-lg text-white font-bold transition-colors"
+          >
+            Go Back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (!rawGameUrl) {
     // Show loading while redirecting
     return (
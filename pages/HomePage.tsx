@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import SectionTitle from '../components/ui/SectionTitle';
 import BookCard from '../components/ui/BookCard';
@@ -21,6 +21,7 @@ import { ApiService } from '../services/apiService';
 import { 
   isCompleted, 
   isLocked, 
+  isInProgress,
   getWeekDays, 
   getTodayIndex, 
   getSelectedDay, 
@@ -35,9 +36,11 @@ import { bookCompletionService } from '../services/bookCompletionService';
 import { profileService } from '../services/profileService';
 import { activityTrackingService } from '../services/activityTrackingService';
 import { getPreferenceTags, getSavedPreferences } from './InterestSelectionPage';
-import { isSessionCompletedToday, getSessionStreak, hasSessionToday } from '../services/dailySessionService';
+import { isSessionCompletedToday, hasSessionToday } from '../services/dailySessionService';
 import DailyLessonWidget from '../components/features/DailyLessonWidget';
 import PremiumBadge from '../components/ui/PremiumBadge';
+import { useParentalControls } from '../hooks/useParentalControls';
+import { useSyncedDataVersion } from '../hooks/useSyncedDataVersion';
 
 // Helper to format date as YYYY-MM-DD in local time
 const formatLocalDateKey = (d: Date): string => {
@@ -58,13 +61,16 @@ const ageToLessonAgeGroup = (age?: number): string => {
 };
 
 // Inline getLessonStatus to avoid circular dependency
-const getLessonStatus = (lesson: any): 'available' | 'locked' | 'completed' => {
+const getLessonStatus = (lesson: any): 'available' | 'locked' | 'completed' | 'in-progress' => {
   if (isCompleted(lesson._id || lesson.id)) {
     return 'completed';
   }
   if (isLocked(lesson)) {
     return 'locked';
   }
+  if (isInProgress(lesson._id || lesson.id)) {
+    return 'in-progress';
+  }
   return 'available';
 };
 
@@ -89,7 +95,7 @@ const markGamePurchased = (gameId: string): void => {
 
 const HomePage: React.FC = () => {
   const navigate = useNavigate();
-  const { books, loading, error: booksError, refreshBooks } = useBooks();
+  const { books: allBooks, loading, error: booksError, refreshBooks } = useBooks();
   const { coins, addCoins, spendCoins, kids, currentProfileId, isSubscribed } = useUser();
   const [isRetrying, setIsRetrying] = useState(false);
 
@@ -244,32 +250,46 @@ const HomePage: React.FC = () => {
   // Explore categories state - initialize from cache if available
   const [exploreCategories, setExploreCategories] = useState<any[]>(() => getCached('categories'));
   const [categoriesLoading, setCategoriesLoading] = useState(() => getCached('categories').length === 0);
-  const [playlists, setPlaylists] = useState<any[]>(() => getCached('playlists'));
+  const [allPlaylists, setPlaylists] = useState<any[]>(() => getCached('playlists'));
   const [playlistsLoading, setPlaylistsLoading] = useState(() => getCached('playlists').length === 0);
   
   // Featured content state - initialize from cache if available
-  const [featuredContent, setFeaturedContent] = useState<any[]>(() => getCached('featured'));
+  const [allFeaturedContent, setFeaturedContent] = useState<any[]>(() => getCached('featured'));
   const [featuredLoading, setFeaturedLoading] = useState(() => getCached('featured').length === 0);
   
   // Trending episodes state (top 10 by play count) - always fresh, no cache
-  const [trendingEpisodes, setTrendingEpisodes] = useState<any[]>([]);
+  const [allTrendingEpisodes, setTrendingEpisodes] = useState<any[]>([]);
   const [trendingEpisodesLoading, setTrendingEpisodesLoading] = useState(true);
   
   // Trending books state (top 10 by read count) - always fresh, no cache
-  const [trendingBooks, setTrendingBooks] = useState<any[]>([]);
+  const [allTrendingBooks, setTrendingBooks] = useState<any[]>([]);
   const [trendingBooksLoading, setTrendingBooksLoading] = useState(true);
   
   // Recently Read/Played state
-  const [recentlyReadBooks, setRecentlyReadBooks] = useState<any[]>([]);
-  const [recentlyPlayedPlaylists, setRecentlyPlayedPlaylists] = useState<any[]>([]);
+  const [allRecentlyReadBooks, setRecentlyReadBooks] = useState<any[]>([]);
+  const [allRecentlyPlayedPlaylists, setRecentlyPlayedPlaylists] = useState<any[]>([]);
   
   // Top Rated content state - initialize from cache if available
-  const [topRatedBooks, setTopRatedBooks] = useState<any[]>(() => getCached('topBooks'));
-  const [topRatedPlaylists, setTopRatedPlaylists] = useState<any[]>(() => getCached('topPlaylists'));
+  const [allTopRatedBooks, setTopRatedBooks] = useState<any[]>(() => getCached('topBooks'));
+  const [allTopRatedPlaylists, setTopRatedPlaylists] = useState<any[]>(() => getCached('topPlaylists'));
   
   // Book Series state - initialize from cache if available
-  const [bookSeries, setBookSeries] = useState<any[]>(() => getCached('series'));
+  const [allBookSeries, setBookSeries] = useState<any[]>(() => getCached('series'));
   
+  // Parental Controls - content the active kid's filters hide is left out of every section
+  const { controls: parentalControls, filterContent } = useParentalControls();
+  const syncedDataVersion = useSyncedDataVersion();
+  const books = useMemo(() => filterContent(allBooks), [allBooks, filterContent]);
+  const playlists = useMemo(() => filterContent(allPlaylists), [allPlaylists, filterContent]);
+  const featuredContent = useMemo(() => filterContent(allFeaturedContent), [allFeaturedContent, filterContent]);
+  const trendingEpisodes = useMemo(() => filterContent(allTrendingEpisodes), [allTrendingEpisodes, filterContent]);
+  const trendingBooks = useMemo(() => filterContent(allTrendingBooks), [allTrendingBooks, filterContent]);
+  const recentlyReadBooks = useMemo(() => filterContent(allRecentlyReadBooks), [allRecentlyReadBooks, filterContent]);
+  const recentlyPlayedPlaylists = useMemo(() => filterContent(allRecentlyPlayedPlaylists), [allRecentlyPlayedPlaylists, filterContent]);
+  const topRatedBooks = useMemo(() => filterContent(allTopRatedBooks), [allTopRatedBooks, filterContent]);
+  const topRatedPlaylists = useMemo(() => filterContent(allTopRatedPlaylists), [allTopRatedPlaylists, filterContent]);
+  const bookSeries = useMemo(() => filterContent(allBookSeries), [allBookSeries, filterContent]);
+
   // Dynamic games from backend - initialize from cache if available
   const [dynamicGames, setDynamicGames] = useState<any[]>(() => getCached('games'));
   const [gamesLoading, setGamesLoading] = useState(() => getCached('games').length === 0);
@@ -835,7 +855,7 @@ const HomePage: React.FC = () => {
       setRecentlyReadBooks(recentItems.slice(0, 10));
       console.log('📚 Recently read items:', recentItems.length, '(books + series)');
     }
-  }, [books, bookSeries]);
+  }, [books, bookSeries, syncedDataVersion]);
 
   // Compute recently played playlists when playlists are loaded
   useEffect(() => {
@@ -847,7 +867,7 @@ const HomePage: React.FC = () => {
       setRecentlyPlayedPlaylists(recentPlaylists);
       console.log('🎵 Recently played playlists:', recentPlaylists.length);
     }
-  }, [playlists]);
+  }, [playlists, syncedDataVersion]);
 
   // Group books and playlists by category
   // Find the category ID for a given name (for matching books that use category IDs)
@@ -1354,6 +1374,7 @@ const HomePage: React.FC = () => {
                     const canWatch = !isFutureDay && !isLessonLocked;
                     const isEven = index % 2 === 0;
                     const isCompleted = status === 'completed';
+                    const isLessonInProgress = status === 'in-progress' && !isFutureDay;
 
                     return (
                       <div 
@@ -1405,6 +1426,11 @@ const HomePage: React.FC = () => {
                               }
                             }}
                           >
+                            {/* Half-finished lessons get a partial ring */}
+                            {isLessonInProgress && (
+                              <div className="absolute -inset-2 rounded-full border-4 border-transparent border-t-[#FF9800] border-r-[#FF9800] rotate-45" />
+                            )}
+
                             {/* Glow effect for current available */}
                             {canWatch && !isCompleted && (
                               <div className="absolute -inset-2 rounded-full bg-[#FFD700]/30 animate-pulse" />
@@ -1511,6 +1537,9 @@ const HomePage: React.FC = () => {
                               {isCompleted && (
                                 <p className="text-green-400 text-[10px] font-semibold mt-1">✓ Completed</p>
                               )}
+                              {isLessonInProgress && (
+                                <p className="text-[#FFD700] text-[10px] font-semibold mt-1">▶ In progress - tap to continue</p>
+                              )}
                               {isFutureDay && !isCompleted && (
                                 <p className="text-white/40 text-[10px] mt-1">Coming soon</p>
                               )}
@@ -1774,198 +1803,200 @@ const HomePage: React.FC = () => {
           </section>
         )}
 
-        {/* Daily Tasks & IQ Games Section - Vertical 9:16 Sliding Cards */}
-        <section className="mt-4">
-          <SectionTitle 
-            title="Daily Tasks & IQ Games" 
-            icon="🧠"
-            color="#4CAF50"
-          />
-          <div className="w-screen overflow-x-auto no-scrollbar pb-4 -mx-4 snap-x snap-mandatory">
-            <div className="flex space-x-4 px-4">
+        {/* Daily Tasks & IQ Games Section - Vertical 9:16 Sliding Cards (can be turned off in Parental Controls) */}
+        {!parentalControls?.disableGames && (
+          <section className="mt-4">
+            <SectionTitle 
+              title="Daily Tasks & IQ Games" 
+              icon="🧠"
+              color="#4CAF50"
+            />
+            <div className="w-screen overflow-x-auto no-scrollbar pb-4 -mx-4 snap-x snap-mandatory">
+              <div className="flex space-x-4 px-4">
               
-              {/* Daily Key Task */}
-              <div
-                className="relative w-[52vw] max-w-[220px] flex-shrink-0 snap-center cursor-pointer"
-                onClick={handleDailyKeyClick}
-              >
-                <div className="relative aspect-[9/16] rounded-2xl overflow-hidden transition-all border-3 shadow-xl border-[#FFD700] hover:scale-[1.02] active:scale-[0.98]">
-                  {/* Background Gradient */}
-                  <div className="absolute inset-0 bg-gradient-to-br from-[#8B4513] to-[#5c2e0b]" />
+                {/* Daily Key Task */}
+                <div
+                  className="relative w-[52vw] max-w-[220px] flex-shrink-0 snap-center cursor-pointer"
+                  onClick={handleDailyKeyClick}
+                >
+                  <div className="relative aspect-[9/16] rounded-2xl overflow-hidden transition-all border-3 shadow-xl border-[#FFD700] hover:scale-[1.02] active:scale-[0.98]">
+                    {/* Background Gradient */}
+                    <div className="absolute inset-0 bg-gradient-to-br from-[#8B4513] to-[#5c2e0b]" />
                   
-                  {/* Decorative Pattern */}
-                  <div className="absolute inset-0 opacity-20" style={{ 
-                    backgroundImage: 'radial-gradient(circle at 30% 20%, #FFD700 3%, transparent 10%), radial-gradient(circle at 70% 80%, #FFD700 3%, transparent 10%), radial-gradient(circle at 50% 50%, #FFD700 2%, transparent 8%)'
-                  }} />
+                    {/* Decorative Pattern */}
+                    <div className="absolute inset-0 opacity-20" style={{ 
+                      backgroundImage: 'radial-gradient(circle at 30% 20%, #FFD700 3%, transparent 10%), radial-gradient(circle at 70% 80%, #FFD700 3%, transparent 10%), radial-gradient(circle at 50% 50%, #FFD700 2%, transparent 8%)'
+                    }} />
                   
-                  {/* Icon & Content - Centered */}
-                  <div className="absolute inset-0 flex flex-col items-center justify-center">
-                    <div className="w-16 h-16 rounded-full bg-[#FFD700]/20 flex items-center justify-center mb-3 border-2 border-[#FFD700]/30">
-                      <Key size={36} className="text-[#FFD700]" fill="#B8860B" />
+                    {/* Icon & Content - Centered */}
+                    <div className="absolute inset-0 flex flex-col items-center justify-center">
+                      <div className="w-16 h-16 rounded-full bg-[#FFD700]/20 flex items-center justify-center mb-3 border-2 border-[#FFD700]/30">
+                        <Key size={36} className="text-[#FFD700]" fill="#B8860B" />
+                      </div>
+                      <span className="text-[#FFD700] text-lg font-bold font-display text-center px-3">
+                        Daily Key
+                      </span>
+                      <span className="text-white/70 text-xs text-center px-3 mt-1">
+                        Unlock rewards
+                      </span>
                     </div>
-                    <span className="text-[#FFD700] text-lg font-bold font-display text-center px-3">
-                      Daily Key
-                    </span>
-                    <span className="text-white/70 text-xs text-center px-3 mt-1">
-                      Unlock rewards
-                    </span>
                   </div>
                 </div>
-              </div>
 
-              {/* Memory Task */}
-              <div
-                className="relative w-[52vw] max-w-[220px] flex-shrink-0 snap-center cursor-pointer"
-                onClick={handleMemoryClick}
-              >
-                <div className="relative aspect-[9/16] rounded-2xl overflow-hidden transition-all border-3 shadow-xl border-[#5c6bc0] hover:scale-[1.02] active:scale-[0.98]">
-                  {/* Background Gradient */}
-                  <div className="absolute inset-0 bg-gradient-to-br from-[#1a237e] to-[#0d1442]" />
+                {/* Memory Task */}
+                <div
+                  className="relative w-[52vw] max-w-[220px] flex-shrink-0 snap-center cursor-pointer"
+                  onClick={handleMemoryClick}
+                >
+                  <div className="relative aspect-[9/16] rounded-2xl overflow-hidden transition-all border-3 shadow-xl border-[#5c6bc0] hover:scale-[1.02] active:scale-[0.98]">
+                    {/* Background Gradient */}
+                    <div className="absolute inset-0 bg-gradient-to-br from-[#1a237e] to-[#0d1442]" />
                   
-                  {/* Decorative Pattern */}
-                  <div className="absolute inset-0 opacity-20" style={{ 
-                    backgroundImage: 'radial-gradient(circle at 20% 30%, #90caf9 3%, transparent 10%), radial-gradient(circle at 80% 70%, #90caf9 3%, transparent 10%), radial-gradient(circle at 50% 50%, #90caf9 2%, transparent 8%)'
-                  }} />
+                    {/* Decorative Pattern */}
+                    <div className="absolute inset-0 opacity-20" style={{ 
+                      backgroundImage: 'radial-gradient(circle at 20% 30%, #90caf9 3%, transparent 10%), radial-gradient(circle at 80% 70%, #90caf9 3%, transparent 10%), radial-gradient(circle at 50% 50%, #90caf9 2%, transparent 8%)'
+                    }} />
                   
-                  {/* Icon & Content - Centered */}
-                  <div className="absolute inset-0 flex flex-col items-center justify-center">
-                    <div className="w-16 h-16 rounded-full bg-[#5c6bc0]/30 flex items-center justify-center mb-3 border-2 border-[#5c6bc0]/30">
-                      <Brain size={36} className="text-[#90caf9]" fill="#64b5f6" />
+                    {/* Icon & Content - Centered */}
+                    <div className="absolute inset-0 flex flex-col items-center justify-center">
+                      <div className="w-16 h-16 rounded-full bg-[#5c6bc0]/30 flex items-center justify-center mb-3 border-2 border-[#5c6bc0]/30">
+                        <Brain size={36} className="text-[#90caf9]" fill="#64b5f6" />
+                      </div>
+                      <span className="text-[#90caf9] text-lg font-bold font-display text-center px-3">
+                        Memory
+                      </span>
+                      <span className="text-white/70 text-xs text-center px-3 mt-1">
+                        Bible challenge
+                      </span>
                     </div>
-                    <span className="text-[#90caf9] text-lg font-bold font-display text-center px-3">
-                      Memory
-                    </span>
-                    <span className="text-white/70 text-xs text-center px-3 mt-1">
-                      Bible challenge
-                    </span>
                   </div>
                 </div>
-              </div>
 
-              {/* Prayer Task */}
-              <div
-                className="relative w-[52vw] max-w-[220px] flex-shrink-0 snap-center cursor-pointer"
-                onClick={handlePrayerClick}
-              >
-                <div className="relative aspect-[9/16] rounded-2xl overflow-hidden transition-all border-3 shadow-xl border-[#BA68C8] hover:scale-[1.02] active:scale-[0.98]">
-                  {/* Background Gradient */}
-                  <div className="absolute inset-0 bg-gradient-to-br from-[#7B1FA2] to-[#4A148C]" />
+                {/* Prayer Task */}
+                <div
+                  className="relative w-[52vw] max-w-[220px] flex-shrink-0 snap-center cursor-pointer"
+                  onClick={handlePrayerClick}
+                >
+                  <div className="relative aspect-[9/16] rounded-2xl overflow-hidden transition-all border-3 shadow-xl border-[#BA68C8] hover:scale-[1.02] active:scale-[0.98]">
+                    {/* Background Gradient */}
+                    <div className="absolute inset-0 bg-gradient-to-br from-[#7B1FA2] to-[#4A148C]" />
                   
-                  {/* Decorative Pattern */}
-                  <div className="absolute inset-0 opacity-20" style={{ 
-                    backgroundImage: 'radial-gradient(circle at 30% 40%, #F06292 3%, transparent 10%), radial-gradient(circle at 70% 60%, #F06292 3%, transparent 10%), radial-gradient(circle at 50% 50%, #F06292 2%, transparent 8%)'
-                  }} />
+                    {/* Decorative Pattern */}
+                    <div className="absolute inset-0 opacity-20" style={{ 
+                      backgroundImage: 'radial-gradient(circle at 30% 40%, #F06292 3%, transparent 10%), radial-gradient(circle at 70% 60%, #F06292 3%, transparent 10%), radial-gradient(circle at 50% 50%, #F06292 2%, transparent 8%)'
+                    }} />
                   
-                  {/* Icon & Content - Centered */}
-                  <div className="absolute inset-0 flex flex-col items-center justify-center">
-                    <div className="w-16 h-16 rounded-full bg-[#F06292]/20 flex items-center justify-center mb-3 border-2 border-[#F06292]/30">
-                      <Heart size={36} className="text-[#F06292]" fill="#EC407A" />
+                    {/* Icon & Content - Centered */}
+                    <div className="absolute inset-0 flex flex-col items-center justify-center">
+                      <div className="w-16 h-16 rounded-full bg-[#F06292]/20 flex items-center justify-center mb-3 border-2 border-[#F06292]/30">
+                        <Heart size={36} className="text-[#F06292]" fill="#EC407A" />
+                      </div>
+                      <span className="text-[#F06292] text-lg font-bold font-display text-center px-3">
+                        Prayer
+                      </span>
+                      <span className="text-white/70 text-xs text-center px-3 mt-1">
+                        Connect with God
+                      </span>
                     </div>
-                    <span className="text-[#F06292] text-lg font-bold font-display text-center px-3">
-                      Prayer
-                    </span>
-                    <span className="text-white/70 text-xs text-center px-3 mt-1">
-                      Connect with God
-                    </span>
                   </div>
                 </div>
-              </div>
 
-              {/* Dynamic Games from Backend */}
-              {dynamicGames.map((game) => {
-                const isPurchasable = game.isPurchasable === true;
-                const gameId = game._id || game.gameId;
-                // Check both localStorage helper and React state for purchased status
-                const hasUnlocked = isGamePurchased(gameId) || purchasedGamesState.includes(gameId);
-                const isLocked = isPurchasable && !hasUnlocked;
-                const canAfford = coins >= (game.goldCoinPrice || 0);
+                {/* Dynamic Games from Backend */}
+                {dynamicGames.map((game) => {
+                  const isPurchasable = game.isPurchasable === true;
+                  const gameId = game._id || game.gameId;
+                  // Check both localStorage helper and React state for purchased status
+                  const hasUnlocked = isGamePurchased(gameId) || purchasedGamesState.includes(gameId);
+                  const isLocked = isPurchasable && !hasUnlocked;
+                  const canAfford = coins >= (game.goldCoinPrice || 0);
                 
-                return (
-                  <div
-                    key={gameId}
-                    className="relative w-[52vw] max-w-[220px] flex-shrink-0 snap-center cursor-pointer"
-                    onClick={() => {
-                      if (isLocked) {
-                        // Show purchase confirmation
-                        if (canAfford) {
-                          if (window.confirm(`Unlock "${game.name}" for ${game.goldCoinPrice} gold coins?`)) {
-                            // Spend coins and unlock game
-                            spendCoins(game.goldCoinPrice || 0, `Unlocked game: ${game.name}`);
-                            markGamePurchased(gameId);
-                            // Update React state to trigger re-render (no page reload!)
-                            setPurchasedGamesState(prev => [...prev, gameId]);
-                            // Show success notification
-                            setUnlockSuccess({ show: true, gameName: game.name });
-                            // Auto-hide after 3 seconds
-                            setTimeout(() => setUnlockSuccess({ show: false, gameName: '' }), 3000);
+                  return (
+                    <div
+                      key={gameId}
+                      className="relative w-[52vw] max-w-[220px] flex-shrink-0 snap-center cursor-pointer"
+                      onClick={() => {
+                        if (isLocked) {
+                          // Show purchase confirmation
+                          if (canAfford) {
+                            if (window.confirm(`Unlock "${game.name}" for ${game.goldCoinPrice} gold coins?`)) {
+                              // Spend coins and unlock game
+                              spendCoins(game.goldCoinPrice || 0, `Unlocked game: ${game.name}`);
+                              markGamePurchased(gameId);
+                              // Update React state to trigger re-render (no page reload!)
+                              setPurchasedGamesState(prev => [...prev, gameId]);
+                              // Show success notification
+                              setUnlockSuccess({ show: true, gameName: game.name });
+                              // Auto-hide after 3 seconds
+                              setTimeout(() => setUnlockSuccess({ show: false, gameName: '' }), 3000);
+                            }
+                          } else {
+                            alert(`You need ${game.goldCoinPrice} gold coins to unlock this game. You have ${coins} coins.`);
                           }
-                        } else {
-                          alert(`You need ${game.goldCoinPrice} gold coins to unlock this game. You have ${coins} coins.`);
+                          return;
                         }
-                        return;
-                      }
                       
-                      // Game is unlocked - handle click
-                      if (game.url) {
-                        // Navigate to in-app webview
-                        navigate(`/game?url=${encodeURIComponent(game.url)}&name=${encodeURIComponent(game.name)}`);
-                      } else {
-                        // No URL - show a message
-                        alert(`${game.name} is ready to play! Game content coming soon.`);
-                      }
-                    }}
-                  >
-                    <div className={`relative aspect-[9/16] rounded-2xl overflow-hidden transition-all border-3 shadow-xl ${isLocked ? 'border-[#FFD700]' : 'border-[#4CAF50]'}`}>
-                      {/* Cover Image or Gradient Background */}
-                      {game.coverImage ? (
-                        <img 
-                          src={game.coverImage} 
-                          alt={game.name}
-                          className={`absolute inset-0 w-full h-full object-cover ${isLocked ? 'brightness-50' : ''}`}
-                        />
-                      ) : (
-                        <div className={`absolute inset-0 bg-gradient-to-br ${isLocked ? 'from-[#8B4513] to-[#5c2e0b]' : 'from-[#4CAF50] to-[#2E7D32]'}`} />
-                      )}
-                      
-                      {/* Age Rating Badge - Always show */}
-                      {game.ageRating && (
-                        <div className="absolute top-2 left-2 bg-blue-500/90 backdrop-blur-sm text-white text-xs font-bold px-2 py-1 rounded-full z-20 shadow-lg">
-                          {game.ageRating === 'All Ages' ? 'All Ages' : (game.ageRating.includes('Ages') ? game.ageRating : `Ages ${game.ageRating}`)}
-                        </div>
-                      )}
+                        // Game is unlocked - handle click
+                        if (game.url) {
+                          // Navigate to in-app webview
+                          navigate(`/game?url=${encodeURIComponent(game.url)}&name=${encodeURIComponent(game.name)}`);
+                        } else {
+                          // No URL - show a message
+                          alert(`${game.name} is ready to play! Game content coming soon.`);
+                        }
+                      }}
+                    >
+                      <div className={`relative aspect-[9/16] rounded-2xl overflow-hidden transition-all border-3 shadow-xl ${isLocked ? 'border-[#FFD700]' : 'border-[#4CAF50]'}`}>
+                        {/* Cover Image or Gradient Background */}
+                        {game.coverImage ? (
+                          <img 
+                            src={game.coverImage} 
+                            alt={game.name}
+                            className={`absolute inset-0 w-full h-full object-cover ${isLocked ? 'brightness-50' : ''}`}
+                          />
+                        ) : (
+                          <div className={`absolute inset-0 bg-gradient-to-br ${isLocked ? 'from-[#8B4513] to-[#5c2e0b]' : 'from-[#4CAF50] to-[#2E7D32]'}`} />
+                        )}
                       
-                      {/* Lock Overlay for Purchasable Games */}
-                      {isLocked && (
-                        <div className="absolute inset-0 bg-black/40 flex flex-col items-center justify-center z-10">
-                          <div className="bg-black/70 rounded-full p-3 border-2 border-[#FFD700] mb-2">
-                            <Lock size={24} className="text-[#FFD700]" />
+                        {/* Age Rating Badge - Always show */}
+                        {game.ageRating && (
+                          <div className="absolute top-2 left-2 bg-blue-500/90 backdrop-blur-sm text-white text-xs font-bold px-2 py-1 rounded-full z-20 shadow-lg">
+                            {game.ageRating === 'All Ages' ? 'All Ages' : (game.ageRating.includes('Ages') ? game.ageRating : `Ages ${game.ageRating}`)}
                           </div>
-                          <div className="bg-[#FFD700] rounded-full px-3 py-1.5 flex items-center gap-1.5">
-                            <Coins size={14} className="text-[#5c2e0b]" />
-                            <span className="text-sm font-bold text-[#5c2e0b]">{game.goldCoinPrice}</span>
+                        )}
+                      
+                        {/* Lock Overlay for Purchasable Games */}
+                        {isLocked && (
+                          <div className="absolute inset-0 bg-black/40 flex flex-col items-center justify-center z-10">
+                            <div className="bg-black/70 rounded-full p-3 border-2 border-[#FFD700] mb-2">
+                              <Lock size={24} className="text-[#FFD700]" />
+                            </div>
+                            <div className="bg-[#FFD700] rounded-full px-3 py-1.5 flex items-center gap-1.5">
+                              <Coins size={14} className="text-[#5c2e0b]" />
+                              <span className="text-sm font-bold text-[#5c2e0b]">{game.goldCoinPrice}</span>
+                            </div>
                           </div>
-                        </div>
-                      )}
+                        )}
                       
-                      {/* Overlay with game info */}
-                      <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/80 via-black/40 to-transparent pt-16 pb-4 px-3">
-                        <span className="text-white text-base font-bold font-display text-center block drop-shadow-lg">
-                          {game.name}
-                        </span>
-                        {game.description && !isLocked && (
-                          <span className="text-white/80 text-xs text-center block mt-1 drop-shadow">
-                            {game.description.substring(0, 40)}...
+                        {/* Overlay with game info */}
+                        <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/80 via-black/40 to-transparent pt-16 pb-4 px-3">
+                          <span className="text-white text-base font-bold font-display text-center block drop-shadow-lg">
+                            {game.name}
                           </span>
-                        )}
+                          {game.description && !isLocked && (
+                            <span className="text-white/80 text-xs text-center block mt-1 drop-shadow">
+                              {game.description.substring(0, 40)}...
+                            </span>
+                          )}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                );
-              })}
+                  );
+                })}
 
+              </div>
             </div>
-          </div>
-        </section>
+          </section>
+        )}
 
         {/* Recently Read Section - Horizontal Carousel */}
         {recentlyReadBooks.length > 0 && (
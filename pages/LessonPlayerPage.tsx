@@ -2,16 +2,28 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { ArrowLeft, Play, Pause, RotateCcw, Volume2, VolumeX, Check, ChevronRight, Star, Book, FlaskConical, Calculator, Hourglass, Languages, Palette, Cpu, Video, X, Lock, Loader2, Mic, ChevronLeft, Home, ShoppingBag } from 'lucide-react';
 import { ApiService } from '../services/apiService';
-import { markCompleted, getCompletion } from '../services/lessonService';
+import {
+    markCompleted,
+    getCompletion,
+    getLessonProgress,
+    saveLessonProgress,
+    clearLessonProgress,
+    hasResumableProgress,
+    toLocalDateKey,
+    LessonProgress,
+} from '../services/lessonService';
+import { streakService } from '../services/streakService';
 import { useUser } from '../context/UserContext';
 import { useAudio } from '../context/AudioContext';
 import { useLanguage } from '../context/LanguageContext';
 import { analyticsService } from '../services/analyticsService';
 import { incrementActivityCounter } from '../components/features/ReviewPromptModal';
 import { voiceCloningService, ClonedVoice } from '../services/voiceCloningService';
-import DrawingCanvas from '../components/features/DrawingCanvas';
+import DrawingCanvas, { DrawingCanvasRef } from '../components/features/DrawingCanvas';
 import { filterVisibleVoices } from '../services/voiceManagementService';
 import { activityTrackingService } from '../services/activityTrackingService';
+import { memoryVerseService } from '../services/memoryVerseService';
+import { coloringGalleryService } from '../services/coloringGalleryService';
 
 interface Episode {
     episodeNumber: number;
@@ -57,6 +69,15 @@ interface Lesson {
 
 type Screen = 'video' | 'devotional' | 'activity';
 
+// How often mid-lesson progress is written while the video plays
+const PROGRESS_SAVE_INTERVAL_MS = 5000;
+const PROGRESS_REPORT_INTERVAL_MS = 15000;
+
+const formatVideoTime = (seconds: number): string => {
+    const total = Math.floor(seconds);
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
 const getLessonIcon = (type: string) => {
     switch (type) {
         case 'Bible': return <Book className="w-5 h-5 text-[#FFD700]" />;
@@ -75,7 +96,7 @@ const LessonPlayerPage: React.FC = () => {
     const navigate = useNavigate();
     const location = useLocation();
     const fromDailySession = (location.state as any)?.fromDailySession || false;
-    const { addCoins, isOwned, purchaseItem, coins, isSubscribed, isVoiceUnlocked } = useUser();
+    const { addCoins, isOwned, purchaseItem, coins, isSubscribed, isVoiceUnlocked, currentProfileId } = useUser();
     const { setMusicPaused, musicEnabled, currentPlaylist, isPlaying, togglePlayPause } = useAudio();
     const { translateText, translateTexts, currentLanguage, t } = useLanguage();
 
@@ -131,6 +152,7 @@ const LessonPlayerPage: React.FC = () => {
     const [showVoiceDropdown, setShowVoiceDropdown] = useState(false);
     const voiceDropdownRef = useRef<HTMLDivElement>(null);
     const videoRef = useRef<HTMLVideoElement>(null);
+    const drawingCanvasRef = useRef<DrawingCanvasRef>(null);
     const audioRef = useRef<HTMLAudioElement | null>(null);
     
     // Daily Verse coin reward state
@@ -141,6 +163,16 @@ const LessonPlayerPage: React.FC = () => {
     // First lesson completion tracking for paywall
     const [isFirstLessonCompletion, setIsFirstLessonCompletion] = useState(false);
 
+    // Resume: saved progress waiting on "Continue where you left off", and nothing is
+    // saved until that's answered so the fresh start can't overwrite it
+    const [resumePrompt, setResumePrompt] = useState<LessonProgress | null>(null);
+    const progressReadyRef = useRef(false);
+    const pendingSeekRef = useRef<number | null>(null);
+    const videoTimeRef = useRef(0);
+    const videoDurationRef = useRef(0);
+    const lastProgressSaveRef = useRef(0);
+    const lastProgressReportRef = useRef(0);
+
     // Pause audiobook playlist when entering lesson player to prevent audio overlap
     useEffect(() => {
         if (currentPlaylist && isPlaying) {
@@ -232,6 +264,14 @@ const LessonPlayerPage: React.FC = () => {
         }
     }, [videoWatched, lesson, addCoins]);
 
+    // Once the devotional is read, its verse joins the kid's memory verse deck
+    useEffect(() => {
+        const devotional = lesson?.devotional;
+        if (devotionalRead && devotional?.verse && devotional.verseText) {
+            memoryVerseService.addVerse({ text: devotional.verseText, ref: devotional.verse, source: 'lesson' });
+        }
+    }, [devotionalRead, lesson]);
+
     // Translate devotional and quiz content when lesson loads or language changes
     useEffect(() => {
         if (!lesson || currentLanguage === 'en') {
@@ -472,6 +512,10 @@ const LessonPlayerPage: React.FC = () => {
     }, [showVoiceDropdown]);
 
     const fetchLesson = async () => {
+        // Another device may be further along - ask the backend while the lesson loads
+        const remoteProgressPromise = currentProfileId
+            ? ApiService.getLessonPlannerProgress(currentProfileId, lessonId!)
+            : Promise.resolve(null);
         try {
             const data = await ApiService.getLesson(lessonId!);
             if (data) {
@@ -492,6 +536,18 @@ const LessonPlayerPage: React.FC = () => {
                     setVideoWatched(true);
                     setDevotionalRead(true);
                     setActivityCompleted(true);
+                    progressReadyRef.current = true;
+                } else {
+                    const local = getLessonProgress(lessonId!);
+                    const remote = (await remoteProgressPromise)?.resume || null;
+                    const saved = hasResumableProgress(remote) && (!local || remote.updatedAt > local.updatedAt)
+                        ? remote
+                        : local;
+                    if (hasResumableProgress(saved)) {
+                        setResumePrompt(saved);
+                    } else {
+                        progressReadyRef.current = true;
+                    }
                 }
             }
         } catch (error) {
@@ -501,10 +557,103 @@ const LessonPlayerPage: React.FC = () => {
         }
     };
 
+    // Where the kid is right now, for "Continue where you left off"
+    const buildProgress = (): LessonProgress => ({
+        lessonId: lessonId!,
+        screen: currentScreen,
+        episodeIndex: currentEpisodeIndex,
+        videoTime: videoTimeRef.current,
+        videoWatched,
+        devotionalRead,
+        questionIndex: currentQuestionIndex,
+        quizAnswers: Object.fromEntries(selectedAnswers),
+        updatedAt: Date.now(),
+    });
+
+    const reportProgress = (resume: LessonProgress | null) => {
+        if (!currentProfileId || !lessonId) return;
+        lastProgressReportRef.current = Date.now();
+        const duration = videoDurationRef.current;
+        const episodeFraction = duration > 0 ? Math.min(1, videoTimeRef.current / duration) : 0;
+        const percentWatched = videoWatched ? 1 : (currentEpisodeIndex + episodeFraction) / totalEpisodes;
+        ApiService.reportLessonPlannerProgress(currentProfileId, lessonId, percentWatched, toLocalDateKey(new Date()), resume);
+    };
+
+    const persistProgress = (forceReport = false) => {
+        if (!lesson || !lessonId || !progressReadyRef.current || activityCompleted) return;
+        const progress = buildProgress();
+        lastProgressSaveRef.current = progress.updatedAt;
+        saveLessonProgress(progress);
+        if (forceReport || Date.now() - lastProgressReportRef.current > PROGRESS_REPORT_INTERVAL_MS) {
+            reportProgress(hasResumableProgress(progress) ? progress : null);
+        }
+    };
+
+    // Always call the latest persistProgress from unmount/background handlers
+    const persistProgressRef = useRef(persistProgress);
+    persistProgressRef.current = persistProgress;
+
+    // A new episode starts from the top (or from where a resumed lesson left off)
+    useEffect(() => {
+        videoTimeRef.current = pendingSeekRef.current ?? 0;
+    }, [currentEpisodeIndex]);
+
+    // Save as the kid moves through the lesson - screen changes go to the backend straight away
+    useEffect(() => {
+        persistProgressRef.current(true);
+    }, [currentScreen]);
+
+    useEffect(() => {
+        persistProgressRef.current();
+    }, [currentEpisodeIndex, videoWatched, devotionalRead, selectedAnswers, currentQuestionIndex]);
+
+    // ...and when the app is backgrounded or the lesson is left
+    useEffect(() => {
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') persistProgressRef.current(true);
+        };
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => {
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+            persistProgressRef.current(true);
+        };
+    }, []);
+
+    const handleResumeLesson = () => {
+        if (!resumePrompt || !lesson) return;
+        const episodeCount = lesson.episodes?.length || 1;
+        const questionCount = lesson.activity?.questions?.length || 1;
+        const episodeIndex = Math.min(resumePrompt.episodeIndex, episodeCount - 1);
+        pendingSeekRef.current = resumePrompt.screen === 'video' ? resumePrompt.videoTime : null;
+        videoTimeRef.current = resumePrompt.videoTime;
+        setCurrentEpisodeIndex(episodeIndex);
+        setVideoWatched(resumePrompt.videoWatched);
+        setDevotionalRead(resumePrompt.devotionalRead);
+        setSelectedAnswers(new Map(
+            Object.entries(resumePrompt.quizAnswers || {}).map(([q, o]) => [Number(q), o] as [number, number])
+        ));
+        setCurrentQuestionIndex(Math.min(resumePrompt.questionIndex, questionCount - 1));
+        setCurrentScreen(resumePrompt.screen);
+        progressReadyRef.current = true;
+        setResumePrompt(null);
+    };
+
+    const handleStartOver = () => {
+        clearLessonProgress(lessonId!);
+        reportProgress(null);
+        progressReadyRef.current = true;
+        setResumePrompt(null);
+    };
+
     const handleVideoProgress = () => {
         if (videoRef.current) {
             const progress = (videoRef.current.currentTime / videoRef.current.duration) * 100;
             setVideoProgress(progress);
+            videoTimeRef.current = videoRef.current.currentTime;
+            videoDurationRef.current = videoRef.current.duration || 0;
+            if (Date.now() - lastProgressSaveRef.current > PROGRESS_SAVE_INTERVAL_MS) {
+                persistProgress();
+            }
 
             // Mark as watched if > 90% - but only for single videos or last episode
             const isLastEpisode = !hasEpisodes || currentEpisodeIndex >= totalEpisodes - 1;
@@ -835,6 +984,8 @@ const LessonPlayerPage: React.FC = () => {
 
         // Mark lesson as completed
         markCompleted(lessonId!, correct, coinsEarned);
+        streakService.settle();
+        reportProgress(null);
         
         // Track lesson complete analytics
         analyticsService.lessonComplete(lessonId!, lesson?.title);
@@ -899,6 +1050,67 @@ const LessonPlayerPage: React.FC = () => {
         );
     }
 
+    // "Continue where you left off" - shown before the player so the video doesn't start underneath
+    if (resumePrompt) {
+        const resumeEpisodes = lesson.episodes?.length || 0;
+        const resumeQuestions = lesson.activity?.questions?.length || 0;
+        const resumeAnswered = Object.keys(resumePrompt.quizAnswers || {}).length;
+        const resumeWhere = resumePrompt.screen === 'devotional'
+            ? 'Reading the devotional'
+            : resumePrompt.screen === 'activity'
+                ? resumeQuestions > 0
+                    ? `Quiz - ${resumeAnswered} of ${resumeQuestions} answered`
+                    : 'Activity'
+                : resumeEpisodes > 1
+                    ? `Episode ${Math.min(resumePrompt.episodeIndex, resumeEpisodes - 1) + 1} of ${resumeEpisodes} at ${formatVideoTime(resumePrompt.videoTime)}`
+                    : `Video at ${formatVideoTime(resumePrompt.videoTime)}`;
+
+        return (
+            <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm px-4">
+                <div className="bg-[#5D4037] rounded-2xl p-6 max-w-sm w-full shadow-2xl border-4 border-[#3E2723] text-center relative">
+                    <button
+                        onClick={() => navigate(-1)}
+                        className="absolute top-3 right-3 text-white/60 hover:text-white p-1 rounded-full hover:bg-white/10 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+
+                    <div className="w-24 h-24 mx-auto mb-4 rounded-full overflow-hidden border-4 border-[#FFD700] shadow-lg bg-[#3E2723] flex items-center justify-center">
+                        {lesson.video?.thumbnail ? (
+                            <img src={lesson.video.thumbnail} alt={lesson.title} className="w-full h-full object-cover" />
+                        ) : (
+                            getLessonIcon(lesson.type || '')
+                        )}
+                    </div>
+
+                    <h3 className="text-[#FFD700] text-xl font-bold font-display mb-1">
+                        Continue where you left off?
+                    </h3>
+                    <p className="text-white/90 text-sm font-semibold mb-3">{lesson.title}</p>
+
+                    <div className="bg-[#3E2723] rounded-lg p-3 border border-[#FFD700]/20 mb-5">
+                        <p className="text-[#FFD700]/80 text-xs">{resumeWhere}</p>
+                    </div>
+
+                    <button
+                        onClick={handleResumeLesson}
+                        className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-[#FFD700] text-[#3E2723] font-bold shadow-lg hover:bg-[#FFC107] transition-colors mb-2"
+                    >
+                        <Play className="w-5 h-5" fill="#3E2723" />
+                        Continue
+                    </button>
+                    <button
+                        onClick={handleStartOver}
+                        className="w-full flex items-center justify-center gap-2 py-3 rounded-xl text-white/80 font-bold hover:bg-white/10 transition-colors"
+                    >
+                        <RotateCcw className="w-4 h-4" />
+                        Start over
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
     const questions = lesson.activity.questions || (lesson.activity.content ? [{
         question: lesson.activity.content,
         options: lesson.activity.options || [],
@@ -1090,6 +1302,16 @@ const LessonPlayerPage: React.FC = () => {
                                     setCurrentScreen('devotional');
                                 }
                             }}
+                            onLoadedMetadata={() => {
+                                // Jump to where a resumed lesson left off
+                                const v = videoRef.current;
+                                if (v && pendingSeekRef.current !== null) {
+                                    if (pendingSeekRef.current < v.duration - 1) {
+                                        v.currentTime = pendingSeekRef.current;
+                                    }
+                                    pendingSeekRef.current = null;
+                                }
+                            }}
                             onCanPlay={() => {
                                 setVideoReady(true);
                             }}
@@ -1741,7 +1963,7 @@ const LessonPlayerPage: React.FC = () => {
                                                         {fromDailySession ? (
                                                             <div className="space-y-3">
                                                                 <button
-                                                                    onClick={() => navigate('/daily-session', { state: { stepCompleted: 'devotional' } })}
+                                                                    onClick={() => navigate('/daily-session', { state: { stepCompleted: 'lesson' } })}
                                                                     className="w-full bg-[#FFD700] hover:bg-[#FFC700] text-[#5D4037] px-6 py-4 rounded-lg font-bold font-display text-xl shadow-lg border-2 border-[#D4A500] transition-transform active:scale-95 flex items-center justify-center gap-2"
                                                                 >
                                                                     <ChevronRight size={24} />
@@ -1778,12 +2000,15 @@ const LessonPlayerPage: React.FC = () => {
                                 ) : (
                                     <div className="flex-1 flex flex-col min-h-0">
                                         <DrawingCanvas
+                                            ref={drawingCanvasRef}
                                             prompt={lesson.activity.content || lesson.activity.reflectionPrompt || 'Draw something that represents what you learned today!'}
                                             enableTutorial={false} // Tutorial should only show in book coloring modal
                                             onComplete={() => {
                                                 setActivityCompleted(true);
                                                 setShowDrawingComplete(true); // Show completion popup
                                                 markCompleted(lessonId!, 0, 0);
+                                                streakService.settle();
+                                                reportProgress(null);
                                                 
                                                 // Track lesson complete analytics
                                                 analyticsService.lessonComplete(lessonId!, lesson?.title);
@@ -1791,6 +2016,18 @@ const LessonPlayerPage: React.FC = () => {
                                                 // Track for Report Card
                                                 activityTrackingService.trackLessonCompleted(lessonId!, lesson?.title || 'Video Lesson');
                                                 
+                                                // Keep the drawing in the kid's gallery
+                                                drawingCanvasRef.current?.exportImage().then(imageDataUrl => {
+                                                    if (!imageDataUrl) return;
+                                                    coloringGalleryService.saveArtwork({
+                                                        pageId: `lesson-${lessonId}`,
+                                                        source: 'lesson',
+                                                        sourceId: lessonId!,
+                                                        sourceTitle: lesson?.title || 'Lesson Drawing',
+                                                        imageDataUrl,
+                                                    });
+                                                });
+                                                
                                                 // Check if this is user's first lesson completion (for paywall prompt)
                                                 const previouslyCompletedLessons = localStorage.getItem('godlykids_completed_lessons');
                                                 const completedLessons = previouslyCompletedLessons ? JSON.parse(previouslyCompletedLessons) : [];
@@ -1844,7 +2081,7 @@ const LessonPlayerPage: React.FC = () => {
                                                             <button
                                                                 onClick={() => {
                                                                     setShowDrawingComplete(false);
-                                                                    navigate('/daily-session', { state: { stepCompleted: 'devotional' } });
+                                                                    navigate('/daily-session', { state: { stepCompleted: 'lesson' } });
                                                                 }}
                                                                 className="bg-[#FFD700] hover:bg-[#FFC700] text-[#5D4037] py-4 rounded-xl font-bold shadow-lg border-b-4 border-[#D4A500] active:border-b-0 active:translate-y-1 transition-all flex items-center justify-center gap-2"
                                                             >
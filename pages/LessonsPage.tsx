@@ -4,22 +4,10 @@ import { ArrowLeft, Play, Lock, Check, Calendar, Book, FlaskConical, Calculator,
 import { ApiService } from '../services/apiService';
 import { isCompleted, isLocked } from '../services/lessonService';
 import { useUser } from '../context/UserContext';
+import { useSyncedDataVersion } from '../hooks/useSyncedDataVersion';
+import type { ApiLesson } from '../shared/api';
 
-interface Lesson {
-    _id: string;
-    title: string;
-    description?: string;
-    type?: string;
-    ageGroup?: '4-6' | '6-8' | '8-10' | '10-12' | 'all';
-    video: {
-        url: string;
-        thumbnail?: string;
-        duration?: number;
-        type?: 'Bible' | 'Science' | 'Math' | 'History' | 'English' | 'Art' | 'Technology';
-    };
-    scheduledDate?: string;
-    coinReward?: number;
-}
+type Lesson = ApiLesson;
 
 // Helper function to check if a kid's age matches a lesson's age group
 const isAgeAppropriate = (kidAge: number | undefined, ageGroup: string | undefined): boolean => {
@@ -67,6 +55,8 @@ const LessonsPage: React.FC = () => {
     const [lessons, setLessons] = useState<Lesson[]>([]);
     const [loading, setLoading] = useState(true);
     const [weekLessons, setWeekLessons] = useState<Map<string, Lesson>>(new Map());
+    // Completed and locked states are read on render - re-render when another device finished a lesson
+    useSyncedDataVersion();
 
     // Get current kid's age for filtering
     const currentKidAge = useMemo(() => {
@@ -445,7 +435,7 @@ const LessonsPage: React.FC = () => {
 
                                                 {/* Type Icon */}
                                                 <div className="absolute top-2 left-2 bg-black/40 backdrop-blur-sm rounded-full p-1.5">
-                                                    {getLessonIcon(lesson.video?.type || 'Bible')}
+                                                    {getLessonIcon(lesson.type || 'Bible')}
                                                 </div>
 
                                                 {/* Age Badge (if not 'all') */}
@@ -5,7 +5,7 @@ import BookCard from '../components/ui/BookCard';
 import Header from '../components/layout/Header';
 import SectionTitle from '../components/ui/SectionTitle';
 import { useBooks } from '../context/BooksContext';
-import { Search, ChevronDown, Music, BookOpen, Clock, Heart, ListMusic, Plus, Trash2 } from 'lucide-react';
+import { Search, ChevronDown, Music, BookOpen, Clock, Heart, ListMusic, Plus, Trash2, HardDrive } from 'lucide-react';
 import { libraryService } from '../services/libraryService';
 import { favoritesService } from '../services/favoritesService';
 import { readingProgressService } from '../services/readingProgressService';
@@ -13,6 +13,8 @@ import { playHistoryService } from '../services/playHistoryService';
 import { getApiBaseUrl } from '../services/apiService';
 import { userPlaylistService, UserPlaylist } from '../services/userPlaylistService';
 import { authService } from '../services/authService';
+import { offlineBookService, formatBytes, OfflineStorageUsage } from '../services/offlineBookService';
+import { useSyncedDataVersion } from '../hooks/useSyncedDataVersion';
 
 const ageOptions = ['All Ages', '3+', '4+', '5+', '6+', '7+', '8+', '9+', '10+'];
 
@@ -25,6 +27,13 @@ interface Playlist {
   items: any[];
 }
 
+interface DownloadedBook {
+  bookId: string;
+  title: string;
+  coverUrl: string;
+  totalBytes: number;
+}
+
 const LibraryPage: React.FC = () => {
   const navigate = useNavigate();
   const { books, loading } = useBooks();
@@ -36,8 +45,12 @@ const LibraryPage: React.FC = () => {
   const [playlistsLoading, setPlaylistsLoading] = useState(true);
   const [userPlaylists, setUserPlaylists] = useState<UserPlaylist[]>([]);
   const [userPlaylistsLoading, setUserPlaylistsLoading] = useState(true);
+  const [downloadedBooks, setDownloadedBooks] = useState<DownloadedBook[]>([]);
+  const [storageUsage, setStorageUsage] = useState<OfflineStorageUsage | null>(null);
   const ageDropdownRef = useRef<HTMLDivElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Favorites and history below are read on every render - re-render when another device changed them
+  useSyncedDataVersion();
   const lastScrollY = useRef(0);
 
   const handleScroll = () => {
@@ -102,6 +115,23 @@ const LibraryPage: React.FC = () => {
     fetchUserPlaylists();
   }, []);
 
+  // Load books downloaded for offline reading (covers come from the local copy)
+  useEffect(() => {
+    const loadDownloads = async () => {
+      const packs = await offlineBookService.getAllPacks();
+      const downloads = await Promise.all(packs.map(async (pack) => ({
+        bookId: pack.bookId,
+        title: pack.title,
+        coverUrl: await offlineBookService.resolveAssetUrl(pack.coverUrl),
+        totalBytes: pack.totalBytes,
+      })));
+      setDownloadedBooks(downloads);
+      setStorageUsage(await offlineBookService.getStorageUsage());
+    };
+    loadDownloads();
+    return offlineBookService.subscribe(loadDownloads);
+  }, []);
+
   // Close age dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -179,8 +209,19 @@ const LibraryPage: React.FC = () => {
     ? userPlaylists.filter(p => p.name.toLowerCase().includes(searchQuery.toLowerCase()))
     : userPlaylists;
 
+  const filteredDownloadedBooks = searchQuery
+    ? downloadedBooks.filter(b => b.title.toLowerCase().includes(searchQuery.toLowerCase()))
+    : downloadedBooks;
+
   const isLoading = loading || playlistsLoading || userPlaylistsLoading;
 
+  // Delete a downloaded book from the device
+  const handleDeleteDownload = async (download: DownloadedBook, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!confirm(`Remove "${download.title}" from this device? You can download it again anytime.`)) return;
+    await offlineBookService.deleteBook(download.bookId);
+  };
+
   // Delete a user playlist
   const handleDeleteUserPlaylist = async (playlistId: string, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -264,6 +305,49 @@ const LibraryPage: React.FC = () => {
     </div>
   );
 
+  // Render downloaded books (available without connectivity)
+  const renderDownloadedRow = () => (
+    <div className="w-screen overflow-x-auto no-scrollbar pb-4 -mx-4">
+      <div className="flex space-x-3 px-4">
+        {filteredDownloadedBooks.map(download => (
+          <div
+            key={download.bookId}
+            className="flex-shrink-0 w-[42vw] md:w-[30vw] lg:w-[23vw] max-w-[200px] cursor-pointer relative"
+            onClick={() => navigate(`/read/${download.bookId}`)}
+          >
+            <div className="bg-white/10 backdrop-blur-sm rounded-2xl overflow-hidden shadow-lg border-2 border-white/20 active:scale-95 transition-transform">
+              <div className="aspect-square bg-gradient-to-br from-[#8B4513] to-[#5c2e0b] relative overflow-hidden">
+                {download.coverUrl ? (
+                  <img
+                    src={download.coverUrl}
+                    alt={download.title}
+                    className="w-full h-full object-cover"
+                    loading="lazy"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <BookOpen className="w-16 h-16 text-white/60" />
+                  </div>
+                )}
+                <button
+                  onClick={(e) => handleDeleteDownload(download, e)}
+                  className="absolute top-2 right-2 w-8 h-8 bg-black/60 backdrop-blur-sm rounded-full flex items-center justify-center active:scale-90 transition-transform"
+                  aria-label={`Remove ${download.title} download`}
+                >
+                  <Trash2 className="w-4 h-4 text-white" />
+                </button>
+              </div>
+              <div className="p-3">
+                <h3 className="text-white font-bold text-sm truncate">{download.title}</h3>
+                <p className="text-white/40 text-xs mt-1">{formatBytes(download.totalBytes)}</p>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
   // Render a horizontal scrollable row of playlist cards
   const renderPlaylistRow = (playlistList: Playlist[]) => (
     <div className="w-screen overflow-x-auto no-scrollbar pb-4 -mx-4">
@@ -384,6 +468,29 @@ const LibraryPage: React.FC = () => {
               {renderUserPlaylistRow()}
             </section>
 
+            {/* Downloaded Books Section - readable without connectivity */}
+            {filteredDownloadedBooks.length > 0 && (
+              <section className="mb-6">
+                <SectionTitle 
+                  title="Downloaded" 
+                  icon="📥"
+                  color="#FF9800"
+                />
+                {storageUsage && (
+                  <div className="flex items-center gap-2 text-white/70 text-xs mb-3 -mt-1">
+                    <HardDrive className="w-4 h-4" />
+                    <span>
+                      {formatBytes(storageUsage.booksBytes)} used by {downloadedBooks.length} book{downloadedBooks.length === 1 ? '' : 's'}
+                      {storageUsage.quota !== undefined && storageUsage.usage !== undefined && (
+                        <> · {formatBytes(Math.max(0, storageUsage.quota - storageUsage.usage))} free</>
+                      )}
+                    </span>
+                  </div>
+                )}
+                {renderDownloadedRow()}
+              </section>
+            )}
+
             {/* Favorite Books Section */}
             {filteredFavoriteBooks.length > 0 && (
               <section className="mb-6">
@@ -433,7 +540,8 @@ const LibraryPage: React.FC = () => {
             )}
 
             {/* Empty backpack message - show only when there's nothing except My Playlists */}
-            {filteredFavoriteBooks.length === 0 && 
+            {filteredDownloadedBooks.length === 0 &&
+             filteredFavoriteBooks.length === 0 && 
              filteredFavoritePlaylists.length === 0 && 
              filteredRecentBooks.length === 0 && 
              filteredRecentPlaylists.length === 0 && (
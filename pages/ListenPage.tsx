@@ -10,6 +10,7 @@ import { Search, Music, ChevronDown, Lock, BookOpen, Heart, Sparkles, TreePine,
 import PremiumBadge from '../components/ui/PremiumBadge';
 import { getApiBaseUrl, ApiService } from '../services/apiService';
 import StormySeaError from '../components/ui/StormySeaError';
+import { useParentalControls } from '../hooks/useParentalControls';
 
 const ageOptions = ['All Ages', '3+', '4+', '5+', '6+', '7+', '8+', '9+', '10+'];
 
@@ -54,6 +55,7 @@ const ListenPage: React.FC = () => {
   const navigate = useNavigate();
   const { books, loading, error: booksError, refreshBooks } = useBooks();
   const { isSubscribed } = useUser();
+  const { isContentAllowed, filterContent } = useParentalControls();
   const { isTutorialActive, isStepActive, nextStep } = useTutorial();
   const [isHeaderVisible, setIsHeaderVisible] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
@@ -170,8 +172,9 @@ const ListenPage: React.FC = () => {
     }
   }, [showAgeDropdown]);
 
-  // Filter for audio books
-  const audioBooks = books.filter(b => b.isAudio);
+  // Filter for audio books (and hide anything Parental Controls filters out)
+  const audioBooks = books.filter(b => b.isAudio && isContentAllowed(b));
+  const allowedPlaylists = filterContent<Playlist>(playlists);
 
   // Filter by category (supports both single category and categories array)
   const categoryFilteredBooks = selectedCategory === 'All'
@@ -185,8 +188,8 @@ const ListenPage: React.FC = () => {
       });
 
   const categoryFilteredPlaylists = selectedCategory === 'All'
-    ? playlists
-    : playlists.filter(p => {
+    ? allowedPlaylists
+    : allowedPlaylists.filter(p => {
         // Check if playlist has categories array or single category
         const playlistCategories = (p as any).categories && Array.isArray((p as any).categories) 
           ? (p as any).categories 
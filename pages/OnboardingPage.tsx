@@ -2181,6 +2181,7 @@ const OnboardingPage: React.FC = () => {
             isOpen={showParentGate} 
             onClose={() => setShowParentGate(false)} 
             onSuccess={handleGateSuccess} 
+            purpose="subscription"
         />
         
         {/* Parent Gate Modal for Family Step Unlock */}
@@ -2188,6 +2189,7 @@ const OnboardingPage: React.FC = () => {
             isOpen={showFamilyParentGate} 
             onClose={() => setShowFamilyParentGate(false)} 
             onSuccess={handleFamilyGateSuccess} 
+            purpose="settings"
         />
 
         {/* Full-screen Purchase Processing Overlay */}
@@ -889,6 +889,7 @@ const PaywallPage: React.FC = () => {
           isOpen={showParentGate} 
           onClose={() => setShowParentGate(false)} 
           onSuccess={handleGateSuccess} 
+          purpose="subscription"
         />
 
         {/* Account Required Modal */}
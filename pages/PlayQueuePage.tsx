@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Reorder, useDragControls } from 'framer-motion';
+import { ChevronLeft, GripVertical, X, Music, BookOpen, Shuffle, Repeat, Repeat1, ListMusic } from 'lucide-react';
+import { useAudio } from '../context/AudioContext';
+import { ResolvedQueueEntry, resolveEntry } from '../utils/playQueue';
+
+const TrackArt: React.FC<{ resolved: ResolvedQueueEntry; size: string }> = ({ resolved, size }) => {
+    const cover = resolved.item.coverImage || resolved.playlist.coverImage;
+    return (
+        <div className={`${size} rounded-lg overflow-hidden bg-white/10 flex-shrink-0`}>
+            {cover ? (
+                <img src={cover} alt="" className="w-full h-full object-cover" />
+            ) : (
+                <div className="w-full h-full flex items-center justify-center">
+                    {resolved.playlist.type === 'Audiobook' ? (
+                        <BookOpen className="w-5 h-5 text-white/30" />
+                    ) : (
+                        <Music className="w-5 h-5 text-white/30" />
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const TrackText: React.FC<{ resolved: ResolvedQueueEntry; highlight?: boolean }> = ({ resolved, highlight }) => (
+    <div className="flex-1 min-w-0">
+        <p className={`font-medium truncate ${highlight ? 'text-amber-300' : 'text-white'}`}>{resolved.item.title}</p>
+        <p className="text-white/50 text-xs truncate">
+            {resolved.playlist.type === 'Audiobook' ? '📖' : '🎵'} {resolved.playlist.title}
+        </p>
+    </div>
+);
+
+// One draggable "up next" row - dragged by its handle so the list still scrolls on touch
+const UpNextRow: React.FC<{
+    resolved: ResolvedQueueEntry;
+    onPlay: () => void;
+    onRemove: () => void;
+    onDragEnd: () => void;
+}> = ({ resolved, onPlay, onRemove, onDragEnd }) => {
+    const dragControls = useDragControls();
+
+    return (
+        <Reorder.Item
+            value={resolved.entry.queueId}
+            dragListener={false}
+            dragControls={dragControls}
+            onDragEnd={onDragEnd}
+            className="flex items-center gap-3 p-2 pr-1 rounded-xl bg-white/5 select-none"
+        >
+            <div
+                onPointerDown={(e) => dragControls.start(e)}
+                className="p-1 text-white/40 cursor-grab active:cursor-grabbing touch-none"
+            >
+                <GripVertical className="w-5 h-5" />
+            </div>
+            <div onClick={onPlay} className="flex-1 min-w-0 flex items-center gap-3 cursor-pointer">
+                <TrackArt resolved={resolved} size="w-11 h-11" />
+                <TrackText resolved={resolved} />
+            </div>
+            <button onClick={onRemove} className="p-2 rounded-full hover:bg-red-500/30 transition-colors" title="Remove from queue">
+                <X className="w-4 h-4 text-red-400" />
+            </button>
+        </Reorder.Item>
+    );
+};
+
+/**
+ * Play Queue
+ * What's playing now and what plays next, across every playlist that's been queued.
+ * Up-next tracks can be dragged into a new order, jumped to or removed.
+ */
+const PlayQueuePage: React.FC = () => {
+    const navigate = useNavigate();
+    const {
+        queue,
+        isPlaying,
+        reorderQueue,
+        removeFromQueue,
+        jumpToQueueItem,
+        clearQueue,
+        toggleShuffle,
+        cycleRepeatMode,
+    } = useAudio();
+
+    const resolveAll = (from: number, to?: number) =>
+        queue.entries
+            .slice(from, to)
+            .map(entry => resolveEntry(queue, entry))
+            .filter((r): r is ResolvedQueueEntry => !!r);
+
+    const current = queue.position >= 0 ? resolveAll(queue.position, queue.position + 1)[0] : undefined;
+    const played = resolveAll(0, Math.max(0, queue.position));
+    const upcoming = resolveAll(queue.position + 1);
+
+    // Drag order is kept locally while dragging and handed to the queue when a drag ends
+    const [upcomingOrder, setUpcomingOrder] = useState<string[]>(upcoming.map(r => r.entry.queueId));
+    const upcomingKey = upcoming.map(r => r.entry.queueId).join(',');
+    useEffect(() => {
+        setUpcomingOrder(upcomingKey ? upcomingKey.split(',') : []);
+    }, [upcomingKey]);
+
+    const upcomingById = new Map(upcoming.map(r => [r.entry.queueId, r]));
+    const RepeatIcon = queue.repeat === 'one' ? Repeat1 : Repeat;
+
+    return (
+        <div className="min-h-screen bg-gradient-to-b from-[#1a0f05] to-[#2d1809] flex flex-col">
+            {/* Header */}
+            <div className="sticky top-0 z-50 bg-gradient-to-b from-[#2d1809] to-[#2d1809]/90 px-4 py-3">
+                <div className="flex items-center justify-between">
+                    <button
+                        onClick={() => navigate(-1)}
+                        className="p-2 rounded-full bg-black/30 hover:bg-black/50 transition-colors"
+                    >
+                        <ChevronLeft className="w-6 h-6 text-white" />
+                    </button>
+                    <h1 className="text-white font-display font-bold text-lg mx-4 flex-1 text-center">Up Next</h1>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={toggleShuffle}
+                            className={`p-2 rounded-full transition-colors ${queue.shuffle ? 'bg-amber-500 text-[#2d1809]' : 'bg-black/30 text-white'}`}
+                            title={queue.shuffle ? 'Shuffle on' : 'Shuffle off'}
+                        >
+                            <Shuffle className="w-5 h-5" />
+                        </button>
+                        <button
+                            onClick={cycleRepeatMode}
+                            className={`p-2 rounded-full transition-colors ${queue.repeat !== 'off' ? 'bg-amber-500 text-[#2d1809]' : 'bg-black/30 text-white'}`}
+                            title={queue.repeat === 'one' ? 'Repeat this track' : queue.repeat === 'all' ? 'Repeat queue' : 'Repeat off'}
+                        >
+                            <RepeatIcon className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex-1 w-full max-w-md mx-auto px-4 pt-2 pb-16">
+                {!current ? (
+                    <div className="text-center py-16">
+                        <ListMusic className="w-16 h-16 text-white/20 mx-auto mb-3" />
+                        <p className="text-white/60 font-bold">Nothing is playing</p>
+                        <p className="text-white/40 text-sm mt-1">Play a song or audiobook and it will show up here</p>
+                    </div>
+                ) : (
+                    <>
+                        {/* Now Playing */}
+                        <h3 className="text-white/70 text-sm font-bold mb-2 uppercase tracking-wider">Now Playing</h3>
+                        <div className="flex items-center gap-3 p-3 rounded-xl bg-amber-600/30 border border-amber-500/50 mb-6">
+                            <TrackArt resolved={current} size="w-14 h-14" />
+                            <TrackText resolved={current} highlight />
+                            {isPlaying && (
+                                <div className="flex gap-0.5 pr-2">
+                                    <div className="w-1 h-4 bg-amber-400 animate-pulse" style={{ animationDelay: '0ms' }} />
+                                    <div className="w-1 h-4 bg-amber-400 animate-pulse" style={{ animationDelay: '150ms' }} />
+                                    <div className="w-1 h-4 bg-amber-400 animate-pulse" style={{ animationDelay: '300ms' }} />
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Up Next */}
+                        <div className="flex items-center justify-between mb-2">
+                            <h3 className="text-white/70 text-sm font-bold uppercase tracking-wider">
+                                Up Next ({upcoming.length})
+                            </h3>
+                            {upcoming.length > 0 && (
+                                <button onClick={clearQueue} className="text-xs font-bold text-amber-400 hover:text-amber-300">
+                                    Clear
+                                </button>
+                            )}
+                        </div>
+
+                        {upcoming.length === 0 ? (
+                            <p className="text-white/40 text-sm text-center py-6 bg-white/5 rounded-xl mb-6">
+                                {queue.repeat === 'all' ? 'The queue starts over after this track' : 'Nothing queued after this track'}
+                            </p>
+                        ) : (
+                            <Reorder.Group axis="y" values={upcomingOrder} onReorder={setUpcomingOrder} className="space-y-2 mb-6">
+                                {upcomingOrder.map(queueId => {
+                                    const resolved = upcomingById.get(queueId);
+                                    if (!resolved) return null;
+                                    return (
+                                        <UpNextRow
+                                            key={queueId}
+                                            resolved={resolved}
+                                            onPlay={() => jumpToQueueItem(queueId)}
+                                            onRemove={() => removeFromQueue(queueId)}
+                                            onDragEnd={() => reorderQueue(upcomingOrder)}
+                                        />
+                                    );
+                                })}
+                            </Reorder.Group>
+                        )}
+
+                        {/* Already played (tap to go back to one) */}
+                        {played.length > 0 && (
+                            <>
+                                <h3 className="text-white/40 text-sm font-bold mb-2 uppercase tracking-wider">Played</h3>
+                                <div className="space-y-2 opacity-60">
+                                    {played.map(resolved => (
+                                        <div
+                                            key={resolved.entry.queueId}
+                                            onClick={() => jumpToQueueItem(resolved.entry.queueId)}
+                                            className="flex items-center gap-3 p-2 rounded-xl bg-white/5 cursor-pointer"
+                                        >
+                                            <TrackArt resolved={resolved} size="w-10 h-10" />
+                                            <TrackText resolved={resolved} />
+                                        </div>
+                                    ))}
+                                </div>
+                            </>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PlayQueuePage;
@@ -1,6 +1,6 @@
 import React, { useEffect, useState, useRef, useMemo } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { ChevronLeft, Crown, Play, Pause, Music, Headphones, Heart, Bookmark, Hammer, Wrench, Lock, Check, Share2 } from 'lucide-react';
+import { ChevronLeft, Crown, Play, Pause, Music, Headphones, Heart, Bookmark, Hammer, Wrench, Lock, Check, Share2, ListEnd } from 'lucide-react';
 import { getApiBaseUrl } from '../services/apiService';
 import { favoritesService } from '../services/favoritesService';
 import { useAudio } from '../context/AudioContext';
@@ -174,7 +174,7 @@ const PlaylistDetailPage: React.FC = () => {
         const match = rawPlaylistId.match(/^[a-f0-9]{24}/i);
         return match ? match[0] : rawPlaylistId.split('%')[0];
     }, [rawPlaylistId]);
-    const { currentPlaylist, currentTrackIndex, isPlaying, togglePlayPause, playPlaylist } = useAudio();
+    const { currentPlaylist, currentTrackIndex, isPlaying, togglePlayPause, playPlaylist, addToQueue } = useAudio();
     const { t, translateText, currentLanguage } = useLanguage();
     const { isSubscribed } = useUser();
     const [playlist, setPlaylist] = useState<Playlist | null>(null);
@@ -186,6 +186,7 @@ const PlaylistDetailPage: React.FC = () => {
     const [playCount, setPlayCount] = useState(0);
     const [translatedTitle, setTranslatedTitle] = useState<string>('');
     const [translatedDescription, setTranslatedDescription] = useState<string>('');
+    const [queuedMessage, setQueuedMessage] = useState<string | null>(null);
     
     // Track mounted state to prevent state updates after unmount
     const isMountedRef = useRef(true);
@@ -401,6 +402,14 @@ const PlaylistDetailPage: React.FC = () => {
         }
     };
     
+    // Add the whole playlist (or one item) to the end of the play queue
+    const handleAddToQueue = (itemIndex?: number) => {
+        if (!playlist) return;
+        addToQueue(playlist, itemIndex);
+        setQueuedMessage(itemIndex === undefined ? `Added ${playlist.items.length} to queue` : 'Added to queue');
+        setTimeout(() => setQueuedMessage(null), 1800);
+    };
+    
     // Check if a specific track is currently playing
     const isTrackPlaying = (itemIndex: number): boolean => {
         return isThisPlaylistPlaying && currentTrackIndex === itemIndex && isPlaying;
@@ -589,6 +598,16 @@ const PlaylistDetailPage: React.FC = () => {
                                 <span className="text-xs sm:text-sm font-bold">{t('share') || 'Share'}</span>
                             </button>
 
+                            {/* Add to Queue Button */}
+                            <button
+                                onClick={() => handleAddToQueue()}
+                                className="flex items-center gap-1 sm:gap-2 px-2 sm:px-4 py-1.5 sm:py-2 rounded-full border-2 border-[#d4c5a0] bg-[#fdf6e3] text-[#8B4513] transition-all active:scale-95 hover:bg-[#e8d99f]"
+                                title="Add to queue"
+                            >
+                                <ListEnd className="w-4 h-4 sm:w-[18px] sm:h-[18px]" />
+                                <span className="text-xs sm:text-sm font-bold">Queue</span>
+                            </button>
+
                             {/* View Counter */}
                             <button 
                                 onClick={(e) => e.stopPropagation()}
@@ -602,6 +621,13 @@ const PlaylistDetailPage: React.FC = () => {
                 </div>
             </div>
 
+            {/* Queue confirmation */}
+            {queuedMessage && (
+                <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-full bg-[#3E1F07] text-[#FFD700] text-sm font-bold shadow-lg">
+                    {queuedMessage}
+                </div>
+            )}
+
             {/* CONTENT SECTION - Learning Path Style */}
             <div 
                 className="w-full pb-32 relative"
@@ -838,6 +864,18 @@ const PlaylistDetailPage: React.FC = () => {
                                             {isCurrent && trackPlaying && (
                                                 <p className="text-xs text-[#FFD700] font-bold mt-1">♪ Playing</p>
                                             )}
+                                            {!isCurrent && !itemIsLocked && (
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        handleAddToQueue(index);
+                                                    }}
+                                                    className="flex items-center gap-1 text-[10px] font-bold text-[#5DADE2] mt-1"
+                                                >
+                                                    <ListEnd className="w-3 h-3" />
+                                                    Queue
+                                                </button>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
@@ -1,12 +1,15 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { ChevronLeft, Pause, Play, SkipBack, SkipForward, Music, Heart, RotateCcw, ListPlus, BookOpen, Share2, Crown } from 'lucide-react';
+import { ChevronLeft, Pause, Play, SkipBack, SkipForward, Music, Heart, RotateCcw, ListPlus, BookOpen, Share2, Crown, Moon, Shuffle, Repeat, Repeat1, ListOrdered, Blend } from 'lucide-react';
 import { favoritesService } from '../services/favoritesService';
 import { getApiBaseUrl } from '../services/apiService';
 import { playCountService } from '../services/playCountService';
 import { useAudio, Playlist } from '../context/AudioContext';
 import { useUser } from '../context/UserContext';
 import AddToPlaylistModal from '../components/features/AddToPlaylistModal';
+import SleepTimerSheet, { formatSleepRemaining } from '../components/audio/SleepTimerSheet';
+import { PLAYBACK_RATES } from '../services/listeningPositionService';
+import { CROSSFADE_OPTIONS } from '../services/playQueueService';
 
 // CSS for the pulse/heartbeat animation synced with music
 const pulseStyles = `
@@ -117,7 +120,20 @@ const PlaylistPlayerPage: React.FC = () => {
         isPreviewMode,
         previewLimitReached,
         previewTimeRemaining,
-        dismissPreviewLimit
+        dismissPreviewLimit,
+        playbackRate,
+        setPlaybackRate,
+        sleepTimer,
+        setSleepTimer,
+        resumedFrom,
+        restartTrack,
+        queue,
+        hasNext,
+        hasPrev,
+        toggleShuffle,
+        cycleRepeatMode,
+        crossfadeSeconds,
+        setCrossfadeSeconds
     } = useAudio();
     const { isSubscribed } = useUser();
 
@@ -126,6 +142,7 @@ const PlaylistPlayerPage: React.FC = () => {
     const [playCount, setPlayCount] = useState(0);
     const [isLiked, setIsLiked] = useState(false);
     const [showAddToPlaylist, setShowAddToPlaylist] = useState(false);
+    const [showSleepTimer, setShowSleepTimer] = useState(false);
     const hasIncrementedPlayCountRef = useRef(false);
     const [audioLevel, setAudioLevel] = useState(0); // For dynamic pulse intensity
 
@@ -171,6 +188,15 @@ const PlaylistPlayerPage: React.FC = () => {
         fetchPlaylistData();
     }, [playlistId, itemIndex]); // Re-run if ID or Index changes
 
+    // Keep the URL on the track that's actually playing - the queue moves on by itself,
+    // possibly into another playlist, and a stale URL would restart the old track on return
+    useEffect(() => {
+        if (loading || !currentPlaylist) return;
+        if (currentPlaylist._id !== playlistId || String(currentTrackIndex) !== itemIndex) {
+            navigate(`/audio/playlist/${currentPlaylist._id}/play/${currentTrackIndex}`, { replace: true });
+        }
+    }, [loading, currentPlaylist?._id, currentTrackIndex]);
+
     // Update local state when track changes
     useEffect(() => {
         const playlistToUse = currentPlaylist || localPlaylist;
@@ -220,6 +246,18 @@ const PlaylistPlayerPage: React.FC = () => {
         togglePlayPause();
     };
 
+    // Step through the audiobook speeds, wrapping back to the slowest
+    const handleCycleSpeed = () => {
+        const index = PLAYBACK_RATES.indexOf(playbackRate);
+        setPlaybackRate(PLAYBACK_RATES[(index + 1) % PLAYBACK_RATES.length]);
+    };
+
+    // Step through the crossfade lengths, wrapping back to none
+    const handleCycleCrossfade = () => {
+        const index = CROSSFADE_OPTIONS.indexOf(crossfadeSeconds);
+        setCrossfadeSeconds(CROSSFADE_OPTIONS[(index + 1) % CROSSFADE_OPTIONS.length]);
+    };
+
     const handleLike = () => {
         const playlistToUse = currentPlaylist || localPlaylist;
         if (!playlistToUse || !playlistToUse.items[currentTrackIndex]) return;
@@ -506,6 +544,78 @@ const PlaylistPlayerPage: React.FC = () => {
                             {activePlaylist.title} • Track {currentTrackIndex + 1}/{activePlaylist.items.length}
                         </p>
                     </div>
+
+                    {/* Queue, shuffle and repeat, plus bedtime controls - sleep timer, audiobook speed and resume */}
+                    <div className="mt-3 flex flex-wrap items-center justify-center gap-2">
+                        <button
+                            onClick={toggleShuffle}
+                            className={`w-8 h-8 rounded-full border flex items-center justify-center backdrop-blur-md transition-colors active:scale-95 ${
+                                queue.shuffle ? 'bg-[#FFD700] border-[#FFD700] text-[#3E1F07]' : 'bg-black/30 border-white/20 text-white/90'
+                            }`}
+                            title={queue.shuffle ? 'Shuffle on' : 'Shuffle off'}
+                        >
+                            <Shuffle size={14} />
+                        </button>
+
+                        <button
+                            onClick={cycleRepeatMode}
+                            className={`w-8 h-8 rounded-full border flex items-center justify-center backdrop-blur-md transition-colors active:scale-95 ${
+                                queue.repeat !== 'off' ? 'bg-[#FFD700] border-[#FFD700] text-[#3E1F07]' : 'bg-black/30 border-white/20 text-white/90'
+                            }`}
+                            title={queue.repeat === 'one' ? 'Repeat this track' : queue.repeat === 'all' ? 'Repeat queue' : 'Repeat off'}
+                        >
+                            {queue.repeat === 'one' ? <Repeat1 size={14} /> : <Repeat size={14} />}
+                        </button>
+
+                        <button
+                            onClick={() => navigate('/audio/queue')}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-xs font-bold backdrop-blur-md bg-black/30 border-white/20 text-white/90 transition-colors active:scale-95"
+                        >
+                            <ListOrdered size={14} />
+                            Up next ({Math.max(0, queue.entries.length - queue.position - 1)})
+                        </button>
+
+                        <button
+                            onClick={() => setShowSleepTimer(true)}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-xs font-bold backdrop-blur-md transition-colors active:scale-95 ${
+                                sleepTimer ? 'bg-[#FFD700] border-[#FFD700] text-[#3E1F07]' : 'bg-black/30 border-white/20 text-white/90'
+                            }`}
+                        >
+                            <Moon size={14} fill={sleepTimer ? 'currentColor' : 'none'} />
+                            {sleepTimer ? formatSleepRemaining(sleepTimer) : 'Sleep timer'}
+                        </button>
+
+                        {activePlaylist.type === 'Audiobook' && (
+                            <button
+                                onClick={handleCycleSpeed}
+                                className="px-3 py-1.5 rounded-full border text-xs font-bold backdrop-blur-md bg-black/30 border-white/20 text-white/90 transition-colors active:scale-95"
+                                title="Playback speed"
+                            >
+                                {playbackRate}x
+                            </button>
+                        )}
+
+                        {activePlaylist.type !== 'Audiobook' && (
+                            <button
+                                onClick={handleCycleCrossfade}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-xs font-bold backdrop-blur-md bg-black/30 border-white/20 text-white/90 transition-colors active:scale-95"
+                                title="Crossfade between songs"
+                            >
+                                <Blend size={14} />
+                                {crossfadeSeconds > 0 ? `Crossfade ${crossfadeSeconds}s` : 'No crossfade'}
+                            </button>
+                        )}
+
+                        {resumedFrom !== null && (
+                            <button
+                                onClick={restartTrack}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-xs font-bold backdrop-blur-md bg-black/30 border-white/20 text-white/90 transition-colors active:scale-95"
+                            >
+                                <RotateCcw size={14} />
+                                Resumed at {formatTime(resumedFrom)} · Start over
+                            </button>
+                        )}
+                    </div>
                     
                     {/* Premium Preview Banner - show for non-subscribed users */}
                     {!isSubscribed && (
@@ -583,7 +693,7 @@ const PlaylistPlayerPage: React.FC = () => {
                     {/* Previous Track */}
                     <button
                         onClick={prevTrack}
-                        disabled={currentTrackIndex === 0}
+                        disabled={!hasPrev}
                         className="text-[#f3e5ab] hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors transform active:scale-90"
                     >
                         <SkipBack size={28} className="sm:w-8 sm:h-8" fill="currentColor" />
@@ -624,7 +734,7 @@ const PlaylistPlayerPage: React.FC = () => {
                     {/* Next Track */}
                     <button
                         onClick={nextTrack}
-                        disabled={!activePlaylist || currentTrackIndex === activePlaylist.items.length - 1}
+                        disabled={!hasNext}
                         className="text-[#f3e5ab] hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors transform active:scale-90"
                     >
                         <SkipForward size={28} className="sm:w-8 sm:h-8" fill="currentColor" />
@@ -645,6 +755,14 @@ const PlaylistPlayerPage: React.FC = () => {
                 />
             )}
             
+            {/* Sleep Timer */}
+            <SleepTimerSheet
+                isOpen={showSleepTimer}
+                onClose={() => setShowSleepTimer(false)}
+                sleepTimer={sleepTimer}
+                onSelect={setSleepTimer}
+            />
+            
             {/* Premium Preview Limit Modal */}
             {previewLimitReached && (
                 <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in duration-300">
@@ -6,6 +6,7 @@ import WoodButton from '../components/ui/WoodButton';
 import ShopModal from '../components/features/ShopModal';
 import { useUser } from '../context/UserContext';
 import { useLanguage } from '../context/LanguageContext';
+import { useParentalControls } from '../hooks/useParentalControls';
 import { AVATAR_ASSETS } from '../components/avatar/AvatarAssets';
 
 // Helper for random color backgrounds for kid profiles
@@ -22,6 +23,8 @@ const ProfileSelectionPage: React.FC = () => {
   
   const [isShopOpen, setIsShopOpen] = useState(false);
   const { t } = useLanguage();
+  const { controls: parentalControls } = useParentalControls();
+  const isShopDisabled = !!parentalControls?.disableShop;
   
   // Open shop if requested via navigation state
   useEffect(() => {
@@ -188,6 +191,7 @@ const ProfileSelectionPage: React.FC = () => {
              <WoodButton variant="light" fullWidth className="text-sm py-3 rounded-xl border-b-4 shadow-lg" onClick={() => navigate('/edit-profile')}>
                 {t('editProfile').toUpperCase()}
              </WoodButton>
+             {!isShopDisabled && (
              <WoodButton 
                 variant="gold" 
                 fullWidth 
@@ -197,10 +201,11 @@ const ProfileSelectionPage: React.FC = () => {
                 <ShoppingBag size={20} />
                 {t('visitShop').toUpperCase()}
              </WoodButton>
+             )}
           </div>
           
           <ShopModal 
-            isOpen={isShopOpen} 
+            isOpen={isShopOpen && !isShopDisabled} 
             onClose={() => setIsShopOpen(false)}
             initialTab={location.state?.shopTab || undefined}
           />
@@ -9,6 +9,7 @@ import { useUser } from '../context/UserContext';
 import { ApiService } from '../services/apiService';
 import { Search, ChevronDown, BookOpen, Heart, Sparkles, TreePine, Sword, Star, Book, Users, Crown, Compass, Smile, Castle } from 'lucide-react';
 import PremiumBadge from '../components/ui/PremiumBadge';
+import { useParentalControls } from '../hooks/useParentalControls';
 
 const ageOptions = ['All Ages', '3+', '4+', '5+', '6+', '7+', '8+', '9+', '10+'];
 
@@ -82,6 +83,7 @@ const ReadPage: React.FC = () => {
   const navigate = useNavigate();
   const { books, loading } = useBooks();
   const { isSubscribed } = useUser();
+  const { isContentAllowed } = useParentalControls();
   const [isHeaderVisible, setIsHeaderVisible] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedAge, setSelectedAge] = useState<string>('All Ages');
@@ -172,9 +174,11 @@ const ReadPage: React.FC = () => {
     }
   }, [showAgeDropdown]);
 
-  // Filter for reading books (not strictly audio only) and exclude books that are part of a series
+  // Filter for reading books (not strictly audio only), drop anything Parental Controls hides,
+  // and exclude books that are part of a series
   const readingBooks = books.filter(b => {
     if (b.isAudio) return false;
+    if (!isContentAllowed(b)) return false;
     // Exclude books that are part of a series
     const bookId = b.id || (b as any)._id;
     if (booksInSeries.has(bookId)) return false;
@@ -193,9 +197,10 @@ const ReadPage: React.FC = () => {
       });
 
   // Filter series by category
+  const allowedSeries = bookSeries.filter(s => isContentAllowed(s));
   const categoryFilteredSeries = selectedCategory === 'All'
-    ? bookSeries
-    : bookSeries.filter(s => {
+    ? allowedSeries
+    : allowedSeries.filter(s => {
         const seriesCategories = s.categories && Array.isArray(s.categories) 
           ? s.categories 
           : (s.category ? [s.category] : []);
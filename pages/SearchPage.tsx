@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, X, Clock, BookOpen, Library, ListMusic, Music, GraduationCap, Lock, ArrowLeft } from 'lucide-react';
+import { useBooks } from '../context/BooksContext';
+import { useUser } from '../context/UserContext';
+import { useSubscription } from '../context/SubscriptionContext';
+import { searchService, SearchResult, SearchResultType } from '../services/searchService';
+import PremiumBadge from '../components/ui/PremiumBadge';
+
+const GROUP_CONFIG: Record<SearchResultType, { label: string; icon: any }> = {
+  book: { label: 'Books', icon: BookOpen },
+  series: { label: 'Book Series', icon: Library },
+  playlist: { label: 'Playlists', icon: ListMusic },
+  episode: { label: 'Episodes', icon: Music },
+  lesson: { label: 'Lessons', icon: GraduationCap },
+};
+
+const MATCH_LABELS: Partial<Record<SearchResult['matchedField'], string>> = {
+  author: 'Author',
+  text: 'In the story',
+  items: 'Episodes',
+  description: 'Description',
+};
+
+const SearchResultRow: React.FC<{ result: SearchResult; isLocked: boolean; onClick: () => void }> = ({ result, isLocked, onClick }) => {
+  const { doc, matchedField, snippet } = result;
+  const Icon = GROUP_CONFIG[doc.type].icon;
+
+  return (
+    <button
+      onClick={onClick}
+      className="w-full flex items-center gap-3 p-2 rounded-xl bg-black/20 hover:bg-black/30 border border-white/10 transition-colors text-left"
+    >
+      <div className="relative w-14 h-14 rounded-lg overflow-hidden flex-shrink-0 bg-gradient-to-br from-[#8B4513] to-[#5D2E0F] flex items-center justify-center">
+        {doc.coverUrl ? (
+          <img src={doc.coverUrl} alt={doc.title} className={`w-full h-full object-cover ${isLocked ? 'brightness-75' : ''}`} loading="lazy" />
+        ) : (
+          <Icon className="w-6 h-6 text-white/70" />
+        )}
+        {isLocked && (
+          <div className="absolute inset-0 bg-black/30 flex items-center justify-center">
+            <Lock size={16} className="text-[#FFD700]" />
+          </div>
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <h3 className="text-white font-display font-bold text-sm truncate">{doc.title}</h3>
+          {isLocked && <PremiumBadge showLabel={false} className="flex-shrink-0" />}
+        </div>
+        {doc.author && <p className="text-white/70 text-xs truncate">{doc.author}</p>}
+        {snippet && (
+          <p className="text-white/60 text-xs line-clamp-2 mt-0.5">
+            {MATCH_LABELS[matchedField] && <span className="text-[#FFD700]/80 font-semibold">{MATCH_LABELS[matchedField]}: </span>}
+            {snippet}
+          </p>
+        )}
+      </div>
+    </button>
+  );
+};
+
+const SearchPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { books } = useBooks();
+  const { isSubscribed, currentProfileId } = useUser();
+  const { isPremium } = useSubscription();
+  const canAccessPremium = isSubscribed || isPremium;
+
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [recentSearches, setRecentSearches] = useState<string[]>(() => searchService.getRecentSearches());
+  const [isIndexing, setIsIndexing] = useState(!searchService.hasIndex());
+  const [indexVersion, setIndexVersion] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Recent searches are stored per profile
+  useEffect(() => {
+    setRecentSearches(searchService.getRecentSearches());
+  }, [currentProfileId]);
+
+  // Re-run the query whenever the index changes (fresh content, newly indexed book pages)
+  useEffect(() => searchService.subscribe(() => setIndexVersion(v => v + 1)), []);
+
+  // Build the index from the loaded books; the previous index is used meanwhile (and offline)
+  useEffect(() => {
+    let cancelled = false;
+    searchService.refresh(books).finally(() => {
+      if (!cancelled) setIsIndexing(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [books]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), 200);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const groups = useMemo(
+    () => searchService.search(debouncedQuery, { canAccessPremium }),
+    [debouncedQuery, canAccessPremium, indexVersion]
+  );
+
+  const rememberQuery = (value: string) => {
+    searchService.addRecentSearch(value);
+    setRecentSearches(searchService.getRecentSearches());
+  };
+
+  const openResult = (result: SearchResult) => {
+    rememberQuery(query);
+    navigate(result.doc.route, { state: { from: '/search' } });
+  };
+
+  const removeRecent = (value: string) => {
+    searchService.removeRecentSearch(value);
+    setRecentSearches(searchService.getRecentSearches());
+  };
+
+  const clearRecent = () => {
+    searchService.clearRecentSearches();
+    setRecentSearches([]);
+  };
+
+  const hasQuery = debouncedQuery.trim().length > 0;
+
+  return (
+    <div className="flex flex-col h-full overflow-y-auto no-scrollbar relative">
+      <div className="px-4 pt-6 pb-52 max-w-3xl w-full mx-auto">
+
+        {/* Search Bar */}
+        <div className="flex items-center gap-2 mb-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="w-11 h-11 flex-shrink-0 rounded-xl bg-black/20 backdrop-blur-sm border border-white/10 flex items-center justify-center text-white hover:bg-black/30 transition-colors"
+            aria-label="Back"
+          >
+            <ArrowLeft size={20} />
+          </button>
+          <form
+            className="relative flex-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              rememberQuery(query);
+              inputRef.current?.blur();
+            }}
+          >
+            <div className="absolute inset-y-0 left-3 flex items-center pointer-events-none">
+              <Search className="text-white/60" size={20} />
+            </div>
+            <input
+              ref={inputRef}
+              type="search"
+              placeholder="Search books, songs, lessons..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="w-full bg-black/20 backdrop-blur-sm border border-white/10 rounded-xl py-3 pl-10 pr-10 text-white placeholder:text-white/60 focus:outline-none focus:bg-black/30 transition-colors shadow-inner font-display"
+            />
+            {query && (
+              <button
+                type="button"
+                onClick={() => {
+                  setQuery('');
+                  inputRef.current?.focus();
+                }}
+                className="absolute inset-y-0 right-3 flex items-center text-white/60 hover:text-white"
+                aria-label="Clear search"
+              >
+                <X size={18} />
+              </button>
+            )}
+          </form>
+        </div>
+
+        {!hasQuery ? (
+          // Recent searches
+          recentSearches.length > 0 && (
+            <div className="bg-black/20 backdrop-blur-sm rounded-2xl p-4 border border-white/10">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-white font-display font-bold">Recent Searches</h2>
+                <button onClick={clearRecent} className="text-white/60 text-xs hover:text-white">
+                  Clear
+                </button>
+              </div>
+              <div className="space-y-1">
+                {recentSearches.map((recent) => (
+                  <div key={recent} className="flex items-center gap-2">
+                    <button
+                      onClick={() => setQuery(recent)}
+                      className="flex-1 flex items-center gap-2 py-2 text-left text-white/90 hover:text-white"
+                    >
+                      <Clock size={16} className="text-white/50" />
+                      <span className="truncate">{recent}</span>
+                    </button>
+                    <button
+                      onClick={() => removeRecent(recent)}
+                      className="p-1 text-white/40 hover:text-white"
+                      aria-label={`Remove ${recent}`}
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )
+        ) : groups.length === 0 ? (
+          <div className="text-white/80 font-display text-center mt-10 p-6 bg-black/20 rounded-xl backdrop-blur-sm">
+            {isIndexing ? 'Getting everything ready to search...' : `Nothing found for "${debouncedQuery}"`}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {groups.map((group) => {
+              const { label, icon: GroupIcon } = GROUP_CONFIG[group.type];
+              return (
+                <section key={group.type}>
+                  <h2 className="flex items-center gap-2 text-white font-display font-bold text-lg mb-2 drop-shadow-md">
+                    <GroupIcon size={18} />
+                    {label}
+                    <span className="text-white/60 text-sm font-normal">({group.results.length})</span>
+                  </h2>
+                  <div className="space-y-2">
+                    {group.results.map((result) => (
+                      <SearchResultRow
+                        key={`${result.doc.type}-${result.doc.id}`}
+                        result={result}
+                        isLocked={result.doc.isMembersOnly && !canAccessPremium}
+                        onClick={() => openResult(result)}
+                      />
+                    ))}
+                  </div>
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPage;
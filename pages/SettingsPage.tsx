@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ChevronLeft, Volume2, Bell, Shield, FileText, LogOut, Crown, HelpCircle, Mic, Trash2, RefreshCw, CheckCircle, AlertCircle, Globe, Check, ChevronRight, UserPlus, LogIn } from 'lucide-react';
+import { ChevronLeft, Volume2, Bell, Shield, FileText, LogOut, Crown, HelpCircle, Mic, Trash2, RefreshCw, CheckCircle, AlertCircle, Globe, Check, ChevronRight, UserPlus, LogIn, Lock } from 'lucide-react';
 import WoodButton from '../components/ui/WoodButton';
 import { useUser } from '../context/UserContext';
 import { useAudio } from '../context/AudioContext';
@@ -13,6 +13,13 @@ import { authService } from '../services/authService';
 import { getApiBaseUrl } from '../services/apiService';
 import WebViewModal from '../components/features/WebViewModal';
 import ParentGateModal from '../components/features/ParentGateModal';
+import ParentPinModal from '../components/features/ParentPinModal';
+import ParentalControlsPanel from '../components/features/ParentalControlsPanel';
+import ParentGateSettingsPanel from '../components/features/ParentGateSettingsPanel';
+import MemoryVerseSettingsPanel from '../components/features/MemoryVerseSettingsPanel';
+import SessionRoutineSettingsPanel from '../components/features/SessionRoutineSettingsPanel';
+import StreakSettingsPanel from '../components/features/StreakSettingsPanel';
+import { parentalControlsService } from '../services/parentalControlsService';
 
 const SettingsPage: React.FC = () => {
   const navigate = useNavigate();
@@ -43,6 +50,10 @@ const SettingsPage: React.FC = () => {
   
   // Parent gate for Help Center
   const [showHelpCenterGate, setShowHelpCenterGate] = useState(false);
+
+  // Parental Controls - PIN protected (first visit: parent gate, then create a PIN)
+  const [parentalControlsUnlocked, setParentalControlsUnlocked] = useState(false);
+  const [parentalGateStep, setParentalGateStep] = useState<'gate' | 'setupPin' | 'verifyPin' | null>(null);
   
   // Load cloned voices
   useEffect(() => {
@@ -291,6 +302,40 @@ const SettingsPage: React.FC = () => {
                 </div>
             </section>
 
+            {/* Parental Controls */}
+            <section className="bg-[#fff8e1] rounded-2xl p-5 border-2 border-[#eecaa0] shadow-sm">
+                <h3 className="font-display font-bold text-[#8B4513] text-lg mb-4 uppercase tracking-wide opacity-80">Parental Controls</h3>
+
+                {parentalControlsUnlocked ? (
+                    <>
+                        <ParentalControlsPanel />
+                        <div className="border-t border-[#eecaa0] mt-5 pt-5">
+                            <ParentGateSettingsPanel />
+                        </div>
+                        <div className="border-t border-[#eecaa0] mt-5 pt-5">
+                            <MemoryVerseSettingsPanel />
+                        </div>
+                        <div className="border-t border-[#eecaa0] mt-5 pt-5">
+                            <SessionRoutineSettingsPanel />
+                        </div>
+                        <div className="border-t border-[#eecaa0] mt-5 pt-5">
+                            <StreakSettingsPanel />
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <p className="text-[#5c2e0b] text-sm mb-4 opacity-70">Screen time limits, bedtime, content filters and more for each kid.</p>
+                        <button
+                            onClick={() => setParentalGateStep(parentalControlsService.hasPin() ? 'verifyPin' : 'gate')}
+                            className="w-full flex items-center justify-center gap-2 bg-[#8B4513] hover:bg-[#A0522D] text-[#f3e5ab] font-bold py-3 px-4 rounded-xl border-2 border-[#5c2e0b] shadow-md transition-all active:scale-95"
+                        >
+                            <Lock size={18} />
+                            <span>{parentalControlsService.hasPin() ? 'ENTER PIN' : 'SET UP PARENTAL CONTROLS'}</span>
+                        </button>
+                    </>
+                )}
+            </section>
+
             {/* Language Settings - Hidden until more testing is done */}
             {false && <section className="bg-[#fff8e1] rounded-2xl p-5 border-2 border-[#eecaa0] shadow-sm">
                 <h3 className="font-display font-bold text-[#8B4513] text-lg mb-4 uppercase tracking-wide opacity-80">{t('language')}</h3>
@@ -689,6 +734,20 @@ const SettingsPage: React.FC = () => {
         hideExternalLink={true}
       />
       
+      {/* Parental Controls gate */}
+      <ParentGateModal
+        isOpen={parentalGateStep === 'gate'}
+        onClose={() => setParentalGateStep(prev => (prev === 'gate' ? null : prev))}
+        onSuccess={() => setParentalGateStep('setupPin')}
+        purpose="settings"
+      />
+      <ParentPinModal
+        isOpen={parentalGateStep === 'setupPin' || parentalGateStep === 'verifyPin'}
+        mode={parentalGateStep === 'setupPin' ? 'setup' : 'verify'}
+        onClose={() => setParentalGateStep(null)}
+        onSuccess={() => setParentalControlsUnlocked(true)}
+      />
+
       {/* Parent Gate Modal for Help Center */}
       <ParentGateModal
         isOpen={showHelpCenterGate}
@@ -697,6 +756,7 @@ const SettingsPage: React.FC = () => {
           // Open godlykids.com in a new tab
           window.open('https://www.godlykids.com', '_blank');
         }}
+        purpose="externalLink"
       />
     </div>
   );
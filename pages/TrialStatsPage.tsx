@@ -346,6 +346,7 @@ const TrialStatsPage: React.FC = () => {
         isOpen={showParentGate} 
         onClose={() => setShowParentGate(false)} 
         onSuccess={handleGateSuccess} 
+        purpose="subscription"
       />
     </div>
   );
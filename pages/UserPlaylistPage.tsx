@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { ChevronLeft, Pause, Play, SkipBack, SkipForward, Music, Trash2, ListMusic, Edit2, X, Loader2, Camera } from 'lucide-react';
+import { ChevronLeft, Pause, Play, SkipBack, SkipForward, Music, Trash2, ListMusic, Edit2, X, Loader2, Camera, ListStart, ListEnd } from 'lucide-react';
 import { userPlaylistService, UserPlaylist, PlaylistItem } from '../services/userPlaylistService';
 import { useAudio, Playlist as AudioPlaylist, AudioItem } from '../context/AudioContext';
 import { useUser } from '../context/UserContext';
@@ -32,6 +32,10 @@ const UserPlaylistPage: React.FC = () => {
         nextTrack,
         prevTrack,
         seek,
+        hasNext,
+        hasPrev,
+        playNext,
+        addToQueue,
     } = useAudio();
     const { isSubscribed } = useUser();
     
@@ -89,6 +93,16 @@ const UserPlaylistPage: React.FC = () => {
         }
     };
     
+    const handlePlayNext = (index: number) => {
+        if (!playlist) return;
+        playNext(convertToAudioPlaylist(playlist), index);
+    };
+
+    const handleAddToQueue = (index?: number) => {
+        if (!playlist) return;
+        addToQueue(convertToAudioPlaylist(playlist), index);
+    };
+    
     const handlePrevTrack = () => {
         if (isThisPlaylistPlaying) {
             prevTrack();
@@ -294,7 +308,7 @@ const UserPlaylistPage: React.FC = () => {
                 <div className="flex items-center gap-6 mb-8">
                     <button
                         onClick={handlePrevTrack}
-                        disabled={!isThisPlaylistPlaying || activeTrackIndex === 0}
+                        disabled={!isThisPlaylistPlaying || !hasPrev}
                         className="p-3 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-30 transition-all"
                     >
                         <SkipBack className="w-6 h-6 text-white" fill="white" />
@@ -314,7 +328,7 @@ const UserPlaylistPage: React.FC = () => {
                     
                     <button
                         onClick={handleNextTrack}
-                        disabled={!isThisPlaylistPlaying || activeTrackIndex >= playlist.items.length - 1}
+                        disabled={!isThisPlaylistPlaying || !hasNext}
                         className="p-3 rounded-full bg-white/10 hover:bg-white/20 disabled:opacity-30 transition-all"
                     >
                         <SkipForward className="w-6 h-6 text-white" fill="white" />
@@ -323,9 +337,20 @@ const UserPlaylistPage: React.FC = () => {
                 
                 {/* Track List */}
                 <div className="w-full max-w-md">
-                    <h3 className="text-white/70 text-sm font-bold mb-3 uppercase tracking-wider">
-                        Playlist ({playlist.items.length} items)
-                    </h3>
+                    <div className="flex items-center justify-between mb-3">
+                        <h3 className="text-white/70 text-sm font-bold uppercase tracking-wider">
+                            Playlist ({playlist.items.length} items)
+                        </h3>
+                        {playlist.items.length > 0 && (
+                            <button
+                                onClick={() => handleAddToQueue()}
+                                className="flex items-center gap-1 text-xs font-bold text-amber-400 hover:text-amber-300"
+                            >
+                                <ListEnd className="w-4 h-4" />
+                                Queue all
+                            </button>
+                        )}
+                    </div>
                     <div className="space-y-2">
                         {playlist.items.map((item, index) => {
                             const isCurrentTrack = isThisPlaylistPlaying && index === currentTrackIndex;
@@ -368,6 +393,26 @@ const UserPlaylistPage: React.FC = () => {
                                             {item.type === 'Audiobook' ? '📖' : '🎵'} {item.author || 'Unknown'}
                                         </p>
                                     </div>
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            handlePlayNext(index);
+                                        }}
+                                        className="p-2 rounded-full hover:bg-white/10 transition-colors"
+                                        title="Play next"
+                                    >
+                                        <ListStart className="w-4 h-4 text-white/60" />
+                                    </button>
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleAddToQueue(index);
+                                        }}
+                                        className="p-2 rounded-full hover:bg-white/10 transition-colors"
+                                        title="Add to queue"
+                                    >
+                                        <ListEnd className="w-4 h-4 text-white/60" />
+                                    </button>
                                     <button
                                         onClick={(e) => {
                                             e.stopPropagation();
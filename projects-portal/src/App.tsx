@@ -16,8 +16,12 @@ import PlaylistForm from './pages/PlaylistForm';
 import BookSeries from './pages/BookSeries';
 import BookSeriesForm from './pages/BookSeriesForm';
 import BookReader from './pages/BookReader';
+import BookRevisions from './pages/BookRevisions';
+import NarrationEditor from './pages/NarrationEditor';
+import BookImport from './pages/BookImport';
 import PageEditor from './pages/PageEditor';
 import Categories from './pages/Categories';
+import Badges from './pages/Badges';
 import Voices from './pages/Voices';
 import Games from './pages/Games';
 import Lessons from './pages/Lessons';
@@ -38,6 +42,9 @@ import EmailSubscribers from './pages/EmailSubscribers';
 import Campaigns from './pages/Campaigns';
 import CampaignForm from './pages/CampaignForm';
 import CampaignUpdates from './pages/CampaignUpdates';
+import Members from './pages/Members';
+import AuditLog from './pages/AuditLog';
+import AcceptInvite from './pages/AcceptInvite';
 
 // Godly Hub - Creator Portal
 import CreatorLogin from './pages/CreatorLogin';
@@ -61,6 +68,7 @@ function App() {
           <Route path="/login" element={<Login />} />
           <Route path="/forgot-password" element={<ForgotPassword />} />
           <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/accept-invite" element={<AcceptInvite />} />
           
           {/* Creator Portal - Public */}
           <Route path="/creator/login" element={<CreatorLogin />} />
@@ -87,44 +95,82 @@ function App() {
             </ProtectedRoute>
           }>
             <Route index element={<Dashboard />} />
-            <Route path="books" element={<Books />} />
-            <Route path="books/new" element={<BookForm />} />
-            <Route path="books/edit/:bookId" element={<BookEdit />} />
-            <Route path="books/read/:bookId" element={<BookReader />} />
-            <Route path="pages/new/:bookId" element={<PageEditor />} />
-            <Route path="playlists" element={<Playlists />} />
-            <Route path="playlists/new" element={<PlaylistForm />} />
-            <Route path="playlists/edit/:id" element={<PlaylistForm />} />
-            <Route path="book-series" element={<BookSeries />} />
-            <Route path="book-series/new" element={<BookSeriesForm />} />
-            <Route path="book-series/:id" element={<BookSeriesForm />} />
-            <Route path="categories" element={<Categories />} />
-            <Route path="voices" element={<Voices />} />
-            <Route path="games" element={<Games />} />
-            <Route path="lessons" element={<Lessons />} />
-            <Route path="lessons/new" element={<LessonForm />} />
-            <Route path="lessons/edit/:id" element={<LessonForm />} />
-            <Route path="lessons/calendar" element={<LessonCalendarPage />} />
-            <Route path="notifications" element={<Notifications />} />
-            <Route path="music" element={<MusicManagement />} />
-            <Route path="featured" element={<FeaturedContent />} />
-            <Route path="new-user-welcome" element={<NewUserWelcome />} />
-            <Route path="analytics" element={<AnalyticsDashboard />} />
-            <Route path="onboarding-analytics" element={<OnboardingAnalytics />} />
-            <Route path="radio" element={<Radio />} />
-            <Route path="radio/hosts" element={<RadioHosts />} />
-            <Route path="radio/library" element={<RadioLibrary />} />
-            <Route path="radio/show-builder" element={<RadioShowBuilder />} />
-            <Route path="radio/preview" element={<RadioPreviewPage />} />
-            <Route path="email-subscribers" element={<EmailSubscribers />} />
-            <Route path="campaigns" element={<Campaigns />} />
-            <Route path="campaigns/new" element={<CampaignForm />} />
-            <Route path="campaigns/:id/edit" element={<CampaignForm />} />
-            <Route path="campaigns/:campaignId/updates" element={<CampaignUpdates />} />
+
+            {/* Each group needs its capability - see services/permissions.ts */}
+            <Route element={<RoleGuard capability="analytics.view" />}>
+              <Route path="analytics" element={<AnalyticsDashboard />} />
+              <Route path="onboarding-analytics" element={<OnboardingAnalytics />} />
+            </Route>
+            <Route element={<RoleGuard capability="catalog.manage" />}>
+              <Route path="featured" element={<FeaturedContent />} />
+              <Route path="new-user-welcome" element={<NewUserWelcome />} />
+              <Route path="categories" element={<Categories />} />
+              <Route path="badges" element={<Badges />} />
+              <Route path="voices" element={<Voices />} />
+            </Route>
+            <Route element={<RoleGuard capability="books.edit" />}>
+              <Route path="books" element={<Books />} />
+              <Route path="books/new" element={<BookForm />} />
+              <Route path="books/import" element={<BookImport />} />
+              <Route path="books/edit/:bookId" element={<BookEdit />} />
+              <Route path="books/read/:bookId" element={<BookReader />} />
+              <Route path="books/revisions/:bookId" element={<BookRevisions />} />
+              <Route path="books/narration/:bookId" element={<NarrationEditor />} />
+              <Route path="pages/new/:bookId" element={<PageEditor />} />
+              <Route path="book-series" element={<BookSeries />} />
+              <Route path="book-series/new" element={<BookSeriesForm />} />
+              <Route path="book-series/:id" element={<BookSeriesForm />} />
+            </Route>
+            <Route element={<RoleGuard capability="playlists.edit" />}>
+              <Route path="playlists" element={<Playlists />} />
+              <Route path="playlists/new" element={<PlaylistForm />} />
+              <Route path="playlists/edit/:id" element={<PlaylistForm />} />
+              <Route path="music" element={<MusicManagement />} />
+            </Route>
+            <Route element={<RoleGuard capability="lessons.edit" />}>
+              <Route path="lessons" element={<Lessons />} />
+              <Route path="lessons/new" element={<LessonForm />} />
+              <Route path="lessons/edit/:id" element={<LessonForm />} />
+              <Route path="lessons/calendar" element={<LessonCalendarPage />} />
+            </Route>
+            <Route element={<RoleGuard capability="games.edit" />}>
+              <Route path="games" element={<Games />} />
+            </Route>
+            <Route element={<RoleGuard capability="notifications.send" />}>
+              <Route path="notifications" element={<Notifications />} />
+            </Route>
+            <Route element={<RoleGuard capability="radio.manage" />}>
+              <Route path="radio" element={<Radio />} />
+              <Route path="radio/hosts" element={<RadioHosts />} />
+              <Route path="radio/library" element={<RadioLibrary />} />
+              <Route path="radio/show-builder" element={<RadioShowBuilder />} />
+              <Route path="radio/preview" element={<RadioPreviewPage />} />
+            </Route>
+            <Route element={<RoleGuard capability="subscribers.view" />}>
+              <Route path="email-subscribers" element={<EmailSubscribers />} />
+            </Route>
+            <Route element={<RoleGuard capability="campaigns.manage" />}>
+              <Route path="campaigns" element={<Campaigns />} />
+              <Route path="campaigns/new" element={<CampaignForm />} />
+              <Route path="campaigns/:id/edit" element={<CampaignForm />} />
+              <Route path="campaigns/:campaignId/updates" element={<CampaignUpdates />} />
+            </Route>
             
             {/* Godly Hub Admin */}
-            <Route path="hub/creators" element={<HubCreators />} />
-            <Route path="hub/review" element={<HubReview />} />
+            <Route element={<RoleGuard capability="creators.manage" />}>
+              <Route path="hub/creators" element={<HubCreators />} />
+            </Route>
+            <Route element={<RoleGuard capability="hub.review" />}>
+              <Route path="hub/review" element={<HubReview />} />
+            </Route>
+
+            {/* Team */}
+            <Route element={<RoleGuard capability="members.manage" />}>
+              <Route path="members" element={<Members />} />
+            </Route>
+            <Route element={<RoleGuard capability="audit.view" />}>
+              <Route path="audit" element={<AuditLog />} />
+            </Route>
           </Route>
         </Routes>
       </Router>
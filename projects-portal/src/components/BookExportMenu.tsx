@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Download, ChevronDown, BookOpen, Printer, X } from 'lucide-react';
+import { exportBook } from '../services/bookExport';
+import type { ExportFormat, ExportProgress } from '../services/bookExport';
+
+interface BookExportMenuProps {
+  bookId: string;
+  // "dark" for the BookReader toolbar
+  variant?: 'light' | 'dark';
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string; description: string; icon: React.ElementType }> = [
+  { format: 'epub', label: 'EPUB (read-along)', description: 'Fixed layout with narration for Apple Books and other readers', icon: BookOpen },
+  { format: 'pdf', label: 'Print PDF', description: '300 DPI pages with 0.125in bleed for printers', icon: Printer },
+];
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Export button for a book - builds the EPUB or PDF in the browser from the published version
+ * and downloads it.
+ */
+const BookExportMenu: React.FC<BookExportMenuProps> = ({ bookId, variant = 'light' }) => {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [error, setError] = useState('');
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setExporting(format);
+    setProgress(null);
+    setWarnings([]);
+    setError('');
+    try {
+      const result = await exportBook(bookId, format, setProgress);
+      download(result.blob, result.filename);
+      setWarnings(result.warnings);
+      if (result.warnings.length === 0) setExporting(null);
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  };
+
+  const closeDialog = () => {
+    setExporting(null);
+    setWarnings([]);
+    setError('');
+  };
+
+  const finished = warnings.length > 0 || !!error;
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        disabled={!!exporting}
+        className={variant === 'dark'
+          ? 'flex items-center gap-2 bg-gray-700 text-gray-200 px-3 py-1.5 rounded-lg text-sm hover:bg-gray-600 transition disabled:opacity-50'
+          : 'flex items-center gap-2 text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50'}
+      >
+        <Download className={variant === 'dark' ? 'w-4 h-4' : 'w-5 h-5'} />
+        Export
+        <ChevronDown className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white rounded-lg shadow-xl border border-gray-100 z-50 overflow-hidden">
+          {FORMATS.map(({ format, label, description, icon: Icon }) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleExport(format)}
+              className="w-full text-left px-4 py-3 hover:bg-gray-50 flex gap-3"
+            >
+              <Icon className="w-5 h-5 text-indigo-600 shrink-0 mt-0.5" />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">{label}</span>
+                <span className="block text-xs text-gray-500">{description}</span>
+              </span>
+            </button>
+          ))}
+          <p className="px-4 py-2 text-xs text-gray-400 border-t border-gray-100">Exports the published version of the book</p>
+        </div>
+      )}
+
+      {exporting && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl w-full max-w-md p-6 text-gray-800">
+            <div className="flex items-start justify-between mb-4">
+              <h3 className="text-lg font-bold">
+                Exporting {exporting === 'epub' ? 'EPUB' : 'print PDF'}
+              </h3>
+              {finished && (
+                <button onClick={closeDialog} className="text-gray-400 hover:text-gray-600">
+                  <X className="w-5 h-5" />
+                </button>
+              )}
+            </div>
+
+            {error ? (
+              <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>
+            ) : warnings.length > 0 ? (
+              <>
+                <p className="text-sm text-green-700 mb-3">Downloaded, with a few things to check:</p>
+                <ul className="text-sm text-amber-800 bg-amber-50 rounded-lg p-3 space-y-1 list-disc list-inside max-h-60 overflow-y-auto">
+                  {warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                </ul>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-gray-500 mb-2">{progress?.step || 'Starting'}…</p>
+                <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-600 transition-all" style={{ width: `${percent}%` }} />
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BookExportMenu;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import type { Capability } from '../services/permissions';
+
+interface CanProps {
+  capability: Capability;
+  children: React.ReactNode;
+  // Shown instead when the role doesn't have the capability
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Button-level guard: renders its children only when the signed-in member's role has the capability.
+ */
+const Can: React.FC<CanProps> = ({ capability, children, fallback = null }) => {
+  const { can } = useAuth();
+  return <>{can(capability) ? children : fallback}</>;
+};
+
+export default Can;
@@ -1,12 +1,14 @@
 import React from 'react';
 import { Link, Outlet, useLocation, useNavigate } from 'react-router-dom';
-import { Book, Music, Layout as LayoutIcon, Home, Tag, Volume2, Gamepad2, Video, LogOut, Bell, Music2, Star, CalendarDays, BarChart3, Library, Sparkles, TrendingUp, Radio, Mail, Heart, Users, ClipboardCheck } from 'lucide-react';
+import { Book, Music, Layout as LayoutIcon, Home, Tag, Volume2, Gamepad2, Video, LogOut, Bell, Music2, Star, CalendarDays, BarChart3, Library, Sparkles, TrendingUp, Radio, Mail, Heart, Users, ClipboardCheck, Award, UserCog, History } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { ROLE_LABELS } from '../services/permissions';
+import type { Capability, StaffRole } from '../services/permissions';
 
 const Layout: React.FC = () => {
     const location = useLocation();
     const navigate = useNavigate();
-    const { logout } = useAuth();
+    const { logout, can, user, role } = useAuth();
 
     const isActive = (path: string) => location.pathname === path;
 
@@ -15,30 +17,37 @@ const Layout: React.FC = () => {
         navigate('/login');
     };
 
-    const navItems = [
+    const allNavItems: { path: string; icon: React.ElementType; label: string; capability?: Capability }[] = [
         { path: '/', icon: Home, label: 'Dashboard' },
-        { path: '/analytics', icon: BarChart3, label: 'Content Analytics' },
-        { path: '/onboarding-analytics', icon: TrendingUp, label: 'Onboarding Analytics' },
-        { path: '/featured', icon: Star, label: 'Featured' },
-        { path: '/new-user-welcome', icon: Sparkles, label: 'New User Welcome' },
-        { path: '/books', icon: Book, label: 'Books' },
-        { path: '/book-series', icon: Library, label: 'Book Series' },
-        { path: '/playlists', icon: Music, label: 'Playlists' },
-        { path: '/lessons', icon: Video, label: 'Lessons' },
-        { path: '/lessons/calendar', icon: CalendarDays, label: 'Lesson Calendar' },
-        { path: '/categories', icon: Tag, label: 'Categories' },
-        { path: '/voices', icon: Volume2, label: 'Voices' },
-        { path: '/games', icon: Gamepad2, label: 'Games' },
-        { path: '/notifications', icon: Bell, label: 'Notifications' },
-        { path: '/music', icon: Music2, label: 'Music' },
-        { path: '/radio', icon: Radio, label: 'Radio Station' },
-        { path: '/email-subscribers', icon: Mail, label: 'Email Subscribers' },
-        { path: '/campaigns', icon: Heart, label: 'Giving Campaigns' },
+        { path: '/analytics', icon: BarChart3, label: 'Content Analytics', capability: 'analytics.view' },
+        { path: '/onboarding-analytics', icon: TrendingUp, label: 'Onboarding Analytics', capability: 'analytics.view' },
+        { path: '/featured', icon: Star, label: 'Featured', capability: 'catalog.manage' },
+        { path: '/new-user-welcome', icon: Sparkles, label: 'New User Welcome', capability: 'catalog.manage' },
+        { path: '/books', icon: Book, label: 'Books', capability: 'books.edit' },
+        { path: '/book-series', icon: Library, label: 'Book Series', capability: 'books.edit' },
+        { path: '/playlists', icon: Music, label: 'Playlists', capability: 'playlists.edit' },
+        { path: '/lessons', icon: Video, label: 'Lessons', capability: 'lessons.edit' },
+        { path: '/lessons/calendar', icon: CalendarDays, label: 'Lesson Calendar', capability: 'lessons.edit' },
+        { path: '/categories', icon: Tag, label: 'Categories', capability: 'catalog.manage' },
+        { path: '/badges', icon: Award, label: 'Badges', capability: 'catalog.manage' },
+        { path: '/voices', icon: Volume2, label: 'Voices', capability: 'catalog.manage' },
+        { path: '/games', icon: Gamepad2, label: 'Games', capability: 'games.edit' },
+        { path: '/notifications', icon: Bell, label: 'Notifications', capability: 'notifications.send' },
+        { path: '/music', icon: Music2, label: 'Music', capability: 'playlists.edit' },
+        { path: '/radio', icon: Radio, label: 'Radio Station', capability: 'radio.manage' },
+        { path: '/email-subscribers', icon: Mail, label: 'Email Subscribers', capability: 'subscribers.view' },
+        { path: '/campaigns', icon: Heart, label: 'Giving Campaigns', capability: 'campaigns.manage' },
         // Godly Hub
-        { path: '/hub/creators', icon: Users, label: 'Hub: Creators' },
-        { path: '/hub/review', icon: ClipboardCheck, label: 'Hub: Content Review' },
+        { path: '/hub/creators', icon: Users, label: 'Hub: Creators', capability: 'creators.manage' },
+        { path: '/hub/review', icon: ClipboardCheck, label: 'Hub: Content Review', capability: 'hub.review' },
+        // Team
+        { path: '/members', icon: UserCog, label: 'Team Members', capability: 'members.manage' },
+        { path: '/audit', icon: History, label: 'Audit Log', capability: 'audit.view' },
     ];
 
+    // Only show the pages this member's role can open
+    const navItems = allNavItems.filter(item => !item.capability || can(item.capability));
+
     return (
         <div className="flex h-screen bg-gray-100">
             {/* Sidebar */}
@@ -63,8 +72,16 @@ const Layout: React.FC = () => {
                     ))}
                 </nav>
                 
-                {/* Logout Button */}
+                {/* Signed-in member and Logout Button */}
                 <div className="p-4 border-t border-gray-200 flex-shrink-0">
+                    {user && (
+                        <div className="px-4 pb-3">
+                            <p className="text-sm font-medium text-gray-800 truncate">{user.name || user.email}</p>
+                            {role && role !== 'creator' && (
+                                <p className="text-xs text-gray-500">{ROLE_LABELS[role as StaffRole] || role}</p>
+                            )}
+                        </div>
+                    )}
                     <button
                         onClick={handleLogout}
                         className="flex items-center w-full px-4 py-2 text-gray-600 hover:bg-red-50 hover:text-red-600 rounded-lg transition-colors"
@@ -1,8 +1,6 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Play, Pause, SkipForward, SkipBack, Volume2, VolumeX, Radio, Music, Shuffle, RefreshCw, Mic2, Loader2, BookOpen } from 'lucide-react';
-import axios from 'axios';
-
-const API_URL = (import.meta.env.VITE_API_BASE_URL || 'https://backendgk2-0.onrender.com') + '/api';
+import apiClient from '../services/apiClient';
 
 // Crossfade settings
 const CROSSFADE_DURATION = 5000; // 5 seconds crossfade
@@ -128,9 +126,9 @@ const RadioPreview: React.FC = () => {
             setError(null);
             
             const [stationRes, libraryRes, hostsRes] = await Promise.all([
-                axios.get(`${API_URL}/radio/station`),
-                axios.get(`${API_URL}/radio/library?enabled=true`),
-                axios.get(`${API_URL}/radio/hosts`),
+                apiClient.get(`/api/radio/station`),
+                apiClient.get(`/api/radio/library?enabled=true`),
+                apiClient.get(`/api/radio/hosts`),
             ]);
             
             const stationData = stationRes.data;
@@ -306,7 +304,7 @@ const RadioPreview: React.FC = () => {
                 contentType === 'devotional_segment' ? devotionalDuration :
                 hostBreakDuration; // Regular breaks use station setting
             
-            const response = await axios.post(`${API_URL}/radio/host-break/generate`, {
+            const response = await apiClient.post(`/api/radio/host-break/generate`, {
                 nextSongTitle: nextSong.title,
                 nextSongArtist: nextSong.artist,
                 previousSongTitle: previousSong?.title,
@@ -341,7 +339,7 @@ const RadioPreview: React.FC = () => {
                                    contentType === 'story_intro' ? 20 : 
                                    contentType === 'story_outro' ? 18 : 15;
             
-            const response = await axios.post(`${API_URL}/radio/host-break/generate`, {
+            const response = await apiClient.post(`/api/radio/host-break/generate`, {
                 nextSongTitle: nextSong.title,
                 nextSongArtist: nextSong.artist,
                 previousSongTitle: previousSong?.title,
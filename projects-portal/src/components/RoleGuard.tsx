@@ -1,19 +1,23 @@
 import React from 'react';
 import { Navigate, Outlet } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import type { UserRole } from '../contexts/AuthContext';
+import type { Capability } from '../services/permissions';
 
 interface RoleGuardProps {
-  allowedRoles: UserRole[];
+  allowedRoles?: UserRole[];
+  // Staff routes: the signed-in member's role must include this capability
+  capability?: Capability;
   children?: React.ReactNode;
 }
 
 /**
- * Route guard that checks if the user has one of the allowed roles.
+ * Route guard that checks if the user has one of the allowed roles and/or a capability.
  * Redirects to appropriate login page if not authenticated or not authorized.
  */
-const RoleGuard: React.FC<RoleGuardProps> = ({ allowedRoles, children }) => {
-  const { isAuthenticated, role } = useAuth();
+const RoleGuard: React.FC<RoleGuardProps> = ({ allowedRoles, capability, children }) => {
+  const { isAuthenticated, role, can } = useAuth();
 
   // Not authenticated - redirect to login
   if (!isAuthenticated) {
@@ -21,19 +25,32 @@ const RoleGuard: React.FC<RoleGuardProps> = ({ allowedRoles, children }) => {
   }
 
   // Not authorized for this role
-  if (!role || !allowedRoles.includes(role)) {
+  if (allowedRoles && (!role || !allowedRoles.includes(role))) {
     // If they're a creator trying to access admin pages, redirect to creator dashboard
     if (role === 'creator') {
       return <Navigate to="/creator" replace />;
     }
-    // If they're an admin trying to access creator pages, redirect to admin dashboard
-    if (role === 'admin') {
+    // If they're staff trying to access creator pages, redirect to admin dashboard
+    if (role) {
       return <Navigate to="/" replace />;
     }
     // Otherwise, redirect to login
     return <Navigate to="/login" replace />;
   }
 
+  // Signed in, but their role doesn't cover this page
+  if (capability && !can(capability)) {
+    return (
+      <div className="max-w-lg mx-auto mt-16 bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+        <ShieldAlert className="w-12 h-12 text-amber-500 mx-auto mb-4" />
+        <h2 className="text-xl font-bold text-gray-800 mb-2">No access</h2>
+        <p className="text-gray-600">
+          Your role doesn't include this part of the portal. Ask an admin if you need it.
+        </p>
+      </div>
+    );
+  }
+
   // Authorized - render children or outlet
   return children ? <>{children}</> : <Outlet />;
 };
@@ -1,18 +1,21 @@
-import React, { createContext, useContext, useMemo, useState } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
 import axios from 'axios';
+import type { Capability, StaffRole } from '../services/permissions';
 
 /**
  * Portal authentication context.
- * Supports both admin users and creator users with role-based access.
+ * Supports staff (portal members with a role) and creator users. Staff access is checked by
+ * capability - the backend maps each role to its capabilities (backend/src/config/portalRoles.js).
  */
 
 const AUTH_KEY = 'gk_portal_auth';
 const TOKEN_KEY = 'portal_admin_token';
 const ROLE_KEY = 'portal_user_role';
 const USER_KEY = 'portal_user_data';
+const CAPABILITIES_KEY = 'portal_user_capabilities';
 const API_URL = import.meta.env.VITE_API_URL || 'https://backendgk2-0.onrender.com';
 
-export type UserRole = 'admin' | 'creator';
+export type UserRole = StaffRole | 'creator';
 
 interface UserData {
   id: string;
@@ -21,12 +24,23 @@ interface UserData {
   profileImage?: string;
 }
 
+// What /api/portal/login and /api/portal/accept-invite return
+interface StaffSession {
+  token: string;
+  user?: UserData;
+  role: StaffRole;
+  capabilities: Capability[];
+}
+
 interface AuthContextType {
   isAuthenticated: boolean;
   role: UserRole | null;
   user: UserData | null;
+  capabilities: Capability[];
+  can: (capability: Capability) => boolean;
   login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   loginAsCreator: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  acceptInvite: (inviteToken: string, password: string, name: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => void;
   getToken: () => string | null;
 }
@@ -47,49 +61,96 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return userData ? JSON.parse(userData) : null;
   });
 
+  const [capabilities, setCapabilities] = useState<Capability[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(CAPABILITIES_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  });
+
+  const clearSession = () => {
+    localStorage.removeItem(AUTH_KEY);
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(ROLE_KEY);
+    localStorage.removeItem(USER_KEY);
+    localStorage.removeItem(CAPABILITIES_KEY);
+    setIsAuthenticated(false);
+    setRole(null);
+    setUser(null);
+    setCapabilities([]);
+  };
+
+  const startStaffSession = (session: StaffSession) => {
+    localStorage.setItem(AUTH_KEY, 'true');
+    localStorage.setItem(TOKEN_KEY, session.token);
+    localStorage.setItem(ROLE_KEY, session.role);
+    localStorage.setItem(CAPABILITIES_KEY, JSON.stringify(session.capabilities));
+    if (session.user) {
+      localStorage.setItem(USER_KEY, JSON.stringify(session.user));
+      setUser(session.user);
+    }
+
+    setIsAuthenticated(true);
+    setRole(session.role);
+    setCapabilities(session.capabilities);
+  };
+
+  // Pick up role changes made by an admin since this session signed in
+  useEffect(() => {
+    if (!isAuthenticated || role === 'creator') return;
+    const token = localStorage.getItem(TOKEN_KEY);
+    axios.get(`${API_URL}/api/portal/me`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((response) => {
+        localStorage.setItem(ROLE_KEY, response.data.role);
+        localStorage.setItem(CAPABILITIES_KEY, JSON.stringify(response.data.capabilities));
+        setRole(response.data.role);
+        setCapabilities(response.data.capabilities);
+      })
+      .catch((error) => {
+        // Suspended, removed or expired - sign in again
+        if (axios.isAxiosError(error) && error.response?.status === 401) {
+          clearSession();
+          return;
+        }
+        console.error('Failed to refresh portal access:', error);
+      });
+  }, [isAuthenticated, role]);
+
   const value = useMemo<AuthContextType>(() => {
     return {
       isAuthenticated,
       role,
       user,
+      capabilities,
+      can: (capability: Capability) => capabilities.includes(capability),
       getToken: () => localStorage.getItem(TOKEN_KEY),
       
-      // Admin login
+      // Staff login (portal members, and admins signing in with their app account)
       login: async (email: string, password: string) => {
         if (!email?.trim() || !password?.trim()) {
           return { success: false, error: 'Email and password are required' };
         }
 
         try {
-          const response = await axios.post(`${API_URL}/api/auth/login`, {
+          const response = await axios.post(`${API_URL}/api/portal/login`, {
             email: email.trim(),
             password: password.trim(),
           });
 
-          const { token, user: userData } = response.data;
-          
-          if (!token) {
+          if (!response.data.token) {
             return { success: false, error: 'No token received from server' };
           }
 
           // Store auth state
-          localStorage.setItem(AUTH_KEY, 'true');
-          localStorage.setItem(TOKEN_KEY, token);
-          localStorage.setItem(ROLE_KEY, 'admin');
-          if (userData) {
-            localStorage.setItem(USER_KEY, JSON.stringify(userData));
-            setUser(userData);
-          }
-          
-          setIsAuthenticated(true);
-          setRole('admin');
+          startStaffSession(response.data);
           
           return { success: true };
         } catch (error: any) {
           console.error('Login error:', error);
           
-          const errorMessage = error.response?.data?.msg 
-            || error.response?.data?.error 
+          const errorMessage = error.response?.data?.error 
+            || error.response?.data?.msg 
             || 'Login failed. Please check your credentials.';
           
           return { success: false, error: errorMessage };
@@ -118,6 +179,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           localStorage.setItem(AUTH_KEY, 'true');
           localStorage.setItem(TOKEN_KEY, token);
           localStorage.setItem(ROLE_KEY, 'creator');
+          localStorage.removeItem(CAPABILITIES_KEY);
           
           const userData: UserData = {
             id: creator.id,
@@ -129,6 +191,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           
           setIsAuthenticated(true);
           setRole('creator');
+          setCapabilities([]);
           setUser(userData);
           
           return { success: true };
@@ -142,17 +205,28 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
       },
       
-      logout: () => {
-        localStorage.removeItem(AUTH_KEY);
-        localStorage.removeItem(TOKEN_KEY);
-        localStorage.removeItem(ROLE_KEY);
-        localStorage.removeItem(USER_KEY);
-        setIsAuthenticated(false);
-        setRole(null);
-        setUser(null);
+      // New member setting their password from an invite link
+      acceptInvite: async (inviteToken: string, password: string, name: string) => {
+        try {
+          const response = await axios.post(`${API_URL}/api/portal/accept-invite`, {
+            inviteToken,
+            password,
+            name: name.trim(),
+          });
+          startStaffSession(response.data);
+          return { success: true };
+        } catch (error) {
+          console.error('Accept invite error:', error);
+          const errorMessage = axios.isAxiosError(error) && error.response?.data?.error
+            ? error.response.data.error
+            : 'Failed to activate account';
+          return { success: false, error: errorMessage };
+        }
       },
+
+      logout: clearSession,
     };
-  }, [isAuthenticated, role, user]);
+  }, [isAuthenticated, role, user, capabilities]);
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 };
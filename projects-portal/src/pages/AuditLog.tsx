@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, X, ChevronLeft, ChevronRight } from 'lucide-react';
+import apiClient from '../services/apiClient';
+
+interface AuditActor {
+    kind: 'member' | 'admin' | 'apiKey';
+    id?: string;
+    email?: string;
+    name?: string;
+    role?: string;
+}
+
+interface AuditEntry {
+    _id: string;
+    actor: AuditActor;
+    action: string;
+    resource: string;
+    resourceId?: string;
+    label?: string;
+    method?: string;
+    path?: string;
+    createdAt: string;
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+}
+
+interface Pagination {
+    page: number;
+    pages: number;
+    total: number;
+}
+
+const ACTION_STYLES: Record<string, string> = {
+    create: 'bg-green-100 text-green-700',
+    delete: 'bg-red-100 text-red-700',
+    publish: 'bg-indigo-100 text-indigo-700',
+    rollback: 'bg-amber-100 text-amber-700',
+};
+
+// Keys that change on every save and only add noise to the diff
+const IGNORED_KEYS = ['updatedAt', 'draftUpdatedAt'];
+
+const formatValue = (value: unknown): string => {
+    if (value === undefined) return '—';
+    if (typeof value === 'string') return value;
+    return JSON.stringify(value, null, 2);
+};
+
+// Top-level keys whose value differs between the two snapshots
+const changedKeys = (before?: Record<string, unknown> | null, after?: Record<string, unknown> | null) => {
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    return Array.from(keys)
+        .filter(key => !IGNORED_KEYS.includes(key))
+        .filter(key => JSON.stringify((before || {})[key]) !== JSON.stringify((after || {})[key]))
+        .sort();
+};
+
+const AuditLog: React.FC = () => {
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [resources, setResources] = useState<string[]>([]);
+    const [pagination, setPagination] = useState<Pagination>({ page: 1, pages: 1, total: 0 });
+    const [loading, setLoading] = useState(true);
+
+    const [resource, setResource] = useState('');
+    const [actor, setActor] = useState('');
+    const [page, setPage] = useState(1);
+
+    const [selected, setSelected] = useState<AuditEntry | null>(null);
+
+    const fetchEntries = useCallback(async () => {
+        setLoading(true);
+        try {
+            const params: Record<string, string | number> = { page, limit: 50 };
+            if (resource) params.resource = resource;
+            if (actor.trim()) params.actor = actor.trim();
+            const res = await apiClient.get('/api/portal/audit', { params });
+            setEntries(res.data.data || []);
+            setResources(res.data.resources || []);
+            setPagination(res.data.pagination);
+        } catch (error) {
+            console.error('Error fetching audit log:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [page, resource, actor]);
+
+    useEffect(() => {
+        fetchEntries();
+    }, [fetchEntries]);
+
+    const openEntry = async (entry: AuditEntry) => {
+        try {
+            const res = await apiClient.get(`/api/portal/audit/${entry._id}`);
+            setSelected(res.data);
+        } catch (error) {
+            console.error('Error fetching audit entry:', error);
+            alert('Failed to load this change');
+        }
+    };
+
+    const actorName = (entry: AuditEntry) => {
+        if (entry.actor.kind === 'apiKey') return 'Admin API key';
+        return entry.actor.name || entry.actor.email || 'Unknown';
+    };
+
+    const diffKeys = selected ? changedKeys(selected.before, selected.after) : [];
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+                    <History className="w-7 h-7 text-indigo-600" />
+                    Audit Log
+                </h1>
+                <p className="text-gray-500">Every change made from the portal, who made it and what it looked like before and after</p>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-wrap gap-3">
+                <select
+                    value={resource}
+                    onChange={(e) => { setResource(e.target.value); setPage(1); }}
+                    className="px-3 py-2 border border-gray-200 rounded-lg bg-white"
+                >
+                    <option value="">All content</option>
+                    {resources.map(r => (
+                        <option key={r} value={r}>{r}</option>
+                    ))}
+                </select>
+                <input
+                    type="email"
+                    value={actor}
+                    onChange={(e) => { setActor(e.target.value); setPage(1); }}
+                    placeholder="Filter by member email"
+                    className="px-3 py-2 border border-gray-200 rounded-lg w-72"
+                />
+            </div>
+
+            {/* Entries */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                <table className="w-full">
+                    <thead className="bg-gray-50 border-b border-gray-100">
+                        <tr>
+                            <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">When</th>
+                            <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Who</th>
+                            <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Action</th>
+                            <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">What</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {entries.map(entry => (
+                            <tr
+                                key={entry._id}
+                                onClick={() => openEntry(entry)}
+                                className="hover:bg-gray-50 cursor-pointer"
+                            >
+                                <td className="px-6 py-3 text-sm text-gray-500 whitespace-nowrap">
+                                    {new Date(entry.createdAt).toLocaleString()}
+                                </td>
+                                <td className="px-6 py-3">
+                                    <p className="text-sm font-medium text-gray-900">{actorName(entry)}</p>
+                                    {entry.actor.role && <p className="text-xs text-gray-500">{entry.actor.role}</p>}
+                                </td>
+                                <td className="px-6 py-3">
+                                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action] || 'bg-gray-100 text-gray-700'}`}>
+                                        {entry.action}
+                                    </span>
+                                </td>
+                                <td className="px-6 py-3 text-sm">
+                                    <span className="text-gray-500">{entry.resource}</span>
+                                    {entry.label && <span className="text-gray-900"> · {entry.label}</span>}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                {!loading && entries.length === 0 && (
+                    <div className="p-8 text-center text-gray-500">No changes recorded yet</div>
+                )}
+                {loading && (
+                    <div className="p-8 flex justify-center">
+                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+                    </div>
+                )}
+            </div>
+
+            {/* Pagination */}
+            {pagination.pages > 1 && (
+                <div className="flex items-center justify-between text-sm text-gray-600">
+                    <span>{pagination.total} changes</span>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setPage(p => p - 1)}
+                            disabled={page <= 1}
+                            className="p-2 rounded-lg hover:bg-gray-200 disabled:opacity-40"
+                        >
+                            <ChevronLeft className="w-4 h-4" />
+                        </button>
+                        <span>Page {pagination.page} of {pagination.pages}</span>
+                        <button
+                            onClick={() => setPage(p => p + 1)}
+                            disabled={page >= pagination.pages}
+                            className="p-2 rounded-lg hover:bg-gray-200 disabled:opacity-40"
+                        >
+                            <ChevronRight className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Before/after */}
+            {selected && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+                        <div className="flex items-start justify-between p-6 border-b border-gray-100">
+                            <div>
+                                <h2 className="text-xl font-bold text-gray-900">
+                                    {selected.action} {selected.resource}{selected.label ? ` · ${selected.label}` : ''}
+                                </h2>
+                                <p className="text-sm text-gray-500">
+                                    {actorName(selected)} · {new Date(selected.createdAt).toLocaleString()} · {selected.method} {selected.path}
+                                </p>
+                            </div>
+                            <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-gray-600">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div className="p-6 overflow-y-auto space-y-4">
+                            {diffKeys.length === 0 && (
+                                <p className="text-gray-500">No field changes were recorded for this action.</p>
+                            )}
+                            {diffKeys.map(key => (
+                                <div key={key}>
+                                    <p className="text-sm font-semibold text-gray-700 mb-1">{key}</p>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <pre className="bg-red-50 text-red-800 text-xs rounded-lg p-3 overflow-x-auto whitespace-pre-wrap break-words">
+                                            {formatValue(selected.before?.[key])}
+                                        </pre>
+                                        <pre className="bg-green-50 text-green-800 text-xs rounded-lg p-3 overflow-x-auto whitespace-pre-wrap break-words">
+                                            {formatValue(selected.after?.[key])}
+                                        </pre>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AuditLog;
@@ -0,0 +1,393 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, Award } from 'lucide-react';
+import axios from 'axios';
+import apiClient, { api } from '../services/apiClient';
+import { BADGE_METRICS } from '../../../shared/api';
+import type { ApiBadge, ApiBadgeMetric, ApiBookSeries, ApiCategory } from '../../../shared/api';
+
+const METRIC_LABELS: Record<ApiBadgeMetric, string> = {
+    booksRead: 'Books read',
+    pagesRead: 'Pages read',
+    songsListened: 'Songs listened to',
+    gamesPlayed: 'Games played',
+    lessonsCompleted: 'Lessons completed',
+    sessionsCompleted: 'Godly Kids Time sessions',
+    streakDays: 'Day streak',
+    seriesCompleted: 'Finish a book series',
+};
+
+const EMPTY_FORM = {
+    title: '',
+    description: '',
+    icon: '🏅',
+    color: '#FFD700',
+    metric: 'booksRead' as ApiBadgeMetric,
+    target: 10,
+    category: '',
+    series: '',
+    status: 'draft' as 'draft' | 'published',
+    displayOrder: 0,
+};
+
+// The backend's { error } message, if the request got that far
+const errorMessage = (error: unknown, fallback: string): string =>
+    (axios.isAxiosError(error) && error.response?.data?.error) || fallback;
+
+const describeRule = (badge: ApiBadge, seriesList: ApiBookSeries[]): string => {
+    const { metric, target, category, series } = badge.rule;
+    if (metric === 'seriesCompleted') {
+        const title = seriesList.find(s => s._id === series)?.title || 'a series';
+        return `Finish every book in ${title}`;
+    }
+    const base = `${target ?? 1} × ${METRIC_LABELS[metric].toLowerCase()}`;
+    return metric === 'booksRead' && category ? `${base} in ${category}` : base;
+};
+
+const Badges: React.FC = () => {
+    const [badges, setBadges] = useState<ApiBadge[]>([]);
+    const [categories, setCategories] = useState<ApiCategory[]>([]);
+    const [seriesList, setSeriesList] = useState<ApiBookSeries[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [showModal, setShowModal] = useState(false);
+    const [editingBadge, setEditingBadge] = useState<ApiBadge | null>(null);
+    const [formData, setFormData] = useState(EMPTY_FORM);
+    const [saving, setSaving] = useState(false);
+    const [deleting, setDeleting] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchBadges();
+        api.categories.list({ type: 'book' }).then(setCategories).catch(error => console.error('Error fetching categories:', error));
+        api.bookSeries.list({ status: 'all' }).then(setSeriesList).catch(error => console.error('Error fetching book series:', error));
+    }, []);
+
+    const fetchBadges = async () => {
+        try {
+            const data = await api.badges.list({ status: 'all' });
+            setBadges(data);
+        } catch (error) {
+            console.error('Error fetching badges:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleOpenModal = (badge?: ApiBadge) => {
+        if (badge) {
+            setEditingBadge(badge);
+            setFormData({
+                title: badge.title,
+                description: badge.description || '',
+                icon: badge.icon || '🏅',
+                color: badge.color || '#FFD700',
+                metric: badge.rule.metric,
+                target: badge.rule.target ?? 1,
+                category: badge.rule.category || '',
+                series: badge.rule.series || '',
+                status: badge.status || 'draft',
+                displayOrder: badge.displayOrder ?? 0,
+            });
+        } else {
+            setEditingBadge(null);
+            setFormData({ ...EMPTY_FORM, displayOrder: badges.length });
+        }
+        setShowModal(true);
+    };
+
+    const handleCloseModal = () => {
+        setShowModal(false);
+        setEditingBadge(null);
+        setFormData(EMPTY_FORM);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        const { metric, target, category, series, ...fields } = formData;
+        const payload = {
+            ...fields,
+            rule: {
+                metric,
+                target: metric === 'seriesCompleted' ? 1 : target,
+                category: metric === 'booksRead' && category ? category : undefined,
+                series: metric === 'seriesCompleted' ? series : undefined,
+            },
+        };
+        try {
+            if (editingBadge) {
+                await apiClient.put(`/api/badges/${editingBadge._id}`, payload);
+            } else {
+                await apiClient.post('/api/badges', payload);
+            }
+            await fetchBadges();
+            handleCloseModal();
+        } catch (error) {
+            console.error('Error saving badge:', error);
+            alert(errorMessage(error, 'Failed to save badge'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Delete this badge? Kids who already earned it will keep it.')) {
+            return;
+        }
+        setDeleting(id);
+        try {
+            await api.badges.remove(id);
+            await fetchBadges();
+        } catch (error) {
+            console.error('Error deleting badge:', error);
+            alert(errorMessage(error, 'Failed to delete badge'));
+        } finally {
+            setDeleting(null);
+        }
+    };
+
+    if (loading) {
+        return <div className="p-6 text-center">Loading badges...</div>;
+    }
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h1 className="text-3xl font-bold text-gray-800">Badges</h1>
+                    <p className="text-gray-500 text-sm mt-1">Milestones kids earn in the app. Published badges reach the app within a few minutes.</p>
+                </div>
+                <button
+                    onClick={() => handleOpenModal()}
+                    className="bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-indigo-700 transition-colors"
+                >
+                    <Plus className="w-5 h-5" />
+                    Add Badge
+                </button>
+            </div>
+
+            {badges.length === 0 ? (
+                <div className="bg-white p-8 rounded-lg shadow-sm border border-gray-200 text-center">
+                    <Award className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                    <p className="text-gray-500">No badges yet. Create the first one!</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {badges.map((badge) => (
+                        <div
+                            key={badge._id}
+                            className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 flex flex-col"
+                        >
+                            <div className="flex items-start gap-3 mb-4">
+                                <div
+                                    className="w-14 h-14 rounded-full flex items-center justify-center text-2xl shrink-0 border-2 border-white shadow"
+                                    style={{ backgroundColor: badge.color || '#FFD700' }}
+                                >
+                                    {badge.icon || '🏅'}
+                                </div>
+                                <div className="min-w-0">
+                                    <h3 className="text-xl font-semibold text-gray-800">{badge.title}</h3>
+                                    {badge.description && (
+                                        <p className="text-sm text-gray-600 mt-1">{badge.description}</p>
+                                    )}
+                                </div>
+                            </div>
+                            <p className="text-sm text-gray-700 bg-gray-50 rounded px-3 py-2 mb-3">
+                                {describeRule(badge, seriesList)}
+                            </p>
+                            <div className={`self-start px-2.5 py-1 rounded-full text-xs font-semibold ${
+                                badge.status === 'published'
+                                    ? 'bg-green-100 text-green-700'
+                                    : 'bg-gray-100 text-gray-600'
+                            }`}>
+                                {badge.status === 'published' ? 'Published' : 'Draft'}
+                            </div>
+                            <div className="flex gap-2 mt-auto pt-4">
+                                <button
+                                    onClick={() => handleOpenModal(badge)}
+                                    className="flex-1 bg-indigo-600 text-white px-3 py-2 rounded hover:bg-indigo-700 transition flex items-center justify-center gap-2"
+                                >
+                                    <Edit className="w-4 h-4" />
+                                    Edit
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(badge._id)}
+                                    disabled={deleting === badge._id}
+                                    className="flex-1 bg-red-600 text-white px-3 py-2 rounded hover:bg-red-700 transition disabled:opacity-50 flex items-center justify-center gap-2"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                    {deleting === badge._id ? 'Deleting...' : 'Delete'}
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Modal */}
+            {showModal && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 max-h-[90vh] overflow-y-auto">
+                        <h2 className="text-2xl font-bold text-gray-800 mb-4">
+                            {editingBadge ? 'Edit Badge' : 'Create Badge'}
+                        </h2>
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">
+                                    Title *
+                                </label>
+                                <input
+                                    type="text"
+                                    value={formData.title}
+                                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                    placeholder="Old Testament Explorer"
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">
+                                    Description <span className="text-gray-500 font-normal">(shown when it's earned)</span>
+                                </label>
+                                <textarea
+                                    value={formData.description}
+                                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                    rows={2}
+                                />
+                            </div>
+                            <div className="flex gap-4">
+                                <div className="w-24">
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                                        Icon
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={formData.icon}
+                                        onChange={(e) => setFormData({ ...formData, icon: e.target.value })}
+                                        className="w-full px-4 py-2 border border-gray-300 rounded-lg text-center text-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                        maxLength={2}
+                                    />
+                                </div>
+                                <div className="flex-1">
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                                        Color
+                                    </label>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="color"
+                                            value={formData.color}
+                                            onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+                                            className="w-16 h-10 border border-gray-300 rounded cursor-pointer"
+                                        />
+                                        <input
+                                            type="text"
+                                            value={formData.color}
+                                            onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+                                            className="flex-1 min-w-0 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                        />
+                                    </div>
+                                </div>
+                            </div>
+
+                            {/* Rule */}
+                            <div className="bg-indigo-50 rounded-lg p-4 space-y-3">
+                                <label className="block text-sm font-medium text-gray-700">
+                                    Earned when a kid reaches *
+                                </label>
+                                <select
+                                    value={formData.metric}
+                                    onChange={(e) => setFormData({ ...formData, metric: e.target.value as ApiBadgeMetric })}
+                                    className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                >
+                                    {BADGE_METRICS.map(metric => (
+                                        <option key={metric} value={metric}>{METRIC_LABELS[metric]}</option>
+                                    ))}
+                                </select>
+                                {formData.metric === 'seriesCompleted' ? (
+                                    <select
+                                        value={formData.series}
+                                        onChange={(e) => setFormData({ ...formData, series: e.target.value })}
+                                        className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                        required
+                                    >
+                                        <option value="">Choose a series...</option>
+                                        {seriesList.map(series => (
+                                            <option key={series._id} value={series._id}>{series.title}</option>
+                                        ))}
+                                    </select>
+                                ) : (
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            value={formData.target}
+                                            onChange={(e) => setFormData({ ...formData, target: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                                            className="w-24 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                        />
+                                        <span className="text-sm text-gray-600">{METRIC_LABELS[formData.metric].toLowerCase()}</span>
+                                    </div>
+                                )}
+                                {formData.metric === 'booksRead' && (
+                                    <select
+                                        value={formData.category}
+                                        onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                                        className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                    >
+                                        <option value="">In any category</option>
+                                        {categories.map(category => (
+                                            <option key={category._id} value={category.name}>In {category.name}</option>
+                                        ))}
+                                    </select>
+                                )}
+                            </div>
+
+                            <div className="flex gap-4">
+                                <div className="flex-1">
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                                        Status
+                                    </label>
+                                    <select
+                                        value={formData.status}
+                                        onChange={(e) => setFormData({ ...formData, status: e.target.value as 'draft' | 'published' })}
+                                        className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                    >
+                                        <option value="draft">Draft</option>
+                                        <option value="published">Published</option>
+                                    </select>
+                                </div>
+                                <div className="w-28">
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                                        Order
+                                    </label>
+                                    <input
+                                        type="number"
+                                        value={formData.displayOrder}
+                                        onChange={(e) => setFormData({ ...formData, displayOrder: parseInt(e.target.value, 10) || 0 })}
+                                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                    />
+                                </div>
+                            </div>
+                            <div className="flex gap-4 pt-4">
+                                <button
+                                    type="button"
+                                    onClick={handleCloseModal}
+                                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={saving}
+                                    className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                                >
+                                    {saving ? 'Saving...' : editingBadge ? 'Update' : 'Create'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default Badges;
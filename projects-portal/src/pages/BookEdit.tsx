@@ -1,8 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { Plus, Upload, X, Music, Gamepad2, Globe, Trash2, Video, Volume2, Gift } from 'lucide-react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { Plus, Upload, X, Music, Gamepad2, Globe, Trash2, Video, Volume2, Gift, History, Mic } from 'lucide-react';
 import apiClient from '../services/apiClient';
+import { useAuth } from '../contexts/AuthContext';
 import ContentAnalytics from '../components/ContentAnalytics';
+import BookExportMenu from '../components/BookExportMenu';
 
 interface Voice {
     _id?: string;
@@ -15,6 +17,7 @@ interface Voice {
 }
 
 const BookEdit: React.FC = () => {
+    const { can } = useAuth();
     const { bookId } = useParams<{ bookId: string }>();
     const navigate = useNavigate();
 
@@ -27,6 +30,9 @@ const BookEdit: React.FC = () => {
     const [category, setCategory] = useState('Other');
     const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
     const [status, setStatus] = useState('draft');
+    // Status as loaded - edits to a published book are saved as a draft
+    const [liveStatus, setLiveStatus] = useState('draft');
+    const [hasDraft, setHasDraft] = useState(false);
     const [orientation, setOrientation] = useState<'portrait' | 'landscape'>('portrait');
     const [isMembersOnly, setIsMembersOnly] = useState(false);
     const [loading, setLoading] = useState(false);
@@ -81,7 +87,7 @@ const BookEdit: React.FC = () => {
         const fetchBook = async () => {
             if (!bookId) return;
             try {
-                const res = await apiClient.get(`/api/books/${bookId}`);
+                const res = await apiClient.get(`/api/books/${bookId}?draft=true`);
                 const b = res.data;
                 setTitle(b.title || '');
                 setAuthor(b.author || '');
@@ -91,6 +97,8 @@ const BookEdit: React.FC = () => {
                 setMinAge(b.minAge ?? '');
                 setCategory(b.category || 'Other');
                 setStatus(b.status || 'draft');
+                setLiveStatus(b.status || 'draft');
+                setHasDraft(!!b.hasDraft);
                 setOrientation(b.orientation || 'portrait');
                 setIsMembersOnly(b.isMembersOnly || false);
                 
@@ -471,7 +479,7 @@ const BookEdit: React.FC = () => {
                 goalTags: goalTags, // Learning goal tags for daily session matching
             };
             console.log('Updating book with payload:', payload);
-            await apiClient.put(`/api/books/${bookId}`, payload);
+            await apiClient.put(`/api/books/${bookId}?draft=true`, payload);
             navigate('/books');
         } catch (err) {
             console.error('Error updating book:', err);
@@ -487,7 +495,34 @@ const BookEdit: React.FC = () => {
 
     return (
         <div className="max-w-4xl mx-auto p-6">
-            <h2 className="text-3xl font-bold text-gray-800 mb-6">Edit Book</h2>
+            <div className="flex items-center justify-between mb-6">
+                <h2 className="text-3xl font-bold text-gray-800">Edit Book</h2>
+                <div className="flex items-center gap-6">
+                    {bookId && <BookExportMenu bookId={bookId} />}
+                    <Link
+                        to={`/books/narration/${bookId}`}
+                        className="flex items-center gap-2 text-indigo-600 hover:text-indigo-800 font-medium"
+                    >
+                        <Mic className="w-5 h-5" />
+                        Read-along
+                    </Link>
+                    <Link
+                        to={`/books/revisions/${bookId}`}
+                        className="flex items-center gap-2 text-indigo-600 hover:text-indigo-800 font-medium"
+                    >
+                        <History className="w-5 h-5" />
+                        Revisions
+                    </Link>
+                </div>
+            </div>
+
+            {liveStatus === 'published' && (
+                <div className="mb-6 p-4 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 text-sm">
+                    {hasDraft ? 'This book has unpublished changes. ' : ''}
+                    Saving keeps your changes as a draft - families see them once you publish from{' '}
+                    <Link to={`/books/revisions/${bookId}`} className="font-semibold underline">Revisions</Link>.
+                </div>
+            )}
             
             {/* Analytics Section */}
             {bookId && (
@@ -659,7 +694,7 @@ const BookEdit: React.FC = () => {
                             className="w-full rounded-md border border-gray-300 bg-white text-gray-900 text-base focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent px-4 py-3 transition cursor-pointer min-h-[44px]"
                         >
                             <option value="draft">Draft</option>
-                            <option value="published">Published</option>
+                            <option value="published" disabled={!can('books.publish')}>Published</option>
                             <option value="archived">Archived</option>
                         </select>
                     </div>
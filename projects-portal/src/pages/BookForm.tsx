@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Upload, ArrowLeft, Save, Video, X } from 'lucide-react';
 import apiClient from '../services/apiClient';
+import { useAuth } from '../contexts/AuthContext';
 
 interface BookFormData {
     title: string;
@@ -22,6 +23,7 @@ interface Category {
 }
 
 const BookForm: React.FC = () => {
+    const { can } = useAuth();
     const navigate = useNavigate();
     const [loading, setLoading] = useState(false);
     const [uploading, setUploading] = useState(false);
@@ -418,7 +420,7 @@ const BookForm: React.FC = () => {
                             className="w-full px-4 py-3 text-base border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white cursor-pointer min-h-[44px]"
                         >
                             <option value="draft">Draft</option>
-                            <option value="published">Published</option>
+                            <option value="published" disabled={!can('books.publish')}>Published</option>
                             <option value="archived">Archived</option>
                         </select>
                     </div>
@@ -0,0 +1,375 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, FileArchive, Upload, AlertTriangle, Volume2, Video, Users } from 'lucide-react';
+import apiClient, { api, getMediaUrl } from '../services/apiClient';
+import {
+    parseBookPackage,
+    importBookPackage,
+    layoutPage,
+    findCharacters,
+    DEFAULT_TEMPLATE,
+} from '../services/bookPackage';
+import type { BookPackage, ImportProgress, PageTemplate } from '../services/bookPackage';
+
+interface Category {
+    _id: string;
+    name: string;
+}
+
+interface SavedTemplate {
+    bookId: string;
+    label: string;
+    template: PageTemplate;
+}
+
+const TEMPLATE_PREFIX = 'pageTemplate_';
+
+// Layouts saved in PageEditor ("Reuse Layout") for other books on this computer
+const readSavedTemplates = (): { bookId: string; template: PageTemplate }[] => {
+    const templates: { bookId: string; template: PageTemplate }[] = [];
+    try {
+        for (let i = 0; i < localStorage.length; i++) {
+            const key = localStorage.key(i);
+            if (!key?.startsWith(TEMPLATE_PREFIX)) continue;
+            const template = JSON.parse(localStorage.getItem(key) || 'null');
+            if (template && Array.isArray(template.textBoxes)) {
+                templates.push({ bookId: key.slice(TEMPLATE_PREFIX.length), template });
+            }
+        }
+    } catch (error) {
+        console.warn('⚠️ Could not read saved page templates:', error);
+    }
+    return templates;
+};
+
+const BookImport: React.FC = () => {
+    const navigate = useNavigate();
+    const [pkg, setPkg] = useState<BookPackage | null>(null);
+    const [fileName, setFileName] = useState('');
+    const [parsing, setParsing] = useState(false);
+    const [error, setError] = useState('');
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [savedTemplates, setSavedTemplates] = useState<SavedTemplate[]>([]);
+    const [templateId, setTemplateId] = useState('');
+    const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+    useEffect(() => {
+        apiClient.get('/api/categories?type=book')
+            .then(res => setCategories(res.data))
+            .catch(err => console.error('Error fetching categories:', err));
+
+        const templates = readSavedTemplates();
+        if (templates.length === 0) return;
+        api.books.list({ status: 'all', page: 1, limit: 100 })
+            .then(payload => {
+                const titles = new Map((payload.data || []).map(book => [book._id, book.title]));
+                setSavedTemplates(templates.map(({ bookId, template }) => ({
+                    bookId,
+                    template,
+                    label: titles.get(bookId) || `Book ${bookId.slice(-6)}`,
+                })));
+            })
+            .catch(err => console.error('Error fetching books for templates:', err));
+    }, []);
+
+    const template = savedTemplates.find(t => t.bookId === templateId)?.template || DEFAULT_TEMPLATE;
+
+    // Local previews of the package media
+    const previews = useMemo(() => {
+        const urls = new Map<File, string>();
+        if (!pkg) return urls;
+        [pkg.cover, pkg.scrollImage, ...pkg.pages.map(page => page.background)].forEach(file => {
+            if (file) urls.set(file, URL.createObjectURL(file));
+        });
+        return urls;
+    }, [pkg]);
+
+    useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+    const characters = useMemo(() => (pkg ? findCharacters(pkg.pages) : []), [pkg]);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setFileName(file.name);
+        setParsing(true);
+        setError('');
+        setPkg(null);
+        try {
+            const parsed = await parseBookPackage(file);
+            if (parsed.pages.length === 0) {
+                setError('No pages were found in this package');
+            } else {
+                if (!parsed.book.category && categories.length > 0) {
+                    parsed.book.category = categories[0].name;
+                }
+                setPkg(parsed);
+            }
+        } catch (err) {
+            console.error('Failed to read book package:', err);
+            setError(err instanceof Error ? err.message : 'Failed to read this file');
+        } finally {
+            setParsing(false);
+        }
+    };
+
+    const updateBook = (changes: Partial<BookPackage['book']>) => {
+        if (!pkg) return;
+        setPkg({ ...pkg, book: { ...pkg.book, ...changes } });
+    };
+
+    const handleImport = async () => {
+        if (!pkg) return;
+        if (!pkg.book.title.trim() || !pkg.book.author.trim()) {
+            alert('Title and author are required');
+            return;
+        }
+        try {
+            const bookId = await importBookPackage(pkg, template, setProgress);
+            navigate(`/books/edit/${bookId}`);
+        } catch (err) {
+            console.error('Book import failed:', err);
+            const message = err instanceof Error ? err.message : 'Unknown error';
+            alert(`The import stopped part way (${message}). Anything already created is saved as a draft book - check it on the Books page.`);
+            setProgress(null);
+        }
+    };
+
+    const scrollPreview = pkg?.scrollImage ? previews.get(pkg.scrollImage) : getMediaUrl(template.scrollUrl);
+
+    return (
+        <div className="max-w-6xl space-y-6">
+            <div className="flex items-center gap-4">
+                <Link to="/books" className="text-gray-500 hover:text-gray-700">
+                    <ArrowLeft className="w-6 h-6" />
+                </Link>
+                <div>
+                    <h1 className="text-3xl font-bold text-gray-800">Import Book</h1>
+                    <p className="text-gray-500">
+                        Upload a ZIP with page images/videos and a <code className="bg-gray-100 px-1 rounded">book.json</code> manifest, or a fixed-layout EPUB 3
+                    </p>
+                </div>
+            </div>
+
+            {/* File */}
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-8 bg-white cursor-pointer hover:border-indigo-400 transition-colors">
+                <FileArchive className="w-10 h-10 text-indigo-500 mb-2" />
+                <span className="font-medium text-gray-700">{fileName || 'Choose a .zip or .epub file'}</span>
+                <span className="text-sm text-gray-500">{parsing ? 'Reading package...' : 'Nothing is uploaded until you confirm the import'}</span>
+                <input type="file" accept=".zip,.epub" onChange={handleFile} className="hidden" disabled={parsing || !!progress} />
+            </label>
+
+            {error && (
+                <div className="p-4 rounded-lg bg-red-50 border border-red-200 text-red-700">{error}</div>
+            )}
+
+            {pkg && (
+                <>
+                    {/* Book details */}
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 grid grid-cols-1 md:grid-cols-[160px_1fr] gap-6">
+                        <div>
+                            {pkg.cover ? (
+                                <img src={previews.get(pkg.cover)} alt="Cover" className="w-40 h-56 object-cover rounded-lg border" />
+                            ) : (
+                                <div className="w-40 h-56 rounded-lg border border-dashed border-gray-300 flex items-center justify-center text-sm text-gray-400 text-center p-2">
+                                    No cover in package
+                                </div>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="col-span-2">
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                                <input
+                                    type="text"
+                                    value={pkg.book.title}
+                                    onChange={e => updateBook({ title: e.target.value })}
+                                    className="w-full border border-gray-300 rounded-lg px-3 py-2"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Author</label>
+                                <input
+                                    type="text"
+                                    value={pkg.book.author}
+                                    onChange={e => updateBook({ author: e.target.value })}
+                                    className="w-full border border-gray-300 rounded-lg px-3 py-2"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                                <select
+                                    value={pkg.book.category}
+                                    onChange={e => updateBook({ category: e.target.value })}
+                                    className="w-full border border-gray-300 rounded-lg px-3 py-2 bg-white"
+                                >
+                                    {pkg.book.category && !categories.some(c => c.name === pkg.book.category) && (
+                                        <option value={pkg.book.category}>{pkg.book.category}</option>
+                                    )}
+                                    {categories.map(category => (
+                                        <option key={category._id} value={category.name}>{category.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Minimum Age</label>
+                                <input
+                                    type="number"
+                                    value={pkg.book.minAge}
+                                    onChange={e => updateBook({ minAge: parseInt(e.target.value) || 0 })}
+                                    className="w-full border border-gray-300 rounded-lg px-3 py-2"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Orientation</label>
+                                <select
+                                    value={pkg.book.orientation}
+                                    onChange={e => updateBook({ orientation: e.target.value as 'portrait' | 'landscape' })}
+                                    className="w-full border border-gray-300 rounded-lg px-3 py-2 bg-white"
+                                >
+                                    <option value="portrait">📱 Portrait</option>
+                                    <option value="landscape">📺 Landscape</option>
+                                </select>
+                            </div>
+                            <div className="col-span-2">
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                                <textarea
+                                    value={pkg.book.description}
+                                    onChange={e => updateBook({ description: e.target.value })}
+                                    rows={2}
+                                    className="w-full border border-gray-300 rounded-lg px-3 py-2"
+                                />
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Layout */}
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex flex-wrap items-end gap-6">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Page template</label>
+                            <select
+                                value={templateId}
+                                onChange={e => setTemplateId(e.target.value)}
+                                className="border border-gray-300 rounded-lg px-3 py-2 bg-white min-w-[240px]"
+                            >
+                                <option value="">Default layout</option>
+                                {savedTemplates.map(saved => (
+                                    <option key={saved.bookId} value={saved.bookId}>Layout from “{saved.label}”</option>
+                                ))}
+                            </select>
+                        </div>
+                        <p className="text-sm text-gray-500 flex-1 min-w-[240px]">
+                            Page text without a position goes into the template's text boxes
+                            {pkg.scrollImage ? '. The package has its own scroll image.' : ', over the template\'s scroll.'}
+                        </p>
+                        {characters.length > 0 && (
+                            <div className="text-sm text-gray-600 flex items-center gap-2">
+                                <Users className="w-4 h-4 text-indigo-500" />
+                                Characters: {characters.map(name => `@${name}`).join(', ')}
+                                <span className="text-gray-400">- assign voices in the book editor after import</span>
+                            </div>
+                        )}
+                    </div>
+
+                    {pkg.warnings.length > 0 && (
+                        <div className="p-4 rounded-lg bg-amber-50 border border-amber-200 text-amber-800 text-sm space-y-1">
+                            {pkg.warnings.map(warning => (
+                                <p key={warning} className="flex items-start gap-2">
+                                    <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                                    {warning}
+                                </p>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Page preview */}
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-800 mb-3">{pkg.pages.length} pages</h2>
+                        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                            {pkg.pages.map(page => {
+                                const backgroundUrl = page.background ? previews.get(page.background) : undefined;
+                                return (
+                                    <div key={page.pageNumber} className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                                        <div className={`relative bg-gray-900 ${pkg.book.orientation === 'landscape' ? 'aspect-[4/3]' : 'aspect-[3/4]'}`}>
+                                            {backgroundUrl && (page.backgroundType === 'video' ? (
+                                                <video src={backgroundUrl} className="absolute inset-0 w-full h-full object-cover" muted />
+                                            ) : (
+                                                <img src={backgroundUrl} alt={`Page ${page.pageNumber}`} className="absolute inset-0 w-full h-full object-cover" />
+                                            ))}
+                                            {page.useScroll && scrollPreview && (
+                                                <img
+                                                    src={scrollPreview}
+                                                    alt=""
+                                                    className="absolute bottom-0 left-0 w-full object-fill"
+                                                    style={{ height: `${page.scroll?.height ?? (pkg.scrollImage ? pkg.scrollSettings.height : template.scrollHeight)}%` }}
+                                                />
+                                            )}
+                                            {layoutPage(page, template).map((box, index) => (
+                                                <div
+                                                    key={index}
+                                                    className="absolute leading-tight"
+                                                    style={{
+                                                        left: `${box.x}%`,
+                                                        top: `${box.y}%`,
+                                                        width: `${box.width}%`,
+                                                        textAlign: box.alignment,
+                                                        fontFamily: box.fontFamily,
+                                                        color: box.color,
+                                                        // Thumbnails are roughly a quarter of the editor canvas
+                                                        fontSize: `${Math.max(8, box.fontSize / 3)}px`,
+                                                    }}
+                                                >
+                                                    {box.text}
+                                                </div>
+                                            ))}
+                                        </div>
+                                        <div className="px-3 py-2 flex items-center justify-between text-sm text-gray-600">
+                                            <span>Page {page.pageNumber}</span>
+                                            <span className="flex items-center gap-2 text-gray-400">
+                                                {page.backgroundType === 'video' && <Video className="w-4 h-4" />}
+                                                {page.soundEffect && <Volume2 className="w-4 h-4" />}
+                                                {!page.background && <span className="text-amber-600">No background</span>}
+                                            </span>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    {/* Commit */}
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex items-center justify-between gap-6">
+                        {progress ? (
+                            <div className="flex-1">
+                                <div className="flex justify-between text-sm text-gray-600 mb-1">
+                                    <span>{progress.step}</span>
+                                    <span>{progress.done} / {progress.total}</span>
+                                </div>
+                                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full bg-indigo-600 transition-all"
+                                        style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                                    />
+                                </div>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-gray-500">
+                                The book is created as a draft so you can check it in the editor before publishing.
+                            </p>
+                        )}
+                        <button
+                            onClick={handleImport}
+                            disabled={!!progress}
+                            className="flex items-center gap-2 bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50 whitespace-nowrap"
+                        >
+                            <Upload className="w-4 h-4" />
+                            {progress ? 'Importing...' : `Import ${pkg.pages.length} pages`}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default BookImport;
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { apiClient, getMediaUrl } from '../services/apiClient';
 import { ChevronLeft, ChevronRight, X, Play, Square, Volume2, ChevronDown } from 'lucide-react';
+import BookExportMenu from '../components/BookExportMenu';
 
 interface Voice {
     voice_id: string;
@@ -111,7 +112,7 @@ const BookReader: React.FC = () => {
         const fetchPages = async () => {
             if (!bookId) return;
             try {
-                const res = await apiClient.get(`/api/pages/book/${bookId}`);
+                const res = await apiClient.get(`/api/pages/book/${bookId}?draft=true`);
                 setPages(res.data);
             } catch (err) {
                 console.error('Failed to fetch pages:', err);
@@ -423,6 +424,7 @@ const BookReader: React.FC = () => {
                     <div className="text-gray-400 text-sm">
                         Page {currentPageIndex + 1} / {pages.length}
                     </div>
+                    {bookId && <BookExportMenu bookId={bookId} variant="dark" />}
                 </div>
             </div>
 
@@ -0,0 +1,477 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { ArrowLeft, History, Send, Clock, X, RotateCcw, Eye } from 'lucide-react';
+import axios from 'axios';
+import apiClient, { getMediaUrl } from '../services/apiClient';
+import Can from '../components/Can';
+import { useAuth } from '../contexts/AuthContext';
+
+type RevisionSource = 'manual' | 'scheduled' | 'rollback' | 'baseline';
+type PageChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+interface Revision {
+    number: number;
+    note: string;
+    source: RevisionSource;
+    restoredFrom: number | null;
+    publishedAt: string;
+    pageCount: number;
+}
+
+interface RevisionState {
+    status: string;
+    publishedRevision: number | null;
+    scheduledPublishAt: string | null;
+    draftUpdatedAt: string | null;
+    hasDraft: boolean;
+    revisions: Revision[];
+}
+
+interface PageSummary {
+    pageNumber: number;
+    text: string;
+    backgroundUrl: string | null;
+    backgroundType: 'image' | 'video';
+}
+
+interface PageDiff {
+    pageId: string;
+    status: PageChange;
+    fields: string[];
+    before: PageSummary | null;
+    after: PageSummary | null;
+}
+
+interface BookDiff {
+    against: number | null;
+    book: { field: string; before: unknown; after: unknown }[];
+    pages: PageDiff[];
+    summary: { bookFields: number; added: number; removed: number; changed: number; unchanged: number };
+    hasChanges: boolean;
+}
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+    manual: 'Published',
+    scheduled: 'Scheduled',
+    rollback: 'Rollback',
+    baseline: 'Before drafts',
+};
+
+const CHANGE_STYLES: Record<PageChange, string> = {
+    added: 'bg-green-100 text-green-800 border-green-200',
+    removed: 'bg-red-100 text-red-800 border-red-200',
+    changed: 'bg-amber-100 text-amber-800 border-amber-200',
+    unchanged: 'bg-gray-100 text-gray-600 border-gray-200',
+};
+
+// Friendlier names for the page fields editors touch most
+const FIELD_LABELS: Record<string, string> = {
+    pageNumber: 'Page order',
+    content: 'Text',
+    textBoxes: 'Text boxes',
+    files: 'Media',
+    backgroundUrl: 'Background',
+    backgroundType: 'Background type',
+    imageUrl: 'Image',
+    audioUrl: 'Narration',
+    scrollUrl: 'Scroll',
+    soundEffectUrl: 'Sound effect',
+    backgroundAudioUrl: 'Background audio',
+    videoSequence: 'Video sequence',
+    imageSequence: 'Image sequence',
+    webView: 'Web view',
+    isColoringPage: 'Coloring page',
+    coverImage: 'Cover image',
+    bookGames: 'Book games',
+    bookVideos: 'Book videos',
+    characterVoices: 'Character voices',
+};
+
+const fieldLabel = (field: string): string => FIELD_LABELS[field] || field;
+
+const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
+const formatDate = (value: string): string => new Date(value).toLocaleString();
+
+// The backend's { message }, if the request got that far
+const errorMessage = (error: unknown, fallback: string): string =>
+    (axios.isAxiosError(error) && error.response?.data?.message) || fallback;
+
+const PageSide: React.FC<{ label: string; page: PageSummary | null }> = ({ label, page }) => (
+    <div className="flex-1 min-w-0">
+        <p className="text-xs font-semibold text-gray-500 uppercase mb-1">{label}</p>
+        {page ? (
+            <>
+                <div className="aspect-[4/3] bg-gray-100 rounded overflow-hidden mb-1 flex items-center justify-center">
+                    {page.backgroundUrl ? (
+                        page.backgroundType === 'video' ? (
+                            <video src={getMediaUrl(page.backgroundUrl)} muted className="w-full h-full object-cover" />
+                        ) : (
+                            <img src={getMediaUrl(page.backgroundUrl)} alt="" className="w-full h-full object-cover" />
+                        )
+                    ) : (
+                        <span className="text-xs text-gray-400">No background</span>
+                    )}
+                </div>
+                <p className="text-xs text-gray-600 line-clamp-3">{page.text || <em className="text-gray-400">No text</em>}</p>
+            </>
+        ) : (
+            <div className="aspect-[4/3] bg-gray-50 border border-dashed border-gray-300 rounded flex items-center justify-center">
+                <span className="text-xs text-gray-400">—</span>
+            </div>
+        )}
+    </div>
+);
+
+const BookRevisions: React.FC = () => {
+    const { bookId } = useParams<{ bookId: string }>();
+    const { can } = useAuth();
+    const [title, setTitle] = useState('');
+    const [state, setState] = useState<RevisionState | null>(null);
+    const [diff, setDiff] = useState<BookDiff | null>(null);
+    const [against, setAgainst] = useState<number | null>(null);
+    const [showUnchanged, setShowUnchanged] = useState(false);
+    const [note, setNote] = useState('');
+    const [publishAt, setPublishAt] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [working, setWorking] = useState(false);
+
+    const fetchState = useCallback(async () => {
+        if (!bookId) return;
+        try {
+            const [bookRes, revisionsRes] = await Promise.all([
+                apiClient.get(`/api/books/${bookId}?draft=true`),
+                apiClient.get(`/api/books/${bookId}/revisions`),
+            ]);
+            setTitle(bookRes.data.title || '');
+            setState(revisionsRes.data);
+        } catch (error) {
+            console.error('Error fetching revisions:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [bookId]);
+
+    const fetchDiff = useCallback(async () => {
+        if (!bookId) return;
+        try {
+            const res = await apiClient.get(`/api/books/${bookId}/revisions/diff`, {
+                params: against ? { against } : undefined,
+            });
+            setDiff(res.data);
+        } catch (error) {
+            console.error('Error fetching diff:', error);
+        }
+    }, [bookId, against]);
+
+    useEffect(() => {
+        fetchState();
+    }, [fetchState]);
+
+    useEffect(() => {
+        fetchDiff();
+    }, [fetchDiff]);
+
+    const refresh = async () => {
+        setAgainst(null);
+        await Promise.all([fetchState(), fetchDiff()]);
+    };
+
+    const handlePublish = async () => {
+        if (!confirm('Publish the draft now? Families will see these changes right away.')) return;
+        setWorking(true);
+        try {
+            await apiClient.post(`/api/books/${bookId}/publish`, { note });
+            setNote('');
+            await refresh();
+        } catch (error) {
+            alert(errorMessage(error, 'Failed to publish'));
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleSchedule = async () => {
+        if (!publishAt) return;
+        setWorking(true);
+        try {
+            await apiClient.put(`/api/books/${bookId}/schedule`, { publishAt: new Date(publishAt).toISOString() });
+            setPublishAt('');
+            await fetchState();
+        } catch (error) {
+            alert(errorMessage(error, 'Failed to schedule publish'));
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleCancelSchedule = async () => {
+        setWorking(true);
+        try {
+            await apiClient.delete(`/api/books/${bookId}/schedule`);
+            await fetchState();
+        } catch (error) {
+            alert(errorMessage(error, 'Failed to cancel the schedule'));
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleRollback = async (revision: Revision) => {
+        if (!confirm(`Roll back to revision ${revision.number}? This replaces the current draft and publishes revision ${revision.number}'s book details and pages.`)) return;
+        setWorking(true);
+        try {
+            await apiClient.post(`/api/books/${bookId}/revisions/${revision.number}/rollback`, { note });
+            setNote('');
+            await refresh();
+        } catch (error) {
+            alert(errorMessage(error, 'Failed to roll back'));
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    if (loading) {
+        return <div className="p-6 text-center">Loading revisions...</div>;
+    }
+
+    if (!state) {
+        return <div className="p-6 text-center text-gray-500">Book not found.</div>;
+    }
+
+    const visiblePages = diff ? diff.pages.filter(p => showUnchanged || p.status !== 'unchanged') : [];
+
+    return (
+        <div className="max-w-5xl mx-auto p-6 space-y-6">
+            <div>
+                <Link to={`/books/edit/${bookId}`} className="text-sm text-indigo-600 hover:text-indigo-800 flex items-center gap-1 mb-2">
+                    <ArrowLeft className="w-4 h-4" />
+                    Back to book
+                </Link>
+                <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
+                    <History className="w-7 h-7 text-indigo-600" />
+                    Revisions{title ? `: ${title}` : ''}
+                </h1>
+                <p className="text-gray-600 mt-1">
+                    {state.publishedRevision
+                        ? `Families are reading revision ${state.publishedRevision}.`
+                        : 'This book has not been published as a revision yet.'}
+                    {state.status !== 'published' && ' The book is not published, so edits are saved directly.'}
+                </p>
+            </div>
+
+            {/* Publish */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-semibold text-gray-800">Draft</h2>
+                    {state.draftUpdatedAt && (
+                        <span className="text-sm text-gray-500">Last saved {formatDate(state.draftUpdatedAt)}</span>
+                    )}
+                </div>
+
+                <input
+                    type="text"
+                    value={note}
+                    onChange={e => setNote(e.target.value)}
+                    placeholder="What changed? (optional)"
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2"
+                />
+
+                <Can
+                    capability="books.publish"
+                    fallback={<p className="text-sm text-gray-500">Your role can edit this draft, but someone who can publish books needs to put it live.</p>}
+                >
+                    <div className="flex flex-wrap items-center gap-3">
+                        <button
+                            onClick={handlePublish}
+                            disabled={working}
+                            className="flex items-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50"
+                        >
+                            <Send className="w-4 h-4" />
+                            Publish now
+                        </button>
+
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="datetime-local"
+                                value={publishAt}
+                                onChange={e => setPublishAt(e.target.value)}
+                                className="border border-gray-300 rounded-lg px-3 py-2"
+                            />
+                            <button
+                                onClick={handleSchedule}
+                                disabled={working || !publishAt}
+                                className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                            >
+                                <Clock className="w-4 h-4" />
+                                Schedule
+                            </button>
+                        </div>
+                    </div>
+                </Can>
+
+                {state.scheduledPublishAt && (
+                    <div className="flex items-center justify-between p-3 rounded-lg bg-indigo-50 border border-indigo-200 text-indigo-800 text-sm">
+                        <span className="flex items-center gap-2">
+                            <Clock className="w-4 h-4" />
+                            The draft will publish on {formatDate(state.scheduledPublishAt)}
+                        </span>
+                        <Can capability="books.publish">
+                            <button
+                                onClick={handleCancelSchedule}
+                                disabled={working}
+                                className="flex items-center gap-1 text-indigo-700 hover:text-indigo-900 disabled:opacity-50"
+                            >
+                                <X className="w-4 h-4" />
+                                Cancel
+                            </button>
+                        </Can>
+                    </div>
+                )}
+            </div>
+
+            {/* Diff */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h2 className="text-lg font-semibold text-gray-800">
+                        {diff?.against ? `Draft vs revision ${diff.against}` : 'Draft'}
+                        {diff?.against === state.publishedRevision && diff?.against ? ' (live)' : ''}
+                    </h2>
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                        <input
+                            type="checkbox"
+                            checked={showUnchanged}
+                            onChange={e => setShowUnchanged(e.target.checked)}
+                        />
+                        Show unchanged pages
+                    </label>
+                </div>
+
+                {!diff ? (
+                    <p className="text-gray-500 text-sm">Loading changes...</p>
+                ) : !diff.hasChanges ? (
+                    <p className="text-gray-500 text-sm">No changes - the draft matches this revision.</p>
+                ) : (
+                    <p className="text-sm text-gray-600">
+                        {diff.summary.bookFields} book field{diff.summary.bookFields === 1 ? '' : 's'} ·{' '}
+                        {diff.summary.changed} page{diff.summary.changed === 1 ? '' : 's'} changed ·{' '}
+                        {diff.summary.added} added · {diff.summary.removed} removed
+                    </p>
+                )}
+
+                {diff && diff.book.length > 0 && (
+                    <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                        {diff.book.map(change => (
+                            <div key={change.field} className="grid grid-cols-3 gap-4 p-3 text-sm">
+                                <span className="font-medium text-gray-700">{fieldLabel(change.field)}</span>
+                                <span className="text-red-700 line-through break-words">{formatValue(change.before)}</span>
+                                <span className="text-green-700 break-words">{formatValue(change.after)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {visiblePages.map(page => {
+                        const moved = page.before && page.after && page.before.pageNumber !== page.after.pageNumber;
+                        return (
+                            <div key={page.pageId} className="border border-gray-200 rounded-lg p-4">
+                                <div className="flex items-center justify-between mb-3">
+                                    <span className="font-semibold text-gray-800">
+                                        Page {(page.after || page.before)?.pageNumber}
+                                        {moved && <span className="text-xs text-gray-500 font-normal"> (was {page.before?.pageNumber})</span>}
+                                    </span>
+                                    <span className={`text-xs px-2 py-0.5 rounded-full border ${CHANGE_STYLES[page.status]}`}>
+                                        {page.status}
+                                    </span>
+                                </div>
+                                <div className="flex gap-3">
+                                    <PageSide label="Before" page={page.before} />
+                                    <PageSide label="After" page={page.after} />
+                                </div>
+                                {page.fields.length > 0 && (
+                                    <div className="flex flex-wrap gap-1 mt-3">
+                                        {page.fields.map(field => (
+                                            <span key={field} className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded">
+                                                {fieldLabel(field)}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {/* History */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                <h2 className="text-lg font-semibold text-gray-800 p-6 pb-4">History</h2>
+                {state.revisions.length === 0 ? (
+                    <p className="px-6 pb-6 text-sm text-gray-500">No revisions yet. Publishing the book records its first revision.</p>
+                ) : (
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">#</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Published</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Note</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pages</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {state.revisions.map(revision => (
+                                <tr key={revision.number} className={revision.number === state.publishedRevision ? 'bg-green-50' : ''}>
+                                    <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                                        {revision.number}
+                                        {revision.number === state.publishedRevision && (
+                                            <span className="ml-2 text-xs bg-green-100 text-green-800 px-2 py-0.5 rounded-full">Live</span>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-4 text-sm text-gray-600">
+                                        <div>{formatDate(revision.publishedAt)}</div>
+                                        <div className="text-xs text-gray-400">
+                                            {SOURCE_LABELS[revision.source]}
+                                            {revision.restoredFrom ? ` from #${revision.restoredFrom}` : ''}
+                                        </div>
+                                    </td>
+                                    <td className="px-6 py-4 text-sm text-gray-600">{revision.note || '—'}</td>
+                                    <td className="px-6 py-4 text-sm text-gray-600">{revision.pageCount}</td>
+                                    <td className="px-6 py-4 text-right text-sm">
+                                        <div className="flex justify-end gap-3">
+                                            <button
+                                                onClick={() => setAgainst(revision.number)}
+                                                className="flex items-center gap-1 text-indigo-600 hover:text-indigo-900"
+                                            >
+                                                <Eye className="w-4 h-4" />
+                                                Compare
+                                            </button>
+                                            {revision.number !== state.publishedRevision && can('books.publish') && (
+                                                <button
+                                                    onClick={() => handleRollback(revision)}
+                                                    disabled={working}
+                                                    className="flex items-center gap-1 text-red-600 hover:text-red-900 disabled:opacity-50"
+                                                >
+                                                    <RotateCcw className="w-4 h-4" />
+                                                    Roll back
+                                                </button>
+                                            )}
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default BookRevisions;
@@ -1,16 +1,11 @@
 import React, { useEffect, useState } from 'react';
-import { Plus, Trash2, List, BarChart3 } from 'lucide-react';
+import { Plus, Trash2, List, BarChart3, FileArchive } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import apiClient from '../services/apiClient';
+import { api } from '../services/apiClient';
+import type { ApiBook } from '../../../shared/api';
 import BooksAnalytics from '../components/BooksAnalytics';
 
-interface Book {
-    _id: string;
-    title: string;
-    author: string;
-    status: string;
-    coverImage?: string;
-}
+type Book = ApiBook;
 
 type TabView = 'list' | 'analytics';
 
@@ -27,18 +22,10 @@ const Books: React.FC = () => {
         let results: Book[] = [];
 
         while (true) {
-            const res = await apiClient.get(`/api/books?status=all&page=${page}&limit=${pageSize}`);
-            const payload = res.data;
+            const payload = await api.books.list({ status: 'all', page, limit: pageSize });
+            results = results.concat(payload.data || []);
 
-            // Support both paginated { data, pagination } and direct arrays
-            const pageItems: Book[] = Array.isArray(payload) ? payload : (payload.data || payload.books || []);
-            results = results.concat(pageItems);
-
-            const hasMore = Array.isArray(payload)
-                ? false
-                : Boolean(payload.pagination?.hasMore);
-
-            if (!hasMore) break;
+            if (!payload.pagination?.hasMore) break;
             page += 1;
         }
 
@@ -68,7 +55,7 @@ const Books: React.FC = () => {
 
         setDeletingBookId(bookId);
         try {
-            await apiClient.delete(`/api/books/${bookId}`);
+            await api.books.remove(bookId);
             // Remove the book from the list
             setBooks(books.filter(book => book._id !== bookId));
         } catch (error) {
@@ -110,6 +97,13 @@ const Books: React.FC = () => {
                         </button>
                     </div>
                     
+                    <Link
+                        to="/books/import"
+                        className="bg-white text-indigo-600 border border-indigo-200 px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-indigo-50 transition-colors"
+                    >
+                        <FileArchive className="w-5 h-5" />
+                        Import
+                    </Link>
                     <Link
                         to="/books/new"
                         className="bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-indigo-700 transition-colors"
@@ -174,6 +168,12 @@ const Books: React.FC = () => {
                                         >
                                             Read
                                         </Link>
+                                        <Link
+                                            to={`/books/revisions/${book._id}`}
+                                            className="bg-gray-600 text-white px-3 py-1 rounded hover:bg-gray-700 transition"
+                                        >
+                                            Revisions
+                                        </Link>
                                         <button
                                             onClick={(e) => {
                                                 e.preventDefault();
@@ -1,15 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { Plus, Edit, Trash2, Tag, BookOpen, Headphones } from 'lucide-react';
-import apiClient from '../services/apiClient';
+import apiClient, { api } from '../services/apiClient';
+import type { ApiCategory } from '../../../shared/api';
 
-interface Category {
-    _id: string;
-    name: string;
-    description?: string;
-    color: string;
-    icon?: string;
-    contentType: 'Book' | 'Audio';
-}
+type Category = ApiCategory;
 
 const Categories: React.FC = () => {
     const [categories, setCategories] = useState<Category[]>([]);
@@ -32,8 +26,8 @@ const Categories: React.FC = () => {
 
     const fetchCategories = async () => {
         try {
-            const response = await apiClient.get('/api/categories');
-            setCategories(response.data);
+            const data = await api.categories.list();
+            setCategories(data);
         } catch (error) {
             console.error('Error fetching categories:', error);
         } finally {
@@ -47,7 +41,7 @@ const Categories: React.FC = () => {
             setFormData({
                 name: category.name,
                 description: category.description || '',
-                color: category.color,
+                color: category.color || '#6366f1',
                 icon: category.icon || '',
                 contentType: category.contentType || 'Book',
             });
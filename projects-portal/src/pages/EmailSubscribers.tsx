@@ -14,6 +14,7 @@ import {
   ChevronRight
 } from 'lucide-react';
 import axios from 'axios';
+import { useAuth } from '../contexts/AuthContext';
 
 const API_URL = import.meta.env.VITE_API_URL || 'https://godlykids-backend.onrender.com';
 
@@ -40,6 +41,7 @@ interface Stats {
 }
 
 const EmailSubscribers: React.FC = () => {
+  const { can } = useAuth();
   const [subscribers, setSubscribers] = useState<EmailSubscriber[]>([]);
   const [stats, setStats] = useState<Stats | null>(null);
   const [loading, setLoading] = useState(true);
@@ -398,13 +400,15 @@ const EmailSubscribers: React.FC = () => {
                       {formatDate(sub.createdAt)}
                     </td>
                     <td className="px-6 py-4 text-right">
-                      <button
-                        onClick={() => handleDelete(sub._id)}
-                        className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                        title="Delete subscriber"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
+                      {can('subscribers.manage') && (
+                        <button
+                          onClick={() => handleDelete(sub._id)}
+                          className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete subscriber"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))}
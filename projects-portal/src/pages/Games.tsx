@@ -1,27 +1,9 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { Gamepad2, Play, Pause, RefreshCw, Edit2, Save, X, Plus, Globe, Upload, Coins } from 'lucide-react';
-import apiClient from '../services/apiClient';
-
-interface Game {
-    _id?: string;
-    gameId: string;
-    name: string;
-    enabled: boolean;
-    description?: string;
-    url?: string;
-    coverImage?: string;
-    showInDailyTasks?: boolean;
-    gameType?: 'modal' | 'webview';
-    settings?: any;
-    rewards?: {
-        threeStars: number;
-        twoStars: number;
-        oneStar: number;
-    };
-    isPurchasable?: boolean;
-    goldCoinPrice?: number;
-    ageRating?: string;
-}
+import apiClient, { api } from '../services/apiClient';
+import type { ApiGame } from '../../../shared/api';
+
+type Game = ApiGame;
 
 const AGE_OPTIONS = ['All Ages', '3+', '4+', '5+', '6+', '7+', '8+', '9+', '10+'];
 
@@ -60,8 +42,8 @@ const Games: React.FC = () => {
 
     const fetchGames = async () => {
         try {
-            const response = await apiClient.get('/api/games');
-            setGames(response.data || []);
+            const data = await api.games.list();
+            setGames(data || []);
         } catch (error: any) {
             console.error('Error fetching games:', error);
             // If it's a 404 or empty response, just set empty array
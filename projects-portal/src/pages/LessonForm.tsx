@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { ArrowLeft, Upload, Plus, Trash2, Save, Image as ImageIcon, BookOpen, Activity, Calendar, Sparkles, ChevronUp, ChevronDown, Film } from 'lucide-react';
 import apiClient from '../services/apiClient';
+import { useAuth } from '../contexts/AuthContext';
 
 interface Episode {
     episodeNumber: number;
@@ -72,6 +73,7 @@ interface LessonFormData {
 }
 
 const LessonForm: React.FC = () => {
+    const { can } = useAuth();
     const { id } = useParams<{ id: string }>();
     const navigate = useNavigate();
     const [loading, setLoading] = useState(false);
@@ -1125,7 +1127,7 @@ const LessonForm: React.FC = () => {
                             >
                                 <option value="draft">Draft</option>
                                 <option value="scheduled">Scheduled</option>
-                                <option value="published">Published</option>
+                                <option value="published" disabled={!can('lessons.publish')}>Published</option>
                                 <option value="archived">Archived</option>
                             </select>
                         </div>
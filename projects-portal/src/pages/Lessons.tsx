@@ -1,23 +1,10 @@
 import React, { useEffect, useState } from 'react';
 import { Plus, Trash2, Edit, Calendar, Video } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import apiClient from '../services/apiClient';
-
-interface Lesson {
-    _id: string;
-    title: string;
-    description?: string;
-    status: 'draft' | 'scheduled' | 'published' | 'archived';
-    video?: {
-        url?: string;
-        thumbnail?: string;
-        duration?: number;
-    };
-    type?: string;
-    scheduledDate?: string;
-    coinReward?: number;
-    order?: number;
-}
+import { api } from '../services/apiClient';
+import type { ApiLesson } from '../../../shared/api';
+
+type Lesson = ApiLesson;
 
 const Lessons: React.FC = () => {
     const [lessons, setLessons] = useState<Lesson[]>([]);
@@ -31,15 +18,8 @@ const Lessons: React.FC = () => {
 
     const fetchLessons = async () => {
         try {
-            const url = statusFilter === 'all'
-                ? '/api/lessons?status=all'
-                : `/api/lessons?status=${statusFilter}`;
-            const response = await apiClient.get(url);
-            // Handle paginated response or direct array
-            const lessonsData = Array.isArray(response.data) 
-                ? response.data 
-                : (response.data.data || response.data.lessons || []);
-            setLessons(lessonsData);
+            const response = await api.lessons.list({ status: statusFilter });
+            setLessons(response.data || []);
         } catch (error) {
             console.error('Error fetching lessons:', error);
         } finally {
@@ -54,7 +34,7 @@ const Lessons: React.FC = () => {
 
         setDeletingLessonId(lessonId);
         try {
-            await apiClient.delete(`/api/lessons/${lessonId}`);
+            await api.lessons.remove(lessonId);
             setLessons(lessons.filter(lesson => lesson._id !== lessonId));
         } catch (error) {
             console.error('Error deleting lesson:', error);
@@ -182,7 +162,7 @@ const Lessons: React.FC = () => {
                                 )}
 
                                 <div className="flex flex-wrap items-center gap-2 mb-2">
-                                    <span className={`px-2 py-1 rounded text-xs font-semibold ${getStatusColor(lesson.status)}`}>
+                                    <span className={`px-2 py-1 rounded text-xs font-semibold ${getStatusColor(lesson.status || 'draft')}`}>
                                         {lesson.status}
                                     </span>
                                     <span className="px-2 py-1 rounded text-xs font-semibold bg-indigo-100 text-indigo-800">
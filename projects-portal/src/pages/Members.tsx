@@ -0,0 +1,414 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { UserPlus, User, CheckCircle, XCircle, Clock, Copy, Shield, Trash2, RefreshCw } from 'lucide-react';
+import apiClient from '../services/apiClient';
+import { useAuth } from '../contexts/AuthContext';
+
+interface Member {
+    _id: string;
+    email: string;
+    name: string;
+    role: string;
+    status: 'invited' | 'active' | 'suspended';
+    invitedAt?: string;
+    invitedBy?: string;
+    activatedAt?: string;
+    lastLoginAt?: string;
+}
+
+interface RoleDefinition {
+    key: string;
+    label: string;
+    description: string;
+    capabilities: string[];
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+    axios.isAxiosError(error) && error.response?.data?.error ? error.response.data.error : fallback;
+
+const Members: React.FC = () => {
+    const { user } = useAuth();
+    const [members, setMembers] = useState<Member[]>([]);
+    const [adminEmails, setAdminEmails] = useState<string[]>([]);
+    const [roles, setRoles] = useState<RoleDefinition[]>([]);
+    const [capabilityLabels, setCapabilityLabels] = useState<Record<string, string>>({});
+    const [loading, setLoading] = useState(true);
+
+    const [showInviteModal, setShowInviteModal] = useState(false);
+    const [inviteEmail, setInviteEmail] = useState('');
+    const [inviteName, setInviteName] = useState('');
+    const [inviteRole, setInviteRole] = useState('editor');
+    const [inviteUrl, setInviteUrl] = useState('');
+    const [sending, setSending] = useState(false);
+
+    useEffect(() => {
+        fetchAll();
+    }, []);
+
+    const fetchAll = async () => {
+        try {
+            const [membersRes, rolesRes] = await Promise.all([
+                apiClient.get('/api/portal/members'),
+                apiClient.get('/api/portal/roles'),
+            ]);
+            setMembers(membersRes.data.members || []);
+            setAdminEmails(membersRes.data.adminEmails || []);
+            setRoles(rolesRes.data.roles || []);
+            setCapabilityLabels(rolesRes.data.capabilities || {});
+        } catch (error) {
+            console.error('Error fetching members:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const roleLabel = (key: string) => roles.find(r => r.key === key)?.label || key;
+
+    const handleInvite = async () => {
+        if (!inviteEmail || !inviteName) {
+            alert('Email and name are required');
+            return;
+        }
+
+        setSending(true);
+        try {
+            const res = await apiClient.post('/api/portal/members/invite', {
+                email: inviteEmail,
+                name: inviteName,
+                role: inviteRole,
+            });
+            setInviteUrl(res.data.inviteUrl);
+            fetchAll();
+        } catch (error) {
+            alert(errorMessage(error, 'Failed to invite member'));
+        } finally {
+            setSending(false);
+        }
+    };
+
+    const handleUpdate = async (memberId: string, changes: Partial<Pick<Member, 'role' | 'status'>>) => {
+        try {
+            await apiClient.put(`/api/portal/members/${memberId}`, changes);
+            fetchAll();
+        } catch (error) {
+            alert(errorMessage(error, 'Failed to update member'));
+        }
+    };
+
+    const handleResend = async (member: Member) => {
+        try {
+            const res = await apiClient.post(`/api/portal/members/${member._id}/resend-invite`);
+            setInviteName(member.name);
+            setInviteRole(member.role);
+            setInviteUrl(res.data.inviteUrl);
+            setShowInviteModal(true);
+        } catch (error) {
+            alert(errorMessage(error, 'Failed to create a new invite'));
+        }
+    };
+
+    const handleRemove = async (member: Member) => {
+        if (!confirm(`Remove ${member.name}'s portal access?`)) return;
+        try {
+            await apiClient.delete(`/api/portal/members/${member._id}`);
+            fetchAll();
+        } catch (error) {
+            alert(errorMessage(error, 'Failed to remove member'));
+        }
+    };
+
+    const copyToClipboard = (text: string) => {
+        navigator.clipboard.writeText(text);
+        alert('Copied to clipboard!');
+    };
+
+    const getStatusBadge = (status: string) => {
+        switch (status) {
+            case 'active':
+                return (
+                    <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-700">
+                        <CheckCircle className="w-3 h-3" /> Active
+                    </span>
+                );
+            case 'invited':
+                return (
+                    <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-700">
+                        <Clock className="w-3 h-3" /> Invited
+                    </span>
+                );
+            case 'suspended':
+                return (
+                    <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700">
+                        <XCircle className="w-3 h-3" /> Suspended
+                    </span>
+                );
+            default:
+                return null;
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Team Members</h1>
+                    <p className="text-gray-500">Invite people to the portal and choose what their role can do</p>
+                </div>
+                <button
+                    onClick={() => {
+                        setShowInviteModal(true);
+                        setInviteEmail('');
+                        setInviteName('');
+                        setInviteRole('editor');
+                        setInviteUrl('');
+                    }}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                >
+                    <UserPlus className="w-4 h-4" />
+                    Invite Member
+                </button>
+            </div>
+
+            {/* Members Table */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                <table className="w-full">
+                    <thead className="bg-gray-50 border-b border-gray-100">
+                        <tr>
+                            <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Member</th>
+                            <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Role</th>
+                            <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Status</th>
+                            <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Last Sign-in</th>
+                            <th className="text-right px-6 py-3 text-sm font-medium text-gray-500">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {members.map((member) => {
+                            const isSelf = member.email === user?.email;
+                            return (
+                                <tr key={member._id} className="hover:bg-gray-50">
+                                    <td className="px-6 py-4">
+                                        <div className="flex items-center gap-3">
+                                            <div className="w-10 h-10 rounded-full bg-gray-100 flex items-center justify-center">
+                                                <User className="w-5 h-5 text-gray-400" />
+                                            </div>
+                                            <div>
+                                                <p className="font-medium text-gray-900">
+                                                    {member.name} {isSelf && <span className="text-xs text-gray-400">(you)</span>}
+                                                </p>
+                                                <p className="text-sm text-gray-500">{member.email}</p>
+                                            </div>
+                                        </div>
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        <select
+                                            value={member.role}
+                                            disabled={isSelf}
+                                            onChange={(e) => handleUpdate(member._id, { role: e.target.value })}
+                                            className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm disabled:bg-gray-50"
+                                        >
+                                            {roles.map(role => (
+                                                <option key={role.key} value={role.key}>{role.label}</option>
+                                            ))}
+                                        </select>
+                                    </td>
+                                    <td className="px-6 py-4">{getStatusBadge(member.status)}</td>
+                                    <td className="px-6 py-4 text-sm text-gray-500">
+                                        {member.lastLoginAt ? new Date(member.lastLoginAt).toLocaleString() : '—'}
+                                    </td>
+                                    <td className="px-6 py-4 text-right space-x-3 whitespace-nowrap">
+                                        {member.status === 'invited' && (
+                                            <button
+                                                onClick={() => handleResend(member)}
+                                                className="inline-flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-700"
+                                            >
+                                                <RefreshCw className="w-3 h-3" /> New link
+                                            </button>
+                                        )}
+                                        {member.status === 'active' && !isSelf && (
+                                            <button
+                                                onClick={() => handleUpdate(member._id, { status: 'suspended' })}
+                                                className="text-sm text-red-600 hover:text-red-700"
+                                            >
+                                                Suspend
+                                            </button>
+                                        )}
+                                        {member.status === 'suspended' && (
+                                            <button
+                                                onClick={() => handleUpdate(member._id, { status: 'active' })}
+                                                className="text-sm text-green-600 hover:text-green-700"
+                                            >
+                                                Reactivate
+                                            </button>
+                                        )}
+                                        {!isSelf && (
+                                            <button
+                                                onClick={() => handleRemove(member)}
+                                                className="text-gray-400 hover:text-red-600"
+                                                title="Remove access"
+                                            >
+                                                <Trash2 className="w-4 h-4 inline" />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+
+                {members.length === 0 && (
+                    <div className="p-8 text-center text-gray-500">
+                        <User className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                        <p>No team members yet</p>
+                        <p className="text-sm text-gray-400 mt-1">Invite editors, volunteers and translators to help run the app</p>
+                    </div>
+                )}
+            </div>
+
+            {/* Admins configured on the server */}
+            {adminEmails.length > 0 && (
+                <div className="bg-indigo-50 rounded-xl p-4 text-sm text-indigo-800">
+                    <p className="font-medium mb-1 flex items-center gap-2">
+                        <Shield className="w-4 h-4" /> Server admins
+                    </p>
+                    <p>
+                        {adminEmails.join(', ')} sign in with their app account and always have full access.
+                        They're set with ADMIN_EMAILS on the backend.
+                    </p>
+                </div>
+            )}
+
+            {/* What each role can do */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+                <h2 className="text-lg font-semibold text-gray-800 mb-4">Roles</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {roles.map(role => (
+                        <div key={role.key} className="border border-gray-100 rounded-lg p-4">
+                            <p className="font-medium text-gray-900">{role.label}</p>
+                            <p className="text-sm text-gray-500 mb-2">{role.description}</p>
+                            <div className="flex flex-wrap gap-1">
+                                {role.capabilities.map(cap => (
+                                    <span key={cap} className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs">
+                                        {capabilityLabels[cap] || cap}
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* Invite Modal */}
+            {showInviteModal && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+                    <div className="bg-white rounded-xl p-6 w-full max-w-md">
+                        <h2 className="text-xl font-bold text-gray-900 mb-4">Invite Member</h2>
+
+                        {!inviteUrl ? (
+                            <>
+                                <div className="space-y-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                                        <input
+                                            type="text"
+                                            value={inviteName}
+                                            onChange={(e) => setInviteName(e.target.value)}
+                                            className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                            placeholder="Jane Doe"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Email Address</label>
+                                        <input
+                                            type="email"
+                                            value={inviteEmail}
+                                            onChange={(e) => setInviteEmail(e.target.value)}
+                                            className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                            placeholder="volunteer@example.com"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                                        <select
+                                            value={inviteRole}
+                                            onChange={(e) => setInviteRole(e.target.value)}
+                                            className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                        >
+                                            {roles.map(role => (
+                                                <option key={role.key} value={role.key}>{role.label}</option>
+                                            ))}
+                                        </select>
+                                        <p className="text-xs text-gray-500 mt-1">
+                                            {roles.find(r => r.key === inviteRole)?.description}
+                                        </p>
+                                    </div>
+                                </div>
+
+                                <div className="flex justify-end gap-3 mt-6">
+                                    <button
+                                        onClick={() => setShowInviteModal(false)}
+                                        className="px-4 py-2 text-gray-600 hover:text-gray-800"
+                                    >
+                                        Cancel
+                                    </button>
+                                    <button
+                                        onClick={handleInvite}
+                                        disabled={sending}
+                                        className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                                    >
+                                        {sending ? 'Sending...' : 'Create Invite'}
+                                    </button>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                <div className="bg-green-50 rounded-lg p-4 mb-4">
+                                    <p className="text-green-700 font-medium">Invite ready!</p>
+                                    <p className="text-sm text-green-600 mt-1">
+                                        Share this link with {inviteName}
+                                        {inviteRole && ` (${roleLabel(inviteRole)})`}:
+                                    </p>
+                                </div>
+
+                                <div className="flex items-center gap-2 p-3 bg-gray-100 rounded-lg">
+                                    <input
+                                        type="text"
+                                        value={inviteUrl}
+                                        readOnly
+                                        className="flex-1 bg-transparent text-sm text-gray-700 outline-none"
+                                    />
+                                    <button
+                                        onClick={() => copyToClipboard(inviteUrl)}
+                                        className="p-2 text-gray-500 hover:text-gray-700"
+                                    >
+                                        <Copy className="w-4 h-4" />
+                                    </button>
+                                </div>
+
+                                <div className="flex justify-end mt-6">
+                                    <button
+                                        onClick={() => setShowInviteModal(false)}
+                                        className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+                                    >
+                                        Done
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default Members;
@@ -0,0 +1,648 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { ArrowLeft, Mic, Upload, Play, Pause, Wand2, Save, Trash2, AlertTriangle, ZoomIn, ZoomOut } from 'lucide-react';
+import axios from 'axios';
+import apiClient, { getMediaUrl } from '../services/apiClient';
+import {
+    MIN_WORD_DURATION,
+    decodeWaveform,
+    estimateTimings,
+    mapAlignment,
+    timingsMatchText,
+} from '../services/narrationAlignment';
+import { getDisplayWords } from '../../../services/narrationController';
+import type { Waveform, WordTiming } from '../services/narrationAlignment';
+
+interface TextBox {
+    text: string;
+    startTime?: number;
+    endTime?: number;
+    words?: WordTiming[];
+    [key: string]: unknown;
+}
+
+interface NarrationPage {
+    _id: string;
+    pageNumber: number;
+    textBoxes?: TextBox[];
+    content?: { textBoxes?: TextBox[] };
+    narration?: {
+        audioUrl?: string;
+        duration?: number;
+        uploadedAt?: string;
+        alignedAt?: string;
+    };
+}
+
+// A word on the timeline - box is the text box it belongs to
+interface EditorWord extends WordTiming {
+    box: number;
+}
+
+type Edge = 'start' | 'end';
+
+const WAVEFORM_BUCKETS = 4000;
+const WAVEFORM_HEIGHT = 120;
+const TRACK_HEIGHT = 40;
+// Browsers refuse to draw canvases much wider than this
+const MAX_CANVAS_WIDTH = 16000;
+// Boundaries closer than this move together (one word ends where the next starts)
+const LINK_TOLERANCE = 0.01;
+
+// Same source the reader uses: content.textBoxes, falling back to legacy root textBoxes
+const getBoxes = (page: NarrationPage): TextBox[] => {
+    const contentBoxes = page.content?.textBoxes;
+    return (contentBoxes && contentBoxes.length > 0 ? contentBoxes : page.textBoxes) || [];
+};
+
+const hasRecording = (page: NarrationPage): boolean => {
+    const boxes = getBoxes(page);
+    return !!page.narration?.audioUrl && boxes.some(box => box.words?.length) &&
+        boxes.every(box => !box.text || timingsMatchText(box.text, box.words));
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(2).padStart(5, '0')}`;
+
+// The backend's { message }, if the request got that far
+const errorMessage = (error: unknown, fallback: string): string =>
+    (axios.isAxiosError(error) && (error.response?.data?.error || error.response?.data?.message)) || fallback;
+
+// Text boxes with their timings replaced - boxes without words lose theirs
+const withTimings = (boxes: TextBox[], words: EditorWord[]): TextBox[] =>
+    boxes.map((box, index) => {
+        const timings = words
+            .filter(word => word.box === index)
+            .map(({ word, start, end }) => ({ word, start: round(start), end: round(end) }));
+        if (timings.length === 0) {
+            return { ...box, startTime: undefined, endTime: undefined, words: undefined };
+        }
+        return { ...box, startTime: timings[0].start, endTime: timings[timings.length - 1].end, words: timings };
+    });
+
+const NarrationEditor: React.FC = () => {
+    const { bookId } = useParams<{ bookId: string }>();
+    const [title, setTitle] = useState('');
+    const [pages, setPages] = useState<NarrationPage[]>([]);
+    const [pageIndex, setPageIndex] = useState(0);
+    const [loading, setLoading] = useState(true);
+
+    const [audioUrl, setAudioUrl] = useState('');
+    const [uploadedAt, setUploadedAt] = useState<string | null>(null);
+    const [waveform, setWaveform] = useState<Waveform | null>(null);
+    const [words, setWords] = useState<EditorWord[]>([]);
+    const [stale, setStale] = useState(false);
+    const [dirty, setDirty] = useState(false);
+    const [working, setWorking] = useState('');
+    const [notice, setNotice] = useState('');
+    const [error, setError] = useState('');
+
+    const [zoom, setZoom] = useState(100); // pixels per second
+    const [playing, setPlaying] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const timelineRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const stopAtRef = useRef<number | null>(null);
+    const dragRef = useRef<{ index: number; edge: Edge } | null>(null);
+    // Guards against a slow waveform from a page the editor has already left
+    const loadIdRef = useRef(0);
+
+    const page = pages[pageIndex];
+    const boxes = page ? getBoxes(page) : [];
+    const duration = waveform?.duration || 0;
+    const width = Math.min(MAX_CANVAS_WIDTH, Math.max(1, Math.round(duration * zoom)));
+    const pixelsPerSecond = duration > 0 ? width / duration : zoom;
+
+    const openPage = useCallback(async (next: NarrationPage) => {
+        const loadId = ++loadIdRef.current;
+        audioRef.current?.pause();
+        stopAtRef.current = null;
+
+        const nextBoxes = getBoxes(next);
+        const aligned = nextBoxes.some(box => box.words?.length);
+        const fits = nextBoxes.every(box => !box.text || timingsMatchText(box.text, box.words));
+        setAudioUrl(next.narration?.audioUrl || '');
+        setUploadedAt(next.narration?.uploadedAt || null);
+        setWords(aligned && fits
+            ? nextBoxes.flatMap((box, index) => (box.words || []).map(word => ({ ...word, box: index })))
+            : []);
+        setStale(aligned && !fits);
+        setDirty(false);
+        setNotice('');
+        setError('');
+        setWaveform(null);
+        setCurrentTime(0);
+
+        if (!next.narration?.audioUrl) return;
+        try {
+            const decoded = await decodeWaveform(getMediaUrl(next.narration.audioUrl), WAVEFORM_BUCKETS);
+            if (loadIdRef.current === loadId) setWaveform(decoded);
+        } catch (err) {
+            console.error('Error decoding narration:', err);
+            if (loadIdRef.current === loadId) setError('Could not load the recording waveform');
+        }
+    }, []);
+
+    const fetchData = useCallback(async () => {
+        if (!bookId) return;
+        try {
+            const [bookRes, pagesRes] = await Promise.all([
+                apiClient.get(`/api/books/${bookId}?draft=true`),
+                apiClient.get(`/api/pages/book/${bookId}?draft=true`),
+            ]);
+            setTitle(bookRes.data.title || '');
+            const sorted = [...(pagesRes.data as NarrationPage[])]
+                .filter(p => getBoxes(p).some(box => box.text))
+                .sort((a, b) => a.pageNumber - b.pageNumber);
+            setPages(sorted);
+            if (sorted.length > 0) openPage(sorted[0]);
+        } catch (err) {
+            console.error('Error fetching pages:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, [bookId, openPage]);
+
+    useEffect(() => {
+        fetchData();
+    }, [fetchData]);
+
+    // Waveform
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || !waveform) return;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.fillStyle = '#818cf8';
+        const { peaks } = waveform;
+        const barWidth = canvas.width / peaks.length;
+        const middle = canvas.height / 2;
+        peaks.forEach((peak, i) => {
+            const height = Math.max(1, peak * (canvas.height - 8));
+            ctx.fillRect(i * barWidth, middle - height / 2, Math.max(1, barWidth - 0.5), height);
+        });
+    }, [waveform, width]);
+
+    // Playhead follows the audio while it plays, and stops at the end of a word played on its own
+    useEffect(() => {
+        if (!playing) return;
+        let frame = 0;
+        const tick = () => {
+            const audio = audioRef.current;
+            if (!audio) return;
+            if (stopAtRef.current !== null && audio.currentTime >= stopAtRef.current) {
+                stopAtRef.current = null;
+                audio.pause();
+            }
+            setCurrentTime(audio.currentTime);
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [playing]);
+
+    const selectPage = (index: number) => {
+        if (index === pageIndex) return;
+        if (dirty && !confirm('Discard your unsaved timing changes on this page?')) return;
+        setPageIndex(index);
+        openPage(pages[index]);
+    };
+
+    const align = async (url: string, decoded: Waveform) => {
+        const boxWords = boxes.map(box => getDisplayWords(box.text || ''));
+        setWorking('Aligning words to the recording');
+        let timings: WordTiming[][];
+        try {
+            const res = await apiClient.post('/api/tts/align', {
+                audioUrl: getMediaUrl(url),
+                text: boxWords.flat().join(' '),
+            });
+            timings = mapAlignment(boxWords, res.data.words || [], decoded.duration);
+            setNotice('');
+        } catch (err) {
+            console.error('Alignment failed:', err);
+            timings = estimateTimings(boxWords, decoded);
+            setNotice(`${errorMessage(err, 'Automatic alignment failed')} - the timings are estimated, drag the word boundaries into place.`);
+        }
+        setWords(timings.flatMap((boxTimings, index) => boxTimings.map(word => ({ ...word, box: index }))));
+        setStale(false);
+        setDirty(true);
+    };
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !page || !bookId) return;
+        if (dirty && !confirm('Replace the recording? Your unsaved timing changes will be lost.')) return;
+
+        audioRef.current?.pause();
+        setError('');
+        setWorking('Uploading recording');
+        try {
+            const formData = new FormData();
+            formData.append('file', file);
+            const res = await apiClient.post(`/api/upload/narration?bookId=${bookId}&pageNumber=${page.pageNumber}`, formData, {
+                headers: { 'Content-Type': 'multipart/form-data' },
+            });
+            const url: string = res.data.url;
+            setAudioUrl(url);
+            setUploadedAt(new Date().toISOString());
+            setCurrentTime(0);
+
+            setWorking('Reading the recording');
+            const decoded = await decodeWaveform(getMediaUrl(url), WAVEFORM_BUCKETS);
+            setWaveform(decoded);
+            await align(url, decoded);
+        } catch (err) {
+            console.error('Narration upload failed:', err);
+            setError(errorMessage(err, 'Failed to upload the recording'));
+        } finally {
+            setWorking('');
+        }
+    };
+
+    const handleRealign = async () => {
+        if (!waveform || !audioUrl) return;
+        if (words.length > 0 && !confirm('Re-align the whole page? Boundaries you moved by hand will be replaced.')) return;
+        try {
+            await align(audioUrl, waveform);
+        } finally {
+            setWorking('');
+        }
+    };
+
+    const handleSave = async () => {
+        if (!page || !waveform || words.length === 0) return;
+        setWorking('Saving');
+        setError('');
+        try {
+            const res = await apiClient.put(`/api/pages/${page._id}`, {
+                textBoxes: withTimings(boxes, words),
+                narration: {
+                    audioUrl,
+                    duration: round(waveform.duration),
+                    uploadedAt: uploadedAt || new Date().toISOString(),
+                    alignedAt: new Date().toISOString(),
+                },
+            });
+            setPages(current => current.map(p => (p._id === page._id ? { ...p, ...res.data } : p)));
+            setDirty(false);
+            setNotice('');
+        } catch (err) {
+            setError(errorMessage(err, 'Failed to save the timings'));
+        } finally {
+            setWorking('');
+        }
+    };
+
+    const handleRemove = async () => {
+        if (!page || !confirm('Remove the narrator recording from this page? The app will read it with generated narration again.')) return;
+        setWorking('Removing recording');
+        setError('');
+        try {
+            const res = await apiClient.put(`/api/pages/${page._id}`, {
+                textBoxes: withTimings(boxes, []),
+                narration: null,
+            });
+            const updated: NarrationPage = { ...page, ...res.data, narration: undefined };
+            setPages(current => current.map(p => (p._id === page._id ? updated : p)));
+            openPage(updated);
+        } catch (err) {
+            setError(errorMessage(err, 'Failed to remove the recording'));
+        } finally {
+            setWorking('');
+        }
+    };
+
+    const togglePlay = () => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        if (playing) {
+            audio.pause();
+            return;
+        }
+        stopAtRef.current = null;
+        if (audio.currentTime >= duration) audio.currentTime = 0;
+        audio.play();
+    };
+
+    const playRange = (start: number, end: number) => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        audio.currentTime = start;
+        stopAtRef.current = end;
+        setCurrentTime(start);
+        audio.play();
+    };
+
+    const timeAt = (clientX: number) => {
+        const rect = timelineRef.current?.getBoundingClientRect();
+        return rect ? clamp((clientX - rect.left) / pixelsPerSecond, 0, duration) : 0;
+    };
+
+    const seek = (e: React.MouseEvent) => {
+        const audio = audioRef.current;
+        if (!audio || !duration) return;
+        const time = timeAt(e.clientX);
+        stopAtRef.current = null;
+        audio.currentTime = time;
+        setCurrentTime(time);
+    };
+
+    // Move one word boundary. A boundary shared with the neighbouring word moves both words.
+    const moveBoundary = (index: number, edge: Edge, time: number) => {
+        setWords(current => {
+            const next = current.map(word => ({ ...word }));
+            const word = next[index];
+            if (edge === 'start') {
+                const previous = next[index - 1];
+                const linked = !!previous && Math.abs(previous.end - word.start) < LINK_TOLERANCE;
+                const min = previous ? (linked ? previous.start + MIN_WORD_DURATION : previous.end) : 0;
+                word.start = clamp(time, min, word.end - MIN_WORD_DURATION);
+                if (linked) previous.end = word.start;
+            } else {
+                const following = next[index + 1];
+                const linked = !!following && Math.abs(following.start - word.end) < LINK_TOLERANCE;
+                const max = following ? (linked ? following.end - MIN_WORD_DURATION : following.start) : duration;
+                word.end = clamp(time, word.start + MIN_WORD_DURATION, max);
+                if (linked) following.start = word.end;
+            }
+            return next;
+        });
+        setDirty(true);
+    };
+
+    const startDrag = (e: React.PointerEvent, index: number, edge: Edge) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { index, edge };
+    };
+
+    const drag = (e: React.PointerEvent) => {
+        if (!dragRef.current) return;
+        moveBoundary(dragRef.current.index, dragRef.current.edge, timeAt(e.clientX));
+    };
+
+    const endDrag = (e: React.PointerEvent) => {
+        if (!dragRef.current) return;
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        dragRef.current = null;
+    };
+
+    const handle = (index: number, edge: Edge, time: number) => (
+        <div
+            key={`${edge}-${index}`}
+            onPointerDown={e => startDrag(e, index, edge)}
+            onPointerMove={drag}
+            onPointerUp={endDrag}
+            onClick={e => e.stopPropagation()}
+            className="absolute top-0 w-2 -ml-1 cursor-col-resize group z-10"
+            style={{ left: time * pixelsPerSecond, height: WAVEFORM_HEIGHT + TRACK_HEIGHT }}
+        >
+            <div className="mx-auto w-0.5 h-full bg-indigo-700/60 group-hover:bg-indigo-900" />
+        </div>
+    );
+
+    if (loading) {
+        return <div className="p-6 text-center">Loading pages...</div>;
+    }
+
+    const activeIndex = words.findIndex(word => currentTime >= word.start && currentTime < word.end);
+
+    return (
+        <div className="max-w-6xl mx-auto p-6 space-y-6">
+            <div>
+                <Link to={`/books/edit/${bookId}`} className="text-sm text-indigo-600 hover:text-indigo-800 flex items-center gap-1 mb-2">
+                    <ArrowLeft className="w-4 h-4" />
+                    Back to book
+                </Link>
+                <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
+                    <Mic className="w-7 h-7 text-indigo-600" />
+                    Read-along{title ? `: ${title}` : ''}
+                </h1>
+                <p className="text-gray-600 mt-1">
+                    Upload a narrator recording for a page, check the word timings and save. The app plays the
+                    recording with highlighting instead of generated narration when reading in English.
+                </p>
+            </div>
+
+            {pages.length === 0 ? (
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 text-center text-gray-500">
+                    This book has no pages with text to narrate.
+                </div>
+            ) : (
+                <div className="flex gap-6 items-start">
+                    {/* Pages */}
+                    <div className="w-48 shrink-0 bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100 max-h-[70vh] overflow-y-auto">
+                        {pages.map((p, index) => (
+                            <button
+                                key={p._id}
+                                onClick={() => selectPage(index)}
+                                className={`w-full text-left px-3 py-2 text-sm flex items-center justify-between ${index === pageIndex ? 'bg-indigo-50 text-indigo-800 font-medium' : 'hover:bg-gray-50 text-gray-700'}`}
+                            >
+                                Page {p.pageNumber}
+                                {hasRecording(p) && <Mic className="w-4 h-4 text-green-600" />}
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* Editor */}
+                    <div className="flex-1 min-w-0 bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+                        <div className="flex flex-wrap items-center justify-between gap-3">
+                            <h2 className="text-lg font-semibold text-gray-800">Page {page?.pageNumber}</h2>
+                            <div className="flex flex-wrap items-center gap-2">
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept="audio/*"
+                                    onChange={handleUpload}
+                                    className="hidden"
+                                />
+                                <button
+                                    onClick={() => fileInputRef.current?.click()}
+                                    disabled={!!working}
+                                    className="flex items-center gap-2 border border-gray-300 text-gray-700 px-3 py-2 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                                >
+                                    <Upload className="w-4 h-4" />
+                                    {audioUrl ? 'Replace recording' : 'Upload recording'}
+                                </button>
+                                {audioUrl && (
+                                    <>
+                                        <button
+                                            onClick={handleRealign}
+                                            disabled={!!working || !waveform}
+                                            className="flex items-center gap-2 border border-gray-300 text-gray-700 px-3 py-2 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                                        >
+                                            <Wand2 className="w-4 h-4" />
+                                            Auto-align
+                                        </button>
+                                        <button
+                                            onClick={handleRemove}
+                                            disabled={!!working}
+                                            className="flex items-center gap-2 text-red-600 px-3 py-2 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                            Remove
+                                        </button>
+                                        <button
+                                            onClick={handleSave}
+                                            disabled={!!working || !dirty || words.length === 0}
+                                            className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                                        >
+                                            <Save className="w-4 h-4" />
+                                            Save timings
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+
+                        {working && <p className="text-sm text-indigo-700">{working}…</p>}
+                        {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
+                        {notice && <div className="p-3 bg-amber-50 text-amber-800 rounded-lg text-sm">{notice}</div>}
+                        {stale && (
+                            <div className="p-3 bg-amber-50 text-amber-800 rounded-lg text-sm flex items-start gap-2">
+                                <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                                The text on this page changed after it was aligned, so the app is using generated
+                                narration. Auto-align the recording again and save to bring it back.
+                            </div>
+                        )}
+
+                        {!audioUrl ? (
+                            <div className="border-2 border-dashed border-gray-300 rounded-lg p-10 text-center text-gray-500">
+                                No recording yet. Upload an MP3, M4A, WAV, OGG or AAC file of the narrator reading this page.
+                            </div>
+                        ) : (
+                            <>
+                                <audio
+                                    ref={audioRef}
+                                    src={getMediaUrl(audioUrl)}
+                                    preload="auto"
+                                    onPlay={() => setPlaying(true)}
+                                    onPause={() => setPlaying(false)}
+                                    onEnded={() => setPlaying(false)}
+                                />
+
+                                <div className="flex items-center gap-3">
+                                    <button
+                                        onClick={togglePlay}
+                                        disabled={!waveform}
+                                        className="w-10 h-10 rounded-full bg-indigo-600 text-white flex items-center justify-center hover:bg-indigo-700 disabled:opacity-50"
+                                    >
+                                        {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5 ml-0.5" />}
+                                    </button>
+                                    <span className="text-sm text-gray-600 font-mono">
+                                        {formatTime(currentTime)} / {formatTime(duration)}
+                                    </span>
+                                    <div className="ml-auto flex items-center gap-2 text-gray-500">
+                                        <button onClick={() => setZoom(z => Math.max(20, z / 1.5))} className="p-1 hover:text-gray-800">
+                                            <ZoomOut className="w-4 h-4" />
+                                        </button>
+                                        <button onClick={() => setZoom(z => Math.min(600, z * 1.5))} className="p-1 hover:text-gray-800">
+                                            <ZoomIn className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </div>
+
+                                {/* Timeline: waveform with draggable word boundaries */}
+                                <div className="overflow-x-auto border border-gray-200 rounded-lg bg-gray-50">
+                                    {waveform ? (
+                                        <div
+                                            ref={timelineRef}
+                                            onClick={seek}
+                                            className="relative cursor-text select-none"
+                                            style={{ width, height: WAVEFORM_HEIGHT + TRACK_HEIGHT }}
+                                        >
+                                            <canvas ref={canvasRef} width={width} height={WAVEFORM_HEIGHT} className="block" />
+                                            {words.map((word, index) => (
+                                                <div
+                                                    key={`word-${index}`}
+                                                    onClick={e => {
+                                                        e.stopPropagation();
+                                                        playRange(word.start, word.end);
+                                                    }}
+                                                    title={`${word.word} (${word.start.toFixed(2)}s - ${word.end.toFixed(2)}s)`}
+                                                    className={`absolute top-0 cursor-pointer ${index === activeIndex ? 'bg-yellow-300/50' : word.box % 2 === 0 ? 'bg-indigo-500/10' : 'bg-sky-500/10'}`}
+                                                    style={{
+                                                        left: word.start * pixelsPerSecond,
+                                                        width: (word.end - word.start) * pixelsPerSecond,
+                                                        height: WAVEFORM_HEIGHT + TRACK_HEIGHT,
+                                                    }}
+                                                >
+                                                    <span
+                                                        className="absolute left-0 right-0 px-1 text-xs text-gray-800 truncate text-center"
+                                                        style={{ top: WAVEFORM_HEIGHT + 12 }}
+                                                    >
+                                                        {word.word}
+                                                    </span>
+                                                </div>
+                                            ))}
+                                            {words.map((word, index) => {
+                                                const following = words[index + 1];
+                                                const linked = !!following && Math.abs(following.start - word.end) < LINK_TOLERANCE;
+                                                return [
+                                                    handle(index, 'start', word.start),
+                                                    linked ? null : handle(index, 'end', word.end),
+                                                ];
+                                            })}
+                                            <div
+                                                className="absolute top-0 w-0.5 bg-red-500 pointer-events-none z-20"
+                                                style={{ left: currentTime * pixelsPerSecond, height: WAVEFORM_HEIGHT + TRACK_HEIGHT }}
+                                            />
+                                        </div>
+                                    ) : (
+                                        <div className="p-6 text-center text-sm text-gray-500">
+                                            {error ? 'No waveform' : 'Loading waveform…'}
+                                        </div>
+                                    )}
+                                </div>
+                                <p className="text-xs text-gray-500">
+                                    Drag the lines between words to adjust timings. Click a word to hear it, or an empty
+                                    part of the waveform to move the playhead.
+                                </p>
+                            </>
+                        )}
+
+                        {/* Page text as the reader highlights it */}
+                        <div className="space-y-3">
+                            {boxes.map((box, boxIndex) => {
+                                if (!box.text) return null;
+                                const boxWords = words.filter(word => word.box === boxIndex);
+                                return (
+                                    <div key={boxIndex} className="p-3 border border-gray-200 rounded-lg">
+                                        <p className="text-xs font-semibold text-gray-500 uppercase mb-1">
+                                            Text box {boxIndex + 1}
+                                            {boxWords.length > 0 && ` · ${boxWords[0].start.toFixed(2)}s - ${boxWords[boxWords.length - 1].end.toFixed(2)}s`}
+                                        </p>
+                                        <p className="leading-relaxed">
+                                            {boxWords.length > 0
+                                                ? boxWords.map(word => {
+                                                    const index = words.indexOf(word);
+                                                    return (
+                                                        <button
+                                                            key={index}
+                                                            onClick={() => playRange(word.start, word.end)}
+                                                            className={`mr-1 px-0.5 rounded ${index === activeIndex ? 'bg-yellow-300' : 'hover:bg-indigo-50'}`}
+                                                        >
+                                                            {word.word}
+                                                        </button>
+                                                    );
+                                                })
+                                                : <span className="text-gray-700">{getDisplayWords(box.text).join(' ')}</span>}
+                                        </p>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default NarrationEditor;
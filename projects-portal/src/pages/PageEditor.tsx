@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useParams } from 'react-router-dom';
+import { useParams, Link } from 'react-router-dom';
 import { apiClient, getMediaUrl } from '../services/apiClient';
 import {
     Save,
@@ -163,12 +163,16 @@ const PageEditor: React.FC = () => {
     const [isResizingRight, setIsResizingRight] = useState(false);
     const [isResizingCanvas, setIsResizingCanvas] = useState(false);
 
+    // Published books are edited as a draft (see BookRevisions)
+    const [bookStatus, setBookStatus] = useState('');
+
     // Fetch book data to get character voices
     useEffect(() => {
         const fetchBookData = async () => {
             if (!bookId) return;
             try {
-                const res = await apiClient.get(`/api/books/${bookId}`);
+                const res = await apiClient.get(`/api/books/${bookId}?draft=true`);
+                setBookStatus(res.data.status || '');
                 if (res.data.characterVoices && Array.isArray(res.data.characterVoices)) {
                     console.log('🎭 Loaded character voices:', res.data.characterVoices);
                     setCharacterVoices(res.data.characterVoices);
@@ -200,7 +204,7 @@ const PageEditor: React.FC = () => {
         const fetchPages = async () => {
             if (!bookId) return;
             try {
-                const res = await apiClient.get(`/api/pages/book/${bookId}`);
+                const res = await apiClient.get(`/api/pages/book/${bookId}?draft=true`);
                 console.log('📚 Fetched pages for book:', bookId, res.data);
                 console.log('📚 First page textBoxes sample:', res.data[0]?.textBoxes, res.data[0]?.content?.textBoxes);
                 setExistingPages(res.data);
@@ -1010,7 +1014,7 @@ const PageEditor: React.FC = () => {
             if (editingPageId) {
                 await apiClient.put(`/api/pages/${editingPageId}`, payload);
                 // Refresh pages list
-                const res = await apiClient.get(`/api/pages/book/${bookId}`);
+                const res = await apiClient.get(`/api/pages/book/${bookId}?draft=true`);
                 setExistingPages(res.data);
 
                 // Reload the updated page into the editor to keep state in sync
@@ -1057,7 +1061,7 @@ const PageEditor: React.FC = () => {
                     setApplyLayoutToAllPages(false); // Reset checkbox
                     
                     // Refresh pages list
-                    const refreshRes = await apiClient.get(`/api/pages/book/${bookId}`);
+                    const refreshRes = await apiClient.get(`/api/pages/book/${bookId}?draft=true`);
                     setExistingPages(refreshRes.data);
                 } else {
                     alert('Page updated successfully!');
@@ -1066,7 +1070,7 @@ const PageEditor: React.FC = () => {
                 await apiClient.post('/api/pages', payload);
 
                 // Refresh pages list
-                const res = await apiClient.get(`/api/pages/book/${bookId}`);
+                const res = await apiClient.get(`/api/pages/book/${bookId}?draft=true`);
                 setExistingPages(res.data);
 
                 // If this is page 1 and no template exists, ask if user wants to create one
@@ -1101,7 +1105,7 @@ const PageEditor: React.FC = () => {
             await apiClient.delete(`/api/pages/${pageId}`);
             
             // Refresh pages list
-            const res = await apiClient.get(`/api/pages/book/${bookId}`);
+            const res = await apiClient.get(`/api/pages/book/${bookId}?draft=true`);
             setExistingPages(res.data);
             
             // If we were editing the deleted page, reset to new page
@@ -1144,7 +1148,7 @@ const PageEditor: React.FC = () => {
         } catch (error) {
             console.error('Failed to reorder pages:', error);
             // Revert on error
-            const res = await apiClient.get(`/api/pages/book/${bookId}`);
+            const res = await apiClient.get(`/api/pages/book/${bookId}?draft=true`);
             setExistingPages(res.data);
         } finally {
             setIsReordering(false);
@@ -1179,7 +1183,7 @@ const PageEditor: React.FC = () => {
         } catch (error) {
             console.error('Failed to reorder pages:', error);
             // Revert on error
-            const res = await apiClient.get(`/api/pages/book/${bookId}`);
+            const res = await apiClient.get(`/api/pages/book/${bookId}?draft=true`);
             setExistingPages(res.data);
         } finally {
             setIsReordering(false);
@@ -1197,6 +1201,14 @@ const PageEditor: React.FC = () => {
                         <LayoutTemplate className="w-5 h-5 text-indigo-600" />
                         Page Editor
                     </h2>
+                    {bookStatus === 'published' && (
+                        <div className="mt-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded p-2">
+                            Editing a draft - families keep seeing the published pages until you{' '}
+                            <Link to={`/books/revisions/${bookId}`} className="font-semibold underline">
+                                review &amp; publish
+                            </Link>.
+                        </div>
+                    )}
                 </div>
 
                 {/* Resize handle */}
@@ -12,12 +12,65 @@ interface AudioItem {
     coverImage?: string;
     audioUrl: string;
     duration?: number;
+    gain?: number; // Loudness normalization in dB, measured when the audio is uploaded
     order: number;
     isMembersOnly?: boolean; // Whether this specific song/episode requires membership
     isFeatured?: boolean; // Whether this episode is featured on the app home page
     featuredOrder?: number; // Order in featured section
 }
 
+// Loudness normalization - the app turns every item up or down by its `gain` so songs
+// and episodes from different sources play at roughly the same volume
+const TARGET_LOUDNESS_DB = -18; // RMS of the non-silent parts
+const SILENCE_DB = -50; // blocks quieter than this don't count
+const MIN_GAIN_DB = -12;
+const MAX_GAIN_DB = 6;
+const ANALYSIS_SAMPLE_RATE = 8000; // plenty for a loudness estimate, and keeps long audiobooks small in memory
+const ANALYSIS_BLOCK_SECONDS = 0.4;
+const MAX_ANALYSIS_BYTES = 150 * 1024 * 1024;
+
+const toDb = (power: number) => 10 * Math.log10(Math.max(power, 1e-10));
+
+// Decode an uploaded file and work out the gain (dB) that brings it to the target loudness,
+// without pushing its peaks past full scale. Undefined if the browser can't decode it.
+const measureLoudnessGain = async (file: File): Promise<number | undefined> => {
+    if (file.size > MAX_ANALYSIS_BYTES || typeof OfflineAudioContext === 'undefined') return undefined;
+    try {
+        const ctx = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+        const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+        const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+        const blockSize = Math.max(1, Math.floor(buffer.sampleRate * ANALYSIS_BLOCK_SECONDS));
+
+        let peak = 0;
+        let loudSum = 0;
+        let loudBlocks = 0;
+        for (let start = 0; start < buffer.length; start += blockSize) {
+            const end = Math.min(buffer.length, start + blockSize);
+            let sum = 0;
+            channels.forEach(data => {
+                for (let i = start; i < end; i++) {
+                    sum += data[i] * data[i];
+                    peak = Math.max(peak, Math.abs(data[i]));
+                }
+            });
+            const power = sum / ((end - start) * channels.length);
+            if (toDb(power) > SILENCE_DB) {
+                loudSum += power;
+                loudBlocks++;
+            }
+        }
+        if (loudBlocks === 0 || peak === 0) return undefined;
+
+        const loudness = toDb(loudSum / loudBlocks);
+        const headroom = -20 * Math.log10(peak);
+        const gain = Math.min(TARGET_LOUDNESS_DB - loudness, headroom, MAX_GAIN_DB);
+        return Math.round(Math.max(MIN_GAIN_DB, gain) * 10) / 10;
+    } catch (error) {
+        console.warn('Could not measure loudness:', error);
+        return undefined;
+    }
+};
+
 interface Category {
     _id: string;
     name: string;
@@ -153,6 +206,9 @@ const PlaylistForm: React.FC = () => {
         const formDataUpload = new FormData();
         formDataUpload.append('file', file);
 
+        // Loudness is measured from the local file while it uploads
+        const gainPromise = type === 'audio' ? measureLoudnessGain(file) : Promise.resolve(undefined);
+
         try {
             let endpoint: string;
             let queryParams = '';
@@ -187,6 +243,7 @@ const PlaylistForm: React.FC = () => {
             } else if (type === 'audio' && itemIndex !== undefined) {
                 const newItems = [...formData.items];
                 newItems[itemIndex].audioUrl = response.data.url;
+                newItems[itemIndex].gain = await gainPromise;
                 setFormData({ ...formData, items: newItems });
             }
         } catch (error: any) {
@@ -649,6 +706,11 @@ const PlaylistForm: React.FC = () => {
                                                         />
                                                     </label>
                                                 </div>
+                                                {item.gain !== undefined && (
+                                                    <p className="text-xs text-gray-500 mt-1">
+                                                        Loudness adjustment: {item.gain > 0 ? '+' : ''}{item.gain} dB
+                                                    </p>
+                                                )}
                                             </div>
                                             
                                             {/* Access Control for Individual Item */}
@@ -1,33 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import { Plus, Edit, Trash2, Music, BookOpen, Eye, EyeOff, List, BarChart3 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import apiClient from '../services/apiClient';
+import apiClient, { api } from '../services/apiClient';
+import type { ApiPlaylist } from '../../../shared/api';
 import PlaylistsAnalytics from '../components/PlaylistsAnalytics';
 
-interface AudioItem {
-    _id?: string;
-    title: string;
-    author: string;
-    coverImage?: string;
-    audioUrl: string;
-    duration?: number;
-    order: number;
-}
-
-interface Playlist {
-    _id: string;
-    title: string;
-    author: string;
-    description?: string;
-    coverImage?: string;
-    category: 'Music' | 'Stories' | 'Devotionals' | 'Other';
-    type: 'Song' | 'Audiobook';
-    items: AudioItem[];
-    status: 'draft' | 'published';
-    playCount: number;
-    createdAt: string;
-    updatedAt: string;
-}
+
+type Playlist = ApiPlaylist;
 
 type TabView = 'list' | 'analytics';
 
@@ -44,12 +23,8 @@ const Playlists: React.FC = () => {
 
     const fetchPlaylists = async () => {
         try {
-            const response = await apiClient.get('/api/playlists?status=all');
-            // Handle paginated response { data: [...], pagination: {...} } or direct array
-            const playlistsData = Array.isArray(response.data) 
-                ? response.data 
-                : (response.data.data || response.data.playlists || []);
-            setPlaylists(playlistsData);
+            const response = await api.playlists.list({ status: 'all' });
+            setPlaylists(response.data || []);
         } catch (error) {
             console.error('Error fetching playlists:', error);
         } finally {
@@ -61,7 +36,7 @@ const Playlists: React.FC = () => {
         if (!confirm('Are you sure you want to delete this playlist?')) return;
 
         try {
-            await apiClient.delete(`/api/playlists/${id}`);
+            await api.playlists.remove(id);
             setPlaylists(playlists.filter(p => p._id !== id));
         } catch (error) {
             console.error('Error deleting playlist:', error);
@@ -204,7 +179,7 @@ const Playlists: React.FC = () => {
                                         <h2 className="text-lg font-semibold text-gray-800 mb-1 truncate">{playlist.title}</h2>
                                         <p className="text-sm text-gray-600 mb-2">{playlist.author}</p>
                                         <p className="text-sm text-gray-500 mb-3">
-                                            {playlist.items.length} {playlist.type === 'Song' ? 'songs' : 'episodes'} • {playlist.category}
+                                            {playlist.items?.length || 0} {playlist.type === 'Song' ? 'songs' : 'episodes'} • {playlist.category}
                                         </p>
                                         {playlist.description && (
                                             <p className="text-sm text-gray-600 mb-3 line-clamp-2">{playlist.description}</p>
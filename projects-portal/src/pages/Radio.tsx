@@ -1,9 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { Radio as RadioIcon, Users, Music, Settings, Play, Pause, Mic2, RefreshCw, AlertCircle, CheckCircle, Clock, ListMusic } from 'lucide-react';
-import axios from 'axios';
-
-const API_URL = (import.meta.env.VITE_API_BASE_URL || 'https://backendgk2-0.onrender.com') + '/api';
+import apiClient, { api } from '../services/apiClient';
+import type { ApiRadioStation } from '../../../shared/api';
 
 interface RadioStats {
     stationName: string;
@@ -15,27 +14,7 @@ interface RadioStats {
     readySegments: number;
 }
 
-interface RadioStation {
-    _id: string;
-    name: string;
-    tagline: string;
-    hosts: any[];
-    playlists: any[];
-    hostBreakDuration: number;
-    hostBreakFrequency: number;
-    devotionalFrequency: number;
-    devotionalDuration: number;
-    enableDuoDiscussions: boolean;
-    customIntroScript?: string;
-    isLive: boolean;
-    coverImageUrl?: string;
-    settings: {
-        shuffleSongs: boolean;
-        rotateHosts: boolean;
-        introJingleUrl?: string;
-        outroJingleUrl?: string;
-    };
-}
+type RadioStation = ApiRadioStation;
 
 const Radio: React.FC = () => {
     const [stats, setStats] = useState<RadioStats | null>(null);
@@ -63,26 +42,26 @@ const Radio: React.FC = () => {
     const fetchData = async () => {
         try {
             setLoading(true);
-            const [statsRes, stationRes] = await Promise.all([
-                axios.get(`${API_URL}/radio/stats`),
-                axios.get(`${API_URL}/radio/station`),
+            const [statsRes, stationData] = await Promise.all([
+                apiClient.get(`/api/radio/stats`),
+                api.radio.station(),
             ]);
             
             setStats(statsRes.data);
-            setStation(stationRes.data);
+            setStation(stationData);
             
             // Initialize edit fields
-            if (stationRes.data) {
-                setEditName(stationRes.data.name || 'Praise Station Radio');
-                setEditTagline(stationRes.data.tagline || '');
-                setEditCustomIntro(stationRes.data.customIntroScript || '');
-                setEditBreakDuration(stationRes.data.hostBreakDuration || 10);
-                setEditBreakFrequency(stationRes.data.hostBreakFrequency || 3);
-                setEditDevotionalFrequency(stationRes.data.devotionalFrequency || 10);
-                setEditDevotionalDuration(stationRes.data.devotionalDuration || 60);
-                setEditEnableDuo(stationRes.data.enableDuoDiscussions ?? true);
-                setEditShuffleSongs(stationRes.data.settings?.shuffleSongs ?? true);
-                setEditRotateHosts(stationRes.data.settings?.rotateHosts ?? true);
+            if (stationData) {
+                setEditName(stationData.name || 'Praise Station Radio');
+                setEditTagline(stationData.tagline || '');
+                setEditCustomIntro(stationData.customIntroScript || '');
+                setEditBreakDuration(stationData.hostBreakDuration || 10);
+                setEditBreakFrequency(stationData.hostBreakFrequency || 3);
+                setEditDevotionalFrequency(stationData.devotionalFrequency || 10);
+                setEditDevotionalDuration(stationData.devotionalDuration || 60);
+                setEditEnableDuo(stationData.enableDuoDiscussions ?? true);
+                setEditShuffleSongs(stationData.settings?.shuffleSongs ?? true);
+                setEditRotateHosts(stationData.settings?.rotateHosts ?? true);
             }
         } catch (err: any) {
             console.error('Error fetching radio data:', err);
@@ -95,7 +74,7 @@ const Radio: React.FC = () => {
     const handleSaveStation = async () => {
         try {
             setSaving(true);
-            await axios.put(`${API_URL}/radio/station`, {
+            await apiClient.put(`/api/radio/station`, {
                 name: editName,
                 tagline: editTagline,
                 customIntroScript: editCustomIntro,
@@ -121,7 +100,7 @@ const Radio: React.FC = () => {
     const toggleLive = async () => {
         try {
             setSaving(true);
-            await axios.put(`${API_URL}/radio/station`, {
+            await apiClient.put(`/api/radio/station`, {
                 isLive: !station?.isLive,
             });
             await fetchData();
@@ -1,9 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { ArrowLeft, Plus, Edit2, Trash2, Play, Pause, Volume2, RefreshCw, Save, X, Mic2, User } from 'lucide-react';
-import axios from 'axios';
-
-const API_URL = (import.meta.env.VITE_API_BASE_URL || 'https://backendgk2-0.onrender.com') + '/api';
+import apiClient from '../services/apiClient';
 
 interface GoogleVoice {
     name: string;
@@ -67,8 +65,8 @@ const RadioHosts: React.FC = () => {
         try {
             setLoading(true);
             const [hostsRes, voicesRes] = await Promise.all([
-                axios.get(`${API_URL}/radio/hosts`),
-                axios.get(`${API_URL}/google-tts/voices`),
+                apiClient.get(`/api/radio/hosts`),
+                apiClient.get(`/api/google-tts/voices`),
             ]);
             setHosts(hostsRes.data);
             setAvailableVoices(voicesRes.data.voices || []);
@@ -132,9 +130,9 @@ const RadioHosts: React.FC = () => {
             };
 
             if (editingHost) {
-                await axios.put(`${API_URL}/radio/hosts/${editingHost._id}`, payload);
+                await apiClient.put(`/api/radio/hosts/${editingHost._id}`, payload);
             } else {
-                await axios.post(`${API_URL}/radio/hosts`, payload);
+                await apiClient.post(`/api/radio/hosts`, payload);
             }
 
             await fetchData();
@@ -151,7 +149,7 @@ const RadioHosts: React.FC = () => {
         if (!confirm(`Are you sure you want to delete "${host.name}"?`)) return;
 
         try {
-            await axios.delete(`${API_URL}/radio/hosts/${host._id}`);
+            await apiClient.delete(`/api/radio/hosts/${host._id}`);
             await fetchData();
         } catch (err: any) {
             console.error('Error deleting host:', err);
@@ -166,7 +164,7 @@ const RadioHosts: React.FC = () => {
 
             const testText = `Hello! I'm ${formName || 'your radio host'}. Welcome to Praise Station Radio, where we lift up your spirit with uplifting music and encouraging words. God bless you today!`;
 
-            const response = await axios.post(`${API_URL}/google-tts/preview`, {
+            const response = await apiClient.post(`/api/google-tts/preview`, {
                 text: testText,
                 voiceName: formVoiceName,
                 languageCode: 'en-US',
@@ -208,7 +206,7 @@ const RadioHosts: React.FC = () => {
             stopPreview();
 
             // Generate a host break with sample song info
-            const response = await axios.post(`${API_URL}/radio/host-break/generate`, {
+            const response = await apiClient.post(`/api/radio/host-break/generate`, {
                 nextSongTitle: 'Amazing Grace',
                 nextSongArtist: 'Chris Tomlin',
                 previousSongTitle: 'How Great Is Our God',
@@ -1,9 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { ArrowLeft, Plus, Trash2, Play, Pause, Music, Filter, Search, ToggleLeft, ToggleRight, FolderPlus, RefreshCw } from 'lucide-react';
-import axios from 'axios';
-
-const API_URL = (import.meta.env.VITE_API_BASE_URL || 'https://backendgk2-0.onrender.com') + '/api';
+import apiClient from '../services/apiClient';
 
 interface RadioTrack {
     _id: string;
@@ -109,9 +107,9 @@ const RadioLibrary: React.FC = () => {
         try {
             setLoading(true);
             const [tracksRes, playlistsRes, statsRes] = await Promise.all([
-                axios.get(`${API_URL}/radio/library`),
-                axios.get(`${API_URL}/playlists?status=all&limit=100`),
-                axios.get(`${API_URL}/radio/library/stats`),
+                apiClient.get(`/api/radio/library`),
+                apiClient.get(`/api/playlists?status=all&limit=100`),
+                apiClient.get(`/api/radio/library/stats`),
             ]);
             
             setTracks(tracksRes.data.tracks || []);
@@ -129,7 +127,7 @@ const RadioLibrary: React.FC = () => {
 
     const handleToggleTrack = async (track: RadioTrack) => {
         try {
-            await axios.post(`${API_URL}/radio/library/${track._id}/toggle`);
+            await apiClient.post(`/api/radio/library/${track._id}/toggle`);
             await fetchData();
         } catch (err: any) {
             console.error('Error toggling track:', err);
@@ -141,7 +139,7 @@ const RadioLibrary: React.FC = () => {
         if (!confirm(`Remove "${track.title}" from the radio library?`)) return;
         
         try {
-            await axios.delete(`${API_URL}/radio/library/${track._id}`);
+            await apiClient.delete(`/api/radio/library/${track._id}`);
             await fetchData();
         } catch (err: any) {
             console.error('Error deleting track:', err);
@@ -151,7 +149,7 @@ const RadioLibrary: React.FC = () => {
 
     const handleUpdateTrack = async (trackId: string, field: string, value: string) => {
         try {
-            await axios.put(`${API_URL}/radio/library/${trackId}`, { [field]: value });
+            await apiClient.put(`/api/radio/library/${trackId}`, { [field]: value });
             await fetchData();
         } catch (err: any) {
             console.error('Error updating track:', err);
@@ -167,7 +165,7 @@ const RadioLibrary: React.FC = () => {
         
         try {
             setAddingBulk(true);
-            const response = await axios.post(`${API_URL}/radio/library/bulk`, {
+            const response = await apiClient.post(`/api/radio/library/bulk`, {
                 playlistId: selectedPlaylist,
                 category: bulkCategory,
                 rotation: bulkRotation
@@ -192,7 +190,7 @@ const RadioLibrary: React.FC = () => {
         
         try {
             setAddingSingle(true);
-            await axios.post(`${API_URL}/radio/library`, {
+            await apiClient.post(`/api/radio/library`, {
                 title: singleTrack.title,
                 artist: singleTrack.artist,
                 audioUrl: singleTrack.audioUrl,
@@ -1,9 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { ArrowLeft, Play, Pause, RefreshCw, Trash2, Music, Mic2, Sparkles, Volume2, AlertCircle, Edit2, Save } from 'lucide-react';
-import axios from 'axios';
-
-const API_URL = (import.meta.env.VITE_API_BASE_URL || 'https://backendgk2-0.onrender.com') + '/api';
+import apiClient from '../services/apiClient';
 
 interface Playlist {
     _id: string;
@@ -76,9 +74,9 @@ const RadioShowBuilder: React.FC = () => {
         try {
             setLoading(true);
             const [playlistsRes, hostsRes, segmentsRes] = await Promise.all([
-                axios.get(`${API_URL}/playlists`),
-                axios.get(`${API_URL}/radio/hosts`),
-                axios.get(`${API_URL}/radio/segments`),
+                apiClient.get(`/api/playlists`),
+                apiClient.get(`/api/radio/hosts`),
+                apiClient.get(`/api/radio/segments`),
             ]);
             
             // Filter to only published playlists with items
@@ -122,7 +120,7 @@ const RadioShowBuilder: React.FC = () => {
             setGenerating(true);
             setError(null);
             
-            const response = await axios.post(`${API_URL}/radio/segments/generate`, {
+            const response = await apiClient.post(`/api/radio/segments/generate`, {
                 playlistIds: selectedPlaylists,
                 hostIds: hosts.map(h => h._id),
                 clearExisting: true,
@@ -157,7 +155,7 @@ const RadioShowBuilder: React.FC = () => {
                 
                 try {
                     // Generate script
-                    const scriptRes = await axios.post(`${API_URL}/ai/radio-script`, {
+                    const scriptRes = await apiClient.post(`/api/ai/radio-script`, {
                         hostName: host?.name || 'Radio Host',
                         nextSongTitle: segment.nextTrack?.title,
                         nextSongArtist: segment.nextTrack?.artist,
@@ -167,13 +165,13 @@ const RadioShowBuilder: React.FC = () => {
                     });
 
                     // Generate TTS audio
-                    const ttsRes = await axios.post(`${API_URL}/google-tts/generate`, {
+                    const ttsRes = await apiClient.post(`/api/google-tts/generate`, {
                         text: scriptRes.data.script,
                         voiceName: 'en-US-Studio-O', // Could get from host config
                     });
 
                     // Update segment with script and audio
-                    await axios.put(`${API_URL}/radio/segments/${segment._id}`, {
+                    await apiClient.put(`/api/radio/segments/${segment._id}`, {
                         scriptText: scriptRes.data.script,
                         audioUrl: ttsRes.data.audioUrl,
                         status: 'ready',
@@ -190,7 +188,7 @@ const RadioShowBuilder: React.FC = () => {
                 } catch (err) {
                     console.error(`Error generating script for segment ${segment._id}:`, err);
                     // Mark as error
-                    await axios.put(`${API_URL}/radio/segments/${segment._id}`, { status: 'error' });
+                    await apiClient.put(`/api/radio/segments/${segment._id}`, { status: 'error' });
                     setSegments(prev => prev.map(s => 
                         s._id === segment._id ? { ...s, status: 'error' } : s
                     ));
@@ -210,7 +208,7 @@ const RadioShowBuilder: React.FC = () => {
         if (!confirm('Are you sure you want to clear all segments?')) return;
 
         try {
-            await axios.delete(`${API_URL}/radio/segments`);
+            await apiClient.delete(`/api/radio/segments`);
             setSegments([]);
         } catch (err: any) {
             console.error('Error clearing segments:', err);
@@ -225,7 +223,7 @@ const RadioShowBuilder: React.FC = () => {
 
     const saveScript = async (segmentId: string) => {
         try {
-            await axios.put(`${API_URL}/radio/segments/${segmentId}`, {
+            await apiClient.put(`/api/radio/segments/${segmentId}`, {
                 scriptText: editingScript,
                 status: 'pending', // Mark as pending so TTS can be regenerated
             });
@@ -251,12 +249,12 @@ const RadioShowBuilder: React.FC = () => {
         }
 
         try {
-            const ttsRes = await axios.post(`${API_URL}/google-tts/generate`, {
+            const ttsRes = await apiClient.post(`/api/google-tts/generate`, {
                 text: segment.scriptText,
                 voiceName: 'en-US-Studio-O', // TODO: Get from host config
             });
 
-            await axios.put(`${API_URL}/radio/segments/${segment._id}`, {
+            await apiClient.put(`/api/radio/segments/${segment._id}`, {
                 audioUrl: ttsRes.data.audioUrl,
                 status: 'ready',
             });
@@ -1,23 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { Volume2, Play, Pause, RefreshCw, XCircle, Image, Edit2, Save, X, Crown } from 'lucide-react';
-import { apiClient } from '../services/apiClient';
-
-interface Voice {
-    _id?: string;
-    voiceId: string;
-    name: string;
-    customName?: string;
-    category: string;
-    previewUrl?: string;
-    characterImage?: string;
-    enabled: boolean;
-    showInApp: boolean;
-    description?: string;
-    ageGroup?: string;
-    language?: string;
-    displayOrder?: number;
-    isPremium?: boolean;
-}
+import { apiClient, api } from '../services/apiClient';
+import type { ApiVoice } from '../../../shared/api';
+
+type Voice = ApiVoice;
 
 const Voices: React.FC = () => {
     const [voices, setVoices] = useState<Voice[]>([]);
@@ -45,8 +31,8 @@ const Voices: React.FC = () => {
 
     const fetchVoices = async () => {
         try {
-            const response = await apiClient.get('/api/voices');
-            setVoices(response.data);
+            const data = await api.voices.list();
+            setVoices(data);
         } catch (error) {
             console.error('Error fetching voices:', error);
         } finally {
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { createApiClient } from '../../../shared/api';
 
 // Base URL for API requests - defaults to production backend
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://backendgk2-0.onrender.com';
@@ -12,6 +13,22 @@ export const apiClient = axios.create({
   },
 });
 
+// Send the portal session so the backend can check the member's role and audit their changes
+apiClient.interceptors.request.use((config) => {
+  const token = localStorage.getItem('portal_admin_token');
+  if (token && !config.headers.Authorization) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// Typed client generated from the shared API schema (shared/api) - responses are
+// validated at runtime and schema drift is logged to the console
+export const api = createApiClient(async (method, path, body) => {
+  const response = await apiClient.request({ method, url: `/api/${path}`, data: body });
+  return response.data;
+});
+
 // Helper to get full URL for uploads (useful for form submissions)
 export const getApiUrl = (path: string): string => {
   // Ensure path starts with /
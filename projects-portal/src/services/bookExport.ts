@@ -0,0 +1,918 @@
+import apiClient, { getMediaUrl } from './apiClient';
+import { writeZip } from './zip';
+import type { ZipFileInput } from './zip';
+import { writePdf } from './pdf';
+import type { PdfPage } from './pdf';
+import { parseTextIntoSegments } from '../../../utils/narrationSegments';
+import type { CharacterVoice } from '../../../utils/narrationSegments';
+import { processTextWithEmotionalCues, removeEmotionalCues } from '../../../utils/textProcessing';
+
+/**
+ * Book export - the published version of a book as a fixed-layout EPUB 3 or a print-ready PDF.
+ *
+ * Pages are laid out the way the app shows them with the scroll fully open, on a tablet-sized
+ * page (768x1024, or 1024x768 for landscape books). Video pages use a poster frame and image
+ * sequences their first image.
+ *
+ * The EPUB carries media overlays for read-along: a page's narrator recording and its aligned
+ * timings when it has one, otherwise narration already generated for the book (TTS cache, same
+ * text + voice pairs as the app). Nothing is generated here - text boxes without either are
+ * simply not read aloud.
+ *
+ * The PDF is one 300 DPI image per page at a 7.5x10in trim (10x7.5in landscape) plus 0.125in bleed.
+ */
+
+interface ExportTextBox {
+  text: string;
+  x: number; // percentage (0-100)
+  y: number; // percentage (0-100)
+  width?: number; // percentage (0-100)
+  alignment?: 'left' | 'center' | 'right';
+  fontFamily?: string;
+  fontSize?: number;
+  color?: string;
+  showBackground?: boolean;
+  backgroundColor?: string;
+  shadowColor?: string;
+  // Read-along timing for the page narration
+  startTime?: number;
+  endTime?: number;
+  words?: Array<{ word: string; start: number; end: number }>;
+}
+
+interface SequenceItem {
+  url: string;
+  order: number;
+}
+
+interface ExportPage {
+  pageNumber: number;
+  backgroundUrl?: string;
+  backgroundType?: 'image' | 'video';
+  files?: {
+    background?: { url?: string; type?: 'image' | 'video' };
+    scroll?: { url?: string };
+  };
+  scrollUrl?: string;
+  scrollMaxHeight?: number;
+  scrollOffsetX?: number;
+  scrollOffsetY?: number;
+  scrollWidth?: number;
+  textBoxes?: ExportTextBox[];
+  content?: { textBoxes?: ExportTextBox[] };
+  useVideoSequence?: boolean;
+  videoSequence?: SequenceItem[];
+  useImageSequence?: boolean;
+  imageSequence?: SequenceItem[];
+  isColoringPage?: boolean;
+  coloringEndModalOnly?: boolean;
+  narration?: { audioUrl?: string };
+}
+
+interface ExportBook {
+  _id: string;
+  title: string;
+  author?: string;
+  description?: string;
+  coverImage?: string;
+  files?: { coverImage?: string | null };
+  orientation?: 'portrait' | 'landscape';
+  defaultNarratorVoiceId?: string;
+  defaultVoiceId?: string;
+  characterVoices?: CharacterVoice[];
+}
+
+export type ExportFormat = 'epub' | 'pdf';
+
+export interface ExportProgress {
+  step: string;
+  done: number;
+  total: number;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  filename: string;
+  warnings: string[];
+}
+
+// ============ Layout ============
+
+// Same sizes as the tablet previews in BookReader
+const PAGE_SIZES = {
+  portrait: { width: 768, height: 1024 },
+  landscape: { width: 1024, height: 768 },
+};
+
+const TRIM_INCHES = {
+  portrait: { width: 7.5, height: 10 },
+  landscape: { width: 10, height: 7.5 },
+};
+
+const BLEED_INCHES = 0.125;
+const PRINT_DPI = 300;
+const LINE_HEIGHT = 1.5;
+
+// Fonts PageEditor offers (loaded by the portal from Google Fonts)
+const KNOWN_FONTS = ['Patrick Hand', 'Baloo 2', 'Bangers', 'Bubblegum Sans', 'Caveat', 'Chewy', 'Fredoka One', 'Luckiest Guy', 'Pacifico'];
+
+interface BoxLayout {
+  left: number;
+  top: number;
+  width: number;
+  maxHeight: number;
+  fontFamily: string;
+  fontName: string;
+  fontSize: number;
+  color: string;
+  align: 'left' | 'center' | 'right';
+  background: string | null;
+  paddingX: number;
+  paddingY: number;
+  shadow: 'soft' | 'dark' | 'light';
+}
+
+interface ScrollLayout {
+  url: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface PageLayout {
+  background?: { url: string; type: 'image' | 'video' };
+  scroll?: ScrollLayout;
+  boxes: Array<{ layout: BoxLayout; words: string[]; source: ExportTextBox }>;
+  narrationUrl?: string;
+}
+
+// Readers skip coloring pages that only appear in the end-of-book modal
+const getReaderPages = (pages: ExportPage[]): ExportPage[] =>
+  pages.filter(p => !p.isColoringPage || p.coloringEndModalOnly === false);
+
+const getTextBoxes = (page: ExportPage): ExportTextBox[] => {
+  const contentBoxes = page.content?.textBoxes;
+  return (contentBoxes && contentBoxes.length > 0 ? contentBoxes : page.textBoxes) || [];
+};
+
+const firstInSequence = (items?: SequenceItem[]) =>
+  items && items.length > 0 ? [...items].sort((a, b) => a.order - b.order)[0].url : undefined;
+
+const getBackground = (page: ExportPage): PageLayout['background'] => {
+  if (page.useImageSequence) {
+    const url = firstInSequence(page.imageSequence);
+    if (url) return { url, type: 'image' };
+  }
+  if (page.useVideoSequence) {
+    const url = firstInSequence(page.videoSequence);
+    if (url) return { url, type: 'video' };
+  }
+  const url = page.backgroundUrl || page.files?.background?.url;
+  if (!url) return undefined;
+  return { url, type: (page.backgroundType || page.files?.background?.type) === 'video' ? 'video' : 'image' };
+};
+
+/** Position everything on the page in CSS pixels, matching BookReader with the scroll open */
+const layoutPage = (page: ExportPage, size: { width: number; height: number }): PageLayout => {
+  const scrollUrl = page.scrollUrl || page.files?.scroll?.url;
+  const scrollHeight = page.scrollMaxHeight || 60;
+  const offsetY = page.scrollOffsetY || 0;
+  const px = (percent: number, total: number) => (percent / 100) * total;
+
+  let scroll: ScrollLayout | undefined;
+  if (scrollUrl) {
+    const width = px(page.scrollWidth || 100, size.width);
+    const height = px(scrollHeight, size.height);
+    scroll = {
+      url: scrollUrl,
+      left: size.width / 2 - width / 2 + px(page.scrollOffsetX || 0, width),
+      top: size.height - px(offsetY, size.height) - height,
+      width,
+      height,
+    };
+  }
+
+  const boxes = getTextBoxes(page)
+    .filter(box => box.text)
+    .map(box => {
+      const y = typeof box.y === 'number' ? box.y : 0;
+      const top = scrollUrl ? Math.max(y, 100 - scrollHeight - offsetY + 3) : y;
+      const maxHeight = scrollUrl
+        ? px(100 - (offsetY + 8) - top, size.height)
+        : px(100 - top, size.height) - 40;
+      const usesPatrickHand = box.fontFamily === 'Comic Sans MS' || !box.fontFamily;
+      const fontName = usesPatrickHand ? 'Patrick Hand' : box.fontFamily as string;
+
+      const layout: BoxLayout = {
+        left: px(box.x || 0, size.width),
+        top: px(top, size.height),
+        width: px(box.width || 30, size.width),
+        maxHeight: Math.max(0, maxHeight),
+        fontName,
+        fontFamily: usesPatrickHand ? "'Patrick Hand', 'Comic Sans MS', cursive" : `'${fontName}', cursive`,
+        fontSize: usesPatrickHand ? Math.round((box.fontSize || 24) * 1.2) : box.fontSize || 24,
+        color: box.color || '#4a3b2a',
+        align: box.alignment || 'left',
+        background: box.showBackground ? box.backgroundColor || 'rgba(255,255,255,0.85)' : null,
+        paddingX: box.showBackground ? 16 : 8,
+        paddingY: box.showBackground ? 12 : 8,
+        shadow: box.showBackground ? 'soft' : box.shadowColor === 'dark' ? 'dark' : 'light',
+      };
+      const words = removeEmotionalCues(box.text).split(' ').filter(Boolean);
+      return { layout, words, source: box };
+    });
+
+  return { background: getBackground(page), scroll, boxes, narrationUrl: page.narration?.audioUrl };
+};
+
+// ============ Media ============
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/ogg': 'ogg',
+  'font/woff2': 'woff2',
+};
+
+const fetchMedia = async (url: string): Promise<Blob> => {
+  const response = await fetch(getMediaUrl(url));
+  if (!response.ok) {
+    throw new Error(`Could not download ${url} (${response.status})`);
+  }
+  return response.blob();
+};
+
+const waitFor = (target: EventTarget, event: string, timeoutMs: number) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${event}`)), timeoutMs);
+    target.addEventListener(event, () => { clearTimeout(timer); resolve(); }, { once: true });
+    target.addEventListener('error', () => { clearTimeout(timer); reject(new Error(`Could not load media for ${event}`)); }, { once: true });
+  });
+
+const canvasToJpeg = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the page'))), 'image/jpeg', quality);
+  });
+
+/** A JPEG of the video a second in (or a tenth of the way through short clips) */
+const capturePosterFrame = async (url: string): Promise<Blob> => {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = getMediaUrl(url);
+  try {
+    await waitFor(video, 'loadeddata', 30000);
+    video.currentTime = Math.min(1, (video.duration || 0) / 10);
+    await waitFor(video, 'seeked', 30000);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    return await canvasToJpeg(canvas, 0.9);
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+/** Downloads each URL once and remembers the result (or the failure) for every page that uses it */
+const createMediaCache = (warnings: string[]) => {
+  const cache = new Map<string, Promise<Blob | null>>();
+  return (url: string, type: 'image' | 'video' | 'audio'): Promise<Blob | null> => {
+    const key = `${type}:${url}`;
+    if (!cache.has(key)) {
+      const load = type === 'video' ? capturePosterFrame(url) : fetchMedia(url);
+      cache.set(key, load.catch(error => {
+        console.warn(`⚠️ Export could not use ${url}:`, error);
+        warnings.push(type === 'video'
+          ? `No poster frame could be taken from ${url} - the page is exported without a background`
+          : `${url} could not be downloaded and was left out`);
+        return null;
+      }));
+    }
+    return cache.get(key) as Promise<Blob | null>;
+  };
+};
+
+const loadBook = async (bookId: string) => {
+  // Published version - drafts stay in the portal until they go live
+  const [bookRes, pagesRes] = await Promise.all([
+    apiClient.get(`/api/books/${bookId}`),
+    apiClient.get(`/api/pages/book/${bookId}`),
+  ]);
+  const book: ExportBook = bookRes.data;
+  const pages = getReaderPages(pagesRes.data as ExportPage[]).sort((a, b) => a.pageNumber - b.pageNumber);
+  if (pages.length === 0) {
+    throw new Error('This book has no pages to export');
+  }
+  return { book, pages };
+};
+
+const fileBaseName = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'book';
+
+// ============ Narration ============
+
+interface NarrationClip {
+  audioUrl: string;
+  // Where the clip starts in the file - text boxes share a page's narrator recording
+  start: number;
+  words: Array<{ word: string; start: number; end: number }>;
+  isEstimated: boolean;
+}
+
+interface TimedWord {
+  clip: NarrationClip;
+  start: number;
+  end: number;
+}
+
+// Words compared without case or punctuation ("Go!" matches "go")
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * The narration clips for each text box: the page's narrator recording when its timings still
+ * match the text (same rule as the app), otherwise cached TTS found with the same text + voice
+ * pairs the app requests. Returns clips per page, per text box.
+ */
+const loadNarration = async (book: ExportBook, layouts: PageLayout[], warnings: string[]): Promise<NarrationClip[][][]> => {
+  const clips = layouts.map(layout => layout.boxes.map((): NarrationClip[] => []));
+  const unrecorded: Array<{ page: number; box: number; source: ExportTextBox }> = [];
+  layouts.forEach((layout, page) => {
+    layout.boxes.forEach(({ source, words }, box) => {
+      if (layout.narrationUrl && source.words?.length === words.length && typeof source.startTime === 'number') {
+        clips[page][box].push({ audioUrl: layout.narrationUrl, start: source.startTime, words: source.words, isEstimated: false });
+      } else {
+        unrecorded.push({ page, box, source });
+      }
+    });
+  });
+  if (unrecorded.length === 0) return clips;
+
+  const narratorVoiceId = book.defaultNarratorVoiceId || book.defaultVoiceId;
+  if (!narratorVoiceId) {
+    warnings.push('The book has no narrator voice, so text without a narrator recording has no read-along narration');
+    return clips;
+  }
+
+  const characterVoices = Array.isArray(book.characterVoices) ? book.characterVoices : [];
+  const requests: Array<{ text: string; voiceId: string; page: number; box: number }> = [];
+  unrecorded.forEach(({ page, box, source }) => {
+    parseTextIntoSegments(source.text, narratorVoiceId, characterVoices).forEach(segment => {
+      const text = processTextWithEmotionalCues(segment.text).processedText;
+      if (text) requests.push({ text, voiceId: segment.voiceId, page, box });
+    });
+  });
+
+  const results: Array<{ audioUrl: string; alignment?: { words?: NarrationClip['words']; isEstimated?: boolean } } | null> = [];
+  for (let i = 0; i < requests.length; i += 500) {
+    const chunk = requests.slice(i, i + 500).map(({ text, voiceId }) => ({ text, voiceId }));
+    const res = await apiClient.post('/api/tts/lookup', { items: chunk });
+    results.push(...res.data.results);
+  }
+
+  let missing = 0;
+  let estimated = 0;
+  requests.forEach((request, index) => {
+    const result = results[index];
+    if (!result || !result.alignment?.words?.length) {
+      missing++;
+      return;
+    }
+    if (result.alignment.isEstimated) estimated++;
+    clips[request.page][request.box].push({
+      audioUrl: result.audioUrl,
+      start: 0,
+      words: result.alignment.words,
+      isEstimated: !!result.alignment.isEstimated,
+    });
+  });
+
+  if (missing > 0) {
+    warnings.push(`${missing} of ${requests.length} narration clips have not been generated yet - play the book once in the reader to generate them`);
+  }
+  if (estimated > 0) {
+    warnings.push(`${estimated} narration clips only have estimated word timings, so their highlighting may drift`);
+  }
+  return clips;
+};
+
+/**
+ * Match the spoken words to the words shown on the page. Spoken text drops emotional cues and
+ * character tags, so matching is a forward scan with a small look-ahead rather than by index.
+ */
+const alignWords = (words: string[], clips: NarrationClip[]): Array<TimedWord | null> => {
+  const spoken = clips.flatMap(clip => clip.words.map(word => ({ clip, ...word, key: normalizeWord(word.word) })));
+  let cursor = 0;
+
+  return words.map(word => {
+    const key = normalizeWord(word);
+    if (!key) return null;
+    for (let i = cursor; i < Math.min(cursor + 5, spoken.length); i++) {
+      if (spoken[i].key === key) {
+        cursor = i + 1;
+        return { clip: spoken[i].clip, start: spoken[i].start, end: spoken[i].end };
+      }
+    }
+    return null;
+  });
+};
+
+// ============ EPUB ============
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const pad = (n: number) => String(n).padStart(3, '0');
+
+// SMIL clock value for media:duration, e.g. 0:01:02.345
+const clockValue = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = (seconds % 60).toFixed(3).padStart(6, '0');
+  return `${hours}:${String(minutes).padStart(2, '0')}:${rest}`;
+};
+
+const SHADOWS: Record<BoxLayout['shadow'], string> = {
+  soft: '1px 1px 2px rgba(255,255,255,0.8)',
+  dark: '0 0 8px rgba(0,0,0,0.9), 0 0 16px rgba(0,0,0,0.7), 1px 1px 4px rgba(0,0,0,0.8)',
+  light: '0 0 8px rgba(255,255,255,0.9), 0 0 16px rgba(255,255,255,0.7), 1px 1px 4px rgba(255,255,255,0.8)',
+};
+
+const boxStyle = (box: BoxLayout) => [
+  `left:${box.left.toFixed(1)}px`,
+  `top:${box.top.toFixed(1)}px`,
+  `width:${box.width.toFixed(1)}px`,
+  `max-height:${box.maxHeight.toFixed(1)}px`,
+  `padding:${box.paddingY}px ${box.paddingX}px`,
+  `font-family:${box.fontFamily}`,
+  `font-size:${box.fontSize}px`,
+  `color:${box.color}`,
+  `text-align:${box.align}`,
+  `text-shadow:${SHADOWS[box.shadow]}`,
+  ...(box.background ? [`background-color:${box.background}`, 'border-radius:12px'] : []),
+].join(';');
+
+/** Latin woff2 files for the Google Fonts the book uses, as @font-face rules and archive entries */
+const loadEpubFonts = async (families: string[], warnings: string[]) => {
+  const files: ZipFileInput[] = [];
+  const rules: string[] = [];
+
+  for (const family of families) {
+    try {
+      const response = await fetch(`https://fonts.googleapis.com/css2?family=${family.replace(/ /g, '+')}&display=swap`);
+      const css = await response.text();
+      // Google splits each font by script; the "latin" block covers English text
+      const src = css.match(/\/\*\s*latin\s*\*\/\s*@font-face\s*{[^}]*url\(([^)]+)\)/)?.[1];
+      if (!response.ok || !src) {
+        throw new Error(`No latin font file for ${family}`);
+      }
+      const name = `fonts/${fileBaseName(family)}.woff2`;
+      files.push({ name: `OEBPS/${name}`, data: await fetchMedia(src) });
+      rules.push(`@font-face { font-family: '${family}'; src: url('../${name}') format('woff2'); }`);
+    } catch (error) {
+      console.warn(`⚠️ Could not embed ${family}:`, error);
+      warnings.push(`The ${family} font could not be embedded - readers will use a similar font`);
+    }
+  }
+
+  return { files, rules };
+};
+
+const buildEpub = async (
+  book: ExportBook,
+  layouts: PageLayout[],
+  size: { width: number; height: number },
+  report: (step: string) => void,
+  tick: () => void,
+  warnings: string[]
+): Promise<Blob> => {
+  const getMedia = createMediaCache(warnings);
+  const files: ZipFileInput[] = [];
+  const manifest: string[] = [];
+  const durations: string[] = [];
+  const spine: string[] = [];
+  const navItems: string[] = [];
+  const mediaPaths = new Map<string, string>();
+  let mediaCount = 0;
+  let totalDuration = 0;
+
+  // Add a downloaded file to the archive once and return its path relative to OEBPS
+  const addMedia = async (url: string, type: 'image' | 'video' | 'audio', folder: string, properties?: string) => {
+    const key = `${type}:${url}`;
+    if (mediaPaths.has(key)) return mediaPaths.get(key) as string;
+    const blob = await getMedia(url, type);
+    if (!blob) return null;
+    const mimeType = type === 'video' ? 'image/jpeg' : blob.type || (type === 'audio' ? 'audio/mpeg' : 'image/jpeg');
+    const path = `${folder}/${folder === 'audio' ? 'narration' : 'media'}-${++mediaCount}.${EXTENSIONS[mimeType] || 'bin'}`;
+    files.push({ name: `OEBPS/${path}`, data: blob });
+    manifest.push(`<item id="media-${mediaCount}" href="${path}" media-type="${mimeType}"${properties ? ` properties="${properties}"` : ''}/>`);
+    mediaPaths.set(key, path);
+    return path;
+  };
+
+  const pageDocument = (title: string, body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+<head>
+<meta charset="UTF-8"/>
+<meta name="viewport" content="width=${size.width}, height=${size.height}"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="../styles/book.css"/>
+</head>
+<body>
+<div class="page">
+${body}
+</div>
+</body>
+</html>
+`;
+
+  // Cover
+  report('Cover');
+  const coverUrl = book.coverImage || book.files?.coverImage;
+  const coverPath = coverUrl ? await addMedia(coverUrl, 'image', 'images', 'cover-image') : null;
+  if (coverPath) {
+    files.push({
+      name: 'OEBPS/pages/cover.xhtml',
+      data: pageDocument(book.title, `<img class="background" src="../${coverPath}" alt="${escapeXml(book.title)}"/>`),
+    });
+    manifest.push('<item id="cover" href="pages/cover.xhtml" media-type="application/xhtml+xml"/>');
+    spine.push('<itemref idref="cover"/>');
+    navItems.push('<li><a href="pages/cover.xhtml">Cover</a></li>');
+  }
+  tick();
+
+  // Narration is looked up before any page is written so every page knows its overlay
+  report('Looking up narration');
+  const narration = await loadNarration(book, layouts, warnings);
+
+  for (let index = 0; index < layouts.length; index++) {
+    const layout = layouts[index];
+    const number = index + 1;
+    report(`Page ${number} of ${layouts.length}`);
+
+    const parts: string[] = [];
+    if (layout.background) {
+      const path = await addMedia(layout.background.url, layout.background.type, 'images');
+      if (path) parts.push(`<img class="background" src="../${path}" alt=""/>`);
+    }
+    if (layout.scroll) {
+      const { scroll } = layout;
+      const path = await addMedia(scroll.url, 'image', 'images');
+      if (path) {
+        parts.push(`<img class="scroll" src="../${path}" alt="" style="left:${scroll.left.toFixed(1)}px;top:${scroll.top.toFixed(1)}px;width:${scroll.width.toFixed(1)}px;height:${scroll.height.toFixed(1)}px"/>`);
+      }
+    }
+
+    const pars: string[] = [];
+    let duration = 0;
+    for (let boxIndex = 0; boxIndex < layout.boxes.length; boxIndex++) {
+      const { layout: box, words } = layout.boxes[boxIndex];
+      const timing = alignWords(words, narration[index][boxIndex]);
+      const spans = words.map((word, wordIndex) => `<span id="w${boxIndex}-${wordIndex}">${escapeXml(word)}</span>`);
+      parts.push(`<div class="text" style="${escapeXml(boxStyle(box))}"><p>${spans.join(' ')}</p></div>`);
+
+      // Each word plays until the next timed word of the same clip, so pauses between words are kept
+      for (let wordIndex = 0; wordIndex < timing.length; wordIndex++) {
+        const timed = timing[wordIndex];
+        if (!timed) continue;
+        const audioPath = await addMedia(timed.clip.audioUrl, 'audio', 'audio');
+        if (!audioPath) continue;
+        const next = timing.slice(wordIndex + 1).find(t => t !== null);
+        const previous = timing.slice(0, wordIndex).reverse().find(t => t !== null);
+        const clipBegin = previous && previous.clip === timed.clip ? timed.start : timed.clip.start;
+        const clipEnd = next && next.clip === timed.clip ? next.start : timed.end;
+        if (clipEnd <= clipBegin) continue;
+        duration += clipEnd - clipBegin;
+        pars.push(`<par id="p${boxIndex}-${wordIndex}"><text src="../pages/page-${pad(number)}.xhtml#w${boxIndex}-${wordIndex}"/><audio src="../${audioPath}" clipBegin="${clipBegin.toFixed(3)}s" clipEnd="${clipEnd.toFixed(3)}s"/></par>`);
+      }
+    }
+
+    files.push({ name: `OEBPS/pages/page-${pad(number)}.xhtml`, data: pageDocument(`Page ${number}`, parts.join('\n')) });
+
+    if (pars.length > 0) {
+      files.push({
+        name: `OEBPS/overlays/page-${pad(number)}.smil`,
+        data: `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/ns/SMIL" xmlns:epub="http://www.idpf.org/2007/ops" version="3.0">
+<body>
+<seq id="seq-${pad(number)}" epub:textref="../pages/page-${pad(number)}.xhtml">
+${pars.join('\n')}
+</seq>
+</body>
+</smil>
+`,
+      });
+      manifest.push(`<item id="overlay-${pad(number)}" href="overlays/page-${pad(number)}.smil" media-type="application/smil+xml"/>`);
+      manifest.push(`<item id="page-${pad(number)}" href="pages/page-${pad(number)}.xhtml" media-type="application/xhtml+xml" media-overlay="overlay-${pad(number)}"/>`);
+      durations.push(`<meta property="media:duration" refines="#overlay-${pad(number)}">${clockValue(duration)}</meta>`);
+      totalDuration += duration;
+    } else {
+      manifest.push(`<item id="page-${pad(number)}" href="pages/page-${pad(number)}.xhtml" media-type="application/xhtml+xml"/>`);
+    }
+    spine.push(`<itemref idref="page-${pad(number)}"/>`);
+    navItems.push(`<li><a href="pages/page-${pad(number)}.xhtml">Page ${number}</a></li>`);
+    tick();
+  }
+
+  report('Packaging EPUB');
+  const fontFamilies = Array.from(new Set(layouts.flatMap(l => l.boxes.map(b => b.layout.fontName)))).filter(f => KNOWN_FONTS.includes(f));
+  const fonts = await loadEpubFonts(fontFamilies, warnings);
+  fonts.files.forEach((file, i) => {
+    files.push(file);
+    manifest.push(`<item id="font-${i + 1}" href="${file.name.replace('OEBPS/', '')}" media-type="font/woff2"/>`);
+  });
+
+  files.push({
+    name: 'OEBPS/styles/book.css',
+    data: `${fonts.rules.join('\n')}
+html, body { margin: 0; padding: 0; width: ${size.width}px; height: ${size.height}px; overflow: hidden; }
+.page { position: relative; width: ${size.width}px; height: ${size.height}px; overflow: hidden; background: #000; }
+.background { position: absolute; left: 0; top: 0; width: 100%; height: 100%; object-fit: cover; }
+.scroll { position: absolute; }
+.text { position: absolute; box-sizing: border-box; overflow: hidden; line-height: ${LINE_HEIGHT}; }
+.text p { margin: 0; }
+/* Read-along highlight, same colours as the app */
+.-epub-media-overlay-active { background-color: #FFD700; color: #000; border-radius: 4px; }
+`,
+  });
+  manifest.push('<item id="css" href="styles/book.css" media-type="text/css"/>');
+
+  files.push({
+    name: 'OEBPS/nav.xhtml',
+    data: `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+<head><meta charset="UTF-8"/><title>${escapeXml(book.title)}</title></head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1>${escapeXml(book.title)}</h1>
+<ol>
+${navItems.join('\n')}
+</ol>
+</nav>
+</body>
+</html>
+`,
+  });
+  manifest.push('<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>');
+
+  const orientation = size.width > size.height ? 'landscape' : 'portrait';
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en" prefix="rendition: http://www.idpf.org/vocab/rendition/#">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">urn:godlyhub:book:${escapeXml(book._id)}</dc:identifier>
+<dc:title>${escapeXml(book.title)}</dc:title>
+${book.author ? `<dc:creator>${escapeXml(book.author)}</dc:creator>\n` : ''}${book.description ? `<dc:description>${escapeXml(book.description)}</dc:description>\n` : ''}<dc:language>en</dc:language>
+<meta property="dcterms:modified">${modified}</meta>
+<meta property="rendition:layout">pre-paginated</meta>
+<meta property="rendition:orientation">${orientation}</meta>
+<meta property="rendition:spread">none</meta>
+${durations.length > 0 ? `<meta property="media:active-class">-epub-media-overlay-active</meta>
+<meta property="media:duration">${clockValue(totalDuration)}</meta>
+${durations.join('\n')}
+` : ''}</metadata>
+<manifest>
+${manifest.join('\n')}
+</manifest>
+<spine>
+${spine.join('\n')}
+</spine>
+</package>
+`;
+
+  // "mimetype" must be the first entry, stored
+  return writeZip([
+    { name: 'mimetype', data: 'application/epub+zip' },
+    {
+      name: 'META-INF/container.xml',
+      data: `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`,
+    },
+    // Apple Books needs this to open fixed-layout books as pages rather than reflowing them
+    {
+      name: 'META-INF/com.apple.ibooks.display-options.xml',
+      data: `<?xml version="1.0" encoding="UTF-8"?>
+<display_options>
+<platform name="*">
+<option name="fixed-layout">true</option>
+<option name="open-to-spread">false</option>
+</platform>
+</display_options>
+`,
+    },
+    { name: 'OEBPS/content.opf', data: opf },
+    ...files,
+  ]);
+};
+
+// ============ PDF ============
+
+const CANVAS_SHADOWS: Record<BoxLayout['shadow'], Array<{ color: string; blur: number; offset: number }>> = {
+  soft: [{ color: 'rgba(255,255,255,0.8)', blur: 2, offset: 1 }],
+  dark: [{ color: 'rgba(0,0,0,0.7)', blur: 16, offset: 0 }, { color: 'rgba(0,0,0,0.9)', blur: 8, offset: 0 }],
+  light: [{ color: 'rgba(255,255,255,0.7)', blur: 16, offset: 0 }, { color: 'rgba(255,255,255,0.9)', blur: 8, offset: 0 }],
+};
+
+// Greedy word wrap, the way the browser wraps the text box
+const wrapWords = (ctx: CanvasRenderingContext2D, words: string[], maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const drawCover = (ctx: CanvasRenderingContext2D, image: ImageBitmap, width: number, height: number) => {
+  const scale = Math.max(width / image.width, height / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+const drawTextBox = (ctx: CanvasRenderingContext2D, box: BoxLayout, words: string[]) => {
+  ctx.font = `${box.fontSize}px ${box.fontFamily}`;
+  const lines = wrapWords(ctx, words, box.width - box.paddingX * 2);
+  const lineHeight = box.fontSize * LINE_HEIGHT;
+  const height = Math.min(lines.length * lineHeight + box.paddingY * 2, box.maxHeight);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(box.left, box.top, box.width, height);
+  ctx.clip();
+
+  if (box.background) {
+    ctx.fillStyle = box.background;
+    ctx.beginPath();
+    ctx.roundRect(box.left, box.top, box.width, height, 12);
+    ctx.fill();
+  }
+
+  ctx.fillStyle = box.color;
+  ctx.textAlign = box.align;
+  ctx.textBaseline = 'middle';
+  const x = box.align === 'center'
+    ? box.left + box.width / 2
+    : box.align === 'right' ? box.left + box.width - box.paddingX : box.left + box.paddingX;
+
+  // Canvas has one shadow at a time, so layered CSS shadows are drawn as separate passes
+  for (const shadow of CANVAS_SHADOWS[box.shadow]) {
+    ctx.shadowColor = shadow.color;
+    ctx.shadowBlur = shadow.blur * ctx.getTransform().a;
+    ctx.shadowOffsetX = shadow.offset * ctx.getTransform().a;
+    ctx.shadowOffsetY = shadow.offset * ctx.getTransform().a;
+    lines.forEach((line, i) => ctx.fillText(line, x, box.top + box.paddingY + lineHeight * (i + 0.5)));
+  }
+  ctx.restore();
+};
+
+const buildPdf = async (
+  book: ExportBook,
+  layouts: PageLayout[],
+  size: { width: number; height: number },
+  trim: { width: number; height: number },
+  report: (step: string) => void,
+  tick: () => void,
+  warnings: string[]
+): Promise<Blob> => {
+  const getMedia = createMediaCache(warnings);
+  const loadBitmap = async (url: string, type: 'image' | 'video') => {
+    const blob = await getMedia(url, type);
+    if (!blob) return null;
+    try {
+      return await createImageBitmap(blob);
+    } catch (error) {
+      console.warn(`⚠️ Could not decode ${url}:`, error);
+      warnings.push(`${url} is not an image the browser can print and was left out`);
+      return null;
+    }
+  };
+
+  // The page fonts must be ready before the canvas draws with them
+  const fonts = Array.from(new Set(layouts.flatMap(l => l.boxes.map(b => `${b.layout.fontSize}px ${b.layout.fontFamily}`))));
+  await Promise.all(fonts.map(font => document.fonts.load(font).catch(() => [])));
+
+  const bleedPx = Math.round(BLEED_INCHES * PRINT_DPI);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(trim.width * PRINT_DPI) + bleedPx * 2;
+  canvas.height = Math.round(trim.height * PRINT_DPI) + bleedPx * 2;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('This browser cannot draw pages for printing');
+  }
+  // Layout is in CSS pixels of the tablet-sized page
+  const scale = (canvas.width - bleedPx * 2) / size.width;
+
+  const pdfPages: PdfPage[] = [];
+  const addPage = async (draw: () => Promise<void>) => {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await draw();
+    pdfPages.push({
+      jpeg: await canvasToJpeg(canvas, 0.92),
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height,
+      width: (canvas.width / PRINT_DPI) * 72,
+      height: (canvas.height / PRINT_DPI) * 72,
+      bleed: BLEED_INCHES * 72,
+    });
+  };
+
+  // Backgrounds run into the bleed; everything else is placed inside the trim
+  report('Cover');
+  const coverUrl = book.coverImage || book.files?.coverImage;
+  const cover = coverUrl ? await loadBitmap(coverUrl, 'image') : null;
+  if (cover) {
+    await addPage(async () => drawCover(ctx, cover, canvas.width, canvas.height));
+  }
+  tick();
+
+  for (let index = 0; index < layouts.length; index++) {
+    const layout = layouts[index];
+    report(`Page ${index + 1} of ${layouts.length}`);
+    await addPage(async () => {
+      const background = layout.background ? await loadBitmap(layout.background.url, layout.background.type) : null;
+      if (background) drawCover(ctx, background, canvas.width, canvas.height);
+
+      ctx.setTransform(scale, 0, 0, scale, bleedPx, bleedPx);
+      if (layout.scroll) {
+        const scroll = await loadBitmap(layout.scroll.url, 'image');
+        if (scroll) ctx.drawImage(scroll, layout.scroll.left, layout.scroll.top, layout.scroll.width, layout.scroll.height);
+      }
+      layout.boxes.forEach(({ layout: box, words }) => drawTextBox(ctx, box, words));
+    });
+    tick();
+  }
+
+  report('Packaging PDF');
+  return writePdf(pdfPages, { title: book.title, author: book.author });
+};
+
+// ============ Export ============
+
+/** Export the published version of a book. The caller downloads the returned file. */
+export const exportBook = async (
+  bookId: string,
+  format: ExportFormat,
+  onProgress: (progress: ExportProgress) => void
+): Promise<ExportResult> => {
+  const warnings: string[] = [];
+  let done = 0;
+  let total = 1;
+  let currentStep = 'Loading book';
+  const report = (step: string) => {
+    currentStep = step;
+    onProgress({ step, done, total });
+  };
+  const tick = () => {
+    done++;
+    onProgress({ step: currentStep, done, total });
+  };
+
+  report('Loading book');
+  const { book, pages } = await loadBook(bookId);
+  const orientation = book.orientation === 'landscape' ? 'landscape' : 'portrait';
+  const size = PAGE_SIZES[orientation];
+  const layouts = pages.map(page => layoutPage(page, size));
+  // Cover + pages + packaging
+  total = pages.length + 2;
+
+  console.log(`📦 Exporting "${book.title}" as ${format.toUpperCase()} (${pages.length} pages)`);
+  const blob = format === 'epub'
+    ? await buildEpub(book, layouts, size, report, tick, warnings)
+    : await buildPdf(book, layouts, size, TRIM_INCHES[orientation], report, tick, warnings);
+  tick();
+
+  return { blob, filename: `${fileBaseName(book.title)}.${format}`, warnings };
+};
@@ -0,0 +1,603 @@
+import apiClient from './apiClient';
+import { readZip, mimeTypeFor } from './zip';
+import type { ZipEntry } from './zip';
+
+/**
+ * Bulk book import - turns a ZIP package or a fixed-layout EPUB 3 into a book and its pages.
+ *
+ * ZIP packages hold the page media plus a `book.json` manifest:
+ *
+ *   {
+ *     "title": "Noah's Ark", "author": "...", "description": "...", "minAge": 3,
+ *     "category": "Bible Stories", "orientation": "portrait", "isMembersOnly": false,
+ *     "cover": "cover.jpg",
+ *     "scroll": "scroll.png",                       // scroll image for every page (optional)
+ *     "scrollSettings": { "height": 60, "offsetX": 0, "offsetY": 0, "width": 100 },
+ *     "pages": [
+ *       {
+ *         "background": "pages/01.jpg",               // image or video
+ *         "text": "@Noah \"Build the ark!\"",          // or ["box 1", "box 2"] - placed with the page template
+ *         "textBoxes": [{ "text": "...", "character": "Noah", "x": 10, "y": 70, "width": 80 }],
+ *         "soundEffect": "sfx/rain.mp3",
+ *         "scroll": false                             // or scroll settings for this page
+ *       }
+ *     ]
+ *   }
+ *
+ * Without "pages", every image/video (except the cover and scroll) becomes a page in name order,
+ * with its text read from a .txt file of the same name.
+ */
+
+export interface ImportTextBox {
+  text: string;
+  x: number; // percentage (0-100)
+  y: number; // percentage (0-100)
+  width: number; // percentage (0-100)
+  height?: number;
+  alignment: 'left' | 'center' | 'right';
+  fontFamily: string;
+  fontSize: number;
+  color: string;
+  showBackground?: boolean;
+  backgroundColor?: string;
+  shadowColor?: string;
+}
+
+export type TemplateTextBox = Omit<ImportTextBox, 'text'> & { text?: string };
+
+// Same shape PageEditor saves to localStorage as `pageTemplate_${bookId}`
+export interface PageTemplate {
+  scrollUrl: string;
+  scrollHeight: number;
+  textBoxes: TemplateTextBox[];
+}
+
+export interface ScrollSettings {
+  height: number;
+  offsetX: number;
+  offsetY: number;
+  width: number;
+}
+
+export interface ImportPage {
+  pageNumber: number;
+  background?: File;
+  backgroundType: 'image' | 'video';
+  // Text for the template's text boxes, in order
+  texts: string[];
+  // Text boxes the package positioned itself - these win over the template
+  textBoxes?: Partial<ImportTextBox>[];
+  soundEffect?: File;
+  useScroll: boolean;
+  scroll?: Partial<ScrollSettings>;
+}
+
+export interface BookPackage {
+  format: 'zip' | 'epub';
+  book: {
+    title: string;
+    author: string;
+    description: string;
+    minAge: number;
+    category: string;
+    orientation: 'portrait' | 'landscape';
+    isMembersOnly: boolean;
+  };
+  cover?: File;
+  scrollImage?: File;
+  scrollSettings: ScrollSettings;
+  pages: ImportPage[];
+  warnings: string[];
+}
+
+export const DEFAULT_SCROLL: ScrollSettings = { height: 60, offsetX: 0, offsetY: 0, width: 100 };
+
+// Used when the book has no saved page template: one centred text box over the scroll
+export const DEFAULT_TEMPLATE: PageTemplate = {
+  scrollUrl: '',
+  scrollHeight: 60,
+  textBoxes: [{
+    x: 10,
+    y: 72,
+    width: 80,
+    alignment: 'center',
+    fontFamily: 'Patrick Hand',
+    fontSize: 24,
+    color: '#4a3b2a',
+  }],
+};
+
+const MEDIA_PATTERN = /\.(jpe?g|png|gif|webp|mp4|webm|mov|m4v)$/i;
+const VIDEO_PATTERN = /\.(mp4|webm|mov|m4v)$/i;
+
+const naturalCompare = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+const basename = (path: string) => path.split('/').pop() || path;
+
+const dirname = (path: string) => {
+  const index = path.lastIndexOf('/');
+  return index >= 0 ? path.slice(0, index + 1) : '';
+};
+
+// Resolve an href from a document inside the archive ("../images/p1.jpg" from "OEBPS/text/p1.xhtml")
+const resolvePath = (baseDir: string, href: string): string => {
+  const clean = decodeURIComponent(href.split('#')[0].split('?')[0]);
+  const parts = (clean.startsWith('/') ? clean.slice(1) : baseDir + clean).split('/');
+  const resolved: string[] = [];
+  parts.forEach(part => {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  });
+  return resolved.join('/');
+};
+
+const toFile = async (entry: ZipEntry): Promise<File> => {
+  const blob = await entry.blob();
+  return new File([blob], basename(entry.name), { type: mimeTypeFor(entry.name) });
+};
+
+// "@Moses" tags need a single word - "Baby Moses" becomes "@BabyMoses"
+const withCharacterTag = (text: string, character?: string) => {
+  if (!character || text.trim().startsWith('@')) return text;
+  return `@${character.replace(/\W+/g, '')} ${text}`;
+};
+
+/** Characters tagged with @Name anywhere in the package, for the preview */
+export const findCharacters = (pages: ImportPage[]): string[] => {
+  const names = new Set<string>();
+  pages.forEach(page => {
+    const texts = [...page.texts, ...(page.textBoxes || []).map(box => box.text || '')];
+    texts.forEach(text => {
+      for (const match of text.matchAll(/@(\w+)/g)) names.add(match[1]);
+    });
+  });
+  return Array.from(names).sort(naturalCompare);
+};
+
+// ============ ZIP + book.json ============
+
+interface ManifestTextBox extends Partial<ImportTextBox> {
+  character?: string;
+}
+
+interface ManifestPage {
+  background?: string;
+  text?: string | string[];
+  textBoxes?: ManifestTextBox[];
+  soundEffect?: string;
+  scroll?: boolean | Partial<ScrollSettings>;
+}
+
+interface Manifest {
+  title?: string;
+  author?: string;
+  description?: string;
+  minAge?: number;
+  category?: string;
+  orientation?: 'portrait' | 'landscape';
+  isMembersOnly?: boolean;
+  cover?: string;
+  scroll?: string;
+  scrollSettings?: Partial<ScrollSettings>;
+  pages?: ManifestPage[];
+}
+
+const parseManifestPackage = async (entries: Map<string, ZipEntry>, manifestPath: string): Promise<BookPackage> => {
+  const warnings: string[] = [];
+  const baseDir = dirname(manifestPath);
+
+  let manifest: Manifest;
+  try {
+    manifest = JSON.parse(await entries.get(manifestPath)!.text());
+  } catch {
+    throw new Error(`${basename(manifestPath)} is not valid JSON`);
+  }
+
+  const fileAt = async (path: string | undefined, label: string): Promise<File | undefined> => {
+    if (!path) return undefined;
+    const entry = entries.get(resolvePath(baseDir, path));
+    if (!entry) {
+      warnings.push(`${label}: "${path}" is not in the package`);
+      return undefined;
+    }
+    return toFile(entry);
+  };
+
+  let manifestPages = manifest.pages;
+  if (!manifestPages || manifestPages.length === 0) {
+    // No page list - every image/video is a page, in name order
+    const skip = [manifest.cover, manifest.scroll].filter(Boolean).map(path => resolvePath(baseDir, path as string));
+    const media = Array.from(entries.keys())
+      .filter(name => name.startsWith(baseDir) && MEDIA_PATTERN.test(name) && !skip.includes(name))
+      .sort(naturalCompare);
+
+    manifestPages = await Promise.all(media.map(async (name) => {
+      const textEntry = entries.get(name.replace(/\.[^.]+$/, '.txt'));
+      return {
+        background: name.slice(baseDir.length),
+        text: textEntry ? (await textEntry.text()).trim() : undefined,
+      };
+    }));
+    if (manifestPages.length > 0) {
+      warnings.push(`No "pages" list in ${basename(manifestPath)} - made ${manifestPages.length} pages from the images and videos in name order`);
+    }
+  }
+
+  const pages: ImportPage[] = [];
+  for (const [index, page] of manifestPages.entries()) {
+    const pageNumber = index + 1;
+    const background = await fileAt(page.background, `Page ${pageNumber} background`);
+    const texts = page.text === undefined ? [] : (Array.isArray(page.text) ? page.text : [page.text]);
+
+    pages.push({
+      pageNumber,
+      background,
+      backgroundType: page.background && VIDEO_PATTERN.test(page.background) ? 'video' : 'image',
+      texts: texts.map(text => text.trim()).filter(Boolean),
+      textBoxes: page.textBoxes?.map(({ character, ...box }) => ({
+        ...box,
+        text: withCharacterTag(box.text || '', character),
+      })),
+      soundEffect: await fileAt(page.soundEffect, `Page ${pageNumber} sound effect`),
+      useScroll: page.scroll !== false,
+      scroll: typeof page.scroll === 'object' ? page.scroll : undefined,
+    });
+  }
+
+  return {
+    format: 'zip',
+    book: {
+      title: manifest.title || '',
+      author: manifest.author || '',
+      description: manifest.description || '',
+      minAge: manifest.minAge ?? 3,
+      category: manifest.category || '',
+      orientation: manifest.orientation === 'landscape' ? 'landscape' : 'portrait',
+      isMembersOnly: !!manifest.isMembersOnly,
+    },
+    cover: await fileAt(manifest.cover, 'Cover'),
+    scrollImage: await fileAt(manifest.scroll, 'Scroll'),
+    scrollSettings: { ...DEFAULT_SCROLL, ...manifest.scrollSettings },
+    pages,
+    warnings,
+  };
+};
+
+// ============ EPUB 3 (fixed layout) ============
+
+const parseXml = (text: string, type: DOMParserSupportedType = 'application/xml'): Document => {
+  const doc = new DOMParser().parseFromString(text, type);
+  if (doc.getElementsByTagName('parsererror').length > 0 && type !== 'text/html') {
+    // Plenty of EPUBs ship XHTML that isn't quite XML
+    return new DOMParser().parseFromString(text, 'text/html');
+  }
+  return doc;
+};
+
+const byLocalName = (root: Document | Element, name: string): Element[] =>
+  Array.from(root.getElementsByTagName('*')).filter(el => el.localName === name);
+
+// Size of a fixed-layout page: <meta name="viewport" content="width=1024, height=768">
+const readViewport = (doc: Document): { width: number; height: number } | null => {
+  const meta = byLocalName(doc, 'meta').find(el => el.getAttribute('name') === 'viewport');
+  const content = meta?.getAttribute('content') || '';
+  const width = parseFloat(content.match(/width\s*=\s*([\d.]+)/)?.[1] || '');
+  const height = parseFloat(content.match(/height\s*=\s*([\d.]+)/)?.[1] || '');
+  return width && height ? { width, height } : null;
+};
+
+// A CSS length as a percentage of the page ("120px" of 1024 -> 11.7)
+const toPercent = (value: string | undefined, total: number | undefined): number | undefined => {
+  if (!value) return undefined;
+  const number = parseFloat(value);
+  if (isNaN(number)) return undefined;
+  if (value.trim().endsWith('%')) return number;
+  return total ? Math.round((number / total) * 1000) / 10 : undefined;
+};
+
+const readStyle = (el: Element): Record<string, string> => {
+  const style: Record<string, string> = {};
+  (el.getAttribute('style') || '').split(';').forEach(rule => {
+    const [key, ...rest] = rule.split(':');
+    if (key && rest.length) style[key.trim().toLowerCase()] = rest.join(':').trim();
+  });
+  return style;
+};
+
+const textOf = (el: Element) => (el.textContent || '').replace(/\s+/g, ' ').trim();
+
+const parseEpubPackage = async (entries: Map<string, ZipEntry>): Promise<BookPackage> => {
+  const warnings: string[] = [];
+
+  const container = entries.get('META-INF/container.xml');
+  if (!container) throw new Error('This EPUB has no META-INF/container.xml');
+  const rootfile = byLocalName(parseXml(await container.text()), 'rootfile')[0];
+  const opfPath = rootfile?.getAttribute('full-path');
+  if (!opfPath || !entries.get(opfPath)) throw new Error('Could not find the EPUB package document');
+
+  const opf = parseXml(await entries.get(opfPath)!.text());
+  const opfDir = dirname(opfPath);
+  const metaText = (name: string) => {
+    const el = byLocalName(opf, name)[0];
+    return el ? textOf(el) : '';
+  };
+  const metaProperty = (property: string) =>
+    byLocalName(opf, 'meta').find(el => el.getAttribute('property') === property)?.textContent?.trim() || '';
+
+  if (metaProperty('rendition:layout') !== 'pre-paginated') {
+    warnings.push('This EPUB is not fixed-layout - page text will be placed with the page template');
+  }
+
+  const manifest = new Map<string, { href: string; type: string; properties: string }>();
+  byLocalName(opf, 'item').forEach(item => {
+    manifest.set(item.getAttribute('id') || '', {
+      href: resolvePath(opfDir, item.getAttribute('href') || ''),
+      type: item.getAttribute('media-type') || '',
+      properties: item.getAttribute('properties') || '',
+    });
+  });
+
+  // EPUB 3 marks the cover with properties="cover-image", EPUB 2 with <meta name="cover">
+  const coverId = byLocalName(opf, 'meta').find(el => el.getAttribute('name') === 'cover')?.getAttribute('content');
+  const coverItem = Array.from(manifest.values()).find(item => item.properties.split(' ').includes('cover-image'))
+    || (coverId ? manifest.get(coverId) : undefined);
+  const coverEntry = coverItem ? entries.get(coverItem.href) : undefined;
+
+  const fileFor = async (path: string | null | undefined, label: string): Promise<File | undefined> => {
+    if (!path) return undefined;
+    const entry = entries.get(path);
+    if (!entry) {
+      warnings.push(`${label}: "${path}" is not in the EPUB`);
+      return undefined;
+    }
+    return toFile(entry);
+  };
+
+  const spine = byLocalName(opf, 'itemref')
+    .map(ref => manifest.get(ref.getAttribute('idref') || ''))
+    .filter((item): item is { href: string; type: string; properties: string } => !!item && item.type.includes('html'));
+
+  let landscapePages = 0;
+  const pages: ImportPage[] = [];
+
+  for (const item of spine) {
+    const entry = entries.get(item.href);
+    if (!entry) continue;
+    const doc = parseXml(await entry.text(), 'application/xhtml+xml');
+    const docDir = dirname(item.href);
+    const viewport = readViewport(doc);
+    if (viewport && viewport.width > viewport.height) landscapePages++;
+
+    const srcOf = (el: Element | undefined) => {
+      const src = el?.getAttribute('src') || el?.getAttribute('href') || el?.getAttribute('xlink:href');
+      return src ? resolvePath(docDir, src) : null;
+    };
+
+    // Background: the page's video if it has one, otherwise its first image
+    const video = byLocalName(doc, 'video')[0];
+    const videoSrc = video ? (srcOf(video) || srcOf(byLocalName(video, 'source')[0])) : null;
+    const imageSrc = srcOf(byLocalName(doc, 'img')[0]) || srcOf(byLocalName(doc, 'image')[0]);
+    const audio = byLocalName(doc, 'audio')[0];
+    const audioSrc = audio ? (srcOf(audio) || srcOf(byLocalName(audio, 'source')[0])) : null;
+
+    // Absolutely positioned text becomes text boxes where the EPUB placed it
+    const body = byLocalName(doc, 'body')[0];
+    const positioned = body
+      ? Array.from(body.getElementsByTagName('*')).filter(el => {
+        const style = readStyle(el);
+        return 'left' in style && 'top' in style && textOf(el) && !['img', 'image', 'video', 'audio'].includes(el.localName);
+      })
+      : [];
+    const outermost = positioned.filter(el => !positioned.some(other => other !== el && other.contains(el)));
+
+    const textBoxes = outermost.map(el => {
+      const style = readStyle(el);
+      const fontSize = parseFloat(style['font-size'] || '');
+      return {
+        text: withCharacterTag(textOf(el), el.getAttribute('data-character') || undefined),
+        x: toPercent(style.left, viewport?.width) ?? 10,
+        y: toPercent(style.top, viewport?.height) ?? 70,
+        width: toPercent(style.width, viewport?.width) ?? 80,
+        alignment: (['left', 'center', 'right'].includes(style['text-align']) ? style['text-align'] : undefined) as ImportTextBox['alignment'] | undefined,
+        fontSize: style['font-size']?.endsWith('px') && fontSize ? Math.round(fontSize) : undefined,
+        color: style.color || undefined,
+      };
+    });
+
+    // Reflowable text goes into the template's text box
+    const paragraphs = outermost.length === 0 && body
+      ? byLocalName(body, 'p').map(p => withCharacterTag(textOf(p), p.getAttribute('data-character') || undefined)).filter(Boolean)
+      : [];
+    const texts = paragraphs.length > 0 ? [paragraphs.join(' ')] : [];
+
+    if (!videoSrc && !imageSrc && textBoxes.length === 0 && texts.length === 0) continue;
+
+    const pageNumber = pages.length + 1;
+    pages.push({
+      pageNumber,
+      background: await fileFor(videoSrc || imageSrc, `Page ${pageNumber} background`),
+      backgroundType: videoSrc ? 'video' : 'image',
+      texts,
+      textBoxes: textBoxes.length > 0 ? textBoxes : undefined,
+      soundEffect: await fileFor(audioSrc, `Page ${pageNumber} sound effect`),
+      useScroll: true,
+    });
+  }
+
+  // The first spine page is usually the cover itself
+  if (pages.length > 1 && coverEntry && pages[0].background?.name === basename(coverEntry.name)
+    && pages[0].texts.length === 0 && !pages[0].textBoxes) {
+    pages.shift();
+    pages.forEach((page, index) => { page.pageNumber = index + 1; });
+  }
+
+  return {
+    format: 'epub',
+    book: {
+      title: metaText('title'),
+      author: metaText('creator'),
+      description: metaText('description'),
+      minAge: 3,
+      category: '',
+      orientation: metaProperty('rendition:orientation') === 'landscape' || landscapePages > spine.length / 2 ? 'landscape' : 'portrait',
+      isMembersOnly: false,
+    },
+    cover: coverEntry ? await toFile(coverEntry) : undefined,
+    scrollSettings: { ...DEFAULT_SCROLL },
+    pages,
+    warnings,
+  };
+};
+
+/** Read a .zip (with book.json) or .epub file into a package the portal can preview */
+export const parseBookPackage = async (file: File): Promise<BookPackage> => {
+  const entries = await readZip(file);
+
+  if (entries.has('META-INF/container.xml')) {
+    return parseEpubPackage(entries);
+  }
+
+  // The manifest may sit inside a top-level folder when a folder was zipped
+  const manifestPath = Array.from(entries.keys())
+    .filter(name => ['book.json', 'manifest.json'].includes(basename(name)))
+    .sort((a, b) => a.split('/').length - b.split('/').length)[0];
+  if (!manifestPath) {
+    throw new Error('No book.json manifest found in the ZIP');
+  }
+  return parseManifestPackage(entries, manifestPath);
+};
+
+// ============ Layout ============
+
+/**
+ * Text boxes for a page: boxes the package positioned keep their place (styled like the template's
+ * first box), plain text fills the template's boxes in order - extra text stacks below the last one.
+ */
+export const layoutPage = (page: ImportPage, template: PageTemplate): ImportTextBox[] => {
+  const templateBoxes = template.textBoxes.length > 0 ? template.textBoxes : DEFAULT_TEMPLATE.textBoxes;
+  const style = { ...DEFAULT_TEMPLATE.textBoxes[0], ...templateBoxes[0] };
+
+  if (page.textBoxes && page.textBoxes.length > 0) {
+    return page.textBoxes.map(box => {
+      const defined = Object.fromEntries(Object.entries(box).filter(([, value]) => value !== undefined));
+      return { ...style, ...defined, text: box.text || '' } as ImportTextBox;
+    });
+  }
+
+  return page.texts.map((text, index) => {
+    const base = templateBoxes[Math.min(index, templateBoxes.length - 1)];
+    const overflow = Math.max(0, index - templateBoxes.length + 1);
+    return {
+      ...style,
+      ...base,
+      text,
+      y: Math.min(95, base.y + overflow * 8),
+    } as ImportTextBox;
+  });
+};
+
+// ============ Import ============
+
+export interface ImportProgress {
+  step: string;
+  done: number;
+  total: number;
+}
+
+const upload = async (endpoint: string, file: File) => {
+  const formData = new FormData();
+  formData.append('file', file);
+  const res = await apiClient.post(endpoint, formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+  });
+  return res.data as { url: string; backgroundAudioUrl?: string };
+};
+
+/**
+ * Create the book (as a draft) and every page, uploading media the same way BookForm and PageEditor do.
+ * The layout used is saved as the new book's page template so PageEditor keeps using it.
+ * Returns the new book's id.
+ */
+export const importBookPackage = async (
+  pkg: BookPackage,
+  template: PageTemplate,
+  onProgress: (progress: ImportProgress) => void
+): Promise<string> => {
+  const total = pkg.pages.length + 2;
+  let done = 0;
+  const report = (step: string) => onProgress({ step, done, total });
+
+  report('Creating book');
+  const bookRes = await apiClient.post('/api/books', { ...pkg.book, status: 'draft', coverImage: '' });
+  const bookId: string = bookRes.data._id;
+
+  if (pkg.cover) {
+    const { url } = await upload(`/api/upload/image?bookId=${bookId}&type=cover`, pkg.cover);
+    await apiClient.put(`/api/books/${bookId}`, { coverImage: url });
+  }
+
+  let scrollUrl = template.scrollUrl;
+  if (pkg.scrollImage) {
+    scrollUrl = (await upload(`/api/upload/image?bookId=${bookId}&type=scroll`, pkg.scrollImage)).url;
+  }
+  done++;
+
+  for (const page of pkg.pages) {
+    report(`Page ${page.pageNumber} of ${pkg.pages.length}`);
+    const { pageNumber } = page;
+
+    let backgroundUrl = '';
+    let backgroundAudioUrl = '';
+    if (page.background) {
+      const endpoint = page.backgroundType === 'image'
+        ? `/api/upload/image?bookId=${bookId}&type=pages&pageNumber=${pageNumber}`
+        : `/api/upload/video?bookId=${bookId}&type=pages&pageNumber=${pageNumber}`;
+      const res = await upload(endpoint, page.background);
+      backgroundUrl = res.url;
+      backgroundAudioUrl = res.backgroundAudioUrl || '';
+    }
+
+    let soundEffectUrl = '';
+    if (page.soundEffect) {
+      soundEffectUrl = (await upload(`/api/upload/sound-effect?bookId=${bookId}&pageNumber=${pageNumber}`, page.soundEffect)).url;
+    }
+
+    // The template's scroll height goes with the template's scroll image
+    const scroll = { ...pkg.scrollSettings, ...page.scroll };
+    const scrollHeight = page.scroll?.height ?? (pkg.scrollImage ? pkg.scrollSettings.height : template.scrollHeight || scroll.height);
+    await apiClient.post('/api/pages', {
+      bookId,
+      pageNumber,
+      backgroundUrl,
+      backgroundType: page.backgroundType,
+      backgroundAudioUrl,
+      scrollUrl: page.useScroll ? scrollUrl : '',
+      scrollHeight,
+      scrollMidHeight: Math.max(30, scrollHeight - 30),
+      scrollMaxHeight: scrollHeight,
+      scrollOffsetY: scroll.offsetY,
+      scrollOffsetX: scroll.offsetX,
+      scrollWidth: scroll.width,
+      soundEffectUrl,
+      textBoxes: layoutPage(page, template),
+    });
+    done++;
+  }
+
+  // Keep the layout for pages added later in PageEditor
+  try {
+    const savedTemplate: PageTemplate = {
+      scrollUrl,
+      scrollHeight: pkg.scrollImage ? pkg.scrollSettings.height : template.scrollHeight,
+      textBoxes: template.textBoxes.map(box => ({ ...box, text: '' })),
+    };
+    localStorage.setItem(`pageTemplate_${bookId}`, JSON.stringify(savedTemplate));
+  } catch (error) {
+    console.warn('⚠️ Could not save the page template:', error);
+  }
+
+  done++;
+  report('Done');
+  console.log(`📚 Imported "${pkg.book.title}" with ${pkg.pages.length} pages`);
+  return bookId;
+};
@@ -0,0 +1,150 @@
+import { getDisplayWords } from '../../../services/narrationController';
+
+/**
+ * Read-along timing for narrator recordings.
+ *
+ * A page has one recording. Each text box stores where it starts and ends in that recording
+ * plus a timing for every word the app displays (emotional cues removed), so the reader can
+ * highlight a human narration the same way it highlights generated TTS.
+ */
+
+export interface WordTiming {
+  word: string;
+  start: number; // seconds into the recording
+  end: number;
+}
+
+export interface Waveform {
+  peaks: number[]; // 0-1, one per bucket
+  duration: number;
+}
+
+// Shortest word the editor allows, in seconds
+export const MIN_WORD_DURATION = 0.05;
+
+// Words compared without case or punctuation ("Go!" matches "go")
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Download and decode a recording into peaks for drawing.
+ */
+export const decodeWaveform = async (url: string, buckets: number): Promise<Waveform> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not download the recording (${response.status})`);
+  }
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await response.arrayBuffer());
+    const data = buffer.getChannelData(0);
+    const size = Math.max(1, Math.floor(data.length / buckets));
+    const peaks: number[] = [];
+    let loudest = 0.01;
+    for (let bucket = 0; bucket < buckets; bucket++) {
+      let peak = 0;
+      const end = Math.min((bucket + 1) * size, data.length);
+      for (let i = bucket * size; i < end; i++) {
+        const value = Math.abs(data[i]);
+        if (value > peak) peak = value;
+      }
+      peaks.push(peak);
+      if (peak > loudest) loudest = peak;
+    }
+    return { peaks: peaks.map(peak => peak / loudest), duration: buffer.duration };
+  } finally {
+    context.close();
+  }
+};
+
+// The part of the recording with speech in it - leading and trailing silence trimmed
+const voicedSpan = (waveform: Waveform): { start: number; end: number } => {
+  const { peaks, duration } = waveform;
+  const first = peaks.findIndex(peak => peak > 0.08);
+  if (first === -1) return { start: 0, end: duration };
+  let last = peaks.length - 1;
+  while (last > first && peaks[last] <= 0.08) last--;
+  const bucket = duration / peaks.length;
+  return { start: first * bucket, end: Math.min(duration, (last + 1) * bucket) };
+};
+
+// Spread words over a span by length - longer words take longer to say
+const spread = (words: string[], start: number, end: number): WordTiming[] => {
+  const weights = words.map(word => word.length + 2);
+  const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+  let time = start;
+  return words.map((word, i) => {
+    const wordStart = time;
+    time += ((end - start) * weights[i]) / total;
+    return { word, start: wordStart, end: time };
+  });
+};
+
+/**
+ * Timings for when automatic alignment is unavailable: words spread over the speech in the
+ * recording. A starting point for dragging the boundaries into place by hand.
+ */
+export const estimateTimings = (boxWords: string[][], waveform: Waveform): WordTiming[][] => {
+  const { start, end } = voicedSpan(waveform);
+  const flat = spread(boxWords.flat(), start, end);
+  let offset = 0;
+  return boxWords.map(words => {
+    const timings = flat.slice(offset, offset + words.length);
+    offset += words.length;
+    return timings;
+  });
+};
+
+/**
+ * Map the words the aligner heard onto the words shown in each text box. Matching is a forward
+ * scan with a small look-ahead; displayed words it could not match are spread over the gap
+ * between their matched neighbours.
+ */
+export const mapAlignment = (boxWords: string[][], spoken: WordTiming[], duration: number): WordTiming[][] => {
+  const words = boxWords.flat();
+  const keys = spoken.map(word => normalizeWord(word.word));
+  const matched: Array<WordTiming | null> = [];
+  let cursor = 0;
+
+  words.forEach(word => {
+    const key = normalizeWord(word);
+    for (let i = cursor; key && i < Math.min(cursor + 5, spoken.length); i++) {
+      if (keys[i] === key) {
+        cursor = i + 1;
+        matched.push({ word, start: spoken[i].start, end: spoken[i].end });
+        return;
+      }
+    }
+    matched.push(null);
+  });
+
+  const timings: WordTiming[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const found = matched[i];
+    if (found) {
+      timings.push(found);
+      continue;
+    }
+    // A run of unmatched words fills the gap up to the next matched word
+    let runEnd = i;
+    while (runEnd < words.length && !matched[runEnd]) runEnd++;
+    const gapStart = timings.length > 0 ? timings[timings.length - 1].end : 0;
+    const gapEnd = runEnd < words.length ? (matched[runEnd] as WordTiming).start : duration;
+    timings.push(...spread(words.slice(i, runEnd), gapStart, Math.max(gapEnd, gapStart + MIN_WORD_DURATION * (runEnd - i))));
+    i = runEnd - 1;
+  }
+
+  let offset = 0;
+  return boxWords.map(boxWordList => {
+    const boxTimings = timings.slice(offset, offset + boxWordList.length);
+    offset += boxWordList.length;
+    return boxTimings;
+  });
+};
+
+/**
+ * Whether saved timings still fit a text box - false once the text has been edited.
+ */
+export const timingsMatchText = (text: string, words: WordTiming[] | undefined): boolean => {
+  const display = getDisplayWords(text);
+  return !!words && words.length === display.length && words.every((timing, i) => timing.word === display[i]);
+};
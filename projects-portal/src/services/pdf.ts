@@ -0,0 +1,74 @@
+// PDF pages for print exports, written with the app's shared PdfWriter.
+// Every page is a single full-bleed JPEG, so the file needs nothing beyond image XObjects.
+import { PdfWriter, latin1 } from '../../../utils/pdfWriter';
+
+export interface PdfPage {
+  jpeg: Blob;
+  // Pixel size of the JPEG
+  pixelWidth: number;
+  pixelHeight: number;
+  // Page size in points (1/72 inch), bleed included
+  width: number;
+  height: number;
+  // Bleed on each side in points - the trim box sits this far inside the media box
+  bleed: number;
+}
+
+export interface PdfInfo {
+  title: string;
+  author?: string;
+}
+
+// UTF-16BE hex string so titles with accents and non-Latin scripts survive
+const pdfText = (value: string): string => {
+  let hex = 'FEFF';
+  for (let i = 0; i < value.length; i++) {
+    hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+};
+
+const box = (x: number, y: number, width: number, height: number): string =>
+  `[${[x, y, width, height].map(n => Number(n.toFixed(2))).join(' ')}]`;
+
+/**
+ * Write a PDF with one image per page. MediaBox and BleedBox cover the full image and
+ * TrimBox marks the finished page size for the printer.
+ */
+export const writePdf = async (pages: PdfPage[], info: PdfInfo): Promise<Blob> => {
+  const pdf = new PdfWriter();
+
+  // 1 catalog, 2 page tree, 3 info, then three objects per page (page, contents, image)
+  const pageId = (index: number) => 4 + index * 3;
+
+  pdf.addObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  pdf.addObject(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  pdf.addObject(3, `<< /Title ${pdfText(info.title)}${info.author ? ` /Author ${pdfText(info.author)}` : ''} /Producer ${pdfText('Godly Hub')} >>`);
+
+  for (let i = 0; i < pages.length; i++) {
+    const page = pages[i];
+    const id = pageId(i);
+    const contents = latin1(`q ${page.width.toFixed(2)} 0 0 ${page.height.toFixed(2)} 0 0 cm /Im0 Do Q`);
+
+    pdf.addObject(
+      id,
+      `<< /Type /Page /Parent 2 0 R` +
+      ` /MediaBox ${box(0, 0, page.width, page.height)}` +
+      ` /BleedBox ${box(0, 0, page.width, page.height)}` +
+      ` /TrimBox ${box(page.bleed, page.bleed, page.width - page.bleed, page.height - page.bleed)}` +
+      ` /Resources << /XObject << /Im0 ${id + 2} 0 R >> >>` +
+      ` /Contents ${id + 1} 0 R >>`
+    );
+    pdf.addObject(id + 1, `<< /Length ${contents.length} >>`, contents);
+
+    const jpeg = new Uint8Array(await page.jpeg.arrayBuffer());
+    pdf.addObject(
+      id + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight}` +
+      ` /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>`,
+      jpeg
+    );
+  }
+
+  return pdf.finish(1, 3);
+};
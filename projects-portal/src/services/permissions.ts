@@ -0,0 +1,35 @@
+// Portal roles and capabilities - mirrors backend/src/config/portalRoles.js
+// The backend sends each member's capabilities on sign-in; these types keep the guards honest.
+
+export type StaffRole = 'admin' | 'editor' | 'lessonVolunteer' | 'translator' | 'finance' | 'moderator' | 'marketing';
+
+export type Capability =
+  | 'books.edit'
+  | 'books.publish'
+  | 'lessons.edit'
+  | 'lessons.publish'
+  | 'playlists.edit'
+  | 'games.edit'
+  | 'catalog.manage'
+  | 'translations.edit'
+  | 'radio.manage'
+  | 'notifications.send'
+  | 'campaigns.manage'
+  | 'donations.view'
+  | 'hub.review'
+  | 'creators.manage'
+  | 'subscribers.view'
+  | 'subscribers.manage'
+  | 'analytics.view'
+  | 'members.manage'
+  | 'audit.view';
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  admin: 'Admin',
+  editor: 'Content editor',
+  lessonVolunteer: 'Lesson volunteer',
+  translator: 'Translator',
+  finance: 'Finance',
+  moderator: 'Hub moderator',
+  marketing: 'Marketing',
+};
@@ -0,0 +1,224 @@
+// Minimal ZIP reader and writer for book packages (ZIP and EPUB files).
+// Entries are inflated in the browser with DecompressionStream, so nothing is uploaded until an import is committed.
+// Exports are written uncompressed - pages are mostly JPEG/MP3 media that would not shrink anyway.
+
+export interface ZipEntry {
+  // Path inside the archive, e.g. "pages/01.jpg"
+  name: string;
+  size: number;
+  blob: () => Promise<Blob>;
+  text: () => Promise<string>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+// Largest entry count and byte offset a ZIP without ZIP64 can hold - 0xffff and 0xffffffff mark ZIP64
+const MAX_ENTRIES = 0xfffe;
+const MAX_OFFSET = 0xfffffffe;
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  m4v: 'video/mp4',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  json: 'application/json',
+  xhtml: 'application/xhtml+xml',
+  html: 'text/html',
+  xml: 'application/xml',
+  opf: 'application/oebps-package+xml',
+};
+
+export const mimeTypeFor = (path: string): string => {
+  const extension = path.split('.').pop()?.toLowerCase() || '';
+  return MIME_TYPES[extension] || 'application/octet-stream';
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  // The record is 22 bytes plus an optional comment of up to 65535 bytes
+  const stop = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+  }
+  return -1;
+};
+
+/**
+ * Read the table of contents of a ZIP archive. Supports stored and deflated entries (everything
+ * common zip tools and EPUB writers produce); ZIP64 archives over 4GB are rejected.
+ */
+export const readZip = async (file: Blob): Promise<Map<string, ZipEntry>> => {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder('utf-8');
+
+  const eocd = findEndOfCentralDirectory(view);
+  if (eocd < 0) {
+    throw new Error('This file is not a ZIP archive');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported - please zip the package without ZIP64');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error('The ZIP archive is damaged');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Folders and macOS resource forks
+    if (name.endsWith('/') || name.startsWith('__MACOSX/')) continue;
+
+    const readData = async (): Promise<Blob> => {
+      if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) {
+        throw new Error(`The ZIP entry ${name} is damaged`);
+      }
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const compressed = new Blob([buffer.slice(dataStart, dataStart + compressedSize)]);
+      const type = mimeTypeFor(name);
+
+      if (method === 0) {
+        return new Blob([compressed], { type });
+      }
+      if (method === 8) {
+        const stream = compressed.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        const inflated = await new Response(stream).blob();
+        return new Blob([inflated], { type });
+      }
+      throw new Error(`${name} uses an unsupported compression method (${method})`);
+    };
+
+    entries.set(name, {
+      name,
+      size,
+      blob: readData,
+      text: async () => (await readData()).text(),
+    });
+  }
+
+  return entries;
+};
+
+export interface ZipFileInput {
+  name: string;
+  data: Blob | string;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Write a ZIP archive with every entry stored, in the order given. EPUB requires its
+ * "mimetype" entry to be first and uncompressed, which this satisfies when it is passed first.
+ * Like readZip there is no ZIP64 - archives over 4GB or 65534 files are rejected.
+ */
+export const writeZip = async (files: ZipFileInput[]): Promise<Blob> => {
+  if (files.length > MAX_ENTRIES) {
+    throw new Error(`Too many files for a ZIP archive (${files.length}) - ZIP64 archives are not supported`);
+  }
+
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data: Uint8Array<ArrayBuffer> = typeof file.data === 'string'
+      ? encoder.encode(file.data)
+      : new Uint8Array(await file.data.arrayBuffer());
+    if (offset + 30 + name.length + data.length > MAX_OFFSET) {
+      throw new Error(`The archive would be over 4GB at ${file.name} - ZIP64 archives are not supported`);
+    }
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_SIGNATURE, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, CENTRAL_SIGNATURE, true);
+    header.setUint16(4, 20, true); // version made by
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, dosTime, true);
+    header.setUint16(14, dosDate, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+
+    parts.push(local.buffer, name, data);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((total, part) => total + part.length, 0);
+  if (offset + centralSize > MAX_OFFSET) {
+    throw new Error('The archive would be over 4GB - ZIP64 archives are not supported');
+  }
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, EOCD_SIGNATURE, true);
+  eocd.setUint16(8, files.length, true);
+  eocd.setUint16(10, files.length, true);
+  eocd.setUint32(12, centralSize, true);
+  eocd.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, eocd.buffer], { type: 'application/zip' });
+};
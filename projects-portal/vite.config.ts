@@ -4,6 +4,12 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    fs: {
+      // Allow importing the API schema shared with the app (../shared)
+      allow: ['..'],
+    },
+  },
   preview: {
     port: 4174,
   },
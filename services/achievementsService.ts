@@ -0,0 +1,249 @@
+// Achievements Service - Badges kids earn for milestones
+// Badges are authored by admins in the portal (/api/badges) and cached here for offline use.
+// Progress is counted on the device from tracked activity, daily sessions and streaks, and
+// earned badges are kept per kid (synced across the family's devices) even if a badge is later retired.
+import { profileService } from './profileService';
+import { syncService } from './syncService';
+import { ApiService } from './apiService';
+import { activityTrackingService } from './activityTrackingService';
+import { getSessionHistory } from './dailySessionService';
+import { streakService } from './streakService';
+import type { ApiBadge, ApiBadgeMetric } from '../shared/api';
+
+const DEFINITIONS_KEY = 'godlykids_badge_definitions';
+const BASE_KEY = 'godlykids_achievements';
+
+// Fired on window whenever badge definitions or a kid's earned badges change
+export const ACHIEVEMENTS_EVENT = 'achievementsChanged';
+
+export type Badge = ApiBadge;
+
+// What the shelf shows after "Read 3 of 10"
+export const BADGE_METRIC_LABELS: Record<ApiBadgeMetric, string> = {
+  booksRead: 'books',
+  pagesRead: 'pages',
+  songsListened: 'songs',
+  gamesPlayed: 'games',
+  lessonsCompleted: 'lessons',
+  sessionsCompleted: 'sessions',
+  streakDays: 'day streak',
+  seriesCompleted: 'books in the series',
+};
+
+/**
+ * A badge a kid has earned - keeps its look so it stays on the shelf if the badge is retired
+ */
+export interface EarnedBadge {
+  badgeId: string;
+  title: string;
+  description?: string;
+  icon: string;
+  color: string;
+  unlockedAt: number;
+  celebrated: boolean; // the unlock modal has been shown
+}
+
+export interface BadgeProgress {
+  badge: Badge;
+  current: number;
+  target: number;
+  earned: EarnedBadge | null;
+}
+
+// Tracked activity log for each counted metric
+const ACTIVITY_KEYS: Partial<Record<ApiBadgeMetric, string>> = {
+  booksRead: 'activity_books_read',
+  pagesRead: 'activity_pages_read',
+  songsListened: 'activity_songs_played',
+  gamesPlayed: 'activity_games_played',
+  lessonsCompleted: 'activity_lessons_completed',
+};
+
+class AchievementsService {
+  // ============ DEFINITIONS ============
+
+  getBadges(): Badge[] {
+    try {
+      const stored = localStorage.getItem(DEFINITIONS_KEY);
+      if (stored) return JSON.parse(stored);
+    } catch (error) {
+      console.error('Error reading badges:', error);
+    }
+    return [];
+  }
+
+  /**
+   * Refresh badge definitions from the backend (keeps the cached ones when offline)
+   */
+  async loadBadges(): Promise<Badge[]> {
+    const badges = await ApiService.getBadges();
+    if (!badges) return this.getBadges();
+    try {
+      localStorage.setItem(DEFINITIONS_KEY, JSON.stringify(badges));
+    } catch (error) {
+      console.error('Error saving badges:', error);
+    }
+    window.dispatchEvent(new Event(ACHIEVEMENTS_EVENT));
+    return badges;
+  }
+
+  // ============ STORAGE ============
+
+  private getProfileSuffix(profileId?: string | null): string {
+    const id = profileId === undefined ? profileService.getCurrentProfileId() : profileId;
+    return id || 'parent';
+  }
+
+  private getKey(profileId?: string | null): string {
+    return `${BASE_KEY}_${this.getProfileSuffix(profileId)}`;
+  }
+
+  getEarned(profileId?: string | null): Record<string, EarnedBadge> {
+    try {
+      const stored = localStorage.getItem(this.getKey(profileId));
+      if (stored) return JSON.parse(stored);
+    } catch (error) {
+      console.error('Error reading earned badges:', error);
+    }
+    return {};
+  }
+
+  private saveEarned(earned: Record<string, EarnedBadge>, profileId?: string | null): void {
+    try {
+      localStorage.setItem(this.getKey(profileId), JSON.stringify(earned));
+    } catch (error) {
+      console.error('Error saving earned badges:', error);
+    }
+    window.dispatchEvent(new Event(ACHIEVEMENTS_EVENT));
+  }
+
+  // ============ PROGRESS ============
+
+  private measure(badge: Badge, profileId: string | null): { current: number; target: number } {
+    const { metric, bookIds } = badge.rule;
+    const target = metric === 'seriesCompleted' ? (bookIds?.length ?? 0) : Math.max(1, badge.rule.target ?? 1);
+
+    if (metric === 'sessionsCompleted') {
+      return { current: getSessionHistory(profileId).filter(s => s.completed).length, target };
+    }
+    if (metric === 'streakDays') {
+      return { current: streakService.getSummary(profileId).longest, target };
+    }
+
+    const entries = activityTrackingService.getActivitiesForRange(profileId, 0, Infinity, [ACTIVITY_KEYS[metric] || 'activity_books_read']);
+    if (metric !== 'booksRead' && metric !== 'seriesCompleted') {
+      return { current: entries.length, target };
+    }
+
+    // Books count once each, and only the books in the category or series when the rule has one
+    let read = [...new Set(entries.map(e => e.id))];
+    if (bookIds) read = read.filter(id => bookIds.includes(id));
+    else if (badge.rule.category || metric === 'seriesCompleted') read = [];
+    return { current: read.length, target };
+  }
+
+  /**
+   * Every published badge with a kid's progress towards it, earning any that are now complete
+   */
+  getProgress(profileId?: string | null): BadgeProgress[] {
+    const id = profileId === undefined ? profileService.getCurrentProfileId() : profileId;
+    const earned = this.getEarned(id);
+    let changed = false;
+
+    const progress = this.getBadges().map(badge => {
+      const { current, target } = this.measure(badge, id);
+      if (!earned[badge._id] && target > 0 && current >= target) {
+        earned[badge._id] = {
+          badgeId: badge._id,
+          title: badge.title,
+          description: badge.description,
+          icon: badge.icon || '🏅',
+          color: badge.color || '#FFD700',
+          unlockedAt: Date.now(),
+          celebrated: false,
+        };
+        syncService.recordChange('achievements', `${this.getProfileSuffix(id)}:${badge._id}`, earned[badge._id]);
+        console.log(`🏅 Badge earned: ${badge.title}`);
+        changed = true;
+      }
+      return { badge, current: Math.min(current, target), target, earned: earned[badge._id] || null };
+    });
+
+    if (changed) this.saveEarned(earned, id);
+    return progress;
+  }
+
+  /**
+   * Check for new badges and return the ones the kid hasn't been shown yet
+   */
+  getUncelebrated(profileId?: string | null): EarnedBadge[] {
+    this.getProgress(profileId);
+    return Object.values(this.getEarned(profileId))
+      .filter(badge => !badge.celebrated)
+      .sort((a, b) => a.unlockedAt - b.unlockedAt);
+  }
+
+  markCelebrated(badgeId: string, profileId?: string | null): void {
+    const earned = this.getEarned(profileId);
+    if (!earned[badgeId] || earned[badgeId].celebrated) return;
+    earned[badgeId] = { ...earned[badgeId], celebrated: true };
+    this.saveEarned(earned, profileId);
+    syncService.recordChange('achievements', `${this.getProfileSuffix(profileId)}:${badgeId}`, earned[badgeId]);
+  }
+
+  clearProfile(profileId: string): void {
+    Object.keys(this.getEarned(profileId)).forEach(badgeId => {
+      syncService.recordDeletion('achievements', `${profileId}:${badgeId}`);
+    });
+    localStorage.removeItem(this.getKey(profileId));
+    window.dispatchEvent(new Event(ACHIEVEMENTS_EVENT));
+  }
+
+  // ============ SYNC ============
+
+  // Every profile's earned badges on this device, as `${profile}:${badgeId}`
+  getSyncRecords(): Record<string, { value: any; updatedAt: number }> {
+    const records: Record<string, { value: any; updatedAt: number }> = {};
+    const prefix = `${BASE_KEY}_`;
+    try {
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key || !key.startsWith(prefix)) continue;
+        const suffix = key.slice(prefix.length);
+        const earned: Record<string, EarnedBadge> = JSON.parse(localStorage.getItem(key) || '{}');
+        Object.values(earned).forEach(badge => {
+          records[`${suffix}:${badge.badgeId}`] = { value: badge, updatedAt: badge.unlockedAt };
+        });
+      }
+    } catch (error) {
+      console.error('Error reading earned badges for sync:', error);
+    }
+    return records;
+  }
+
+  // Apply a record from another device (does not record a change)
+  applySyncedRecord(recordId: string, value: EarnedBadge | null): void {
+    const separator = recordId.indexOf(':');
+    if (separator < 0) return;
+    const suffix = recordId.slice(0, separator);
+    const profileId = suffix === 'parent' ? null : suffix;
+    const badgeId = recordId.slice(separator + 1);
+    const earned = this.getEarned(profileId);
+
+    if (value) {
+      // Celebrated on any device counts as celebrated
+      earned[badgeId] = { ...value, celebrated: value.celebrated || !!earned[badgeId]?.celebrated };
+    } else {
+      delete earned[badgeId];
+    }
+    this.saveEarned(earned, profileId);
+  }
+}
+
+export const achievementsService = new AchievementsService();
+
+syncService.registerStore('achievements', {
+  scope: 'family',
+  getRecords: () => achievementsService.getSyncRecords(),
+  applyRecord: (id, value) => achievementsService.applySyncedRecord(id, value),
+});
@@ -14,13 +14,34 @@ export interface ActivityStats {
   farthestPageReached: string;
 }
 
-interface ActivityEntry {
+export interface ActivityEntry {
   type: 'book' | 'page' | 'song' | 'game' | 'lesson';
   id: string;
   title?: string;
   timestamp: number;
 }
 
+export interface QuizResultEntry {
+  bookId: string;
+  title: string;
+  correctAnswers: number;
+  totalQuestions: number;
+  timestamp: number;
+}
+
+// Fired on window (detail: ActivityEntry) whenever a book, page, song, game or lesson is tracked
+export const ACTIVITY_TRACKED_EVENT = 'activityTracked';
+
+// Activity counts between two dates - used for the weekly parent digest
+export interface PeriodStats {
+  booksRead: number;
+  pagesRead: number;
+  songsListened: number;
+  gamesPlayed: number;
+  lessonsCompleted: number;
+  timeSpentMinutes: number;
+}
+
 class ActivityTrackingService {
   private sessionStartTime: number | null = null;
   private lastActiveTime: number | null = null;
@@ -29,9 +50,10 @@ class ActivityTrackingService {
   private lastSyncTime: number = 0;
   private backendSyncStarted: boolean = false;
 
-  // Get profile-specific storage key
-  private getKey(key: string): string {
-    return profileService.getProfileKey(key);
+  // Get profile-specific storage key (active profile unless a profile is given, null = parent)
+  private getKey(key: string, profileId?: string | null): string {
+    if (profileId === undefined) return profileService.getProfileKey(key);
+    return `${key}_${profileId || 'parent'}`;
   }
 
   // Start backend sync only (for Despia mode)
@@ -149,11 +171,29 @@ class ActivityTrackingService {
     }
   }
 
+  // Minutes spent in the app today, including the current not-yet-saved minute(s)
+  // profileId: defaults to the active profile (null = parent)
+  getTodayTimeSpentMinutes(profileId: string | null = profileService.getCurrentProfileId()): number {
+    const baseKey = `time_spent_${this.getTodayKey()}`;
+    const key = `${baseKey}_${profileId || 'parent'}`;
+    const saved = parseInt(localStorage.getItem(key) || '0');
+    const isActiveProfile = profileId === profileService.getCurrentProfileId();
+    const pending = isActiveProfile && this.lastActiveTime
+      ? Math.floor((Date.now() - this.lastActiveTime) / 60000)
+      : 0;
+    return saved + pending;
+  }
+
   private getTodayKey(): string {
     const today = new Date();
     return `${today.getFullYear()}-${today.getMonth() + 1}-${today.getDate()}`;
   }
 
+  // Let listeners (e.g. achievements) react to new activity
+  private notifyTracked(entry: ActivityEntry): void {
+    window.dispatchEvent(new CustomEvent<ActivityEntry>(ACTIVITY_TRACKED_EVENT, { detail: entry }));
+  }
+
   // Track book opened/read
   trackBookRead(bookId: string, bookTitle: string): void {
     const key = this.getKey('activity_books_read');
@@ -174,6 +214,7 @@ class ActivityTrackingService {
         timestamp: Date.now(),
       });
       localStorage.setItem(key, JSON.stringify(entries));
+      this.notifyTracked(entries[entries.length - 1]);
       console.log('📖 Tracked book read:', bookTitle);
     }
   }
@@ -193,6 +234,7 @@ class ActivityTrackingService {
         timestamp: Date.now(),
       });
       localStorage.setItem(key, JSON.stringify(entries));
+      this.notifyTracked(entries[entries.length - 1]);
     }
   }
 
@@ -208,6 +250,7 @@ class ActivityTrackingService {
       timestamp: Date.now(),
     });
     localStorage.setItem(key, JSON.stringify(entries));
+    this.notifyTracked(entries[entries.length - 1]);
     console.log('🎵 Tracked song played:', songTitle);
   }
 
@@ -223,6 +266,7 @@ class ActivityTrackingService {
       timestamp: Date.now(),
     });
     localStorage.setItem(key, JSON.stringify(entries));
+    this.notifyTracked(entries[entries.length - 1]);
     console.log('🎮 Tracked game played:', gameName);
   }
 
@@ -246,10 +290,24 @@ class ActivityTrackingService {
         timestamp: Date.now(),
       });
       localStorage.setItem(key, JSON.stringify(entries));
+      this.notifyTracked(entries[entries.length - 1]);
       console.log('📚 Tracked lesson completed:', lessonTitle);
     }
   }
 
+  // Track book quiz result (score history for the weekly parent digest)
+  trackQuizResult(bookId: string, bookTitle: string, correctAnswers: number, totalQuestions: number): void {
+    const key = this.getKey('activity_quiz_results');
+    try {
+      const results: QuizResultEntry[] = JSON.parse(localStorage.getItem(key) || '[]');
+      results.push({ bookId, title: bookTitle, correctAnswers, totalQuestions, timestamp: Date.now() });
+      localStorage.setItem(key, JSON.stringify(results.slice(-200)));
+      console.log(`📝 Tracked quiz result: ${bookTitle} ${correctAnswers}/${totalQuestions}`);
+    } catch (e) {
+      console.error('Error tracking quiz result:', e);
+    }
+  }
+
   // Track audio listening time (in seconds)
   trackAudioListeningTime(seconds: number): void {
     if (seconds <= 0) return;
@@ -375,6 +433,53 @@ class ActivityTrackingService {
     };
   }
 
+  /**
+   * Activity counts of any profile between two timestamps (null = parent).
+   * Unlike getStats this isn't tied to the active profile or to "now".
+   */
+  getStatsForRange(profileId: string | null, start: number, end: number): PeriodStats {
+    const count = (keyBase: string) => this.getActivitiesForRange(profileId, start, end, [keyBase]).length;
+
+    // Time spent is saved per calendar day
+    let timeSpentMinutes = 0;
+    const day = new Date(start);
+    day.setHours(0, 0, 0, 0);
+    while (day.getTime() < end) {
+      const dayKey = `${day.getFullYear()}-${day.getMonth() + 1}-${day.getDate()}`;
+      timeSpentMinutes += parseInt(localStorage.getItem(this.getKey(`time_spent_${dayKey}`, profileId)) || '0');
+      day.setDate(day.getDate() + 1);
+    }
+
+    return {
+      booksRead: count('activity_books_read'),
+      pagesRead: count('activity_pages_read'),
+      songsListened: count('activity_songs_played'),
+      gamesPlayed: count('activity_games_played'),
+      lessonsCompleted: count('activity_lessons_completed'),
+      timeSpentMinutes,
+    };
+  }
+
+  getActivitiesForRange(
+    profileId: string | null,
+    start: number,
+    end: number,
+    keyBases: string[] = ['activity_books_read', 'activity_songs_played', 'activity_games_played', 'activity_lessons_completed']
+  ): ActivityEntry[] {
+    return keyBases
+      .flatMap(keyBase => this.getActivityEntries(this.getKey(keyBase, profileId)))
+      .filter(e => e.timestamp >= start && e.timestamp < end);
+  }
+
+  getQuizResultsForRange(profileId: string | null, start: number, end: number): QuizResultEntry[] {
+    try {
+      const results: QuizResultEntry[] = JSON.parse(localStorage.getItem(this.getKey('activity_quiz_results', profileId)) || '[]');
+      return results.filter(r => r.timestamp >= start && r.timestamp < end);
+    } catch {
+      return [];
+    }
+  }
+
   // Get all recent activities for display
   getRecentActivities(limit: number = 20): ActivityEntry[] {
     const allEntries: ActivityEntry[] = [];
@@ -2,6 +2,10 @@ import { API_BASE_URL, MOCK_BOOKS } from '../constants';
 import { Book, FeaturedEpisode } from '../types';
 import { authService } from './authService';
 import { DespiaService } from './despiaService';
+import { offlineBookService } from './offlineBookService';
+import { API_ENDPOINTS, validateEndpoint } from '../shared/api';
+import type { ApiBadge, ApiBook, ApiBookSeries, ApiCategory, ApiGame, ApiLesson, ApiPage, ApiPlaylist } from '../shared/api';
+import type { LessonProgress } from './lessonService';
 
 // ============================================
 // LocalStorage-backed caching to survive WebView restarts
@@ -83,62 +87,21 @@ const normalizeCoverUrl = (url: string | undefined | null): string => {
   return `${cleanBase}${cleanUrl}`;
 };
 
-// Transform API response to match Book interface
-// Handles different field names from the API (cover_url, cover, image, etc.)
-const transformBook = (apiBook: any): Book => {
-  // Handle cover URL - try multiple possible field names
-  // From /v3/books/by-categories: coverURI, coverMiniURI
-  // Also check nested files.coverImage for new schema structure
-  const rawCoverUrl = apiBook.coverURI ||
-    apiBook.coverUri ||
-    apiBook.coverMiniURI ||
-    apiBook.coverMiniUri ||
-    apiBook.coverUrl ||
-    apiBook.cover_url ||
-    apiBook.cover ||
-    apiBook.coverImage ||
-    apiBook.cover_image ||
-    (apiBook.files && apiBook.files.coverImage) ||
-    apiBook.image ||
-    apiBook.imageUrl ||
-    apiBook.image_url ||
-    apiBook.thumbnail ||
-    apiBook.thumbnailUrl ||
-    apiBook.thumbnail_url ||
-    '';
-
-  // Handle category - try multiple possible field names
-  const category = apiBook.category ||
-    apiBook.categoryName ||
-    apiBook.genre ||
-    apiBook.type ||
-    apiBook.bookType ||
-    apiBook.book_type ||
-    'Uncategorized';
-
-  // Handle level/age - try multiple possible field names
-  // From /v3/books/by-categories: minAge (number)
-  const level = apiBook.minAge !== undefined ? `${apiBook.minAge}+` :
-    apiBook.level ||
-    apiBook.age_level ||
-    apiBook.ageLevel ||
-    apiBook.age ||
-    apiBook.recommendedAge ||
-    apiBook.recommended_age ||
-    '0+';
+// Transform an API book (see shared/api/resources.ts) into the app's Book shape
+const transformBook = (apiBook: ApiBook): Book => {
+  // Cover lives in files.coverImage; most routes also copy it to the root coverImage
+  const rawCoverUrl = apiBook.files?.coverImage || apiBook.coverImage || '';
 
   return {
-    id: apiBook.id || apiBook._id || String(apiBook.id || apiBook._id || Math.random()),
-    title: apiBook.title || apiBook.name || 'Untitled',
+    id: apiBook._id,
+    title: apiBook.title || 'Untitled',
     coverUrl: normalizeCoverUrl(rawCoverUrl),
-    level: String(level),
-    category: String(category),
-    isAudio: apiBook.isAudio || apiBook.is_audio || apiBook.hasAudio || apiBook.type === 'audio' || false,
-    isRead: apiBook.isRead || apiBook.is_read || apiBook.read || false,
-    description: apiBook.description || apiBook.summary || apiBook.synopsis || '',
-    author: apiBook.author || apiBook.author_name || apiBook.authorName || 'Unknown',
+    level: apiBook.minAge !== undefined ? `${apiBook.minAge}+` : (apiBook.level || '0+'),
+    category: apiBook.category || 'Uncategorized',
+    description: apiBook.description || '',
+    author: apiBook.author || 'Unknown',
     // Premium/Members only flag
-    isMembersOnly: apiBook.isMembersOnly || apiBook.is_members_only || apiBook.isPremium || apiBook.is_premium || false,
+    isMembersOnly: apiBook.isMembersOnly || false,
     // Analytics counts
     viewCount: apiBook.viewCount || 0,
     readCount: apiBook.readCount || 0,
@@ -148,12 +111,35 @@ const transformBook = (apiBook: any): Book => {
 };
 
 // Transform array of books
-const transformBooks = (apiBooks: any[]): Book[] => {
+const transformBooks = (apiBooks: ApiBook[]): Book[] => {
   // Don't filter out books - show them even if they don't have cover URLs
   // The UI will handle missing covers with placeholders
   return apiBooks.map(transformBook);
 };
 
+// The alternative book endpoints (v3 by-categories and older routes) predate the shared schema:
+// v3 groups books by category and carries the cover in coverURI / coverMiniURI
+type LegacyApiBook = ApiBook & { id?: string; coverURI?: string; coverMiniURI?: string; coverUrl?: string };
+
+const extractLegacyBooks = (data: any): LegacyApiBook[] => {
+  const items = Array.isArray(data) ? data : (data?.books || data?.data || []);
+  if (!Array.isArray(items)) return [];
+  // { data: [{ name, books: { data: [...books] } }] }
+  if (items[0]?.books?.data) {
+    return items.flatMap((category: any) => (Array.isArray(category.books?.data) ? category.books.data : []));
+  }
+  return items;
+};
+
+const transformLegacyBook = (apiBook: LegacyApiBook): Book => {
+  const book = transformBook(apiBook);
+  return {
+    ...book,
+    id: book.id || apiBook.id || '',
+    coverUrl: book.coverUrl || normalizeCoverUrl(apiBook.coverURI || apiBook.coverMiniURI || apiBook.coverUrl),
+  };
+};
+
 // Simple helper to handle potential API calls with authentication
 async function fetchWithTimeout(resource: string, options: RequestInit & { timeout?: number } = {}) {
   const { timeout = 8000, ...fetchOptions } = options;
@@ -291,8 +277,7 @@ export const ApiService = {
               if (altResponse.ok) {
                 console.log(`✅ Alternative endpoint worked: ${altEndpoint}`);
                 const altData = await altResponse.json();
-                const altBooksArray = Array.isArray(altData) ? altData : (altData.books || altData.data || []);
-                const altTransformedBooks = transformBooks(altBooksArray);
+                const altTransformedBooks = extractLegacyBooks(altData).map(transformLegacyBook);
                 if (altTransformedBooks.length > 0) {
                   return altTransformedBooks;
                 }
@@ -312,46 +297,9 @@ export const ApiService = {
         throw new Error(`Failed to load books (Error ${response.status}). Please try again.`);
       }
 
-      const data = await response.json();
-      console.log('✅ API Response received:', data);
-      console.log('📊 API Response type:', Array.isArray(data) ? 'Array' : typeof data);
-      console.log('📊 API Response keys:', Array.isArray(data) ? 'N/A (array)' : Object.keys(data));
-      console.log('📊 Full API Response (first 2000 chars):', JSON.stringify(data, null, 2).substring(0, 2000));
-      console.log('📊 Full API Response (complete):', JSON.stringify(data, null, 2));
-
-      // Handle various API response structures
-      let booksArray: any[] = [];
-
-      if (Array.isArray(data)) {
-        // Direct array response
-        console.log('📚 Response is direct array of books');
-        booksArray = data;
-      } else if (data.data && Array.isArray(data.data)) {
-        // Check if data.data contains books directly (paginated response)
-        // or categories with nested books
-        const firstItem = data.data[0];
-        
-        if (firstItem && firstItem.books && firstItem.books.data) {
-          // It's categories with nested books: { data: [{ name, books: { data: [...] } }] }
-          console.log('📂 Processing', data.data.length, 'categories...');
-          data.data.forEach((category: any, index: number) => {
-            console.log(`📂 Category ${index + 1}:`, category.name || category._id, '- Books:', category.books?.data?.length || 0);
-            if (category.books && category.books.data && Array.isArray(category.books.data)) {
-              booksArray = booksArray.concat(category.books.data);
-            }
-          });
-          console.log('📚 Extracted', booksArray.length, 'books from', data.data.length, 'categories');
-        } else {
-          // It's a paginated response: { data: [...books...], pagination: {...} }
-          console.log('📚 Paginated response - extracting', data.data.length, 'books from data.data');
-          booksArray = data.data;
-        }
-      } else if (data.books && Array.isArray(data.books)) {
-        // Books directly in response
-        console.log('📚 Books found directly in response');
-        booksArray = data.books;
-      }
-
+      // GET /books returns { data: [...books], pagination } - drift is logged by the validator
+      const data = validateEndpoint(API_ENDPOINTS.listBooks, await response.json());
+      const booksArray: ApiBook[] = Array.isArray(data?.data) ? data.data : [];
       console.log('📚 Total books extracted:', booksArray.length, 'items');
 
       if (booksArray.length === 0) {
@@ -359,33 +307,6 @@ export const ApiService = {
         return [];
       }
 
-      // Log first 3 books to see structure
-      console.log('📖 ===== RAW API BOOKS (first 3) =====');
-      booksArray.slice(0, 3).forEach((book, idx) => {
-        console.log(`📖 Book ${idx + 1} (raw):`, JSON.stringify(book, null, 2));
-        console.log(`📖 Book ${idx + 1} - All keys:`, Object.keys(book));
-        console.log(`🖼️ Book ${idx + 1} - Cover fields:`, {
-          coverURI: book.coverURI,
-          coverUri: book.coverUri,
-          coverMiniURI: book.coverMiniURI,
-          coverMiniUri: book.coverMiniUri,
-          coverUrl: book.coverUrl,
-          cover_url: book.cover_url,
-          cover: book.cover,
-          coverImage: book.coverImage,
-          cover_image: book.cover_image,
-          image: book.image,
-          imageUrl: book.imageUrl,
-          image_url: book.image_url,
-          thumbnail: book.thumbnail,
-          thumbnailUrl: book.thumbnailUrl,
-          thumbnail_url: book.thumbnail_url,
-        });
-        console.log(`📝 Book ${idx + 1} - Title:`, book.title || book.name || book._id);
-        console.log(`🆔 Book ${idx + 1} - ID:`, book._id || book.id);
-      });
-      console.log('📖 ===== END RAW API BOOKS =====');
-
       // Transform API response to match Book interface
       const transformedBooks = transformBooks(booksArray);
       console.log('✨ Transformed books:', transformedBooks.length, 'items');
@@ -458,9 +379,8 @@ export const ApiService = {
       });
 
       if (response.ok) {
-        const data = await response.json();
-        const booksArray = Array.isArray(data) ? data : (data.books || data.data || []);
-        return transformBooks(booksArray);
+        const data = validateEndpoint(API_ENDPOINTS.featuredBooks, await response.json());
+        return transformBooks(Array.isArray(data) ? data : []);
       }
 
       // Fallback to getting all books and slicing
@@ -586,7 +506,7 @@ export const ApiService = {
 
   // Get trending books (top books by read count)
   // No caching - always fetch fresh data for real-time trending
-  getTrendingBooks: async (limit: number = 10): Promise<Book[]> => {
+  getTrendingBooks: async (limit: number = 10): Promise<ApiBook[]> => {
     try {
       const baseUrl = getApiBaseUrl();
       const response = await fetchWithTimeout(`${baseUrl}books/trending?limit=${limit}`, {
@@ -594,7 +514,7 @@ export const ApiService = {
       });
 
       if (response.ok) {
-        const data = await response.json();
+        const data = validateEndpoint(API_ENDPOINTS.trendingBooks, await response.json());
         const result = Array.isArray(data) ? data : [];
         console.log(`📚 Trending books loaded: ${result.length} items`);
         return result;
@@ -619,7 +539,7 @@ export const ApiService = {
       });
 
       if (response.ok) {
-        const data = await response.json();
+        const data = validateEndpoint(API_ENDPOINTS.topRatedBooks, await response.json());
         const result = transformBooks(Array.isArray(data) ? data : []);
         setCache(cacheKey, result);
         return result;
@@ -657,9 +577,9 @@ export const ApiService = {
   },
 
   // Get all published book series
-  getBookSeries: async (): Promise<any[]> => {
+  getBookSeries: async (): Promise<ApiBookSeries[]> => {
     const cacheKey = 'book_series';
-    const cached = getCached<any[]>(cacheKey);
+    const cached = getCached<ApiBookSeries[]>(cacheKey);
     if (cached) return cached;
 
     try {
@@ -669,7 +589,7 @@ export const ApiService = {
       });
 
       if (response.ok) {
-        const data = await response.json();
+        const data = validateEndpoint(API_ENDPOINTS.listBookSeries, await response.json());
         const result = Array.isArray(data) ? data : [];
         setCache(cacheKey, result);
         return result;
@@ -682,7 +602,7 @@ export const ApiService = {
   },
 
   // Get featured book series
-  getFeaturedBookSeries: async (): Promise<any[]> => {
+  getFeaturedBookSeries: async (): Promise<ApiBookSeries[]> => {
     try {
       const baseUrl = getApiBaseUrl();
       const response = await fetchWithTimeout(`${baseUrl}book-series/featured`, {
@@ -690,7 +610,7 @@ export const ApiService = {
       });
 
       if (response.ok) {
-        const data = await response.json();
+        const data = validateEndpoint(API_ENDPOINTS.featuredBookSeries, await response.json());
         return Array.isArray(data) ? data : [];
       }
       return [];
@@ -701,7 +621,7 @@ export const ApiService = {
   },
 
   // Get a single book series by ID
-  getBookSeriesById: async (id: string): Promise<any | null> => {
+  getBookSeriesById: async (id: string): Promise<ApiBookSeries | null> => {
     try {
       const baseUrl = getApiBaseUrl();
       const response = await fetchWithTimeout(`${baseUrl}book-series/${id}`, {
@@ -709,7 +629,7 @@ export const ApiService = {
       });
 
       if (response.ok) {
-        return await response.json();
+        return validateEndpoint(API_ENDPOINTS.getBookSeries, await response.json());
       }
       return null;
     } catch (error) {
@@ -718,6 +638,31 @@ export const ApiService = {
     }
   },
 
+  // Get published badges (null when the backend can't be reached)
+  getBadges: async (): Promise<ApiBadge[] | null> => {
+    const cacheKey = 'badges';
+    const cached = getCached<ApiBadge[]>(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const baseUrl = getApiBaseUrl();
+      const response = await fetchWithTimeout(`${baseUrl}badges`, {
+        method: 'GET',
+      });
+
+      if (response.ok) {
+        const data = validateEndpoint(API_ENDPOINTS.listBadges, await response.json());
+        const result = Array.isArray(data) ? data : [];
+        setCache(cacheKey, result);
+        return result;
+      }
+      return null;
+    } catch (error) {
+      console.warn("Failed to fetch badges:", error);
+      return null;
+    }
+  },
+
   login: async (provider: 'apple' | 'google' | 'email', credentials?: { email?: string; password?: string }): Promise<{ success: boolean; token?: string; user?: any; error?: string }> => {
     try {
       const baseUrl = getApiBaseUrl();
@@ -1058,7 +1003,18 @@ export const ApiService = {
   },
 
   // Get book by ID
-  getBookById: async (id: string): Promise<Book | null> => {
+  // Downloaded books are served from their offline pack unless options.network is set
+  getBookById: async (id: string, options: { network?: boolean } = {}): Promise<Book | null> => {
+    if (!options.network) {
+      const offline = await offlineBookService.getOfflineBook(id);
+      if (offline) {
+        console.log(`📴 Book ${id} loaded from offline pack`);
+        const transformed = transformBook(offline.book);
+        (transformed as any).rawData = offline.book;
+        return transformed;
+      }
+    }
+
     try {
       const baseUrl = getApiBaseUrl();
       // Add cache-busting timestamp to ensure fresh data
@@ -1070,7 +1026,7 @@ export const ApiService = {
       });
 
       if (response.ok) {
-        const data = await response.json();
+        const data = validateEndpoint(API_ENDPOINTS.getBook, await response.json());
         console.log(`✅ Book data received for ID ${id}:`, data);
         // Transform the book but preserve the full raw data structure
         const transformed = transformBook(data);
@@ -1173,12 +1129,17 @@ export const ApiService = {
   },
 
   // Get pages for a book
-  getBookPages: async (bookId: string, forceRefresh: boolean = false): Promise<any[]> => {
+  getBookPages: async (bookId: string, forceRefresh: boolean = false): Promise<ApiPage[]> => {
     const cacheKey = `book_pages_${bookId}`;
     
     // Skip cache if forceRefresh is true
     if (!forceRefresh) {
-      const cached = getCached<any[]>(cacheKey);
+      const offline = await offlineBookService.getOfflineBook(bookId);
+      if (offline) {
+        console.log(`📴 Pages for book ${bookId} loaded from offline pack`);
+        return offline.pages;
+      }
+      const cached = getCached<ApiPage[]>(cacheKey);
       if (cached) return cached;
     }
 
@@ -1193,7 +1154,7 @@ export const ApiService = {
       });
 
       if (response.ok) {
-        const data = await response.json();
+        const data = validateEndpoint(API_ENDPOINTS.bookPages, await response.json());
         console.log(`✅ Pages received for book ${bookId}:`, data.length);
         setCache(cacheKey, data);
         return data;
@@ -1218,6 +1179,12 @@ export const ApiService = {
     pageNumber?: number,
     textBoxIndex?: number
   ): Promise<{ audioUrl: string; alignment: any } | null> => {
+    // Narration downloaded with the book (English only - translations are generated live)
+    if (bookId && !languageCode) {
+      const offline = await offlineBookService.getNarration(bookId, text, voiceId);
+      if (offline) return offline;
+    }
+
     try {
       const baseUrl = getApiBaseUrl();
       const response = await fetchWithTimeout(`${baseUrl}tts/generate`, {
@@ -1255,10 +1222,10 @@ export const ApiService = {
       });
 
       if (response.ok) {
-        const voices = await response.json();
+        const voices = validateEndpoint(API_ENDPOINTS.enabledVoices, await response.json());
         console.log(`✅ Loaded ${voices.length} enabled voice(s) from portal`);
         // Map to expected format for backward compatibility
-        const mappedVoices = voices.map((v: any) => ({
+        const mappedVoices = voices.map(v => ({
           voice_id: v.voiceId,
           name: v.customName || v.name, // Use customName if available, otherwise use name
           preview_url: v.previewUrl,
@@ -1398,9 +1365,9 @@ export const ApiService = {
   },
 
   // Get all playlists (optionally filtered by status)
-  getPlaylists: async (status?: 'draft' | 'published'): Promise<any[]> => {
+  getPlaylists: async (status?: 'draft' | 'published'): Promise<ApiPlaylist[]> => {
     const cacheKey = `playlists_${status || 'all'}`;
-    const cached = getCached<any[]>(cacheKey);
+    const cached = getCached<ApiPlaylist[]>(cacheKey);
     if (cached) return cached;
 
     try {
@@ -1411,14 +1378,8 @@ export const ApiService = {
       });
 
       if (response.ok) {
-        const data = await response.json();
-        // Handle both paginated response { data: [], pagination: {} } and direct array
-        let result: any[];
-        if (data.data && Array.isArray(data.data)) {
-          result = data.data;
-        } else {
-          result = Array.isArray(data) ? data : [];
-        }
+        const data = validateEndpoint(API_ENDPOINTS.listPlaylists, await response.json());
+        const result: ApiPlaylist[] = Array.isArray(data?.data) ? data.data : [];
         setCache(cacheKey, result);
         return result;
       }
@@ -1432,9 +1393,9 @@ export const ApiService = {
   // Get all categories (returns full category objects with name, color, icon, etc.)
   // Optional type parameter: 'book' or 'audio' to filter categories by contentType
   // Optional explore parameter: true to get only categories that show on explore page
-  getCategories: async (type?: 'book' | 'audio', explore?: boolean): Promise<Array<{ _id: string; name: string; description?: string; color: string; icon?: string; showOnExplore?: boolean; contentType?: 'Book' | 'Audio' }>> => {
+  getCategories: async (type?: 'book' | 'audio', explore?: boolean): Promise<Array<ApiCategory & { color: string }>> => {
     const cacheKey = `categories_${type || 'all'}_${explore ? 'explore' : 'all'}`;
-    const cached = getCached<Array<{ _id: string; name: string; description?: string; color: string; icon?: string; showOnExplore?: boolean; contentType?: 'Book' | 'Audio' }>>(cacheKey);
+    const cached = getCached<Array<ApiCategory & { color: string }>>(cacheKey);
     if (cached) return cached;
 
     try {
@@ -1446,44 +1407,29 @@ export const ApiService = {
       if (type) queryParams.push(`type=${type}`);
       if (explore) queryParams.push(`explore=true`);
       const queryString = queryParams.length > 0 ? `?${queryParams.join('&')}` : '';
-      
-      // Try different endpoint variations for categories
-      const categoryEndpoints = [
-        `${baseUrl}categories${queryString}`, // New categories endpoint with filters
-        `${baseUrl}categories${queryString}`,
-        `${baseUrl}books/categories`,
-        `${baseUrl}genres`,
-        `${baseUrl}books/genres`,
-      ];
 
-      for (const endpoint of categoryEndpoints) {
-        try {
-          const response = await fetchWithTimeout(endpoint, {
-            method: 'GET',
-          });
+      try {
+        const response = await fetchWithTimeout(`${baseUrl}categories${queryString}`, {
+          method: 'GET',
+        });
 
-          if (response.ok) {
-            const data = await response.json();
-            const categories = Array.isArray(data) ? data : (data.categories || data.data || []);
-            if (categories.length > 0) {
-              console.log(`✅ Found ${categories.length} categories${type ? ` (filtered by type: ${type})` : ''}${explore ? ' (explore page)' : ''}`);
-              // Return full category objects
-              const result = categories.map((cat: any) => ({
-                _id: cat._id || cat.id || '',
-                name: String(cat.name || cat.title || cat),
-                description: cat.description,
-                color: cat.color || '#6366f1',
-                icon: cat.icon,
-                showOnExplore: cat.showOnExplore || false,
-                contentType: cat.contentType || 'Book',
-              }));
-              setCache(cacheKey, result);
-              return result;
-            }
+        if (response.ok) {
+          const categories = validateEndpoint(API_ENDPOINTS.listCategories, await response.json());
+          if (Array.isArray(categories) && categories.length > 0) {
+            console.log(`✅ Found ${categories.length} categories${type ? ` (filtered by type: ${type})` : ''}${explore ? ' (explore page)' : ''}`);
+            // Return full category objects
+            const result = categories.map(cat => ({
+              ...cat,
+              color: cat.color || '#6366f1',
+              showOnExplore: cat.showOnExplore || false,
+              contentType: cat.contentType || 'Book' as const,
+            }));
+            setCache(cacheKey, result);
+            return result;
           }
-        } catch (error) {
-          console.log(`❌ Category endpoint failed: ${endpoint}`, error);
         }
+      } catch (error) {
+        console.log('❌ Categories endpoint failed:', error);
       }
 
       // Fallback: extract categories from books
@@ -1607,9 +1553,9 @@ export const ApiService = {
   },
 
   // Lessons API
-  getLessons: async (): Promise<any[]> => {
+  getLessons: async (): Promise<ApiLesson[]> => {
     const cacheKey = 'lessons';
-    const cached = getCached<any[]>(cacheKey);
+    const cached = getCached<ApiLesson[]>(cacheKey);
     // IMPORTANT:
     // Never short-circuit on a cached EMPTY array. If we cache an empty response once
     // (e.g. transient backend issue), it would prevent future fetches until TTL expires,
@@ -1633,15 +1579,9 @@ export const ApiService = {
       console.log('📚 Lessons API response status:', response.status);
 
       if (response.ok) {
-        const data = await response.json();
+        const data = validateEndpoint(API_ENDPOINTS.listLessons, await response.json());
         console.log('📚 Lessons API response data:', data);
-        // Handle both paginated response { data: [], pagination: {} } and direct array
-        let result: any[];
-        if (data.data && Array.isArray(data.data)) {
-          result = data.data;
-        } else {
-          result = Array.isArray(data) ? data : [];
-        }
+        const result: ApiLesson[] = Array.isArray(data?.data) ? data.data : [];
         // Cache only if non-empty to avoid trapping empty lists.
         if (Array.isArray(result) && result.length > 0) {
           setCache(cacheKey, result);
@@ -1689,18 +1629,20 @@ export const ApiService = {
     }
   },
 
+  // resume: where the kid is mid-lesson (null clears it once the lesson is done or restarted)
   reportLessonPlannerProgress: async (
     profileId: string,
     lessonId: string,
     percentWatched: number,
-    dateKey?: string
+    dateKey?: string,
+    resume?: LessonProgress | null
   ): Promise<boolean> => {
     try {
       const baseUrl = getApiBaseUrl();
       const response = await fetchWithTimeout(`${baseUrl}lessons/planner/progress`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ profileId, lessonId, percentWatched, dateKey }),
+        body: JSON.stringify({ profileId, lessonId, percentWatched, dateKey, resume }),
       });
       return response.ok;
     } catch (error) {
@@ -1709,10 +1651,32 @@ export const ApiService = {
     }
   },
 
+  getLessonPlannerProgress: async (
+    profileId: string,
+    lessonId: string
+  ): Promise<{ maxPercentWatched: number; resume: LessonProgress | null } | null> => {
+    try {
+      const baseUrl = getApiBaseUrl();
+      const response = await fetchWithTimeout(
+        `${baseUrl}lessons/planner/progress?profileId=${encodeURIComponent(profileId)}&lessonId=${encodeURIComponent(lessonId)}`,
+        { method: 'GET' }
+      );
+      if (!response.ok) return null;
+      const data = await response.json();
+      return {
+        maxPercentWatched: data.maxPercentWatched || 0,
+        resume: data.resume ? { ...data.resume, lessonId } : null,
+      };
+    } catch (error) {
+      console.error('❌ Failed to fetch planner progress:', error);
+      return null;
+    }
+  },
+
   // Games API - Get games for Daily Tasks & IQ Games section
-  getDailyTaskGames: async (): Promise<any[]> => {
+  getDailyTaskGames: async (): Promise<ApiGame[]> => {
     const cacheKey = 'daily_task_games';
-    const cached = getCached<any[]>(cacheKey);
+    const cached = getCached<ApiGame[]>(cacheKey);
     if (cached) return cached;
 
     try {
@@ -1723,7 +1687,7 @@ export const ApiService = {
       });
 
       if (response.ok) {
-        const data = await response.json();
+        const data = validateEndpoint(API_ENDPOINTS.dailyTaskGames, await response.json());
         console.log('🎮 Daily task games:', data);
         const result = Array.isArray(data) ? data : [];
         setCache(cacheKey, result);
@@ -1738,7 +1702,7 @@ export const ApiService = {
     }
   },
 
-  getLesson: async (lessonId: string): Promise<any | null> => {
+  getLesson: async (lessonId: string): Promise<ApiLesson | null> => {
     try {
       const baseUrl = getApiBaseUrl();
       const response = await fetchWithTimeout(`${baseUrl}lessons/${lessonId}`, {
@@ -1746,7 +1710,7 @@ export const ApiService = {
       });
 
       if (response.ok) {
-        return await response.json();
+        return validateEndpoint(API_ENDPOINTS.getLesson, await response.json());
       }
 
       console.warn(`⚠️ Failed to fetch lesson ${lessonId}:`, response.status);
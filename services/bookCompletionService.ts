@@ -1,5 +1,6 @@
 // Book Completion Service - Tracks which books have been completed (permanently)
 // Once a book is completed, games remain unlocked forever regardless of re-reading progress
+import { syncService } from './syncService';
 
 const COMPLETED_BOOKS_KEY = 'godlykids_completed_books';
 
@@ -44,12 +45,14 @@ class BookCompletionService {
     }
 
     const completedBooks = this.getAllCompletedBooks();
-    completedBooks.push({
+    const entry = {
       bookId,
       completedAt: Date.now()
-    });
+    };
+    completedBooks.push(entry);
     
     this.saveAllCompletedBooks(completedBooks);
+    syncService.recordChange('completedBooks', bookId, entry);
     console.log(`📚 Book ${bookId} marked as completed - games permanently unlocked!`);
   }
 
@@ -69,8 +72,32 @@ class BookCompletionService {
   getCompletedCount(): number {
     return this.getAllCompletedBooks().length;
   }
+
+  // Completed books with timestamps (used by sync)
+  getCompletedBooks(): CompletedBook[] {
+    return this.getAllCompletedBooks();
+  }
+
+  // Write a completion that came from another device (no change recorded)
+  applySyncedCompletion(bookId: string, entry: CompletedBook | null): void {
+    const completedBooks = this.getAllCompletedBooks().filter(b => b.bookId !== bookId);
+    if (entry) completedBooks.push(entry);
+    this.saveAllCompletedBooks(completedBooks);
+  }
 }
 
 export const bookCompletionService = new BookCompletionService();
 
+syncService.registerStore('completedBooks', {
+  scope: 'family',
+  getRecords: () => {
+    const records: Record<string, { value: CompletedBook; updatedAt: number }> = {};
+    bookCompletionService.getCompletedBooks().forEach(book => {
+      records[book.bookId] = { value: book, updatedAt: book.completedAt };
+    });
+    return records;
+  },
+  applyRecord: (bookId, value) => bookCompletionService.applySyncedCompletion(bookId, value),
+});
+
 
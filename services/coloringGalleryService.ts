@@ -0,0 +1,286 @@
+// Coloring Gallery Service - Every finished coloring page, PER PROFILE, across books and lessons
+// Full-resolution pictures are kept as Blobs in IndexedDB (localStorage quota errors were losing
+// artwork); the listing records carry a small thumbnail so the gallery grid loads without
+// touching the big images.
+import { profileService } from './profileService';
+
+const DB_NAME = 'godlykids_gallery';
+const DB_VERSION = 1;
+const ARTWORK_STORE = 'artwork';
+const IMAGE_STORE = 'artwork_images';
+const THUMBNAIL_WIDTH = 240;
+
+export type ArtworkSource = 'book' | 'lesson';
+
+export interface Artwork {
+  id: string;
+  profileKey: string; // kid id, or 'parent'
+  pageId: string; // coloring page key (DrawingCanvas saveKey, or lesson-<id>)
+  source: ArtworkSource;
+  sourceId: string; // book or lesson id
+  sourceTitle: string;
+  thumbnail: string; // small JPEG data URL
+  width: number;
+  height: number;
+  bytes: number;
+  favorite: boolean;
+  createdAt: number; // first finished
+  updatedAt: number; // last finished
+}
+
+export interface NewArtwork {
+  pageId: string;
+  source: ArtworkSource;
+  sourceId: string;
+  sourceTitle: string;
+  imageDataUrl: string;
+}
+
+interface StoredImage {
+  id: string;
+  blob: Blob;
+}
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Scaled-down JPEG of an image plus the image's own size
+const makeThumbnail = (dataUrl: string): Promise<{ thumbnail: string; width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_WIDTH / img.width);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve({ thumbnail: canvas.toDataURL('image/jpeg', 0.8), width: img.width, height: img.height });
+    };
+    img.onerror = () => reject(new Error('Could not load artwork image'));
+    img.src = dataUrl;
+  });
+
+class ColoringGalleryService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private objectUrls = new Map<string, string>();
+  private listeners: Array<() => void> = [];
+
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  // Subscribe to gallery changes (returns unsubscribe)
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private getProfileKey(profileId?: string | null): string {
+    const id = profileId === undefined ? profileService.getCurrentProfileId() : profileId;
+    return id || 'parent';
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(ARTWORK_STORE)) {
+            const store = db.createObjectStore(ARTWORK_STORE, { keyPath: 'id' });
+            store.createIndex('profileKey', 'profileKey', { unique: false });
+          }
+          if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+            db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async runStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const request = action(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(request.result as T);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  private revokeObjectUrl(id: string): void {
+    const url = this.objectUrls.get(id);
+    if (url) {
+      URL.revokeObjectURL(url);
+      this.objectUrls.delete(id);
+    }
+  }
+
+  // ============ SAVING ============
+
+  /**
+   * Add a finished page to a profile's gallery. Finishing the same page again
+   * replaces its picture but keeps its favorite and first-finished date.
+   */
+  async saveArtwork(artwork: NewArtwork, profileId?: string | null): Promise<Artwork | null> {
+    if (!this.isSupported()) return null;
+    const profileKey = this.getProfileKey(profileId);
+    const id = `${profileKey}:${artwork.pageId}`;
+
+    try {
+      const [blob, thumb] = await Promise.all([
+        dataUrlToBlob(artwork.imageDataUrl),
+        makeThumbnail(artwork.imageDataUrl),
+      ]);
+      const existing = await this.runStore<Artwork | undefined>(ARTWORK_STORE, 'readonly', store => store.get(id));
+      const now = Date.now();
+      const record: Artwork = {
+        id,
+        profileKey,
+        pageId: artwork.pageId,
+        source: artwork.source,
+        sourceId: artwork.sourceId,
+        sourceTitle: artwork.sourceTitle,
+        thumbnail: thumb.thumbnail,
+        width: thumb.width,
+        height: thumb.height,
+        bytes: blob.size,
+        favorite: existing?.favorite || false,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      };
+
+      await this.runStore(IMAGE_STORE, 'readwrite', store => store.put({ id, blob } as StoredImage));
+      await this.runStore(ARTWORK_STORE, 'readwrite', store => store.put(record));
+      this.revokeObjectUrl(id);
+      console.log(`🖼️ Artwork saved to gallery: ${artwork.sourceTitle} (${Math.round(blob.size / 1024)} KB)`);
+      this.notify();
+      return record;
+    } catch (error) {
+      console.error('Error saving artwork to gallery:', error);
+      return null;
+    }
+  }
+
+  // ============ READING ============
+
+  /**
+   * A profile's gallery, most recently finished first
+   */
+  async getArtwork(profileId?: string | null): Promise<Artwork[]> {
+    if (!this.isSupported()) return [];
+    try {
+      const profileKey = this.getProfileKey(profileId);
+      const items = await this.runStore<Artwork[]>(ARTWORK_STORE, 'readonly', store =>
+        store.index('profileKey').getAll(profileKey)
+      );
+      return items.sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (error) {
+      console.error('Error reading gallery:', error);
+      return [];
+    }
+  }
+
+  async getImageBlob(id: string): Promise<Blob | null> {
+    if (!this.isSupported()) return null;
+    try {
+      const stored = await this.runStore<StoredImage | undefined>(IMAGE_STORE, 'readonly', store => store.get(id));
+      return stored?.blob || null;
+    } catch (error) {
+      console.error('Error reading artwork image:', error);
+      return null;
+    }
+  }
+
+  // Object URL for showing the full-resolution picture (kept until the artwork changes)
+  async getImageUrl(id: string): Promise<string | null> {
+    const cached = this.objectUrls.get(id);
+    if (cached) return cached;
+    const blob = await this.getImageBlob(id);
+    if (!blob) return null;
+    const url = URL.createObjectURL(blob);
+    this.objectUrls.set(id, url);
+    return url;
+  }
+
+  // Full-resolution picture as a data URL (for the camera roll and the art book)
+  async getImageDataUrl(id: string): Promise<string | null> {
+    const blob = await this.getImageBlob(id);
+    if (!blob) return null;
+    try {
+      return await blobToDataUrl(blob);
+    } catch (error) {
+      console.error('Error reading artwork image:', error);
+      return null;
+    }
+  }
+
+  // ============ MANAGING ============
+
+  async setFavorite(id: string, favorite: boolean): Promise<void> {
+    if (!this.isSupported()) return;
+    try {
+      const record = await this.runStore<Artwork | undefined>(ARTWORK_STORE, 'readonly', store => store.get(id));
+      if (!record) return;
+      await this.runStore(ARTWORK_STORE, 'readwrite', store => store.put({ ...record, favorite }));
+      this.notify();
+    } catch (error) {
+      console.error('Error updating artwork:', error);
+    }
+  }
+
+  async deleteArtwork(id: string): Promise<void> {
+    if (!this.isSupported()) return;
+    try {
+      await this.runStore(IMAGE_STORE, 'readwrite', store => store.delete(id));
+      await this.runStore(ARTWORK_STORE, 'readwrite', store => store.delete(id));
+      this.revokeObjectUrl(id);
+      console.log('🗑️ Artwork removed from gallery:', id);
+    } catch (error) {
+      console.error('Error deleting artwork:', error);
+    } finally {
+      this.notify();
+    }
+  }
+
+  // Drop a removed kid's whole gallery
+  async deleteGallery(profileId: string): Promise<void> {
+    const items = await this.getArtwork(profileId);
+    for (const item of items) {
+      await this.deleteArtwork(item.id);
+    }
+  }
+}
+
+export const coloringGalleryService = new ColoringGalleryService();
@@ -1,22 +1,35 @@
 /**
  * Daily Session Service - "Godly Kids Time"
  * 
- * Manages the daily learning session flow:
- * 1. Daily Prayer
- * 2. Video Devotional
- * 3. Recommended Book (based on selected subjects)
- * 4. Celebration with coins
+ * Manages the daily learning session flow. The steps come from the routine a parent
+ * assigned for the kid and weekday (see sessionRoutineService); without one it's the
+ * default flow:
+ * 1. Scripture of the Day
+ * 2. Recommended Book (based on selected subjects)
+ * 3. Discussion
+ * 4. Prayer
+ * followed by a celebration with coins.
+ * 
+ * A Family Session is one session run for several kids together: turns rotate between
+ * them, every participant gets coins, and it counts toward each kid's history and streak
+ * (streaks themselves live in streakService).
  */
 
 import { getSavedPreferences, getPreferenceTags, SUBJECT_OPTIONS } from '../pages/InterestSelectionPage';
+import { profileService } from './profileService';
+import {
+  sessionRoutineService,
+  SessionRoutine,
+  SessionStepType,
+  SESSION_STEP_CATALOG,
+} from './sessionRoutineService';
+
+export type { SessionStepType };
 
 // Storage keys
 const SESSION_STORAGE_KEY = 'godlykids_daily_session';
 const SESSION_HISTORY_KEY = 'godlykids_session_history';
 
-// Session step types
-export type SessionStepType = 'scripture' | 'book' | 'discussion' | 'prayer';
-
 export interface SessionStep {
   type: SessionStepType;
   label: string;
@@ -24,12 +37,33 @@ export interface SessionStep {
   status: 'pending' | 'in-progress' | 'completed' | 'skipped';
   contentId?: string; // ID of the specific content (lesson/book)
   contentTitle?: string;
+  minutes?: number; // suggested time for the step
+  reward?: number; // coins for completing it (sessions saved before routines don't have one)
+  coinsEarned: number;
+}
+
+// How a family session pays out each step's coins
+export type FamilyCoinMode = 'each' | 'split';
+
+export interface SessionParticipant {
+  profileId: string;
+  name: string;
   coinsEarned: number;
 }
 
+export interface FamilySessionSetup {
+  participants: { profileId: string; name: string }[];
+  coinMode: FamilyCoinMode;
+}
+
 export interface DailySession {
   date: string; // YYYY-MM-DD
   subjects: string[]; // Selected subject IDs for this session
+  routineId?: string;
+  routineName?: string;
+  profileId?: string | null; // who ran it (sessions from before profiles were tracked don't have one)
+  participants?: SessionParticipant[]; // family session only
+  coinMode?: FamilyCoinMode;
   steps: SessionStep[];
   currentStepIndex: number;
   totalCoinsEarned: number;
@@ -38,13 +72,9 @@ export interface DailySession {
   completedAt?: number;
 }
 
-// Coin rewards for each step
-const STEP_REWARDS = {
-  scripture: 10, // Daily verse reflection
-  book: 30, // Reading time
-  discussion: 20, // Parent-child discussion
-  prayer: 30, // Daily prayer
-};
+// Coin reward for a step: what the routine set, or the catalog default for older sessions
+export const getStepReward = (step: SessionStep): number =>
+  step.reward ?? SESSION_STEP_CATALOG[step.type]?.defaultCoins ?? 0;
 
 // Get today's date as YYYY-MM-DD
 const getTodayDateKey = (): string => {
@@ -52,8 +82,12 @@ const getTodayDateKey = (): string => {
   return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
 };
 
-// Create a new daily session
-export const createDailySession = (selectedSubjects?: string[]): DailySession => {
+// Create a new daily session from a routine (the one assigned for today by default)
+export const createDailySession = (
+  selectedSubjects?: string[],
+  routine?: SessionRoutine,
+  family?: FamilySessionSetup
+): DailySession => {
   // Archive any existing completed session before creating a new one
   const existingSession = getCurrentSession();
   if (existingSession?.completed) {
@@ -62,40 +96,27 @@ export const createDailySession = (selectedSubjects?: string[]): DailySession =>
   }
   
   const subjects = selectedSubjects || getSavedPreferences();
+  const sessionRoutine = routine || sessionRoutineService.getRoutineFor(profileService.getCurrentProfileId());
   
   const session: DailySession = {
     date: getTodayDateKey(),
     subjects,
-    steps: [
-      {
-        type: 'scripture',
-        label: 'Scripture of the Day',
-        icon: '📖',
-        status: 'pending',
-        coinsEarned: 0,
-      },
-      {
-        type: 'book',
-        label: 'Story Time',
-        icon: '📚',
-        status: 'pending',
-        coinsEarned: 0,
-      },
-      {
-        type: 'discussion',
-        label: 'Discuss Together',
-        icon: '💬',
-        status: 'pending',
-        coinsEarned: 0,
-      },
-      {
-        type: 'prayer',
-        label: 'Prayer Time',
-        icon: '🙏',
-        status: 'pending',
-        coinsEarned: 0,
-      },
-    ],
+    routineId: sessionRoutine.id,
+    routineName: sessionRoutine.name,
+    profileId: profileService.getCurrentProfileId(),
+    ...(family && family.participants.length > 1 ? {
+      participants: family.participants.map(p => ({ ...p, coinsEarned: 0 })),
+      coinMode: family.coinMode,
+    } : {}),
+    steps: sessionRoutine.steps.map((step): SessionStep => ({
+      type: step.type,
+      label: SESSION_STEP_CATALOG[step.type].label,
+      icon: SESSION_STEP_CATALOG[step.type].icon,
+      status: 'pending',
+      minutes: step.minutes,
+      reward: step.coins,
+      coinsEarned: 0,
+    })),
     currentStepIndex: 0,
     totalCoinsEarned: 0,
     completed: false,
@@ -165,7 +186,7 @@ export const completeCurrentStep = (coinsEarned?: number): DailySession | null =
   if (!session) return null;
   
   const step = session.steps[session.currentStepIndex];
-  const reward = coinsEarned ?? STEP_REWARDS[step.type];
+  const reward = coinsEarned ?? getStepReward(step);
   
   // Update step
   step.status = 'completed';
@@ -173,6 +194,8 @@ export const completeCurrentStep = (coinsEarned?: number): DailySession | null =
   
   // Update session totals
   session.totalCoinsEarned += reward;
+  const share = getParticipantShare(session, reward);
+  session.participants?.forEach(p => { p.coinsEarned += share; });
   
   // Check if this was the last step
   if (session.currentStepIndex >= session.steps.length - 1) {
@@ -213,6 +236,34 @@ export const skipCurrentStep = (): DailySession | null => {
   return session;
 };
 
+export const isFamilySession = (session: DailySession | null): boolean =>
+  (session?.participants?.length ?? 0) > 1;
+
+// Coins each participant gets for a step worth `amount` (everyone gets at least one coin)
+export const getParticipantShare = (session: DailySession, amount: number): number => {
+  const count = session.participants?.length ?? 0;
+  if (count < 2 || amount <= 0 || session.coinMode !== 'split') return amount;
+  return Math.max(1, Math.floor(amount / count));
+};
+
+// Participant names in turn order for the current step - each step starts with the next kid
+export const getTurnOrder = (session: DailySession | null): string[] => {
+  if (!session || !isFamilySession(session)) return [];
+  const names = session.participants!.map(p => p.name);
+  const start = session.currentStepIndex % names.length;
+  return [...names.slice(start), ...names.slice(0, start)];
+};
+
+// Coins the current step is worth
+export const getCurrentStepReward = (): number => {
+  const step = getCurrentStep();
+  return step ? getStepReward(step) : 0;
+};
+
+// First step of a type in the session (e.g. the book a discussion or quiz is about)
+export const findSessionStep = (session: DailySession | null, type: SessionStepType): SessionStep | null =>
+  session?.steps.find(step => step.type === type) || null;
+
 // Set content for a step (e.g., which book was selected)
 export const setStepContent = (stepIndex: number, contentId: string, contentTitle: string): void => {
   const session = getCurrentSession();
@@ -242,62 +293,25 @@ const archiveSession = (session: DailySession): void => {
   }
 };
 
-// Get session history
-export const getSessionHistory = (): DailySession[] => {
+// Whether a session counts for a profile: a family session for each participant,
+// otherwise for whoever ran it (older sessions without a profile count for everyone)
+const sessionIncludesProfile = (session: DailySession, profileId: string | null): boolean => {
+  if (session.participants?.length) return session.participants.some(p => p.profileId === profileId);
+  return session.profileId === undefined || session.profileId === profileId;
+};
+
+// Get session history - everyone's, or just the sessions a profile took part in
+export const getSessionHistory = (profileId?: string | null): DailySession[] => {
   try {
     const historyJson = localStorage.getItem(SESSION_HISTORY_KEY);
-    return historyJson ? JSON.parse(historyJson) : [];
+    const history: DailySession[] = historyJson ? JSON.parse(historyJson) : [];
+    return profileId === undefined ? history : history.filter(s => sessionIncludesProfile(s, profileId));
   } catch (e) {
     console.error('Error reading session history:', e);
     return [];
   }
 };
 
-// Get current streak (consecutive days with completed sessions)
-export const getSessionStreak = (): number => {
-  const history = getSessionHistory();
-  const todayKey = getTodayDateKey();
-  
-  let streak = 0;
-  
-  // Check if today's session is completed (either in current session or history)
-  const currentSession = getCurrentSession();
-  const todayInHistory = history.find(s => s.date === todayKey && s.completed);
-  
-  if (currentSession?.completed || todayInHistory) {
-    streak = 1;
-  } else {
-    // If today isn't completed, no streak from today
-    return 0;
-  }
-  
-  // Count consecutive completed sessions going backwards from yesterday
-  // Use Set to avoid counting same day twice
-  const countedDates = new Set<string>([todayKey]);
-  
-  for (let daysBack = 1; daysBack <= 30; daysBack++) {
-    const checkDate = new Date();
-    checkDate.setDate(checkDate.getDate() - daysBack);
-    const checkDateKey = `${checkDate.getFullYear()}-${String(checkDate.getMonth() + 1).padStart(2, '0')}-${String(checkDate.getDate()).padStart(2, '0')}`;
-    
-    // Skip if already counted
-    if (countedDates.has(checkDateKey)) continue;
-    
-    // Find completed session for this date
-    const sessionForDay = history.find(s => s.date === checkDateKey && s.completed);
-    
-    if (sessionForDay) {
-      streak++;
-      countedDates.add(checkDateKey);
-    } else {
-      // Chain broken
-      break;
-    }
-  }
-  
-  return streak;
-};
-
 // Get recommended book based on selected subjects
 export const getRecommendedBookFilter = (): string[] => {
   const session = getCurrentSession();
@@ -1,5 +1,6 @@
 // Favorites Service - Manages user's favorite books, playlists, and book series
 import { API_BASE_URL } from '../constants';
+import { syncService } from './syncService';
 
 const FAVORITES_KEY = 'godlykids_favorites';
 const LIKES_KEY = 'godlykids_likes';
@@ -88,8 +89,10 @@ class FavoritesService {
         return; // Already favorited
       }
       
-      favorites.push({ bookId, addedAt: Date.now() });
+      const entry = { bookId, addedAt: Date.now() };
+      favorites.push(entry);
       localStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
+      syncService.recordChange('favoriteBooks', bookId, entry);
     } catch (error) {
       console.error('Error saving favorite:', error);
     }
@@ -104,6 +107,7 @@ class FavoritesService {
       const favorites: FavoriteBook[] = JSON.parse(stored);
       const updated = favorites.filter(fav => fav.bookId !== bookId);
       localStorage.setItem(FAVORITES_KEY, JSON.stringify(updated));
+      syncService.recordDeletion('favoriteBooks', bookId);
     } catch (error) {
       console.error('Error removing favorite:', error);
     }
@@ -196,8 +200,10 @@ class FavoritesService {
         return; // Already favorited
       }
       
-      favorites.push({ playlistId, addedAt: Date.now() });
+      const entry = { playlistId, addedAt: Date.now() };
+      favorites.push(entry);
       localStorage.setItem(PLAYLIST_FAVORITES_KEY, JSON.stringify(favorites));
+      syncService.recordChange('favoritePlaylists', playlistId, entry);
     } catch (error) {
       console.error('Error saving playlist favorite:', error);
     }
@@ -212,6 +218,7 @@ class FavoritesService {
       const favorites: FavoritePlaylist[] = JSON.parse(stored);
       const updated = favorites.filter(fav => fav.playlistId !== playlistId);
       localStorage.setItem(PLAYLIST_FAVORITES_KEY, JSON.stringify(updated));
+      syncService.recordDeletion('favoritePlaylists', playlistId);
     } catch (error) {
       console.error('Error removing playlist favorite:', error);
     }
@@ -262,8 +269,10 @@ class FavoritesService {
         return; // Already favorited
       }
       
-      favorites.push({ seriesId, addedAt: Date.now() });
+      const entry = { seriesId, addedAt: Date.now() };
+      favorites.push(entry);
       localStorage.setItem(BOOK_SERIES_FAVORITES_KEY, JSON.stringify(favorites));
+      syncService.recordChange('favoriteBookSeries', seriesId, entry);
     } catch (error) {
       console.error('Error saving book series favorite:', error);
     }
@@ -278,6 +287,7 @@ class FavoritesService {
       const favorites: FavoriteBookSeries[] = JSON.parse(stored);
       const updated = favorites.filter(fav => fav.seriesId !== seriesId);
       localStorage.setItem(BOOK_SERIES_FAVORITES_KEY, JSON.stringify(updated));
+      syncService.recordDeletion('favoriteBookSeries', seriesId);
     } catch (error) {
       console.error('Error removing book series favorite:', error);
     }
@@ -293,9 +303,49 @@ class FavoritesService {
       return true;
     }
   }
+
+  // ============ SYNC ============
+
+  // Read the raw favorite entries stored under a key (used by sync)
+  getSyncEntries<T extends { addedAt: number }>(key: string): T[] {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading favorites for sync:', error);
+      return [];
+    }
+  }
+
+  // Write a favorite change that came from another device (no change recorded)
+  applySyncedEntry<T extends { addedAt: number }>(key: string, idField: keyof T, id: string, entry: T | null): void {
+    try {
+      const favorites = this.getSyncEntries<T>(key).filter(fav => fav[idField] !== id);
+      if (entry) favorites.push(entry);
+      localStorage.setItem(key, JSON.stringify(favorites));
+    } catch (error) {
+      console.error('Error applying synced favorite:', error);
+    }
+  }
 }
 
 export const favoritesService = new FavoritesService();
 
+// Each favorites list is synced as its own family-wide store
+const registerFavoritesStore = <T extends { addedAt: number }>(store: string, key: string, idField: keyof T) => {
+  syncService.registerStore(store, {
+    scope: 'family',
+    getRecords: () => {
+      const records: Record<string, { value: T; updatedAt: number }> = {};
+      favoritesService.getSyncEntries<T>(key).forEach(fav => {
+        records[String(fav[idField])] = { value: fav, updatedAt: fav.addedAt };
+      });
+      return records;
+    },
+    applyRecord: (id, value) => favoritesService.applySyncedEntry<T>(key, idField, id, value),
+  });
+};
 
-
+registerFavoritesStore<FavoriteBook>('favoriteBooks', FAVORITES_KEY, 'bookId');
+registerFavoritesStore<FavoritePlaylist>('favoritePlaylists', PLAYLIST_FAVORITES_KEY, 'playlistId');
+registerFavoritesStore<FavoriteBookSeries>('favoriteBookSeries', BOOK_SERIES_FAVORITES_KEY, 'seriesId');
@@ -1,7 +1,9 @@
 /**
- * Service for managing lesson completions, streaks, and weekly resets PER PROFILE
+ * Service for managing lesson completions and in-progress lessons PER PROFILE
+ * (the streak across lessons and daily sessions lives in streakService)
  */
 import { profileService } from './profileService';
+import { syncService } from './syncService';
 
 interface LessonCompletion {
     lessonId: string;
@@ -11,14 +13,36 @@ interface LessonCompletion {
     coinsEarned?: number; // total coins earned from this lesson
 }
 
+export type LessonScreen = 'video' | 'devotional' | 'activity';
+
+/**
+ * Where a kid left off in a lesson they haven't finished yet
+ */
+export interface LessonProgress {
+    lessonId: string;
+    screen: LessonScreen;
+    episodeIndex: number; // episode reached in a multi-episode lesson
+    videoTime: number; // seconds into the current episode (or the single video)
+    videoWatched: boolean;
+    devotionalRead: boolean;
+    questionIndex: number; // quiz question on screen
+    quizAnswers: Record<number, number>; // question index -> chosen option index
+    updatedAt: number; // timestamp
+}
+
+export type LessonStatus = 'available' | 'locked' | 'completed' | 'in-progress';
+
 const BASE_COMPLETIONS_KEY = 'godlykids_lesson_completions';
-const BASE_STREAK_KEY = 'godlykids_lesson_streak';
-const BASE_WEEK_START_KEY = 'godlykids_last_week_start';
+const BASE_PROGRESS_KEY = 'godlykids_lesson_progress';
+
+// Keep resume points for the most recently touched lessons only
+const MAX_SAVED_PROGRESS = 30;
+// Less video than this isn't worth a "continue where you left off"
+const MIN_RESUME_SECONDS = 5;
 
 // Get profile-specific keys
 const getCompletionsKey = () => profileService.getProfileKey(BASE_COMPLETIONS_KEY);
-const getStreakKey = () => profileService.getProfileKey(BASE_STREAK_KEY);
-const getWeekStartKey = () => profileService.getProfileKey(BASE_WEEK_START_KEY);
+const getProgressKey = () => profileService.getProfileKey(BASE_PROGRESS_KEY);
 
 /**
  * Get the start of the current week (Monday midnight in user's local time)
@@ -72,23 +96,6 @@ export const getWeekDays = (): Date[] => {
     return weekDays;
 };
 
-/**
- * Check if we need to reset the streak (new week started)
- */
-export const checkAndResetStreak = (): boolean => {
-    const lastWeekStart = localStorage.getItem(getWeekStartKey());
-    const currentWeekStart = getWeekStart();
-    
-    if (!lastWeekStart || parseInt(lastWeekStart) !== currentWeekStart) {
-        // New week - reset streak
-        localStorage.setItem(getWeekStartKey(), currentWeekStart.toString());
-        localStorage.removeItem(getStreakKey());
-        return true;
-    }
-    
-    return false;
-};
-
 /**
  * Get all lesson completions for current profile
  */
@@ -141,46 +148,99 @@ export const markCompleted = (
     };
     
     localStorage.setItem(getCompletionsKey(), JSON.stringify([...filtered, newCompletion]));
-    
-    // Update streak
-    updateStreak(weekStart);
+    syncService.recordChange('lessonCompletions', lessonId, newCompletion);
+
+    // Nothing left to resume once the lesson is done
+    clearLessonProgress(lessonId);
 };
 
 /**
- * Update streak count for current week
+ * Get all saved in-progress lessons for current profile, keyed by lesson id
  */
-const updateStreak = (weekStart: number): void => {
-    const streakData = localStorage.getItem(getStreakKey());
-    let streak = streakData ? JSON.parse(streakData) : { weekStart, count: 0 };
-    
-    // Reset if new week
-    if (streak.weekStart !== weekStart) {
-        streak = { weekStart, count: 0 };
+const getAllLessonProgress = (): Record<string, LessonProgress> => {
+    try {
+        const saved = localStorage.getItem(getProgressKey());
+        return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+        console.error('Failed to load lesson progress', e);
+        return {};
+    }
+};
+
+const saveAllLessonProgress = (all: Record<string, LessonProgress>): void => {
+    try {
+        localStorage.setItem(getProgressKey(), JSON.stringify(all));
+    } catch (e) {
+        console.error('Failed to save lesson progress', e);
     }
-    
-    // Increment streak
-    streak.count += 1;
-    localStorage.setItem(getStreakKey(), JSON.stringify(streak));
 };
 
 /**
- * Get current streak count for this week
+ * Whether a resume point is far enough into the lesson to offer continuing from it
  */
-export const getStreak = (): number => {
-    checkAndResetStreak(); // Check if new week
-    
-    const streakData = localStorage.getItem(getStreakKey());
-    if (!streakData) return 0;
-    
-    const streak = JSON.parse(streakData);
-    const currentWeekStart = getWeekStart();
-    
-    // Reset if different week
-    if (streak.weekStart !== currentWeekStart) {
-        return 0;
+export const hasResumableProgress = (progress: LessonProgress | null): progress is LessonProgress => {
+    if (!progress) return false;
+    return progress.screen !== 'video'
+        || progress.episodeIndex > 0
+        || progress.videoTime >= MIN_RESUME_SECONDS
+        || progress.videoWatched
+        || Object.keys(progress.quizAnswers || {}).length > 0;
+};
+
+/**
+ * Get where the current profile left off in a lesson
+ */
+export const getLessonProgress = (lessonId: string): LessonProgress | null => {
+    return getAllLessonProgress()[lessonId] || null;
+};
+
+/**
+ * Save where the current profile is in a lesson. Completed lessons are not tracked.
+ */
+export const saveLessonProgress = (progress: Omit<LessonProgress, 'updatedAt'> & { updatedAt?: number }): void => {
+    if (isCompleted(progress.lessonId)) return;
+
+    const all = getAllLessonProgress();
+    if (!hasResumableProgress({ ...progress, updatedAt: 0 })) {
+        if (!all[progress.lessonId]) return;
+        delete all[progress.lessonId];
+    } else {
+        all[progress.lessonId] = { ...progress, updatedAt: progress.updatedAt || Date.now() };
+    }
+
+    // Drop the oldest resume points past the limit
+    const ids = Object.keys(all).sort((a, b) => all[b].updatedAt - all[a].updatedAt);
+    ids.slice(MAX_SAVED_PROGRESS).forEach(id => delete all[id]);
+
+    saveAllLessonProgress(all);
+};
+
+/**
+ * Forget where the current profile was in a lesson (finished, or started over)
+ */
+export const clearLessonProgress = (lessonId: string): void => {
+    const all = getAllLessonProgress();
+    if (!all[lessonId]) return;
+    delete all[lessonId];
+    saveAllLessonProgress(all);
+};
+
+/**
+ * Remove every saved resume point for a profile (used when a kid profile is deleted)
+ */
+export const clearProfileLessonProgress = (profileId: string): void => {
+    try {
+        localStorage.removeItem(`${BASE_PROGRESS_KEY}_${profileId}`);
+    } catch (e) {
+        console.error('Failed to clear lesson progress', e);
     }
-    
-    return streak.count || 0;
+};
+
+/**
+ * Check if a lesson has been started but not finished
+ */
+export const isInProgress = (lessonId: string): boolean => {
+    return !isCompleted(lessonId) && hasResumableProgress(getLessonProgress(lessonId));
 };
 
 /**
@@ -226,15 +286,19 @@ export const isLocked = (lesson: any): boolean => {
 };
 
 /**
- * Get lesson status: 'available', 'locked', 'completed'
+ * Get lesson status: 'available', 'locked', 'completed', 'in-progress'
  */
-export const getLessonStatus = (lesson: any): 'available' | 'locked' | 'completed' => {
-    if (isCompleted(lesson._id || lesson.id)) {
+export const getLessonStatus = (lesson: any): LessonStatus => {
+    const id = lesson._id || lesson.id;
+    if (isCompleted(id)) {
         return 'completed';
     }
     if (isLocked(lesson)) {
         return 'locked';
     }
+    if (isInProgress(id)) {
+        return 'in-progress';
+    }
     return 'available';
 };
 
@@ -263,7 +327,7 @@ const normalizeDayIndex = (dayIndex: number): number => {
  * Local date key (YYYY-MM-DD) using local timezone (NOT UTC).
  * Using toISOString() can shift the date on devices depending on timezone.
  */
-const toLocalDateKey = (date: Date): string => {
+export const toLocalDateKey = (date: Date): string => {
     const y = date.getFullYear();
     const m = String(date.getMonth() + 1).padStart(2, '0');
     const d = String(date.getDate()).padStart(2, '0');
@@ -347,5 +411,35 @@ export const isDayComplete = (lessons: any[], dayIndex: number): boolean => {
     return dayLessons.every(lesson => isCompleted(lesson._id || lesson.id));
 };
 
+/**
+ * Check if any lesson for a day has been started but not finished
+ */
+export const isDayInProgress = (lessons: any[], dayIndex: number): boolean => {
+    return getLessonsForDay(lessons, dayIndex).some(lesson => isInProgress(lesson._id || lesson.id));
+};
+
+/**
+ * Write a completion that came from another device (no change recorded)
+ */
+const applySyncedCompletion = (lessonId: string, completion: LessonCompletion | null): void => {
+    const filtered = getCompletions().filter(c => c.lessonId !== lessonId);
+    localStorage.setItem(
+        getCompletionsKey(),
+        JSON.stringify(completion ? [...filtered, completion] : filtered)
+    );
+};
+
+syncService.registerStore('lessonCompletions', {
+    scope: 'profile',
+    getRecords: () => {
+        const records: Record<string, { value: LessonCompletion; updatedAt: number }> = {};
+        getCompletions().forEach(c => {
+            records[c.lessonId] = { value: c, updatedAt: c.completedAt };
+        });
+        return records;
+    },
+    applyRecord: applySyncedCompletion,
+});
+
 // All functions are exported as named exports above
 // No default export to avoid circular dependency issues
@@ -1,4 +1,6 @@
 // Library Service - Manages user's saved books/library
+import { syncService } from './syncService';
+
 const LIBRARY_KEY = 'godlykids_library';
 
 export interface LibraryBook {
@@ -37,8 +39,10 @@ class LibraryService {
         return; // Already in library
       }
       
-      library.push({ bookId, addedAt: Date.now() });
+      const entry = { bookId, addedAt: Date.now() };
+      library.push(entry);
       localStorage.setItem(LIBRARY_KEY, JSON.stringify(library));
+      syncService.recordChange('library', bookId, entry);
     } catch (error) {
       console.error('Error saving to library:', error);
     }
@@ -53,11 +57,34 @@ class LibraryService {
       const library: LibraryBook[] = JSON.parse(stored);
       const updated = library.filter(book => book.bookId !== bookId);
       localStorage.setItem(LIBRARY_KEY, JSON.stringify(updated));
+      syncService.recordDeletion('library', bookId);
     } catch (error) {
       console.error('Error removing from library:', error);
     }
   }
 
+  // Get library entries with the time each book was added (used by sync)
+  getLibraryEntries(): LibraryBook[] {
+    try {
+      const stored = localStorage.getItem(LIBRARY_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading library:', error);
+      return [];
+    }
+  }
+
+  // Write a library change that came from another device (no change recorded)
+  applySyncedEntry(bookId: string, entry: LibraryBook | null): void {
+    try {
+      const library = this.getLibraryEntries().filter(book => book.bookId !== bookId);
+      if (entry) library.push(entry);
+      localStorage.setItem(LIBRARY_KEY, JSON.stringify(library));
+    } catch (error) {
+      console.error('Error applying synced library entry:', error);
+    }
+  }
+
   // Toggle library status
   toggleLibrary(bookId: string): boolean {
     if (this.isInLibrary(bookId)) {
@@ -72,5 +99,14 @@ class LibraryService {
 
 export const libraryService = new LibraryService();
 
-
-
+syncService.registerStore('library', {
+  scope: 'family',
+  getRecords: () => {
+    const records: Record<string, { value: LibraryBook; updatedAt: number }> = {};
+    libraryService.getLibraryEntries().forEach(book => {
+      records[book.bookId] = { value: book, updatedAt: book.addedAt };
+    });
+    return records;
+  },
+  applyRecord: (bookId, value) => libraryService.applySyncedEntry(bookId, value),
+});
@@ -0,0 +1,165 @@
+// Listening Position Service - Where each audiobook episode was left off, PER PROFILE
+// Play history only knows which episode was played last; this remembers how far into it
+// the kid got (bedtime listening usually stops mid-episode) plus their preferred
+// audiobook playback speed.
+import { profileService } from './profileService';
+import { syncService } from './syncService';
+
+const BASE_KEY = 'godlykids_listening_positions';
+const RATE_BASE_KEY = 'godlykids_playback_rate';
+
+// Keep the most recent positions only
+const MAX_POSITIONS = 200;
+// Positions this close to the start aren't worth resuming from
+const MIN_RESUME_SECONDS = 10;
+// ...and this close to the end count as finished
+const FINISHED_MARGIN_SECONDS = 20;
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+export interface ListeningPosition {
+  playlistId: string;
+  itemKey: string; // item _id, or the item's index when it has none
+  position: number; // seconds
+  duration: number; // seconds (0 if unknown)
+  updatedAt: number;
+}
+
+class ListeningPositionService {
+  private getKey(profileId?: string | null): string {
+    const id = profileId === undefined ? profileService.getCurrentProfileId() : profileId;
+    return `${BASE_KEY}_${id || 'parent'}`;
+  }
+
+  private getRecordId(playlistId: string, itemKey: string): string {
+    return `${playlistId}:${itemKey}`;
+  }
+
+  getAllPositions(profileId?: string | null): Record<string, ListeningPosition> {
+    try {
+      const stored = localStorage.getItem(this.getKey(profileId));
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error reading listening positions:', error);
+      return {};
+    }
+  }
+
+  private saveAll(positions: Record<string, ListeningPosition>, profileId?: string | null): void {
+    try {
+      localStorage.setItem(this.getKey(profileId), JSON.stringify(positions));
+    } catch (error) {
+      console.error('Error saving listening positions:', error);
+    }
+  }
+
+  getPosition(playlistId: string, itemKey: string): ListeningPosition | null {
+    return this.getAllPositions()[this.getRecordId(playlistId, itemKey)] || null;
+  }
+
+  /**
+   * Where to pick an episode back up, or null to start from the beginning
+   */
+  getResumePosition(playlistId: string, itemKey: string): number | null {
+    const saved = this.getPosition(playlistId, itemKey);
+    if (!saved || saved.position < MIN_RESUME_SECONDS) return null;
+    if (saved.duration > 0 && saved.position >= saved.duration - FINISHED_MARGIN_SECONDS) return null;
+    return saved.position;
+  }
+
+  savePosition(playlistId: string, itemKey: string, position: number, duration: number): void {
+    if (!playlistId || isNaN(position)) return;
+    // Finished (or barely started) episodes start over next time
+    if (position < MIN_RESUME_SECONDS || (duration > 0 && position >= duration - FINISHED_MARGIN_SECONDS)) {
+      this.clearPosition(playlistId, itemKey);
+      return;
+    }
+
+    const id = this.getRecordId(playlistId, itemKey);
+    const positions = this.getAllPositions();
+    const entry: ListeningPosition = {
+      playlistId,
+      itemKey,
+      position: Math.floor(position),
+      duration: isNaN(duration) ? 0 : Math.floor(duration),
+      updatedAt: Date.now(),
+    };
+    positions[id] = entry;
+
+    // Drop the oldest positions once there are too many
+    const ids = Object.keys(positions);
+    if (ids.length > MAX_POSITIONS) {
+      ids
+        .sort((a, b) => positions[a].updatedAt - positions[b].updatedAt)
+        .slice(0, ids.length - MAX_POSITIONS)
+        .forEach(oldId => delete positions[oldId]);
+    }
+
+    this.saveAll(positions);
+    syncService.recordChange('listeningPositions', id, entry);
+  }
+
+  clearPosition(playlistId: string, itemKey: string): void {
+    const id = this.getRecordId(playlistId, itemKey);
+    const positions = this.getAllPositions();
+    if (!positions[id]) return;
+    delete positions[id];
+    this.saveAll(positions);
+    syncService.recordDeletion('listeningPositions', id);
+  }
+
+  // Write a position that came from another device (no change recorded)
+  applySyncedPosition(id: string, entry: ListeningPosition | null): void {
+    const positions = this.getAllPositions();
+    if (entry) {
+      positions[id] = entry;
+    } else {
+      delete positions[id];
+    }
+    this.saveAll(positions);
+  }
+
+  // ============ PLAYBACK SPEED ============
+
+  getPlaybackRate(): number {
+    try {
+      const stored = parseFloat(localStorage.getItem(profileService.getProfileKey(RATE_BASE_KEY)) || '');
+      return PLAYBACK_RATES.includes(stored) ? stored : 1;
+    } catch {
+      return 1;
+    }
+  }
+
+  setPlaybackRate(rate: number): void {
+    if (!PLAYBACK_RATES.includes(rate)) return;
+    try {
+      localStorage.setItem(profileService.getProfileKey(RATE_BASE_KEY), String(rate));
+    } catch (error) {
+      console.error('Error saving playback rate:', error);
+    }
+  }
+
+  // Forget everything for a removed kid
+  clearProfile(profileId: string): void {
+    try {
+      localStorage.removeItem(this.getKey(profileId));
+      localStorage.removeItem(`${RATE_BASE_KEY}_${profileId}`);
+    } catch (error) {
+      console.error('Error clearing listening positions:', error);
+    }
+  }
+}
+
+export const listeningPositionService = new ListeningPositionService();
+
+syncService.registerStore('listeningPositions', {
+  scope: 'profile',
+  getRecords: () => {
+    const records: Record<string, { value: ListeningPosition; updatedAt: number }> = {};
+    Object.entries(listeningPositionService.getAllPositions()).forEach(([id, entry]) => {
+      records[id] = { value: entry, updatedAt: entry.updatedAt };
+    });
+    return records;
+  },
+  applyRecord: (id, value) => listeningPositionService.applySyncedPosition(id, value),
+});
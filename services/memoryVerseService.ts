@@ -0,0 +1,310 @@
+// Memory Verse Service - Per-kid deck of Bible verses reviewed with spaced repetition
+// Verses come from the daily verse game, lesson devotionals and parents. Each review is graded
+// 0-5 and scheduled SM-2 style: a verse that's remembered comes back after 1 day, then 6 days,
+// then ever longer gaps; a verse that's forgotten starts over tomorrow.
+import { profileService } from './profileService';
+import { syncService } from './syncService';
+
+const BASE_KEY = 'godlykids_memory_verses';
+
+// SM-2 defaults
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const PASSING_QUALITY = 3;
+
+// Interval (days) at which a verse counts as familiar / mastered
+const FAMILIAR_INTERVAL_DAYS = 7;
+const MASTERED_INTERVAL_DAYS = 21;
+
+// Fired on window whenever a deck changes
+export const MEMORY_VERSES_EVENT = 'memoryVersesChanged';
+
+export type VerseSource = 'daily' | 'lesson' | 'parent';
+
+export type DrillMode = 'order' | 'fillBlank' | 'firstLetters' | 'recite';
+
+export const DRILL_MODES: DrillMode[] = ['order', 'fillBlank', 'firstLetters', 'recite'];
+
+export type MasteryLevel = 'new' | 'learning' | 'familiar' | 'mastered';
+
+export const MASTERY_LEVELS: MasteryLevel[] = ['new', 'learning', 'familiar', 'mastered'];
+
+export const MASTERY_LABELS: Record<MasteryLevel, string> = {
+  new: 'New',
+  learning: 'Learning',
+  familiar: 'Familiar',
+  mastered: 'Mastered',
+};
+
+export interface MemoryVerse {
+  id: string;
+  text: string;
+  ref: string;
+  source: VerseSource;
+  addedAt: number;
+  // Scheduling (SM-2)
+  ease: number;
+  interval: number; // days until the next review
+  repetitions: number; // successful reviews in a row
+  lapses: number; // times the verse was forgotten after being learned
+  dueAt: number;
+  lastReviewedAt: number | null;
+  updatedAt: number;
+}
+
+export interface MasterySummary {
+  total: number;
+  due: number;
+  byLevel: Record<MasteryLevel, number>;
+}
+
+export interface NewVerse {
+  text: string;
+  ref: string;
+  source: VerseSource;
+}
+
+// "1 John 4:16" -> "1-john-4-16"
+const toVerseId = (ref: string): string =>
+  ref.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Local midnight `days` days from now - reviews come due at the start of a day, not mid-afternoon
+const startOfDayIn = (days: number): number => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+/**
+ * How well a drill went, on the SM-2 0-5 scale.
+ * Ordering the chunks is recognition rather than recall, so it never scores a perfect 5.
+ */
+export const gradeDrill = (mode: DrillMode, mistakes: number, gaveUp: boolean): number => {
+  if (gaveUp) return 1;
+  const quality = mistakes === 0 ? 5 : mistakes <= 2 ? 4 : 3;
+  return mode === 'order' ? Math.min(quality, 4) : quality;
+};
+
+export const getMasteryLevel = (verse: MemoryVerse): MasteryLevel => {
+  if (verse.lastReviewedAt === null) return 'new';
+  if (verse.interval >= MASTERED_INTERVAL_DAYS) return 'mastered';
+  if (verse.interval >= FAMILIAR_INTERVAL_DAYS) return 'familiar';
+  return 'learning';
+};
+
+// Harder drills as a verse sticks
+export const getSuggestedMode = (verse: MemoryVerse): DrillMode => {
+  switch (getMasteryLevel(verse)) {
+    case 'new': return 'order';
+    case 'learning': return verse.repetitions === 0 ? 'order' : 'fillBlank';
+    case 'familiar': return 'firstLetters';
+    case 'mastered':
+    default: return 'recite';
+  }
+};
+
+class MemoryVerseService {
+  // Decks are per profile; the parent can manage any kid's deck
+  private getKey(profileId?: string | null): string {
+    const id = profileId === undefined ? profileService.getCurrentProfileId() : profileId;
+    return `${BASE_KEY}_${id || 'parent'}`;
+  }
+
+  private getProfileSuffix(profileId?: string | null): string {
+    const id = profileId === undefined ? profileService.getCurrentProfileId() : profileId;
+    return id || 'parent';
+  }
+
+  private getStored(profileId?: string | null): Record<string, MemoryVerse> {
+    try {
+      const stored = localStorage.getItem(this.getKey(profileId));
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error reading memory verses:', error);
+      return {};
+    }
+  }
+
+  private saveStored(deck: Record<string, MemoryVerse>, profileId?: string | null): void {
+    try {
+      localStorage.setItem(this.getKey(profileId), JSON.stringify(deck));
+    } catch (error) {
+      console.error('Error saving memory verses:', error);
+    }
+    window.dispatchEvent(new Event(MEMORY_VERSES_EVENT));
+  }
+
+  private saveVerse(verse: MemoryVerse, profileId?: string | null): void {
+    const deck = this.getStored(profileId);
+    deck[verse.id] = verse;
+    this.saveStored(deck, profileId);
+    syncService.recordChange('memoryVerses', `${this.getProfileSuffix(profileId)}:${verse.id}`, verse);
+  }
+
+  // ============ DECK ============
+
+  /**
+   * All verses in a deck, soonest due first
+   */
+  getVerses(profileId?: string | null): MemoryVerse[] {
+    return Object.values(this.getStored(profileId)).sort((a, b) => a.dueAt - b.dueAt);
+  }
+
+  getDueVerses(profileId?: string | null): MemoryVerse[] {
+    const now = Date.now();
+    return this.getVerses(profileId).filter(v => v.dueAt <= now);
+  }
+
+  hasVerse(ref: string, profileId?: string | null): boolean {
+    return !!this.getStored(profileId)[toVerseId(ref)];
+  }
+
+  /**
+   * Add a verse to a deck. Verses are keyed by reference, so adding one that's
+   * already there keeps its review history.
+   */
+  addVerse(verse: NewVerse, profileId?: string | null): MemoryVerse | null {
+    const text = verse.text.trim();
+    const ref = verse.ref.trim();
+    const id = toVerseId(ref);
+    if (!text || !id) return null;
+
+    const existing = this.getStored(profileId)[id];
+    if (existing) return existing;
+
+    const now = Date.now();
+    const card: MemoryVerse = {
+      id,
+      text,
+      ref,
+      source: verse.source,
+      addedAt: now,
+      ease: DEFAULT_EASE,
+      interval: 0,
+      repetitions: 0,
+      lapses: 0,
+      dueAt: now,
+      lastReviewedAt: null,
+      updatedAt: now,
+    };
+    this.saveVerse(card, profileId);
+    console.log(`📜 Memory verse added: ${ref} (${verse.source})`);
+    return card;
+  }
+
+  removeVerse(id: string, profileId?: string | null): void {
+    const deck = this.getStored(profileId);
+    if (!deck[id]) return;
+    delete deck[id];
+    this.saveStored(deck, profileId);
+    syncService.recordDeletion('memoryVerses', `${this.getProfileSuffix(profileId)}:${id}`);
+  }
+
+  // Drop a removed kid's whole deck
+  removeDeck(profileId: string): void {
+    Object.keys(this.getStored(profileId)).forEach(id => {
+      syncService.recordDeletion('memoryVerses', `${profileId}:${id}`);
+    });
+    localStorage.removeItem(this.getKey(profileId));
+    window.dispatchEvent(new Event(MEMORY_VERSES_EVENT));
+  }
+
+  // ============ REVIEWS ============
+
+  /**
+   * Record a review graded 0-5 and schedule the next one (SM-2)
+   */
+  review(id: string, quality: number, profileId?: string | null): MemoryVerse | null {
+    const verse = this.getStored(profileId)[id];
+    if (!verse) return null;
+
+    const q = Math.max(0, Math.min(5, Math.round(quality)));
+    const wasLearned = verse.repetitions > 0;
+
+    let { repetitions, interval, lapses } = verse;
+    if (q < PASSING_QUALITY) {
+      repetitions = 0;
+      interval = 1;
+      if (wasLearned) lapses += 1;
+    } else {
+      repetitions += 1;
+      interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(verse.interval * verse.ease);
+    }
+    const ease = Math.max(MIN_EASE, verse.ease + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+
+    const now = Date.now();
+    const updated: MemoryVerse = {
+      ...verse,
+      ease,
+      interval,
+      repetitions,
+      lapses,
+      dueAt: startOfDayIn(interval),
+      lastReviewedAt: now,
+      updatedAt: now,
+    };
+    this.saveVerse(updated, profileId);
+    console.log(`🧠 Reviewed ${verse.ref} (quality ${q}) - next in ${interval} day${interval === 1 ? '' : 's'}`);
+    return updated;
+  }
+
+  // ============ MASTERY ============
+
+  getMasterySummary(profileId?: string | null): MasterySummary {
+    const verses = this.getVerses(profileId);
+    const now = Date.now();
+    const byLevel: Record<MasteryLevel, number> = { new: 0, learning: 0, familiar: 0, mastered: 0 };
+    verses.forEach(v => { byLevel[getMasteryLevel(v)] += 1; });
+    return {
+      total: verses.length,
+      due: verses.filter(v => v.dueAt <= now).length,
+      byLevel,
+    };
+  }
+
+  // ============ SYNC ============
+
+  // Every deck on this device, keyed `${profile}:${verseId}`
+  getSyncRecords(): Record<string, { value: MemoryVerse; updatedAt: number }> {
+    const records: Record<string, { value: MemoryVerse; updatedAt: number }> = {};
+    const prefix = `${BASE_KEY}_`;
+    try {
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key || !key.startsWith(prefix)) continue;
+        const suffix = key.slice(prefix.length);
+        const deck: Record<string, MemoryVerse> = JSON.parse(localStorage.getItem(key) || '{}');
+        Object.values(deck).forEach(verse => {
+          records[`${suffix}:${verse.id}`] = { value: verse, updatedAt: verse.updatedAt || 0 };
+        });
+      }
+    } catch (error) {
+      console.error('Error reading memory verses for sync:', error);
+    }
+    return records;
+  }
+
+  // Apply a verse from another device (does not record a change)
+  applySyncedRecord(recordId: string, value: MemoryVerse | null): void {
+    const separator = recordId.indexOf(':');
+    if (separator < 0) return;
+    const suffix = recordId.slice(0, separator);
+    const profileId = suffix === 'parent' ? null : suffix;
+    const deck = this.getStored(profileId);
+    if (value) {
+      deck[value.id] = value;
+    } else {
+      delete deck[recordId.slice(separator + 1)];
+    }
+    this.saveStored(deck, profileId);
+  }
+}
+
+export const memoryVerseService = new MemoryVerseService();
+
+syncService.registerStore('memoryVerses', {
+  scope: 'family',
+  getRecords: () => memoryVerseService.getSyncRecords(),
+  applyRecord: (id, value) => memoryVerseService.applySyncedRecord(id, value),
+});
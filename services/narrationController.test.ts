@@ -0,0 +1,390 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  HtmlNarrationAudioPlayer,
+  NARRATION_TIMING,
+  NarrationAudioPlayer,
+  NarrationClip,
+  NarrationClipHandlers,
+  NarrationClock,
+  NarrationController,
+  SynthesisRequest,
+  SynthesisResult,
+} from './narrationController';
+
+// ============================================
+// FAKES
+// ============================================
+
+interface FakeTimer {
+  fn: () => void;
+  at: number;
+  interval: number | null;
+}
+
+class FakeClock implements NarrationClock {
+  now = 0;
+  private nextId = 1;
+  private timers = new Map<number, FakeTimer>();
+
+  setTimeout(fn: () => void, ms: number): number {
+    const id = this.nextId++;
+    this.timers.set(id, { fn, at: this.now + ms, interval: null });
+    return id;
+  }
+
+  clearTimeout(id: number): void {
+    this.timers.delete(id);
+  }
+
+  setInterval(fn: () => void, ms: number): number {
+    const id = this.nextId++;
+    this.timers.set(id, { fn, at: this.now + ms, interval: ms });
+    return id;
+  }
+
+  clearInterval(id: number): void {
+    this.timers.delete(id);
+  }
+
+  get pending(): number {
+    return this.timers.size;
+  }
+
+  // Run every timer due within the next ms, in time order
+  advance(ms: number): void {
+    const end = this.now + ms;
+    for (;;) {
+      const due = [...this.timers.entries()]
+        .filter(([, timer]) => timer.at <= end)
+        .sort(([, a], [, b]) => a.at - b.at)[0];
+      if (!due) break;
+      const [id, timer] = due;
+      this.now = timer.at;
+      if (timer.interval !== null) {
+        timer.at += timer.interval;
+      } else {
+        this.timers.delete(id);
+      }
+      timer.fn();
+    }
+    this.now = end;
+  }
+}
+
+class FakeClip implements NarrationClip {
+  currentTime = 0;
+  playing = false;
+  disposed = false;
+  playCount = 0;
+
+  constructor(public url: string, public handlers: NarrationClipHandlers) {}
+
+  play(): Promise<void> {
+    this.playing = true;
+    this.playCount++;
+    return Promise.resolve();
+  }
+
+  pause(): void {
+    this.playing = false;
+  }
+
+  dispose(): void {
+    this.playing = false;
+    this.disposed = true;
+  }
+
+  // Metadata + buffered, as the browser would report it
+  load(duration: number): void {
+    this.handlers.onMetadata(duration);
+    this.handlers.onReady();
+  }
+
+  end(): void {
+    this.playing = false;
+    this.handlers.onEnded();
+  }
+}
+
+class FakePlayer implements NarrationAudioPlayer {
+  clips: FakeClip[] = [];
+
+  load(url: string, handlers: NarrationClipHandlers): NarrationClip {
+    const clip = new FakeClip(url, handlers);
+    this.clips.push(clip);
+    return clip;
+  }
+
+  get last(): FakeClip {
+    return this.clips[this.clips.length - 1];
+  }
+}
+
+// Synthesis the test resolves by hand, to stop or pause while audio is generating
+const deferredSynthesizer = () => {
+  const calls: Array<{ request: SynthesisRequest; resolve: (result: SynthesisResult | null) => void }> = [];
+  const synthesize = (request: SynthesisRequest) =>
+    new Promise<SynthesisResult | null>(resolve => calls.push({ request, resolve }));
+  return { calls, synthesize };
+};
+
+// Let awaited synthesis results reach the controller
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const PAGES = [['Hello there friend', 'Second box'], ['Next page'], []];
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('NarrationController', () => {
+  let clock: FakeClock;
+  let player: FakePlayer;
+  let turnPage: ReturnType<typeof vi.fn>;
+  let onBookFinished: ReturnType<typeof vi.fn>;
+
+  const createController = (synthesize: (request: SynthesisRequest) => Promise<SynthesisResult | null>) => {
+    const controller = new NarrationController({
+      synthesize,
+      player,
+      clock,
+      getPageCount: () => PAGES.length,
+      getTextBoxes: (pageIndex) => PAGES[pageIndex] || [],
+      turnPage,
+      onBookFinished,
+    });
+    controller.setVoices('narrator');
+    return controller;
+  };
+
+  const instantSynthesizer = async (request: SynthesisRequest) => ({ audioUrl: `audio:${request.text}` });
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    player = new FakePlayer();
+    turnPage = vi.fn(() => Promise.resolve());
+    onBookFinished = vi.fn();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('plays a text box and highlights words as the clip advances', async () => {
+    const controller = createController(instantSynthesizer);
+    controller.setMode('page');
+
+    controller.playTextBox(0, 0);
+    expect(controller.getSnapshot().status).toBe('loading');
+    await flush();
+
+    expect(player.last.url).toBe('audio:Hello there friend');
+    player.last.load(3);
+    expect(controller.getSnapshot().status).toBe('playing');
+    expect(player.last.playing).toBe(true);
+
+    player.last.currentTime = 1.5;
+    clock.advance(NARRATION_TIMING.highlightInterval);
+    expect(controller.getSnapshot().wordIndex).toBe(1);
+
+    player.last.end();
+    clock.advance(NARRATION_TIMING.endOfTextPause);
+    expect(controller.getSnapshot().status).toBe('idle');
+    expect(clock.pending).toBe(0);
+  });
+
+  it('continues to the next text box on the page', async () => {
+    const controller = createController(instantSynthesizer);
+    controller.setMode('page');
+
+    controller.playPage(0);
+    await flush();
+    player.last.load(2);
+    player.last.end();
+
+    clock.advance(NARRATION_TIMING.endOfTextPause + NARRATION_TIMING.textBoxGap);
+    expect(controller.getSnapshot().textBoxIndex).toBe(1);
+    await flush();
+    expect(player.last.url).toBe('audio:Second box');
+  });
+
+  it('pauses and resumes the playing clip', async () => {
+    const controller = createController(instantSynthesizer);
+    controller.playTextBox(0, 0);
+    await flush();
+    const clip = player.last;
+    clip.load(3);
+
+    controller.pause();
+    expect(controller.getSnapshot().status).toBe('paused');
+    expect(clip.playing).toBe(false);
+    expect(clock.pending).toBe(0); // highlight timer stopped
+
+    controller.resume();
+    expect(controller.getSnapshot().status).toBe('playing');
+    expect(clip.playing).toBe(true);
+    expect(clip.playCount).toBe(2);
+  });
+
+  it('holds a scheduled step while paused and runs it on resume', async () => {
+    const controller = createController(instantSynthesizer);
+    controller.setMode('page');
+    controller.playPage(0);
+    await flush();
+    player.last.load(2);
+    player.last.end();
+
+    controller.pause();
+    clock.advance(NARRATION_TIMING.endOfTextPause + NARRATION_TIMING.textBoxGap);
+    expect(controller.getSnapshot().status).toBe('paused');
+    expect(controller.getSnapshot().textBoxIndex).toBe(0);
+
+    controller.resume();
+    clock.advance(NARRATION_TIMING.textBoxGap);
+    expect(controller.getSnapshot().textBoxIndex).toBe(1);
+  });
+
+  it('ignores audio that arrives after stop', async () => {
+    const { calls, synthesize } = deferredSynthesizer();
+    const controller = createController(synthesize);
+
+    controller.playTextBox(0, 0);
+    expect(calls).toHaveLength(1);
+    controller.stop();
+    calls[0].resolve({ audioUrl: 'audio:late' });
+    await flush();
+
+    expect(player.clips).toHaveLength(0);
+    expect(controller.getSnapshot().status).toBe('idle');
+  });
+
+  it('only plays the newest run when a box is tapped during synthesis', async () => {
+    const { calls, synthesize } = deferredSynthesizer();
+    const controller = createController(synthesize);
+
+    controller.playTextBox(0, 0);
+    controller.playTextBox(0, 1);
+    calls[1].resolve({ audioUrl: 'audio:second' });
+    calls[0].resolve({ audioUrl: 'audio:first' });
+    await flush();
+
+    expect(player.clips.map(clip => clip.url)).toEqual(['audio:second']);
+    expect(controller.getSnapshot().textBoxIndex).toBe(1);
+  });
+
+  it('turns pages in auto mode and finishes at the end of the book', async () => {
+    const controller = createController(instantSynthesizer);
+
+    controller.playPage(0);
+    for (let box = 0; box < PAGES[0].length; box++) {
+      await flush();
+      player.last.load(1);
+      player.last.end();
+      clock.advance(NARRATION_TIMING.endOfTextPause + NARRATION_TIMING.textBoxGap);
+    }
+
+    expect(turnPage).toHaveBeenCalledWith(1);
+    expect(controller.getSnapshot().status).toBe('turningPage');
+    await flush();
+    clock.advance(NARRATION_TIMING.pageSettle);
+    expect(controller.getSnapshot().pageIndex).toBe(1);
+    expect(controller.getSnapshot().textBoxIndex).toBe(0);
+
+    await flush();
+    expect(player.last.url).toBe('audio:Next page');
+    player.last.load(1);
+    player.last.end();
+    clock.advance(NARRATION_TIMING.endOfTextPause);
+    await flush();
+    clock.advance(NARRATION_TIMING.pageSettle);
+
+    expect(turnPage).toHaveBeenCalledWith(2);
+    expect(controller.getSnapshot().status).toBe('finished');
+    expect(onBookFinished).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops the run when stopped during a page turn', async () => {
+    let finishTurn: () => void = () => {};
+    turnPage.mockImplementation(() => new Promise<void>(resolve => { finishTurn = resolve; }));
+    const controller = createController(instantSynthesizer);
+
+    controller.playPage(0);
+    controller.playTextBox(0, 1); // jump the page run to the last box
+    await flush();
+    player.last.load(1);
+    player.last.end();
+    clock.advance(NARRATION_TIMING.endOfTextPause);
+    expect(turnPage).toHaveBeenCalledWith(1);
+
+    controller.stop();
+    finishTurn();
+    await flush();
+    clock.advance(NARRATION_TIMING.pageSettle);
+
+    expect(controller.getSnapshot().status).toBe('idle');
+    expect(controller.getSnapshot().pageIndex).toBe(0);
+    expect(clock.pending).toBe(0);
+  });
+});
+
+describe('HtmlNarrationAudioPlayer', () => {
+  class FakeAudio {
+    readyState = 0;
+    currentTime = 0;
+    duration = 0;
+    src: string;
+    onloadedmetadata: (() => void) | null = null;
+    oncanplaythrough: (() => void) | null = null;
+    onended: (() => void) | null = null;
+    onerror: ((e: unknown) => void) | null = null;
+    ontimeupdate: (() => void) | null = null;
+
+    constructor(src: string) {
+      this.src = src;
+    }
+
+    load() {}
+    pause() {}
+    play() {
+      return Promise.resolve();
+    }
+  }
+
+  beforeEach(() => {
+    vi.stubGlobal('Audio', FakeAudio);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const handlers = () => ({
+    onMetadata: vi.fn(),
+    onReady: vi.fn(),
+    onEnded: vi.fn(),
+    onError: vi.fn(),
+  });
+
+  it('starts a clip on the injected clock when canplaythrough never fires', () => {
+    const clock = new FakeClock();
+    const clipHandlers = handlers();
+    new HtmlNarrationAudioPlayer(clock).load('audio:slow', clipHandlers);
+
+    clock.advance(NARRATION_TIMING.readyFallback - 1);
+    expect(clipHandlers.onReady).not.toHaveBeenCalled();
+    clock.advance(1);
+    expect(clipHandlers.onReady).toHaveBeenCalledTimes(1);
+  });
+
+  it('clears the ready fallback on the injected clock when disposed', () => {
+    const clock = new FakeClock();
+    const clipHandlers = handlers();
+    const clip = new HtmlNarrationAudioPlayer(clock).load('audio:slow', clipHandlers);
+
+    clip.dispose();
+    expect(clock.pending).toBe(0);
+    clock.advance(NARRATION_TIMING.readyFallback);
+    expect(clipHandlers.onReady).not.toHaveBeenCalled();
+  });
+});
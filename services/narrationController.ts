@@ -0,0 +1,957 @@
+// Narration Controller - Read-aloud playback state machine for the book reader
+//
+// Owns the whole narration flow that used to live inside BookReaderPage:
+// text box queue, multi-voice @Character segments, word highlighting,
+// auto page turn and TTS preloading. Audio playback and timers sit behind
+// small interfaces (NarrationAudioPlayer / NarrationClock) so the flow can be
+// driven by a fake player and a fake clock.
+//
+// Every run gets a session number. stop() / starting a new run bumps it, and
+// every async callback checks it before touching state - this is what keeps
+// two narrations from ever playing over each other.
+
+import { parseTextIntoSegments } from '../utils/narrationSegments';
+import type { CharacterVoice, TextSegment } from '../utils/narrationSegments';
+import { processTextWithEmotionalCues, removeEmotionalCues } from '../utils/textProcessing';
+
+export type NarrationStatus =
+  | 'idle'         // nothing queued
+  | 'loading'      // generating / buffering the first clip of a text box
+  | 'playing'      // a run is active (clip playing or short pause between clips)
+  | 'paused'       // run suspended, resume() continues where it left off
+  | 'turningPage'  // auto page turn in progress
+  | 'finished';    // auto-play reached the end of the book
+
+export type NarrationMode = 'auto' | 'page';
+
+export interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface WordAlignment {
+  words: WordTiming[];
+}
+
+/**
+ * A text box's part of a human narrator recording (portal read-along timing editor).
+ * Times are seconds from the start of the recording; words line up with getDisplayWords.
+ */
+export interface RecordedNarration {
+  audioUrl: string;
+  start: number;
+  end: number;
+  words: WordTiming[];
+}
+
+// Text box fields the portal timing editor saves for a narrator recording
+export interface RecordedTextBox {
+  text?: string;
+  startTime?: number | null;
+  endTime?: number | null;
+  words?: WordTiming[];
+}
+
+// Narrator recordings are English - translations keep using generated TTS
+export const RECORDING_LANGUAGE = 'en';
+
+export interface NarrationSnapshot {
+  status: NarrationStatus;
+  mode: NarrationMode;
+  autoPlay: boolean;          // current run turns pages when a page is done
+  pageIndex: number;
+  textBoxIndex: number | null;
+  segments: TextSegment[];
+  segmentIndex: number;
+  wordIndex: number;          // index into the text box's display words, -1 = none
+  alignment: WordAlignment | null;
+}
+
+// ============================================
+// AUDIO + CLOCK ABSTRACTIONS
+// ============================================
+
+export interface NarrationClipHandlers {
+  onMetadata: (duration: number) => void;
+  onReady: () => void;        // enough data buffered to start playing
+  onEnded: () => void;
+  onError: (error: unknown) => void;
+}
+
+export interface NarrationClip {
+  readonly currentTime: number;
+  play(): Promise<void>;
+  pause(): void;
+  dispose(): void;            // stop, detach handlers, release the source
+}
+
+// Play only part of a file (seconds) - a text box inside a whole-page recording
+export interface NarrationClipRange {
+  start: number;
+  end: number;
+}
+
+export interface NarrationAudioPlayer {
+  load(url: string, handlers: NarrationClipHandlers, range?: NarrationClipRange): NarrationClip;
+}
+
+export interface NarrationClock {
+  setTimeout(fn: () => void, ms: number): number;
+  clearTimeout(id: number): void;
+  setInterval(fn: () => void, ms: number): number;
+  clearInterval(id: number): void;
+}
+
+export interface SynthesisRequest {
+  text: string;
+  voiceId: string;
+  languageCode?: string;
+  pageIndex: number;
+  textBoxIndex: number;
+}
+
+export interface SynthesisResult {
+  audioUrl: string;
+  alignment?: any;
+}
+
+export type NarrationSynthesizer = (request: SynthesisRequest) => Promise<SynthesisResult | null>;
+
+export interface NarrationHooks {
+  getPageCount: () => number;
+  // Text for every text box on a page (already translated)
+  getTextBoxes: (pageIndex: number) => string[];
+  // False while a page can't be narrated correctly yet (e.g. translation still loading)
+  isPageReady?: (pageIndex: number) => boolean;
+  // Narrator recording for a text box - played instead of generated TTS when present
+  getRecording?: (pageIndex: number, textBoxIndex: number) => RecordedNarration | null;
+  // Animate the page flip; resolve once the new page is showing
+  turnPage: (toPageIndex: number) => Promise<void>;
+  onBookFinished?: () => void;
+  onPlaybackError?: (error: unknown) => void;
+}
+
+export interface NarrationControllerOptions extends NarrationHooks {
+  synthesize: NarrationSynthesizer;
+  player?: NarrationAudioPlayer;
+  clock?: NarrationClock;
+}
+
+export const NARRATION_TIMING = {
+  endOfTextPause: 2000,     // pause after a text box before moving on
+  textBoxGap: 500,          // extra gap before the next text box on the same page
+  pageSettle: 300,          // wait after a page turn before narrating the new page
+  highlightInterval: 50,    // word highlight refresh (20x per second)
+  readyFallback: 3000,      // start a clip even if canplaythrough never fires
+};
+
+const PRELOAD_PAGES = 3;
+
+export const browserClock: NarrationClock = {
+  setTimeout: (fn, ms) => window.setTimeout(fn, ms),
+  clearTimeout: (id) => window.clearTimeout(id),
+  setInterval: (fn, ms) => window.setInterval(fn, ms),
+  clearInterval: (id) => window.clearInterval(id),
+};
+
+/**
+ * HTMLAudioElement-backed player used in the app.
+ */
+export class HtmlNarrationAudioPlayer implements NarrationAudioPlayer {
+  private clock: NarrationClock;
+
+  constructor(clock: NarrationClock = browserClock) {
+    this.clock = clock;
+  }
+
+  load(url: string, handlers: NarrationClipHandlers, range?: NarrationClipRange): NarrationClip {
+    const audio = new Audio(url);
+    let ready = false;
+    let ended = false;
+    let fallbackTimer: number | null = null;
+
+    const markReady = () => {
+      if (ready) return;
+      ready = true;
+      if (fallbackTimer !== null) this.clock.clearTimeout(fallbackTimer);
+      handlers.onReady();
+    };
+
+    const markEnded = () => {
+      if (ended) return;
+      ended = true;
+      handlers.onEnded();
+    };
+
+    audio.onloadedmetadata = () => {
+      if (range) audio.currentTime = range.start;
+      handlers.onMetadata(audio.duration);
+    };
+    audio.oncanplaythrough = markReady;
+    audio.onended = markEnded;
+    audio.onerror = (e) => handlers.onError(e);
+    if (range) {
+      audio.ontimeupdate = () => {
+        if (audio.currentTime >= range.end) {
+          audio.pause();
+          markEnded();
+        }
+      };
+    }
+
+    if (audio.readyState >= 3) {
+      // HAVE_FUTURE_DATA - already buffered (cached / blob URL)
+      this.clock.setTimeout(markReady, 0);
+    } else {
+      fallbackTimer = this.clock.setTimeout(markReady, NARRATION_TIMING.readyFallback);
+      audio.load();
+    }
+
+    return {
+      get currentTime() {
+        return audio.currentTime;
+      },
+      play: () => {
+        // The ready fallback can fire before metadata, while still at 0
+        if (range && audio.currentTime < range.start) audio.currentTime = range.start;
+        return audio.play();
+      },
+      pause: () => audio.pause(),
+      dispose: () => {
+        if (fallbackTimer !== null) this.clock.clearTimeout(fallbackTimer);
+        audio.onloadedmetadata = null;
+        audio.oncanplaythrough = null;
+        audio.onended = null;
+        audio.onerror = null;
+        audio.ontimeupdate = null;
+        try {
+          audio.pause();
+          audio.src = '';
+        } catch (e) {
+          console.warn('Error disposing narration audio:', e);
+        }
+      },
+    };
+  }
+}
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+/**
+ * Words as the reader displays them (emotional cues and @tags removed).
+ * Highlight indices are positions in this list.
+ */
+export function getDisplayWords(text: string): string[] {
+  return removeEmotionalCues(text).split(/\s+/).filter(w => w.length > 0);
+}
+
+/**
+ * Find the word to highlight at a given playback time.
+ * Gaps between words (sound effects, pauses) snap to whichever word is
+ * closer so the highlight never gets stuck on a word during a long gap.
+ */
+export function findWordIndex(currentTime: number, words: Array<{ start: number; end: number }>): number {
+  if (!words || words.length === 0) return -1;
+
+  for (let i = 0; i < words.length; i++) {
+    if (currentTime >= words[i].start && currentTime < words[i].end) {
+      return i;
+    }
+  }
+
+  // Before first word - show first word
+  if (currentTime < words[0].start) return 0;
+
+  // After last word - stay on last word
+  if (currentTime >= words[words.length - 1].end) return words.length - 1;
+
+  // In a gap - move forward once we pass the gap midpoint
+  for (let i = 0; i < words.length - 1; i++) {
+    const current = words[i];
+    const next = words[i + 1];
+    if (currentTime >= current.end && currentTime < next.start) {
+      const gapMidpoint = (current.end + next.start) / 2;
+      return currentTime >= gapMidpoint ? i + 1 : i;
+    }
+  }
+
+  return words.length - 1;
+}
+
+/**
+ * Build word timings for a clip.
+ * Uses exact ElevenLabs timestamps when present (bracketed cues and stray
+ * punctuation filtered out so indices line up with the displayed words),
+ * otherwise spreads the displayed words evenly across the clip duration.
+ */
+export function buildWordAlignment(rawAlignment: any, text: string, duration: number): WordAlignment | null {
+  if (rawAlignment?.words?.length > 0 && !rawAlignment.isEstimated) {
+    const filtered: WordTiming[] = [];
+    let insideBracket = false;
+    let skipNextPunctuation = false;
+
+    for (const wordData of rawAlignment.words) {
+      const word: string = wordData.word || '';
+
+      // ElevenLabs may return "," or "." as separate words after [emotion]
+      if (skipNextPunctuation && /^[.,!?;:'"-]+$/.test(word)) {
+        skipNextPunctuation = false;
+        continue;
+      }
+      skipNextPunctuation = false;
+
+      // Multi-word cues like "[gentle wind breeze]"
+      if (word.includes('[')) insideBracket = true;
+      if (insideBracket || /\[.*\]/.test(word)) {
+        if (word.includes(']')) {
+          insideBracket = false;
+          skipNextPunctuation = true;
+        }
+        continue;
+      }
+
+      const cleanedWord = word
+        .replace(/\[[^\]]*\]/g, '')
+        .replace(/[\[\]]/g, '')
+        .replace(/[.,!?;:'"-]+$/g, '')
+        .trim();
+
+      if (cleanedWord.length > 0 && !/^[.,!?;:'"-]+$/.test(cleanedWord)) {
+        filtered.push({ word: cleanedWord, start: wordData.start, end: wordData.end });
+      }
+    }
+
+    if (filtered.length > 0) return { words: filtered };
+  }
+
+  const displayWords = getDisplayWords(text);
+  if (displayWords.length === 0 || !(duration > 0)) return null;
+
+  const wordDuration = duration / displayWords.length;
+  return {
+    words: displayWords.map((word, idx) => ({
+      word,
+      start: idx * wordDuration,
+      end: (idx + 1) * wordDuration,
+    })),
+  };
+}
+
+/**
+ * A text box's part of its page's narrator recording, or null when the box should use
+ * generated TTS. Shared by the reader and the offline downloader so both pick the same boxes.
+ */
+export function getTextBoxRecording(
+  audioUrl: string | undefined,
+  box: RecordedTextBox | undefined,
+  languageCode: string
+): RecordedNarration | null {
+  if (languageCode !== RECORDING_LANGUAGE || !audioUrl || !box?.words?.length) return null;
+  if (box.startTime == null || box.endTime == null) return null;
+  // Text edited since it was aligned - the timings no longer match, use TTS
+  if (box.words.length !== getDisplayWords(box.text || '').length) return null;
+  return { audioUrl, start: box.startTime, end: box.endTime, words: box.words };
+}
+
+/**
+ * The single segment played for a text box with a narrator recording.
+ */
+function recordedSegment(text: string): TextSegment {
+  const cleanText = removeEmotionalCues(text);
+  return { text: cleanText, voiceId: '', isNarrator: true, startIndex: 0, endIndex: cleanText.length };
+}
+
+// ============================================
+// CONTROLLER
+// ============================================
+
+interface NarrationRun {
+  queue: number[];            // text boxes still to play on the current page
+  autoPlay: boolean;
+  singleTextBox: boolean;     // started by tapping one box - don't continue the page
+  playedClip: boolean;        // at least one clip of the current text box played
+}
+
+export class NarrationController {
+  private hooks: NarrationHooks;
+  private synthesize: NarrationSynthesizer;
+  private player: NarrationAudioPlayer;
+  private clock: NarrationClock;
+
+  private state: NarrationSnapshot = {
+    status: 'idle',
+    mode: 'auto',
+    autoPlay: false,
+    pageIndex: 0,
+    textBoxIndex: null,
+    segments: [],
+    segmentIndex: 0,
+    wordIndex: -1,
+    alignment: null,
+  };
+  private listeners = new Set<(snapshot: NarrationSnapshot) => void>();
+
+  private session = 0;
+  private run: NarrationRun | null = null;
+  private clip: NarrationClip | null = null;
+  private clipReady = false;
+  private wordOffset = 0;
+  private highlightTimer: number | null = null;
+  private pendingTimer: number | null = null;
+  private resumeAction: (() => void) | null = null;
+  private recording: RecordedNarration | null = null;
+
+  private narratorVoiceId = '';
+  private characterVoices: CharacterVoice[] = [];
+  private language = 'en';
+  private audioCache = new Map<string, Promise<SynthesisResult | null>>();
+
+  constructor(options: NarrationControllerOptions) {
+    const { synthesize, player, clock, ...hooks } = options;
+    this.hooks = hooks;
+    this.synthesize = synthesize;
+    this.clock = clock || browserClock;
+    this.player = player || new HtmlNarrationAudioPlayer(this.clock);
+  }
+
+  // ============================================
+  // OBSERVATION
+  // ============================================
+
+  getSnapshot(): NarrationSnapshot {
+    return this.state;
+  }
+
+  subscribe(listener: (snapshot: NarrationSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** True while a run is in progress (including paused). */
+  isActive(): boolean {
+    const { status } = this.state;
+    return status === 'loading' || status === 'playing' || status === 'paused' || status === 'turningPage';
+  }
+
+  private update(patch: Partial<NarrationSnapshot>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  // ============================================
+  // EVENTS
+  // ============================================
+
+  /**
+   * Narrate a whole page from the first text box.
+   * In 'auto' mode the run keeps turning pages until the book ends.
+   */
+  playPage(pageIndex: number) {
+    this.startRun(pageIndex, 0, this.state.mode === 'auto');
+  }
+
+  /**
+   * Tap on a text box.
+   * - Tapping the box that is playing stops narration.
+   * - During a page run, jumps the run to that box and continues from there.
+   * - Otherwise plays just that box.
+   */
+  playTextBox(pageIndex: number, textBoxIndex: number) {
+    const { pageIndex: activePage, textBoxIndex: activeBox } = this.state;
+
+    if (this.isActive() && activePage === pageIndex && activeBox === textBoxIndex) {
+      console.log('⏹️ Narration: same text box tapped, stopping');
+      this.stop();
+      return;
+    }
+
+    if (this.isActive() && this.run && activePage === pageIndex && !this.run.singleTextBox) {
+      this.startRun(pageIndex, textBoxIndex, this.run.autoPlay);
+      return;
+    }
+
+    this.startRun(pageIndex, textBoxIndex, false, true);
+  }
+
+  pause() {
+    const { status } = this.state;
+    if (status !== 'loading' && status !== 'playing' && status !== 'turningPage') return;
+
+    if (this.clip && this.clipReady) {
+      this.clip.pause();
+    }
+    this.stopHighlightTimer();
+    this.update({ status: 'paused' });
+  }
+
+  resume() {
+    if (this.state.status !== 'paused') return;
+    const session = this.session;
+
+    if (this.resumeAction) {
+      const action = this.resumeAction;
+      this.resumeAction = null;
+      this.update({ status: 'playing' });
+      action();
+      return;
+    }
+
+    if (this.clip) {
+      if (this.clipReady) {
+        this.startClip(session, this.clip);
+      } else {
+        // Still buffering - onReady will start it
+        this.update({ status: 'loading' });
+      }
+      return;
+    }
+
+    // Paused while generating audio - playSegment picks it up when the audio arrives
+    this.update({ status: 'loading' });
+  }
+
+  /** Stop narration completely and forget the current run. */
+  stop() {
+    this.session += 1;
+    this.run = null;
+    this.resumeAction = null;
+    this.recording = null;
+    this.clearPendingTimer();
+    this.stopHighlightTimer();
+    this.disposeClip();
+
+    if (this.state.status === 'idle' && this.state.textBoxIndex === null && this.state.wordIndex === -1) {
+      return;
+    }
+
+    this.update({
+      status: 'idle',
+      autoPlay: false,
+      textBoxIndex: null,
+      segments: [],
+      segmentIndex: 0,
+      wordIndex: -1,
+      alignment: null,
+    });
+  }
+
+  setMode(mode: NarrationMode) {
+    if (mode === this.state.mode) return;
+    // A running narration follows the new mode immediately
+    if (this.run) {
+      this.run.autoPlay = mode === 'auto';
+    }
+    this.update({ mode, autoPlay: this.run ? this.run.autoPlay : this.state.autoPlay });
+  }
+
+  setVoices(narratorVoiceId: string, characterVoices: CharacterVoice[] = []) {
+    const changed = narratorVoiceId !== this.narratorVoiceId
+      || JSON.stringify(characterVoices) !== JSON.stringify(this.characterVoices);
+    if (!changed) return;
+
+    const hadVoice = !!this.narratorVoiceId;
+    this.narratorVoiceId = narratorVoiceId;
+    this.characterVoices = characterVoices;
+
+    // Narration in the old voice would be inconsistent with the rest of the page
+    if (hadVoice && this.isActive()) {
+      console.log(`🎤 Narration voice changed to ${narratorVoiceId}, stopping current narration`);
+      this.stop();
+    }
+  }
+
+  setLanguage(languageCode: string) {
+    this.language = languageCode || 'en';
+  }
+
+  /** Drop all generated audio (e.g. after the book content was refreshed). */
+  clearCache() {
+    this.audioCache.clear();
+  }
+
+  /** Generate audio for the next few pages in the background. */
+  preload(fromPageIndex: number) {
+    if (!this.narratorVoiceId) return;
+    const pageCount = this.hooks.getPageCount();
+
+    for (let i = 0; i < PRELOAD_PAGES; i++) {
+      const pageIndex = fromPageIndex + i;
+      if (pageIndex >= pageCount - 1) break; // Don't preload "The End" page
+      if (this.hooks.isPageReady && !this.hooks.isPageReady(pageIndex)) continue;
+
+      this.hooks.getTextBoxes(pageIndex).forEach((text, textBoxIndex) => {
+        if (!text || this.getRecording(pageIndex, textBoxIndex)) return;
+        this.parseSegments(text).forEach(segment => {
+          this.getSegmentAudio(pageIndex, textBoxIndex, segment).catch(() => {});
+        });
+      });
+    }
+  }
+
+  dispose() {
+    this.stop();
+    this.listeners.clear();
+  }
+
+  // ============================================
+  // RUN / TEXT BOX FLOW
+  // ============================================
+
+  private startRun(pageIndex: number, fromTextBox: number, autoPlay: boolean, singleTextBox: boolean = false) {
+    this.stop();
+    const session = this.session;
+
+    const boxCount = this.hooks.getTextBoxes(pageIndex).length;
+    if (fromTextBox >= boxCount) {
+      console.warn('⚠️ Narration: no text boxes to play on page', pageIndex + 1);
+      return;
+    }
+
+    const queue: number[] = [];
+    if (!singleTextBox) {
+      for (let i = fromTextBox + 1; i < boxCount; i++) queue.push(i);
+    }
+
+    this.run = { queue, autoPlay, singleTextBox, playedClip: false };
+    this.update({ autoPlay, pageIndex });
+    this.startTextBox(session, pageIndex, fromTextBox);
+  }
+
+  private startTextBox(session: number, pageIndex: number, textBoxIndex: number) {
+    if (!this.isCurrent(session) || !this.run) return;
+
+    const text = this.hooks.getTextBoxes(pageIndex)[textBoxIndex] || '';
+    this.recording = text ? this.getRecording(pageIndex, textBoxIndex) : null;
+    // A recording covers the whole box, character voices included
+    const segments = !text ? [] : this.recording ? [recordedSegment(text)] : this.parseSegments(text);
+    this.run.playedClip = false;
+
+    this.update({
+      status: this.state.status === 'paused' ? 'paused' : 'loading',
+      pageIndex,
+      textBoxIndex,
+      segments,
+      segmentIndex: 0,
+      wordIndex: -1,
+      alignment: null,
+    });
+
+    if (segments.length === 0) {
+      this.advance(session);
+      return;
+    }
+
+    console.log(`🎤 Narration: page ${pageIndex + 1}, text box ${textBoxIndex + 1} (${segments.length} segment${segments.length > 1 ? 's' : ''})`);
+    this.playSegment(session, 0);
+  }
+
+  private async playSegment(session: number, segmentIndex: number) {
+    if (!this.isCurrent(session)) return;
+    const { pageIndex, textBoxIndex, segments } = this.state;
+
+    if (segmentIndex >= segments.length || textBoxIndex === null) {
+      this.finishTextBox(session);
+      return;
+    }
+
+    const segment = segments[segmentIndex];
+    this.disposeClip();
+    this.stopHighlightTimer();
+    this.wordOffset = segments
+      .slice(0, segmentIndex)
+      .reduce((count, s) => count + getDisplayWords(s.text).length, 0);
+    this.update({ segmentIndex, alignment: segmentIndex === 0 ? null : this.state.alignment });
+
+    const recording = this.recording;
+    let result: SynthesisResult | null = recording ? { audioUrl: recording.audioUrl } : null;
+    if (!recording) {
+      try {
+        result = await this.getSegmentAudio(pageIndex, textBoxIndex, segment);
+      } catch (error) {
+        console.error(`Error generating narration for segment ${segmentIndex + 1}:`, error);
+      }
+    }
+
+    // TTS generation takes time - the run may have been stopped meanwhile
+    if (!this.isCurrent(session)) return;
+
+    if (!result?.audioUrl) {
+      console.warn(`⏭️ Narration: skipping segment ${segmentIndex + 1}, no audio`);
+      this.playSegment(session, segmentIndex + 1);
+      return;
+    }
+
+    const clip = this.player.load(result.audioUrl, {
+      onMetadata: (duration) => {
+        if (this.clip !== clip) return;
+        if (recording) {
+          // Times are positions in the recording, the same clock the clip reports
+          this.update({ alignment: { words: recording.words } });
+          return;
+        }
+        // Character voices get an even spread - the timestamps cover the segment, not the box
+        const rawAlignment = segments.length === 1 ? result?.alignment : null;
+        const alignment = buildWordAlignment(rawAlignment, segment.text, duration);
+        this.update({ alignment });
+      },
+      onReady: () => {
+        if (this.clip !== clip) return;
+        this.clipReady = true;
+        if (this.state.status !== 'paused') {
+          this.startClip(session, clip);
+        }
+      },
+      onEnded: () => {
+        if (this.clip !== clip) return;
+        this.stopHighlightTimer();
+        this.playSegment(session, segmentIndex + 1);
+      },
+      onError: (error) => {
+        if (this.clip !== clip) return;
+        console.error(`Narration audio error for segment ${segmentIndex + 1}:`, error);
+        this.playSegment(session, segmentIndex + 1);
+      },
+    }, recording ? { start: recording.start, end: recording.end } : undefined);
+    this.clip = clip;
+    this.clipReady = false;
+  }
+
+  private startClip(session: number, clip: NarrationClip) {
+    if (!this.isCurrent(session) || this.clip !== clip) return;
+
+    if (this.run) this.run.playedClip = true;
+    this.update({ status: 'playing' });
+    this.startHighlightTimer(clip);
+
+    clip.play().catch(err => {
+      if (this.clip !== clip) return;
+      // Usually an autoplay restriction - leave it paused so a tap can resume
+      console.warn('Narration play failed:', err);
+      this.stopHighlightTimer();
+      this.update({ status: 'paused' });
+    });
+  }
+
+  private finishTextBox(session: number) {
+    if (!this.isCurrent(session) || !this.run) return;
+    this.disposeClip();
+
+    if (!this.run.playedClip) {
+      const error = new Error('No narration audio could be generated');
+      console.error('❌ Narration failed for text box', this.state.textBoxIndex);
+      this.stop();
+      this.hooks.onPlaybackError?.(error);
+      return;
+    }
+
+    // Leave the last word lit for a moment so the ending doesn't feel cut off
+    const alignment = this.state.alignment;
+    if (alignment && alignment.words.length > 0) {
+      this.update({ wordIndex: this.wordOffset + alignment.words.length - 1 });
+    }
+
+    this.schedule(session, NARRATION_TIMING.endOfTextPause, () => {
+      this.update({ textBoxIndex: null, wordIndex: -1, alignment: null, segments: [], segmentIndex: 0 });
+      this.advance(session);
+    });
+  }
+
+  /** Move on after a text box: next box, next page, or done. */
+  private advance(session: number) {
+    if (!this.isCurrent(session) || !this.run) return;
+    const run = this.run;
+    const { pageIndex } = this.state;
+
+    const nextTextBox = run.queue.shift();
+    if (nextTextBox !== undefined) {
+      console.log(`📖 Narration: next text box ${nextTextBox + 1}, ${run.queue.length} remaining`);
+      this.schedule(session, NARRATION_TIMING.textBoxGap, () => {
+        this.startTextBox(session, pageIndex, nextTextBox);
+      });
+      return;
+    }
+
+    const pageCount = this.hooks.getPageCount();
+
+    if (run.autoPlay && pageIndex < pageCount - 1) {
+      this.turnToPage(session, pageIndex + 1);
+      return;
+    }
+
+    if (run.autoPlay) {
+      this.finish(session);
+      return;
+    }
+
+    this.stop();
+  }
+
+  private async turnToPage(session: number, nextPageIndex: number) {
+    console.log('🔄 Narration: turning to page', nextPageIndex + 1);
+    this.update({ status: 'turningPage', textBoxIndex: null, wordIndex: -1, alignment: null });
+
+    try {
+      await this.hooks.turnPage(nextPageIndex);
+    } catch (error) {
+      console.warn('Page turn failed:', error);
+    }
+    if (!this.isCurrent(session) || !this.run) return;
+
+    this.update({ pageIndex: nextPageIndex });
+
+    this.schedule(session, NARRATION_TIMING.pageSettle, () => {
+      const run = this.run;
+      if (!run) return;
+
+      const boxCount = this.hooks.getTextBoxes(nextPageIndex).length;
+      if (boxCount === 0) {
+        if (nextPageIndex >= this.hooks.getPageCount() - 1) {
+          this.finish(session);
+        } else {
+          console.log(`⏹️ Narration: no text boxes on page ${nextPageIndex + 1}, stopping`);
+          this.stop();
+        }
+        return;
+      }
+
+      run.queue = [];
+      for (let i = 1; i < boxCount; i++) run.queue.push(i);
+      this.update({ status: 'playing' });
+      this.startTextBox(session, nextPageIndex, 0);
+    });
+  }
+
+  private finish(session: number) {
+    if (!this.isCurrent(session)) return;
+    console.log('🏁 Narration: reached end of book');
+    this.session += 1;
+    this.run = null;
+    this.clearPendingTimer();
+    this.stopHighlightTimer();
+    this.disposeClip();
+    this.update({
+      status: 'finished',
+      autoPlay: false,
+      textBoxIndex: null,
+      segments: [],
+      segmentIndex: 0,
+      wordIndex: -1,
+      alignment: null,
+    });
+    this.hooks.onBookFinished?.();
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private isCurrent(session: number): boolean {
+    return session === this.session;
+  }
+
+  private parseSegments(text: string): TextSegment[] {
+    return parseTextIntoSegments(text, this.narratorVoiceId, this.characterVoices);
+  }
+
+  private getRecording(pageIndex: number, textBoxIndex: number): RecordedNarration | null {
+    if (this.language !== RECORDING_LANGUAGE) return null;
+    return this.hooks.getRecording?.(pageIndex, textBoxIndex) ?? null;
+  }
+
+  /**
+   * Generated audio for one segment, shared between preloading and playback.
+   * Keyed by the exact text + voice + language sent to TTS, so changing
+   * voice or translation never plays stale audio.
+   */
+  private getSegmentAudio(pageIndex: number, textBoxIndex: number, segment: TextSegment): Promise<SynthesisResult | null> {
+    const language = this.language;
+    const voiceId = segment.voiceId || this.narratorVoiceId;
+    // The multilingual model doesn't support emotional cues
+    const text = language !== 'en'
+      ? removeEmotionalCues(segment.text)
+      : processTextWithEmotionalCues(segment.text).processedText;
+
+    if (!text.trim()) return Promise.resolve(null);
+
+    const key = `${language}:${voiceId}:${text}`;
+    const cached = this.audioCache.get(key);
+    if (cached) return cached;
+
+    const request = this.synthesize({
+      text,
+      voiceId,
+      languageCode: language !== 'en' ? language : undefined,
+      pageIndex,
+      textBoxIndex,
+    }).then(result => {
+      if (!result?.audioUrl) this.audioCache.delete(key);
+      return result;
+    }, error => {
+      this.audioCache.delete(key);
+      throw error;
+    });
+
+    this.audioCache.set(key, request);
+    return request;
+  }
+
+  /**
+   * Run fn after a delay unless the session ended; if paused by then,
+   * hold it until resume().
+   */
+  private schedule(session: number, ms: number, fn: () => void) {
+    this.clearPendingTimer();
+    this.pendingTimer = this.clock.setTimeout(() => {
+      this.pendingTimer = null;
+      if (!this.isCurrent(session)) return;
+      if (this.state.status === 'paused') {
+        this.resumeAction = fn;
+        return;
+      }
+      fn();
+    }, ms);
+  }
+
+  private clearPendingTimer() {
+    if (this.pendingTimer !== null) {
+      this.clock.clearTimeout(this.pendingTimer);
+      this.pendingTimer = null;
+    }
+  }
+
+  private startHighlightTimer(clip: NarrationClip) {
+    this.stopHighlightTimer();
+    this.highlightTimer = this.clock.setInterval(() => {
+      if (this.clip !== clip) return;
+      const alignment = this.state.alignment;
+      if (!alignment || alignment.words.length === 0) return;
+
+      const localIndex = findWordIndex(clip.currentTime, alignment.words);
+      if (localIndex === -1) return;
+      const wordIndex = this.wordOffset + localIndex;
+      if (wordIndex !== this.state.wordIndex) {
+        this.update({ wordIndex });
+      }
+    }, NARRATION_TIMING.highlightInterval);
+  }
+
+  private stopHighlightTimer() {
+    if (this.highlightTimer !== null) {
+      this.clock.clearInterval(this.highlightTimer);
+      this.highlightTimer = null;
+    }
+  }
+
+  private disposeClip() {
+    if (this.clip) {
+      this.clip.dispose();
+      this.clip = null;
+    }
+    this.clipReady = false;
+  }
+}
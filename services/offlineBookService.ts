@@ -0,0 +1,522 @@
+// Offline Book Service - Downloads whole books (pages, media, narration) for reading without connectivity
+// Book packs are described by a manifest in IndexedDB; the media files themselves live in
+// Cache Storage keyed by their original URL so the same file is only stored once.
+import { ApiService } from './apiService';
+import { processTextWithEmotionalCues } from '../utils/textProcessing';
+import { parseTextIntoSegments, CharacterVoice } from '../utils/narrationSegments';
+import { getTextBoxRecording, RecordedTextBox, RECORDING_LANGUAGE } from './narrationController';
+
+const DB_NAME = 'godlykids_offline';
+const DB_VERSION = 1;
+const PACK_STORE = 'book_packs';
+const ASSET_CACHE = 'godlykids-offline-assets-v1';
+const PACK_FORMAT_VERSION = 1;
+const DOWNLOAD_CONCURRENCY = 3;
+
+export interface OfflineNarration {
+  text: string;
+  voiceId: string;
+  audioUrl: string; // Original (remote) URL - resolved to a local object URL on read
+  alignment: any;
+}
+
+export interface OfflineBookManifest {
+  version: number;
+  bookId: string;
+  title: string;
+  coverUrl: string;
+  voiceId: string; // Narrator voice the narration was generated with
+  book: any; // Raw book document as returned by GET /books/:id
+  pages: any[]; // Raw pages as returned by GET /pages/book/:bookId
+  narration: Record<string, OfflineNarration>; // keyed by narrationKey(text, voiceId)
+  assetUrls: string[];
+  missingAssetUrls: string[]; // Assets that could not be fetched (fall back to network)
+  totalBytes: number;
+  downloadedAt: number;
+}
+
+export type OfflineDownloadPhase = 'pages' | 'media' | 'narration' | 'saving' | 'done';
+
+export interface OfflineDownloadProgress {
+  phase: OfflineDownloadPhase;
+  completed: number;
+  total: number;
+}
+
+export interface OfflineStorageUsage {
+  booksBytes: number; // Bytes used by downloaded books
+  usage?: number; // Origin usage reported by the browser
+  quota?: number; // Origin quota reported by the browser
+}
+
+const narrationKey = (text: string, voiceId: string): string => `${voiceId}::${text.trim()}`;
+
+// URLs stored in a page that point at other documents rather than media files
+const NON_MEDIA_KEYS = new Set(['webView']);
+
+const isRemoteUrl = (value: unknown): value is string =>
+  typeof value === 'string' && /^https?:\/\//i.test(value.trim());
+
+/**
+ * Walk a raw page document and collect every media URL it references
+ * (background, video/image sequences, scroll, sound effect, extracted video audio...)
+ */
+const collectMediaUrls = (value: any, into: Set<string>, key?: string): void => {
+  if (!value || (key && NON_MEDIA_KEYS.has(key))) return;
+  if (Array.isArray(value)) {
+    value.forEach(item => collectMediaUrls(item, into));
+    return;
+  }
+  if (typeof value === 'object') {
+    Object.entries(value).forEach(([k, v]) => {
+      if (/(url|uri)$/i.test(k) && isRemoteUrl(v)) {
+        into.add(v.trim());
+      } else if (typeof v === 'object') {
+        collectMediaUrls(v, into, k);
+      }
+    });
+  }
+};
+
+/**
+ * Deep-copy a document, swapping every URL we hold locally for its local equivalent
+ */
+const replaceUrls = (value: any, lookup: Map<string, string>): any => {
+  if (Array.isArray(value)) return value.map(item => replaceUrls(item, lookup));
+  if (value && typeof value === 'object') {
+    const copy: Record<string, any> = {};
+    Object.entries(value).forEach(([k, v]) => {
+      copy[k] = replaceUrls(v, lookup);
+    });
+    return copy;
+  }
+  if (typeof value === 'string') return lookup.get(value.trim()) || value;
+  return value;
+};
+
+/**
+ * Pages shown in the reader flow (mirrors BookReaderPage): coloring pages only
+ * appear inline when explicitly flagged, everything else is read in order.
+ */
+const getReaderPages = (pages: any[]): any[] =>
+  pages.filter(p => !p.isColoringPage || p.coloringEndModalOnly === false);
+
+const getTextBoxes = (page: any): RecordedTextBox[] =>
+  page?.content?.textBoxes || page?.textBoxes || [];
+
+/**
+ * The narrator voice the reader uses by default:
+ * book narrator voice, then book default voice, then the user's selected voice.
+ */
+export const resolveNarratorVoiceId = (rawBook: any, userVoiceId: string): string =>
+  rawBook?.defaultNarratorVoiceId || rawBook?.defaultVoiceId || userVoiceId;
+
+export const formatBytes = (bytes: number): string => {
+  if (!bytes || bytes < 1024) return `${bytes || 0} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size.toFixed(size >= 10 ? 0 : 1)} ${units[unit]}`;
+};
+
+class OfflineBookService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private downloadedIds: Set<string> | null = null;
+  private objectUrls = new Map<string, string>();
+  private activeDownloads = new Map<string, Promise<OfflineBookManifest | null>>();
+  private listeners: Array<() => void> = [];
+
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined' && typeof caches !== 'undefined';
+  }
+
+  // Subscribe to download/delete changes (returns unsubscribe)
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(PACK_STORE)) {
+            db.createObjectStore(PACK_STORE, { keyPath: 'bookId' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async runStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(PACK_STORE, mode);
+      const request = action(tx.objectStore(PACK_STORE));
+      tx.oncomplete = () => resolve(request.result as T);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  // Get all downloaded book packs (most recent first)
+  async getAllPacks(): Promise<OfflineBookManifest[]> {
+    if (!this.isSupported()) return [];
+    try {
+      const packs = await this.runStore<OfflineBookManifest[]>('readonly', store => store.getAll());
+      this.downloadedIds = new Set(packs.map(p => p.bookId));
+      return packs.sort((a, b) => b.downloadedAt - a.downloadedAt);
+    } catch (error) {
+      console.error('Error reading offline books:', error);
+      return [];
+    }
+  }
+
+  async getPack(bookId: string): Promise<OfflineBookManifest | null> {
+    if (!this.isSupported() || !(await this.isDownloaded(bookId))) return null;
+    try {
+      const pack = await this.runStore<OfflineBookManifest | undefined>('readonly', store => store.get(bookId));
+      return pack || null;
+    } catch (error) {
+      console.error('Error reading offline book:', error);
+      return null;
+    }
+  }
+
+  async isDownloaded(bookId: string): Promise<boolean> {
+    if (!this.isSupported()) return false;
+    if (!this.downloadedIds) {
+      await this.getAllPacks();
+    }
+    return this.downloadedIds?.has(bookId) || false;
+  }
+
+  isDownloading(bookId: string): boolean {
+    return this.activeDownloads.has(bookId);
+  }
+
+  /**
+   * Download a book with all of its media and narration for the given voice.
+   * Re-downloading an existing book replaces its pack.
+   */
+  downloadBook(
+    bookId: string,
+    userVoiceId: string,
+    onProgress?: (progress: OfflineDownloadProgress) => void
+  ): Promise<OfflineBookManifest | null> {
+    const existing = this.activeDownloads.get(bookId);
+    if (existing) return existing;
+
+    const download = this.performDownload(bookId, userVoiceId, onProgress).finally(() => {
+      this.activeDownloads.delete(bookId);
+      this.notify();
+    });
+    this.activeDownloads.set(bookId, download);
+    this.notify();
+    return download;
+  }
+
+  private async performDownload(
+    bookId: string,
+    userVoiceId: string,
+    onProgress?: (progress: OfflineDownloadProgress) => void
+  ): Promise<OfflineBookManifest | null> {
+    if (!this.isSupported()) {
+      console.warn('📴 Offline downloads are not supported on this device');
+      return null;
+    }
+
+    try {
+      // 1. Book + pages (always from the network, never from a previous pack)
+      onProgress?.({ phase: 'pages', completed: 0, total: 1 });
+      const book = await ApiService.getBookById(bookId, { network: true });
+      const pages = await ApiService.getBookPages(bookId, true);
+      const rawBook = (book as any)?.rawData;
+      if (!book || !rawBook || pages.length === 0) {
+        console.warn(`📴 Cannot download book ${bookId}: book or pages unavailable`);
+        return null;
+      }
+      onProgress?.({ phase: 'pages', completed: 1, total: 1 });
+
+      // 2. Media files
+      const mediaUrls = new Set<string>();
+      collectMediaUrls(pages, mediaUrls);
+      if (isRemoteUrl(book.coverUrl)) mediaUrls.add(book.coverUrl);
+      if (isRemoteUrl(rawBook.introVideoUrl)) mediaUrls.add(rawBook.introVideoUrl);
+      (rawBook.files?.audio || []).forEach((track: any) => {
+        if (isRemoteUrl(track?.url)) mediaUrls.add(track.url);
+      });
+
+      const cache = await caches.open(ASSET_CACHE);
+      const stored: string[] = [];
+      const missing: string[] = [];
+      let totalBytes = 0;
+      const mediaList = Array.from(mediaUrls);
+      let mediaDone = 0;
+      onProgress?.({ phase: 'media', completed: 0, total: mediaList.length });
+
+      await this.runPool(mediaList, async (url) => {
+        const bytes = await this.storeAsset(cache, url);
+        if (bytes === null) {
+          missing.push(url);
+        } else {
+          stored.push(url);
+          totalBytes += bytes;
+        }
+        mediaDone++;
+        onProgress?.({ phase: 'media', completed: mediaDone, total: mediaList.length });
+      });
+
+      // 3. Narration (TTS audio + word alignment) for every text box.
+      // Narrator recordings were stored with the media above.
+      const narratorVoiceId = resolveNarratorVoiceId(rawBook, userVoiceId);
+      const characterVoices: CharacterVoice[] = Array.isArray(rawBook.characterVoices) ? rawBook.characterVoices : [];
+      const requests: Array<{ text: string; voiceId: string; pageNumber: number; textBoxIndex: number }> = [];
+      getReaderPages(pages).forEach((page, pageIndex) => {
+        getTextBoxes(page).forEach((textBox, textBoxIndex) => {
+          // Downloads are English - boxes with a narrator recording play it instead of TTS
+          if (!textBox.text || getTextBoxRecording(page?.narration?.audioUrl, textBox, RECORDING_LANGUAGE)) return;
+          parseTextIntoSegments(textBox.text, narratorVoiceId, characterVoices).forEach(segment => {
+            const ttsText = processTextWithEmotionalCues(segment.text).processedText;
+            if (!ttsText) return;
+            requests.push({ text: ttsText, voiceId: segment.voiceId, pageNumber: pageIndex + 1, textBoxIndex });
+          });
+        });
+      });
+
+      // Clips from a previous download of this book are reused rather than regenerated
+      const previous = await this.getPack(bookId);
+      const narration: Record<string, OfflineNarration> = {};
+      let narrationDone = 0;
+      onProgress?.({ phase: 'narration', completed: 0, total: requests.length });
+
+      await this.runPool(requests, async (request) => {
+        const key = narrationKey(request.text, request.voiceId);
+        const reusable = previous?.narration[key];
+        if (!narration[key] && reusable) {
+          const bytes = await this.storeAsset(cache, reusable.audioUrl);
+          if (bytes !== null) {
+            totalBytes += bytes;
+            stored.push(reusable.audioUrl);
+            narration[key] = reusable;
+          }
+        }
+        if (!narration[key]) {
+          const result = await ApiService.generateTTS(
+            request.text,
+            request.voiceId,
+            bookId,
+            undefined,
+            request.pageNumber,
+            request.textBoxIndex
+          );
+          if (result?.audioUrl && isRemoteUrl(result.audioUrl)) {
+            const bytes = await this.storeAsset(cache, result.audioUrl);
+            if (bytes !== null) {
+              totalBytes += bytes;
+              stored.push(result.audioUrl);
+              narration[key] = { text: request.text, voiceId: request.voiceId, audioUrl: result.audioUrl, alignment: result.alignment };
+            }
+          }
+        }
+        narrationDone++;
+        onProgress?.({ phase: 'narration', completed: narrationDone, total: requests.length });
+      });
+
+      // 4. Manifest
+      onProgress?.({ phase: 'saving', completed: 0, total: 1 });
+      const manifest: OfflineBookManifest = {
+        version: PACK_FORMAT_VERSION,
+        bookId,
+        title: book.title,
+        coverUrl: book.coverUrl,
+        voiceId: narratorVoiceId,
+        book: rawBook,
+        pages,
+        narration,
+        assetUrls: Array.from(new Set(stored)),
+        missingAssetUrls: missing,
+        totalBytes,
+        downloadedAt: Date.now(),
+      };
+      await this.runStore('readwrite', store => store.put(manifest));
+      if (!this.downloadedIds) this.downloadedIds = new Set();
+      this.downloadedIds.add(bookId);
+
+      // A re-download replaces the pack - drop files only the old copy used
+      if (previous) {
+        const kept = new Set(manifest.assetUrls);
+        await this.releaseAssets(bookId, previous.assetUrls.filter(url => !kept.has(url)))
+          .catch(error => console.warn(`📴 Could not clear old files of book ${bookId}:`, error));
+      }
+
+      console.log(`📥 Downloaded "${book.title}" for offline: ${stored.length} files, ${Object.keys(narration).length} narration clips, ${formatBytes(totalBytes)}${missing.length ? ` (${missing.length} files unavailable)` : ''}`);
+      onProgress?.({ phase: 'done', completed: 1, total: 1 });
+      return manifest;
+    } catch (error) {
+      console.error(`❌ Failed to download book ${bookId} for offline:`, error);
+      return null;
+    }
+  }
+
+  // Run tasks with limited concurrency so large books don't flood the connection
+  private async runPool<T>(items: T[], worker: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    const runners = Array.from({ length: Math.min(DOWNLOAD_CONCURRENCY, items.length) }, async () => {
+      while (next < items.length) {
+        const item = items[next++];
+        try {
+          await worker(item);
+        } catch (error) {
+          console.warn('Offline download task failed:', error);
+        }
+      }
+    });
+    await Promise.all(runners);
+  }
+
+  // Fetch a file into Cache Storage (reusing an existing copy). Returns its size, or null if unavailable.
+  private async storeAsset(cache: Cache, url: string): Promise<number | null> {
+    try {
+      const existing = await cache.match(url);
+      if (existing) {
+        return (await existing.clone().blob()).size;
+      }
+      const response = await fetch(url, { mode: 'cors' });
+      if (!response.ok) {
+        console.warn(`⚠️ Offline asset unavailable (${response.status}): ${url}`);
+        return null;
+      }
+      const blob = await response.clone().blob();
+      await cache.put(url, response);
+      return blob.size;
+    } catch (error) {
+      console.warn(`⚠️ Failed to store offline asset: ${url}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Resolve a remote URL to a local object URL if we hold it offline.
+   * Returns the original URL when the file is not stored.
+   */
+  async resolveAssetUrl(url: string): Promise<string> {
+    if (!url || !this.isSupported()) return url;
+    const cached = this.objectUrls.get(url);
+    if (cached) return cached;
+    try {
+      const cache = await caches.open(ASSET_CACHE);
+      const response = await cache.match(url);
+      if (!response) return url;
+      const objectUrl = URL.createObjectURL(await response.blob());
+      this.objectUrls.set(url, objectUrl);
+      return objectUrl;
+    } catch {
+      return url;
+    }
+  }
+
+  private async buildUrlLookup(urls: string[]): Promise<Map<string, string>> {
+    const lookup = new Map<string, string>();
+    await Promise.all(urls.map(async (url) => {
+      const local = await this.resolveAssetUrl(url);
+      if (local !== url) lookup.set(url, local);
+    }));
+    return lookup;
+  }
+
+  /**
+   * Load a downloaded book ready for the reader: the raw book document and its pages
+   * with every stored media URL pointing at the local copy.
+   */
+  async getOfflineBook(bookId: string): Promise<{ book: any; pages: any[] } | null> {
+    const pack = await this.getPack(bookId);
+    if (!pack) return null;
+    const lookup = await this.buildUrlLookup(pack.assetUrls);
+    return {
+      book: replaceUrls(pack.book, lookup),
+      pages: replaceUrls(pack.pages, lookup),
+    };
+  }
+
+  // Get stored narration for text spoken with a voice (same text ApiService.generateTTS receives)
+  async getNarration(bookId: string, text: string, voiceId: string): Promise<{ audioUrl: string; alignment: any } | null> {
+    const pack = await this.getPack(bookId);
+    const entry = pack?.narration[narrationKey(text, voiceId)];
+    if (!entry) return null;
+    const audioUrl = await this.resolveAssetUrl(entry.audioUrl);
+    if (audioUrl === entry.audioUrl) return null; // Audio file missing locally
+    return { audioUrl, alignment: entry.alignment };
+  }
+
+  // Delete a downloaded book, keeping any files another downloaded book still uses
+  async deleteBook(bookId: string): Promise<void> {
+    if (!this.isSupported()) return;
+    try {
+      const pack = await this.getPack(bookId);
+      if (!pack) return;
+
+      await this.releaseAssets(bookId, pack.assetUrls);
+      await this.runStore('readwrite', store => store.delete(bookId));
+      this.downloadedIds?.delete(bookId);
+      console.log(`🗑️ Removed offline copy of "${pack.title}"`);
+    } catch (error) {
+      console.error(`Error deleting offline book ${bookId}:`, error);
+    } finally {
+      this.notify();
+    }
+  }
+
+  // Remove a book's cached files, keeping any another downloaded book still uses
+  private async releaseAssets(bookId: string, urls: string[]): Promise<void> {
+    if (urls.length === 0) return;
+    const stillUsed = new Set<string>();
+    (await this.getAllPacks())
+      .filter(p => p.bookId !== bookId)
+      .forEach(p => p.assetUrls.forEach(url => stillUsed.add(url)));
+
+    const cache = await caches.open(ASSET_CACHE);
+    await Promise.all(urls.filter(url => !stillUsed.has(url)).map(async (url) => {
+      await cache.delete(url);
+      const objectUrl = this.objectUrls.get(url);
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+        this.objectUrls.delete(url);
+      }
+    }));
+  }
+
+  async getStorageUsage(): Promise<OfflineStorageUsage> {
+    const packs = await this.getAllPacks();
+    const booksBytes = packs.reduce((sum, p) => sum + (p.totalBytes || 0), 0);
+    try {
+      if (navigator.storage?.estimate) {
+        const { usage, quota } = await navigator.storage.estimate();
+        return { booksBytes, usage, quota };
+      }
+    } catch {
+      // Estimate not available - book totals are still useful
+    }
+    return { booksBytes };
+  }
+}
+
+export const offlineBookService = new OfflineBookService();
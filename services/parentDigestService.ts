@@ -0,0 +1,252 @@
+// Parent Digest Service - Weekly per-kid progress snapshots for parents
+// Once a week rolls over (weeks start Monday) the finished week is snapshotted for every kid,
+// with week-over-week trends, favorite content and quiz accuracy. Parents who opt in get it
+// by email through the backend, so it reaches them without opening the Report Card.
+import { activityTrackingService, PeriodStats } from './activityTrackingService';
+import { authService } from './authService';
+import { getApiBaseUrl } from './apiService';
+
+const DIGESTS_KEY = 'godlykids_parent_digests';
+const SETTINGS_KEY = 'godlykids_parent_digest_settings';
+const MAX_DIGESTS_STORED = 12;
+const MAX_FAVORITES = 3;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface WeeklyStats extends PeriodStats {
+  coinsEarned: number;
+}
+
+export interface DigestFavorite {
+  type: 'book' | 'song' | 'game' | 'lesson';
+  title: string;
+  count: number;
+}
+
+export interface DigestQuizSummary {
+  quizzesTaken: number;
+  correctAnswers: number;
+  totalQuestions: number;
+  accuracy: number | null; // percent, null when no quizzes were taken
+}
+
+export interface KidDigest {
+  profileId: string;
+  name: string;
+  stats: WeeklyStats;
+  previousStats: WeeklyStats;
+  favorites: DigestFavorite[];
+  quiz: DigestQuizSummary;
+}
+
+export interface WeeklyDigest {
+  weekStart: number; // Monday 00:00 local time
+  weekEnd: number;
+  generatedAt: number;
+  kids: KidDigest[];
+  emailedAt: number | null;
+}
+
+export interface DigestSettings {
+  email: string;
+  emailOptIn: boolean;
+}
+
+// What the digest needs to know about each kid (coin history lives in UserContext)
+export interface DigestProfile {
+  id: string;
+  name: string;
+  coinTransactions?: Array<{ amount: number; timestamp: number }>;
+}
+
+// Monday 00:00 of the week containing the date
+export const getWeekStart = (date: Date = new Date()): number => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start.getTime();
+};
+
+// Percent change between two weeks (null when there's nothing to compare against)
+export const getTrend = (current: number, previous: number): number | null => {
+  if (previous === 0) return current === 0 ? 0 : null;
+  return Math.round(((current - previous) / previous) * 100);
+};
+
+class ParentDigestService {
+  // ============ BUILDING ============
+
+  private getWeeklyStats(profile: DigestProfile, start: number, end: number): WeeklyStats {
+    const coinsEarned = (profile.coinTransactions || [])
+      .filter(t => t.amount > 0 && t.timestamp >= start && t.timestamp < end)
+      .reduce((sum, t) => sum + t.amount, 0);
+    return { ...activityTrackingService.getStatsForRange(profile.id, start, end), coinsEarned };
+  }
+
+  private getFavorites(profileId: string, start: number, end: number): DigestFavorite[] {
+    const counts = new Map<string, DigestFavorite>();
+    activityTrackingService.getActivitiesForRange(profileId, start, end).forEach(entry => {
+      if (!entry.title || entry.type === 'page') return;
+      const key = `${entry.type}:${entry.title}`;
+      const favorite = counts.get(key) || { type: entry.type, title: entry.title, count: 0 };
+      favorite.count += 1;
+      counts.set(key, favorite);
+    });
+    return Array.from(counts.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_FAVORITES);
+  }
+
+  private getQuizSummary(profileId: string, start: number, end: number): DigestQuizSummary {
+    const results = activityTrackingService.getQuizResultsForRange(profileId, start, end);
+    const correctAnswers = results.reduce((sum, r) => sum + r.correctAnswers, 0);
+    const totalQuestions = results.reduce((sum, r) => sum + r.totalQuestions, 0);
+    return {
+      quizzesTaken: results.length,
+      correctAnswers,
+      totalQuestions,
+      accuracy: totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : null,
+    };
+  }
+
+  /**
+   * Digest of the week starting at weekStart for the given kids
+   */
+  buildDigest(profiles: DigestProfile[], weekStart: number): WeeklyDigest {
+    const weekEnd = weekStart + WEEK_MS;
+    return {
+      weekStart,
+      weekEnd,
+      generatedAt: Date.now(),
+      emailedAt: null,
+      kids: profiles.map(profile => ({
+        profileId: profile.id,
+        name: profile.name,
+        stats: this.getWeeklyStats(profile, weekStart, weekEnd),
+        previousStats: this.getWeeklyStats(profile, weekStart - WEEK_MS, weekStart),
+        favorites: this.getFavorites(profile.id, weekStart, weekEnd),
+        quiz: this.getQuizSummary(profile.id, weekStart, weekEnd),
+      })),
+    };
+  }
+
+  // The week in progress - for previewing in the app
+  buildCurrentWeek(profiles: DigestProfile[]): WeeklyDigest {
+    return this.buildDigest(profiles, getWeekStart());
+  }
+
+  /**
+   * Snapshot last week if it hasn't been yet, and email it to opted-in parents.
+   * Safe to call on every app start.
+   */
+  async generateIfDue(profiles: DigestProfile[]): Promise<WeeklyDigest | null> {
+    if (profiles.length === 0) return null;
+
+    const lastWeekStart = getWeekStart() - WEEK_MS;
+    if (this.getDigests().some(d => d.weekStart === lastWeekStart)) return null;
+
+    const digest = this.buildDigest(profiles, lastWeekStart);
+    this.saveDigest(digest);
+    console.log(`📬 Weekly parent digest created for ${new Date(lastWeekStart).toLocaleDateString()}`);
+
+    if (this.getSettings().emailOptIn) {
+      await this.emailDigest(digest);
+    }
+    return digest;
+  }
+
+  // ============ STORAGE ============
+
+  /**
+   * Saved weekly digests, newest first
+   */
+  getDigests(): WeeklyDigest[] {
+    try {
+      const stored = localStorage.getItem(DIGESTS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading parent digests:', error);
+      return [];
+    }
+  }
+
+  private saveDigest(digest: WeeklyDigest): void {
+    const digests = [digest, ...this.getDigests().filter(d => d.weekStart !== digest.weekStart)]
+      .sort((a, b) => b.weekStart - a.weekStart)
+      .slice(0, MAX_DIGESTS_STORED);
+    try {
+      localStorage.setItem(DIGESTS_KEY, JSON.stringify(digests));
+    } catch (error) {
+      console.error('Error saving parent digest:', error);
+    }
+  }
+
+  // ============ EMAIL ============
+
+  getSettings(): DigestSettings {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      if (stored) return JSON.parse(stored);
+    } catch (error) {
+      console.error('Error reading parent digest settings:', error);
+    }
+    return { email: authService.getUser()?.email || '', emailOptIn: false };
+  }
+
+  /**
+   * Opt in or out of the weekly email for the signed-in account. The backend keeps the
+   * preference alongside the email subscriber so it can be honored server-side too.
+   */
+  async setEmailOptIn(emailOptIn: boolean, parentName?: string): Promise<boolean> {
+    const token = authService.getToken();
+    if (!token) return false;
+
+    let settings: DigestSettings;
+    try {
+      const response = await fetch(`${getApiBaseUrl()}parent-digest/opt-in`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ enabled: emailOptIn, parentName }),
+      });
+      if (!response.ok) {
+        console.error('Parent digest opt-in failed:', response.status);
+        return false;
+      }
+      const data = await response.json();
+      settings = { email: data.email, emailOptIn };
+    } catch (error) {
+      console.error('Parent digest opt-in error:', error);
+      return false;
+    }
+
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    console.log(`📬 Weekly digest email ${emailOptIn ? 'enabled' : 'disabled'}`);
+    return true;
+  }
+
+  async emailDigest(digest: WeeklyDigest): Promise<boolean> {
+    const token = authService.getToken();
+    if (!this.getSettings().emailOptIn || !token) return false;
+
+    try {
+      const response = await fetch(`${getApiBaseUrl()}parent-digest/send`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ digest }),
+      });
+      if (!response.ok) {
+        console.error('Parent digest email failed:', response.status);
+        return false;
+      }
+      // Only snapshotted weeks are kept - the week in progress can be sent but isn't saved
+      const saved = this.getDigests().find(d => d.weekStart === digest.weekStart);
+      if (saved) this.saveDigest({ ...saved, emailedAt: Date.now() });
+      console.log('📧 Weekly parent digest emailed');
+      return true;
+    } catch (error) {
+      console.error('Parent digest email error:', error);
+      return false;
+    }
+  }
+}
+
+export const parentDigestService = new ParentDigestService();
@@ -0,0 +1,262 @@
+// Parent Gate Service - Challenges that keep kids out of purchases, settings and external links
+// Parents pick which challenge types are used. Repeated wrong answers lock the gate with escalating
+// cooldowns, and every attempt is logged on this device so parents can see attempted bypasses.
+import { parentalControlsService } from './parentalControlsService';
+import { profileService } from './profileService';
+
+const SETTINGS_KEY = 'godlykids_parent_gate_settings';
+const LOCKOUT_KEY = 'godlykids_parent_gate_lockout';
+const ATTEMPTS_KEY = 'godlykids_parent_gate_attempts';
+const MAX_ATTEMPTS_STORED = 100;
+
+// Wrong answers allowed before each lockout, and how long each successive lockout lasts
+const FAILURES_PER_LOCKOUT = 3;
+const LOCKOUT_DURATIONS_MS = [30 * 1000, 2 * 60 * 1000, 10 * 60 * 1000, 30 * 60 * 1000];
+
+const HOLD_TO_CONFIRM_MS = 3000;
+
+// Fired on window whenever settings, the lockout or the attempt log change
+export const PARENT_GATE_EVENT = 'parentGateChanged';
+
+export type GateChallengeType = 'multiplication' | 'writtenNumber' | 'holdToConfirm' | 'pin';
+
+export const GATE_CHALLENGE_TYPES: GateChallengeType[] = ['multiplication', 'writtenNumber', 'holdToConfirm', 'pin'];
+
+// What the gate was protecting - shown in the attempt log
+export type GatePurpose =
+  | 'general'
+  | 'settings'
+  | 'subscription'
+  | 'shopPurchase'
+  | 'giftCoins'
+  | 'externalLink'
+  | 'screenTime';
+
+export type GateResult = 'passed' | 'failed' | 'lockedOut' | 'cancelled';
+
+export interface GateChallenge {
+  type: GateChallengeType;
+  prompt: string;
+  answer: string | null; // null for the PIN (checked against the saved hash)
+  holdMs?: number;
+}
+
+export interface ParentGateSettings {
+  challengeTypes: GateChallengeType[];
+  requireForPurchases: boolean; // ask on every coin spend, gift and external link
+}
+
+export interface GateAttempt {
+  id: string;
+  timestamp: number;
+  purpose: GatePurpose;
+  challengeType: GateChallengeType;
+  result: GateResult;
+  profileId: string | null;
+}
+
+export interface GateLockout {
+  failures: number; // consecutive wrong answers since the last pass
+  lockouts: number; // lockouts since the last pass (drives the escalation)
+  lockedUntil: number;
+}
+
+const DEFAULT_SETTINGS: ParentGateSettings = {
+  challengeTypes: ['multiplication', 'writtenNumber'],
+  requireForPurchases: false,
+};
+
+const ONES = ['', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+// 21-99 only - written numbers kids can't just read off as digits
+const numberToWords = (n: number): string => {
+  const tens = TENS[Math.floor(n / 10)];
+  const ones = ONES[n % 10];
+  return ones ? `${tens}-${ones}` : tens;
+};
+
+// Lockout time left as m:ss
+export const formatLockoutCountdown = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const randomInt = (min: number, max: number): number => Math.floor(Math.random() * (max - min + 1)) + min;
+
+class ParentGateService {
+  // ============ SETTINGS ============
+
+  getSettings(): ParentGateSettings {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      if (stored) return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+    } catch (error) {
+      console.error('Error reading parent gate settings:', error);
+    }
+    return { ...DEFAULT_SETTINGS };
+  }
+
+  updateSettings(updates: Partial<ParentGateSettings>): ParentGateSettings {
+    const settings = { ...this.getSettings(), ...updates };
+    // Never leave the gate without a challenge
+    if (settings.challengeTypes.length === 0) settings.challengeTypes = [...DEFAULT_SETTINGS.challengeTypes];
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving parent gate settings:', error);
+    }
+    this.notify();
+    return settings;
+  }
+
+  isRequiredForPurchases(): boolean {
+    return this.getSettings().requireForPurchases;
+  }
+
+  private notify(): void {
+    window.dispatchEvent(new Event(PARENT_GATE_EVENT));
+  }
+
+  // ============ CHALLENGES ============
+
+  /**
+   * A random challenge of one of the enabled types.
+   * The PIN is only used once a parent PIN has been set up.
+   */
+  createChallenge(): GateChallenge {
+    const types = this.getSettings().challengeTypes.filter(type => type !== 'pin' || parentalControlsService.hasPin());
+    const type = types.length > 0 ? types[randomInt(0, types.length - 1)] : 'multiplication';
+
+    switch (type) {
+      case 'writtenNumber': {
+        const n = randomInt(21, 99);
+        return { type, prompt: numberToWords(n), answer: String(n) };
+      }
+      case 'holdToConfirm':
+        return { type, prompt: 'Press and hold the button', answer: null, holdMs: HOLD_TO_CONFIRM_MS };
+      case 'pin':
+        return this.createPinChallenge();
+      case 'multiplication':
+      default: {
+        const n1 = randomInt(6, 12);
+        const n2 = randomInt(6, 9);
+        return { type: 'multiplication', prompt: `${n1} × ${n2} = ?`, answer: String(n1 * n2) };
+      }
+    }
+  }
+
+  // The PIN on its own - for screens that always ask for the PIN rather than a random challenge
+  createPinChallenge(): GateChallenge {
+    return { type: 'pin', prompt: 'Enter your Parent PIN', answer: null };
+  }
+
+  private async isCorrect(challenge: GateChallenge, input: string): Promise<boolean> {
+    const value = input.trim();
+    if (challenge.type === 'pin') return parentalControlsService.verifyPin(value);
+    if (challenge.type === 'holdToConfirm') return (parseInt(value, 10) || 0) >= (challenge.holdMs || HOLD_TO_CONFIRM_MS);
+    return value.length > 0 && parseInt(value, 10) === parseInt(challenge.answer || '', 10);
+  }
+
+  /**
+   * Check an answer, log it and update the lockout.
+   * For holdToConfirm the input is how long the button was held (ms).
+   */
+  async submit(challenge: GateChallenge, input: string, purpose: GatePurpose = 'general'): Promise<GateResult> {
+    if (this.getLockoutRemainingMs() > 0) return 'lockedOut';
+
+    const lockout = this.getLockout();
+
+    if (await this.isCorrect(challenge, input)) {
+      this.saveLockout({ failures: 0, lockouts: 0, lockedUntil: 0 });
+      this.recordAttempt(purpose, challenge.type, 'passed');
+      return 'passed';
+    }
+
+    lockout.failures += 1;
+    let result: GateResult = 'failed';
+    if (lockout.failures % FAILURES_PER_LOCKOUT === 0) {
+      const duration = LOCKOUT_DURATIONS_MS[Math.min(lockout.lockouts, LOCKOUT_DURATIONS_MS.length - 1)];
+      lockout.lockouts += 1;
+      lockout.lockedUntil = Date.now() + duration;
+      result = 'lockedOut';
+      console.warn(`🔒 Parent gate locked for ${Math.round(duration / 1000)}s after ${lockout.failures} wrong answers`);
+    }
+    this.saveLockout(lockout);
+    this.recordAttempt(purpose, challenge.type, result);
+    return result;
+  }
+
+  // Gate closed without an answer
+  cancel(challenge: GateChallenge, purpose: GatePurpose = 'general'): void {
+    this.recordAttempt(purpose, challenge.type, 'cancelled');
+  }
+
+  // ============ LOCKOUT ============
+
+  getLockout(): GateLockout {
+    try {
+      const stored = localStorage.getItem(LOCKOUT_KEY);
+      if (stored) return JSON.parse(stored);
+    } catch (error) {
+      console.error('Error reading parent gate lockout:', error);
+    }
+    return { failures: 0, lockouts: 0, lockedUntil: 0 };
+  }
+
+  private saveLockout(lockout: GateLockout): void {
+    try {
+      localStorage.setItem(LOCKOUT_KEY, JSON.stringify(lockout));
+    } catch (error) {
+      console.error('Error saving parent gate lockout:', error);
+    }
+    this.notify();
+  }
+
+  getLockoutRemainingMs(): number {
+    return Math.max(0, this.getLockout().lockedUntil - Date.now());
+  }
+
+  // ============ ATTEMPT LOG ============
+
+  private recordAttempt(purpose: GatePurpose, challengeType: GateChallengeType, result: GateResult): void {
+    const attempt: GateAttempt = {
+      id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: Date.now(),
+      purpose,
+      challengeType,
+      result,
+      profileId: profileService.getCurrentProfileId(),
+    };
+    try {
+      const attempts = [attempt, ...this.getAttempts()].slice(0, MAX_ATTEMPTS_STORED);
+      localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(attempts));
+    } catch (error) {
+      console.error('Error saving parent gate attempt:', error);
+    }
+    this.notify();
+  }
+
+  /**
+   * Logged gate attempts, newest first
+   */
+  getAttempts(limit?: number): GateAttempt[] {
+    try {
+      const stored = localStorage.getItem(ATTEMPTS_KEY);
+      const attempts: GateAttempt[] = stored ? JSON.parse(stored) : [];
+      return limit ? attempts.slice(0, limit) : attempts;
+    } catch (error) {
+      console.error('Error reading parent gate attempts:', error);
+      return [];
+    }
+  }
+
+  clearAttempts(): void {
+    localStorage.removeItem(ATTEMPTS_KEY);
+    this.notify();
+  }
+}
+
+export const parentGateService = new ParentGateService();
@@ -0,0 +1,363 @@
+// Parental Controls Service - Per-kid screen time budget, allowed hours, content filters and feature toggles
+// Settings are family-wide (synced across devices) and keyed by kid profile id. The parent
+// profile is never restricted. Time used today comes from activityTrackingService.
+// The parent PIN stays on the device it was set on - only a salted PBKDF2 hash is stored.
+import { activityTrackingService } from './activityTrackingService';
+import { profileService } from './profileService';
+import { syncService } from './syncService';
+
+const CONTROLS_KEY = 'godlykids_parental_controls';
+const EXTENSIONS_KEY = 'godlykids_screen_time_extensions';
+// Earlier versions synced the PIN hash under this id - those records are ignored
+const PIN_RECORD_ID = '__pin';
+// Fixed salt of the earlier SHA-256 PIN hash, only used to upgrade a saved PIN
+const LEGACY_PIN_SALT = 'godlykids-parent-pin';
+const PIN_ITERATIONS = 310000;
+
+// Fired on window whenever controls, the PIN or time extensions change
+export const PARENTAL_CONTROLS_EVENT = 'parentalControlsChanged';
+
+export interface AllowedHours {
+  enabled: boolean;
+  start: string; // 'HH:MM' - app unlocks
+  end: string; // 'HH:MM' - bedtime, app locks
+}
+
+export interface ProfileControls {
+  dailyLimitMinutes: number | null; // null = unlimited
+  allowedHours: AllowedHours;
+  blockedCategories: string[];
+  maxAgeLevel: number | null; // hide content for kids older than this (e.g. 6 hides "8+"); null = any
+  disableShop: boolean;
+  disableGames: boolean;
+  disableComments: boolean;
+  updatedAt: number;
+}
+
+export type ScreenTimeState = 'ok' | 'timeLimit' | 'bedtime';
+
+export interface ScreenTimeStatus {
+  state: ScreenTimeState;
+  usedMinutes: number;
+  limitMinutes: number | null; // including today's extra time
+  remainingMinutes: number | null;
+}
+
+// Shape shared by books, playlists, series and episodes (app and API objects)
+export interface FilterableContent {
+  category?: unknown;
+  categories?: unknown;
+  level?: unknown;
+  minAge?: unknown;
+}
+
+interface StoredControls {
+  pinHash: string | null;
+  pinSalt: string | null; // hex, random per family; null = legacy hash
+  pinUpdatedAt: number;
+  profiles: Record<string, ProfileControls>;
+}
+
+interface TimeExtension {
+  date: string;
+  extraMinutes: number;
+  bedtimeOverrideUntil: number;
+}
+
+export const DEFAULT_PROFILE_CONTROLS: Omit<ProfileControls, 'updatedAt'> = {
+  dailyLimitMinutes: null,
+  allowedHours: { enabled: false, start: '07:00', end: '20:00' },
+  blockedCategories: [],
+  maxAgeLevel: null,
+  disableShop: false,
+  disableGames: false,
+  disableComments: false,
+};
+
+const todayString = (): string => {
+  const today = new Date();
+  return `${today.getFullYear()}-${today.getMonth() + 1}-${today.getDate()}`;
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(n => parseInt(n, 10) || 0);
+  return hours * 60 + minutes;
+};
+
+// Handles ranges that wrap past midnight (e.g. 18:00 - 02:00)
+const isWithinHours = ({ start, end }: AllowedHours, date: Date = new Date()): boolean => {
+  const now = date.getHours() * 60 + date.getMinutes();
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+  if (from === to) return true;
+  return from < to ? now >= from && now < to : now >= from || now < to;
+};
+
+const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array =>
+  new Uint8Array((hex.match(/../g) || []).map(byte => parseInt(byte, 16)));
+
+const newPinSalt = (): string => toHex(crypto.getRandomValues(new Uint8Array(16)));
+
+const hashPin = async (pin: string, salt: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(salt), iterations: PIN_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(bits);
+};
+
+const legacyHashPin = async (pin: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${LEGACY_PIN_SALT}:${pin}`));
+  return toHex(digest);
+};
+
+const contentCategories = (item: FilterableContent): string[] => {
+  if (Array.isArray(item.categories) && item.categories.length > 0) {
+    return item.categories.filter((c): c is string => typeof c === 'string');
+  }
+  return typeof item.category === 'string' ? [item.category] : [];
+};
+
+// Minimum age of a piece of content: minAge, or the number in a "5+" style level
+const contentMinAge = (item: FilterableContent): number | null => {
+  if (typeof item.minAge === 'number') return item.minAge;
+  if (typeof item.level === 'string') {
+    const age = parseInt(item.level, 10);
+    return isNaN(age) ? null : age;
+  }
+  return null;
+};
+
+class ParentalControlsService {
+  // ============ STORAGE ============
+
+  private getStored(): StoredControls {
+    try {
+      const stored = localStorage.getItem(CONTROLS_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        return { pinHash: null, pinSalt: null, pinUpdatedAt: 0, profiles: {}, ...parsed };
+      }
+    } catch (error) {
+      console.error('Error reading parental controls:', error);
+    }
+    return { pinHash: null, pinSalt: null, pinUpdatedAt: 0, profiles: {} };
+  }
+
+  private saveStored(stored: StoredControls): void {
+    try {
+      localStorage.setItem(CONTROLS_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving parental controls:', error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    window.dispatchEvent(new Event(PARENTAL_CONTROLS_EVENT));
+  }
+
+  // ============ PIN ============
+
+  hasPin(): boolean {
+    return !!this.getStored().pinHash;
+  }
+
+  async setPin(pin: string): Promise<void> {
+    const salt = newPinSalt();
+    const pinHash = await hashPin(pin, salt);
+    const stored = this.getStored();
+    stored.pinHash = pinHash;
+    stored.pinSalt = salt;
+    stored.pinUpdatedAt = Date.now();
+    this.saveStored(stored);
+    console.log('🔐 Parent PIN saved');
+  }
+
+  async verifyPin(pin: string): Promise<boolean> {
+    const { pinHash, pinSalt } = this.getStored();
+    if (!pinHash) return false;
+    if (pinSalt) return (await hashPin(pin, pinSalt)) === pinHash;
+
+    // PIN saved by an earlier version - re-hash it with a salt once it is entered correctly
+    if ((await legacyHashPin(pin)) !== pinHash) return false;
+    await this.setPin(pin);
+    return true;
+  }
+
+  // ============ PER-KID CONTROLS ============
+
+  getAllControls(): Record<string, ProfileControls> {
+    return this.getStored().profiles;
+  }
+
+  /**
+   * Controls for a kid profile (defaults if never configured)
+   */
+  getControls(profileId: string): ProfileControls {
+    const controls = this.getStored().profiles[profileId];
+    return { ...DEFAULT_PROFILE_CONTROLS, updatedAt: 0, ...controls };
+  }
+
+  // Controls of the active profile - null for the parent profile (never restricted)
+  getActiveControls(): ProfileControls | null {
+    const profileId = profileService.getCurrentProfileId();
+    return profileId ? this.getControls(profileId) : null;
+  }
+
+  updateControls(profileId: string, updates: Partial<Omit<ProfileControls, 'updatedAt'>>): ProfileControls {
+    const stored = this.getStored();
+    const controls: ProfileControls = { ...this.getControls(profileId), ...updates, updatedAt: Date.now() };
+    stored.profiles[profileId] = controls;
+    this.saveStored(stored);
+    syncService.recordChange('parentalControls', profileId, controls);
+    console.log(`🛡️ Parental controls updated for ${profileId}`);
+    return controls;
+  }
+
+  removeControls(profileId: string): void {
+    const stored = this.getStored();
+    if (!stored.profiles[profileId]) return;
+    delete stored.profiles[profileId];
+    this.saveStored(stored);
+    syncService.recordDeletion('parentalControls', profileId);
+  }
+
+  // Per-kid controls for seeding the sync journal (the PIN is never synced)
+  getSyncRecords(): Record<string, { value: any; updatedAt: number }> {
+    const stored = this.getStored();
+    const records: Record<string, { value: any; updatedAt: number }> = {};
+    Object.entries(stored.profiles).forEach(([profileId, controls]) => {
+      records[profileId] = { value: controls, updatedAt: controls.updatedAt || 0 };
+    });
+    return records;
+  }
+
+  // Apply a record from another device (does not record a change)
+  applySyncedRecord(id: string, value: any | null): void {
+    if (id === PIN_RECORD_ID) return;
+    const stored = this.getStored();
+    if (value) {
+      stored.profiles[id] = value;
+    } else {
+      delete stored.profiles[id];
+    }
+    this.saveStored(stored);
+  }
+
+  // ============ FEATURE TOGGLES ============
+
+  isShopDisabled(): boolean {
+    return !!this.getActiveControls()?.disableShop;
+  }
+
+  areGamesDisabled(): boolean {
+    return !!this.getActiveControls()?.disableGames;
+  }
+
+  areCommentsDisabled(): boolean {
+    return !!this.getActiveControls()?.disableComments;
+  }
+
+  // ============ CONTENT FILTERS ============
+
+  /**
+   * Whether content passes the active profile's category and age filters
+   */
+  isContentAllowed(item: FilterableContent | null | undefined): boolean {
+    const controls = this.getActiveControls();
+    if (!controls || !item) return true;
+
+    if (controls.blockedCategories.length > 0) {
+      const categories = contentCategories(item);
+      if (categories.some(c => controls.blockedCategories.includes(c))) return false;
+    }
+
+    if (controls.maxAgeLevel !== null) {
+      const minAge = contentMinAge(item);
+      if (minAge !== null && minAge > controls.maxAgeLevel) return false;
+    }
+
+    return true;
+  }
+
+  filterContent<T extends FilterableContent>(items: T[]): T[] {
+    if (!this.getActiveControls()) return items;
+    return items.filter(item => this.isContentAllowed(item));
+  }
+
+  // ============ SCREEN TIME ============
+
+  private getExtensions(): Record<string, TimeExtension> {
+    try {
+      const stored = localStorage.getItem(EXTENSIONS_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error reading screen time extensions:', error);
+      return {};
+    }
+  }
+
+  private getTodayExtension(profileId: string): TimeExtension {
+    const extension = this.getExtensions()[profileId];
+    const today = todayString();
+    if (extension && extension.date === today) return extension;
+    return { date: today, extraMinutes: 0, bedtimeOverrideUntil: 0 };
+  }
+
+  getStatus(profileId: string | null = profileService.getCurrentProfileId()): ScreenTimeStatus {
+    const usedMinutes = activityTrackingService.getTodayTimeSpentMinutes(profileId);
+    if (!profileId) {
+      return { state: 'ok', usedMinutes, limitMinutes: null, remainingMinutes: null };
+    }
+
+    const controls = this.getControls(profileId);
+    const extension = this.getTodayExtension(profileId);
+    const limitMinutes = controls.dailyLimitMinutes !== null
+      ? controls.dailyLimitMinutes + extension.extraMinutes
+      : null;
+    const remainingMinutes = limitMinutes !== null ? Math.max(0, limitMinutes - usedMinutes) : null;
+
+    let state: ScreenTimeState = 'ok';
+    if (controls.allowedHours.enabled && !isWithinHours(controls.allowedHours) && Date.now() >= extension.bedtimeOverrideUntil) {
+      state = 'bedtime';
+    } else if (remainingMinutes === 0) {
+      state = 'timeLimit';
+    }
+
+    return { state, usedMinutes, limitMinutes, remainingMinutes };
+  }
+
+  /**
+   * Parent-approved extra time for today. Extends the daily budget, or during
+   * bedtime lifts the lockout for the given number of minutes.
+   */
+  grantExtraTime(profileId: string, minutes: number): void {
+    const extension = this.getTodayExtension(profileId);
+    if (this.getStatus(profileId).state === 'bedtime') {
+      extension.bedtimeOverrideUntil = Date.now() + minutes * 60000;
+    } else {
+      extension.extraMinutes += minutes;
+    }
+    try {
+      localStorage.setItem(EXTENSIONS_KEY, JSON.stringify({ ...this.getExtensions(), [profileId]: extension }));
+    } catch (error) {
+      console.error('Error saving screen time extension:', error);
+    }
+    console.log(`⏰ Granted ${minutes} extra minutes to ${profileId}`);
+    this.notify();
+  }
+}
+
+export const parentalControlsService = new ParentalControlsService();
+
+syncService.registerStore('parentalControls', {
+  scope: 'family',
+  getRecords: () => parentalControlsService.getSyncRecords(),
+  applyRecord: (id, value) => parentalControlsService.applySyncedRecord(id, value),
+});
@@ -1,3 +1,5 @@
+import { DrawingDocument, decodeDrawingDocument, renderDrawingComposite } from '../utils/drawingDocument';
+
 export type PinnedColoring = {
   bookId: string;
   /** pageId passed to DrawingCanvas saveKey (e.g. "book-123-coloring-5") */
@@ -9,11 +11,17 @@ export type PinnedColoring = {
   backgroundUrl?: string;
   /** Whether we have a pre-composited image stored */
   hasComposite?: boolean;
+  /** Gallery copy of the picture (IndexedDB) - used when the composite didn't fit in localStorage */
+  artworkId?: string;
 };
 
 const PIN_PREFIX = 'godlykids_pinned_coloring_';
 const DRAWING_PREFIX = 'godlykids_coloring_';
 const COMPOSITE_PREFIX = 'godlykids_fridge_composite_';
+// Vector drawing documents saved by DrawingCanvas (see utils/drawingDocument)
+export const DRAWING_DOCUMENT_PREFIX = 'godlykids_coloring_doc_';
+// Width of fridge pictures rendered from a drawing document
+const DEFAULT_COMPOSITE_WIDTH = 1200;
 
 function storageKeyForBook(bookId: string) {
   return `${PIN_PREFIX}${bookId}`;
@@ -74,24 +82,73 @@ export const pinnedColoringService = {
     }
   },
 
+  getDrawingDocument(pageId: string): DrawingDocument | null {
+    try {
+      const raw = localStorage.getItem(`${DRAWING_DOCUMENT_PREFIX}${pageId}`);
+      return raw ? decodeDrawingDocument(raw) : null;
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * Render a page's saved drawing with its line art on top, at any width.
+   * Null when the page has no drawing document (only legacy bitmap progress).
+   */
+  async renderComposite(pageId: string, lineArtUrl?: string, width: number = DEFAULT_COMPOSITE_WIDTH): Promise<string | null> {
+    const doc = this.getDrawingDocument(pageId);
+    if (!doc) return null;
+    return renderDrawingComposite(doc, lineArtUrl, width);
+  },
+
+  /**
+   * Re-render the pinned picture of a book from its drawing document and store it
+   * as the new composite (e.g. for a sharper fridge picture on a bigger screen)
+   */
+  async regenerateComposite(bookId: string, width: number = DEFAULT_COMPOSITE_WIDTH): Promise<string | null> {
+    const pinned = this.getPinned(bookId);
+    if (!pinned) return null;
+    const composite = await this.renderComposite(pinned.pageId, pinned.backgroundUrl, width);
+    if (!composite) return null;
+    try {
+      localStorage.setItem(`${COMPOSITE_PREFIX}${bookId}`, composite);
+      localStorage.setItem(storageKeyForBook(bookId), JSON.stringify({ ...pinned, hasComposite: true }));
+    } catch (e) {
+      console.error('Failed to store regenerated composite:', e);
+    }
+    return composite;
+  },
+
   /**
-   * Pin with a pre-composited image (drawing + line art baked together)
+   * Pin with a pre-composited image (drawing + line art baked together).
+   * Keeping the line art URL lets the composite be regenerated later. If the
+   * composite doesn't fit in localStorage the pin still works from the gallery copy.
    */
-  pinWithComposite(pageId: string, compositeDataUrl: string): PinnedColoring | null {
+  pinWithComposite(pageId: string, compositeDataUrl: string, backgroundUrl?: string, artworkId?: string): PinnedColoring | null {
     const parsed = parseColoringPageId(pageId);
     if (!parsed) return null;
     
+    // Store the composite image
+    let hasComposite = true;
     try {
-      // Store the composite image
       localStorage.setItem(`${COMPOSITE_PREFIX}${parsed.bookId}`, compositeDataUrl);
-      
+    } catch (e) {
+      console.error('Failed to store composite image:', e);
+      localStorage.removeItem(`${COMPOSITE_PREFIX}${parsed.bookId}`);
+      hasComposite = false;
+      if (!artworkId) return null;
+    }
+    
+    try {
       // Store the pin record
       const pinned: PinnedColoring = {
         bookId: parsed.bookId,
         pageId,
         pageRef: parsed.pageRef,
         pinnedAt: Date.now(),
-        hasComposite: true,
+        backgroundUrl,
+        hasComposite,
+        artworkId,
       };
       localStorage.setItem(storageKeyForBook(parsed.bookId), JSON.stringify(pinned));
       return pinned;
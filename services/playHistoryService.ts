@@ -1,5 +1,6 @@
 // Play History Service - Tracks recently played playlists and songs PER PROFILE
 import { profileService } from './profileService';
+import { syncService } from './syncService';
 
 const BASE_KEY = 'godlykids_play_history';
 
@@ -43,6 +44,7 @@ class PlayHistoryService {
         itemId
       };
       localStorage.setItem(this.getKey(), JSON.stringify(allHistory));
+      syncService.recordChange('playHistory', playlistId, allHistory[playlistId]);
     } catch (error) {
       console.error('Error saving play history:', error);
     }
@@ -54,11 +56,27 @@ class PlayHistoryService {
       const allHistory = this.getAllHistory();
       delete allHistory[playlistId];
       localStorage.setItem(this.getKey(), JSON.stringify(allHistory));
+      syncService.recordDeletion('playHistory', playlistId);
     } catch (error) {
       console.error('Error clearing play history:', error);
     }
   }
 
+  // Write history that came from another device (no change recorded)
+  applySyncedHistory(playlistId: string, entry: PlayHistoryEntry | null): void {
+    try {
+      const allHistory = this.getAllHistory();
+      if (entry) {
+        allHistory[playlistId] = entry;
+      } else {
+        delete allHistory[playlistId];
+      }
+      localStorage.setItem(this.getKey(), JSON.stringify(allHistory));
+    } catch (error) {
+      console.error('Error applying synced play history:', error);
+    }
+  }
+
   // Clear all history for current profile
   clearAllHistory(): void {
     try {
@@ -92,3 +110,15 @@ class PlayHistoryService {
 }
 
 export const playHistoryService = new PlayHistoryService();
+
+syncService.registerStore('playHistory', {
+  scope: 'profile',
+  getRecords: () => {
+    const records: Record<string, { value: PlayHistoryEntry; updatedAt: number }> = {};
+    Object.values(playHistoryService.getAllHistory()).forEach(h => {
+      records[h.playlistId] = { value: h, updatedAt: h.lastPlayedAt };
+    });
+    return records;
+  },
+  applyRecord: (playlistId, value) => playHistoryService.applySyncedHistory(playlistId, value),
+});
@@ -0,0 +1,86 @@
+// Play Queue Service - Keeps the audio player's queue across app restarts
+// The WebView can be killed while audio is paused in the background; saving the queue
+// (and how far into the current track we were) lets the MiniPlayer come back where it was.
+// Device-wide rather than per profile, like the player itself - and so is the crossfade setting.
+import { PlayQueue } from '../utils/playQueue';
+
+const QUEUE_KEY = 'godlykids_play_queue';
+const PROGRESS_KEY = 'godlykids_play_queue_progress';
+const CROSSFADE_KEY = 'godlykids_crossfade_seconds';
+
+// Seconds songs overlap when one runs into the next (0 = back to back, still gapless)
+export const CROSSFADE_OPTIONS = [0, 3, 6, 9, 12];
+const DEFAULT_CROSSFADE = 3;
+
+export interface PlayQueueProgress {
+  queueId: string; // the entry currentTime belongs to
+  currentTime: number;
+  isPreviewMode: boolean;
+  previewSeconds: number; // free preview seconds already used
+}
+
+export interface SavedPlayQueue {
+  queue: PlayQueue;
+  progress: PlayQueueProgress | null;
+}
+
+class PlayQueueService {
+  load(): SavedPlayQueue | null {
+    try {
+      const stored = localStorage.getItem(QUEUE_KEY);
+      if (!stored) return null;
+      const queue: PlayQueue = JSON.parse(stored);
+      if (!Array.isArray(queue.entries) || !queue.playlists) return null;
+      const progress = localStorage.getItem(PROGRESS_KEY);
+      return { queue, progress: progress ? JSON.parse(progress) : null };
+    } catch (error) {
+      console.error('Error reading play queue:', error);
+      return null;
+    }
+  }
+
+  saveQueue(queue: PlayQueue): void {
+    try {
+      localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+    } catch (error) {
+      console.error('Error saving play queue:', error);
+    }
+  }
+
+  saveProgress(progress: PlayQueueProgress): void {
+    try {
+      localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+    } catch (error) {
+      console.error('Error saving play queue progress:', error);
+    }
+  }
+
+  clearProgress(): void {
+    try {
+      localStorage.removeItem(PROGRESS_KEY);
+    } catch (error) {
+      console.error('Error clearing play queue progress:', error);
+    }
+  }
+
+  getCrossfadeSeconds(): number {
+    try {
+      const stored = localStorage.getItem(CROSSFADE_KEY);
+      const seconds = stored === null ? DEFAULT_CROSSFADE : parseInt(stored, 10);
+      return CROSSFADE_OPTIONS.includes(seconds) ? seconds : DEFAULT_CROSSFADE;
+    } catch {
+      return DEFAULT_CROSSFADE;
+    }
+  }
+
+  setCrossfadeSeconds(seconds: number): void {
+    if (!CROSSFADE_OPTIONS.includes(seconds)) return;
+    try {
+      localStorage.setItem(CROSSFADE_KEY, String(seconds));
+    } catch (error) {
+      console.error('Error saving crossfade setting:', error);
+    }
+  }
+}
+
+export const playQueueService = new PlayQueueService();
@@ -0,0 +1,414 @@
+// Playlist Audio Engine - Two-deck playback for the playlist player
+//
+// A single <audio> element leaves a gap (and often a click) between tracks while the
+// next file loads. The engine keeps two decks: the next queue entry is preloaded on
+// the idle deck and then either crossfaded in (songs) or started the moment the
+// current one ends (audiobook chapters, gapless). Each deck has its own GainNode for
+// fades and per-item loudness normalization, and a master gain carries the sleep
+// timer fade, which iOS won't apply through element.volume.
+//
+// Like the book reader's music graph, a deck only goes through Web Audio once the
+// context has been unlocked by a tap, and only for sources that load with CORS (a
+// MediaElementSource on a non-CORS source plays silence). Anything else plays straight
+// from the element, with fades and normalization done through element.volume.
+
+export interface EngineTrack {
+  key: string; // queue entry id
+  url: string;
+  gainDb?: number; // loudness normalization measured by the portal
+  playbackRate?: number;
+}
+
+export type EngineEvent = 'timeupdate' | 'loadedmetadata' | 'ratechange' | 'seeked' | 'ended' | 'play' | 'pause';
+
+const ENGINE_EVENTS: EngineEvent[] = ['timeupdate', 'loadedmetadata', 'ratechange', 'seeked', 'ended', 'play', 'pause'];
+
+// Normalization never boosts more than this (the portal already keeps peaks below full scale)
+const MAX_GAIN_DB = 6;
+const MIN_GAIN_DB = -24;
+// How often levels are stepped while fading (element.volume fades, and to know when a fade is done)
+const FADE_TICK_MS = 50;
+
+interface Fade {
+  from: number;
+  to: number;
+  startedAt: number; // performance.now()
+  duration: number; // ms
+}
+
+interface Deck {
+  audio: HTMLAudioElement;
+  track: EngineTrack | null;
+  source: MediaElementAudioSourceNode | null; // set once the element is routed through Web Audio
+  gain: GainNode | null;
+  level: number; // fade level, 0-1
+  fade: Fade | null;
+}
+
+const getOrigin = (url: string): string | null => {
+  try {
+    return new URL(url, window.location.href).origin;
+  } catch {
+    return null;
+  }
+};
+
+const isCrossOrigin = (url: string): boolean => {
+  if (url.startsWith('blob:') || url.startsWith('data:')) return false;
+  const origin = getOrigin(url);
+  return !!origin && origin !== window.location.origin;
+};
+
+const dbToGain = (db?: number): number => {
+  if (db === undefined || !isFinite(db)) return 1;
+  return Math.pow(10, Math.max(MIN_GAIN_DB, Math.min(MAX_GAIN_DB, db)) / 20);
+};
+
+export class PlaylistAudioEngine {
+  private decks: [Deck, Deck];
+  private activeIndex = 0;
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private volume = 1;
+  private listeners = new Map<EngineEvent, Set<() => void>>();
+  // Hosts that failed to load with CORS - played without Web Audio from then on
+  private noCorsOrigins = new Set<string>();
+  private fadeTimer: number | null = null;
+  private crossfadeTimer: number | null = null;
+  private playRequested = false;
+
+  constructor() {
+    this.decks = [this.createDeck(), this.createDeck()];
+  }
+
+  /** The element of the deck that's playing (or about to) */
+  get audio(): HTMLAudioElement {
+    return this.activeDeck.audio;
+  }
+
+  /** Key of the track on the active deck */
+  get activeKey(): string | null {
+    return this.activeDeck.track?.key || null;
+  }
+
+  get isCrossfading(): boolean {
+    return this.crossfadeTimer !== null;
+  }
+
+  private get activeDeck(): Deck {
+    return this.decks[this.activeIndex];
+  }
+
+  private get idleDeck(): Deck {
+    return this.decks[1 - this.activeIndex];
+  }
+
+  /** Listen to the active deck's element (events from the idle deck are dropped) */
+  on(type: EngineEvent, handler: () => void): () => void {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(handler);
+    return () => this.listeners.get(type)?.delete(handler);
+  }
+
+  private emit(type: EngineEvent): void {
+    this.listeners.get(type)?.forEach(handler => handler());
+  }
+
+  // ============ DECKS ============
+
+  private createDeck(): Deck {
+    const deck: Deck = { audio: document.createElement('audio'), track: null, source: null, gain: null, level: 1, fade: null };
+    this.bindElement(deck);
+    return deck;
+  }
+
+  private bindElement(deck: Deck): void {
+    const audio = deck.audio;
+    audio.preload = 'auto';
+    ENGINE_EVENTS.forEach(type => {
+      audio.addEventListener(type, () => {
+        if (deck === this.activeDeck && deck.audio === audio) this.emit(type);
+      });
+    });
+    audio.addEventListener('error', () => this.handleError(deck, audio));
+  }
+
+  // A deck routed through Web Audio stays routed - swap in a fresh element to play a non-CORS source
+  private replaceElement(deck: Deck): void {
+    const old = deck.audio;
+    old.pause();
+    old.removeAttribute('src');
+    old.load();
+    deck.source?.disconnect();
+    deck.gain?.disconnect();
+    deck.source = null;
+    deck.gain = null;
+    deck.audio = document.createElement('audio');
+    this.bindElement(deck);
+  }
+
+  private loadDeck(deck: Deck, track: EngineTrack): void {
+    const origin = getOrigin(track.url);
+    const crossOrigin = isCrossOrigin(track.url);
+    const useCors = crossOrigin && !this.noCorsOrigins.has(origin || '');
+    if (crossOrigin && !useCors && deck.source) this.replaceElement(deck);
+
+    const audio = deck.audio;
+    if (useCors) {
+      audio.crossOrigin = 'anonymous';
+    } else {
+      audio.removeAttribute('crossorigin');
+    }
+    deck.track = track;
+    audio.src = track.url;
+    audio.load();
+    audio.defaultPlaybackRate = track.playbackRate || 1;
+    audio.playbackRate = audio.defaultPlaybackRate;
+    this.applyLevel(deck);
+  }
+
+  private stopDeck(deck: Deck): void {
+    deck.track = null;
+    deck.fade = null;
+    deck.audio.pause();
+    deck.audio.removeAttribute('src');
+    deck.audio.load();
+  }
+
+  private handleError(deck: Deck, audio: HTMLAudioElement): void {
+    const origin = deck.track ? getOrigin(deck.track.url) : null;
+    if (deck.audio !== audio || !deck.track || !origin || !audio.crossOrigin || this.noCorsOrigins.has(origin)) return;
+
+    // Most likely the host doesn't send CORS headers - play without Web Audio instead
+    console.log('🎵 No CORS on audio host, playing without Web Audio:', origin);
+    this.noCorsOrigins.add(origin);
+    this.loadDeck(deck, deck.track);
+    if (deck === this.activeDeck && this.playRequested) {
+      deck.audio.play().catch(e => console.log('Play failed:', e.name));
+    }
+  }
+
+  // ============ WEB AUDIO ============
+
+  /** Create/resume the AudioContext - call from a tap so iOS lets it start */
+  unlock(): void {
+    try {
+      if (!this.ctx) {
+        const Ctx = window.AudioContext || (window as any).webkitAudioContext;
+        if (!Ctx) return;
+        this.ctx = new Ctx();
+        this.master = this.ctx.createGain();
+        this.master.gain.value = this.volume;
+        this.master.connect(this.ctx.destination);
+      }
+      if (this.ctx.state === 'suspended') {
+        this.ctx.resume().catch(() => {
+          // Ignore - retried on the next play
+        });
+      }
+    } catch (e) {
+      console.log('Playlist AudioContext unavailable:', e);
+    }
+  }
+
+  // Route a stopped deck through its GainNode. Skipped until the context is running
+  // (connecting while suspended can leave it silent on iOS) and for non-CORS sources.
+  private wireDeck(deck: Deck): void {
+    const ctx = this.ctx;
+    const url = deck.track?.url;
+    if (deck.source || !ctx || !this.master || ctx.state !== 'running' || !url || !deck.audio.paused) return;
+    if (isCrossOrigin(url) && !deck.audio.crossOrigin) return;
+
+    try {
+      const gain = ctx.createGain();
+      gain.connect(this.master);
+      deck.source = ctx.createMediaElementSource(deck.audio);
+      deck.source.connect(gain);
+      deck.gain = gain;
+      deck.audio.volume = 1;
+      this.syncGainNode(deck);
+    } catch (e) {
+      console.log('🎵 Web Audio routing failed, using element volume:', e);
+      deck.source = null;
+      deck.gain = null;
+    }
+  }
+
+  // ============ LEVELS ============
+
+  private getLevel(deck: Deck): number {
+    const fade = deck.fade;
+    if (!fade) return deck.level;
+    const t = Math.min(1, (performance.now() - fade.startedAt) / fade.duration);
+    return fade.from + (fade.to - fade.from) * t;
+  }
+
+  // Put a routed deck's GainNode at its current level, continuing any fade in progress
+  private syncGainNode(deck: Deck): void {
+    if (!deck.gain || !this.ctx) return;
+    const itemGain = dbToGain(deck.track?.gainDb);
+    const now = this.ctx.currentTime;
+    const param = deck.gain.gain;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(this.getLevel(deck) * itemGain, now);
+    if (deck.fade) {
+      const remaining = Math.max(0, deck.fade.startedAt + deck.fade.duration - performance.now()) / 1000;
+      param.linearRampToValueAtTime(deck.fade.to * itemGain, now + remaining);
+    }
+  }
+
+  private applyLevel(deck: Deck): void {
+    if (deck.gain && this.ctx) {
+      this.syncGainNode(deck);
+      return;
+    }
+    const target = this.getLevel(deck) * dbToGain(deck.track?.gainDb) * this.volume;
+    deck.audio.volume = Math.max(0, Math.min(1, target));
+  }
+
+  private setLevel(deck: Deck, level: number): void {
+    deck.fade = null;
+    deck.level = level;
+    this.applyLevel(deck);
+  }
+
+  private fadeDeck(deck: Deck, from: number, to: number, seconds: number): void {
+    deck.level = to;
+    deck.fade = { from, to, startedAt: performance.now(), duration: seconds * 1000 };
+    this.applyLevel(deck);
+
+    if (this.fadeTimer !== null) return;
+    this.fadeTimer = window.setInterval(() => {
+      let fading = false;
+      this.decks.forEach(d => {
+        if (!d.fade) return;
+        if (performance.now() - d.fade.startedAt >= d.fade.duration) {
+          d.fade = null;
+        } else {
+          fading = true;
+        }
+        if (!d.gain) this.applyLevel(d);
+      });
+      if (!fading && this.fadeTimer !== null) {
+        window.clearInterval(this.fadeTimer);
+        this.fadeTimer = null;
+      }
+    }, FADE_TICK_MS);
+  }
+
+  /** Overall volume (the sleep timer fade) */
+  setVolume(volume: number): void {
+    this.volume = Math.max(0, Math.min(1, volume));
+    if (this.master && this.ctx) {
+      this.master.gain.setTargetAtTime(this.volume, this.ctx.currentTime, 0.1);
+    }
+    this.decks.forEach(deck => {
+      if (!deck.gain) this.applyLevel(deck);
+    });
+  }
+
+  // ============ PLAYBACK ============
+
+  /**
+   * Load a track onto the active deck. If it's the one preloaded on the idle deck,
+   * that deck takes over instead and true is returned (its metadata is already loaded).
+   */
+  load(track: EngineTrack): boolean {
+    this.finishCrossfade();
+    const idle = this.idleDeck;
+    if (idle.track?.key === track.key && !idle.audio.error) {
+      this.stopDeck(this.activeDeck);
+      this.activeIndex = 1 - this.activeIndex;
+      this.setLevel(this.activeDeck, 1);
+      return true;
+    }
+    this.stopDeck(idle);
+    this.loadDeck(this.activeDeck, track);
+    this.setLevel(this.activeDeck, 1);
+    return false;
+  }
+
+  /** Buffer the track that plays next on the idle deck (null drops whatever is there) */
+  preload(track: EngineTrack | null): void {
+    // The idle deck is still fading out - asked again once the crossfade is done
+    if (this.isCrossfading) return;
+    const idle = this.idleDeck;
+    if (!track) {
+      if (idle.track) this.stopDeck(idle);
+      return;
+    }
+    if (idle.track?.key === track.key) return;
+    this.loadDeck(idle, track);
+  }
+
+  isPreloaded(key: string): boolean {
+    const idle = this.idleDeck;
+    return !this.isCrossfading && idle.track?.key === key && !idle.audio.error;
+  }
+
+  /**
+   * Start the preloaded track, crossfading over `fadeSeconds` (0 = straight handoff,
+   * for gapless chapters). Returns false if that track isn't preloaded.
+   */
+  playPreloaded(key: string, fadeSeconds: number): boolean {
+    if (!this.isPreloaded(key)) return false;
+    const outgoing = this.activeDeck;
+    this.activeIndex = 1 - this.activeIndex;
+    const incoming = this.activeDeck;
+    // Routed before the fade starts so the ramp lands on its GainNode
+    this.unlock();
+    this.wireDeck(incoming);
+
+    if (fadeSeconds > 0 && !outgoing.audio.paused) {
+      this.fadeDeck(incoming, 0, 1, fadeSeconds);
+      this.fadeDeck(outgoing, this.getLevel(outgoing), 0, fadeSeconds);
+      this.crossfadeTimer = window.setTimeout(() => this.finishCrossfade(), fadeSeconds * 1000);
+    } else {
+      this.stopDeck(outgoing);
+      this.setLevel(incoming, 1);
+    }
+
+    this.play().catch(e => console.log('Handoff play failed:', e.name));
+    return true;
+  }
+
+  // Cut a crossfade short: the outgoing deck stops and the active one is at full level
+  private finishCrossfade(): void {
+    if (this.crossfadeTimer === null) return;
+    window.clearTimeout(this.crossfadeTimer);
+    this.crossfadeTimer = null;
+    this.stopDeck(this.idleDeck);
+    this.setLevel(this.activeDeck, 1);
+  }
+
+  play(): Promise<void> {
+    this.playRequested = true;
+    this.unlock();
+    const deck = this.activeDeck;
+    this.wireDeck(deck);
+    return deck.audio.play();
+  }
+
+  pause(): void {
+    this.playRequested = false;
+    this.finishCrossfade();
+    this.activeDeck.audio.pause();
+  }
+
+  /** Stop both decks and unload them */
+  stop(): void {
+    this.playRequested = false;
+    this.finishCrossfade();
+    this.decks.forEach(deck => this.stopDeck(deck));
+  }
+
+  destroy(): void {
+    this.stop();
+    if (this.fadeTimer !== null) window.clearInterval(this.fadeTimer);
+    this.fadeTimer = null;
+    this.listeners.clear();
+    this.ctx?.close().catch(() => {});
+    this.ctx = null;
+    this.master = null;
+  }
+}
@@ -0,0 +1,192 @@
+// Quiz Bank Service - Every book quiz question a kid has answered, PER PROFILE
+// Keeps the answer chosen and how long it took, so later attempts can re-ask what was
+// missed, the quiz difficulty can follow the kid's rolling accuracy, and parents can
+// go over the wrong answers together.
+import { profileService } from './profileService';
+
+const BASE_KEY = 'godlykids_quiz_bank';
+const MAX_ANSWERS_STORED = 500;
+
+// Difficulty moves one step at a time, judged on the most recent answers
+const ROLLING_WINDOW = 20;
+const MIN_ANSWERS_TO_ADJUST = 6;
+const RAISE_ACCURACY = 0.85;
+const LOWER_ACCURACY = 0.5;
+
+// Missed questions re-asked at the end of a later attempt
+const MAX_REVIEW_QUESTIONS = 2;
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export const QUIZ_DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+export interface QuizBankQuestion {
+  question: string;
+  options: Array<{ text: string; isCorrect: boolean }>;
+}
+
+export interface QuizAnswer {
+  id: string;
+  bookId: string;
+  bookTitle: string;
+  question: string;
+  options: string[];
+  correctIndex: number;
+  chosenIndex: number;
+  isCorrect: boolean;
+  timeMs: number;
+  difficulty: QuizDifficulty;
+  attemptNumber: number;
+  isReview: boolean; // a missed question asked again
+  answeredAt: number;
+  resolvedAt: number | null; // for misses: when it was later answered correctly
+}
+
+export type NewQuizAnswer = Omit<QuizAnswer, 'id' | 'answeredAt' | 'resolvedAt'>;
+
+interface QuizBank {
+  answers: QuizAnswer[]; // newest first
+  difficulty: QuizDifficulty;
+}
+
+const sameQuestion = (a: { bookId: string; question: string }, b: { bookId: string; question: string }) =>
+  a.bookId === b.bookId && a.question.trim().toLowerCase() === b.question.trim().toLowerCase();
+
+// One age group younger/older than the kid - the quiz backend writes questions per age group
+const AGE_GROUP_AGES = [4, 7, 10];
+
+export const getQuizAge = (kidAge: number, difficulty: QuizDifficulty): number => {
+  const group = kidAge <= 5 ? 0 : kidAge <= 8 ? 1 : 2;
+  const shift = difficulty === 'easy' ? -1 : difficulty === 'hard' ? 1 : 0;
+  const target = Math.max(0, Math.min(AGE_GROUP_AGES.length - 1, group + shift));
+  return target === group ? kidAge : AGE_GROUP_AGES[target];
+};
+
+class QuizBankService {
+  private getKey(profileId?: string | null): string {
+    const id = profileId === undefined ? profileService.getCurrentProfileId() : profileId;
+    return `${BASE_KEY}_${id || 'parent'}`;
+  }
+
+  private getBank(profileId?: string | null): QuizBank {
+    try {
+      const stored = localStorage.getItem(this.getKey(profileId));
+      if (stored) return { answers: [], difficulty: 'medium', ...JSON.parse(stored) };
+    } catch (error) {
+      console.error('Error reading quiz bank:', error);
+    }
+    return { answers: [], difficulty: 'medium' };
+  }
+
+  private saveBank(bank: QuizBank, profileId?: string | null): void {
+    try {
+      localStorage.setItem(this.getKey(profileId), JSON.stringify(bank));
+    } catch (error) {
+      console.error('Error saving quiz bank:', error);
+    }
+  }
+
+  // ============ RECORDING ============
+
+  /**
+   * Store the answers from a submitted quiz, mark re-asked misses that were
+   * answered correctly as resolved, and adjust the difficulty for next time.
+   */
+  recordAnswers(answers: NewQuizAnswer[]): QuizDifficulty {
+    const bank = this.getBank();
+    const now = Date.now();
+
+    answers.forEach((answer, index) => {
+      if (answer.isCorrect) {
+        bank.answers.forEach(previous => {
+          if (!previous.isCorrect && previous.resolvedAt === null && sameQuestion(previous, answer)) {
+            previous.resolvedAt = now;
+          }
+        });
+      }
+      bank.answers.unshift({
+        ...answer,
+        id: `${now}_${index}_${Math.random().toString(36).slice(2, 8)}`,
+        answeredAt: now,
+        resolvedAt: null,
+      });
+    });
+    bank.answers = bank.answers.slice(0, MAX_ANSWERS_STORED);
+
+    const previousDifficulty = bank.difficulty;
+    bank.difficulty = this.nextDifficulty(bank);
+    this.saveBank(bank);
+
+    if (bank.difficulty !== previousDifficulty) {
+      console.log(`🎯 Quiz difficulty ${previousDifficulty} → ${bank.difficulty}`);
+    }
+    return bank.difficulty;
+  }
+
+  // ============ DIFFICULTY ============
+
+  getDifficulty(profileId?: string | null): QuizDifficulty {
+    return this.getBank(profileId).difficulty;
+  }
+
+  /**
+   * Share of the most recent (non-review) answers that were correct, null until there are enough
+   */
+  getRollingAccuracy(profileId?: string | null): number | null {
+    return this.computeAccuracy(this.getBank(profileId).answers);
+  }
+
+  private computeAccuracy(answers: QuizAnswer[]): number | null {
+    const recent = answers.filter(a => !a.isReview).slice(0, ROLLING_WINDOW);
+    if (recent.length < MIN_ANSWERS_TO_ADJUST) return null;
+    return recent.filter(a => a.isCorrect).length / recent.length;
+  }
+
+  private nextDifficulty(bank: QuizBank): QuizDifficulty {
+    const accuracy = this.computeAccuracy(bank.answers);
+    const index = QUIZ_DIFFICULTIES.indexOf(bank.difficulty);
+    if (accuracy === null) return bank.difficulty;
+    if (accuracy >= RAISE_ACCURACY) return QUIZ_DIFFICULTIES[Math.min(index + 1, QUIZ_DIFFICULTIES.length - 1)];
+    if (accuracy <= LOWER_ACCURACY) return QUIZ_DIFFICULTIES[Math.max(index - 1, 0)];
+    return bank.difficulty;
+  }
+
+  // ============ MISSED QUESTIONS ============
+
+  /**
+   * Missed questions of a book that haven't been answered correctly since,
+   * with the options reshuffled - to be asked again on the next attempt
+   */
+  getReviewQuestions(bookId: string, limit: number = MAX_REVIEW_QUESTIONS): QuizBankQuestion[] {
+    const unique: QuizAnswer[] = [];
+    this.getIncorrectAnswers().forEach(answer => {
+      if (answer.bookId === bookId && !unique.some(u => sameQuestion(u, answer))) unique.push(answer);
+    });
+
+    return unique.slice(0, limit).map(answer => {
+      const options = answer.options.map((text, i) => ({ text, isCorrect: i === answer.correctIndex }));
+      for (let i = options.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [options[i], options[j]] = [options[j], options[i]];
+      }
+      return { question: answer.question, options };
+    });
+  }
+
+  /**
+   * Wrong answers still to be learned, newest first - for parents to go over
+   */
+  getIncorrectAnswers(profileId?: string | null): QuizAnswer[] {
+    return this.getBank(profileId).answers.filter(a => !a.isCorrect && a.resolvedAt === null);
+  }
+
+  getAnswers(profileId?: string | null): QuizAnswer[] {
+    return this.getBank(profileId).answers;
+  }
+
+  clearBank(profileId: string): void {
+    localStorage.removeItem(this.getKey(profileId));
+  }
+}
+
+export const quizBankService = new QuizBankService();
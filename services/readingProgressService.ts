@@ -1,5 +1,6 @@
 // Reading Progress Service - Tracks reading progress for each book PER PROFILE
 import { profileService } from './profileService';
+import { syncService } from './syncService';
 
 const BASE_KEY = 'godlykids_reading_progress';
 
@@ -43,6 +44,7 @@ class ReadingProgressService {
         lastReadAt: Date.now()
       };
       localStorage.setItem(this.getKey(), JSON.stringify(allProgress));
+      syncService.recordChange('readingProgress', bookId, allProgress[bookId]);
     } catch (error) {
       console.error('Error saving progress:', error);
     }
@@ -54,11 +56,27 @@ class ReadingProgressService {
       const allProgress = this.getAllProgress();
       delete allProgress[bookId];
       localStorage.setItem(this.getKey(), JSON.stringify(allProgress));
+      syncService.recordDeletion('readingProgress', bookId);
     } catch (error) {
       console.error('Error clearing progress:', error);
     }
   }
 
+  // Write progress that came from another device (no change recorded)
+  applySyncedProgress(bookId: string, progress: ReadingProgress | null): void {
+    try {
+      const allProgress = this.getAllProgress();
+      if (progress) {
+        allProgress[bookId] = progress;
+      } else {
+        delete allProgress[bookId];
+      }
+      localStorage.setItem(this.getKey(), JSON.stringify(allProgress));
+    } catch (error) {
+      console.error('Error applying synced progress:', error);
+    }
+  }
+
   // Clear all progress for current profile
   clearAllProgress(): void {
     try {
@@ -84,3 +102,15 @@ class ReadingProgressService {
 }
 
 export const readingProgressService = new ReadingProgressService();
+
+syncService.registerStore('readingProgress', {
+  scope: 'profile',
+  getRecords: () => {
+    const records: Record<string, { value: ReadingProgress; updatedAt: number }> = {};
+    Object.values(readingProgressService.getAllProgress()).forEach(p => {
+      records[p.bookId] = { value: p, updatedAt: p.lastReadAt };
+    });
+    return records;
+  },
+  applyRecord: (bookId, value) => readingProgressService.applySyncedProgress(bookId, value),
+});
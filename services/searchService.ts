@@ -0,0 +1,504 @@
+// Search Service - Offline-capable full-text search across books, series, playlists, episodes and lessons
+// The index is built on the client from the same data the browse pages load (ApiService caches),
+// persisted to localStorage so search keeps working without connectivity, and matched with
+// prefix + typo tolerance. Book page text is indexed as books are opened or downloaded offline.
+
+import { Book } from '../types';
+import { ApiService } from './apiService';
+import { offlineBookService } from './offlineBookService';
+import { profileService } from './profileService';
+import type { ApiBookSeries, ApiLesson, ApiPage, ApiPlaylist } from '../shared/api';
+
+const INDEX_KEY = 'godlykids_search_index';
+const PAGE_TEXT_KEY = 'godlykids_search_page_text';
+const RECENT_SEARCHES_KEY = 'godlykids_recent_searches'; // per profile
+const INDEX_VERSION = 1;
+const MAX_RECENT_SEARCHES = 8;
+const MAX_PAGE_TEXT_LENGTH = 4000; // per book - keeps the persisted index small
+const MAX_RESULTS_PER_GROUP = 20;
+
+export type SearchResultType = 'book' | 'series' | 'playlist' | 'episode' | 'lesson';
+
+// Display order of the result groups
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['book', 'series', 'playlist', 'episode', 'lesson'];
+
+export type SearchField = 'title' | 'author' | 'description' | 'items' | 'text';
+
+export interface SearchDocument {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  author?: string;
+  description?: string;
+  // Playlist item titles (playlists) or the parent playlist title (episodes)
+  items?: string;
+  coverUrl?: string;
+  isMembersOnly: boolean;
+  // App route the result opens
+  route: string;
+}
+
+export interface SearchResult {
+  doc: SearchDocument;
+  score: number;
+  matchedField: SearchField;
+  // Short excerpt around the match for description/page text matches
+  snippet?: string;
+}
+
+export interface SearchResultGroup {
+  type: SearchResultType;
+  results: SearchResult[];
+}
+
+export interface SearchOptions {
+  // Whether members-only content is unlocked; locked books are only matched on their metadata
+  canAccessPremium: boolean;
+}
+
+interface StoredIndex {
+  version: number;
+  builtAt: number;
+  docs: SearchDocument[];
+}
+
+interface IndexedDocument {
+  doc: SearchDocument;
+  normalizedTitle: string;
+  tokens: Record<SearchField, string[]>;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  author: 5,
+  items: 4,
+  description: 3,
+  text: 2,
+};
+
+// Quality of a single token match
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const TYPO_MATCH = 0.6;
+
+/**
+ * Lowercase, strip accents and punctuation - "Noah's Ark!" -> "noahs ark"
+ */
+export const normalizeSearchText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const tokenize = (text: string | undefined): string[] =>
+  text ? Array.from(new Set(normalizeSearchText(text).split(' ').filter(Boolean))) : [];
+
+// Short words need to be exact, longer words tolerate one or two typos
+const allowedEdits = (token: string): number => {
+  if (token.length >= 8) return 2;
+  if (token.length >= 4) return 1;
+  return 0;
+};
+
+/**
+ * Levenshtein distance with an early exit once it exceeds maxDistance
+ */
+const editDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const matchToken = (queryToken: string, fieldTokens: string[]): number => {
+  const maxEdits = allowedEdits(queryToken);
+  let best = 0;
+  for (const token of fieldTokens) {
+    if (token === queryToken) return EXACT_MATCH;
+    if (queryToken.length >= 2 && token.startsWith(queryToken)) {
+      best = Math.max(best, PREFIX_MATCH);
+    } else if (best < TYPO_MATCH && maxEdits > 0) {
+      // Also compare against the token's prefix so "noha" still finds "noahs"
+      const candidate = token.length > queryToken.length + maxEdits ? token.slice(0, queryToken.length) : token;
+      if (editDistance(queryToken, candidate, maxEdits) <= maxEdits) {
+        best = TYPO_MATCH;
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Excerpt of the original text around the first occurrence of a query token
+ */
+const buildSnippet = (text: string, queryTokens: string[]): string | undefined => {
+  const lower = text.toLowerCase();
+  const hit = queryTokens
+    .map(token => lower.indexOf(token))
+    .filter(index => index >= 0)
+    .sort((a, b) => a - b)[0];
+  if (hit === undefined) return undefined;
+  const start = Math.max(0, hit - 40);
+  const end = Math.min(text.length, hit + 80);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+// Text of every text box on the reader pages of a book
+const extractPageText = (pages: ApiPage[]): string =>
+  pages
+    .filter(page => !page.isColoringPage)
+    .flatMap(page => [
+      page.content?.text,
+      ...(page.content?.textBoxes || page.textBoxes || []).map(box => box.text),
+    ])
+    .filter((text): text is string => !!text && text.trim().length > 0)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .slice(0, MAX_PAGE_TEXT_LENGTH);
+
+// ============ DOCUMENT BUILDERS ============
+
+const bookDocument = (book: Book): SearchDocument => ({
+  type: 'book',
+  id: book.id,
+  title: book.title,
+  author: book.author && book.author !== 'Unknown' ? book.author : undefined,
+  description: book.description,
+  coverUrl: book.coverUrl,
+  isMembersOnly: !!book.isMembersOnly,
+  route: `/book/${book.id}`,
+});
+
+const seriesDocument = (series: ApiBookSeries): SearchDocument => ({
+  type: 'series',
+  id: series._id,
+  title: series.title,
+  author: series.author,
+  description: series.description,
+  coverUrl: series.coverImage,
+  isMembersOnly: !!series.isMembersOnly,
+  route: `/book-series/${series._id}`,
+});
+
+const playlistDocuments = (playlist: ApiPlaylist): SearchDocument[] => {
+  const items = playlist.items || [];
+  return [
+    {
+      type: 'playlist',
+      id: playlist._id,
+      title: playlist.title,
+      author: playlist.author,
+      description: playlist.description,
+      items: items.map(item => item.title).join(' · '),
+      coverUrl: playlist.coverImage,
+      isMembersOnly: !!playlist.isMembersOnly,
+      route: `/audio/playlist/${playlist._id}`,
+    },
+    ...items.map((item, index): SearchDocument => ({
+      type: 'episode',
+      id: `${playlist._id}:${item._id}`,
+      title: item.title,
+      author: item.author || playlist.author,
+      description: item.description,
+      items: playlist.title,
+      coverUrl: item.coverImage || playlist.coverImage,
+      isMembersOnly: !!(item.isMembersOnly || playlist.isMembersOnly),
+      route: `/audio/playlist/${playlist._id}/play/${index}`,
+    })),
+  ];
+};
+
+const lessonDocument = (lesson: ApiLesson): SearchDocument => ({
+  type: 'lesson',
+  id: lesson._id,
+  title: lesson.title,
+  description: lesson.description,
+  coverUrl: lesson.video?.thumbnail,
+  isMembersOnly: false,
+  route: `/lesson/${lesson._id}`,
+});
+
+class SearchService {
+  private docs: SearchDocument[] = [];
+  private pageText: Record<string, string> = {};
+  private indexed: IndexedDocument[] | null = null;
+  private builtAt = 0;
+  private refreshPromise: Promise<void> | null = null;
+  private listeners: Array<() => void> = [];
+
+  constructor() {
+    this.loadStoredIndex();
+  }
+
+  // ============ INDEX ============
+
+  private loadStoredIndex(): void {
+    try {
+      const stored = localStorage.getItem(INDEX_KEY);
+      if (stored) {
+        const parsed: StoredIndex = JSON.parse(stored);
+        if (parsed.version === INDEX_VERSION && Array.isArray(parsed.docs)) {
+          this.docs = parsed.docs;
+          this.builtAt = parsed.builtAt || 0;
+        }
+      }
+      const pageText = localStorage.getItem(PAGE_TEXT_KEY);
+      if (pageText) this.pageText = JSON.parse(pageText);
+    } catch (error) {
+      console.error('Error loading search index:', error);
+    }
+  }
+
+  private saveIndex(): void {
+    try {
+      const stored: StoredIndex = { version: INDEX_VERSION, builtAt: this.builtAt, docs: this.docs };
+      localStorage.setItem(INDEX_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving search index:', error);
+    }
+  }
+
+  private savePageText(): void {
+    try {
+      localStorage.setItem(PAGE_TEXT_KEY, JSON.stringify(this.pageText));
+    } catch (error) {
+      console.error('Error saving search page text:', error);
+    }
+  }
+
+  private invalidate(): void {
+    this.indexed = null;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private getIndexed(): IndexedDocument[] {
+    if (!this.indexed) {
+      this.indexed = this.docs.map(doc => ({
+        doc,
+        normalizedTitle: normalizeSearchText(doc.title),
+        tokens: {
+          title: tokenize(doc.title),
+          author: tokenize(doc.author),
+          description: tokenize(doc.description),
+          items: tokenize(doc.items),
+          text: doc.type === 'book' ? tokenize(this.pageText[doc.id]) : [],
+        },
+      }));
+    }
+    return this.indexed;
+  }
+
+  /**
+   * Rebuild the index from the latest content. Each source falls back to the
+   * previously indexed documents of its type when it can't be loaded (offline).
+   * Pass the books already loaded by BooksContext to avoid fetching them again.
+   */
+  refresh(books?: Book[]): Promise<void> {
+    if (this.refreshPromise) return this.refreshPromise;
+
+    this.refreshPromise = (async () => {
+      const [bookResult, seriesResult, playlistResult, lessonResult] = await Promise.allSettled([
+        books && books.length > 0 ? Promise.resolve(books) : ApiService.getBooks(),
+        ApiService.getBookSeries(),
+        ApiService.getPlaylists('published'),
+        ApiService.getLessons(),
+      ]);
+
+      const previous = (type: SearchResultType) => this.docs.filter(doc => doc.type === type);
+      const fresh = <T>(result: PromiseSettledResult<T[]>): T[] | null =>
+        result.status === 'fulfilled' && result.value.length > 0 ? result.value : null;
+
+      const bookList = fresh(bookResult);
+      const seriesList = fresh(seriesResult);
+      const playlistList = fresh(playlistResult);
+      const lessonList = fresh(lessonResult);
+
+      this.docs = [
+        ...(bookList ? bookList.map(bookDocument) : previous('book')),
+        ...(seriesList ? seriesList.map(seriesDocument) : previous('series')),
+        ...(playlistList
+          ? playlistList.flatMap(playlistDocuments)
+          : [...previous('playlist'), ...previous('episode')]),
+        ...(lessonList ? lessonList.map(lessonDocument) : previous('lesson')),
+      ];
+      this.builtAt = Date.now();
+      this.saveIndex();
+
+      await this.indexOfflinePacks();
+      this.invalidate();
+      console.log(`🔎 Search index built: ${this.docs.length} documents`);
+    })().finally(() => {
+      this.refreshPromise = null;
+    });
+
+    return this.refreshPromise;
+  }
+
+  // Page text of books downloaded for offline reading
+  private async indexOfflinePacks(): Promise<void> {
+    try {
+      const packs = await offlineBookService.getAllPacks();
+      let changed = false;
+      packs.forEach(pack => {
+        if (this.pageText[pack.bookId]) return;
+        const text = extractPageText(pack.pages || []);
+        if (text) {
+          this.pageText[pack.bookId] = text;
+          changed = true;
+        }
+      });
+      if (changed) this.savePageText();
+    } catch (error) {
+      console.warn('Could not index offline book packs:', error);
+    }
+  }
+
+  /**
+   * Index the text of a book's pages (called whenever pages are loaded)
+   */
+  indexBookPages(bookId: string, pages: ApiPage[]): void {
+    const text = extractPageText(pages);
+    if (!text || this.pageText[bookId] === text) return;
+    this.pageText[bookId] = text;
+    this.savePageText();
+    this.invalidate();
+  }
+
+  hasIndex(): boolean {
+    return this.docs.length > 0;
+  }
+
+  getLastBuiltAt(): number {
+    return this.builtAt;
+  }
+
+  // Subscribe to index changes (e.g. to re-run the current query)
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // ============ QUERY ============
+
+  search(query: string, options: SearchOptions): SearchResultGroup[] {
+    const normalizedQuery = normalizeSearchText(query);
+    const queryTokens = tokenize(query);
+    if (queryTokens.length === 0) return [];
+
+    const results: SearchResult[] = [];
+
+    this.getIndexed().forEach(({ doc, normalizedTitle, tokens }) => {
+      // Locked books are found by title/author/description, but their text stays hidden
+      const searchable: SearchField[] = doc.isMembersOnly && !options.canAccessPremium
+        ? ['title', 'author', 'description', 'items']
+        : ['title', 'author', 'description', 'items', 'text'];
+
+      let score = 0;
+      let bestField: SearchField = 'title';
+      let bestFieldScore = 0;
+
+      // Every query word has to match somewhere in the document
+      for (const queryToken of queryTokens) {
+        let tokenScore = 0;
+        let tokenField: SearchField = 'title';
+        for (const field of searchable) {
+          const fieldScore = matchToken(queryToken, tokens[field]) * FIELD_WEIGHTS[field];
+          if (fieldScore > tokenScore) {
+            tokenScore = fieldScore;
+            tokenField = field;
+          }
+        }
+        if (tokenScore === 0) return;
+        score += tokenScore;
+        if (tokenScore > bestFieldScore) {
+          bestFieldScore = tokenScore;
+          bestField = tokenField;
+        }
+      }
+
+      // Whole-phrase title matches rank first
+      if (normalizedTitle === normalizedQuery) score += 20;
+      else if (normalizedTitle.includes(normalizedQuery)) score += 10;
+
+      let snippet: string | undefined;
+      if (bestField === 'text') snippet = buildSnippet(this.pageText[doc.id] || '', queryTokens);
+      else if (bestField === 'description' && doc.description) snippet = buildSnippet(doc.description, queryTokens);
+      else if (bestField === 'items' && doc.items) snippet = buildSnippet(doc.items, queryTokens);
+
+      results.push({ doc, score, matchedField: bestField, snippet });
+    });
+
+    return SEARCH_RESULT_TYPES
+      .map(type => ({
+        type,
+        results: results
+          .filter(result => result.doc.type === type)
+          .sort((a, b) => b.score - a.score || a.doc.title.localeCompare(b.doc.title))
+          .slice(0, MAX_RESULTS_PER_GROUP),
+      }))
+      .filter(group => group.results.length > 0);
+  }
+
+  // ============ RECENT SEARCHES ============
+
+  getRecentSearches(): string[] {
+    try {
+      const stored = localStorage.getItem(profileService.getProfileKey(RECENT_SEARCHES_KEY));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading recent searches:', error);
+      return [];
+    }
+  }
+
+  addRecentSearch(query: string): void {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) return;
+    const recent = [
+      trimmed,
+      ...this.getRecentSearches().filter(q => q.toLowerCase() !== trimmed.toLowerCase()),
+    ].slice(0, MAX_RECENT_SEARCHES);
+    try {
+      localStorage.setItem(profileService.getProfileKey(RECENT_SEARCHES_KEY), JSON.stringify(recent));
+    } catch (error) {
+      console.error('Error saving recent searches:', error);
+    }
+  }
+
+  removeRecentSearch(query: string): void {
+    try {
+      localStorage.setItem(
+        profileService.getProfileKey(RECENT_SEARCHES_KEY),
+        JSON.stringify(this.getRecentSearches().filter(q => q !== query))
+      );
+    } catch (error) {
+      console.error('Error saving recent searches:', error);
+    }
+  }
+
+  clearRecentSearches(): void {
+    try {
+      localStorage.removeItem(profileService.getProfileKey(RECENT_SEARCHES_KEY));
+    } catch (error) {
+      console.error('Error clearing recent searches:', error);
+    }
+  }
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,276 @@
+// Session Routine Service - Parent-built "Godly Kids Time" routines
+// A routine is an ordered list of steps picked from the step catalog, each with its own
+// duration and coin reward. Parents can save several (e.g. "Morning", "Bedtime") and assign
+// them to a kid, a weekday, or both; the most specific assignment wins.
+// Routines and assignments are family-wide (synced across devices).
+import { syncService } from './syncService';
+
+const ROUTINES_KEY = 'godlykids_session_routines';
+const ROUTINE_RECORD_PREFIX = 'routine:';
+const ASSIGNMENT_RECORD_PREFIX = 'assign:';
+const ANY = '*';
+
+// Fired on window whenever routines or assignments change
+export const SESSION_ROUTINES_EVENT = 'sessionRoutinesChanged';
+
+export const DEFAULT_ROUTINE_ID = 'default';
+export const MAX_ROUTINE_STEPS = 8;
+export const STEP_MINUTE_OPTIONS = [1, 2, 3, 5, 10, 15, 20, 30];
+export const MAX_STEP_COINS = 100;
+
+export type SessionStepType =
+  | 'scripture'
+  | 'lesson'
+  | 'memoryVerse'
+  | 'book'
+  | 'quiz'
+  | 'discussion'
+  | 'song'
+  | 'game'
+  | 'coloring'
+  | 'prayer';
+
+export interface SessionStepDefinition {
+  label: string;
+  shortLabel: string; // under the step icon in the progress bar
+  icon: string;
+  description: string;
+  defaultMinutes: number;
+  defaultCoins: number;
+}
+
+// Every step a routine can use, in the order the builder lists them
+export const SESSION_STEP_CATALOG: Record<SessionStepType, SessionStepDefinition> = {
+  scripture: { label: 'Scripture of the Day', shortLabel: 'Scripture', icon: '📖', description: "Build today's Bible verse", defaultMinutes: 2, defaultCoins: 10 },
+  lesson: { label: 'Lesson Video', shortLabel: 'Lesson', icon: '🎬', description: "Watch today's video lesson", defaultMinutes: 10, defaultCoins: 20 },
+  memoryVerse: { label: 'Memory Verse', shortLabel: 'Verse', icon: '🧠', description: 'Practice a memory verse', defaultMinutes: 3, defaultCoins: 10 },
+  book: { label: 'Story Time', shortLabel: 'Story', icon: '📚', description: 'Read a recommended book', defaultMinutes: 10, defaultCoins: 30 },
+  quiz: { label: 'Story Quiz', shortLabel: 'Quiz', icon: '❓', description: 'Answer questions about the story', defaultMinutes: 3, defaultCoins: 20 },
+  discussion: { label: 'Discuss Together', shortLabel: 'Discuss', icon: '💬', description: 'Talk about the story together', defaultMinutes: 5, defaultCoins: 20 },
+  song: { label: 'Sing Along', shortLabel: 'Song', icon: '🎵', description: 'Listen and sing a worship song', defaultMinutes: 5, defaultCoins: 10 },
+  game: { label: 'Game Time', shortLabel: 'Game', icon: '🎮', description: 'Play the memory challenge', defaultMinutes: 5, defaultCoins: 10 },
+  coloring: { label: 'Coloring Page', shortLabel: 'Color', icon: '🎨', description: 'Draw or color a picture', defaultMinutes: 10, defaultCoins: 15 },
+  prayer: { label: 'Prayer Time', shortLabel: 'Prayer', icon: '🙏', description: 'Pick prayer topics and pray together', defaultMinutes: 3, defaultCoins: 30 },
+};
+
+export const SESSION_STEP_TYPES = Object.keys(SESSION_STEP_CATALOG) as SessionStepType[];
+
+export interface RoutineStep {
+  type: SessionStepType;
+  minutes: number;
+  coins: number;
+}
+
+export interface SessionRoutine {
+  id: string;
+  name: string;
+  steps: RoutineStep[];
+  updatedAt: number;
+}
+
+interface RoutineAssignment {
+  routineId: string | null; // null = assignment removed (kept so the removal syncs)
+  updatedAt: number;
+}
+
+interface StoredRoutines {
+  routines: Record<string, SessionRoutine>;
+  assignments: Record<string, RoutineAssignment>; // `${profileId|*}:${weekday|*}`
+}
+
+const defaultStep = (type: SessionStepType): RoutineStep => ({
+  type,
+  minutes: SESSION_STEP_CATALOG[type].defaultMinutes,
+  coins: SESSION_STEP_CATALOG[type].defaultCoins,
+});
+
+// The original four-step flow, used until a parent builds their own
+export const DEFAULT_ROUTINE: SessionRoutine = {
+  id: DEFAULT_ROUTINE_ID,
+  name: 'Godly Kids Time',
+  steps: (['scripture', 'book', 'discussion', 'prayer'] as SessionStepType[]).map(defaultStep),
+  updatedAt: 0,
+};
+
+const assignmentKey = (profileId: string | null, weekday: number | null): string =>
+  `${profileId ?? ANY}:${weekday ?? ANY}`;
+
+const createRoutineId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Drop unknown step types and keep durations/rewards within range
+const sanitizeSteps = (steps: RoutineStep[]): RoutineStep[] =>
+  steps
+    .filter(step => SESSION_STEP_CATALOG[step.type])
+    .slice(0, MAX_ROUTINE_STEPS)
+    .map(step => ({
+      type: step.type,
+      minutes: STEP_MINUTE_OPTIONS.includes(step.minutes) ? step.minutes : SESSION_STEP_CATALOG[step.type].defaultMinutes,
+      coins: Math.max(0, Math.min(MAX_STEP_COINS, Math.round(step.coins) || 0)),
+    }));
+
+class SessionRoutineService {
+  // ============ STORAGE ============
+
+  private getStored(): StoredRoutines {
+    try {
+      const stored = localStorage.getItem(ROUTINES_KEY);
+      if (stored) return { routines: {}, assignments: {}, ...JSON.parse(stored) };
+    } catch (error) {
+      console.error('Error reading session routines:', error);
+    }
+    return { routines: {}, assignments: {} };
+  }
+
+  private saveStored(stored: StoredRoutines): void {
+    try {
+      localStorage.setItem(ROUTINES_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving session routines:', error);
+    }
+    window.dispatchEvent(new Event(SESSION_ROUTINES_EVENT));
+  }
+
+  // ============ ROUTINES ============
+
+  /**
+   * All routines, the default one first (a parent's edits to it replace the built-in steps)
+   */
+  getRoutines(): SessionRoutine[] {
+    const { routines } = this.getStored();
+    const saved = Object.values(routines)
+      .filter(r => r.id !== DEFAULT_ROUTINE_ID)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return [routines[DEFAULT_ROUTINE_ID] || DEFAULT_ROUTINE, ...saved];
+  }
+
+  getRoutine(routineId: string): SessionRoutine | null {
+    const { routines } = this.getStored();
+    return routines[routineId] || (routineId === DEFAULT_ROUTINE_ID ? DEFAULT_ROUTINE : null);
+  }
+
+  createRoutine(name: string): SessionRoutine {
+    return this.saveRoutine({ id: createRoutineId(), name, steps: DEFAULT_ROUTINE.steps });
+  }
+
+  saveRoutine(routine: Omit<SessionRoutine, 'updatedAt'>): SessionRoutine {
+    const stored = this.getStored();
+    const saved: SessionRoutine = {
+      id: routine.id,
+      name: routine.name.trim() || 'My Routine',
+      steps: sanitizeSteps(routine.steps),
+      updatedAt: Date.now(),
+    };
+    if (saved.steps.length === 0) saved.steps = DEFAULT_ROUTINE.steps;
+    stored.routines[saved.id] = saved;
+    this.saveStored(stored);
+    syncService.recordChange('sessionRoutines', `${ROUTINE_RECORD_PREFIX}${saved.id}`, saved);
+    console.log(`🗓️ Session routine saved: ${saved.name}`);
+    return saved;
+  }
+
+  /**
+   * Delete a routine and anything assigned to it. The default routine goes back to the built-in steps.
+   */
+  deleteRoutine(routineId: string): void {
+    const stored = this.getStored();
+    if (!stored.routines[routineId]) return;
+    delete stored.routines[routineId];
+    syncService.recordDeletion('sessionRoutines', `${ROUTINE_RECORD_PREFIX}${routineId}`);
+
+    Object.entries(stored.assignments).forEach(([key, assignment]) => {
+      if (assignment.routineId !== routineId) return;
+      stored.assignments[key] = { routineId: null, updatedAt: Date.now() };
+      syncService.recordChange('sessionRoutines', `${ASSIGNMENT_RECORD_PREFIX}${key}`, stored.assignments[key]);
+    });
+    this.saveStored(stored);
+  }
+
+  // ============ ASSIGNMENTS ============
+
+  /**
+   * Routine assigned to exactly this kid/weekday pair (null profileId = every kid, null weekday = every day)
+   */
+  getAssignment(profileId: string | null, weekday: number | null): string | null {
+    return this.getStored().assignments[assignmentKey(profileId, weekday)]?.routineId ?? null;
+  }
+
+  setAssignment(profileId: string | null, weekday: number | null, routineId: string | null): void {
+    const stored = this.getStored();
+    const key = assignmentKey(profileId, weekday);
+    if ((stored.assignments[key]?.routineId ?? null) === routineId) return;
+    stored.assignments[key] = { routineId, updatedAt: Date.now() };
+    this.saveStored(stored);
+    syncService.recordChange('sessionRoutines', `${ASSIGNMENT_RECORD_PREFIX}${key}`, stored.assignments[key]);
+  }
+
+  /**
+   * The routine a kid does on a given day: kid + weekday, then kid, then weekday, then every day
+   */
+  getRoutineFor(profileId: string | null, date: Date = new Date()): SessionRoutine {
+    const weekday = date.getDay();
+    const candidates = profileId
+      ? [assignmentKey(profileId, weekday), assignmentKey(profileId, null)]
+      : [];
+    candidates.push(assignmentKey(null, weekday), assignmentKey(null, null));
+
+    const { assignments } = this.getStored();
+    for (const key of candidates) {
+      const routineId = assignments[key]?.routineId;
+      const routine = routineId ? this.getRoutine(routineId) : null;
+      if (routine) return routine;
+    }
+    return this.getRoutine(DEFAULT_ROUTINE_ID) || DEFAULT_ROUTINE;
+  }
+
+  removeProfileAssignments(profileId: string): void {
+    const stored = this.getStored();
+    const prefix = `${profileId}:`;
+    let changed = false;
+    Object.keys(stored.assignments).forEach(key => {
+      if (!key.startsWith(prefix) || stored.assignments[key].routineId === null) return;
+      stored.assignments[key] = { routineId: null, updatedAt: Date.now() };
+      syncService.recordChange('sessionRoutines', `${ASSIGNMENT_RECORD_PREFIX}${key}`, stored.assignments[key]);
+      changed = true;
+    });
+    if (changed) this.saveStored(stored);
+  }
+
+  // ============ SYNC ============
+
+  getSyncRecords(): Record<string, { value: any; updatedAt: number }> {
+    const stored = this.getStored();
+    const records: Record<string, { value: any; updatedAt: number }> = {};
+    Object.values(stored.routines).forEach(routine => {
+      records[`${ROUTINE_RECORD_PREFIX}${routine.id}`] = { value: routine, updatedAt: routine.updatedAt };
+    });
+    Object.entries(stored.assignments).forEach(([key, assignment]) => {
+      records[`${ASSIGNMENT_RECORD_PREFIX}${key}`] = { value: assignment, updatedAt: assignment.updatedAt };
+    });
+    return records;
+  }
+
+  // Apply a record from another device (does not record a change)
+  applySyncedRecord(id: string, value: any | null): void {
+    const stored = this.getStored();
+    if (id.startsWith(ROUTINE_RECORD_PREFIX)) {
+      const routineId = id.slice(ROUTINE_RECORD_PREFIX.length);
+      if (value) stored.routines[routineId] = value;
+      else delete stored.routines[routineId];
+    } else if (id.startsWith(ASSIGNMENT_RECORD_PREFIX)) {
+      const key = id.slice(ASSIGNMENT_RECORD_PREFIX.length);
+      if (value) stored.assignments[key] = value;
+      else delete stored.assignments[key];
+    } else {
+      return;
+    }
+    this.saveStored(stored);
+  }
+}
+
+export const sessionRoutineService = new SessionRoutineService();
+
+syncService.registerStore('sessionRoutines', {
+  scope: 'family',
+  getRecords: () => sessionRoutineService.getSyncRecords(),
+  applyRecord: (id, value) => sessionRoutineService.applySyncedRecord(id, value),
+});
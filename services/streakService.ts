@@ -0,0 +1,393 @@
+// Streak Service - One streak per kid across lessons and Godly Kids Time
+// A day counts when the kid finishes a lesson or a daily session. Rest days (Sundays for church,
+// and Saturdays too if a parent turns weekends off) never break a streak, a streak freeze bought
+// in the shop covers a missed day, and a broken streak can be won back within 48 hours.
+import { profileService } from './profileService';
+import { syncService } from './syncService';
+import { getCompletions, toLocalDateKey } from './lessonService';
+import { getSessionHistory } from './dailySessionService';
+
+const BASE_KEY = 'godlykids_streak';
+const META_RECORD = 'meta';
+const DAY_RECORD_PREFIX = 'day:';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LOOKBACK_DAYS = 400;
+
+// Fired on window whenever a kid's streak data changes
+export const STREAK_EVENT = 'streakChanged';
+
+export const MAX_STREAK_FREEZES = 2;
+export const STREAK_FREEZE_PRICE = 150;
+export const RECOVERY_WINDOW_HOURS = 48;
+
+export type StreakActivity = 'lesson' | 'session';
+
+// How a calendar day looks in the heatmap
+export type StreakDayStatus = 'active' | 'rest' | 'frozen' | 'recovered' | 'missed' | 'open' | 'none' | 'future';
+
+export interface StreakSettings {
+  sundayRest: boolean; // Sundays are church days - skipping one never breaks a streak
+  weekendsOff: boolean; // Saturdays too
+}
+
+/**
+ * A streak that broke recently and can still be won back with a make-up activity
+ */
+export interface StreakRecovery {
+  missedDays: string[]; // YYYY-MM-DD
+  lostStreak: number;
+  deadline: number; // timestamp - 48 hours after the first missed day ended
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  activeToday: boolean;
+  freezes: number;
+  recovery: StreakRecovery | null;
+}
+
+export interface StreakCalendarDay {
+  date: string; // YYYY-MM-DD
+  status: StreakDayStatus;
+  activities: StreakActivity[];
+}
+
+interface StreakMeta extends StreakSettings {
+  freezes: number;
+  longest: number;
+  bridged: Record<string, 'freeze' | 'recovered'>; // missed days that no longer break the streak
+  updatedAt: number;
+}
+
+interface StreakData extends StreakMeta {
+  activity: Record<string, StreakActivity[]>; // YYYY-MM-DD -> what the kid did that day
+}
+
+const DEFAULT_META: StreakMeta = {
+  sundayRest: true,
+  weekendsOff: false,
+  freezes: 0,
+  longest: 0,
+  bridged: {},
+  updatedAt: 0,
+};
+
+const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const shiftDateKey = (key: string, days: number): string => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toLocalDateKey(date);
+};
+
+class StreakService {
+  // ============ STORAGE ============
+
+  private getProfileSuffix(profileId?: string | null): string {
+    const id = profileId === undefined ? profileService.getCurrentProfileId() : profileId;
+    return id || 'parent';
+  }
+
+  private getKey(profileId?: string | null): string {
+    return `${BASE_KEY}_${this.getProfileSuffix(profileId)}`;
+  }
+
+  private getStored(profileId?: string | null): StreakData {
+    try {
+      const stored = localStorage.getItem(this.getKey(profileId));
+      if (stored) return { ...DEFAULT_META, bridged: {}, activity: {}, ...JSON.parse(stored) };
+    } catch (error) {
+      console.error('Error reading streak:', error);
+    }
+    return { ...DEFAULT_META, bridged: {}, activity: {} };
+  }
+
+  private saveStored(data: StreakData, profileId?: string | null): void {
+    try {
+      localStorage.setItem(this.getKey(profileId), JSON.stringify(data));
+    } catch (error) {
+      console.error('Error saving streak:', error);
+    }
+    window.dispatchEvent(new Event(STREAK_EVENT));
+  }
+
+  private saveMeta(data: StreakData, profileId?: string | null): void {
+    data.updatedAt = Date.now();
+    this.saveStored(data, profileId);
+    const { activity: _activity, ...meta } = data;
+    syncService.recordChange('streaks', `${this.getProfileSuffix(profileId)}:${META_RECORD}`, meta);
+  }
+
+  /**
+   * Pull in finished lessons and daily sessions. Sessions are kept for every kid who took part;
+   * lesson completions are only readable for the active profile.
+   */
+  private collectActivity(data: StreakData, profileId?: string | null): string[] {
+    const id = profileId === undefined ? profileService.getCurrentProfileId() : profileId;
+    const found: [string, StreakActivity][] = getSessionHistory(id)
+      .filter(session => session.completed)
+      .map(session => [session.date, 'session']);
+    if (id === profileService.getCurrentProfileId()) {
+      getCompletions().forEach(c => found.push([toLocalDateKey(new Date(c.completedAt)), 'lesson']));
+    }
+
+    const changedDays = new Set<string>();
+    found.forEach(([day, activity]) => {
+      const activities = data.activity[day] || [];
+      if (activities.includes(activity)) return;
+      data.activity[day] = [...activities, activity];
+      changedDays.add(day);
+    });
+    return [...changedDays];
+  }
+
+  // ============ RULES ============
+
+  private isRestDay(data: StreakSettings, key: string): boolean {
+    const weekday = parseDateKey(key).getDay();
+    return (weekday === 0 && data.sundayRest) || (weekday === 6 && data.weekendsOff);
+  }
+
+  private isActive(data: StreakData, key: string): boolean {
+    return (data.activity[key]?.length ?? 0) > 0;
+  }
+
+  private getEarliestDay(data: StreakData): string | null {
+    const days = Object.keys(data.activity).filter(day => this.isActive(data, day)).sort();
+    return days[0] || null;
+  }
+
+  // Active days in the chain ending on `key` - rest days and covered misses neither count nor break it
+  private chainEndingOn(data: StreakData, key: string): number {
+    const earliest = this.getEarliestDay(data);
+    if (!earliest) return 0;
+    let count = 0;
+    for (let day = key, i = 0; day >= earliest && i < MAX_LOOKBACK_DAYS; day = shiftDateKey(day, -1), i++) {
+      if (this.isActive(data, day)) count++;
+      else if (!data.bridged[day] && !this.isRestDay(data, day)) break;
+    }
+    return count;
+  }
+
+  /**
+   * Deal with school days missed since the last active day: freezes cover them if there are
+   * enough, otherwise the streak is lost - unless the kid does a make-up activity in time.
+   * Only changes `data` in memory. Returns the recovery still on offer, if any, and the days
+   * that no longer break the streak.
+   */
+  private settleMissedDays(data: StreakData): { recovery: StreakRecovery | null; bridgedDays: string[] } {
+    const none = { recovery: null, bridgedDays: [] };
+    const today = toLocalDateKey(new Date());
+    const earliest = this.getEarliestDay(data);
+    if (!earliest) return none;
+
+    const missed: string[] = [];
+    let day = shiftDateKey(today, -1);
+    for (let i = 0; day >= earliest && !this.isActive(data, day) && i < MAX_LOOKBACK_DAYS; i++) {
+      if (!data.bridged[day] && !this.isRestDay(data, day)) missed.unshift(day);
+      day = shiftDateKey(day, -1);
+    }
+    if (missed.length === 0 || !this.isActive(data, day)) return none;
+
+    const lostStreak = this.chainEndingOn(data, day);
+
+    if (missed.length <= data.freezes) {
+      missed.forEach(d => { data.bridged[d] = 'freeze'; });
+      data.freezes -= missed.length;
+      return { recovery: null, bridgedDays: missed };
+    }
+
+    const deadline = parseDateKey(missed[0]).getTime() + DAY_MS + RECOVERY_WINDOW_HOURS * 60 * 60 * 1000;
+    if (Date.now() > deadline) return none; // lost for good - today starts a new streak
+
+    // Anything done today is the make-up activity
+    if (this.isActive(data, today)) {
+      missed.forEach(d => { data.bridged[d] = 'recovered'; });
+      return { recovery: null, bridgedDays: missed };
+    }
+
+    return { recovery: { missedDays: missed, lostStreak, deadline }, bridgedDays: [] };
+  }
+
+  /**
+   * A kid's streak as of today: stored data plus new activity, freezes and recoveries.
+   * Nothing is saved - settle() does that.
+   */
+  private evaluate(profileId?: string | null): {
+    data: StreakData;
+    changedDays: string[];
+    bridgedDays: string[];
+    recovery: StreakRecovery | null;
+    current: number;
+    activeToday: boolean;
+  } {
+    const data = this.getStored(profileId);
+    const changedDays = this.collectActivity(data, profileId);
+    const { recovery, bridgedDays } = this.settleMissedDays(data);
+    const today = toLocalDateKey(new Date());
+    const activeToday = this.isActive(data, today);
+    // Today isn't over - until the kid does something, the streak runs up to yesterday
+    const current = this.chainEndingOn(data, activeToday ? today : shiftDateKey(today, -1));
+    return { data, changedDays, bridgedDays, recovery, current, activeToday };
+  }
+
+  // ============ STREAK ============
+
+  /**
+   * Save a kid's streak up to today: new lesson and session days, freezes spent on missed days,
+   * a recovered streak and a new longest. Run on launch, profile switch, resume, at midnight and
+   * after the kid finishes something - the getters below never write.
+   */
+  settle(profileId?: string | null): void {
+    const { data, changedDays, bridgedDays, current } = this.evaluate(profileId);
+    const longestChanged = current > data.longest;
+    if (longestChanged) data.longest = current;
+
+    if (bridgedDays.length > 0 || longestChanged) {
+      this.saveMeta(data, profileId);
+    } else if (changedDays.length > 0) {
+      this.saveStored(data, profileId);
+    }
+
+    const suffix = this.getProfileSuffix(profileId);
+    changedDays.forEach(day => {
+      syncService.recordChange('streaks', `${suffix}:${DAY_RECORD_PREFIX}${day}`, data.activity[day]);
+    });
+
+    if (bridgedDays.length > 0 && data.bridged[bridgedDays[0]] === 'freeze') {
+      console.log(`🧊 Streak freeze used for ${bridgedDays.join(', ')}`);
+    } else if (bridgedDays.length > 0) {
+      console.log(`🔥 Streak of ${current} recovered`);
+    }
+  }
+
+  getSummary(profileId?: string | null): StreakSummary {
+    const { data, recovery, current, activeToday } = this.evaluate(profileId);
+    return { current, longest: Math.max(data.longest, current), activeToday, freezes: data.freezes, recovery };
+  }
+
+  /**
+   * Every day from `weeks` weeks ago (starting on a Sunday) to the end of this week, for the heatmap
+   */
+  getCalendar(weeks: number, profileId?: string | null): StreakCalendarDay[] {
+    const { data } = this.evaluate(profileId);
+    const today = toLocalDateKey(new Date());
+    const earliest = this.getEarliestDay(data);
+
+    const start = new Date();
+    start.setDate(start.getDate() - start.getDay() - (weeks - 1) * 7);
+    const days: StreakCalendarDay[] = [];
+    for (let day = toLocalDateKey(start), i = 0; i < weeks * 7; day = shiftDateKey(day, 1), i++) {
+      const activities = data.activity[day] || [];
+      let status: StreakDayStatus;
+      if (activities.length > 0) status = 'active';
+      else if (day > today) status = 'future';
+      else if (day === today) status = 'open';
+      else if (data.bridged[day] === 'freeze') status = 'frozen';
+      else if (data.bridged[day] === 'recovered') status = 'recovered';
+      else if (this.isRestDay(data, day)) status = 'rest';
+      else if (!earliest || day < earliest) status = 'none';
+      else status = 'missed';
+      days.push({ date: day, status, activities });
+    }
+    return days;
+  }
+
+  // ============ FREEZES ============
+
+  getFreezes(profileId?: string | null): number {
+    return this.getStored(profileId).freezes;
+  }
+
+  /**
+   * Add a freeze the kid just paid for. False when they already hold the most allowed.
+   */
+  addFreeze(profileId?: string | null): boolean {
+    const data = this.getStored(profileId);
+    if (data.freezes >= MAX_STREAK_FREEZES) return false;
+    data.freezes += 1;
+    this.saveMeta(data, profileId);
+    console.log(`🧊 Streak freeze added (${data.freezes}/${MAX_STREAK_FREEZES})`);
+    return true;
+  }
+
+  // ============ SETTINGS ============
+
+  getSettings(profileId?: string | null): StreakSettings {
+    const { sundayRest, weekendsOff } = this.getStored(profileId);
+    return { sundayRest, weekendsOff };
+  }
+
+  updateSettings(settings: Partial<StreakSettings>, profileId?: string | null): void {
+    const data = this.getStored(profileId);
+    this.saveMeta({ ...data, ...settings }, profileId);
+  }
+
+  clearProfile(profileId: string): void {
+    const data = this.getStored(profileId);
+    syncService.recordDeletion('streaks', `${profileId}:${META_RECORD}`);
+    Object.keys(data.activity).forEach(day => {
+      syncService.recordDeletion('streaks', `${profileId}:${DAY_RECORD_PREFIX}${day}`);
+    });
+    localStorage.removeItem(this.getKey(profileId));
+    window.dispatchEvent(new Event(STREAK_EVENT));
+  }
+
+  // ============ SYNC ============
+
+  // Every profile's streak on this device: `${profile}:meta` and `${profile}:day:${date}`
+  getSyncRecords(): Record<string, { value: any; updatedAt: number }> {
+    const records: Record<string, { value: any; updatedAt: number }> = {};
+    const prefix = `${BASE_KEY}_`;
+    try {
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key || !key.startsWith(prefix)) continue;
+        const suffix = key.slice(prefix.length);
+        const { activity, ...meta }: StreakData = { ...DEFAULT_META, activity: {}, ...JSON.parse(localStorage.getItem(key) || '{}') };
+        records[`${suffix}:${META_RECORD}`] = { value: meta, updatedAt: meta.updatedAt };
+        Object.entries(activity).forEach(([day, activities]) => {
+          records[`${suffix}:${DAY_RECORD_PREFIX}${day}`] = { value: activities, updatedAt: parseDateKey(day).getTime() };
+        });
+      }
+    } catch (error) {
+      console.error('Error reading streaks for sync:', error);
+    }
+    return records;
+  }
+
+  // Apply a record from another device (does not record a change)
+  applySyncedRecord(recordId: string, value: any | null): void {
+    const separator = recordId.indexOf(':');
+    if (separator < 0) return;
+    const suffix = recordId.slice(0, separator);
+    const profileId = suffix === 'parent' ? null : suffix;
+    const record = recordId.slice(separator + 1);
+    const data = this.getStored(profileId);
+
+    if (record === META_RECORD) {
+      if (!value) return;
+      this.saveStored({ ...data, ...value, activity: data.activity }, profileId);
+    } else if (record.startsWith(DAY_RECORD_PREFIX)) {
+      const day = record.slice(DAY_RECORD_PREFIX.length);
+      if (value) {
+        data.activity[day] = [...new Set([...(data.activity[day] || []), ...value])] as StreakActivity[];
+      } else {
+        delete data.activity[day];
+      }
+      this.saveStored(data, profileId);
+    }
+  }
+}
+
+export const streakService = new StreakService();
+
+syncService.registerStore('streaks', {
+  scope: 'family',
+  getRecords: () => streakService.getSyncRecords(),
+  applyRecord: (id, value) => streakService.applySyncedRecord(id, value),
+});
@@ -0,0 +1,398 @@
+// Sync Service - Keeps per-profile progress, favorites and library in step across devices
+// Every local change is written to a change log (journal). On login, app resume and on a
+// timer the dirty entries are pushed to the backend and changes from other devices are
+// pulled back. Conflicts are resolved last-writer-wins per record; deletions are kept as
+// tombstones so a removed favorite doesn't come back from another device.
+import { getApiBaseUrl } from './apiService';
+import { authService } from './authService';
+import { profileService } from './profileService';
+
+// Fired after a sync pulled changes from another device - screens reading stores
+// without their own change event re-read them
+export const SYNC_DATA_EVENT = 'syncDataChanged';
+
+// 'profile' stores are kept per kid, 'family' stores are shared by the whole account
+export type SyncScope = 'profile' | 'family';
+
+export interface SyncedRecord {
+  value: any;
+  updatedAt: number; // timestamp of the last local change
+}
+
+// Each synced service registers one adapter per store
+export interface SyncStoreAdapter {
+  scope: SyncScope;
+  // All current local records keyed by id - used to seed the journal on first sync
+  getRecords(): Record<string, SyncedRecord>;
+  // Write a record that came from another device (null = deleted). Must NOT call recordChange.
+  applyRecord(id: string, value: any | null): void;
+  // Called once after a batch of remote records has been applied
+  afterApply?(): void;
+}
+
+interface JournalEntry {
+  store: string;
+  id: string;
+  value: any | null;
+  deleted: boolean;
+  updatedAt: number;
+  deviceId: string;
+  dirty: boolean; // changed locally and not yet accepted by the server
+  applied: boolean; // false while the owning store hasn't registered yet
+}
+
+interface SyncJournal {
+  seeded: boolean;
+  cursor: number; // server time of the last successful pull
+  entries: Record<string, JournalEntry>; // keyed by `${store}:${id}`
+}
+
+const JOURNAL_BASE_KEY = 'godlykids_sync_journal';
+const FAMILY_JOURNAL_KEY = 'godlykids_sync_journal_family';
+const DEVICE_ID_KEY = 'godlykids_device_id';
+const LAST_SYNC_KEY = 'godlykids_last_sync_at';
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+const CHANGE_DEBOUNCE_MS = 15 * 1000;
+// Synced tombstones older than this are dropped from the local journal
+const TOMBSTONE_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+const entryKey = (store: string, id: string) => `${store}:${id}`;
+
+// Last-writer-wins: newer timestamp wins, device id breaks exact ties
+const isNewer = (
+  a: { updatedAt: number; deviceId: string },
+  b: { updatedAt: number; deviceId: string }
+): boolean => {
+  if (a.updatedAt !== b.updatedAt) return a.updatedAt > b.updatedAt;
+  return (a.deviceId || '') > (b.deviceId || '');
+};
+
+class SyncService {
+  private stores: Map<string, SyncStoreAdapter> = new Map();
+  private inFlight: Promise<boolean> | null = null;
+  private changeTimer: ReturnType<typeof setTimeout> | null = null;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private started = false;
+
+  // ============ STORE REGISTRY ============
+
+  registerStore(name: string, adapter: SyncStoreAdapter): void {
+    this.stores.set(name, adapter);
+
+    // Apply anything that arrived from the cloud before this store was loaded
+    const journalKey = this.getJournalKey(adapter.scope);
+    const journal = this.loadJournal(journalKey);
+    let changed = false;
+    Object.values(journal.entries).forEach(entry => {
+      if (entry.store === name && !entry.applied) {
+        adapter.applyRecord(entry.id, entry.deleted ? null : entry.value);
+        entry.applied = true;
+        changed = true;
+      }
+    });
+    if (changed) {
+      adapter.afterApply?.();
+      this.saveJournal(journalKey, journal);
+    }
+  }
+
+  // ============ CHANGE LOG ============
+
+  // Record a local create/update
+  recordChange(store: string, id: string, value: any): void {
+    this.writeEntry(store, id, value, false);
+  }
+
+  // Record a local delete (kept as a tombstone until synced)
+  recordDeletion(store: string, id: string): void {
+    this.writeEntry(store, id, null, true);
+  }
+
+  private writeEntry(store: string, id: string, value: any | null, deleted: boolean): void {
+    const adapter = this.stores.get(store);
+    if (!adapter) {
+      console.warn(`🔄 Sync: change recorded for unregistered store "${store}"`);
+      return;
+    }
+
+    try {
+      const journalKey = this.getJournalKey(adapter.scope);
+      const journal = this.loadJournal(journalKey);
+      journal.entries[entryKey(store, id)] = {
+        store,
+        id,
+        value,
+        deleted,
+        updatedAt: Date.now(),
+        deviceId: this.getDeviceId(),
+        dirty: true,
+        applied: true,
+      };
+      this.saveJournal(journalKey, journal);
+    } catch (error) {
+      console.error('Error writing sync journal:', error);
+    }
+
+    this.scheduleSync();
+  }
+
+  // Push local changes shortly after they happen, batching bursts of edits
+  private scheduleSync(): void {
+    if (this.changeTimer) clearTimeout(this.changeTimer);
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = null;
+      this.syncNow('change');
+    }, CHANGE_DEBOUNCE_MS);
+  }
+
+  // ============ LIFECYCLE ============
+
+  /**
+   * Start background sync: on app resume, when a different kid is selected,
+   * when the device comes back online and every few minutes.
+   */
+  start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') {
+        this.syncNow('resume');
+      }
+    });
+    window.addEventListener('online', () => this.syncNow('online'));
+    profileService.onProfileChange(() => this.syncNow('profile-switch'));
+
+    this.intervalId = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        this.syncNow('interval');
+      }
+    }, SYNC_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.intervalId) clearInterval(this.intervalId);
+    if (this.changeTimer) clearTimeout(this.changeTimer);
+    this.intervalId = null;
+    this.changeTimer = null;
+  }
+
+  getLastSyncAt(): number | null {
+    const stored = localStorage.getItem(LAST_SYNC_KEY);
+    return stored ? parseInt(stored) : null;
+  }
+
+  // ============ SYNC ============
+
+  /**
+   * Push dirty journal entries and pull changes from other devices.
+   * Concurrent calls share the same request.
+   */
+  syncNow(reason: string = 'manual'): Promise<boolean> {
+    if (this.inFlight) return this.inFlight;
+
+    this.inFlight = this.runSync(reason).finally(() => {
+      this.inFlight = null;
+    });
+    return this.inFlight;
+  }
+
+  private async runSync(reason: string): Promise<boolean> {
+    // The server syncs the signed-in account - nothing to do without a session
+    const token = authService.getToken();
+    if (!token) return false;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return false;
+
+    // Capture profile + journal keys up front so a profile switch mid-request
+    // can't write one kid's records into another kid's storage
+    const profileId = profileService.getCurrentProfileId();
+    const scopes = [
+      { scope: 'family' as SyncScope, remoteScope: 'family', journalKey: FAMILY_JOURNAL_KEY },
+      {
+        scope: 'profile' as SyncScope,
+        remoteScope: `profile:${profileId || 'parent'}`,
+        journalKey: this.getJournalKey('profile'),
+      },
+    ];
+
+    const payload = scopes.map(({ scope, remoteScope, journalKey }) => {
+      const journal = this.loadJournal(journalKey);
+      if (!journal.seeded) {
+        this.seedJournal(scope, journal);
+        this.saveJournal(journalKey, journal);
+      }
+      const changes = Object.values(journal.entries)
+        .filter(entry => entry.dirty)
+        .map(({ store, id, value, deleted, updatedAt, deviceId }) => ({
+          store, id, value, deleted, updatedAt, deviceId,
+        }));
+      return { scope: remoteScope, since: journal.cursor, changes };
+    });
+
+    try {
+      const response = await fetch(`${getApiBaseUrl()}sync`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ deviceId: this.getDeviceId(), scopes: payload }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        console.warn('🔄 Sync failed:', data.message);
+        return false;
+      }
+
+      const profileChanged = profileService.getCurrentProfileId() !== profileId;
+      let pulled = 0;
+
+      scopes.forEach(({ scope, remoteScope, journalKey }, index) => {
+        // Another kid was selected while we were waiting - leave this scope for the next sync
+        if (scope === 'profile' && profileChanged) return;
+
+        const sent = payload[index].changes;
+        const remote = data.scopes?.[remoteScope];
+        pulled += this.mergeScope(scope, journalKey, sent, remote?.records || [], data.serverTime);
+      });
+
+      localStorage.setItem(LAST_SYNC_KEY, Date.now().toString());
+      console.log(`🔄 Sync complete (${reason}): pushed ${payload.reduce((n, s) => n + s.changes.length, 0)}, pulled ${pulled}`);
+
+      if (pulled > 0) {
+        window.dispatchEvent(new CustomEvent(SYNC_DATA_EVENT));
+      }
+      return true;
+    } catch (error) {
+      console.warn('🔄 Sync error:', error);
+      return false;
+    }
+  }
+
+  // Merge the server response for one scope into its journal and the local stores
+  private mergeScope(
+    scope: SyncScope,
+    journalKey: string,
+    sent: Array<Omit<JournalEntry, 'dirty' | 'applied'>>,
+    records: Array<Omit<JournalEntry, 'dirty' | 'applied'>>,
+    serverTime: number
+  ): number {
+    // Re-read: local changes may have landed while the request was in flight
+    const journal = this.loadJournal(journalKey);
+    const touchedStores = new Set<string>();
+    let pulled = 0;
+
+    // Entries we pushed are clean now, unless they changed again since
+    sent.forEach(change => {
+      const entry = journal.entries[entryKey(change.store, change.id)];
+      if (entry && entry.dirty && entry.updatedAt === change.updatedAt) {
+        entry.dirty = false;
+      }
+    });
+
+    records.forEach(record => {
+      const key = entryKey(record.store, record.id);
+      const local = journal.entries[key];
+      if (local && !isNewer(record, local)) return;
+
+      const adapter = this.stores.get(record.store);
+      // Ignore stores from other scopes (or a newer app version we don't know about)
+      if (adapter && adapter.scope !== scope) return;
+
+      if (adapter) {
+        adapter.applyRecord(record.id, record.deleted ? null : record.value);
+        touchedStores.add(record.store);
+      }
+      journal.entries[key] = {
+        store: record.store,
+        id: record.id,
+        value: record.deleted ? null : record.value,
+        deleted: !!record.deleted,
+        updatedAt: record.updatedAt,
+        deviceId: record.deviceId,
+        dirty: false,
+        applied: !!adapter,
+      };
+      pulled++;
+    });
+
+    touchedStores.forEach(store => this.stores.get(store)?.afterApply?.());
+
+    if (typeof serverTime === 'number') {
+      journal.cursor = serverTime;
+    }
+    this.compactJournal(journal);
+    this.saveJournal(journalKey, journal);
+    return pulled;
+  }
+
+  // First sync on this device: everything already stored locally is a change to push
+  private seedJournal(scope: SyncScope, journal: SyncJournal): void {
+    const deviceId = this.getDeviceId();
+    this.stores.forEach((adapter, store) => {
+      if (adapter.scope !== scope) return;
+      try {
+        Object.entries(adapter.getRecords()).forEach(([id, record]) => {
+          const key = entryKey(store, id);
+          if (journal.entries[key]) return;
+          journal.entries[key] = {
+            store,
+            id,
+            value: record.value,
+            deleted: false,
+            updatedAt: record.updatedAt || Date.now(),
+            deviceId,
+            dirty: true,
+            applied: true,
+          };
+        });
+      } catch (error) {
+        console.error(`Error seeding sync journal for ${store}:`, error);
+      }
+    });
+    journal.seeded = true;
+  }
+
+  private compactJournal(journal: SyncJournal): void {
+    const cutoff = Date.now() - TOMBSTONE_TTL_MS;
+    Object.keys(journal.entries).forEach(key => {
+      const entry = journal.entries[key];
+      if (entry.deleted && !entry.dirty && entry.updatedAt < cutoff) {
+        delete journal.entries[key];
+      }
+    });
+  }
+
+  // ============ STORAGE HELPERS ============
+
+  private getJournalKey(scope: SyncScope): string {
+    return scope === 'family' ? FAMILY_JOURNAL_KEY : profileService.getProfileKey(JOURNAL_BASE_KEY);
+  }
+
+  private loadJournal(key: string): SyncJournal {
+    try {
+      const stored = localStorage.getItem(key);
+      if (stored) return JSON.parse(stored);
+    } catch (error) {
+      console.error('Error reading sync journal:', error);
+    }
+    return { seeded: false, cursor: 0, entries: {} };
+  }
+
+  private saveJournal(key: string, journal: SyncJournal): void {
+    try {
+      localStorage.setItem(key, JSON.stringify(journal));
+    } catch (error) {
+      console.error('Error saving sync journal:', error);
+    }
+  }
+
+  private getDeviceId(): string {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = `device_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  }
+}
+
+export const syncService = new SyncService();
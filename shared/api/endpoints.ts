@@ -0,0 +1,225 @@
+// API Endpoints - Route table for the backend routes shared by the app and the portal
+// Each endpoint pairs a route with the schema of its response. The app's ApiService
+// validates its own fetches against these; the portal uses the generated client below.
+import { s, validateResponse } from './schema';
+import type { Schema } from './schema';
+import {
+  BadgeSchema,
+  BookSchema,
+  BookSeriesSchema,
+  CategorySchema,
+  GameSchema,
+  LessonSchema,
+  PageSchema,
+  PlaylistSchema,
+  RadioHostSchema,
+  RadioStationSchema,
+  VoiceSchema,
+  paginated,
+} from './resources';
+import type {
+  ApiBadge,
+  ApiBook,
+  ApiBookSeries,
+  ApiCategory,
+  ApiGame,
+  ApiLesson,
+  ApiPage,
+  ApiPaginated,
+  ApiPlaylist,
+  ApiRadioHost,
+  ApiRadioStation,
+  ApiVoice,
+} from './resources';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface ApiEndpoint<T> {
+  method: HttpMethod;
+  // Path below /api/, with :params (e.g. 'pages/book/:bookId')
+  route: string;
+  response: Schema<T, boolean>;
+}
+
+const endpoint = <T>(method: HttpMethod, route: string, response: Schema<T, boolean>): ApiEndpoint<T> =>
+  ({ method, route, response });
+
+const DeletedSchema = s.object({ message: s.optional(s.string()) });
+
+export const API_ENDPOINTS = {
+  // Books
+  listBooks: endpoint('GET', 'books', paginated(BookSchema)),
+  getBook: endpoint('GET', 'books/:id', BookSchema),
+  featuredBooks: endpoint('GET', 'books/featured', s.array(BookSchema)),
+  trendingBooks: endpoint('GET', 'books/trending', s.array(BookSchema)),
+  topRatedBooks: endpoint('GET', 'books/top-rated', s.array(BookSchema)),
+  deleteBook: endpoint('DELETE', 'books/:id', DeletedSchema),
+
+  // Pages
+  bookPages: endpoint('GET', 'pages/book/:bookId', s.array(PageSchema)),
+
+  // Book series
+  listBookSeries: endpoint('GET', 'book-series', s.array(BookSeriesSchema)),
+  featuredBookSeries: endpoint('GET', 'book-series/featured', s.array(BookSeriesSchema)),
+  getBookSeries: endpoint('GET', 'book-series/:id', BookSeriesSchema),
+
+  // Playlists
+  listPlaylists: endpoint('GET', 'playlists', paginated(PlaylistSchema)),
+  getPlaylist: endpoint('GET', 'playlists/:id', PlaylistSchema),
+  deletePlaylist: endpoint('DELETE', 'playlists/:id', DeletedSchema),
+
+  // Lessons
+  listLessons: endpoint('GET', 'lessons', paginated(LessonSchema)),
+  getLesson: endpoint('GET', 'lessons/:id', LessonSchema),
+  deleteLesson: endpoint('DELETE', 'lessons/:id', DeletedSchema),
+
+  // Games
+  listGames: endpoint('GET', 'games', s.array(GameSchema)),
+  dailyTaskGames: endpoint('GET', 'games/daily-tasks', s.array(GameSchema)),
+
+  // Voices
+  listVoices: endpoint('GET', 'voices', s.array(VoiceSchema)),
+  enabledVoices: endpoint('GET', 'voices/enabled', s.array(VoiceSchema)),
+
+  // Categories
+  listCategories: endpoint('GET', 'categories', s.array(CategorySchema)),
+  deleteCategory: endpoint('DELETE', 'categories/:id', DeletedSchema),
+
+  // Badges
+  listBadges: endpoint('GET', 'badges', s.array(BadgeSchema)),
+  deleteBadge: endpoint('DELETE', 'badges/:id', DeletedSchema),
+
+  // Radio
+  radioStation: endpoint('GET', 'radio/station', RadioStationSchema),
+  radioHosts: endpoint('GET', 'radio/hosts', s.array(RadioHostSchema)),
+};
+
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Fill in :params and append a query string - e.g. ('pages/book/:bookId', { bookId: '1' })
+ */
+export const buildApiPath = (route: string, params: Record<string, string> = {}, query?: QueryParams): string => {
+  const path = route.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(params[name] ?? ''));
+  const search = Object.entries(query || {})
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return search ? `${path}?${search}` : path;
+};
+
+/**
+ * Validate a response from one of the endpoints above (logs drift, returns the typed data)
+ */
+export const validateEndpoint = <T>(api: ApiEndpoint<T>, data: unknown): T =>
+  validateResponse(`${api.method} /api/${api.route}`, api.response, data);
+
+// ============ GENERATED CLIENT ============
+
+// Performs the HTTP request for a path below /api/ and resolves with the parsed JSON body.
+// Should reject on non-2xx responses.
+export type ApiTransport = (method: HttpMethod, path: string, body?: unknown) => Promise<unknown>;
+
+export interface ApiClient {
+  books: {
+    list(query?: { status?: 'all' | 'draft' | 'published' | 'archived'; page?: number; limit?: number }): Promise<ApiPaginated<ApiBook>>;
+    get(id: string): Promise<ApiBook>;
+    featured(): Promise<ApiBook[]>;
+    remove(id: string): Promise<unknown>;
+  };
+  pages: {
+    forBook(bookId: string): Promise<ApiPage[]>;
+  };
+  bookSeries: {
+    list(query?: { status?: string }): Promise<ApiBookSeries[]>;
+    get(id: string): Promise<ApiBookSeries>;
+  };
+  playlists: {
+    list(query?: { status?: 'all' | 'draft' | 'published'; page?: number; limit?: number }): Promise<ApiPaginated<ApiPlaylist>>;
+    get(id: string): Promise<ApiPlaylist>;
+    remove(id: string): Promise<unknown>;
+  };
+  lessons: {
+    list(query?: QueryParams): Promise<ApiPaginated<ApiLesson>>;
+    get(id: string): Promise<ApiLesson>;
+    remove(id: string): Promise<unknown>;
+  };
+  games: {
+    list(): Promise<ApiGame[]>;
+  };
+  voices: {
+    list(): Promise<ApiVoice[]>;
+  };
+  categories: {
+    list(query?: { type?: 'book' | 'audio'; explore?: boolean }): Promise<ApiCategory[]>;
+    remove(id: string): Promise<unknown>;
+  };
+  badges: {
+    list(query?: { status?: 'all' | 'draft' | 'published' }): Promise<ApiBadge[]>;
+    remove(id: string): Promise<unknown>;
+  };
+  radio: {
+    station(): Promise<ApiRadioStation>;
+    hosts(): Promise<ApiRadioHost[]>;
+  };
+}
+
+/**
+ * Build a typed client on top of any HTTP transport (fetch, axios, ...).
+ * Every response is validated against its endpoint schema.
+ */
+export const createApiClient = (transport: ApiTransport): ApiClient => {
+  const call = async <T>(
+    api: ApiEndpoint<T>,
+    params?: Record<string, string>,
+    query?: QueryParams,
+    body?: unknown
+  ): Promise<T> => {
+    const data = await transport(api.method, buildApiPath(api.route, params, query), body);
+    return validateEndpoint(api, data);
+  };
+
+  return {
+    books: {
+      list: (query) => call(API_ENDPOINTS.listBooks, {}, query),
+      get: (id) => call(API_ENDPOINTS.getBook, { id }),
+      featured: () => call(API_ENDPOINTS.featuredBooks),
+      remove: (id) => call(API_ENDPOINTS.deleteBook, { id }),
+    },
+    pages: {
+      forBook: (bookId) => call(API_ENDPOINTS.bookPages, { bookId }),
+    },
+    bookSeries: {
+      list: (query) => call(API_ENDPOINTS.listBookSeries, {}, query),
+      get: (id) => call(API_ENDPOINTS.getBookSeries, { id }),
+    },
+    playlists: {
+      list: (query) => call(API_ENDPOINTS.listPlaylists, {}, query),
+      get: (id) => call(API_ENDPOINTS.getPlaylist, { id }),
+      remove: (id) => call(API_ENDPOINTS.deletePlaylist, { id }),
+    },
+    lessons: {
+      list: (query) => call(API_ENDPOINTS.listLessons, {}, query),
+      get: (id) => call(API_ENDPOINTS.getLesson, { id }),
+      remove: (id) => call(API_ENDPOINTS.deleteLesson, { id }),
+    },
+    games: {
+      list: () => call(API_ENDPOINTS.listGames),
+    },
+    voices: {
+      list: () => call(API_ENDPOINTS.listVoices),
+    },
+    categories: {
+      list: (query) => call(API_ENDPOINTS.listCategories, {}, query),
+      remove: (id) => call(API_ENDPOINTS.deleteCategory, { id }),
+    },
+    badges: {
+      list: (query) => call(API_ENDPOINTS.listBadges, {}, query),
+      remove: (id) => call(API_ENDPOINTS.deleteBadge, { id }),
+    },
+    radio: {
+      station: () => call(API_ENDPOINTS.radioStation),
+      hosts: () => call(API_ENDPOINTS.radioHosts),
+    },
+  };
+};
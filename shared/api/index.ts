@@ -0,0 +1,4 @@
+// Shared API schema - types, runtime validators and the typed client used by the app and the portal
+export * from './schema';
+export * from './resources';
+export * from './endpoints';
@@ -0,0 +1,472 @@
+// API Resources - Response shapes of the backend routes used by the app and the portal
+// Mirrors the mongoose models in backend/src/models. Only fields the backend always
+// sends are required; everything else is optional so legacy documents don't log drift.
+// When a model field is renamed on the backend, rename it here too.
+import { s } from './schema';
+import type { Infer, Schema } from './schema';
+
+const id = () => s.string();
+const date = () => s.optional(s.string());
+
+// ============ BOOKS ============
+
+const UploadedFileSchema = s.object({
+  url: s.optional(s.string()),
+  filename: s.optional(s.string()),
+  uploadedAt: date(),
+});
+
+export const BookSchema = s.object({
+  _id: id(),
+  title: s.string(),
+  author: s.optional(s.string()),
+  description: s.optional(s.string()),
+  minAge: s.optional(s.number()),
+  level: s.optional(s.string()),
+  category: s.optional(s.string()),
+  categories: s.optional(s.array(s.string())),
+  status: s.optional(s.oneOf('draft', 'published', 'archived')),
+  orientation: s.optional(s.oneOf('portrait', 'landscape')),
+  isMembersOnly: s.optional(s.boolean()),
+  isFeatured: s.optional(s.boolean()),
+  featuredOrder: s.optional(s.number()),
+  availableForDailySession: s.optional(s.boolean()),
+  goalTags: s.optional(s.array(s.string())),
+  viewCount: s.optional(s.number()),
+  readCount: s.optional(s.number()),
+  favoriteCount: s.optional(s.number()),
+  likeCount: s.optional(s.number()),
+  // Cover lives in files.coverImage; most routes also copy it to the root `coverImage`
+  files: s.optional(s.object({
+    coverImage: s.optional(s.nullable(s.string())),
+    images: s.optional(s.array(UploadedFileSchema)),
+    videos: s.optional(s.array(UploadedFileSchema)),
+    audio: s.optional(s.array(UploadedFileSchema)),
+  })),
+  coverImage: s.optional(s.nullable(s.string())),
+  games: s.optional(s.array(s.string())),
+  bookGames: s.optional(s.array(s.object({
+    _id: id(),
+    title: s.string(),
+    url: s.string(),
+    coverImage: s.optional(s.string()),
+    description: s.optional(s.string()),
+  }))),
+  bookVideos: s.optional(s.array(s.object({
+    _id: id(),
+    title: s.string(),
+    videoUrl: s.string(),
+    thumbnailUrl: s.optional(s.string()),
+    description: s.optional(s.string()),
+  }))),
+  introVideoUrl: s.optional(s.nullable(s.string())),
+  defaultVoiceId: s.optional(s.nullable(s.string())),
+  rewardVoiceId: s.optional(s.nullable(s.string())),
+  defaultNarratorVoiceId: s.optional(s.nullable(s.string())),
+  characterVoices: s.optional(s.array(s.object({
+    characterName: s.string(),
+    voiceId: s.string(),
+    color: s.optional(s.nullable(s.string())),
+  }))),
+  createdAt: date(),
+  updatedAt: date(),
+});
+export type ApiBook = Infer<typeof BookSchema>;
+
+// ============ PAGES ============
+
+// When a displayed word is spoken in the page's narrator recording (seconds)
+export const WordTimingSchema = s.object({
+  word: s.string(),
+  start: s.number(),
+  end: s.number(),
+});
+export type ApiWordTiming = Infer<typeof WordTimingSchema>;
+
+export const TextBoxSchema = s.object({
+  text: s.optional(s.string()),
+  x: s.optional(s.number()),
+  y: s.optional(s.number()),
+  width: s.optional(s.number()),
+  height: s.optional(s.number()),
+  alignment: s.optional(s.oneOf('left', 'center', 'right')),
+  fontFamily: s.optional(s.string()),
+  fontSize: s.optional(s.number()),
+  color: s.optional(s.string()),
+  showBackground: s.optional(s.boolean()),
+  backgroundColor: s.optional(s.string()),
+  shadowColor: s.optional(s.string()),
+  // Set by the portal's read-along timing editor when the page has a narrator recording
+  startTime: s.optional(s.number()),
+  endTime: s.optional(s.number()),
+  words: s.optional(s.array(WordTimingSchema)),
+});
+export type ApiTextBox = Infer<typeof TextBoxSchema>;
+
+const SequenceItemSchema = s.object({
+  url: s.string(),
+  filename: s.optional(s.string()),
+  order: s.number(),
+  audioUrl: s.optional(s.string()),
+});
+
+export const PageSchema = s.object({
+  _id: id(),
+  bookId: id(),
+  pageNumber: s.number(),
+  isColoringPage: s.optional(s.boolean()),
+  coloringEndModalOnly: s.optional(s.boolean()),
+  isWebViewPage: s.optional(s.boolean()),
+  webView: s.optional(s.object({
+    url: s.optional(s.string()),
+    gameId: s.optional(s.string()),
+    title: s.optional(s.string()),
+    showNavigationButton: s.optional(s.boolean()),
+  })),
+  content: s.optional(s.object({
+    text: s.optional(s.string()),
+    textBoxes: s.optional(s.array(TextBoxSchema)),
+  })),
+  files: s.optional(s.object({
+    background: s.optional(s.object({
+      url: s.optional(s.string()),
+      type: s.optional(s.oneOf('image', 'video')),
+    })),
+    scroll: s.optional(s.object({
+      url: s.optional(s.string()),
+      height: s.optional(s.number()),
+    })),
+    images: s.optional(s.array(UploadedFileSchema)),
+    videos: s.optional(s.array(UploadedFileSchema)),
+    videoSequence: s.optional(s.array(SequenceItemSchema)),
+    audio: s.optional(UploadedFileSchema),
+    soundEffect: s.optional(UploadedFileSchema),
+  })),
+  videoSequence: s.optional(s.array(SequenceItemSchema)),
+  useVideoSequence: s.optional(s.boolean()),
+  imageSequence: s.optional(s.array(SequenceItemSchema)),
+  useImageSequence: s.optional(s.boolean()),
+  imageSequenceDuration: s.optional(s.number()),
+  imageSequenceAnimation: s.optional(s.string()),
+  imageUrl: s.optional(s.string()),
+  audioUrl: s.optional(s.string()),
+  backgroundUrl: s.optional(s.string()),
+  backgroundType: s.optional(s.oneOf('image', 'video')),
+  scrollUrl: s.optional(s.string()),
+  scrollHeight: s.optional(s.number()),
+  scrollMidHeight: s.optional(s.number()),
+  scrollMaxHeight: s.optional(s.number()),
+  scrollOffsetY: s.optional(s.number()),
+  scrollOffsetX: s.optional(s.number()),
+  scrollWidth: s.optional(s.number()),
+  soundEffectUrl: s.optional(s.string()),
+  backgroundAudioUrl: s.optional(s.string()),
+  textBoxes: s.optional(s.array(TextBoxSchema)),
+  narration: s.optional(s.object({
+    audioUrl: s.optional(s.string()),
+    duration: s.optional(s.number()),
+    uploadedAt: date(),
+    alignedAt: date(),
+  })),
+  createdAt: date(),
+  updatedAt: date(),
+});
+export type ApiPage = Infer<typeof PageSchema>;
+
+// ============ BOOK SERIES ============
+
+export const BookSeriesSchema = s.object({
+  _id: id(),
+  title: s.string(),
+  description: s.optional(s.string()),
+  coverImage: s.string(),
+  // `book` is an id, or the full book when the route populates it
+  books: s.optional(s.array(s.object({
+    book: s.unknown(),
+    order: s.optional(s.number()),
+  }))),
+  minAge: s.optional(s.number()),
+  maxAge: s.optional(s.number()),
+  level: s.optional(s.oneOf('beginner', 'intermediate', 'advanced', 'all')),
+  category: s.optional(s.unknown()),
+  status: s.optional(s.oneOf('draft', 'published')),
+  isMembersOnly: s.optional(s.boolean()),
+  isFeatured: s.optional(s.boolean()),
+  displayOrder: s.optional(s.number()),
+  viewCount: s.optional(s.number()),
+  author: s.optional(s.string()),
+  createdAt: date(),
+  updatedAt: date(),
+});
+export type ApiBookSeries = Infer<typeof BookSeriesSchema>;
+
+// ============ PLAYLISTS ============
+
+export const PlaylistItemSchema = s.object({
+  _id: id(),
+  title: s.string(),
+  author: s.optional(s.string()),
+  description: s.optional(s.string()),
+  coverImage: s.optional(s.string()),
+  audioUrl: s.string(),
+  duration: s.optional(s.number()),
+  gain: s.optional(s.number()), // loudness normalization in dB
+  order: s.optional(s.number()),
+  playCount: s.optional(s.number()),
+  isMembersOnly: s.optional(s.boolean()),
+  isFeatured: s.optional(s.boolean()),
+  featuredOrder: s.optional(s.number()),
+});
+export type ApiPlaylistItem = Infer<typeof PlaylistItemSchema>;
+
+export const PlaylistSchema = s.object({
+  _id: id(),
+  title: s.string(),
+  author: s.optional(s.string()),
+  description: s.optional(s.string()),
+  coverImage: s.optional(s.string()),
+  category: s.optional(s.string()),
+  categories: s.optional(s.array(s.string())),
+  type: s.oneOf('Song', 'Audiobook'),
+  items: s.optional(s.array(PlaylistItemSchema)),
+  status: s.optional(s.oneOf('draft', 'published')),
+  isMembersOnly: s.optional(s.boolean()),
+  isFeatured: s.optional(s.boolean()),
+  featuredOrder: s.optional(s.number()),
+  minAge: s.optional(s.number()),
+  level: s.optional(s.string()),
+  playCount: s.optional(s.number()),
+  favoriteCount: s.optional(s.number()),
+  likeCount: s.optional(s.number()),
+  viewCount: s.optional(s.number()),
+  availableForDailySession: s.optional(s.boolean()),
+  goalTags: s.optional(s.array(s.string())),
+  createdAt: date(),
+  updatedAt: date(),
+});
+export type ApiPlaylist = Infer<typeof PlaylistSchema>;
+
+// ============ LESSONS ============
+
+const QuizOptionSchema = s.object({
+  text: s.optional(s.string()),
+  isCorrect: s.optional(s.boolean()),
+});
+
+export const LessonSchema = s.object({
+  _id: id(),
+  title: s.string(),
+  description: s.optional(s.string()),
+  type: s.optional(s.string()),
+  ageGroup: s.optional(s.oneOf('4-6', '6-8', '8-10', '10-12', 'all')),
+  video: s.optional(s.object({
+    url: s.optional(s.string()),
+    thumbnail: s.optional(s.string()),
+    duration: s.optional(s.number()),
+  })),
+  episodes: s.optional(s.array(s.object({
+    episodeNumber: s.number(),
+    title: s.optional(s.string()),
+    url: s.string(),
+    thumbnail: s.optional(s.string()),
+    duration: s.optional(s.number()),
+  }))),
+  captions: s.optional(s.array(s.object({
+    text: s.string(),
+    startTime: s.number(),
+    endTime: s.number(),
+  }))),
+  devotional: s.optional(s.object({
+    title: s.optional(s.string()),
+    content: s.optional(s.string()),
+    verse: s.optional(s.string()),
+    verseText: s.optional(s.string()),
+  })),
+  activity: s.optional(s.object({
+    type: s.oneOf('quiz', 'reflection'),
+    title: s.optional(s.string()),
+    content: s.optional(s.string()),
+    options: s.optional(s.array(QuizOptionSchema)),
+    questions: s.optional(s.array(s.object({
+      question: s.optional(s.string()),
+      options: s.optional(s.array(QuizOptionSchema)),
+    }))),
+    reflectionPrompt: s.optional(s.string()),
+  })),
+  scheduledDate: date(),
+  publishedDate: date(),
+  status: s.optional(s.oneOf('draft', 'scheduled', 'published', 'archived')),
+  coinReward: s.optional(s.number()),
+  order: s.optional(s.number()),
+  viewCount: s.optional(s.number()),
+  completionCount: s.optional(s.number()),
+  availableForDailySession: s.optional(s.boolean()),
+  goalTags: s.optional(s.array(s.string())),
+  createdAt: date(),
+  updatedAt: date(),
+});
+export type ApiLesson = Infer<typeof LessonSchema>;
+
+// ============ GAMES ============
+
+export const GameSchema = s.object({
+  _id: id(),
+  gameId: s.string(),
+  name: s.string(),
+  enabled: s.optional(s.boolean()),
+  description: s.optional(s.string()),
+  url: s.optional(s.string()),
+  coverImage: s.optional(s.string()),
+  showInDailyTasks: s.optional(s.boolean()),
+  gameType: s.optional(s.oneOf('modal', 'webview')),
+  settings: s.optional(s.unknown()),
+  rewards: s.optional(s.object({
+    threeStars: s.optional(s.number()),
+    twoStars: s.optional(s.number()),
+    oneStar: s.optional(s.number()),
+  })),
+  isPurchasable: s.optional(s.boolean()),
+  goldCoinPrice: s.optional(s.number()),
+  ageRating: s.optional(s.string()),
+  createdAt: date(),
+  updatedAt: date(),
+});
+export type ApiGame = Infer<typeof GameSchema>;
+
+// ============ VOICES ============
+
+export const VoiceSchema = s.object({
+  _id: s.optional(id()),
+  voiceId: s.string(),
+  name: s.string(),
+  customName: s.optional(s.string()),
+  category: s.optional(s.string()),
+  previewUrl: s.optional(s.string()),
+  characterImage: s.optional(s.string()),
+  enabled: s.optional(s.boolean()),
+  showInApp: s.optional(s.boolean()),
+  description: s.optional(s.string()),
+  ageGroup: s.optional(s.oneOf('child', 'teen', 'adult', 'all')),
+  language: s.optional(s.string()),
+  displayOrder: s.optional(s.number()),
+  isPremium: s.optional(s.boolean()),
+  isLockable: s.optional(s.boolean()),
+  unlockedByBookId: s.optional(s.nullable(s.string())),
+});
+export type ApiVoice = Infer<typeof VoiceSchema>;
+
+// ============ CATEGORIES ============
+
+export const CategorySchema = s.object({
+  _id: id(),
+  name: s.string(),
+  description: s.optional(s.string()),
+  color: s.optional(s.string()),
+  icon: s.optional(s.string()),
+  showOnExplore: s.optional(s.boolean()),
+  contentType: s.optional(s.nullable(s.oneOf('Book', 'Audio'))),
+  createdAt: date(),
+  updatedAt: date(),
+});
+export type ApiCategory = Infer<typeof CategorySchema>;
+
+// ============ BADGES ============
+
+export const BADGE_METRICS = [
+  'booksRead',
+  'pagesRead',
+  'songsListened',
+  'gamesPlayed',
+  'lessonsCompleted',
+  'sessionsCompleted',
+  'streakDays',
+  'seriesCompleted',
+] as const;
+
+export const BadgeSchema = s.object({
+  _id: id(),
+  title: s.string(),
+  description: s.optional(s.string()),
+  icon: s.optional(s.string()),
+  color: s.optional(s.string()),
+  rule: s.object({
+    metric: s.oneOf(...BADGE_METRICS),
+    target: s.optional(s.number()),
+    category: s.optional(s.string()),
+    series: s.optional(s.string()),
+    // Books that count towards a category or series rule - filled in by the route
+    bookIds: s.optional(s.array(s.string())),
+  }),
+  status: s.optional(s.oneOf('draft', 'published')),
+  displayOrder: s.optional(s.number()),
+  createdAt: date(),
+  updatedAt: date(),
+});
+export type ApiBadge = Infer<typeof BadgeSchema>;
+export type ApiBadgeMetric = typeof BADGE_METRICS[number];
+
+// ============ RADIO ============
+
+export const RadioHostSchema = s.object({
+  _id: id(),
+  name: s.string(),
+  personality: s.optional(s.string()),
+  googleVoice: s.optional(s.object({
+    name: s.optional(s.string()),
+    languageCode: s.optional(s.string()),
+    pitch: s.optional(s.number()),
+    speakingRate: s.optional(s.number()),
+  })),
+  samplePhrases: s.optional(s.array(s.string())),
+  avatarUrl: s.optional(s.string()),
+  gender: s.optional(s.oneOf('male', 'female')),
+  enabled: s.optional(s.boolean()),
+  order: s.optional(s.number()),
+});
+export type ApiRadioHost = Infer<typeof RadioHostSchema>;
+
+export const RadioStationSchema = s.object({
+  _id: id(),
+  name: s.string(),
+  tagline: s.optional(s.string()),
+  // Host/playlist ids, or full documents when the route populates them
+  hosts: s.optional(s.array(s.unknown())),
+  playlists: s.optional(s.array(s.unknown())),
+  hostBreakDuration: s.optional(s.number()),
+  hostBreakFrequency: s.optional(s.number()),
+  devotionalFrequency: s.optional(s.number()),
+  devotionalDuration: s.optional(s.number()),
+  enableDuoDiscussions: s.optional(s.boolean()),
+  settings: s.optional(s.object({
+    introJingleUrl: s.optional(s.string()),
+    outroJingleUrl: s.optional(s.string()),
+    hostBreakMusicVolume: s.optional(s.number()),
+    shuffleSongs: s.optional(s.boolean()),
+    rotateHosts: s.optional(s.boolean()),
+  })),
+  coverImageUrl: s.optional(s.string()),
+  customIntroScript: s.optional(s.string()),
+  isLive: s.optional(s.boolean()),
+});
+export type ApiRadioStation = Infer<typeof RadioStationSchema>;
+
+// ============ WRAPPERS ============
+
+export const PaginationSchema = s.object({
+  page: s.number(),
+  limit: s.number(),
+  total: s.number(),
+  pages: s.number(),
+  hasMore: s.boolean(),
+});
+export type ApiPagination = Infer<typeof PaginationSchema>;
+
+// Paginated list routes return { data: [...], pagination: {...} }
+export const paginated = <T>(item: Schema<T>) => s.object({
+  data: s.array(item),
+  pagination: PaginationSchema,
+});
+export interface ApiPaginated<T> {
+  data: T[];
+  pagination: ApiPagination;
+}
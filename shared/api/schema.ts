@@ -0,0 +1,190 @@
+// API Schema - Tiny runtime schema builder shared by the app and the portal
+// A schema both describes a backend response (TypeScript types are inferred from it)
+// and validates real responses at runtime, so a renamed backend field shows up as a
+// logged "schema drift" instead of silently rendering empty covers or titles.
+
+export interface SchemaIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export interface Schema<T, Optional extends boolean = false> {
+  readonly optional: Optional;
+  readonly description: string;
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  // Phantom field so TypeScript can infer T - never set at runtime
+  readonly __type?: T;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnySchema = Schema<any, boolean>;
+export type Shape = Record<string, AnySchema>;
+
+export type Infer<S> = S extends Schema<infer T, boolean> ? T : never;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+type RequiredKeys<S extends Shape> = { [K in keyof S]: S[K] extends Schema<unknown, true> ? never : K }[keyof S];
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends Schema<unknown, true> ? K : never }[keyof S];
+
+export type InferShape<S extends Shape> = Simplify<
+  { [K in RequiredKeys<S>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const primitive = <T>(expected: 'string' | 'number' | 'boolean'): Schema<T> => ({
+  optional: false,
+  description: expected,
+  check(value, path, issues) {
+    if (typeof value !== expected) {
+      issues.push({ path, expected, received: describeValue(value) });
+    }
+  },
+});
+
+export const s = {
+  string: (): Schema<string> => primitive<string>('string'),
+  number: (): Schema<number> => primitive<number>('number'),
+  boolean: (): Schema<boolean> => primitive<boolean>('boolean'),
+
+  // Anything goes - for free-form fields like quiz payloads or alignment data
+  unknown: (): Schema<unknown> => ({
+    optional: false,
+    description: 'unknown',
+    check() { /* always valid */ },
+  }),
+
+  oneOf: <T extends string>(...values: T[]): Schema<T> => {
+    const description = values.map(v => `'${v}'`).join(' | ');
+    return {
+      optional: false,
+      description,
+      check(value, path, issues) {
+        if (!values.includes(value as T)) {
+          issues.push({ path, expected: description, received: JSON.stringify(value) });
+        }
+      },
+    };
+  },
+
+  array: <T>(item: Schema<T, boolean>): Schema<T[]> => ({
+    optional: false,
+    description: `${item.description}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: 'array', received: describeValue(value) });
+        return;
+      }
+      value.forEach((entry, index) => item.check(entry, `${path}[${index}]`, issues));
+    },
+  }),
+
+  // Extra fields are allowed (the backend adds plenty) - only declared fields are checked
+  object: <S extends Shape>(shape: S): Schema<InferShape<S>> => ({
+    optional: false,
+    description: 'object',
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: 'object', received: describeValue(value) });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      Object.entries(shape).forEach(([key, field]) => {
+        const fieldPath = path ? `${path}.${key}` : key;
+        if (record[key] === undefined) {
+          if (!field.optional) {
+            issues.push({ path: fieldPath, expected: field.description, received: 'missing' });
+          }
+          return;
+        }
+        field.check(record[key], fieldPath, issues);
+      });
+    },
+  }),
+
+  // Field may be absent from the response
+  optional: <T>(inner: Schema<T, boolean>): Schema<T | undefined, true> => ({
+    optional: true,
+    description: `${inner.description}?`,
+    check(value, path, issues) {
+      if (value !== undefined) inner.check(value, path, issues);
+    },
+  }),
+
+  // Field is always present but may be null
+  nullable: <T>(inner: Schema<T, boolean>): Schema<T | null> => ({
+    optional: false,
+    description: `${inner.description} | null`,
+    check(value, path, issues) {
+      if (value !== null) inner.check(value, path, issues);
+    },
+  }),
+};
+
+// ============ DRIFT REPORTING ============
+
+export interface SchemaDriftReport {
+  endpoint: string;
+  issues: SchemaIssue[];
+}
+
+type DriftListener = (report: SchemaDriftReport) => void;
+
+// Only the first few issues of a response are logged; large lists repeat the same problem
+const MAX_LOGGED_ISSUES = 10;
+const reportedIssues = new Set<string>();
+const driftListeners: DriftListener[] = [];
+
+// Array indexes are collapsed so "data[3].title" and "data[7].title" count as one issue
+const issueKey = (endpoint: string, issue: SchemaIssue) =>
+  `${endpoint}|${issue.path.replace(/\[\d+\]/g, '[]')}|${issue.received}`;
+
+/**
+ * Subscribe to schema drift (e.g. to forward it to analytics)
+ */
+export const onSchemaDrift = (listener: DriftListener): (() => void) => {
+  driftListeners.push(listener);
+  return () => {
+    const index = driftListeners.indexOf(listener);
+    if (index > -1) driftListeners.splice(index, 1);
+  };
+};
+
+const reportSchemaDrift = (endpoint: string, issues: SchemaIssue[]): void => {
+  const fresh = issues.filter(issue => {
+    const key = issueKey(endpoint, issue);
+    if (reportedIssues.has(key)) return false;
+    reportedIssues.add(key);
+    return true;
+  });
+  if (fresh.length === 0) return;
+
+  console.error(
+    `🧩 API schema drift in ${endpoint}: ${fresh.length} issue(s)`,
+    fresh.slice(0, MAX_LOGGED_ISSUES).map(i => `${i.path || '(root)'}: expected ${i.expected}, got ${i.received}`)
+  );
+  driftListeners.forEach(listener => listener({ endpoint, issues: fresh }));
+};
+
+/**
+ * Validate a response against its schema and log any drift.
+ * The data is returned as-is (typed) so callers keep working with partially valid responses.
+ */
+export const validateResponse = <T>(endpoint: string, schema: Schema<T, boolean>, data: unknown): T => {
+  const issues: SchemaIssue[] = [];
+  try {
+    schema.check(data, '', issues);
+  } catch (error) {
+    console.warn(`🧩 Schema validation crashed for ${endpoint}:`, error);
+  }
+  if (issues.length > 0) {
+    reportSchemaDrift(endpoint, issues);
+  }
+  return data as T;
+};
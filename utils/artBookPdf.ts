@@ -0,0 +1,137 @@
+/**
+ * Art Book PDF
+ * Builds a printable multi-page PDF from a kid's coloring pages: a cover, then one
+ * picture per page with where it came from and when it was finished.
+ * Written by hand (JPEG pages need nothing more than an image XObject each) so
+ * there's no PDF library in the bundle.
+ */
+import { PdfWriter, latin1 } from './pdfWriter';
+
+export interface ArtBookPage {
+  imageDataUrl: string;
+  caption: string;
+  date: string;
+}
+
+// A4 portrait, in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 48;
+const CAPTION_SPACE = 72;
+// Longest side of the pictures embedded in the PDF
+const MAX_IMAGE_SIDE = 1600;
+
+interface JpegImage {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Re-encode any picture as a JPEG (white behind transparency), capped in size
+const toJpeg = (dataUrl: string): Promise<JpegImage> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      const base64 = canvas.toDataURL('image/jpeg', 0.9).split(',')[1] || '';
+      const binary = atob(base64);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+      resolve({ bytes, width: canvas.width, height: canvas.height });
+    };
+    img.onerror = () => reject(new Error('Could not load artwork image'));
+    img.src = dataUrl;
+  });
+
+// PDF string literal - the standard fonts only cover Latin-1, so emoji and the like are dropped
+const pdfText = (text: string): string =>
+  `(${text
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)')
+    .trim()})`;
+
+// Rough Helvetica width, good enough to center a line
+const textWidth = (text: string, size: number): number => text.length * size * 0.5;
+
+const centeredText = (text: string, font: string, size: number, y: number): string =>
+  `BT /${font} ${size} Tf ${Math.max(MARGIN, (PAGE_WIDTH - textWidth(text, size)) / 2).toFixed(1)} ${y} Td ${pdfText(text)} Tj ET`;
+
+/**
+ * Build the art book. Pages whose picture can't be loaded are left out.
+ */
+export const buildArtBookPdf = async (title: string, subtitle: string, pages: ArtBookPage[]): Promise<Blob> => {
+  const images: Array<{ page: ArtBookPage; jpeg: JpegImage }> = [];
+  for (const page of pages) {
+    try {
+      images.push({ page, jpeg: await toJpeg(page.imageDataUrl) });
+    } catch (error) {
+      console.warn('📕 Skipping artwork in art book:', error);
+    }
+  }
+
+  const pdf = new PdfWriter();
+
+  // 1 catalog, 2 page tree, 3-4 fonts, then cover (5-6) and 3 objects per picture page
+  const pageIds: number[] = [5];
+  images.forEach((_, index) => pageIds.push(7 + index * 3));
+
+  pdf.addObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  pdf.addObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+  pdf.addObject(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  pdf.addObject(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+
+  const resources = '/Resources << /Font << /F1 3 0 R /F2 4 0 R >>';
+  const pageBox = `/MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]`;
+
+  // Cover
+  const cover = latin1([
+    `0.99 0.96 0.89 rg 0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT} re f`,
+    '0.36 0.18 0.04 rg',
+    centeredText(title, 'F1', 32, 470),
+    centeredText(subtitle, 'F2', 16, 430),
+  ].join('\n'));
+  pdf.addObject(5, `<< /Type /Page /Parent 2 0 R ${pageBox} ${resources} >> /Contents 6 0 R >>`);
+  pdf.addObject(6, `<< /Length ${cover.length} >>`, cover);
+
+  // One picture per page, fitted above its caption
+  images.forEach(({ page, jpeg }, index) => {
+    const pageId = 7 + index * 3;
+    const boxWidth = PAGE_WIDTH - MARGIN * 2;
+    const boxHeight = PAGE_HEIGHT - MARGIN * 2 - CAPTION_SPACE;
+    const scale = Math.min(boxWidth / jpeg.width, boxHeight / jpeg.height);
+    const w = jpeg.width * scale;
+    const h = jpeg.height * scale;
+    const x = (PAGE_WIDTH - w) / 2;
+    const y = MARGIN + CAPTION_SPACE + (boxHeight - h) / 2;
+
+    const content = latin1([
+      `q ${w.toFixed(1)} 0 0 ${h.toFixed(1)} ${x.toFixed(1)} ${y.toFixed(1)} cm /Im${index} Do Q`,
+      '0.36 0.18 0.04 rg',
+      centeredText(page.caption, 'F1', 16, MARGIN + 36),
+      centeredText(page.date, 'F2', 12, MARGIN + 14),
+    ].join('\n'));
+
+    pdf.addObject(pageId, `<< /Type /Page /Parent 2 0 R ${pageBox} ${resources} /XObject << /Im${index} ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`);
+    pdf.addObject(pageId + 1, `<< /Length ${content.length} >>`, content);
+    pdf.addObject(
+      pageId + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${jpeg.width} /Height ${jpeg.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.bytes.length} >>`,
+      jpeg.bytes
+    );
+  });
+
+  return pdf.finish(1);
+};
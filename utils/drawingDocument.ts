@@ -0,0 +1,570 @@
+/**
+ * Drawing Document
+ * A coloring page kept as the list of things the kid did (crayon strokes, bucket
+ * fills, stickers, stamps) instead of a bitmap. Replaying the list redraws the page
+ * at any size, which is what gives DrawingCanvas its undo/redo and lets pinned
+ * fridge pictures be re-rendered sharp at whatever resolution they're shown.
+ *
+ * Positions and sizes are stored as fractions of the canvas (0-1) so a page drawn
+ * on a phone replays the same on a tablet.
+ */
+
+export const DRAWING_FORMAT_VERSION = 1;
+
+// Saved coordinates are whole numbers out of this (keeps the JSON small)
+const COORD_SCALE = 10000;
+
+// Line art pixels at least this opaque and this dark stop a bucket fill
+const BARRIER_MIN_ALPHA = 48;
+const BARRIER_MAX_BRIGHTNESS = 200;
+
+export type StampShape = 'star' | 'heart' | 'cross' | 'circle';
+
+export const STAMP_SHAPES: StampShape[] = ['star', 'heart', 'cross', 'circle'];
+
+export const STICKERS = ['🐑', '🕊️', '🌈', '🦁', '🐟', '🌸', '☀️', '🐘'];
+
+export type DrawingOp =
+  | { type: 'stroke'; color: string; width: number; alpha: number; erase: boolean; points: number[] } // points: flat x,y pairs
+  | { type: 'fill'; color: string; alpha: number; x: number; y: number; tolerance: number }
+  | { type: 'sticker'; emoji: string; x: number; y: number; size: number }
+  | { type: 'stamp'; shape: StampShape; color: string; x: number; y: number; size: number }
+  | { type: 'clear' };
+
+export interface DrawingDocument {
+  version: number;
+  // Aspect of the canvas the page was last drawn on (CSS px)
+  width: number;
+  height: number;
+  // 'overlay': line art sits on top of the colors; 'underlay': the picture is painted into the canvas
+  background: 'overlay' | 'underlay';
+  ops: DrawingOp[];
+  // Bitmap progress saved before pages were stored as documents
+  base?: string;
+}
+
+export const createDrawingDocument = (
+  width: number,
+  height: number,
+  background: DrawingDocument['background']
+): DrawingDocument => ({
+  version: DRAWING_FORMAT_VERSION,
+  width: Math.round(width),
+  height: Math.round(height),
+  background,
+  ops: [],
+});
+
+// ============ SAVE FORMAT ============
+
+// Ops are saved as short tuples:
+//   ['s', color, width, alpha%, erase, [x0, y0, dx1, dy1, ...]]  stroke (points delta-encoded)
+//   ['f', color, alpha%, x, y, tolerance]                        bucket fill
+//   ['k', emoji, x, y, size]                                     sticker
+//   ['m', shape, color, x, y, size]                              stamp
+//   ['c']                                                        clear
+type EncodedOp = Array<string | number | number[]>;
+
+interface EncodedDocument {
+  v: number;
+  w: number;
+  h: number;
+  bg: 'o' | 'u';
+  o: EncodedOp[];
+  b?: string;
+}
+
+const q = (n: number): number => Math.round(n * COORD_SCALE);
+const dq = (n: unknown): number => (typeof n === 'number' ? n : 0) / COORD_SCALE;
+
+const encodeOp = (op: DrawingOp): EncodedOp => {
+  switch (op.type) {
+    case 'stroke': {
+      const points: number[] = [];
+      let lastX = 0;
+      let lastY = 0;
+      for (let i = 0; i < op.points.length; i += 2) {
+        const x = q(op.points[i]);
+        const y = q(op.points[i + 1]);
+        points.push(x - lastX, y - lastY);
+        lastX = x;
+        lastY = y;
+      }
+      return ['s', op.color, q(op.width), Math.round(op.alpha * 100), op.erase ? 1 : 0, points];
+    }
+    case 'fill':
+      return ['f', op.color, Math.round(op.alpha * 100), q(op.x), q(op.y), op.tolerance];
+    case 'sticker':
+      return ['k', op.emoji, q(op.x), q(op.y), q(op.size)];
+    case 'stamp':
+      return ['m', op.shape, op.color, q(op.x), q(op.y), q(op.size)];
+    case 'clear':
+    default:
+      return ['c'];
+  }
+};
+
+const decodeOp = (encoded: EncodedOp): DrawingOp | null => {
+  const [kind] = encoded;
+  switch (kind) {
+    case 's': {
+      const deltas = Array.isArray(encoded[5]) ? encoded[5] : [];
+      const points: number[] = [];
+      let x = 0;
+      let y = 0;
+      for (let i = 0; i + 1 < deltas.length; i += 2) {
+        x += deltas[i];
+        y += deltas[i + 1];
+        points.push(x / COORD_SCALE, y / COORD_SCALE);
+      }
+      return {
+        type: 'stroke',
+        color: String(encoded[1]),
+        width: dq(encoded[2]),
+        alpha: Number(encoded[3]) / 100,
+        erase: encoded[4] === 1,
+        points,
+      };
+    }
+    case 'f':
+      return {
+        type: 'fill',
+        color: String(encoded[1]),
+        alpha: Number(encoded[2]) / 100,
+        x: dq(encoded[3]),
+        y: dq(encoded[4]),
+        tolerance: Number(encoded[5]) || 0,
+      };
+    case 'k':
+      return { type: 'sticker', emoji: String(encoded[1]), x: dq(encoded[2]), y: dq(encoded[3]), size: dq(encoded[4]) };
+    case 'm':
+      if (!STAMP_SHAPES.includes(encoded[1] as StampShape)) return null;
+      return {
+        type: 'stamp',
+        shape: encoded[1] as StampShape,
+        color: String(encoded[2]),
+        x: dq(encoded[3]),
+        y: dq(encoded[4]),
+        size: dq(encoded[5]),
+      };
+    case 'c':
+      return { type: 'clear' };
+    default:
+      return null;
+  }
+};
+
+// Index of the first op drawn on the page - everything before the last clear is gone
+const firstVisibleOp = (ops: DrawingOp[]): number => {
+  for (let i = ops.length - 1; i >= 0; i--) {
+    if (ops[i].type === 'clear') return i + 1;
+  }
+  return 0;
+};
+
+/**
+ * Serialize a document. Ops hidden by a clear are dropped - undo history
+ * doesn't outlive the session.
+ */
+export const encodeDrawingDocument = (doc: DrawingDocument): string => {
+  const start = firstVisibleOp(doc.ops);
+  const encoded: EncodedDocument = {
+    v: DRAWING_FORMAT_VERSION,
+    w: doc.width,
+    h: doc.height,
+    bg: doc.background === 'underlay' ? 'u' : 'o',
+    o: doc.ops.slice(start).map(encodeOp),
+  };
+  if (doc.base && start === 0) encoded.b = doc.base;
+  return JSON.stringify(encoded);
+};
+
+/**
+ * Parse a saved document. Returns null for anything unreadable, including
+ * documents written by a newer version of the app.
+ */
+export const decodeDrawingDocument = (raw: string): DrawingDocument | null => {
+  try {
+    const parsed = JSON.parse(raw) as EncodedDocument;
+    if (!parsed || typeof parsed.v !== 'number' || parsed.v > DRAWING_FORMAT_VERSION) return null;
+    const ops = (Array.isArray(parsed.o) ? parsed.o : [])
+      .map(decodeOp)
+      .filter((op): op is DrawingOp => op !== null);
+    return {
+      version: DRAWING_FORMAT_VERSION,
+      width: parsed.w || 1,
+      height: parsed.h || 1,
+      background: parsed.bg === 'u' ? 'underlay' : 'overlay',
+      ops,
+      base: parsed.b,
+    };
+  } catch {
+    return null;
+  }
+};
+
+// ============ DRAWING ============
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  const n = parseInt(full, 16);
+  if (Number.isNaN(n)) return [0, 0, 0];
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const toRgba = (hex: string, alpha: number): string => {
+  const [r, g, b] = hexToRgb(hex);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+/**
+ * The dot a crayon leaves where it first touches the page (the eraser leaves none)
+ */
+export const drawStrokeStart = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  size: number,
+  color: string,
+  alpha: number,
+  erase: boolean
+) => {
+  if (erase) return;
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = alpha;
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(x, y, size / 2, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+};
+
+/**
+ * One segment of a stroke. Each segment is stroked on its own so overlapping
+ * crayon builds up darker, like a real crayon.
+ */
+export const drawStrokeSegment = (
+  ctx: CanvasRenderingContext2D,
+  fromX: number,
+  fromY: number,
+  toX: number,
+  toY: number,
+  size: number,
+  color: string,
+  alpha: number,
+  erase: boolean
+) => {
+  ctx.save();
+  ctx.globalCompositeOperation = erase ? 'destination-out' : 'source-over';
+  ctx.globalAlpha = 1; // Crayon alpha is baked into the color instead
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = size;
+  ctx.strokeStyle = erase ? '#000' : toRgba(color, alpha);
+  ctx.beginPath();
+  ctx.moveTo(fromX, fromY);
+  ctx.lineTo(toX, toY);
+  ctx.stroke();
+  ctx.restore();
+};
+
+const tracePath = (ctx: CanvasRenderingContext2D, shape: StampShape, x: number, y: number, size: number) => {
+  const r = size / 2;
+  ctx.beginPath();
+  switch (shape) {
+    case 'star':
+      for (let i = 0; i < 10; i++) {
+        const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+        const radius = i % 2 === 0 ? r : r * 0.45;
+        ctx.lineTo(x + Math.cos(angle) * radius, y + Math.sin(angle) * radius);
+      }
+      break;
+    case 'heart':
+      ctx.moveTo(x, y + r * 0.8);
+      ctx.bezierCurveTo(x - r * 1.2, y, x - r * 0.6, y - r * 0.9, x, y - r * 0.35);
+      ctx.bezierCurveTo(x + r * 0.6, y - r * 0.9, x + r * 1.2, y, x, y + r * 0.8);
+      break;
+    case 'cross': {
+      const arm = r * 0.28;
+      ctx.rect(x - arm, y - r, arm * 2, r * 2);
+      ctx.rect(x - r * 0.7, y - r * 0.45 - arm, r * 1.4, arm * 2);
+      break;
+    }
+    case 'circle':
+    default:
+      ctx.arc(x, y, r * 0.8, 0, Math.PI * 2);
+  }
+  ctx.closePath();
+};
+
+export const drawStamp = (ctx: CanvasRenderingContext2D, shape: StampShape, x: number, y: number, size: number, color: string) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = color;
+  tracePath(ctx, shape, x, y, size);
+  ctx.fill('nonzero');
+  ctx.restore();
+};
+
+export const drawSticker = (ctx: CanvasRenderingContext2D, emoji: string, x: number, y: number, size: number) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = 1;
+  ctx.font = `${Math.round(size)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(emoji, x, y);
+  ctx.restore();
+};
+
+/**
+ * Which pixels of the line art are lines, at the given size (stretched to fill,
+ * the same way the overlay is shown). Null when the image can't be read (CORS).
+ */
+export const buildLineArtBarrier = (image: CanvasImageSource, width: number, height: number): Uint8Array | null => {
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(image, 0, 0, width, height);
+    const data = ctx.getImageData(0, 0, width, height).data;
+    const barrier = new Uint8Array(width * height);
+    for (let i = 0; i < barrier.length; i++) {
+      const p = i * 4;
+      const brightness = (data[p] + data[p + 1] + data[p + 2]) / 3;
+      if (data[p + 3] >= BARRIER_MIN_ALPHA && brightness <= BARRIER_MAX_BRIGHTNESS) barrier[i] = 1;
+    }
+    return barrier;
+  } catch (err) {
+    console.log('🪣 Could not read line art for fills:', err);
+    return null;
+  }
+};
+
+/**
+ * Paint-bucket fill from a seed pixel (scanline). Spreads over pixels within
+ * `tolerance` (per channel, 0-255) of the seed color and never crosses the
+ * line art barrier. Transparent (erased) pixels count as white paper.
+ */
+export const floodFill = (
+  imageData: ImageData,
+  barrier: Uint8Array | null,
+  seedX: number,
+  seedY: number,
+  color: string,
+  alpha: number,
+  tolerance: number
+): boolean => {
+  const { width, height, data } = imageData;
+  const sx = Math.floor(seedX);
+  const sy = Math.floor(seedY);
+  if (sx < 0 || sy < 0 || sx >= width || sy >= height) return false;
+  if (barrier && barrier[sy * width + sx]) return false;
+
+  const read = (i: number): [number, number, number] => {
+    const p = i * 4;
+    if (data[p + 3] < 16) return [255, 255, 255];
+    return [data[p], data[p + 1], data[p + 2]];
+  };
+  const [tr, tg, tb] = read(sy * width + sx);
+  const [fr, fg, fb] = hexToRgb(color);
+  const visited = new Uint8Array(width * height);
+
+  const matches = (i: number): boolean => {
+    if (visited[i] || (barrier && barrier[i])) return false;
+    const [r, g, b] = read(i);
+    return Math.abs(r - tr) <= tolerance && Math.abs(g - tg) <= tolerance && Math.abs(b - tb) <= tolerance;
+  };
+
+  const paint = (i: number) => {
+    const [r, g, b] = read(i);
+    const p = i * 4;
+    data[p] = Math.round(r + (fr - r) * alpha);
+    data[p + 1] = Math.round(g + (fg - g) * alpha);
+    data[p + 2] = Math.round(b + (fb - b) * alpha);
+    data[p + 3] = 255;
+    visited[i] = 1;
+  };
+
+  const stack: number[] = [sx, sy];
+  while (stack.length > 0) {
+    const y = stack.pop() as number;
+    let x = stack.pop() as number;
+    const row = y * width;
+    if (!matches(row + x)) continue;
+
+    while (x > 0 && matches(row + x - 1)) x--;
+
+    let spanAbove = false;
+    let spanBelow = false;
+    for (; x < width && matches(row + x); x++) {
+      paint(row + x);
+      if (y > 0) {
+        const above = matches(row - width + x);
+        if (above && !spanAbove) stack.push(x, y - 1);
+        spanAbove = above;
+      }
+      if (y < height - 1) {
+        const below = matches(row + width + x);
+        if (below && !spanBelow) stack.push(x, y + 1);
+        spanBelow = below;
+      }
+    }
+  }
+  return true;
+};
+
+/**
+ * Draw one op onto a canvas whose drawing units are `width` x `height`.
+ * Fills work on the canvas's real pixels, so `barrier` must match ctx.canvas's size.
+ */
+export const applyDrawingOp = (
+  ctx: CanvasRenderingContext2D,
+  op: DrawingOp,
+  width: number,
+  height: number,
+  barrier: Uint8Array | null
+) => {
+  switch (op.type) {
+    case 'stroke': {
+      const size = op.width * width;
+      const pts = op.points;
+      if (pts.length < 2) return;
+      drawStrokeStart(ctx, pts[0] * width, pts[1] * height, size, op.color, op.alpha, op.erase);
+      for (let i = 2; i + 1 < pts.length; i += 2) {
+        drawStrokeSegment(
+          ctx,
+          pts[i - 2] * width, pts[i - 1] * height,
+          pts[i] * width, pts[i + 1] * height,
+          size, op.color, op.alpha, op.erase
+        );
+      }
+      return;
+    }
+    case 'fill': {
+      const { width: pixelWidth, height: pixelHeight } = ctx.canvas;
+      try {
+        const imageData = ctx.getImageData(0, 0, pixelWidth, pixelHeight);
+        if (floodFill(imageData, barrier, op.x * pixelWidth, op.y * pixelHeight, op.color, op.alpha, op.tolerance)) {
+          ctx.putImageData(imageData, 0, 0);
+        }
+      } catch (err) {
+        console.log('🪣 Fill skipped - canvas pixels unreadable:', err);
+      }
+      return;
+    }
+    case 'sticker':
+      drawSticker(ctx, op.emoji, op.x * width, op.y * height, op.size * width);
+      return;
+    case 'stamp':
+      drawStamp(ctx, op.shape, op.x * width, op.y * height, op.size * width, op.color);
+      return;
+    case 'clear':
+    default:
+      // Handled by renderDrawingDocument (restarts the page)
+      return;
+  }
+};
+
+// Fit an image inside the page, centered - how 'underlay' pictures are painted in
+const drawContained = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.min(width / image.width, height / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  ctx.drawImage(image, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+export interface RenderDrawingOptions {
+  // The coloring picture, painted into the page first in 'underlay' mode
+  underlay?: HTMLImageElement | null;
+  // Decoded legacy bitmap (DrawingDocument.base)
+  base?: HTMLImageElement | null;
+  barrier?: Uint8Array | null;
+}
+
+/**
+ * Redraw a whole document from scratch: white paper, then every op since the last clear
+ */
+export const renderDrawingDocument = (
+  ctx: CanvasRenderingContext2D,
+  doc: DrawingDocument,
+  width: number,
+  height: number,
+  options: RenderDrawingOptions = {}
+) => {
+  const start = firstVisibleOp(doc.ops);
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = 1;
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  if (start === 0 && options.base) {
+    ctx.drawImage(options.base, 0, 0, width, height);
+  } else if (doc.background === 'underlay' && options.underlay) {
+    drawContained(ctx, options.underlay, width, height);
+  }
+  ctx.restore();
+
+  for (let i = start; i < doc.ops.length; i++) {
+    applyDrawingOp(ctx, doc.ops[i], width, height, options.barrier || null);
+  }
+};
+
+export const loadImage = (src: string, crossOrigin = true): Promise<HTMLImageElement | null> =>
+  new Promise((resolve) => {
+    const img = new Image();
+    if (crossOrigin) img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+
+/**
+ * Render a document with its line art on top as a JPEG data URL, `outputWidth`
+ * pixels wide (height follows the page's aspect). Used for fridge pictures.
+ */
+export const renderDrawingComposite = async (
+  doc: DrawingDocument,
+  lineArtUrl: string | undefined,
+  outputWidth: number
+): Promise<string | null> => {
+  const width = Math.max(1, Math.round(outputWidth));
+  const height = Math.max(1, Math.round(width * (doc.height / doc.width)));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const [lineArt, base] = await Promise.all([
+    lineArtUrl ? loadImage(lineArtUrl) : Promise.resolve(null),
+    doc.base ? loadImage(doc.base, false) : Promise.resolve(null),
+  ]);
+  const isOverlay = doc.background === 'overlay';
+
+  renderDrawingDocument(ctx, doc, width, height, {
+    underlay: isOverlay ? null : lineArt,
+    base,
+    barrier: isOverlay && lineArt ? buildLineArtBarrier(lineArt, width, height) : null,
+  });
+
+  if (isOverlay && lineArt) {
+    // Multiply keeps the black lines and lets the colors show through the white
+    ctx.globalCompositeOperation = 'multiply';
+    ctx.drawImage(lineArt, 0, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+  }
+
+  try {
+    return canvas.toDataURL('image/jpeg', 0.92);
+  } catch (err) {
+    console.error('📸 Could not export drawing composite:', err);
+    return null;
+  }
+};
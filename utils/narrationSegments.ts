@@ -0,0 +1,155 @@
+/**
+ * Narration Segment Utilities
+ * Splits page text into narrator / @Character segments for multi-voice TTS.
+ * Shared by the book reader and the offline book downloader so both ask the
+ * TTS backend for exactly the same text + voice pairs.
+ */
+
+export interface CharacterVoice {
+  characterName: string;
+  voiceId: string;
+  color?: string;
+}
+
+/**
+ * Represents a segment of text to be spoken with a specific voice.
+ * Used for multi-segment TTS where narrator and characters alternate.
+ *
+ * Example: "Moses said @Moses "Let my people go" then Pharaoh replied @Pharaoh "Never!""
+ * Becomes 4 segments:
+ *   1. { text: "Moses said", isNarrator: true }
+ *   2. { text: "Let my people go", characterName: "Moses" }
+ *   3. { text: "then Pharaoh replied", isNarrator: true }
+ *   4. { text: "Never!", characterName: "Pharaoh" }
+ */
+export interface TextSegment {
+  text: string;           // The actual text to speak
+  voiceId: string;        // Voice ID to use for this segment
+  characterName?: string; // Character name (if character voice)
+  isNarrator: boolean;    // True if narrator voice
+  startIndex: number;     // Start position in original cleaned text (for highlighting)
+  endIndex: number;       // End position in original cleaned text (for highlighting)
+}
+
+/**
+ * Parse text into multiple segments for multi-voice TTS playback.
+ * Handles text with multiple @Character tags that need different voices.
+ *
+ * Supports both formats:
+ * - @Moses "dialogue" (tag outside quotes)
+ * - "@Moses dialogue" (tag inside quotes)
+ *
+ * Characters without an assigned voice fall back to the narrator voice.
+ */
+export function parseTextIntoSegments(
+  text: string,
+  narratorVoiceId: string,
+  characterVoices: CharacterVoice[] = []
+): TextSegment[] {
+  const segments: TextSegment[] = [];
+
+  // Normalize quotes first - convert ALL types of quotes to straight quotes
+  // Include fullwidth, CJK, and other Unicode quote variants
+  const normalizedText = text
+    .replace(/[""„«»「」『』〝〞＂❝❞⹂〟‟″‶]/g, '"')  // ALL double quote variants
+    .replace(/[''‚‹›「」＇❛❜‛′‵]/g, "'"); // ALL single quote variants
+
+  // Combined regex to match both formats:
+  // 1. @Character "dialogue" - tag outside quotes
+  // 2. "@Character dialogue" - tag inside quotes
+  const characterPattern = /(?:@(\w+)\s*"([^"]+)"|"@(\w+)\s+([^"]+)")/g;
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  let cleanTextIndex = 0; // Track position in cleaned text for highlighting
+
+  while ((match = characterPattern.exec(normalizedText)) !== null) {
+    // Get narrator text before this character dialogue
+    const narratorText = normalizedText.slice(lastIndex, match.index).trim();
+
+    if (narratorText) {
+      // Calculate position in cleaned text
+      const cleanNarratorText = narratorText.replace(/\s+/g, ' ').trim();
+      const startIdx = cleanTextIndex;
+      const endIdx = cleanTextIndex + cleanNarratorText.length;
+      cleanTextIndex = endIdx + 1; // +1 for space
+
+      segments.push({
+        text: cleanNarratorText,
+        voiceId: narratorVoiceId,
+        isNarrator: true,
+        startIndex: startIdx,
+        endIndex: endIdx
+      });
+    }
+
+    // match[1] and match[2] are for @Name "text" pattern
+    // match[3] and match[4] are for "@Name text" pattern
+    const charName = match[1] || match[3];
+    const dialogueText = match[2] || match[4];
+
+    if (charName && dialogueText) {
+      const character = characterVoices.find(c =>
+        c.characterName.toLowerCase() === charName.toLowerCase()
+      );
+
+      // Calculate position in cleaned text (dialogue is in quotes)
+      const startIdx = cleanTextIndex + 1; // +1 for opening quote
+      const endIdx = startIdx + dialogueText.length;
+      cleanTextIndex = endIdx + 2; // +2 for closing quote and space
+
+      segments.push({
+        text: dialogueText,
+        voiceId: character?.voiceId || narratorVoiceId,
+        characterName: character?.characterName || charName,
+        isNarrator: false,
+        startIndex: startIdx,
+        endIndex: endIdx
+      });
+
+      if (!character) {
+        console.warn(`⚠️ Character @${charName} not found in characterVoices, using narrator voice`);
+      }
+    }
+
+    lastIndex = match.index + match[0].length;
+  }
+
+  // Get any remaining narrator text after the last character dialogue
+  const remainingText = normalizedText.slice(lastIndex).trim();
+  if (remainingText) {
+    const cleanRemainingText = remainingText
+      .replace(/@\w+\s*/g, '') // Remove stray @tags
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (cleanRemainingText) {
+      segments.push({
+        text: cleanRemainingText,
+        voiceId: narratorVoiceId,
+        isNarrator: true,
+        startIndex: cleanTextIndex,
+        endIndex: cleanTextIndex + cleanRemainingText.length
+      });
+    }
+  }
+
+  // If no segments were created (no character tags), create single narrator segment
+  if (segments.length === 0) {
+    const cleanText = text
+      .replace(/@\w+\s*/g, '') // Remove any stray @tags
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    segments.push({
+      text: cleanText,
+      voiceId: narratorVoiceId,
+      isNarrator: true,
+      startIndex: 0,
+      endIndex: cleanText.length
+    });
+  }
+
+  // Filter out any empty segments
+  return segments.filter(s => s.text && s.text.trim().length > 0);
+}
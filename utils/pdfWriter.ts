@@ -0,0 +1,53 @@
+/**
+ * PDF Writer
+ * Byte-level PDF file writer shared by the app's art book and the portal's print exports:
+ * numbered objects, optional streams, and the xref table / trailer that index them.
+ * Callers lay out their own pages - this only keeps the byte offsets right.
+ */
+
+// Content streams are Latin-1 (WinAnsi) bytes, not UTF-8
+export const latin1 = (text: string): Uint8Array => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+export class PdfWriter {
+  private chunks: Uint8Array[] = [];
+  private length = 0;
+  private offsets: number[] = [];
+  private encoder = new TextEncoder();
+
+  constructor() {
+    this.write('%PDF-1.4\n');
+    // Binary marker so transfer tools treat the file as binary
+    this.write(latin1('%\xE2\xE3\xCF\xD3\n'));
+  }
+
+  write(data: string | Uint8Array): void {
+    const bytes = typeof data === 'string' ? this.encoder.encode(data) : data;
+    this.chunks.push(bytes);
+    this.length += bytes.length;
+  }
+
+  // Objects must be added in id order, starting at 1
+  addObject(id: number, body: string, stream?: Uint8Array): void {
+    this.offsets[id] = this.length;
+    this.write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      this.write('stream\n');
+      this.write(stream);
+      this.write('\nendstream\n');
+    }
+    this.write('endobj\n');
+  }
+
+  finish(rootId: number, infoId?: number): Blob {
+    const count = this.offsets.length;
+    const xrefOffset = this.length;
+    let xref = `xref\n0 ${count}\n0000000000 65535 f \n`;
+    for (let id = 1; id < count; id++) {
+      xref += `${String(this.offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    this.write(xref);
+    const info = infoId ? ` /Info ${infoId} 0 R` : '';
+    this.write(`trailer\n<< /Size ${count} /Root ${rootId} 0 R${info} >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return new Blob(this.chunks as BlobPart[], { type: 'application/pdf' });
+  }
+}
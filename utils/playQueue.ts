@@ -0,0 +1,250 @@
+/**
+ * Play Queue
+ * What the audio player plays next: entries that point into one or more playlists
+ * (catalog playlists and user playlists alike), kept in play order.
+ * Pure functions - AudioContext holds the queue and playQueueService persists it.
+ *
+ * Shuffle reorders only what hasn't played yet, so nothing repeats until the queue
+ * runs out; with repeat-all the whole queue is reshuffled for the next lap.
+ */
+import type { Playlist, AudioItem } from '../context/AudioContext';
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export const REPEAT_MODES: RepeatMode[] = ['off', 'all', 'one'];
+
+export interface QueueEntry {
+  queueId: string; // unique per entry - the same track can be queued twice
+  playlistId: string;
+  itemIndex: number; // index into the playlist's items
+}
+
+export interface PlayQueue {
+  entries: QueueEntry[]; // play order (shuffled while shuffle is on)
+  unshuffled: string[]; // queueIds in the order they were added, for turning shuffle off
+  position: number; // index of the current entry, -1 when the queue is empty
+  playlists: Record<string, Playlist>; // every playlist an entry points into
+  shuffle: boolean;
+  repeat: RepeatMode;
+}
+
+export interface ResolvedQueueEntry {
+  entry: QueueEntry;
+  playlist: Playlist;
+  item: AudioItem;
+}
+
+const createQueueId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const shuffled = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const createEntries = (playlist: Playlist, itemIndexes: number[]): QueueEntry[] =>
+  itemIndexes
+    .filter(index => !!playlist.items[index])
+    .map(itemIndex => ({ queueId: createQueueId(), playlistId: playlist._id, itemIndex }));
+
+// Drop playlists no entry points into any more
+const prunePlaylists = (entries: QueueEntry[], playlists: Record<string, Playlist>): Record<string, Playlist> => {
+  const result: Record<string, Playlist> = {};
+  entries.forEach(entry => {
+    if (playlists[entry.playlistId]) result[entry.playlistId] = playlists[entry.playlistId];
+  });
+  return result;
+};
+
+export const createEmptyQueue = (shuffle = false, repeat: RepeatMode = 'off'): PlayQueue => ({
+  entries: [],
+  unshuffled: [],
+  position: -1,
+  playlists: {},
+  shuffle,
+  repeat,
+});
+
+export const getCurrentEntry = (queue: PlayQueue): QueueEntry | null =>
+  queue.position >= 0 ? queue.entries[queue.position] || null : null;
+
+export const resolveEntry = (queue: PlayQueue, entry: QueueEntry): ResolvedQueueEntry | null => {
+  const playlist = queue.playlists[entry.playlistId];
+  const item = playlist?.items[entry.itemIndex];
+  return playlist && item ? { entry, playlist, item } : null;
+};
+
+/**
+ * Replace the queue with a whole playlist, starting at `startIndex`.
+ * When shuffling, the chosen track plays first and the rest are shuffled behind it.
+ */
+export const startPlaylist = (queue: PlayQueue, playlist: Playlist, startIndex: number): PlayQueue => {
+  const entries = createEntries(playlist, playlist.items.map((_, index) => index));
+  if (entries.length === 0) return createEmptyQueue(queue.shuffle, queue.repeat);
+  const start = Math.max(0, entries.findIndex(e => e.itemIndex === startIndex));
+  const unshuffled = entries.map(e => e.queueId);
+
+  if (queue.shuffle) {
+    const [first] = entries.splice(start, 1);
+    return { ...queue, entries: [first, ...shuffled(entries)], unshuffled, position: 0, playlists: { [playlist._id]: playlist } };
+  }
+  return { ...queue, entries, unshuffled, position: start, playlists: { [playlist._id]: playlist } };
+};
+
+// A fresh queue of just some items of a playlist (queueing into an empty player)
+const startPlaylistItems = (queue: PlayQueue, playlist: Playlist, itemIndexes: number[]): PlayQueue => {
+  const entries = createEntries(playlist, itemIndexes);
+  if (entries.length === 0) return queue;
+  return {
+    ...queue,
+    entries: queue.shuffle ? shuffled(entries) : entries,
+    unshuffled: entries.map(e => e.queueId),
+    position: 0,
+    playlists: { [playlist._id]: playlist },
+  };
+};
+
+// "Play next" - straight after the current entry, shuffled or not
+export const insertNext = (queue: PlayQueue, playlist: Playlist, itemIndex: number): PlayQueue => {
+  const current = getCurrentEntry(queue);
+  if (!current) return startPlaylistItems(queue, playlist, [itemIndex]);
+  const added = createEntries(playlist, [itemIndex]);
+  const entries = [...queue.entries];
+  entries.splice(queue.position + 1, 0, ...added);
+  const unshuffled = [...queue.unshuffled];
+  unshuffled.splice(unshuffled.indexOf(current.queueId) + 1, 0, ...added.map(e => e.queueId));
+  return { ...queue, entries, unshuffled, playlists: { ...queue.playlists, [playlist._id]: playlist } };
+};
+
+// "Add to queue" - at the end (a shuffled queue slots them in among the upcoming entries)
+export const appendToQueue = (queue: PlayQueue, playlist: Playlist, itemIndexes: number[]): PlayQueue => {
+  if (!getCurrentEntry(queue)) return startPlaylistItems(queue, playlist, itemIndexes);
+  const added = createEntries(playlist, itemIndexes);
+  const upcoming = queue.entries.slice(queue.position + 1);
+  added.forEach(entry => {
+    const at = queue.shuffle ? Math.floor(Math.random() * (upcoming.length + 1)) : upcoming.length;
+    upcoming.splice(at, 0, entry);
+  });
+  return {
+    ...queue,
+    entries: [...queue.entries.slice(0, queue.position + 1), ...upcoming],
+    unshuffled: [...queue.unshuffled, ...added.map(e => e.queueId)],
+    playlists: { ...queue.playlists, [playlist._id]: playlist },
+  };
+};
+
+/**
+ * Take an entry out of the queue. Removing the current entry moves on to the one after it
+ * (or the one before, if it was last).
+ */
+export const removeEntry = (queue: PlayQueue, queueId: string): PlayQueue => {
+  const index = queue.entries.findIndex(e => e.queueId === queueId);
+  if (index < 0) return queue;
+  const entries = queue.entries.filter(e => e.queueId !== queueId);
+  let position = queue.position;
+  if (index < position) position -= 1;
+  position = Math.min(position, entries.length - 1);
+  return {
+    ...queue,
+    entries,
+    unshuffled: queue.unshuffled.filter(id => id !== queueId),
+    position,
+    playlists: prunePlaylists(entries, queue.playlists),
+  };
+};
+
+// Drop everything after the current entry
+export const clearUpcoming = (queue: PlayQueue): PlayQueue => {
+  const entries = queue.entries.slice(0, queue.position + 1);
+  const kept = new Set(entries.map(e => e.queueId));
+  return {
+    ...queue,
+    entries,
+    unshuffled: queue.unshuffled.filter(id => kept.has(id)),
+    playlists: prunePlaylists(entries, queue.playlists),
+  };
+};
+
+/**
+ * Apply a drag-reordered "up next" list. Without shuffle the new order also becomes
+ * the order shuffle returns to.
+ */
+export const reorderUpcoming = (queue: PlayQueue, upcomingIds: string[]): PlayQueue => {
+  const byId = new Map(queue.entries.map(e => [e.queueId, e]));
+  const upcoming = upcomingIds.map(id => byId.get(id)).filter((e): e is QueueEntry => !!e);
+  if (upcoming.length !== queue.entries.length - queue.position - 1) return queue;
+  const entries = [...queue.entries.slice(0, queue.position + 1), ...upcoming];
+  return { ...queue, entries, unshuffled: queue.shuffle ? queue.unshuffled : entries.map(e => e.queueId) };
+};
+
+export const jumpToEntry = (queue: PlayQueue, queueId: string): PlayQueue => {
+  const position = queue.entries.findIndex(e => e.queueId === queueId);
+  return position < 0 ? queue : { ...queue, position };
+};
+
+export const setShuffle = (queue: PlayQueue, shuffle: boolean): PlayQueue => {
+  if (shuffle === queue.shuffle) return queue;
+  const current = getCurrentEntry(queue);
+  if (!current) return { ...queue, shuffle };
+
+  if (shuffle) {
+    const played = queue.entries.slice(0, queue.position + 1);
+    return { ...queue, shuffle, entries: [...played, ...shuffled(queue.entries.slice(queue.position + 1))] };
+  }
+
+  // Back to the added order, carrying on from the current entry
+  const byId = new Map(queue.entries.map(e => [e.queueId, e]));
+  const entries = queue.unshuffled.map(id => byId.get(id)).filter((e): e is QueueEntry => !!e);
+  return { ...queue, shuffle, entries, position: entries.findIndex(e => e.queueId === current.queueId) };
+};
+
+export const setRepeat = (queue: PlayQueue, repeat: RepeatMode): PlayQueue => ({ ...queue, repeat });
+
+export const nextRepeatMode = (mode: RepeatMode): RepeatMode =>
+  REPEAT_MODES[(REPEAT_MODES.indexOf(mode) + 1) % REPEAT_MODES.length];
+
+/**
+ * The queue moved on to the next entry, or null when it has run out.
+ * Repeat-all starts another lap (freshly shuffled, never opening with the entry that just played).
+ */
+export const advanceQueue = (queue: PlayQueue): PlayQueue | null => {
+  if (queue.position < 0) return null;
+  if (queue.position < queue.entries.length - 1) return { ...queue, position: queue.position + 1 };
+  if (queue.repeat !== 'all' || queue.entries.length === 0) return null;
+
+  if (!queue.shuffle || queue.entries.length === 1) return { ...queue, position: 0 };
+  const last = queue.entries[queue.position];
+  const rest = shuffled(queue.entries.slice(0, queue.position));
+  const insertAt = 1 + Math.floor(Math.random() * rest.length);
+  rest.splice(insertAt, 0, last);
+  return { ...queue, entries: rest, position: 0 };
+};
+
+// The queue moved back one entry, or null at the start (repeat-all wraps to the end)
+export const rewindQueue = (queue: PlayQueue): PlayQueue | null => {
+  if (queue.position > 0) return { ...queue, position: queue.position - 1 };
+  if (queue.position === 0 && queue.repeat === 'all' && queue.entries.length > 1) {
+    return { ...queue, position: queue.entries.length - 1 };
+  }
+  return null;
+};
+
+/**
+ * The entry the queue will move on to once the current one ends, without moving there.
+ * Null when that isn't known ahead of time (repeat-one, or a repeat-all lap that gets reshuffled).
+ */
+export const peekNextEntry = (queue: PlayQueue): QueueEntry | null => {
+  if (queue.position < 0 || queue.repeat === 'one') return null;
+  if (queue.position < queue.entries.length - 1) return queue.entries[queue.position + 1];
+  if (queue.repeat === 'all' && !queue.shuffle && queue.entries.length > 1) return queue.entries[0];
+  return null;
+};
+
+export const canAdvance = (queue: PlayQueue): boolean =>
+  queue.position >= 0 && (queue.position < queue.entries.length - 1 || queue.repeat === 'all');
+
+export const canRewind = (queue: PlayQueue): boolean =>
+  queue.position > 0 || (queue.position === 0 && queue.repeat === 'all' && queue.entries.length > 1);
@@ -11,11 +11,11 @@ const EMOTIONAL_CUE_REGEX = /\[[^\]]+\]/g;
 
 // Regex to match @CharacterName tags ANYWHERE in text (global)
 // Format: @CharacterName followed by space (the name is alphanumeric only)
-const CHARACTER_TAG_REGEX = /@\w+\s+/g;
+export const CHARACTER_TAG_REGEX = /@\w+\s+/g;
 
 // Regex to match @CharacterName "quoted text" pattern ANYWHERE - extracts just the quoted text
 // This is used globally to replace all instances
-const CHARACTER_QUOTED_REGEX = /@\w+\s+"([^"]+)"/g;
+export const CHARACTER_QUOTED_REGEX = /@\w+\s+"([^"]+)"/g;
 
 /**
  * Process text with emotional cues for TTS